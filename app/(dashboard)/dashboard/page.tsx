@@ -6,6 +6,7 @@ import { createClient } from '@/lib/supabase/client'
 import { LoadingPage } from '@/components/ui/loading'
 import { useUser } from '@/hooks/use-auth'
 import { formatCurrency, cn } from '@/lib/utils'
+import { calculateBurdenedCost } from '@/lib/services/burden-rates'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -43,6 +44,8 @@ import {
 } from 'lucide-react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
+import { PortfolioCashFlowCard } from '@/components/dashboard/portfolio-cash-flow-card'
+import { ForecastAccuracyCard } from '@/components/dashboard/forecast-accuracy-card'
 
 interface DashboardData {
   metrics: {
@@ -297,7 +300,7 @@ export default function DashboardPage() {
       // Note: Supabase "Max Rows Returned" setting should be set to 10000+ to get all records
       const { data: laborActuals, error: laborError } = await supabase
         .from('labor_employee_actuals')
-        .select('project_id, st_wages, ot_wages, total_cost_with_burden')
+        .select('project_id, st_wages, ot_wages, burden_rate, total_cost_with_burden')
         .in('project_id', projectIds)
       
       if (laborError) {
@@ -356,16 +359,9 @@ export default function DashboardPage() {
 
         // Calculate labor actual costs with burden
         // IMPORTANT: total_cost_with_burden already includes the burden
+        // Falls back to the record's burden rate on straight time wages when missing
         const laborActualCosts = projectLabor.reduce(
-          (sum, la) => {
-            // Use total_cost_with_burden if available (it's the correct burdened cost)
-            if (la.total_cost_with_burden !== null && la.total_cost_with_burden !== undefined) {
-              return sum + la.total_cost_with_burden
-            }
-            // Fallback: calculate burden as wages * 1.28 (28% burden)
-            const wages = (la.st_wages || 0) + (la.ot_wages || 0)
-            return sum + (wages * 1.28)
-          }, 
+          (sum, la) => sum + calculateBurdenedCost(la),
           0
         )
 
@@ -442,7 +438,7 @@ export default function DashboardPage() {
               st_wages: projectLabor[0].st_wages,
               ot_wages: projectLabor[0].ot_wages,
               total_cost_with_burden: projectLabor[0].total_cost_with_burden,
-              calculated: projectLabor[0].total_cost_with_burden || ((projectLabor[0].st_wages || 0) + (projectLabor[0].ot_wages || 0)) * 1.28
+              calculated: calculateBurdenedCost(projectLabor[0])
             } : null,
             sumOfBurden: projectLabor.reduce((sum, la) => sum + (la.total_cost_with_burden || 0), 0),
             sumOfWages: projectLabor.reduce((sum, la) => sum + ((la.st_wages || 0) + (la.ot_wages || 0)), 0)
@@ -581,6 +577,12 @@ export default function DashboardPage() {
               Import Labor Hours
             </Button>
           </Link>
+          <Link href="/revenue-forecast">
+            <Button variant="outline">
+              <TrendingUp className="h-4 w-4 mr-2" />
+              Revenue Forecast
+            </Button>
+          </Link>
         </div>
       </div>
 
@@ -646,6 +648,9 @@ export default function DashboardPage() {
         </Card>
       </div>
 
+      <PortfolioCashFlowCard />
+
+      <ForecastAccuracyCard />
 
       {/* Projects Table with Filters */}
       <div className="space-y-4">
@@ -12,9 +12,11 @@ import {
   Clock,
   Copy,
   TrendingUp,
+  Wand2,
 } from 'lucide-react'
 import { formatCurrency } from '@/lib/utils'
 import { formatWeekEnding } from '@/lib/validations/labor-forecast-v2'
+import { HeadcountCurveDialog } from '@/components/labor/headcount-curve-dialog'
 
 // interface CraftType {
 //   id: string
@@ -38,6 +40,8 @@ interface HeadcountEntry {
 
 interface WeekData {
   weekEnding: string
+  // Generated from the budget curve and not yet saved by the PM
+  isDraft?: boolean
   entries: HeadcountEntry[]
   totals: {
     headcount: number
@@ -75,6 +79,7 @@ export default function HeadcountForecastPage() {
   // const [craftTypes, setCraftTypes] = useState<CraftType[]>([])
   const [weeklyData, setWeeklyData] = useState<WeekData[]>([])
   const [selectedWeekIndex, setSelectedWeekIndex] = useState<number | null>(null)
+  const [curveDialogOpen, setCurveDialogOpen] = useState(false)
   
   // const supabase = createClient()
 
@@ -291,6 +296,13 @@ export default function HeadcountForecastPage() {
                 <option value="16">16 weeks</option>
               </select>
             </div>
+            <button
+              onClick={() => setCurveDialogOpen(true)}
+              className="px-4 py-2 border border-foreground/30 rounded-lg text-sm font-medium text-foreground hover:bg-foreground/5 flex items-center gap-2"
+            >
+              <Wand2 className="h-4 w-4" />
+              Generate from Budget
+            </button>
           </div>
         </div>
       </div>
@@ -370,6 +382,9 @@ export default function HeadcountForecastPage() {
                 }`}
               >
                 Week {index + 1}
+                {week.isDraft && (
+                  <span className="ml-1 rounded bg-amber-100 px-1 text-xs text-amber-800">Draft</span>
+                )}
                 <br />
                 <span className="text-xs">{formatWeekEnding(new Date(week.weekEnding))}</span>
               </button>
@@ -482,6 +497,18 @@ export default function HeadcountForecastPage() {
           {saving ? 'Saving...' : 'Save Forecast'}
         </button>
       </div>
+
+      <HeadcountCurveDialog
+        projectId={projectId}
+        open={curveDialogOpen}
+        onOpenChange={setCurveDialogOpen}
+        onGenerated={(result) => {
+          setSuccessMessage(
+            `Draft forecast generated: ${result.written} entries across ${result.weeks.length} weeks.`
+          )
+          fetchData()
+        }}
+      />
     </div>
   )
 }
\ No newline at end of file
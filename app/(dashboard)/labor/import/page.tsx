@@ -28,17 +28,35 @@ import { useUser } from '@/hooks/use-auth'
 import * as XLSX from 'xlsx'
 import { formatCurrency, cn } from '@/lib/utils'
 import { toast } from 'sonner'
-import { parseExcelDate, EXCEL_HEADERS, EXCEL_COLUMNS } from '@/lib/validations/labor-import'
 import type { LaborImportResult } from '@/lib/validations/labor-import'
+import {
+  DEFAULT_BURDEN_RATE,
+  normalizeBurdenCategory,
+  type EffectiveBurdenRates
+} from '@/lib/services/burden-rates'
+import {
+  readTimesheetWorkbook,
+  resolveTimesheetAdapter,
+  type TimesheetFormat
+} from '@/lib/services/timesheet-adapters'
+import { parseDateValue } from '@/lib/services/timesheet-adapters/utils'
 import { EmployeeDataFixModal } from '@/components/labor/employee-data-fix-modal'
 import { BulkEmployeeFix } from '@/components/labor/bulk-employee-fix'
 import { ImportProgressIndicator } from '@/components/labor/import-progress-indicator'
 import { ErrorDetailsPanel } from '@/components/labor/error-details-panel'
+import { TimesheetFormatDialog } from '@/components/labor/timesheet-format-dialog'
+import { ImportConflictDialog } from '@/components/imports/import-conflict-dialog'
+import { LaborImportPreviewDialog } from '@/components/labor/labor-import-preview-dialog'
+import type { ImportConflict, ImportConflictStrategy } from '@/lib/services/import-fingerprint'
+import type { LaborImportPreview } from '@/lib/services/labor-import-preview'
+import type { EmployeeResolution } from '@/lib/services/employee-reconciliation'
 
 interface PreviewData {
   contractorNumber: string
   contractorInfo: ContractorInfo | null
   weekEnding: Date
+  formatId?: string
+  formatName?: string
   matchedProject?: {
     id: string
     job_number: string
@@ -55,6 +73,7 @@ interface PreviewData {
     totalCost: number
     exists?: boolean
     dbRate?: number
+    burdenRate?: number
   }>
   totals: {
     employees: number
@@ -83,6 +102,12 @@ interface NewCraft {
   labor_category?: 'direct' | 'indirect' | 'staff'
 }
 
+// Choices made on the preview dialog
+interface ImportConfirmation {
+  strategy: ImportConflictStrategy | null
+  resolution: EmployeeResolution
+}
+
 interface ContractorInfo {
   jobNumber: string
   contractType: string
@@ -103,6 +128,8 @@ function parseContractorString(contractor: string): ContractorInfo | null {
   }
 }
 
+const isTimesheetFile = (fileName: string) => /\.(xlsx|xls|csv)$/i.test(fileName)
+
 export default function LaborImportPage() {
   const router = useRouter()
   const searchParams = useSearchParams()
@@ -112,7 +139,17 @@ export default function LaborImportPage() {
   const [files, setFiles] = useState<File[]>([])
   const [currentFileIndex, setCurrentFileIndex] = useState<number>(0)
   const [preview, setPreview] = useState<PreviewData | null>(null)
+  const [burdenRates, setBurdenRates] = useState<EffectiveBurdenRates | null>(null)
   const [selectedProject, setSelectedProject] = useState<string>(preselectedProjectId || '')
+  const [selectedFormat, setSelectedFormat] = useState<string>('auto')
+  const [weekEndingOverride, setWeekEndingOverride] = useState<string>('')
+  const [showFormatDialog, setShowFormatDialog] = useState(false)
+  const [pendingConflict, setPendingConflict] = useState<{ fileName: string; conflict: ImportConflict } | null>(null)
+  const conflictResolver = useRef<((strategy: ImportConflictStrategy | null) => void) | null>(null)
+  const [pendingPreview, setPendingPreview] = useState<{ fileName: string; preview: LaborImportPreview } | null>(null)
+  const previewResolver = useRef<((decision: ImportConfirmation | null) => void) | null>(null)
+  // Project whose burden rates the preview costs were last calculated with
+  const ratesProjectId = useRef<string | null>(null)
   const [importResults, setImportResults] = useState<Map<string, LaborImportResult>>(new Map())
   const [isProcessingBatch, setIsProcessingBatch] = useState(false)
   const [expandedErrors, setExpandedErrors] = useState<Set<string>>(new Set())
@@ -177,6 +214,55 @@ export default function LaborImportPage() {
     }
   })
 
+  // Fetch supported timesheet layouts (built-in and saved column mappings)
+  const { data: formatsData, refetch: refetchFormats } = useQuery<{
+    formats: Array<{ id: string; name: string; description: string; builtIn: boolean }>
+    savedFormats: TimesheetFormat[]
+  }>({
+    queryKey: ['timesheet-formats'],
+    queryFn: async () => {
+      const response = await fetch('/api/labor-import/formats')
+      if (!response.ok) throw new Error('Failed to fetch timesheet formats')
+      return response.json()
+    }
+  })
+
+  // Add the selected layout and week ending override to an import request
+  const appendFormatFields = (formData: FormData) => {
+    if (selectedFormat !== 'auto') {
+      formData.append('format_id', selectedFormat)
+    }
+    if (weekEndingOverride) {
+      formData.append('week_ending', weekEndingOverride)
+    }
+  }
+
+  // Ask how to handle a duplicate/overlapping file; resolves null when the user cancels
+  const requestConflictStrategy = (fileName: string, conflict: ImportConflict) =>
+    new Promise<ImportConflictStrategy | null>(resolve => {
+      conflictResolver.current = resolve
+      setPendingConflict({ fileName, conflict })
+    })
+
+  const resolvePendingConflict = (strategy: ImportConflictStrategy | null) => {
+    conflictResolver.current?.(strategy)
+    conflictResolver.current = null
+    setPendingConflict(null)
+  }
+
+  // Show the dry-run result for confirmation; resolves null when the user cancels
+  const requestImportConfirmation = (fileName: string, preview: LaborImportPreview) =>
+    new Promise<ImportConfirmation | null>(resolve => {
+      previewResolver.current = resolve
+      setPendingPreview({ fileName, preview })
+    })
+
+  const resolvePendingPreview = (decision: ImportConfirmation | null) => {
+    previewResolver.current?.(decision)
+    previewResolver.current = null
+    setPendingPreview(null)
+  }
+
   // Function to parse errors and extract employees with missing data
   const parseEmployeeErrors = (errors: any[]) => {
     const employeeMap = new Map<string, any>()
@@ -275,18 +361,32 @@ export default function LaborImportPage() {
     const fetchEmployeeRates = async () => {
       if (!preview?.employees || preview.employees.length === 0) return
       
-      // Check if we already have rates (already fetched)
+      // Check if we already have rates (already fetched) for the selected project
+      const projectId = selectedProject || preview.matchedProject?.id || null
       const hasRates = preview.employees.some(emp => emp.dbRate !== undefined)
-      if (hasRates) return
+      if (hasRates && ratesProjectId.current === projectId) return
+      ratesProjectId.current = projectId
       
       setIsFetchingRates(true)
       
       try {
+        // Resolve the project's configured burden rates for this week
+        const weekEnding = preview.weekEnding.toISOString().split('T')[0]
+        let effectiveRates: EffectiveBurdenRates | null = null
+        if (projectId) {
+          const ratesResponse = await fetch(`/api/projects/${projectId}/burden-rates?date=${weekEnding}`)
+          if (ratesResponse.ok) {
+            const { effective } = await ratesResponse.json()
+            effectiveRates = effective
+          }
+        }
+        setBurdenRates(effectiveRates)
+
         const employeeIds = preview.employees.map(emp => emp.employeeId)
         const response = await fetch('/api/employees/batch', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ employeeIds })
+          body: JSON.stringify({ employeeIds, weekEnding })
         })
 
         if (response.ok) {
@@ -295,14 +395,15 @@ export default function LaborImportPage() {
           // Update preview with actual rates from database
           let recalculatedTotalCost = 0
           const updatedEmployees = preview.employees.map(emp => {
-            const dbEmp = dbEmployees.find((e: { employeeNumber: string; baseRate: number }) => e.employeeNumber === emp.employeeId)
+            const dbEmp = dbEmployees.find((e: { employeeNumber: string; baseRate: number; category?: string }) => e.employeeNumber === emp.employeeId)
             const actualRate = dbEmp?.baseRate || emp.stRate || 0
+            const burdenRate = effectiveRates?.[normalizeBurdenCategory(dbEmp?.category)] ?? DEFAULT_BURDEN_RATE
             
             // Recalculate costs with actual rate
             const stWages = emp.stHours * actualRate
             const otWages = emp.otHours * actualRate * 1.5
-            // Apply 28% burden to straight-time wages only (matching backend logic)
-            const burdenAmount = stWages * 0.28
+            // Apply burden to straight-time wages only (matching backend logic)
+            const burdenAmount = stWages * burdenRate
             const totalCost = stWages + otWages + burdenAmount
             recalculatedTotalCost += totalCost
 
@@ -311,7 +412,8 @@ export default function LaborImportPage() {
               stRate: actualRate,
               totalCost,
               exists: dbEmp && dbEmp.employeeNumber !== undefined,
-              dbRate: dbEmp?.baseRate
+              dbRate: dbEmp?.baseRate,
+              burdenRate
             }
           })
 
@@ -332,7 +434,7 @@ export default function LaborImportPage() {
     }
 
     fetchEmployeeRates()
-  }, [preview?.employees])
+  }, [preview?.employees, selectedProject])
 
   const processFile = useCallback(async (selectedFile: File) => {
     setPreview(null)
@@ -340,9 +442,14 @@ export default function LaborImportPage() {
     try {
       // Read and parse file for preview
       const arrayBuffer = await selectedFile.arrayBuffer()
-      const workbook = XLSX.read(arrayBuffer, { type: 'array', cellDates: false })
-      
-      if (!workbook.SheetNames.includes('DOW')) {
+      const workbook = readTimesheetWorkbook(arrayBuffer, selectedFile.name)
+      const adapter = resolveTimesheetAdapter(
+        workbook,
+        formatsData?.savedFormats || [],
+        selectedFormat === 'auto' ? null : selectedFormat
+      )
+
+      if (!adapter) {
         setPreview({
           contractorNumber: '',
           contractorInfo: null,
@@ -350,35 +457,43 @@ export default function LaborImportPage() {
           employees: [],
           totals: { employees: 0, totalHours: 0, totalCost: 0 },
           isValid: false,
-          errors: ['Sheet "DOW" not found in Excel file']
+          errors: ['File does not match any supported timesheet format. Select a format or add a column mapping.']
         })
         return
       }
 
-      const worksheet = workbook.Sheets['DOW']
-      const data = XLSX.utils.sheet_to_json(worksheet, { header: 1, raw: true }) as unknown[][]
+      const timesheet = adapter.parse(workbook)
+      const weekEnding = weekEndingOverride
+        ? parseDateValue(weekEndingOverride)
+        : timesheet.weekEnding
+      const blockingErrors = weekEndingOverride && timesheet.rows.length > 0
+        ? []
+        : timesheet.validation.errors
 
-      if (data.length < EXCEL_HEADERS.DATA_START_ROW) {
+      if (blockingErrors.length > 0 || !weekEnding) {
         setPreview({
-          contractorNumber: '',
+          contractorNumber: timesheet.contractorNumber,
           contractorInfo: null,
           weekEnding: new Date(),
+          formatId: adapter.id,
+          formatName: adapter.name,
           employees: [],
           totals: { employees: 0, totalHours: 0, totalCost: 0 },
           isValid: false,
-          errors: ['Invalid Excel format. File does not have enough rows.']
+          errors: blockingErrors.length > 0
+            ? blockingErrors
+            : ['Week ending date not found in file. Enter it under Timesheet Format.']
         })
         return
       }
 
-      // Extract contractor number and week ending
-      // Fixed: Contractor at index 4 in row 4, week ending at index 4 in row 5
-      const contractorNumber = String(data[EXCEL_HEADERS.CONTRACTOR_ROW - 1][4] || '')
-      const weekEndingSerial = Number(data[EXCEL_HEADERS.WEEK_ENDING_ROW - 1][4])
-      const weekEnding = parseExcelDate(weekEndingSerial)
+      const contractorNumber = timesheet.contractorNumber
       
-      // Parse contractor info
-      const contractorInfo = parseContractorString(contractorNumber)
+      // Parse contractor info, falling back to the bare job number for layouts without a contractor string
+      const contractorInfo = parseContractorString(contractorNumber) ||
+        (timesheet.jobNumber
+          ? { jobNumber: timesheet.jobNumber, contractType: '', client: '' }
+          : null)
       
       // Try to auto-match project
       let matchedProject = undefined
@@ -396,65 +511,38 @@ export default function LaborImportPage() {
       }
 
       // Parse employee data
-      const employees: Array<{
-        employeeId: string
-        lastName: string
-        firstName: string
-        craftCode: string
-        stHours: number
-        otHours: number
-        stRate: number
-        totalCost: number
-        exists?: boolean
-        dbRate?: number
-      }> = []
+      const employees: PreviewData['employees'] = []
       let totalHours = 0
       let totalCost = 0
 
-      // Start from actual data row (index 9, row 10)
-      for (let i = 9; i < data.length; i++) {
-        const row = data[i]
-        
-        const employeeId = String(row[EXCEL_COLUMNS.EMPLOYEE_ID] || '').trim()
-        
-        // Stop if we hit the Grand Totals row
-        if (employeeId === 'Grand Totals' || employeeId.toLowerCase().includes('total')) {
-          break
-        }
-        
-        // Skip if not a valid employee ID (must match T#### pattern)
-        if (!employeeId || !/^T\d+$/.test(employeeId)) continue
-
-        const stHours = Number(row[EXCEL_COLUMNS.ST_HOURS]) || 0
-        const otHours = Number(row[EXCEL_COLUMNS.OT_HOURS]) || 0
+      for (const row of timesheet.rows) {
+        const { stHours, otHours, stRate } = row
         
         if (stHours === 0 && otHours === 0) continue
 
-        const stRate = Number(row[EXCEL_COLUMNS.ST_RATE]) || 0
         const stWages = stHours * stRate
         const otWages = otHours * stRate * 1.5
-        // Apply 28% burden to straight-time wages only (matching backend logic)
-        const burdenAmount = stWages * 0.28
+        // Estimate with the default burden until the project's rates are loaded
+        const burdenAmount = stWages * DEFAULT_BURDEN_RATE
         const employeeTotalCost = stWages + otWages + burdenAmount
 
         // Parse name from combined field (format: "Last, First")
-        const nameField = String(row[EXCEL_COLUMNS.NAME] || '').trim()
         let lastName = ''
         let firstName = ''
         
-        if (nameField.includes(',')) {
-          const nameParts = nameField.split(',')
+        if (row.name.includes(',')) {
+          const nameParts = row.name.split(',')
           lastName = nameParts[0].trim()
           firstName = nameParts[1] ? nameParts[1].trim() : ''
         } else {
-          lastName = nameField
+          lastName = row.name
         }
 
         employees.push({
-          employeeId,
+          employeeId: row.employeeNumber,
           lastName,
           firstName,
-          craftCode: String(row[EXCEL_COLUMNS.CRAFT_CODE] || '').trim(),
+          craftCode: row.craftCode,
           stHours,
           otHours,
           stRate,
@@ -470,6 +558,8 @@ export default function LaborImportPage() {
         contractorInfo,
         weekEnding,
         matchedProject,
+        formatId: adapter.id,
+        formatName: adapter.name,
         employees,
         totals: {
           employees: employees.length,
@@ -488,10 +578,10 @@ export default function LaborImportPage() {
         employees: [],
         totals: { employees: 0, totalHours: 0, totalCost: 0 },
         isValid: false,
-        errors: ['Failed to parse file. Please ensure it is a valid Excel file.']
+        errors: ['Failed to parse file. Please ensure it is a valid Excel or CSV file.']
       })
     }
-  }, [projectsData?.projects])
+  }, [projectsData?.projects, formatsData?.savedFormats, selectedFormat, weekEndingOverride])
 
   const handleFileSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = e.target.files
@@ -499,11 +589,11 @@ export default function LaborImportPage() {
     
     // Convert FileList to Array and filter for Excel files
     const excelFiles = Array.from(selectedFiles).filter(file => 
-      file.name.endsWith('.xlsx') || file.name.endsWith('.xls')
+      isTimesheetFile(file.name)
     )
     
     if (excelFiles.length === 0) {
-      toast.error('Please select Excel files (.xlsx or .xls)')
+      toast.error('Please select Excel or CSV files (.xlsx, .xls or .csv)')
       return
     }
     
@@ -548,7 +638,7 @@ export default function LaborImportPage() {
 
     const droppedFiles = Array.from(e.dataTransfer.files)
     const excelFiles = droppedFiles.filter(file => 
-      file.name.endsWith('.xlsx') || file.name.endsWith('.xls')
+      isTimesheetFile(file.name)
     )
 
     if (excelFiles.length > 0) {
@@ -566,7 +656,7 @@ export default function LaborImportPage() {
         employees: [],
         totals: { employees: 0, totalHours: 0, totalCost: 0 },
         isValid: false,
-        errors: ['Please drop Excel files (.xlsx or .xls)']
+        errors: ['Please drop Excel or CSV files (.xlsx, .xls or .csv)']
       })
     }
   }, [processFile])
@@ -686,6 +776,7 @@ export default function LaborImportPage() {
       const formData = new FormData()
       formData.append('file', file)
       formData.append('project_id', selectedProject)
+      appendFormatFields(formData)
       
       // If we just completed setup, add timestamp to force fresh queries
       if (justCompletedSetup) {
@@ -693,12 +784,76 @@ export default function LaborImportPage() {
       }
 
       try {
-        const response = await fetch('/api/labor-import', {
+        // Dry run first so the user can confirm what will be written
+        const previewData = new FormData()
+        formData.forEach((value, key) => previewData.append(key, value))
+        previewData.append('mode', 'preview')
+
+        const previewResponse = await fetch('/api/labor-import', {
+          method: 'POST',
+          body: previewData
+        })
+        const previewResult = await previewResponse.json()
+
+        if (!previewResponse.ok) {
+          results.set(file.name, {
+            success: false,
+            imported: 0,
+            updated: 0,
+            skipped: 0,
+            errors: previewResult.errors?.length
+              ? previewResult.errors
+              : [{ row: 0, message: previewResult.error || 'Import preview failed' }]
+          })
+          setImportResults(new Map(results))
+          continue
+        }
+
+        const decision = await requestImportConfirmation(file.name, previewResult)
+        if (!decision) {
+          results.set(file.name, {
+            success: false,
+            imported: 0,
+            updated: 0,
+            skipped: 0,
+            errors: [{ row: 0, message: 'Import cancelled' }]
+          })
+          setImportResults(new Map(results))
+          continue
+        }
+        if (decision.strategy) {
+          formData.append('conflict_strategy', decision.strategy)
+        }
+        formData.append('reconciliation', JSON.stringify(decision.resolution))
+
+        let response = await fetch('/api/labor-import', {
           method: 'POST',
           body: formData
         })
         
-        const data = await response.json()
+        let data = await response.json()
+
+        // Already imported (same file, same data or same week): merge, replace or skip
+        if (response.status === 409 && data.conflict) {
+          const strategy = await requestConflictStrategy(file.name, data.conflict)
+          if (strategy) {
+            formData.append('conflict_strategy', strategy)
+            response = await fetch('/api/labor-import', {
+              method: 'POST',
+              body: formData
+            })
+            data = await response.json()
+          } else {
+            data = {
+              success: false,
+              imported: 0,
+              updated: 0,
+              skipped: 0,
+              errors: [{ row: 0, message: `Import cancelled: ${data.conflict.message}` }]
+            }
+          }
+        }
+
         results.set(file.name, data)
         setImportResults(new Map(results))
         
@@ -888,9 +1043,9 @@ export default function LaborImportPage() {
           <div className="text-sm text-foreground">
             <p className="font-semibold mb-2">Import Instructions:</p>
             <ul className="list-disc ml-5 space-y-1">
-              <li>File must be in ICS Labor Cost Excel format with &quot;DOW&quot; sheet</li>
-              <li>Contractor number in row 4, week ending date in row 5</li>
-              <li>Employee data starts from row 10 with hours and rates</li>
+              <li>ICS Labor Cost files (&quot;DOW&quot; sheet) are detected automatically</li>
+              <li>Other payroll exports (Excel or CSV) can be imported with a saved column mapping</li>
+              <li>ICS files: contractor number in row 4, week ending date in row 5, employee data from row 10</li>
               <li>All labor will be imported as aggregated &quot;Direct Labor&quot; totals</li>
               <li>Total hours and costs will be summed from all employees</li>
               <li>Rows with 0 hours are automatically skipped</li>
@@ -936,6 +1091,50 @@ export default function LaborImportPage() {
         </Select>
       </Card>
 
+      {/* Timesheet Format */}
+      <Card className="p-6 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="timesheet-format" className="block text-sm font-medium text-foreground/80 mb-2">
+              Timesheet Format
+            </Label>
+            <div className="flex gap-2">
+              <Select value={selectedFormat} onValueChange={setSelectedFormat}>
+                <SelectTrigger id="timesheet-format">
+                  <SelectValue placeholder="Auto-detect" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Auto-detect</SelectItem>
+                  {formatsData?.formats.map(format => (
+                    <SelectItem key={format.id} value={format.id}>
+                      {format.name}{format.builtIn ? '' : ' (saved mapping)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={() => setShowFormatDialog(true)}>
+                Add Format
+              </Button>
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="week-ending-override" className="block text-sm font-medium text-foreground/80 mb-2">
+              Week Ending (optional)
+            </Label>
+            <input
+              id="week-ending-override"
+              type="date"
+              value={weekEndingOverride}
+              onChange={(e) => setWeekEndingOverride(e.target.value)}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+            />
+            <p className="text-xs text-foreground/60 mt-1">
+              Required when the file has no week ending column
+            </p>
+          </div>
+        </div>
+      </Card>
+
       {/* File Upload */}
       <Card className="p-6 mb-6">
         <div 
@@ -952,7 +1151,7 @@ export default function LaborImportPage() {
         >
           <input
             type="file"
-            accept=".xlsx,.xls"
+            accept=".xlsx,.xls,.csv"
             multiple
             onChange={handleFileSelect}
             className="hidden"
@@ -976,7 +1175,7 @@ export default function LaborImportPage() {
                   {files.length > 0 ? `${files.length} file(s) selected` : 'Click to upload or drag and drop'}
                 </p>
                 <p className="text-sm text-foreground/80">
-                  Excel files (.xlsx, .xls) - Multiple files supported
+                  Excel or CSV files (.xlsx, .xls, .csv) - Multiple files supported
                 </p>
               </>
             )}
@@ -1028,6 +1227,13 @@ export default function LaborImportPage() {
                               {result.success ? (
                                 <span className="text-green-600">
                                   ✓ Processed ({result.imported + result.updated} records)
+                                  {result.hoursSplit && (
+                                    <>
+                                      {' • '}{result.hoursSplit.stHours.toFixed(1)} ST
+                                      {' / '}{result.hoursSplit.otHours.toFixed(1)} OT
+                                      {' / '}{result.hoursSplit.dtHours.toFixed(1)} DT hrs
+                                    </>
+                                  )}
                                 </span>
                               ) : (
                                 <span className="text-red-600">
@@ -1298,6 +1504,12 @@ export default function LaborImportPage() {
                 <div>
                   <p className="text-sm text-foreground/80">Week Ending:</p>
                   <p className="font-medium">{preview.weekEnding.toLocaleDateString()}</p>
+                  {preview.formatName && (
+                    <>
+                      <p className="text-sm text-foreground/80 mt-2">Format:</p>
+                      <p className="font-medium">{preview.formatName}</p>
+                    </>
+                  )}
                 </div>
               </div>
               
@@ -1384,9 +1596,11 @@ export default function LaborImportPage() {
                               <span className="text-xs text-foreground/60">Loading...</span>
                             ) : (
                               <>
-                                {formatCurrency(emp.stRate * 1.28)}
+                                {formatCurrency(emp.stRate * (1 + (emp.burdenRate ?? DEFAULT_BURDEN_RATE)))}
                                 {emp.dbRate !== undefined && emp.dbRate !== emp.stRate && (
-                                  <div className="text-xs text-green-600">From DB (w/28% burden)</div>
+                                  <div className="text-xs text-green-600">
+                                    From DB (w/{Math.round((emp.burdenRate ?? DEFAULT_BURDEN_RATE) * 100)}% burden)
+                                  </div>
                                 )}
                               </>
                             )}
@@ -1600,7 +1814,10 @@ export default function LaborImportPage() {
                 const formData = new FormData()
                 formData.append('file', file)
                 formData.append('project_id', selectedProject)
+                appendFormatFields(formData)
                 formData.append('force_refresh', Date.now().toString())
+                // Retries update the partial import from the first attempt
+                formData.append('conflict_strategy', 'merge')
                 
                 try {
                   const response = await fetch('/api/labor-import', {
@@ -1636,12 +1853,42 @@ export default function LaborImportPage() {
         </Button>
       </div>
 
+      {/* Import Confirmation Dialog */}
+      <LaborImportPreviewDialog
+        open={!!pendingPreview}
+        preview={pendingPreview?.preview || null}
+        fileName={pendingPreview?.fileName}
+        onConfirm={(strategy, resolution) => resolvePendingPreview({ strategy, resolution })}
+        onCancel={() => resolvePendingPreview(null)}
+      />
+
+      {/* Duplicate/Overlap Dialog */}
+      <ImportConflictDialog
+        open={!!pendingConflict}
+        conflict={pendingConflict?.conflict || null}
+        fileName={pendingConflict?.fileName}
+        onResolve={resolvePendingConflict}
+        onCancel={() => resolvePendingConflict(null)}
+      />
+
+      {/* Timesheet Format Dialog */}
+      <TimesheetFormatDialog
+        open={showFormatDialog}
+        onOpenChange={setShowFormatDialog}
+        onSuccess={(format) => {
+          toast.success(`Saved timesheet format "${format.name}"`)
+          refetchFormats()
+          setSelectedFormat(format.id)
+        }}
+      />
+
       {/* Employee Data Fix Modal */}
       {showSingleFix && selectedEmployeeToFix && (
         <EmployeeDataFixModal
           open={showSingleFix}
           onOpenChange={setShowSingleFix}
           employee={selectedEmployeeToFix}
+          burdenRate={burdenRates?.[normalizeBurdenCategory(selectedEmployeeToFix.category)]}
           onSuccess={() => {
             // Mark as fixed
             setHasFixedEmployees(true)
@@ -1803,8 +2050,10 @@ export default function LaborImportPage() {
                       <p className="font-medium">{employee.last_name}, {employee.first_name}</p>
                     </div>
                     <div>
-                      <Label className="text-sm">Rate (w/28% Burden)</Label>
-                      <p className="font-medium">{formatCurrency(employee.base_rate * 1.28)}/hr</p>
+                      <Label className="text-sm">Rate (w/ Burden)</Label>
+                      <p className="font-medium">
+                        {formatCurrency(employee.base_rate * (1 + (burdenRates?.[employee.is_direct === false ? 'Indirect' : 'Direct'] ?? DEFAULT_BURDEN_RATE)))}/hr
+                      </p>
                     </div>
                     <div>
                       <Label htmlFor={`craft-${index}`} className="text-sm">Craft Type</Label>
@@ -2056,7 +2305,10 @@ export default function LaborImportPage() {
                       const formData = new FormData()
                       formData.append('file', file)
                       formData.append('project_id', selectedProject)
+                      appendFormatFields(formData)
                       formData.append('force_refresh', Date.now().toString())
+                      // Retries update the partial import from the first attempt
+                      formData.append('conflict_strategy', 'merge')
                       
                       try {
                         const retryResponse = await fetch('/api/labor-import', {
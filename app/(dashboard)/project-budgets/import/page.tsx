@@ -14,6 +14,8 @@ import {
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
 import { useUser } from '@/hooks/use-auth'
+import { ImportConflictDialog, ImportConflictError } from '@/components/imports/import-conflict-dialog'
+import type { ImportConflict, ImportConflictStrategy } from '@/lib/services/import-fingerprint'
 import * as XLSX from 'xlsx'
 
 interface ImportResult {
@@ -52,6 +54,7 @@ export default function ProjectBudgetImportPage() {
   const [preview, setPreview] = useState<PreviewData | null>(null)
   const [selectedProject, setSelectedProject] = useState<string>('')
   const [importResult, setImportResult] = useState<ImportResult | null>(null)
+  const [pendingConflict, setPendingConflict] = useState<ImportConflict | null>(null)
   const [isProcessing, setIsProcessing] = useState(false)
 
   // Check permissions - all authenticated users can import
@@ -77,6 +80,10 @@ export default function ProjectBudgetImportPage() {
       
       if (!response.ok) {
         const error = await response.json()
+        // Duplicate or overlapping data: ask the user how to handle it
+        if (response.status === 409 && error.conflict) {
+          throw new ImportConflictError(error.conflict)
+        }
         throw new Error(error.error || 'Import failed')
       }
       
@@ -86,6 +93,10 @@ export default function ProjectBudgetImportPage() {
       setImportResult(data.data)
     },
     onError: (error) => {
+      if (error instanceof ImportConflictError) {
+        setPendingConflict(error.conflict)
+        return
+      }
       setImportResult({
         success: false,
         project_id: selectedProject,
@@ -227,12 +238,15 @@ export default function ProjectBudgetImportPage() {
     }
   }, [])
 
-  const handleImport = async () => {
+  const handleImport = async (conflictStrategy?: ImportConflictStrategy) => {
     if (!file || !preview?.isValid || !selectedProject) return
 
     const formData = new FormData()
     formData.append('file', file)
     formData.append('project_id', selectedProject)
+    if (conflictStrategy) {
+      formData.append('conflict_strategy', conflictStrategy)
+    }
 
     importMutation.mutate(formData)
   }
@@ -536,7 +550,7 @@ export default function ProjectBudgetImportPage() {
           Cancel
         </Button>
         <Button
-          onClick={handleImport}
+          onClick={() => handleImport()}
           disabled={!file || !preview?.isValid || !selectedProject || importMutation.isPending}
           loading={importMutation.isPending}
           className="bg-blue-600 hover:bg-blue-700 text-white font-medium px-6 py-2 rounded-md disabled:bg-gray-300 disabled:cursor-not-allowed"
@@ -544,6 +558,17 @@ export default function ProjectBudgetImportPage() {
           Import Budget
         </Button>
       </div>
+
+      <ImportConflictDialog
+        open={!!pendingConflict}
+        conflict={pendingConflict}
+        fileName={file?.name}
+        onResolve={(strategy) => {
+          setPendingConflict(null)
+          handleImport(strategy)
+        }}
+        onCancel={() => setPendingConflict(null)}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, use } from 'react'
+import { useState, use, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -9,6 +9,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Badge } from '@/components/ui/badge'
 import { LoaderCircle, Upload, FileSpreadsheet, CircleAlert, ChevronRight, ChevronDown } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { ImportJobProgressIndicator } from '@/components/labor/import-progress-indicator'
+import type { ImportJobSummary } from '@/lib/services/import-jobs'
 
 interface BudgetLineItem {
   wbs_code?: string
@@ -69,6 +71,7 @@ export default function BudgetImportCoversheetPage({
   const [selectedSheet, setSelectedSheet] = useState<string>('summary')
   const [expandedWBS, setExpandedWBS] = useState<Set<string>>(new Set())
   const [debugInfo, setDebugInfo] = useState<string>('')
+  const [importJobId, setImportJobId] = useState<string | null>(null)
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0]
@@ -207,6 +210,12 @@ export default function BudgetImportCoversheetPage({
         throw new Error(result.error || 'Failed to import budget')
       }
 
+      // Large workbooks are saved by the import worker; follow the job instead
+      if (result.job_id) {
+        setImportJobId(result.job_id)
+        return
+      }
+
       console.log('Import successful, redirecting...')
       // Redirect to project overview
       router.push(`/projects/${projectId}/overview?tab=budget`)
@@ -218,6 +227,15 @@ export default function BudgetImportCoversheetPage({
     }
   }
 
+  const handleImportJobFinished = useCallback((job: ImportJobSummary) => {
+    setImportJobId(null)
+    if (job.status === 'completed') {
+      router.push(`/projects/${projectId}/overview?tab=budget`)
+    } else {
+      setError(job.error_message || 'Failed to import budget')
+    }
+  }, [router, projectId])
+
   const toggleWBS = (code: string) => {
     const newExpanded = new Set(expandedWBS)
     if (newExpanded.has(code)) {
@@ -636,6 +654,14 @@ export default function BudgetImportCoversheetPage({
               </TabsContent>
             </Tabs>
 
+            {importJobId && (
+              <ImportJobProgressIndicator
+                jobId={importJobId}
+                onFinished={handleImportJobFinished}
+                className="mt-6"
+              />
+            )}
+
             <div className="flex justify-end gap-4 mt-6">
               <Button
                 variant="outline"
@@ -652,7 +678,7 @@ export default function BudgetImportCoversheetPage({
                   }
                   handleImport()
                 }}
-                disabled={loading || !file}
+                disabled={loading || !file || !!importJobId}
                 title={loading ? 'Processing...' : !file ? 'Select a file first' : 'Click to import budget'}
               >
                 {loading ? (
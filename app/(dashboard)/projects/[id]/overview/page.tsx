@@ -17,6 +17,11 @@ import { Badge } from '@/components/ui/badge'
 import { LaborAnalyticsView } from '@/components/labor/labor-analytics-view'
 import { LaborForecastTab } from '@/components/project/labor-forecast-tab'
 import { BudgetVsActualTab } from '@/components/project/budget-vs-actual-tab'
+import { EACMethodsCard } from '@/components/project/eac-methods-card'
+import { EarnedValueSummaryCard } from '@/components/project/earned-value-card'
+import { FinancialSnapshotsTab } from '@/components/project/financial-snapshots-tab'
+import { ForecastScenariosTab } from '@/components/project/forecast-scenarios-tab'
+import { CashFlowTab } from '@/components/project/cash-flow-tab'
 import { ChangeOrdersTab } from '@/components/project/change-orders-tab'
 import { KeyMetricsBar } from '@/components/project/overview/key-metrics-bar'
 import { ProjectHealthDashboard } from '@/components/project/overview/project-health-dashboard'
@@ -131,17 +136,25 @@ export default function ProjectOverviewPage({ params }: ProjectOverviewPageProps
           projectHealth={financialData.projectHealth}
         />
 
+        {/* Earned Value */}
+        <div className="mb-6">
+          <EarnedValueSummaryCard projectId={id} />
+        </div>
+
         {/* Tabbed Content Area - Elevated Position */}
         <Card className="shadow-sm mb-6">
           <CardContent className="p-6">
             <Tabs defaultValue="purchase-orders" className="w-full">
-              <TabsList className="grid w-full grid-cols-6">
+              <TabsList className="grid w-full grid-cols-7">
                 <TabsTrigger value="contract-details">Contract Details</TabsTrigger>
                 <TabsTrigger value="change-orders">Change Orders</TabsTrigger>
                 <TabsTrigger value="purchase-orders">Purchase Orders</TabsTrigger>
                 <TabsTrigger value="labor-actuals">Labor Actuals</TabsTrigger>
                 <TabsTrigger value="labor-forecast">Labor Forecast</TabsTrigger>
                 <TabsTrigger value="budget-actual">Budget vs Actual</TabsTrigger>
+                <TabsTrigger value="scenarios">Scenarios</TabsTrigger>
+                <TabsTrigger value="cash-flow">Cash Flow</TabsTrigger>
+                <TabsTrigger value="snapshots">Snapshots</TabsTrigger>
               </TabsList>
 
               <TabsContent value="purchase-orders" className="mt-6">
@@ -188,9 +201,22 @@ export default function ProjectOverviewPage({ params }: ProjectOverviewPageProps
                 <LaborForecastTab projectId={id} />
               </TabsContent>
 
-              <TabsContent value="budget-actual" className="mt-6">
+              <TabsContent value="budget-actual" className="mt-6 space-y-6">
+                <EACMethodsCard projectId={id} />
                 <BudgetVsActualTab projectId={id} />
               </TabsContent>
+
+              <TabsContent value="scenarios" className="mt-6">
+                <ForecastScenariosTab projectId={id} />
+              </TabsContent>
+
+              <TabsContent value="cash-flow" className="mt-6">
+                <CashFlowTab projectId={id} />
+              </TabsContent>
+
+              <TabsContent value="snapshots" className="mt-6">
+                <FinancialSnapshotsTab projectId={id} />
+              </TabsContent>
             </Tabs>
           </CardContent>
         </Card>
@@ -7,6 +7,10 @@ import { ArrowLeft, Settings } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { PerDiemConfig } from '@/components/project/per-diem-config'
+import { BurdenRateConfig } from '@/components/project/burden-rate-config'
+import { PayRuleConfig } from '@/components/project/pay-rule-config'
+import { RateEscalationConfig } from '@/components/project/rate-escalation-config'
+import { CostCodeMappingConfig } from '@/components/project/cost-code-mapping-config'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Skeleton } from '@/components/ui/skeleton'
 
@@ -85,8 +89,10 @@ export default function ProjectSettingsPage({ params }: ProjectSettingsPageProps
       </div>
 
       <Tabs defaultValue="per-diem" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="per-diem">Per Diem</TabsTrigger>
+          <TabsTrigger value="labor-costs">Labor Costs</TabsTrigger>
+          <TabsTrigger value="cost-codes">Cost Codes</TabsTrigger>
           <TabsTrigger value="notifications">Notifications</TabsTrigger>
           <TabsTrigger value="advanced">Advanced</TabsTrigger>
         </TabsList>
@@ -103,6 +109,16 @@ export default function ProjectSettingsPage({ params }: ProjectSettingsPageProps
           />
         </TabsContent>
 
+        <TabsContent value="labor-costs" className="space-y-4">
+          <BurdenRateConfig projectId={id} />
+          <PayRuleConfig projectId={id} />
+          <RateEscalationConfig projectId={id} />
+        </TabsContent>
+
+        <TabsContent value="cost-codes" className="space-y-4">
+          <CostCodeMappingConfig projectId={id} />
+        </TabsContent>
+
         <TabsContent value="notifications" className="space-y-4">
           <Card>
             <CardHeader>
@@ -14,6 +14,7 @@ import {
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
+import { InvoiceLedger } from '@/components/purchase-orders/invoice-ledger'
 import { format } from 'date-fns'
 
 interface PODetailPageProps {
@@ -266,6 +267,9 @@ export default function PurchaseOrderDetailPage({ params }: PODetailPageProps) {
             </Card>
           )}
 
+          {/* Invoice Ledger */}
+          <InvoiceLedger purchaseOrderId={po.id} projectId={po.project.id} />
+
           {/* Audit Trail */}
           <Card className="p-6">
             <h2 className="text-xl font-semibold mb-4">Audit Information</h2>
@@ -14,6 +14,10 @@ import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
 import { FileDropZone } from '@/components/ui/file-drop-zone'
 import { useUser } from '@/hooks/use-auth'
+import { ImportConflictDialog, ImportConflictError } from '@/components/imports/import-conflict-dialog'
+import { ImportJobProgressIndicator } from '@/components/labor/import-progress-indicator'
+import type { ImportConflict, ImportConflictStrategy } from '@/lib/services/import-fingerprint'
+import type { ImportJobSummary } from '@/lib/services/import-jobs'
 import * as XLSX from 'xlsx'
 
 interface ImportResult {
@@ -22,6 +26,7 @@ interface ImportResult {
   updated: number
   skipped: number
   lineItemsCreated: number
+  invoicesRecorded?: number
   errors: Array<{
     row: number
     field?: string
@@ -37,6 +42,20 @@ interface PreviewData {
   errors: string[]
 }
 
+function failedImportResult(message: string): ImportResult {
+  return {
+    success: false,
+    imported: 0,
+    updated: 0,
+    skipped: 0,
+    lineItemsCreated: 0,
+    errors: [{
+      row: 0,
+      message
+    }]
+  }
+}
+
 export default function PurchaseOrdersImportPage() {
   const router = useRouter()
   const { data: user } = useUser()
@@ -44,6 +63,8 @@ export default function PurchaseOrdersImportPage() {
   const [preview, setPreview] = useState<PreviewData | null>(null)
   const [selectedProject, setSelectedProject] = useState<string>('')
   const [importResult, setImportResult] = useState<ImportResult | null>(null)
+  const [pendingConflict, setPendingConflict] = useState<ImportConflict | null>(null)
+  const [activeJobId, setActiveJobId] = useState<string | null>(null)
   const [, setIsProcessing] = useState(false)
 
   // Check permissions
@@ -69,29 +90,45 @@ export default function PurchaseOrdersImportPage() {
       
       if (!response.ok) {
         const error = await response.json()
+        // Duplicate or overlapping data: ask the user how to handle it
+        if (response.status === 409 && error.conflict) {
+          throw new ImportConflictError(error.conflict)
+        }
         throw new Error(error.error || 'Import failed')
       }
       
       return response.json()
     },
     onSuccess: (data) => {
+      // Large logs are queued (202) and followed until the worker finishes
+      if (data.job_id) {
+        setActiveJobId(data.job_id)
+        return
+      }
       setImportResult(data.data)
     },
     onError: (error) => {
-      setImportResult({
-        success: false,
-        imported: 0,
-        updated: 0,
-        skipped: 0,
-        lineItemsCreated: 0,
-        errors: [{
-          row: 0,
-          message: error.message
-        }]
-      })
+      if (error instanceof ImportConflictError) {
+        setPendingConflict(error.conflict)
+        return
+      }
+      setImportResult(failedImportResult(error.message))
     }
   })
 
+  const handleJobFinished = useCallback((job: ImportJobSummary) => {
+    setActiveJobId(null)
+    const body = job.result?.body as { data?: ImportResult; conflict?: ImportConflict } | undefined
+
+    if (job.status === 'completed' && body?.data) {
+      setImportResult(body.data)
+    } else if (body?.conflict) {
+      setPendingConflict(body.conflict)
+    } else {
+      setImportResult(failedImportResult(job.error_message || 'Import failed'))
+    }
+  }, [])
+
   const handleFileSelect = useCallback(async (selectedFile: File) => {
     setFile(selectedFile)
     setPreview(null)
@@ -150,7 +187,7 @@ export default function PurchaseOrdersImportPage() {
     }
   }, [])
 
-  const handleImport = async () => {
+  const handleImport = async (conflictStrategy?: ImportConflictStrategy) => {
     if (!file || !preview?.isValid) return
 
     const formData = new FormData()
@@ -158,6 +195,9 @@ export default function PurchaseOrdersImportPage() {
     if (selectedProject) {
       formData.append('project_id', selectedProject)
     }
+    if (conflictStrategy) {
+      formData.append('conflict_strategy', conflictStrategy)
+    }
 
     importMutation.mutate(formData)
   }
@@ -356,6 +396,14 @@ export default function PurchaseOrdersImportPage() {
         </Card>
       )}
 
+      {/* Background Import Progress */}
+      {activeJobId && (
+        <Card className="p-6 mb-6">
+          <h3 className="text-lg font-semibold mb-4">Importing {file?.name}</h3>
+          <ImportJobProgressIndicator jobId={activeJobId} onFinished={handleJobFinished} />
+        </Card>
+      )}
+
       {/* Import Result */}
       {importResult && (
         <Card className="p-6 mb-6">
@@ -373,6 +421,9 @@ export default function PurchaseOrdersImportPage() {
                 <p>Imported: {importResult.imported} new POs</p>
                 <p>Updated: {importResult.updated} existing POs</p>
                 <p>Line Items Created: {importResult.lineItemsCreated} invoice records</p>
+                {!!importResult.invoicesRecorded && (
+                  <p>Invoice Ledger: {importResult.invoicesRecorded} ICS invoices recorded</p>
+                )}
                 <p>Skipped: {importResult.skipped} records</p>
                 {importResult.errors.length > 0 && (
                   <p>Errors: {importResult.errors.length} records</p>
@@ -421,14 +472,25 @@ export default function PurchaseOrdersImportPage() {
           Cancel
         </Button>
         <Button
-          onClick={handleImport}
-          disabled={!file || !preview?.isValid || importMutation.isPending}
-          loading={importMutation.isPending}
+          onClick={() => handleImport()}
+          disabled={!file || !preview?.isValid || importMutation.isPending || !!activeJobId}
+          loading={importMutation.isPending || !!activeJobId}
           className="bg-blue-600 hover:bg-blue-700 text-white font-medium px-6 py-2 rounded-md disabled:bg-gray-300 disabled:cursor-not-allowed"
         >
           Import Purchase Orders
         </Button>
       </div>
+
+      <ImportConflictDialog
+        open={!!pendingConflict}
+        conflict={pendingConflict}
+        fileName={file?.name}
+        onResolve={(strategy) => {
+          setPendingConflict(null)
+          handleImport(strategy)
+        }}
+        onCancel={() => setPendingConflict(null)}
+      />
     </div>
   )
 }
\ No newline at end of file
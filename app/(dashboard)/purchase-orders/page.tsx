@@ -9,7 +9,9 @@ import {
   Eye,
   DollarSign,
   Package,
-  Settings
+  Settings,
+  Users,
+  AlertTriangle
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
@@ -209,6 +211,22 @@ export default function PurchaseOrdersPage() {
             <Download className="h-4 w-4" />
             Export
           </Button>
+          <Button
+            onClick={() => router.push('/purchase-orders/vendors')}
+            variant="outline"
+            className="flex items-center gap-2"
+          >
+            <Users className="h-4 w-4" />
+            Vendors
+          </Button>
+          <Button
+            onClick={() => router.push('/purchase-orders/risk-rules')}
+            variant="outline"
+            className="flex items-center gap-2"
+          >
+            <AlertTriangle className="h-4 w-4" />
+            Risk Rules
+          </Button>
           {canImport && (
             <Button
               onClick={() => router.push('/purchase-orders/import')}
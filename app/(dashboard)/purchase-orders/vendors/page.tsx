@@ -0,0 +1,29 @@
+'use client'
+
+import Link from 'next/link'
+import { ArrowLeft } from 'lucide-react'
+import { useUser } from '@/hooks/use-auth'
+import { VendorAnalytics } from '@/components/purchase-orders/vendor-analytics'
+import { VendorMaster } from '@/components/purchase-orders/vendor-master'
+
+export default function VendorsPage() {
+  const { data: user } = useUser()
+  const canManage = !!user && ['controller', 'ops_manager', 'accounting'].includes(user.role)
+
+  return (
+    <div className="p-8 max-w-7xl mx-auto space-y-6">
+      <div>
+        <Link
+          href="/purchase-orders"
+          className="inline-flex items-center text-sm text-foreground/80 hover:text-foreground/80 mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Purchase Orders
+        </Link>
+        <h1 className="text-3xl font-bold text-foreground">Vendors</h1>
+      </div>
+      <VendorAnalytics />
+      <VendorMaster canManage={canManage} />
+    </div>
+  )
+}
@@ -0,0 +1,23 @@
+'use client'
+
+import Link from 'next/link'
+import { ArrowLeft } from 'lucide-react'
+import { MonthlyForecastSheet } from '@/components/ops-manager/monthly-forecast-sheet'
+
+export default function RevenueForecastPage() {
+  return (
+    <div className="p-8 max-w-7xl mx-auto">
+      <div className="mb-6">
+        <Link
+          href="/dashboard"
+          className="inline-flex items-center text-sm text-foreground/80 hover:text-foreground/80 mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Dashboard
+        </Link>
+        <h1 className="text-3xl font-bold text-foreground">Revenue Forecast</h1>
+      </div>
+      <MonthlyForecastSheet />
+    </div>
+  )
+}
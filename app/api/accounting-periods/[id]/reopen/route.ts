@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { reopenAccountingPeriod } from '@/lib/services/accounting-periods'
+
+export const dynamic = 'force-dynamic'
+
+const reopenPeriodSchema = z.object({
+  reason: z.string().trim().min(10, 'Explain why the period is being reopened').max(1000)
+})
+
+// POST /api/accounting-periods/[id]/reopen - Reopen a closed period (controllers only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (userProfile?.role !== 'controller') {
+      return NextResponse.json(
+        { error: 'Only controllers can reopen accounting periods' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const periodId = z.string().uuid().parse(id)
+    const validated = reopenPeriodSchema.parse(await request.json())
+
+    const period = await reopenAccountingPeriod(supabase, {
+      periodId,
+      userId: user.id,
+      reason: validated.reason
+    })
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'reopen',
+      entity_type: 'accounting_period',
+      entity_id: period.id,
+      changes: {
+        project_id: period.project_id,
+        period_month: period.period_month,
+        reason: validated.reason
+      }
+    })
+
+    return NextResponse.json({ period })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Period not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    if (error instanceof Error && error.message === 'Period is not closed') {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    console.error('Error reopening accounting period:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
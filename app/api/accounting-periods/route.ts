@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { closeAccountingPeriod } from '@/lib/services/accounting-periods'
+
+export const dynamic = 'force-dynamic'
+
+const closePeriodSchema = z.object({
+  // Omit for a company-wide close
+  project_id: z.string().uuid().nullable().optional(),
+  period_month: z.string().regex(/^\d{4}-\d{2}$/, 'Period month must be YYYY-MM')
+})
+
+// GET /api/accounting-periods?project_id= - Periods for a project plus company-wide periods
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const projectIdParam = request.nextUrl.searchParams.get('project_id')
+    const projectId = projectIdParam ? z.string().uuid().parse(projectIdParam) : null
+
+    const { data: periods, error } = await supabase
+      .from('accounting_periods')
+      .select(`
+        *,
+        closed_by_user:profiles!accounting_periods_closed_by_fkey(first_name, last_name),
+        reopened_by_user:profiles!accounting_periods_reopened_by_fkey(first_name, last_name),
+        events:accounting_period_events(action, reason, created_at, performed_by)
+      `)
+      .or(projectId ? `project_id.is.null,project_id.eq.${projectId}` : 'project_id.is.null')
+      .order('period_month', { ascending: false })
+
+    if (error) throw error
+
+    return NextResponse.json({ periods: periods || [] })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error fetching accounting periods:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/accounting-periods - Close a month and freeze its financial snapshot
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    const allowedRoles = ['controller', 'ops_manager']
+    if (!userProfile || !allowedRoles.includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to close accounting periods' },
+        { status: 403 }
+      )
+    }
+
+    const validated = closePeriodSchema.parse(await request.json())
+
+    // Only controllers close the whole company
+    if (!validated.project_id && userProfile.role !== 'controller') {
+      return NextResponse.json(
+        { error: 'Only controllers can close a period company-wide' },
+        { status: 403 }
+      )
+    }
+
+    const period = await closeAccountingPeriod(supabase, {
+      projectId: validated.project_id || null,
+      periodMonth: `${validated.period_month}-01`,
+      userId: user.id
+    })
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'close',
+      entity_type: 'accounting_period',
+      entity_id: period.id,
+      changes: {
+        project_id: period.project_id,
+        period_month: period.period_month,
+        snapshot_id: period.snapshot_id
+      }
+    })
+
+    return NextResponse.json({ period }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && (
+      error.message === 'Period is already closed' ||
+      error.message === 'Cannot close a period that has not started'
+    )) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    if (error instanceof Error && error.message === 'Project not found') {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    console.error('Error closing accounting period:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
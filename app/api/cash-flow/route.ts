@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { fetchPortfolioCashFlow } from '@/lib/services/cash-flow'
+import { cashFlowIntervalSchema } from '@/lib/validations/cash-flow'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/cash-flow?interval=week|month - Cash in and out across active projects
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const interval = cashFlowIntervalSchema.parse(request.nextUrl.searchParams.get('interval') ?? undefined)
+    const cashFlow = await fetchPortfolioCashFlow(supabase, interval)
+
+    return NextResponse.json(cashFlow)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error calculating portfolio cash flow:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
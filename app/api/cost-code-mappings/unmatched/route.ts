@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { fetchUnmatchedPurchaseOrders } from '@/lib/services/cost-code-mappings'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/cost-code-mappings/unmatched - Open POs on any project that no mapping rule matches
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const unmatched = await fetchUnmatchedPurchaseOrders(supabase)
+
+    return NextResponse.json({
+      unmatched,
+      total_committed: unmatched.reduce((sum, po) => sum + po.committed_amount, 0)
+    })
+  } catch (error) {
+    console.error('Error fetching unmatched purchase orders:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
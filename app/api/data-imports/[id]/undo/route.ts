@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { z } from 'zod'
+import { COMPLETED_IMPORT_STATUSES } from '@/lib/services/import-fingerprint'
+import { importChangeDates, undoTrackedImport, type UndoableImport } from '@/lib/services/import-changes'
+import { assertPeriodsOpen, ClosedPeriodError } from '@/lib/services/accounting-periods'
+
+export const dynamic = 'force-dynamic'
+
+const paramsSchema = z.object({
+  id: z.string().uuid('Invalid import ID')
+})
+
+// POST /api/data-imports/[id]/undo - Undo any import recorded with a change log
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const adminSupabase = createAdminClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role, division_id')
+      .eq('id', user.id)
+      .single()
+
+    const allowedRoles = ['controller', 'ops_manager', 'project_manager']
+    if (!userProfile || !allowedRoles.includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to undo imports' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = paramsSchema.parse(await params)
+
+    const { data: importRecord, error: fetchError } = await adminSupabase
+      .from('data_imports')
+      .select('id, project_id, import_type, import_status, created_at, metadata, row_changes')
+      .eq('id', id)
+      .single()
+
+    if (fetchError || !importRecord) {
+      return NextResponse.json({ error: 'Import record not found' }, { status: 404 })
+    }
+
+    if (importRecord.import_status === 'undone') {
+      return NextResponse.json({ error: 'Import has already been undone' }, { status: 400 })
+    }
+
+    if (!COMPLETED_IMPORT_STATUSES.includes(importRecord.import_status)) {
+      return NextResponse.json(
+        { error: 'Only successful or partial imports can be undone' },
+        { status: 400 }
+      )
+    }
+
+    if (!importRecord.row_changes) {
+      return NextResponse.json(
+        { error: 'This import was recorded before change tracking and cannot be undone' },
+        { status: 400 }
+      )
+    }
+
+    // Project imports follow project access; employee imports are company-wide
+    if (importRecord.project_id) {
+      const { data: project } = await adminSupabase
+        .from('projects')
+        .select('id, project_manager_id, division_id')
+        .eq('id', importRecord.project_id)
+        .single()
+
+      if (!project) {
+        return NextResponse.json({ error: 'Associated project not found' }, { status: 404 })
+      }
+
+      if (userProfile.role === 'project_manager' && project.project_manager_id !== user.id) {
+        return NextResponse.json({ error: 'Access denied to this project' }, { status: 403 })
+      }
+
+      if (userProfile.role === 'ops_manager' && userProfile.division_id !== project.division_id) {
+        return NextResponse.json({ error: 'Access denied to this division' }, { status: 403 })
+      }
+    } else if (userProfile.role === 'project_manager') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to undo employee imports' },
+        { status: 403 }
+      )
+    }
+
+    // Undoing rewrites the imported rows, so none of them may sit in a closed period
+    try {
+      await assertPeriodsOpen(adminSupabase, await importChangeDates(adminSupabase, importRecord as UndoableImport))
+    } catch (error) {
+      if (error instanceof ClosedPeriodError) {
+        return NextResponse.json(
+          { error: `This import changed a closed period and cannot be undone. ${error.message}`, closed_periods: error.periods },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
+    const { dependencies, result } = await undoTrackedImport(
+      adminSupabase,
+      importRecord as UndoableImport,
+      user.id
+    )
+
+    if (!result) {
+      return NextResponse.json(
+        {
+          error: 'Import cannot be undone because later data depends on it',
+          dependencies
+        },
+        { status: 409 }
+      )
+    }
+
+    if (result.errors.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Import partially undone with errors',
+          deleted: result.deleted,
+          restored: result.restored,
+          errors: result.errors
+        },
+        { status: 207 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Import successfully undone',
+      deleted: result.deleted,
+      restored: result.restored
+    })
+  } catch (error) {
+    console.error('Import undo error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { z } from 'zod'
+import {
+  fetchEmployeeRateHistory,
+  recordEmployeeRate,
+  resolveEmployeeRate
+} from '@/lib/services/employee-rates'
+
+export const dynamic = 'force-dynamic'
+
+const employeeRateSchema = z.object({
+  base_rate: z.number().positive(),
+  effective_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Effective date must be YYYY-MM-DD'),
+  notes: z.string().max(500).optional()
+})
+
+// GET /api/employees/[id]/rates - Rate history, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const employeeId = z.string().uuid().parse(id)
+    const date = request.nextUrl.searchParams.get('date') || new Date().toISOString().split('T')[0]
+
+    const history = await fetchEmployeeRateHistory(supabase, [employeeId])
+    const rates = history.get(employeeId) || []
+
+    return NextResponse.json({
+      rates,
+      current: resolveEmployeeRate(rates, date),
+      date
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error fetching employee rates:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/employees/[id]/rates - Set a rate from an effective week ending onward
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const adminSupabase = createAdminClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    // Same roles that can edit employees
+    const allowedRoles = ['controller', 'ops_manager', 'project_manager']
+    if (!userProfile || !allowedRoles.includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to update employee rates' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const employeeId = z.string().uuid().parse(id)
+    const validated = employeeRateSchema.parse(await request.json())
+
+    const { data: employee } = await adminSupabase
+      .from('employees')
+      .select('id')
+      .eq('id', employeeId)
+      .single()
+
+    if (!employee) {
+      return NextResponse.json({ error: 'Employee not found' }, { status: 404 })
+    }
+
+    const rate = await recordEmployeeRate(adminSupabase, {
+      employeeId,
+      baseRate: validated.base_rate,
+      effectiveDate: validated.effective_date,
+      source: 'manual',
+      notes: validated.notes,
+      userId: user.id
+    })
+
+    await adminSupabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'update',
+      entity_type: 'employee',
+      entity_id: employeeId,
+      changes: {
+        base_rate: rate.base_rate,
+        effective_date: rate.effective_date,
+        source: 'rate_history'
+      }
+    })
+
+    return NextResponse.json({ rate }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error recording employee rate:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { createAdminClient } from '@/lib/supabase/admin'
 import { z } from 'zod'
+import { recordEmployeeRate } from '@/lib/services/employee-rates'
 
 export const dynamic = 'force-dynamic'
 
@@ -10,6 +11,8 @@ const updateEmployeeSchema = z.object({
   first_name: z.string().min(1).optional(),
   last_name: z.string().min(1).optional(),
   base_rate: z.number().min(0).optional(),
+  // First week ending a base_rate change applies to; defaults to today
+  effective_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Effective date must be YYYY-MM-DD').optional(),
   craft_type_id: z.string().uuid().optional(),
   category: z.enum(['Direct', 'Indirect', 'Staff']).optional(),
   is_direct: z.boolean().optional(),
@@ -143,7 +146,8 @@ export async function PATCH(
     }
 
     // If craft_type_id is being updated, fetch the craft type to update category
-    const updateData: Record<string, unknown> = { ...validatedData }
+    const { effective_date: effectiveDate, ...employeeData } = validatedData
+    const updateData: Record<string, unknown> = { ...employeeData }
     if (validatedData.craft_type_id) {
       const { data: craftType } = await adminSupabase
         .from('craft_types')
@@ -158,11 +162,24 @@ export async function PATCH(
       }
     }
 
+    // Rate changes go to the rate history, which keeps employees.base_rate current
+    const { base_rate: baseRate, ...employeeUpdate } = updateData
+    if (baseRate !== undefined) {
+      await recordEmployeeRate(adminSupabase, {
+        employeeId: params.id,
+        baseRate: baseRate as number,
+        effectiveDate: effectiveDate || new Date().toISOString().split('T')[0],
+        source: 'manual',
+        notes: body.reason || null,
+        userId: user.id
+      })
+    }
+
     // Update employee
     const { data: updated, error: updateError } = await adminSupabase
       .from('employees')
       .update({
-        ...updateData,
+        ...employeeUpdate,
         updated_at: new Date().toISOString()
       })
       .eq('id', params.id)
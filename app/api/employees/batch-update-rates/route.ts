@@ -2,12 +2,15 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { createAdminClient } from '@/lib/supabase/admin'
 import { z } from 'zod'
+import { recordEmployeeRate } from '@/lib/services/employee-rates'
 
 const updateRatesSchema = z.object({
   employees: z.array(z.object({
     employee_number: z.string(),
     base_rate: z.number().min(0)
-  }))
+  })),
+  // First week ending the new rates apply to; defaults to today
+  effective_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Effective date must be YYYY-MM-DD').optional()
 })
 
 export async function POST(request: NextRequest) {
@@ -24,6 +27,7 @@ export async function POST(request: NextRequest) {
     // Parse request body
     const body = await request.json()
     const validatedData = updateRatesSchema.parse(body)
+    const effectiveDate = validatedData.effective_date || new Date().toISOString().split('T')[0]
 
     // Update employees in batch
     let updated = 0
@@ -39,32 +43,34 @@ export async function POST(request: NextRequest) {
           .single()
 
         if (existingEmployee) {
-          // Update existing employee
-          const { error: updateError } = await adminSupabase
-            .from('employees')
-            .update({
-              base_rate: employee.base_rate,
-              updated_at: new Date().toISOString()
+          // Add to the rate history; earlier weeks keep their rate
+          try {
+            await recordEmployeeRate(adminSupabase, {
+              employeeId: existingEmployee.id,
+              baseRate: employee.base_rate,
+              effectiveDate,
+              source: 'batch_update',
+              userId: user.id
             })
-            .eq('id', existingEmployee.id)
-
-          if (updateError) {
-            errors.push(`Failed to update ${employee.employee_number}: ${updateError.message}`)
-          } else {
-            updated++
-            
-            // Log to audit
-            await adminSupabase.from('audit_log').insert({
-              user_id: user.id,
-              action: 'update',
-              entity_type: 'employee',
-              entity_id: existingEmployee.id,
-              changes: {
-                base_rate: employee.base_rate,
-                source: 'batch_rate_update'
-              }
-            }).catch(err => console.error('Audit log error:', err))
+          } catch (rateError) {
+            errors.push(`Failed to update ${employee.employee_number}: ${rateError instanceof Error ? rateError.message : 'Unknown error'}`)
+            continue
           }
+
+          updated++
+
+          // Log to audit
+          await adminSupabase.from('audit_log').insert({
+            user_id: user.id,
+            action: 'update',
+            entity_type: 'employee',
+            entity_id: existingEmployee.id,
+            changes: {
+              base_rate: employee.base_rate,
+              effective_date: effectiveDate,
+              source: 'batch_rate_update'
+            }
+          }).catch(err => console.error('Audit log error:', err))
         } else {
           errors.push(`Employee ${employee.employee_number} not found`)
         }
@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { fetchEmployeeRateHistory, resolveEmployeeRate } from '@/lib/services/employee-rates'
 
 export const dynamic = 'force-dynamic'
 
 // POST /api/employees/batch - Get multiple employees by IDs
+// With weekEnding, baseRate is the rate in force that week
 export async function POST(request: NextRequest) {
   const supabase = await createClient()
   
@@ -15,7 +17,7 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json()
-    const { employeeIds } = body
+    const { employeeIds, weekEnding } = body
 
     if (!employeeIds || !Array.isArray(employeeIds) || employeeIds.length === 0) {
       return NextResponse.json({ error: 'Employee IDs are required' }, { status: 400 })
@@ -30,6 +32,7 @@ export async function POST(request: NextRequest) {
         first_name,
         last_name,
         base_rate,
+        category,
         is_active,
         craft_type_id,
         craft_types (
@@ -45,15 +48,23 @@ export async function POST(request: NextRequest) {
       throw error
     }
 
+    const rateHistory = typeof weekEnding === 'string'
+      ? await fetchEmployeeRateHistory(supabase, (employees || []).map(emp => emp.id))
+      : null
+
     // Create a map for easy lookup
     const employeeMap = new Map()
     employees?.forEach(emp => {
+      const weekRate = rateHistory
+        ? resolveEmployeeRate(rateHistory.get(emp.id) || [], weekEnding)
+        : null
       employeeMap.set(emp.employee_number, {
         id: emp.id,
         employeeNumber: emp.employee_number,
         firstName: emp.first_name,
         lastName: emp.last_name,
-        baseRate: emp.base_rate || 0,
+        baseRate: weekRate ?? emp.base_rate ?? 0,
+        category: emp.category,
         isActive: emp.is_active,
         craftTypeId: emp.craft_type_id,
         craftType: emp.craft_types
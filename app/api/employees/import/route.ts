@@ -3,6 +3,7 @@ import { createClient } from '@/lib/supabase/server'
 import { createAdminClient } from '@/lib/supabase/admin'
 import * as XLSX from 'xlsx'
 import { z } from 'zod'
+import { ImportChangeTracker } from '@/lib/services/import-changes'
 
 export const dynamic = 'force-dynamic'
 
@@ -151,6 +152,9 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Rows written below, with before-images, so the import can be undone
+    const changeTracker = new ImportChangeTracker()
+
     // Ensure default craft types exist for each category
     const { data: existingCraftTypes } = await adminSupabase
       .from('craft_types')
@@ -177,6 +181,7 @@ export async function POST(request: NextRequest) {
         .single()
       
       if (newCraft) {
+        changeTracker.recordInserts('craft_types', [newCraft])
         craftTypesByCategory.direct = newCraft
       }
     }
@@ -194,6 +199,7 @@ export async function POST(request: NextRequest) {
         .single()
       
       if (newCraft) {
+        changeTracker.recordInserts('craft_types', [newCraft])
         craftTypesByCategory.indirect = newCraft
       }
     }
@@ -211,6 +217,7 @@ export async function POST(request: NextRequest) {
         .single()
       
       if (newCraft) {
+        changeTracker.recordInserts('craft_types', [newCraft])
         craftTypesByCategory.staff = newCraft
       }
     }
@@ -369,7 +376,7 @@ export async function POST(request: NextRequest) {
           }
           // Otherwise default to 'direct'
           
-          const { error } = await adminSupabase
+          const { data: newCraft, error } = await adminSupabase
             .from('craft_types')
             .insert({
               code: craftCode,
@@ -377,6 +384,8 @@ export async function POST(request: NextRequest) {
               category: category,
               is_active: true
             })
+            .select('id')
+            .single()
           
           if (error) {
             craftTypeUpdateResults.errors.push({
@@ -384,6 +393,7 @@ export async function POST(request: NextRequest) {
               error: 'Failed to create craft type'
             })
           } else {
+            changeTracker.recordInserts('craft_types', [newCraft])
             craftTypeUpdateResults.created++
             console.log(`Created craft type ${craftCode} with category: ${category} (counts: ${JSON.stringify(counts)})`)
           }
@@ -610,7 +620,8 @@ export async function POST(request: NextRequest) {
           employeesToUpdate.push({
             id: existing.id,
             employee_number: formattedEmployeeNumber,
-            updates
+            updates,
+            before: existing
           })
         } else if (!existing) {
           // Add to create batch
@@ -658,6 +669,7 @@ export async function POST(request: NextRequest) {
       }
 
       results.imported = created?.length || 0
+      changeTracker.recordInserts('employees', created)
 
       // Log import activity
       await adminSupabase.from('audit_log').insert({
@@ -691,6 +703,7 @@ export async function POST(request: NextRequest) {
           })
         } else {
           results.updated++
+          changeTracker.recordUpdates('employees', [emp.before])
           
           // Log update
           await adminSupabase.from('audit_log').insert({
@@ -707,8 +720,42 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Track the import so it can be undone from the import history
+    let importId: string | null = null
+    if (changeTracker.size > 0) {
+      const { data: importRecord, error: trackingError } = await adminSupabase
+        .from('data_imports')
+        .insert({
+          project_id: null,
+          import_type: 'employee',
+          import_status: results.errors.length === 0 ? 'success' : 'completed_with_errors',
+          imported_by: user.id,
+          file_name: file.name,
+          records_processed: results.imported + results.updated,
+          records_failed: results.errors.length,
+          metadata: {
+            mode,
+            total: results.total,
+            imported: results.imported,
+            updated: results.updated,
+            skipped: results.skipped,
+            craft_types_created: craftTypeUpdateResults.created
+          },
+          row_changes: changeTracker.rowChanges
+        })
+        .select('id')
+        .single()
+
+      if (trackingError) {
+        console.error('Failed to create data_imports record:', trackingError)
+      } else {
+        importId = importRecord.id
+      }
+    }
+
     // Build comprehensive response
     const response: Record<string, unknown> = {
+      import_id: importId,
       success: (results.imported + results.updated) > 0,
       summary: {
         total: results.total,
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { fetchForecastAccuracy } from '@/lib/services/forecast-accuracy'
+import { forecastAccuracyQuerySchema } from '@/lib/validations/forecast-accuracy'
+
+export const dynamic = 'force-dynamic'
+
+// Default period: the last 26 weeks
+const DEFAULT_PERIOD_DAYS = 182
+
+// GET /api/forecast-accuracy?lag_weeks=4&from=&to=&project_id= - Past forecasts against actuals
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const query = forecastAccuracyQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams.entries())
+    )
+
+    const to = query.to || new Date().toISOString().split('T')[0]
+    const fromDate = new Date(to + 'T00:00:00Z')
+    fromDate.setUTCDate(fromDate.getUTCDate() - DEFAULT_PERIOD_DAYS)
+    const from = query.from || fromDate.toISOString().split('T')[0]
+
+    const report = await fetchForecastAccuracy(supabase, {
+      lagWeeks: query.lag_weeks,
+      from,
+      to,
+      projectId: query.project_id
+    })
+
+    return NextResponse.json(report)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Project not found') {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    console.error('Error calculating forecast accuracy:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { z } from 'zod'
+import { IMPORT_JOB_COLUMNS, type ImportJobSummary } from '@/lib/services/import-jobs'
+
+export const dynamic = 'force-dynamic'
+
+const paramsSchema = z.object({
+  id: z.string().uuid('Invalid job ID')
+})
+
+// GET /api/import-jobs/[id] - Status and progress of a background import
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const adminSupabase = createAdminClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = paramsSchema.parse(await params)
+
+    const { data: job, error } = await adminSupabase
+      .from('import_jobs')
+      .select(IMPORT_JOB_COLUMNS)
+      .eq('id', id)
+      .single()
+
+    if (error || !job) {
+      return NextResponse.json({ error: 'Import job not found' }, { status: 404 })
+    }
+
+    const importJob = job as unknown as ImportJobSummary
+
+    // Users follow their own imports; controllers can follow anyone's
+    if (importJob.created_by !== user.id) {
+      const { data: userProfile } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', user.id)
+        .single()
+
+      if (userProfile?.role !== 'controller') {
+        return NextResponse.json({ error: 'Import job not found' }, { status: 404 })
+      }
+    }
+
+    return NextResponse.json({ job: importJob })
+  } catch (error) {
+    console.error('Get import job error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { fetchInvoiceLedger } from '@/lib/services/invoice-ledger'
+import { invoiceUpdateSchema } from '@/lib/validations/invoices'
+
+export const dynamic = 'force-dynamic'
+
+// PATCH /api/invoices/[id] - Correct an invoice or move it through approval and payment
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (!userProfile || !['controller', 'accounting'].includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to update invoices' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const invoiceId = z.string().uuid().parse(id)
+    const validated = invoiceUpdateSchema.parse(await request.json())
+
+    const { data: current } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('id', invoiceId)
+      .maybeSingle()
+
+    if (!current) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 })
+    }
+
+    const approving = (validated.status === 'approved' || validated.status === 'paid') && !current.approved_at
+    const { data: invoice, error } = await supabase
+      .from('invoices')
+      .update({
+        ...validated,
+        ...(approving && { approved_by: user.id, approved_at: new Date().toISOString() }),
+        ...(validated.status === 'paid' && !current.payment_date && !validated.payment_date && {
+          payment_date: new Date().toISOString().split('T')[0]
+        })
+      })
+      .eq('id', invoiceId)
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: `Invoice ${validated.invoice_number} is already recorded on this PO` },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'update',
+      entity_type: 'invoice',
+      entity_id: invoiceId,
+      changes: { old_values: current, new_values: invoice }
+    })
+
+    const ledger = invoice.purchase_order_id
+      ? await fetchInvoiceLedger(supabase, invoice.purchase_order_id)
+      : null
+    const entry = ledger?.entries.find(ledgerEntry => ledgerEntry.id === invoiceId)
+
+    return NextResponse.json({ invoice: entry || invoice, ledger })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating invoice:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/invoices/[id] - Remove an invoice entered in error
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (!userProfile || !['controller', 'accounting'].includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to delete invoices' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const invoiceId = z.string().uuid().parse(id)
+
+    const { data: current } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('id', invoiceId)
+      .maybeSingle()
+
+    if (!current) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 })
+    }
+
+    // Paid invoices stay on the ledger; cancel them instead
+    if (current.status === 'paid') {
+      return NextResponse.json(
+        { error: 'Paid invoices cannot be deleted' },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('invoices')
+      .delete()
+      .eq('id', invoiceId)
+
+    if (error) throw error
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'delete',
+      entity_type: 'invoice',
+      entity_id: invoiceId,
+      changes: { old_values: current }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error deleting invoice:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { InvoiceFileError, runInvoiceImport } from '@/lib/services/invoice-import'
+import { applyPurchaseOrderRisk } from '@/lib/services/po-risk-rules'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/invoices/import - Import vendor invoices from CSV into the ledger
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (!userProfile || !['controller', 'accounting'].includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to import invoices' },
+        { status: 403 }
+      )
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file') as File
+    const projectIdOverride = formData.get('project_id') as string | null
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      )
+    }
+
+    // Projects are resolved with the user's access
+    const { data: projects } = await supabase
+      .from('projects')
+      .select('id, job_number')
+
+    const result = await runInvoiceImport(supabase, {
+      content: Buffer.from(await file.arrayBuffer()),
+      userId: user.id,
+      projects: projects || [],
+      projectIdOverride
+    })
+
+    // Invoiced amounts changed: re-evaluate the POs' risk. Risk changes are recorded in
+    // the forecast history, which only managers can write, so use the admin client
+    const risk = result.purchaseOrderIds.length > 0
+      ? await applyPurchaseOrderRisk(createAdminClient(), { purchaseOrderIds: result.purchaseOrderIds })
+      : { updated: 0 }
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'import',
+      entity_type: 'invoice_import',
+      entity_id: projectIdOverride || user.id,
+      changes: {
+        file_name: file.name,
+        imported: result.imported,
+        duplicates: result.duplicates,
+        errors: result.errors.length,
+        risk_status_changes: risk.updated
+      }
+    })
+
+    return NextResponse.json(
+      { ...result, riskStatusChanges: risk.updated },
+      { status: result.imported > 0 ? 201 : 200 }
+    )
+  } catch (error) {
+    if (error instanceof InvoiceFileError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error importing invoices:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
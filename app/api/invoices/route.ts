@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { LEDGER_INVOICE_COLUMNS } from '@/lib/services/invoice-ledger'
+import { invoiceListQuerySchema } from '@/lib/validations/invoices'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/invoices - Vendor invoices, by project, PO or status
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const filters = invoiceListQuerySchema.parse({
+      project_id: searchParams.get('project_id') || undefined,
+      purchase_order_id: searchParams.get('purchase_order_id') || undefined,
+      status: searchParams.get('status') || undefined
+    })
+
+    let query = supabase
+      .from('invoices')
+      .select(`${LEDGER_INVOICE_COLUMNS}, purchase_orders(po_number), projects(job_number, name)`)
+      .order('invoice_date', { ascending: false })
+
+    if (filters.project_id) query = query.eq('project_id', filters.project_id)
+    if (filters.purchase_order_id) query = query.eq('purchase_order_id', filters.purchase_order_id)
+    if (filters.status) query = query.eq('status', filters.status)
+
+    const { data: invoices, error } = await query
+    if (error) throw error
+
+    return NextResponse.json({ invoices: invoices || [] })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error fetching invoices:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { headcountCurveSchema } from '@/lib/validations/labor-forecast-v2'
+import {
+  fetchCategoryCraftTypes,
+  fetchHeadcountCurveInputs,
+  generateHeadcountCurve,
+  weekEndingsBetween,
+  HEADCOUNT_CATEGORIES
+} from '@/lib/services/headcount-curve'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/labor-forecasts/generate - Spread remaining budgeted hours into a draft headcount forecast
+export async function POST(request: NextRequest) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+  if (userError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const validatedData = headcountCurveSchema.parse(await request.json())
+
+    const { project, budgetedHours, actualHours, lastActualWeek } =
+      await fetchHeadcountCurveInputs(supabase, validatedData.project_id)
+
+    if (HEADCOUNT_CATEGORIES.every(category => budgetedHours[category] === 0)) {
+      return NextResponse.json(
+        { error: 'The imported budget has no labor manhours to spread' },
+        { status: 400 }
+      )
+    }
+
+    const endDate = validatedData.end_date || project.end_date
+    if (!endDate) {
+      return NextResponse.json(
+        { error: 'Project has no end date. Choose an end date for the forecast.' },
+        { status: 400 }
+      )
+    }
+
+    // Remaining schedule starts after the last week with actuals, and never in the past
+    const today = new Date().toISOString().split('T')[0]
+    const afterActuals = lastActualWeek
+      ? new Date(new Date(lastActualWeek + 'T00:00:00Z').getTime() + 86400000).toISOString().split('T')[0]
+      : today
+    const startDate = validatedData.start_date || (afterActuals > today ? afterActuals : today)
+    const weekEndings = weekEndingsBetween(startDate, endDate)
+
+    if (weekEndings.length === 0) {
+      return NextResponse.json(
+        { error: 'The forecast end date is before the start date' },
+        { status: 400 }
+      )
+    }
+
+    const generated = generateHeadcountCurve({
+      budgetedHours,
+      actualHours,
+      weekEndings,
+      curve: validatedData.curve,
+      customProfile: validatedData.custom_profile,
+      hoursPerPerson: validatedData.hours_per_person
+    })
+
+    if (validatedData.preview) {
+      return NextResponse.json({ ...generated, written: 0 })
+    }
+
+    const craftTypeIds = await fetchCategoryCraftTypes(supabase)
+    const rows = generated.weeks.flatMap(week =>
+      week.entries
+        .filter(entry => entry.headcount > 0 && craftTypeIds[entry.category])
+        .map(entry => ({
+          project_id: project.id,
+          craft_type_id: craftTypeIds[entry.category]!,
+          // Stored the way the headcount page saves weeks
+          week_ending: `${week.weekEnding}T00:00:00.000Z`,
+          headcount: entry.headcount,
+          avg_weekly_hours: validatedData.hours_per_person,
+          source: 'generated' as const
+        }))
+    )
+
+    // The draft replaces the previous draft in the generated window; weeks entered by hand are kept
+    const { error: deleteError } = await supabase
+      .from('labor_headcount_forecasts')
+      .delete()
+      .eq('project_id', project.id)
+      .eq('source', 'generated')
+      .gte('week_ending', weekEndings[0])
+      .lte('week_ending', `${weekEndings[weekEndings.length - 1]}T23:59:59.999Z`)
+
+    if (deleteError) throw deleteError
+
+    let written = 0
+    if (rows.length > 0) {
+      const { data: inserted, error: insertError } = await supabase
+        .from('labor_headcount_forecasts')
+        .upsert(rows, { onConflict: 'project_id,craft_type_id,week_ending', ignoreDuplicates: true })
+        .select('id')
+
+      if (insertError) throw insertError
+      written = inserted?.length || 0
+    }
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'generate',
+      entity_type: 'labor_headcount_forecast',
+      entity_id: project.id,
+      changes: {
+        curve: validatedData.curve,
+        hours_per_person: validatedData.hours_per_person,
+        first_week: weekEndings[0],
+        last_week: weekEndings[weekEndings.length - 1],
+        remaining_hours: generated.remainingHours,
+        rows_written: written
+      }
+    })
+
+    return NextResponse.json({ ...generated, written })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Project not found') {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    console.error('Headcount curve generation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate headcount forecast' },
+      { status: 500 }
+    )
+  }
+}
@@ -150,6 +150,7 @@ export async function GET(request: NextRequest) {
         headcount,
         avg_weekly_hours,
         craft_type_id,
+        source,
         craft_types(
           id,
           name,
@@ -218,7 +219,7 @@ export async function GET(request: NextRequest) {
     }
     
     // Aggregate headcounts by week and category
-    const headcountByWeekCategory = new Map<string, { direct: number; indirect: number; staff: number; hours: number }>()
+    const headcountByWeekCategory = new Map<string, { direct: number; indirect: number; staff: number; hours: number; isDraft: boolean }>()
     
     console.log('[DEBUG] Starting aggregation of', finalHeadcounts?.length || 0, 'headcount records')
     
@@ -245,10 +246,13 @@ export async function GET(request: NextRequest) {
       }
       
       if (!headcountByWeekCategory.has(weekDate)) {
-        headcountByWeekCategory.set(weekDate, { direct: 0, indirect: 0, staff: 0, hours: Number(hc.avg_weekly_hours) || 50 })
+        headcountByWeekCategory.set(weekDate, { direct: 0, indirect: 0, staff: 0, hours: Number(hc.avg_weekly_hours) || 50, isDraft: false })
       }
       
       const weekData = headcountByWeekCategory.get(weekDate)!
+      if (hc.source === 'generated') {
+        weekData.isDraft = true
+      }
       if (category in weekData) {
         weekData[category as 'direct' | 'indirect' | 'staff'] += hc.headcount
       }
@@ -272,7 +276,7 @@ export async function GET(request: NextRequest) {
     // Build response structure
     const weeklyData = weeks.map(weekEndingDate => {
       const weekDateOnly = weekEndingDate.toISOString().split('T')[0]
-      const weekData = headcountByWeekCategory.get(weekDateOnly) || { direct: 0, indirect: 0, staff: 0, hours: 50 }
+      const weekData = headcountByWeekCategory.get(weekDateOnly) || { direct: 0, indirect: 0, staff: 0, hours: 50, isDraft: false }
       
       // Create entries for each category
       const entries = [
@@ -314,6 +318,8 @@ export async function GET(request: NextRequest) {
 
       return {
         weekEnding: weekEndingDate.toISOString(),
+        // Written by the curve generator and not yet saved by the PM
+        isDraft: weekData.isDraft,
         entries,
         totals: weekTotals
       }
@@ -552,6 +558,8 @@ export async function POST(request: NextRequest) {
               .update({
                 headcount: entry.headcount,
                 avg_weekly_hours: entry.hours_per_person || 50,
+                // Saving a generated week accepts it as the PM's forecast
+                source: 'manual',
                 updated_at: new Date().toISOString()
               })
               .eq('id', existing.id)
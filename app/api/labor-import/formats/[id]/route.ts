@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { timesheetFormatSchema } from '@/lib/validations/labor-import'
+
+export const dynamic = 'force-dynamic'
+
+// PATCH /api/labor-import/formats/[id] - Update a saved column mapping
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+  if (userError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const validated = timesheetFormatSchema.partial().parse(body)
+
+    const { data: format, error } = await supabase
+      .from('timesheet_formats')
+      .update(validated)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error || !format) {
+      return NextResponse.json({ error: 'Timesheet format not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ format })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Timesheet format update error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update timesheet format' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/labor-import/formats/[id] - Deactivate a saved column mapping
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+  if (userError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+
+    // Deactivate rather than delete so past imports keep their format reference
+    const { error } = await supabase
+      .from('timesheet_formats')
+      .update({ is_active: false })
+      .eq('id', id)
+
+    if (error) throw error
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Timesheet format delete error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete timesheet format' },
+      { status: 500 }
+    )
+  }
+}
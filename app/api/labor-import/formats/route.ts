@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { timesheetFormatSchema } from '@/lib/validations/labor-import'
+import { fetchTimesheetFormats, getTimesheetAdapters } from '@/lib/services/timesheet-adapters'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/labor-import/formats - List supported timesheet layouts
+export async function GET() {
+  const supabase = await createClient()
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+  if (userError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const savedFormats = await fetchTimesheetFormats(supabase)
+    const savedIds = new Set(savedFormats.map(format => format.id))
+
+    return NextResponse.json({
+      formats: getTimesheetAdapters(savedFormats).map(adapter => ({
+        id: adapter.id,
+        name: adapter.name,
+        description: adapter.description,
+        builtIn: !savedIds.has(adapter.id)
+      })),
+      savedFormats
+    })
+  } catch (error) {
+    console.error('Timesheet formats fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch timesheet formats' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/labor-import/formats - Save a column mapping for a timesheet layout
+export async function POST(request: NextRequest) {
+  const supabase = await createClient()
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+  if (userError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json()
+    const validated = timesheetFormatSchema.parse(body)
+
+    const { data: format, error } = await supabase
+      .from('timesheet_formats')
+      .insert({
+        ...validated,
+        sheet_name: validated.sheet_name || null,
+        header_row: validated.header_row ?? null,
+        employee_id_pattern: validated.employee_id_pattern || null,
+        created_by: user.id
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: `A timesheet format named "${validated.name}" already exists` },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
+    return NextResponse.json({ format }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Timesheet format save error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save timesheet format' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,51 +1,54 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
 import { createClient } from '@/lib/supabase/server'
 import { createAdminClient } from '@/lib/supabase/admin'
-import * as XLSX from 'xlsx'
 import { z } from 'zod'
 import {
   laborImportSchema,
-  parseExcelDate,
-  EXCEL_COLUMNS,
   type LaborImportResult
 } from '@/lib/validations/labor-import'
+import { getEffectiveBurdenRates, normalizeBurdenCategory } from '@/lib/services/burden-rates'
+import { applyPayRule, calculateWages, fetchPayRules, resolvePayRule } from '@/lib/services/pay-rules'
+import {
+  fetchTimesheetFormats,
+  getTimesheetAdapters,
+  readTimesheetWorkbook,
+  resolveTimesheetAdapter
+} from '@/lib/services/timesheet-adapters'
+import { INVALID_WEEK_ENDING_ERROR, parseDateValue } from '@/lib/services/timesheet-adapters/utils'
+import {
+  analyzeImportOverlap,
+  buildImportConflict,
+  createContentFingerprint,
+  findDuplicateImport,
+  hashFileContent,
+  parseConflictStrategy
+} from '@/lib/services/import-fingerprint'
+import { ImportBatch, applyImportBatch, trackFailedImport } from '@/lib/services/import-transaction'
+import { fetchEmployeeRateHistory, resolveEmployeeRate } from '@/lib/services/employee-rates'
+import { assertPeriodsOpen, ClosedPeriodError } from '@/lib/services/accounting-periods'
+import {
+  compareWithPreviousWeek,
+  diffLaborRecords,
+  estimatePerDiem,
+  resolveWeekRecords,
+  summarizeLaborRecords,
+  type LaborCategory,
+  type LaborImportPreview,
+  type PreviewLaborRecord
+} from '@/lib/services/labor-import-preview'
+import {
+  detectMasterChange,
+  findEmployeeMatches,
+  inferCategoryFromCraftCode,
+  parseEmployeeResolution,
+  type EmployeeMasterChange,
+  type EmployeeResolution,
+  type ReconciliationEmployee
+} from '@/lib/services/employee-reconciliation'
 
 export const dynamic = 'force-dynamic'
 
-// Helper to generate a simple hash for duplicate detection
-async function generateFileHash(buffer: Buffer): Promise<string> {
-  // Convert buffer to string for hashing
-  const text = buffer.toString('base64')
-  
-  // Use a simple hash function for duplicate detection
-  let hash = 0
-  for (let i = 0; i < text.length; i++) {
-    const char = text.charCodeAt(i)
-    hash = ((hash << 5) - hash) + char
-    hash = hash & hash // Convert to 32-bit integer
-  }
-  
-  // Convert to hex string
-  return Math.abs(hash).toString(16).padStart(8, '0')
-}
-
-// Helper to parse numeric value from Excel cell
-function parseNumericValue(value: unknown): number {
-  if (typeof value === 'number') return value
-  if (typeof value === 'string') {
-    const cleaned = value.replace(/[^0-9.-]/g, '')
-    const parsed = parseFloat(cleaned)
-    return isNaN(parsed) ? 0 : parsed
-  }
-  return 0
-}
-
-// Helper to parse string value from Excel cell
-function parseStringValue(value: unknown): string {
-  if (value === null || value === undefined) return ''
-  return String(value).trim()
-}
-
 // Helper to parse employee name with suffix handling
 function parseEmployeeName(nameField: string): { firstName: string; lastName: string } {
   const suffixes = ['Jr', 'Jr.', 'Sr', 'Sr.', 'II', 'III', 'IV']
@@ -81,67 +84,8 @@ function parseEmployeeName(nameField: string): { firstName: string; lastName: st
   }
 }
 
-// Craft code to category mapping
-const CRAFT_CODE_CATEGORY_MAP: Record<string, string> = {
-  'STA': 'staff',
-  'STAFF': 'staff',
-  'IND': 'indirect',
-  'INDIRECT': 'indirect',
-  'DIR': 'direct',
-  'DIRECT': 'direct'
-}
-
-// Helper to infer category from craft code
-function inferCategoryFromCraftCode(craftCode: string): string {
-  const upperCode = craftCode.toUpperCase()
-  
-  // Check exact matches first
-  if (CRAFT_CODE_CATEGORY_MAP[upperCode]) {
-    return CRAFT_CODE_CATEGORY_MAP[upperCode]
-  }
-  
-  // Check if code starts with known prefixes
-  for (const [prefix, category] of Object.entries(CRAFT_CODE_CATEGORY_MAP)) {
-    if (upperCode.startsWith(prefix)) {
-      return category
-    }
-  }
-  
-  // Default to direct
-  return 'direct'
-}
-
-// Helper to track failed import attempts
-async function trackFailedImport(
-  adminSupabase: ReturnType<typeof createAdminClient>,
-  projectId: string | null,
-  userId: string | null,
-  fileName: string | null,
-  errorMessage: string,
-  metadata?: Record<string, unknown>
-) {
-  if (!projectId || !userId || !fileName) return
-  
-  try {
-    await adminSupabase
-      .from('data_imports')
-      .insert({
-        project_id: projectId,
-        import_type: 'labor',
-        import_status: 'failed',
-        imported_by: userId,
-        file_name: fileName,
-        records_processed: 0,
-        records_failed: 0,
-        error_message: errorMessage,
-        metadata: metadata || {}
-      })
-  } catch (error) {
-    console.error('Error tracking failed import:', error)
-  }
-}
-
 // POST /api/labor-import - Import labor cost Excel file
+// mode=preview computes the full result without writing anything
 export async function POST(request: NextRequest) {
   let adminSupabase: ReturnType<typeof createAdminClient> | undefined
   let projectId: string | null = null
@@ -149,6 +93,7 @@ export async function POST(request: NextRequest) {
   let file: File | null = null
   let weekEndingISO: string | undefined
   let fileHash: string | undefined
+  let isPreview = false
   
   try {
     const supabase = await createClient()
@@ -182,6 +127,10 @@ export async function POST(request: NextRequest) {
     file = formData.get('file') as File
     projectId = formData.get('project_id') as string | null
     const forceRefresh = formData.get('force_refresh') as string | null
+    const formatId = formData.get('format_id') as string | null
+    const weekEndingOverride = formData.get('week_ending') as string | null
+    const conflictStrategy = parseConflictStrategy(formData.get('conflict_strategy'))
+    isPreview = formData.get('mode') === 'preview'
 
     if (!file) {
       return NextResponse.json(
@@ -189,6 +138,17 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       )
     }
+
+    // Employee matches, rates and master data changes chosen on the confirmation step
+    let resolution: EmployeeResolution
+    try {
+      resolution = parseEmployeeResolution(formData.get('reconciliation'))
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid employee reconciliation' },
+        { status: 400 }
+      )
+    }
     
     // If force refresh is requested, add a small delay to ensure database consistency
     if (forceRefresh) {
@@ -200,59 +160,50 @@ export async function POST(request: NextRequest) {
     const buffer = Buffer.from(arrayBuffer)
     
     // Calculate file hash for duplicate detection
-    fileHash = await generateFileHash(buffer)
+    fileHash = hashFileContent(buffer)
 
-    let workbook: XLSX.WorkBook
+    let workbook
     try {
-      workbook = XLSX.read(buffer, { type: 'buffer', cellDates: false, dateNF: 'yyyy-mm-dd' })
+      workbook = readTimesheetWorkbook(buffer, file.name)
     } catch {
       return NextResponse.json(
-        { error: 'Failed to parse Excel file. Please ensure it is a valid .xlsx file.' },
+        { error: 'Failed to parse file. Please ensure it is a valid Excel or CSV file.' },
         { status: 400 }
       )
     }
 
-    // Get the DOW sheet
-    const sheetName = 'DOW'
-    if (!workbook.SheetNames.includes(sheetName)) {
+    // Pick the timesheet layout: explicit format_id or auto-detect
+    const savedFormats = await fetchTimesheetFormats(adminSupabase)
+    const adapter = resolveTimesheetAdapter(workbook, savedFormats, formatId)
+    if (!adapter) {
       return NextResponse.json(
-        { error: `Sheet "${sheetName}" not found in Excel file` },
-        { status: 400 }
-      )
-    }
-
-    const worksheet = workbook.Sheets[sheetName]
-    const rawData = XLSX.utils.sheet_to_json(worksheet, { 
-      header: 1,
-      raw: true,
-      defval: ''
-    }) as unknown[][]
-
-    if (rawData.length < 9) { // Need at least 9 rows (data starts at row 9)
-      return NextResponse.json(
-        { error: 'Invalid Excel format. File does not have enough rows.' },
+        {
+          error: formatId
+            ? `Unknown timesheet format: ${formatId}`
+            : 'Unrecognized timesheet layout. Select a format or save a column mapping for this layout.',
+          supportedFormats: getTimesheetAdapters(savedFormats).map(a => ({ id: a.id, name: a.name }))
+        },
         { status: 400 }
       )
     }
 
-    // Validate headers (row 8, 0-indexed = row 7)
-    const headerRow = rawData[7]
-    if (!headerRow || parseStringValue(headerRow[4]) !== 'Name' || parseStringValue(headerRow[12]) !== 'StHours') {
+    const timesheet = adapter.parse(workbook)
+    // A week ending override covers layouts without a readable week ending; other errors still block
+    const blockingErrors = weekEndingOverride
+      ? timesheet.validation.errors.filter(error => error !== INVALID_WEEK_ENDING_ERROR)
+      : timesheet.validation.errors
+    if (blockingErrors.length > 0) {
       return NextResponse.json(
-        { error: 'Invalid Excel format. Header row does not match expected format.' },
+        { error: blockingErrors[0], format: adapter.name },
         { status: 400 }
       )
     }
 
-    // Extract contractor number and try to match project if no project_id provided
-    const contractorRow = rawData[3] // Row 4 (0-indexed)
-    const contractorNumber = parseStringValue(contractorRow[4]) // "5772 LS DOW" at index 4
-    
-    // Extract job number from contractor string (e.g., "5772 LS DOW" -> "5772")
-    const jobNumberMatch = contractorNumber.match(/^(\d+)/)
-    const fileJobNumber = jobNumberMatch ? jobNumberMatch[1] : ''
+    const contractorNumber = timesheet.contractorNumber
+    const fileJobNumber = timesheet.jobNumber
     
     console.log('Labor Import Debug:', {
+      format: adapter.id,
       contractorNumber,
       fileJobNumber,
       projectIdFromForm: projectId
@@ -332,8 +283,9 @@ export async function POST(request: NextRequest) {
 
     // Validate job number matches if provided
     if (fileJobNumber && fileJobNumber !== project.job_number) {
-      await trackFailedImport(
+      if (!isPreview) await trackFailedImport(
         adminSupabase,
+        'labor',
         project.id,
         user.id,
         file.name,
@@ -357,51 +309,135 @@ export async function POST(request: NextRequest) {
     // Per CLAUDE.md: "All users have 'project_manager' role" and "All users see all projects"
     console.log('Access control passed - simplified permissions model')
 
-    // Extract week ending date
-    const weekEndingRow = rawData[4] // Row 5 (0-indexed)
-    const weekEndingSerial = parseNumericValue(weekEndingRow[4])
+    // Week ending comes from the file unless overridden (layouts without a week ending column)
+    const weekEndingDate = weekEndingOverride
+      ? parseDateValue(weekEndingOverride)
+      : timesheet.weekEnding
     
-    if (!weekEndingSerial) {
+    if (!weekEndingDate) {
       return NextResponse.json(
-        { error: 'Invalid week ending date in Excel file' },
+        { error: 'Invalid week ending date in timesheet' },
         { status: 400 }
       )
     }
 
-    const weekEndingDate = parseExcelDate(weekEndingSerial)
     weekEndingISO = weekEndingDate.toISOString().split('T')[0] // Use date only
+
+    // Weeks are booked to the month of their week ending; closed months were already reported
+    try {
+      await assertPeriodsOpen(adminSupabase, [{ projectId: project.id, date: weekEndingISO }])
+    } catch (error) {
+      if (error instanceof ClosedPeriodError) {
+        return NextResponse.json(
+          { error: `Week ending ${weekEndingISO} is in a closed period. ${error.message}`, closed_periods: error.periods },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
+    // Rows the user matched to an existing employee are imported under that employee's number
+    const employeeNumberAliases = new Map<string, string>()
+    const matchedEmployeeIds = Object.values(resolution.matches)
+    if (matchedEmployeeIds.length > 0) {
+      const { data: matchedEmployees } = await adminSupabase
+        .from('employees')
+        .select('id, employee_number')
+        .in('id', matchedEmployeeIds)
+
+      const employeeNumbersById = new Map(
+        (matchedEmployees || []).map(employee => [employee.id, employee.employee_number])
+      )
+      for (const [fileEmployeeNumber, employeeId] of Object.entries(resolution.matches)) {
+        const employeeNumber = employeeNumbersById.get(employeeId)
+        if (employeeNumber) employeeNumberAliases.set(fileEmployeeNumber, employeeNumber)
+      }
+    }
+    const resolveEmployeeNumber = (employeeNumber: string) =>
+      employeeNumberAliases.get(employeeNumber) || employeeNumber
     
-    // Check for duplicate import
-    if (fileHash) {
-      const { data: existingImport } = await adminSupabase
-        .from('data_imports')
-        .select('id, created_at')
-        .eq('project_id', project.id)
-        .eq('import_type', 'labor')
-        .eq('import_status', 'success')
-        .eq('metadata->>file_hash', fileHash)
-        .eq('metadata->>week_ending', weekEndingISO)
-        .single()
-      
-      if (existingImport) {
+    // Fingerprint the normalized rows so a re-saved copy of the same timesheet is recognized
+    const contentFingerprint = createContentFingerprint(
+      timesheet.rows.map(row => ({
+        week_ending: weekEndingISO,
+        employee_number: row.employeeNumber,
+        st_hours: row.stHours,
+        ot_hours: row.otHours,
+        daily_hours: row.dailyHours,
+        rate: row.stRate
+      }))
+    )
+
+    // Employees already imported for this week (used for overlap detection and totals)
+    const { data: existingWeekRecords } = await adminSupabase
+      .from('labor_employee_actuals')
+      .select('id, st_hours, ot_hours, dt_hours, st_wages, ot_wages, burden_rate, total_cost_with_burden, employees!inner(employee_number, first_name, last_name, category)')
+      .eq('project_id', project.id)
+      .eq('week_ending', weekEndingISO)
+
+    type ExistingWeekRecord = {
+      id: string
+      st_hours: number
+      ot_hours: number
+      dt_hours: number | null
+      st_wages: number
+      ot_wages: number
+      burden_rate: number | null
+      total_cost_with_burden: number | null
+      employees: { employee_number: string; first_name: string; last_name: string; category: string | null }
+    }
+    const existingWeekEmployees = new Map<string, ExistingWeekRecord>(
+      ((existingWeekRecords || []) as unknown as ExistingWeekRecord[])
+        .map(record => [record.employees?.employee_number, record])
+    )
+
+    const previousImport = await findDuplicateImport(adminSupabase, {
+      projectId: project.id,
+      importType: 'labor',
+      fileHash,
+      contentFingerprint,
+      metadata: { week_ending: weekEndingISO }
+    })
+    const overlap = analyzeImportOverlap(
+      timesheet.rows
+        .filter(row => row.stHours > 0 || row.otHours > 0)
+        .map(row => resolveEmployeeNumber(row.employeeNumber)),
+      existingWeekEmployees.keys()
+    )
+
+    // Duplicates and overlapping weeks need an explicit merge/replace/skip decision.
+    // Previews report the conflict instead so the user can decide on the confirmation step.
+    if (!conflictStrategy && !isPreview) {
+      const conflict = buildImportConflict(previousImport, overlap, `week ending ${weekEndingISO}`)
+      if (conflict) {
         return NextResponse.json(
-          { 
-            error: 'Duplicate import detected',
-            message: `This file was already imported on ${new Date(existingImport.created_at).toLocaleString()}`,
-            import_id: existingImport.id
-          },
-          { status: 400 }
+          { error: conflict.message, conflict },
+          { status: 409 }
         )
       }
     }
 
-    // Get all default craft types for each category
-    const { data: defaultCraftTypes, error: fetchError } = await adminSupabase
+    if (previousImport && conflictStrategy === 'skip' && !isPreview) {
+      return NextResponse.json({
+        success: true,
+        imported: 0,
+        updated: 0,
+        skipped: timesheet.rows.length,
+        errors: [],
+        conflictStrategy,
+        duplicateOf: previousImport.id
+      } satisfies LaborImportResult)
+    }
+
+    // Craft types, including the default craft for each category
+    const { data: craftTypes, error: fetchError } = await adminSupabase
       .from('craft_types')
       .select('id, code, name, category')
-      .in('code', ['DIRECT', 'INDIRECT', 'STAFF'])
+
+    const defaultCraftTypes = (craftTypes || [])
+      .filter(ct => ['DIRECT', 'INDIRECT', 'STAFF'].includes(ct.code))
     
-    if (fetchError || !defaultCraftTypes || defaultCraftTypes.length !== 3) {
+    if (fetchError || defaultCraftTypes.length !== 3) {
       console.error('Error fetching default craft types:', fetchError)
       return NextResponse.json(
         { error: 'Default labor categories not found. Please contact support.' },
@@ -417,6 +453,12 @@ export async function POST(request: NextRequest) {
     
     console.log('Default craft types loaded:', Object.keys(categoryToCraftTypeId).join(', '))
 
+    // Resolve configured burden rates for this project and week
+    const burdenRates = await getEffectiveBurdenRates(adminSupabase, project.id, weekEndingISO)
+
+    // Load overtime/double time rules for this project
+    const payRules = await fetchPayRules(adminSupabase, project.id)
+
     // Initialize result tracking
     const result: LaborImportResult = {
       success: false,
@@ -424,33 +466,40 @@ export async function POST(request: NextRequest) {
       updated: 0,
       skipped: 0,
       errors: [],
-      employeeCount: 0
+      employeeCount: 0,
+      conflictStrategy: conflictStrategy || undefined
     }
 
     // Initialize totals for aggregation by category
     const categoryTotals: Record<string, {
       stHours: number
       otHours: number
+      dtHours: number
       stWages: number
       otWages: number
       employeeCount: number
       employeeIds: Set<string>
     }> = {
-      direct: { stHours: 0, otHours: 0, stWages: 0, otWages: 0, employeeCount: 0, employeeIds: new Set() },
-      indirect: { stHours: 0, otHours: 0, stWages: 0, otWages: 0, employeeCount: 0, employeeIds: new Set() },
-      staff: { stHours: 0, otHours: 0, stWages: 0, otWages: 0, employeeCount: 0, employeeIds: new Set() }
+      direct: { stHours: 0, otHours: 0, dtHours: 0, stWages: 0, otWages: 0, employeeCount: 0, employeeIds: new Set() },
+      indirect: { stHours: 0, otHours: 0, dtHours: 0, stWages: 0, otWages: 0, employeeCount: 0, employeeIds: new Set() },
+      staff: { stHours: 0, otHours: 0, dtHours: 0, stWages: 0, otWages: 0, employeeCount: 0, employeeIds: new Set() }
     }
     let totalEmployeeCount = 0
 
     // Batch fetch all employees upfront for performance
-    const employeeIds = rawData.slice(9)
-      .map(row => parseStringValue(row[EXCEL_COLUMNS.EMPLOYEE_ID]))
-      .filter(id => /^T\d+$/.test(id))
+    const employeeIds = timesheet.rows.map(row => resolveEmployeeNumber(row.employeeNumber))
     
     const { data: existingEmployees } = await adminSupabase
       .from('employees')
       .select('id, employee_number, first_name, last_name, base_rate, category, craft_type_id')
       .in('employee_number', employeeIds)
+
+    // Cost the week at the rates in force on its week ending, not today's rates
+    const rateDate = weekEndingISO
+    const rateHistory = await fetchEmployeeRateHistory(
+      adminSupabase,
+      (existingEmployees || []).map(e => e.id)
+    )
     
     type EmployeeRecord = {
       id: string
@@ -463,7 +512,10 @@ export async function POST(request: NextRequest) {
     }
     
     const employeeMap = new Map<string, EmployeeRecord>(
-      existingEmployees?.map(e => [e.employee_number, e as EmployeeRecord]) || []
+      existingEmployees?.map(e => [e.employee_number, {
+        ...e,
+        base_rate: resolveEmployeeRate(rateHistory.get(e.id) || [], rateDate) ?? e.base_rate
+      } as EmployeeRecord]) || []
     )
     
     // Arrays to collect batch operations
@@ -471,78 +523,66 @@ export async function POST(request: NextRequest) {
     const laborRecordsToUpsert: any[] = []
     const craftCodeWarnings: string[] = []
     
+    // Employee master updates from the confirmation step (category/craft), by employee id
+    const employeeUpdates = new Map<string, Record<string, unknown>>()
+    const queueEmployeeUpdate = (employeeId: string, values: Record<string, unknown>) => {
+      employeeUpdates.set(employeeId, { ...employeeUpdates.get(employeeId), ...values })
+    }
+    // Category/craft differences between the file and the employee master, by employee number
+    const masterChanges = new Map<string, EmployeeMasterChange>()
+    // Rates entered on the confirmation step, by employee id; recorded from this week on
+    const enteredRates = new Map<string, number>()
+    
     // Track new employees created
     let newEmployeesCreated = 0
     let zeroRateEmployees = 0
+    let ratesEntered = 0
 
-    // Process employee data rows
-    for (let i = 9; i < rawData.length; i++) {
-      const row = rawData[i]
-      const rowNumber = i + 1
-
-      // Skip empty rows or rows without valid employee ID
-      const employeeIdCell = parseStringValue(row[EXCEL_COLUMNS.EMPLOYEE_ID])
-      
-      // Stop if we hit the Grand Totals row
-      if (employeeIdCell === 'Grand Totals' || employeeIdCell.toLowerCase().includes('total')) {
-        break
-      }
-      
-      // Check if employee ID matches pattern T\d+
-      if (!employeeIdCell || !/^T\d+$/.test(employeeIdCell)) {
-        continue
-      }
+    // Process employee data rows normalized by the timesheet adapter
+    for (const row of timesheet.rows) {
+      const rowNumber = row.rowNumber
+      const employeeIdCell = resolveEmployeeNumber(row.employeeNumber)
 
       try {
         // Get employee data from the row
-        const employeeName = parseStringValue(row[EXCEL_COLUMNS.NAME])
-        const craftCode = parseStringValue(row[EXCEL_COLUMNS.CRAFT])
-        const stHours = parseNumericValue(row[EXCEL_COLUMNS.ST_HOURS])
-        const otHours = parseNumericValue(row[EXCEL_COLUMNS.OT_HOURS])
+        const employeeName = row.name
+        const craftCode = row.craftCode
+        const stHours = row.stHours
+        const otHours = row.otHours
         
         // Skip rows with 0 hours
         if (stHours === 0 && otHours === 0) {
           result.skipped++
           continue
         }
+
+        // Keep previously imported hours for this week
+        if (conflictStrategy === 'skip' && existingWeekEmployees.has(employeeIdCell)) {
+          result.skipped++
+          continue
+        }
         
         // Log craft code warning if present
         if (craftCode) {
           craftCodeWarnings.push(`Row ${rowNumber}: Employee ${employeeIdCell} has craft code '${craftCode}' - review for category assignment`)
         }
 
-        // Parse daily hours and validate
-        const dailyHours: Record<string, number> = {}
-        const dayColumns = [
-          { day: 'monday', index: EXCEL_COLUMNS.MONDAY },
-          { day: 'tuesday', index: EXCEL_COLUMNS.TUESDAY },
-          { day: 'wednesday', index: EXCEL_COLUMNS.WEDNESDAY },
-          { day: 'thursday', index: EXCEL_COLUMNS.THURSDAY },
-          { day: 'friday', index: EXCEL_COLUMNS.FRIDAY },
-          { day: 'saturday', index: EXCEL_COLUMNS.SATURDAY },
-          { day: 'sunday', index: EXCEL_COLUMNS.SUNDAY }
-        ]
-        
-        for (const { day, index } of dayColumns) {
-          const hours = parseNumericValue(row[index])
-          if (hours > 0) {
-            if (hours > 16) {
-              result.errors.push({
-                row: rowNumber,
-                message: `Daily hours exceed 16-hour limit: ${hours} hours on ${day}`,
-                data: { employee_number: employeeIdCell, day, hours }
-              })
-              throw new Error('Daily hours validation failed')
-            }
-            dailyHours[day] = hours
+        // Validate daily hours
+        const dailyHours = row.dailyHours
+        for (const [day, hours] of Object.entries(dailyHours)) {
+          if (hours && hours > 16) {
+            result.errors.push({
+              row: rowNumber,
+              message: `Daily hours exceed 16-hour limit: ${hours} hours on ${day}`,
+              data: { employee_number: employeeIdCell, day, hours }
+            })
+            throw new Error('Daily hours validation failed')
           }
         }
 
         // Check if employee exists in our map
         const existingEmployee = employeeMap.get(employeeIdCell)
-        
-        const employeeId = existingEmployee?.id
-        const employeeBaseRate = existingEmployee?.base_rate || 0
+        let employee: EmployeeRecord
         let employeeCategory = existingEmployee?.category?.toLowerCase() || 'direct'
         
         if (!existingEmployee) {
@@ -570,11 +610,13 @@ export async function POST(request: NextRequest) {
             }
             
             const newEmployee = {
+              id: randomUUID(),
               employee_number: employeeIdCell,
               first_name: firstName,
               last_name: lastName,
               craft_type_id: categoryToCraftTypeId[employeeCategory],
-              base_rate: 0, // Always 0 for new employees per requirements
+              // 0 unless a rate was entered on the confirmation step
+              base_rate: resolution.rates[employeeIdCell] || 0,
               category: employeeCategory.charAt(0).toUpperCase() + employeeCategory.slice(1), // Capitalize
               is_direct: employeeCategory === 'direct',
               is_active: true
@@ -582,45 +624,93 @@ export async function POST(request: NextRequest) {
             
             newEmployeesToCreate.set(employeeIdCell, newEmployee)
             newEmployeesCreated++
+            if (newEmployee.base_rate > 0) {
+              enteredRates.set(newEmployee.id, newEmployee.base_rate)
+              ratesEntered++
+            }
           } else {
             console.log(`Skipping duplicate employee: ${employeeIdCell} - already queued for creation`)
           }
-          
-          // Skip wage calculations since base_rate is 0
-          zeroRateEmployees++
-          result.errors.push({
-            row: rowNumber,
-            message: 'New employee created with base_rate=0, wages not calculated',
-            data: { employee_number: employeeIdCell, name: employeeName }
-          })
-          continue
+
+          employee = newEmployeesToCreate.get(employeeIdCell)
+          employeeCategory = employee.category.toLowerCase()
+        } else {
+          employee = existingEmployee
+
+          // Category or craft in the file differs from the employee master
+          const masterChange = detectMasterChange(existingEmployee, craftCode, craftTypes || [])
+          if (masterChange) {
+            masterChanges.set(employeeIdCell, masterChange)
+
+            if (resolution.applyChanges.includes(employeeIdCell)) {
+              const category = masterChange.category
+              const changes = {
+                category: category.charAt(0).toUpperCase() + category.slice(1),
+                craft_type_id: masterChange.craft_type_id || categoryToCraftTypeId[category],
+                is_direct: category === 'direct'
+              }
+              queueEmployeeUpdate(existingEmployee.id, changes)
+              employee = { ...existingEmployee, ...changes }
+              employeeCategory = category
+            }
+          }
+
+          // A rate entered on the confirmation step fills in a missing base rate
+          const enteredRate = resolution.rates[employeeIdCell]
+          if (!existingEmployee.base_rate && enteredRate) {
+            enteredRates.set(existingEmployee.id, enteredRate)
+            employee = { ...employee, base_rate: enteredRate }
+            ratesEntered++
+          }
+
+          employeeMap.set(employeeIdCell, employee)
         }
+
+        const employeeId = employee.id
+        const employeeBaseRate = employee.base_rate || 0
         
-        // Check for zero base rate
+        // Skip wage calculations until the employee has a base rate
         if (employeeBaseRate === 0) {
           zeroRateEmployees++
-          result.errors.push({
-            row: rowNumber,
-            message: 'Employee has base_rate=0, skipping wage calculations',
-            data: { employee_number: employeeIdCell }
-          })
+          result.errors.push(existingEmployee
+            ? {
+                row: rowNumber,
+                message: 'Employee has base_rate=0, skipping wage calculations',
+                data: { employee_number: employeeIdCell }
+              }
+            : {
+                row: rowNumber,
+                message: 'New employee created with base_rate=0, wages not calculated',
+                data: { employee_number: employeeIdCell, name: employeeName }
+              })
           continue
         }
         
-        // Calculate wages using employee base rate
-        const stWages = stHours * employeeBaseRate
-        const otWages = otHours * employeeBaseRate * 1.5 // 1.5x for overtime
+        // Split hours using the project's pay rule when daily hours are available,
+        // otherwise keep the ST/OT split from the timesheet
+        const payRule = resolvePayRule(payRules, {
+          projectId: project.id,
+          craftTypeId: employee.craft_type_id
+        })
+        const hoursSplit = payRule && Object.keys(dailyHours).length > 0
+          ? applyPayRule(dailyHours, payRule)
+          : { stHours, otHours, dtHours: 0 }
+        const wages = calculateWages(hoursSplit, employeeBaseRate, payRule)
         
         // Prepare labor record for batch upsert
+        // ot_hours/ot_wages include double time; dt_* hold the double time portion
         laborRecordsToUpsert.push({
           employee_id: employeeId,
           employee_number: employeeIdCell, // Add employee number for reference
           project_id: project.id,
           week_ending: weekEndingISO,
-          st_hours: stHours,
-          ot_hours: otHours,
-          st_wages: stWages,
-          ot_wages: otWages,
+          st_hours: hoursSplit.stHours,
+          ot_hours: hoursSplit.otHours + hoursSplit.dtHours,
+          dt_hours: hoursSplit.dtHours,
+          st_wages: wages.stWages,
+          ot_wages: wages.otWages + wages.dtWages,
+          dt_wages: wages.dtWages,
+          burden_rate: burdenRates[normalizeBurdenCategory(employeeCategory)],
           daily_hours: Object.keys(dailyHours).length > 0 ? dailyHours : null
         })
         
@@ -637,132 +727,233 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Batch create new employees if any
-    if (newEmployeesToCreate.size > 0) {
-      const employeesToInsert = Array.from(newEmployeesToCreate.values())
-      const { data: createdEmployees, error: createError } = await adminSupabase
-        .from('employees')
-        .insert(employeesToInsert)
-        .select('id, employee_number, base_rate, category')
-      
-      if (createError) {
-        console.error('Failed to create employees:', createError)
-        result.errors.push({
-          row: 0,
-          message: `Failed to create ${newEmployeesToCreate.size} employees: ${createError.message}`
-        })
-      } else if (createdEmployees) {
-        // Add created employees to our map
-        createdEmployees.forEach(emp => {
-          employeeMap.set(emp.employee_number, emp)
-        })
-        
-        // Log each new employee in audit
-        for (const emp of createdEmployees) {
-          await adminSupabase.from('audit_log').insert({
-            user_id: user.id,
-            action: 'create',
-            entity_type: 'employee',
-            entity_id: emp.id,
-            changes: {
-              source: 'labor_import',
-              employee_number: emp.employee_number,
-              created_during_import: true
-            }
-          }).catch(err => console.error('Audit log error:', err))
+    // Preview: report what the import would do and stop before any writes
+    if (isPreview) {
+      const toPreviewRecord = (record: ExistingWeekRecord): PreviewLaborRecord => ({
+        employee_number: record.employees.employee_number,
+        name: `${record.employees.last_name}, ${record.employees.first_name}`,
+        category: record.employees.category || 'direct',
+        st_hours: record.st_hours,
+        ot_hours: record.ot_hours,
+        dt_hours: record.dt_hours,
+        st_wages: record.st_wages,
+        ot_wages: record.ot_wages,
+        burden_rate: record.burden_rate,
+        total_cost_with_burden: record.total_cost_with_burden
+      })
+
+      const incomingRecords: PreviewLaborRecord[] = laborRecordsToUpsert.map(record => {
+        const employee = employeeMap.get(record.employee_number) ||
+          newEmployeesToCreate.get(record.employee_number)
+        return {
+          employee_number: record.employee_number,
+          name: employee ? `${employee.last_name}, ${employee.first_name}` : record.employee_number,
+          category: employee?.category || 'direct',
+          st_hours: record.st_hours,
+          ot_hours: record.ot_hours,
+          dt_hours: record.dt_hours,
+          st_wages: record.st_wages,
+          ot_wages: record.ot_wages,
+          burden_rate: record.burden_rate
         }
-      }
-    }
+      })
+      const existingRecords = Array.from(existingWeekEmployees.values()).map(toPreviewRecord)
+      const weekRecords = resolveWeekRecords(incomingRecords, existingRecords, conflictStrategy)
 
-    // Batch upsert labor records
-    if (laborRecordsToUpsert.length > 0) {
-      // Process in chunks to avoid query size limits
-      const chunkSize = 100
-      for (let i = 0; i < laborRecordsToUpsert.length; i += chunkSize) {
-        const chunk = laborRecordsToUpsert.slice(i, i + chunkSize)
-        
-        // First, check which records exist
-        const employeeIds = chunk.map(r => r.employee_id).filter(Boolean)
-        const { data: existingRecords } = await adminSupabase
+      // Most recent earlier week for week-over-week deltas
+      const { data: previousWeekRow } = await adminSupabase
+        .from('labor_employee_actuals')
+        .select('week_ending')
+        .eq('project_id', project.id)
+        .lt('week_ending', weekEndingISO)
+        .order('week_ending', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      let previousWeek: { weekEnding: string; records: PreviewLaborRecord[] } | null = null
+      if (previousWeekRow) {
+        const { data: previousWeekRecords } = await adminSupabase
           .from('labor_employee_actuals')
-          .select('id, employee_id')
-          .in('employee_id', employeeIds)
+          .select('id, st_hours, ot_hours, dt_hours, st_wages, ot_wages, burden_rate, total_cost_with_burden, employees!inner(employee_number, first_name, last_name, category)')
           .eq('project_id', project.id)
-          .eq('week_ending', weekEndingISO)
-        
-        const existingMap = new Map(existingRecords?.map(r => [r.employee_id, r.id]) || [])
-        
-        // Separate updates and inserts
-        const toUpdate = chunk.filter(r => r.employee_id && existingMap.has(r.employee_id))
-        const toInsert = chunk.filter(r => r.employee_id && !existingMap.has(r.employee_id))
-        
-        // Perform updates
-        for (const record of toUpdate) {
-          const { error } = await adminSupabase
-            .from('labor_employee_actuals')
-            .update({
-              st_hours: record.st_hours,
-              ot_hours: record.ot_hours,
-              st_wages: record.st_wages,
-              ot_wages: record.ot_wages,
-              daily_hours: record.daily_hours,
-              updated_at: new Date().toISOString()
-            })
-            .eq('id', existingMap.get(record.employee_id))
-          
-          if (!error) {
-            result.updated++
-            
-            // Add to aggregation totals after successful write
-            const recordWithNumber = toUpdate.find(r => r.employee_id === record.employee_id)
-            if (recordWithNumber && recordWithNumber.employee_number) {
-              const emp = employeeMap.get(recordWithNumber.employee_number)
-              if (emp && emp.base_rate > 0) {
-                const category = emp.category.toLowerCase()
-                if (categoryTotals[category]) {
-                  categoryTotals[category].stHours += record.st_hours
-                  categoryTotals[category].otHours += record.ot_hours
-                  categoryTotals[category].stWages += record.st_wages
-                  categoryTotals[category].otWages += record.ot_wages
-                  categoryTotals[category].employeeIds.add(recordWithNumber.employee_number)
-                }
-              }
-            }
-          }
+          .eq('week_ending', previousWeekRow.week_ending)
+
+        previousWeek = {
+          weekEnding: previousWeekRow.week_ending,
+          records: ((previousWeekRecords || []) as unknown as ExistingWeekRecord[]).map(toPreviewRecord)
         }
-        
-        // Perform inserts
-        if (toInsert.length > 0) {
-          // Remove employee_number from records before inserting
-          const recordsToInsert = toInsert.map(({ employee_number, ...record }) => record)
-          const { data: inserted, error } = await adminSupabase
-            .from('labor_employee_actuals')
-            .insert(recordsToInsert)
-            .select('employee_id')
-          
-          if (!error && inserted) {
-            result.imported += inserted.length
-            
-            // Add to aggregation totals after successful write
-            inserted.forEach(rec => {
-              const record = toInsert.find(r => r.employee_id === rec.employee_id)
-              if (record && record.employee_number) {
-                const emp = employeeMap.get(record.employee_number)
-                if (emp && emp.base_rate > 0) {
-                  const category = emp.category.toLowerCase()
-                  if (categoryTotals[category]) {
-                    categoryTotals[category].stHours += record.st_hours
-                    categoryTotals[category].otHours += record.ot_hours
-                    categoryTotals[category].stWages += record.st_wages
-                    categoryTotals[category].otWages += record.ot_wages
-                    categoryTotals[category].employeeIds.add(record.employee_number)
-                  }
-                }
-              }
-            })
-          }
+      }
+
+      const { data: perDiemSettings } = await adminSupabase
+        .from('projects')
+        .select('per_diem_enabled, per_diem_rate_direct, per_diem_rate_indirect')
+        .eq('id', project.id)
+        .single()
+
+      // Offer existing employees with similar names for employees the file doesn't know
+      let activeEmployees: ReconciliationEmployee[] = []
+      if (newEmployeesToCreate.size > 0) {
+        const { data } = await adminSupabase
+          .from('employees')
+          .select('id, employee_number, first_name, last_name, category, craft_type_id, base_rate')
+          .eq('is_active', true)
+        activeEmployees = (data || []) as ReconciliationEmployee[]
+      }
+
+      const unknownEmployees = Array.from(newEmployeesToCreate.values()).map(employee => {
+        const row = timesheet.rows.find(r => resolveEmployeeNumber(r.employeeNumber) === employee.employee_number)
+        return {
+          employee_number: employee.employee_number,
+          name: `${employee.last_name}, ${employee.first_name}`,
+          craft_code: row?.craftCode,
+          category: employee.category.toLowerCase() as LaborCategory,
+          candidates: findEmployeeMatches(row?.name || `${employee.first_name} ${employee.last_name}`, activeEmployees)
         }
+      })
+
+      const categorySummary = summarizeLaborRecords(weekRecords)
+      const preview: LaborImportPreview = {
+        mode: 'preview',
+        weekEnding: weekEndingISO,
+        conflictStrategy,
+        conflict: buildImportConflict(previousImport, overlap, `week ending ${weekEndingISO}`),
+        employeesToCreate: Array.from(newEmployeesToCreate.values()).map(employee => ({
+          employee_number: employee.employee_number,
+          first_name: employee.first_name,
+          last_name: employee.last_name,
+          category: employee.category
+        })),
+        zeroRateEmployees: result.errors
+          .filter(error => error.message.includes('base_rate=0'))
+          .map(error => {
+            const data = error.data as { employee_number: string; name?: string }
+            const employee = employeeMap.get(data.employee_number)
+            return {
+              employee_number: data.employee_number,
+              name: employee ? `${employee.last_name}, ${employee.first_name}` : data.name || ''
+            }
+          }),
+        categoryTotals: categorySummary,
+        totals: {
+          employees: weekRecords.length,
+          hours: categorySummary.reduce((sum, total) => sum + total.stHours + total.otHours, 0),
+          cost: categorySummary.reduce((sum, total) => sum + total.totalCost, 0)
+        },
+        changes: diffLaborRecords(incomingRecords, existingRecords, conflictStrategy),
+        weekOverWeek: compareWithPreviousWeek(weekRecords, previousWeek),
+        perDiem: estimatePerDiem(weekRecords, {
+          enabled: !!perDiemSettings?.per_diem_enabled,
+          directRate: Number(perDiemSettings?.per_diem_rate_direct || 0),
+          indirectRate: Number(perDiemSettings?.per_diem_rate_indirect || 0)
+        }),
+        reconciliation: {
+          unknownEmployees,
+          masterChanges: Array.from(masterChanges.values())
+        },
+        skipped: result.skipped,
+        errors: result.errors
       }
+
+      return NextResponse.json(preview)
+    }
+
+    // Every write below is applied in one transaction by apply_import_batch():
+    // a failure leaves the project exactly as it was
+    const batch = new ImportBatch()
+
+    const addToCategoryTotals = (record: {
+      employee_number: string
+      st_hours: number
+      ot_hours: number
+      dt_hours: number
+      st_wages: number
+      ot_wages: number
+    }) => {
+      const emp = employeeMap.get(record.employee_number)
+      if (!emp || emp.base_rate <= 0) return
+      const category = emp.category.toLowerCase()
+      if (categoryTotals[category]) {
+        categoryTotals[category].stHours += record.st_hours
+        categoryTotals[category].otHours += record.ot_hours
+        categoryTotals[category].dtHours += record.dt_hours
+        categoryTotals[category].stWages += record.st_wages
+        categoryTotals[category].otWages += record.ot_wages
+        categoryTotals[category].employeeIds.add(record.employee_number)
+      }
+    }
+
+    // New employees are created as placeholders with base_rate=0; entered rates are
+    // written to the rate history below, which sets base_rate
+    const createdEmployees = batch.insert(
+      'employees',
+      Array.from(newEmployeesToCreate.values(), employee => ({ ...employee, base_rate: 0 }))
+    )
+    createdEmployees.forEach(emp => {
+      employeeMap.set(emp.employee_number, {
+        ...emp,
+        base_rate: newEmployeesToCreate.get(emp.employee_number).base_rate
+      })
+    })
+
+    // Category/craft changes confirmed on the preview
+    batch.update('employees', Array.from(employeeUpdates, ([id, values]) => ({
+      id,
+      ...values,
+      updated_at: new Date().toISOString()
+    })))
+
+    // Rates entered on the preview apply from this week on
+    for (const [employeeId, baseRate] of enteredRates) {
+      const sameWeekRate = rateHistory.get(employeeId)?.find(rate => rate.effective_date === weekEndingISO)
+      if (sameWeekRate) {
+        batch.update('employee_rate_history', [{ id: sameWeekRate.id, base_rate: baseRate, source: 'labor_import' }])
+      } else {
+        batch.insert('employee_rate_history', [{
+          employee_id: employeeId,
+          base_rate: baseRate,
+          effective_date: weekEndingISO,
+          source: 'labor_import',
+          created_by: user.id
+        }])
+      }
+    }
+
+    // Replace: remove employees from the previous import of this week who aren't in this file
+    if (conflictStrategy === 'replace' && overlap.untouchedKeys.length > 0) {
+      const idsToRemove = overlap.untouchedKeys
+        .map(key => existingWeekEmployees.get(key)?.id)
+        .filter((id): id is string => !!id)
+      batch.delete('labor_employee_actuals', idsToRemove)
+      result.removed = idsToRemove.length
+      overlap.untouchedKeys.forEach(key => existingWeekEmployees.delete(key))
+    }
+
+    // Update this week's existing employee records, insert the rest
+    for (const record of laborRecordsToUpsert) {
+      if (!record.employee_id) continue
+      const { employee_number, ...values } = record
+      const existingRecord = existingWeekEmployees.get(employee_number)
+
+      if (existingRecord) {
+        batch.update('labor_employee_actuals', [{
+          id: existingRecord.id,
+          st_hours: record.st_hours,
+          ot_hours: record.ot_hours,
+          dt_hours: record.dt_hours,
+          st_wages: record.st_wages,
+          ot_wages: record.ot_wages,
+          dt_wages: record.dt_wages,
+          burden_rate: record.burden_rate,
+          daily_hours: record.daily_hours,
+          updated_at: new Date().toISOString()
+        }])
+        result.updated++
+      } else {
+        batch.insert('labor_employee_actuals', [values])
+        result.imported++
+      }
+
+      addToCategoryTotals(record)
     }
 
     // Add new employees created to result
@@ -776,8 +967,34 @@ export async function POST(request: NextRequest) {
       ;(result as any).zeroRateEmployees = zeroRateEmployees
     }
 
-    // Import aggregated labor actuals by category
+    // Weekly totals also include this week's records the file didn't change (merge/skip)
+    const writtenEmployees = new Set(
+      Object.values(categoryTotals).flatMap(totals => Array.from(totals.employeeIds))
+    )
+    for (const [employeeNumber, record] of existingWeekEmployees) {
+      if (writtenEmployees.has(employeeNumber)) continue
+      const category = (record.employees?.category || 'direct').toLowerCase()
+      if (!categoryTotals[category]) continue
+      categoryTotals[category].stHours += record.st_hours || 0
+      categoryTotals[category].otHours += record.ot_hours || 0
+      categoryTotals[category].dtHours += record.dt_hours || 0
+      categoryTotals[category].stWages += record.st_wages || 0
+      categoryTotals[category].otWages += record.ot_wages || 0
+      categoryTotals[category].employeeIds.add(employeeNumber)
+    }
+
+    // Aggregated labor actuals by category
     if (result.imported > 0 || result.updated > 0) {
+      const { data: existingActuals } = await adminSupabase
+        .from('labor_actuals')
+        .select('id, craft_type_id')
+        .eq('project_id', project.id)
+        .eq('week_ending', weekEndingISO)
+
+      const existingActualIds = new Map(
+        (existingActuals || []).map(actual => [actual.craft_type_id, actual.id])
+      )
+
       for (const [category, totals] of Object.entries(categoryTotals)) {
         if (totals.employeeIds.size === 0) continue
         
@@ -785,8 +1002,8 @@ export async function POST(request: NextRequest) {
         const totalHours = totals.stHours + totals.otHours
         const totalCost = totals.stWages + totals.otWages
         
-        // Calculate burden on straight time wages only (28% default)
-        const burdenRate = 0.28
+        // Calculate burden on straight time wages only using the configured rate
+        const burdenRate = burdenRates[normalizeBurdenCategory(category)]
         const burdenAmount = totals.stWages * burdenRate
         const totalCostWithBurden = totalCost + burdenAmount
         
@@ -795,68 +1012,45 @@ export async function POST(request: NextRequest) {
           console.error(`No default craft type found for category: ${category}`)
           continue
         }
-        
-        try {
-          // Check if entry already exists for this week and category
-          const { data: existing } = await adminSupabase
-            .from('labor_actuals')
-            .select('id')
-            .eq('project_id', project.id)
-            .eq('craft_type_id', craftTypeId)
-            .eq('week_ending', weekEndingISO)
-            .maybeSingle()
-
-          if (existing) {
-            // Update existing entry
-            const { error: updateError } = await adminSupabase
-              .from('labor_actuals')
-              .update({
-                actual_hours: totalHours,
-                actual_cost: totalCost,
-                burden_rate: burdenRate,
-                burden_amount: burdenAmount,
-                actual_cost_with_burden: totalCostWithBurden,
-                updated_at: new Date().toISOString()
-              })
-              .eq('id', existing.id)
-
-            if (updateError) throw updateError
-          } else {
-            // Create new entry
-            const { error: insertError } = await adminSupabase
-              .from('labor_actuals')
-              .insert({
-                project_id: project.id,
-                craft_type_id: craftTypeId,
-                week_ending: weekEndingISO,
-                actual_hours: totalHours,
-                actual_cost: totalCost,
-                burden_rate: burdenRate,
-                burden_amount: burdenAmount,
-                actual_cost_with_burden: totalCostWithBurden
-              })
 
-            if (insertError) throw insertError
-          }
+        const actualValues = {
+          actual_hours: totalHours,
+          actual_cost: totalCost,
+          burden_rate: burdenRate,
+          burden_amount: burdenAmount,
+          actual_cost_with_burden: totalCostWithBurden
+        }
 
-          console.log(`Imported ${category} labor: ${totals.employeeCount} employees, ${totalHours} hours, $${totalCost} (+ $${burdenAmount.toFixed(2)} burden = $${totalCostWithBurden.toFixed(2)} total)`)
-        } catch (error) {
-          console.error(`Error saving ${category} labor actuals:`, error)
-          
-          let errorMessage = `Failed to save ${category} labor data`
-          if (error instanceof Error && error.message) {
-            errorMessage = `Database error: ${error.message}`
-          }
-          
-          result.errors.push({
-            row: 0,
-            message: errorMessage
-          })
+        const existingActualId = existingActualIds.get(craftTypeId)
+        if (existingActualId) {
+          batch.update('labor_actuals', [{
+            id: existingActualId,
+            ...actualValues,
+            updated_at: new Date().toISOString()
+          }])
+        } else {
+          batch.insert('labor_actuals', [{
+            project_id: project.id,
+            craft_type_id: craftTypeId,
+            week_ending: weekEndingISO,
+            ...actualValues
+          }])
         }
+
+        console.log(`Prepared ${category} labor: ${totals.employeeCount} employees, ${totalHours} hours, $${totalCost} (+ $${burdenAmount.toFixed(2)} burden = $${totalCostWithBurden.toFixed(2)} total)`)
       }
       
       // Set total employee count in result
       result.employeeCount = totalEmployeeCount - zeroRateEmployees
+
+      // Report the ST/OT/DT split produced by the pay rules
+      const totalsList = Object.values(categoryTotals)
+      const dtHours = totalsList.reduce((sum, t) => sum + t.dtHours, 0)
+      result.hoursSplit = {
+        stHours: totalsList.reduce((sum, t) => sum + t.stHours, 0),
+        otHours: totalsList.reduce((sum, t) => sum + t.otHours, 0) - dtHours,
+        dtHours
+      }
     } else if (totalEmployeeCount === 0) {
       result.errors.push({
         row: 0,
@@ -864,7 +1058,123 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    // Log import activity
+    // Too many bad rows: write nothing
+    const totalProcessed = result.imported + result.updated + result.skipped
+    const errorRate = totalProcessed > 0 ? result.errors.length / totalProcessed : 1
+    
+    if (errorRate > 0.1 && result.errors.length > 5) {
+      // More than 10% errors and at least 5 errors
+      const message = `Too many errors encountered (${result.errors.length} errors out of ${totalProcessed} rows). Please review the file and try again.`
+      await trackFailedImport(adminSupabase, 'labor', project.id, user.id, file.name, message, {
+        week_ending: weekEndingISO,
+        file_hash: fileHash,
+        error_type: 'error_rate',
+        errors: result.errors.slice(0, 10)
+      })
+      return NextResponse.json(
+        {
+          error: 'Import failed due to high error rate',
+          message,
+          errors: result.errors.slice(0, 10) // Return first 10 errors
+        },
+        { status: 400 }
+      )
+    }
+
+    // Set success based on whether we processed data without critical errors
+    result.success = (result.imported > 0 || result.updated > 0) && result.errors.length === 0
+
+    // Apply the writes together with the data_imports record (which also
+    // updates project.last_labor_import_at)
+    if (batch.rowCount > 0) {
+      const importMetadata: any = {
+        week_ending: weekEndingISO,
+        imported: result.imported,
+        updated: result.updated,
+        skipped: result.skipped,
+        employee_count: result.employeeCount || 0,
+        job_number: project.job_number,
+        contractor_number: contractorNumber,
+        file_hash: fileHash,
+        content_fingerprint: contentFingerprint,
+        conflict_strategy: conflictStrategy,
+        timesheet_format: adapter.id,
+        employeeCategoryCounts: {
+          direct: categoryTotals.direct.employeeCount,
+          indirect: categoryTotals.indirect.employeeCount,
+          staff: categoryTotals.staff.employeeCount
+        }
+      }
+      
+      // Add new employees to metadata for easy identification
+      if (newEmployeesCreated > 0) {
+        importMetadata.newEmployees = createdEmployees.map(e => ({
+          employee_number: e.employee_number,
+          name: `${e.last_name}, ${e.first_name}`,
+          category: e.category
+        }))
+      }
+      
+      // Employee master changes made from the confirmation step
+      if (employeeNumberAliases.size > 0 || employeeUpdates.size > 0 || ratesEntered > 0) {
+        importMetadata.reconciliation = {
+          matched: employeeNumberAliases.size,
+          ratesEntered,
+          masterUpdates: employeeUpdates.size
+        }
+      }
+
+      // Add craft code warnings
+      if (craftCodeWarnings.length > 0) {
+        importMetadata.craftCodeWarnings = craftCodeWarnings.slice(0, 20) // Limit to 20
+      }
+
+      try {
+        const { importIds } = await applyImportBatch(adminSupabase, [{
+          project_id: project.id,
+          import_type: 'labor',
+          import_status: result.success ? 'success' : 'partial',
+          imported_by: user.id,
+          file_name: file.name,
+          file_hash: fileHash,
+          content_fingerprint: contentFingerprint,
+          records_processed: result.imported + result.updated,
+          records_failed: result.errors.length,
+          metadata: importMetadata
+        }], batch)
+
+        ;(result as any).import_id = importIds[0]
+      } catch (applyError) {
+        const message = applyError instanceof Error ? applyError.message : 'Import rolled back'
+        console.error('Labor import rolled back:', applyError)
+        await trackFailedImport(adminSupabase, 'labor', project.id, user.id, file.name, message, {
+          week_ending: weekEndingISO,
+          file_hash: fileHash,
+          error_type: 'transaction'
+        })
+        return NextResponse.json(
+          { error: 'Import failed and was rolled back. No data was changed.', message },
+          { status: 500 }
+        )
+      }
+    }
+
+    // Log created employees and the import
+    for (const emp of createdEmployees) {
+      const { error: auditError } = await adminSupabase.from('audit_log').insert({
+        user_id: user.id,
+        action: 'create',
+        entity_type: 'employee',
+        entity_id: emp.id,
+        changes: {
+          source: 'labor_import',
+          employee_number: emp.employee_number,
+          created_during_import: true
+        }
+      })
+      if (auditError) console.error('Audit log error:', auditError)
+    }
+
     try {
       await adminSupabase.from('audit_log').insert({
         user_id: user.id,
@@ -888,25 +1198,6 @@ export async function POST(request: NextRequest) {
       console.error('Failed to log audit entry:', auditError)
     }
 
-    // Check if we should rollback due to high error rate
-    const totalProcessed = result.imported + result.updated + result.skipped
-    const errorRate = totalProcessed > 0 ? result.errors.length / totalProcessed : 1
-    
-    if (errorRate > 0.1 && result.errors.length > 5) {
-      // More than 10% errors and at least 5 errors
-      return NextResponse.json(
-        {
-          error: 'Import failed due to high error rate',
-          message: `Too many errors encountered (${result.errors.length} errors out of ${totalProcessed} rows). Please review the file and try again.`,
-          errors: result.errors.slice(0, 10) // Return first 10 errors
-        },
-        { status: 400 }
-      )
-    }
-
-    // Set success based on whether we processed data without critical errors
-    result.success = (result.imported > 0 || result.updated > 0) && result.errors.length === 0
-
     // Check if per diem is enabled for this project
     let perDiemInfo = null
     if (result.imported > 0 || result.updated > 0) {
@@ -935,64 +1226,6 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Create data_imports record to trigger project.last_labor_import_at update
-    if (result.success || (result.errors.length > 0 && (result.imported > 0 || result.updated > 0))) {
-      try {
-        const importMetadata: any = {
-          week_ending: weekEndingISO,
-          imported: result.imported,
-          updated: result.updated,
-          skipped: result.skipped,
-          employee_count: result.employeeCount || 0,
-          job_number: project.job_number,
-          contractor_number: contractorNumber,
-          file_hash: fileHash,
-          employeeCategoryCounts: {
-            direct: categoryTotals.direct.employeeCount,
-            indirect: categoryTotals.indirect.employeeCount,
-            staff: categoryTotals.staff.employeeCount
-          }
-        }
-        
-        // Add new employees to metadata for easy identification
-        if (newEmployeesCreated > 0) {
-          importMetadata.newEmployees = newEmployeesToCreate.map(e => ({
-            employee_number: e.employee_number,
-            name: `${e.last_name}, ${e.first_name}`,
-            category: e.category
-          }))
-        }
-        
-        // Add craft code warnings
-        if (craftCodeWarnings.length > 0) {
-          importMetadata.craftCodeWarnings = craftCodeWarnings.slice(0, 20) // Limit to 20
-        }
-        
-        const { data: importRecord, error: importError } = await adminSupabase
-          .from('data_imports')
-          .insert({
-            project_id: project.id,
-            import_type: 'labor',
-            import_status: result.success ? 'success' : 'partial',
-            imported_by: user.id,
-            file_name: file.name,
-            records_processed: result.imported + result.updated,
-            records_failed: result.errors.length,
-            metadata: importMetadata
-          })
-          .select('id')
-          .single()
-
-        if (importError) {
-          console.error('Failed to create data_imports record:', importError)
-        } else if (importRecord) {
-          ;(result as any).import_id = importRecord.id
-        }
-      } catch (importTrackingError) {
-        console.error('Error creating data_imports record:', importTrackingError)
-      }
-    }
-
     // Add per diem info to result if available
     if (perDiemInfo) {
       ;(result as any).perDiem = perDiemInfo
@@ -1007,9 +1240,10 @@ export async function POST(request: NextRequest) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
     const errorDetails = error instanceof z.ZodError ? error.errors : undefined
     
-    if (adminSupabase) {
+    if (adminSupabase && !isPreview) {
       await trackFailedImport(
         adminSupabase,
+        'labor',
         projectId,
         user?.id,
         file?.name,
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { createAdminClient } from '@/lib/supabase/admin'
 import { z } from 'zod'
+import { importChangeDates, undoTrackedImport, type UndoableImport } from '@/lib/services/import-changes'
+import { assertPeriodsOpen, ClosedPeriodError } from '@/lib/services/accounting-periods'
 
 export const dynamic = 'force-dynamic'
 
@@ -98,6 +100,52 @@ export async function DELETE(
       }
     }
 
+    // Undoing rewrites the imported weeks, so none of them may sit in a closed period
+    try {
+      await assertPeriodsOpen(
+        adminSupabase,
+        importRecord.row_changes
+          ? await importChangeDates(adminSupabase, importRecord as UndoableImport)
+          : [{ projectId: importRecord.project_id, date: importRecord.metadata?.week_ending || null }]
+      )
+    } catch (error) {
+      if (error instanceof ClosedPeriodError) {
+        return NextResponse.json(
+          { error: `This import changed a closed period and cannot be undone. ${error.message}`, closed_periods: error.periods },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
+    // Imports recorded with a change log are restored to their exact prior state
+    if (importRecord.row_changes) {
+      const { dependencies, result } = await undoTrackedImport(
+        adminSupabase,
+        importRecord as UndoableImport,
+        user.id
+      )
+
+      if (!result) {
+        return NextResponse.json(
+          { error: 'Import cannot be undone because later data depends on it', dependencies },
+          { status: 409 }
+        )
+      }
+
+      return NextResponse.json(
+        {
+          success: result.errors.length === 0,
+          message: result.errors.length === 0 ? 'Import successfully undone' : 'Import partially undone with errors',
+          deleted: result.deleted,
+          restored: result.restored,
+          errors: result.errors.length > 0 ? result.errors : undefined
+        },
+        { status: result.errors.length === 0 ? 200 : 207 }
+      )
+    }
+
+    // Older imports: remove the whole week
     // Extract metadata for deletion
     const metadata = importRecord.metadata as any
     const weekEnding = metadata?.week_ending
@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import {
+  calculatedMonthlyForecast,
+  fetchMonthlyForecastSheet,
+  fetchRevenueRecognition,
+  MONTHLY_FORECAST_FIELDS,
+  type MonthlyForecast
+} from '@/lib/services/revenue-recognition'
+import { monthlyForecastSheetSchema, reportingMonthSchema } from '@/lib/validations/revenue-recognition'
+
+export const dynamic = 'force-dynamic'
+
+const currentMonth = () => new Date().toISOString().slice(0, 7)
+
+// GET /api/monthly-forecasts?month=YYYY-MM - Calculated and saved forecasts for active projects
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const reportingMonth = reportingMonthSchema.parse(
+      request.nextUrl.searchParams.get('month') ?? currentMonth()
+    )
+    const forecasts = await fetchMonthlyForecastSheet(supabase, reportingMonth)
+
+    return NextResponse.json({ reporting_month: reportingMonth, forecasts })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error loading monthly forecasts:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/monthly-forecasts - Save the sheet; figures adjusted from the calculation need a reason
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    const allowedRoles = ['controller', 'ops_manager', 'project_manager']
+    if (!userProfile || !allowedRoles.includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to save monthly forecasts' },
+        { status: 403 }
+      )
+    }
+
+    const { reporting_month: reportingMonth, forecasts } = monthlyForecastSheetSchema.parse(await request.json())
+
+    // Recalculate every row first so nothing is saved if any adjustment lacks a reason
+    const rows = []
+    for (const entry of forecasts) {
+      const recognition = await fetchRevenueRecognition(supabase, entry.project_id, reportingMonth)
+      const calculated = calculatedMonthlyForecast(recognition)
+      const adjustedFields = MONTHLY_FORECAST_FIELDS.filter(
+        field => Math.abs(entry[field] - calculated[field]) >= 0.01
+      )
+      rows.push({ entry, recognition, calculated, adjustedFields })
+    }
+
+    const missingReasons = rows.filter(row => row.adjustedFields.length > 0 && !row.entry.adjustment_reason)
+    if (missingReasons.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'A reason is required for figures adjusted from the calculation',
+          details: missingReasons.map(row => ({
+            project_id: row.entry.project_id,
+            fields: row.adjustedFields
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    const { data: previousRows } = await supabase
+      .from('monthly_forecasts')
+      .select('*')
+      .eq('reporting_month', reportingMonth)
+      .in('project_id', rows.map(row => row.entry.project_id))
+    const previousByProject = new Map(
+      ((previousRows || []) as MonthlyForecast[]).map(row => [row.project_id, row])
+    )
+
+    const saved: MonthlyForecast[] = []
+    for (const { entry, recognition, calculated, adjustedFields } of rows) {
+      const previous = previousByProject.get(entry.project_id) || null
+      // An adjusted percent complete carries through to earned revenue and billing position
+      const earnedRevenue = adjustedFields.includes('percent_complete')
+        ? Math.round(recognition.revisedContract * entry.percent_complete) / 100
+        : recognition.earnedRevenueToDate
+
+      const { data: forecast, error } = await supabase
+        .from('monthly_forecasts')
+        .upsert({
+          project_id: entry.project_id,
+          reporting_month: reportingMonth,
+          percent_complete: entry.percent_complete,
+          current_month_revenue: entry.current_month_revenue,
+          next_month_revenue: entry.next_month_revenue,
+          plus_two_month_revenue: entry.plus_two_month_revenue,
+          remaining_backlog: entry.remaining_backlog,
+          earned_revenue_to_date: earnedRevenue,
+          billed_to_date: recognition.billedToDate,
+          over_under_billing: Math.round((recognition.billedToDate - earnedRevenue) * 100) / 100,
+          calculated_percent_complete: calculated.percent_complete,
+          calculated_current_month_revenue: calculated.current_month_revenue,
+          calculated_next_month_revenue: calculated.next_month_revenue,
+          calculated_plus_two_month_revenue: calculated.plus_two_month_revenue,
+          cost_to_date: recognition.costToDate,
+          estimate_at_completion: recognition.estimateAtCompletion,
+          revised_contract: recognition.revisedContract,
+          adjustment_reason: adjustedFields.length > 0 ? entry.adjustment_reason : null,
+          notes: entry.notes || null,
+          updated_by: user.id
+        }, { onConflict: 'project_id,reporting_month' })
+        .select()
+        .single()
+
+      if (error) throw error
+
+      // Log adjustments when they are made, not every time an adjusted sheet is resaved
+      const newAdjustments = adjustedFields.filter(
+        field => !previous || Number(previous[field]) !== entry[field] ||
+          previous.adjustment_reason !== entry.adjustment_reason
+      )
+      if (newAdjustments.length > 0) {
+        const { error: adjustmentError } = await supabase
+          .from('monthly_forecast_adjustments')
+          .insert(newAdjustments.map(field => ({
+            monthly_forecast_id: forecast.id,
+            field,
+            calculated_value: calculated[field],
+            adjusted_value: entry[field],
+            reason: entry.adjustment_reason,
+            adjusted_by: user.id
+          })))
+
+        if (adjustmentError) throw adjustmentError
+      }
+
+      await supabase.from('audit_log').insert({
+        user_id: user.id,
+        action: previous ? 'update' : 'create',
+        entity_type: 'monthly_forecast',
+        entity_id: forecast.id,
+        changes: {
+          old_values: previous,
+          new_values: forecast,
+          adjusted_fields: adjustedFields
+        }
+      })
+
+      saved.push(forecast as MonthlyForecast)
+    }
+
+    return NextResponse.json({ forecasts: saved })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Project not found') {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    console.error('Error saving monthly forecasts:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
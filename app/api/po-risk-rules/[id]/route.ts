@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { applyPurchaseOrderRisk } from '@/lib/services/po-risk-rules'
+import { poRiskRuleUpdateSchema } from '@/lib/validations/po-risk-rules'
+
+export const dynamic = 'force-dynamic'
+
+// PATCH /api/po-risk-rules/[id] - Change or disable a rule and re-evaluate PO risk
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (!userProfile || !['controller', 'ops_manager'].includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to manage PO risk rules' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const ruleId = z.string().uuid().parse(id)
+    const validated = poRiskRuleUpdateSchema.parse(await request.json())
+
+    const { data: existing } = await supabase
+      .from('po_risk_rules')
+      .select('*')
+      .eq('id', ruleId)
+      .maybeSingle()
+
+    if (!existing) {
+      return NextResponse.json({ error: 'PO risk rule not found' }, { status: 404 })
+    }
+
+    const { data: rule, error } = await supabase
+      .from('po_risk_rules')
+      .update(validated)
+      .eq('id', ruleId)
+      .select()
+      .single()
+
+    if (error) throw error
+
+    const evaluated = await applyPurchaseOrderRisk(supabase)
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'update',
+      entity_type: 'po_risk_rule',
+      entity_id: ruleId,
+      changes: { old_values: existing, new_values: rule, reevaluated_purchase_orders: evaluated.updated }
+    })
+
+    return NextResponse.json({ rule, updated: evaluated.updated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating PO risk rule:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/po-risk-rules/[id] - Remove a rule and re-evaluate PO risk
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (!userProfile || !['controller', 'ops_manager'].includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to manage PO risk rules' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const ruleId = z.string().uuid().parse(id)
+
+    const { data: existing } = await supabase
+      .from('po_risk_rules')
+      .select('*')
+      .eq('id', ruleId)
+      .maybeSingle()
+
+    if (!existing) {
+      return NextResponse.json({ error: 'PO risk rule not found' }, { status: 404 })
+    }
+
+    const { error } = await supabase
+      .from('po_risk_rules')
+      .delete()
+      .eq('id', ruleId)
+
+    if (error) throw error
+
+    const evaluated = await applyPurchaseOrderRisk(supabase)
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'delete',
+      entity_type: 'po_risk_rule',
+      entity_id: ruleId,
+      changes: { old_values: existing, reevaluated_purchase_orders: evaluated.updated }
+    })
+
+    return NextResponse.json({ success: true, updated: evaluated.updated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error deleting PO risk rule:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
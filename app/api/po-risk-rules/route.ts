@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { applyPurchaseOrderRisk, fetchPORiskRules } from '@/lib/services/po-risk-rules'
+import { poRiskRuleSchema } from '@/lib/validations/po-risk-rules'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/po-risk-rules - Rules that set PO risk status
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const rules = await fetchPORiskRules(supabase)
+
+    return NextResponse.json({ rules })
+  } catch (error) {
+    console.error('Error fetching PO risk rules:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/po-risk-rules - Add a rule and re-evaluate PO risk
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (!userProfile || !['controller', 'ops_manager'].includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to manage PO risk rules' },
+        { status: 403 }
+      )
+    }
+
+    const validated = poRiskRuleSchema.parse(await request.json())
+
+    const { data: rule, error } = await supabase
+      .from('po_risk_rules')
+      .insert({ ...validated, created_by: user.id })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    const evaluated = await applyPurchaseOrderRisk(supabase)
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'create',
+      entity_type: 'po_risk_rule',
+      entity_id: rule.id,
+      changes: { new_values: rule, reevaluated_purchase_orders: evaluated.updated }
+    })
+
+    return NextResponse.json({ rule, updated: evaluated.updated }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error adding PO risk rule:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import * as XLSX from 'xlsx'
 import { ExcelBudgetAnalyzer } from '@/lib/services/excel-budget-analyzer'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { BACKGROUND_IMPORT_THRESHOLD_BYTES, enqueueImportJob } from '@/lib/services/import-jobs'
+import { runBudgetCoversheetImport } from '@/lib/services/import-job-worker'
 
 export async function POST(request: NextRequest) {
   try {
@@ -63,9 +66,35 @@ export async function POST(request: NextRequest) {
       project = existingProject
     }
 
+    const content = Buffer.from(await file.arrayBuffer())
+
+    // Import mode - save to database; large workbooks are saved by the import worker
+    if (mode !== 'preview') {
+      if (formData.get('background') === 'true' || file.size > BACKGROUND_IMPORT_THRESHOLD_BYTES) {
+        const job = await enqueueImportJob(createAdminClient(), {
+          jobType: 'budget_coversheet',
+          projectId,
+          userId: user.id,
+          fileName: file.name,
+          content
+        })
+
+        return NextResponse.json(
+          { success: true, mode: 'import', job_id: job.id, status: job.status },
+          { status: 202 }
+        )
+      }
+
+      const outcome = await runBudgetCoversheetImport(
+        supabase,
+        { project_id: projectId, created_by: user.id },
+        content
+      )
+      return NextResponse.json(outcome.body, { status: outcome.status })
+    }
+
     // Read Excel file
-    const arrayBuffer = await file.arrayBuffer()
-    const workbook = XLSX.read(arrayBuffer, { type: 'array' })
+    const workbook = XLSX.read(content, { type: 'buffer' })
     
     // Create analyzer - it will now extract disciplines from BUDGETS sheet
     const analyzer = new ExcelBudgetAnalyzer()
@@ -73,48 +102,24 @@ export async function POST(request: NextRequest) {
     // Extract budget data
     const budgetData = await analyzer.extractBudgetData(workbook)
     
-    // If preview mode, return the extracted data without saving
-    if (mode === 'preview') {
-      return NextResponse.json({
-        success: true,
-        mode: 'preview',
-        project: {
-          id: project.id,
-          name: project.name,
-          job_number: project.job_number
-        },
-        data: budgetData,
-        stats: {
-          sheetsProcessed: Object.keys(budgetData.details).length,
-          totalItems: Object.values(budgetData.details).reduce((sum, items) => sum + items.length, 0),
-          wbsCodesFound: budgetData.wbsStructure.length,
-          totalBudget: budgetData.totals.grand_total,
-          byCategory: budgetData.totals,
-          disciplinesIncluded: budgetData.disciplineBudgets?.map(d => d.discipline) || []
-        }
-      })
-    }
-    
-    // Import mode - save to database
-    const saveResult = await analyzer.saveBudgetData(projectId, budgetData, user.id)
-    
-    if (!saveResult.success) {
-      return NextResponse.json({ 
-        error: 'Failed to save budget data',
-        details: saveResult.error 
-      }, { status: 500 })
-    }
-    
+    // Preview mode: return the extracted data without saving
     return NextResponse.json({
       success: true,
-      mode: 'import',
+      mode: 'preview',
       project: {
         id: project.id,
         name: project.name,
         job_number: project.job_number
       },
-      stats: saveResult.stats,
-      validation: budgetData.validation
+      data: budgetData,
+      stats: {
+        sheetsProcessed: Object.keys(budgetData.details).length,
+        totalItems: Object.values(budgetData.details).reduce((sum, items) => sum + items.length, 0),
+        wbsCodesFound: budgetData.wbsStructure.length,
+        totalBudget: budgetData.totals.grand_total,
+        byCategory: budgetData.totals,
+        disciplinesIncluded: budgetData.disciplineBudgets?.map(d => d.discipline) || []
+      }
     })
     
   } catch (error) {
@@ -3,6 +3,16 @@ import { createClient } from '@/lib/supabase/server'
 import { createAdminClient } from '@/lib/supabase/admin'
 // import { z } from 'zod' // Removed as not currently used
 import * as XLSX from 'xlsx'
+import {
+  analyzeImportOverlap,
+  buildImportConflict,
+  createContentFingerprint,
+  findDuplicateImport,
+  hashFileContent,
+  parseConflictStrategy,
+  type ImportConflictStrategy
+} from '@/lib/services/import-fingerprint'
+import { ImportChangeTracker } from '@/lib/services/import-changes'
 
 // Validation schema for budget breakdown row (defined for future use)
 // const budgetRowSchema = z.object({
@@ -54,6 +64,8 @@ interface ImportResult {
   breakdown_rows_created: number
   budget_created: boolean
   budget_updated: boolean
+  conflict_strategy?: ImportConflictStrategy
+  duplicate_of?: string
   errors: Array<{
     row: number
     message: string
@@ -74,6 +86,36 @@ function parseNumericValue(value: unknown): number {
   return 0
 }
 
+interface BreakdownRow {
+  discipline: string
+  cost_type: string
+  manhours: number | null
+  value: number
+}
+
+// Helper to total breakdown rows by budget category
+function calculateBudgetTotals(rows: BreakdownRow[]) {
+  const totals: BudgetCategory = {
+    labor: 0,
+    materials: 0,
+    equipment: 0,
+    subcontracts: 0,
+    small_tools_consumables: 0,
+    other: 0
+  }
+  const otherDescriptions: string[] = []
+
+  for (const row of rows) {
+    const category = costTypeMapping[row.cost_type] || 'other'
+    totals[category] += row.value
+    if (category === 'other' && !otherDescriptions.includes(row.cost_type)) {
+      otherDescriptions.push(row.cost_type)
+    }
+  }
+
+  return { totals, otherDescriptions }
+}
+
 // Helper function to check if a row is a total row that should be skipped
 function isTotalRow(description: string): boolean {
   const upperDesc = description.toUpperCase()
@@ -100,6 +142,7 @@ export async function POST(request: NextRequest) {
     const formData = await request.formData()
     const file = formData.get('file') as File
     const projectId = formData.get('project_id') as string
+    const conflictStrategy = parseConflictStrategy(formData.get('conflict_strategy'))
 
     if (!file) {
       return NextResponse.json(
@@ -132,6 +175,7 @@ export async function POST(request: NextRequest) {
     // Read file content
     const arrayBuffer = await file.arrayBuffer()
     const buffer = Buffer.from(arrayBuffer)
+    const fileHash = hashFileContent(buffer)
 
     // Parse Excel file
     let worksheet: XLSX.WorkSheet
@@ -177,16 +221,12 @@ export async function POST(request: NextRequest) {
       breakdown_rows_created: 0,
       budget_created: false,
       budget_updated: false,
+      conflict_strategy: conflictStrategy || undefined,
       errors: []
     }
 
     // Process rows and extract budget data - use Map to aggregate duplicates
-    const breakdownMap = new Map<string, {
-      discipline: string
-      cost_type: string
-      manhours: number | null
-      value: number
-    }>()
+    const breakdownMap = new Map<string, BreakdownRow>()
 
     const budgetTotals: BudgetCategory = {
       labor: 0,
@@ -315,18 +355,87 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Detect re-imports and budget lines that were already imported
+    const breakdownKey = (row: BreakdownRow) => `${row.discipline}_${row.cost_type}`
+    const contentFingerprint = createContentFingerprint(
+      breakdownRows.map(row => ({ ...row }))
+    )
+    const previousImport = await findDuplicateImport(adminSupabase, {
+      projectId,
+      importType: 'budget',
+      fileHash,
+      contentFingerprint
+    })
+
+    // Full rows so updated lines keep a before-image for undo
+    const { data: existingBreakdowns } = await adminSupabase
+      .from('project_budget_breakdowns')
+      .select('*')
+      .eq('project_id', projectId)
+
+    const existingBreakdownMap = new Map<string, BreakdownRow>(
+      (existingBreakdowns || []).map(row => [breakdownKey(row), row])
+    )
+    const overlap = analyzeImportOverlap(
+      breakdownRows.map(breakdownKey),
+      existingBreakdownMap.keys()
+    )
+
+    if (!conflictStrategy) {
+      const conflict = buildImportConflict(previousImport, overlap, 'this project')
+      if (conflict) {
+        return NextResponse.json(
+          { error: conflict.message, conflict },
+          { status: 409 }
+        )
+      }
+    }
+
+    if (previousImport && conflictStrategy === 'skip') {
+      return NextResponse.json({
+        data: { ...result, duplicate_of: previousImport.id }
+      })
+    }
+
+    // Without a conflict the file replaces the project's budget, as before
+    const strategy = conflictStrategy || 'replace'
+
+    if (strategy !== 'replace') {
+      // Merge: file lines win; skip: existing lines win. Lines missing from the file are kept.
+      const mergedRows = new Map(existingBreakdownMap)
+      for (const row of breakdownRows) {
+        const key = breakdownKey(row)
+        if (strategy === 'merge' || !mergedRows.has(key)) {
+          mergedRows.set(key, row)
+        }
+      }
+      if (strategy === 'skip') {
+        breakdownRows = breakdownRows.filter(row => !existingBreakdownMap.has(breakdownKey(row)))
+      }
+
+      const merged = calculateBudgetTotals(Array.from(mergedRows.values()))
+      Object.assign(budgetTotals, merged.totals)
+      otherDescriptions.splice(0, otherDescriptions.length, ...merged.otherDescriptions)
+    }
+
     // Calculate total budget
     result.total_budget = Object.values(budgetTotals).reduce((sum, val) => sum + val, 0)
 
     // Generate import batch ID
     const importBatchId = crypto.randomUUID()
 
+    // Rows written below, with before-images, so the import can be undone
+    const changeTracker = new ImportChangeTracker()
+    const existingBreakdownRows = new Map(
+      (existingBreakdowns || []).map(row => [breakdownKey(row), row])
+    )
+
     // Start transaction
     try {
       // Check if budget already exists
       const { data: existingBudget } = await adminSupabase
         .from('project_budgets')
-        .select('id')
+        .select('*')
         .eq('project_id', projectId)
         .single()
 
@@ -355,20 +464,30 @@ export async function POST(request: NextRequest) {
           .eq('id', existingBudget.id)
 
         if (updateError) throw updateError
+        changeTracker.recordUpdates('project_budgets', [existingBudget])
         result.budget_updated = true
         
         // Delete existing breakdown rows for this project
-        await adminSupabase
-          .from('project_budget_breakdowns')
-          .delete()
-          .eq('project_id', projectId)
+        if (strategy === 'replace') {
+          const { data: deletedBreakdowns } = await adminSupabase
+            .from('project_budget_breakdowns')
+            .delete()
+            .eq('project_id', projectId)
+            .select('*')
+
+          changeTracker.recordDeletes('project_budget_breakdowns', deletedBreakdowns)
+          existingBreakdownRows.clear()
+        }
       } else {
         // Create new budget
-        const { error: insertError } = await adminSupabase
+        const { data: createdBudget, error: insertError } = await adminSupabase
           .from('project_budgets')
           .insert(budgetData)
+          .select('id')
+          .single()
 
         if (insertError) throw insertError
+        changeTracker.recordInserts('project_budgets', [createdBudget])
         result.budget_created = true
       }
 
@@ -384,14 +503,24 @@ export async function POST(request: NextRequest) {
         created_by: user.id
       }))
 
-      const { error: breakdownError } = await adminSupabase
+      const { data: upsertedBreakdowns, error: breakdownError } = await adminSupabase
         .from('project_budget_breakdowns')
         .upsert(breakdownInserts, {
           onConflict: 'project_id,discipline,cost_type',
           ignoreDuplicates: false
         })
+        .select('id, discipline, cost_type')
 
       if (breakdownError) throw breakdownError
+
+      upsertedBreakdowns?.forEach(row => {
+        const before = existingBreakdownRows.get(breakdownKey(row))
+        if (before) {
+          changeTracker.recordUpdates('project_budget_breakdowns', [before])
+        } else {
+          changeTracker.recordInserts('project_budget_breakdowns', [row])
+        }
+      })
       
       result.breakdown_rows_created = breakdownRows.length
 
@@ -410,6 +539,31 @@ export async function POST(request: NextRequest) {
         performed_by: user.id
       })
 
+      // Track the import so re-imports of the same file or content are detected
+      const { error: trackingError } = await adminSupabase
+        .from('data_imports')
+        .insert({
+          project_id: projectId,
+          import_type: 'budget',
+          import_status: 'success',
+          imported_by: user.id,
+          file_name: file.name,
+          file_hash: fileHash,
+          content_fingerprint: contentFingerprint,
+          records_processed: result.breakdown_rows_created,
+          records_failed: result.errors.length,
+          metadata: {
+            import_batch_id: importBatchId,
+            total_budget: result.total_budget,
+            conflict_strategy: strategy
+          },
+          row_changes: changeTracker.rowChanges
+        })
+
+      if (trackingError) {
+        console.error('Failed to create data_imports record:', trackingError)
+      }
+
     } catch (error) {
       console.error('Budget import transaction error:', error)
       result.success = false
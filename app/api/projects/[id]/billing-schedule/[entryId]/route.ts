@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+// DELETE /api/projects/[id]/billing-schedule/[entryId] - Remove a planned client billing
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; entryId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    const allowedRoles = ['controller', 'ops_manager', 'project_manager']
+    if (!userProfile || !allowedRoles.includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to change the billing schedule' },
+        { status: 403 }
+      )
+    }
+
+    const { id, entryId } = await params
+    const projectId = z.string().uuid().parse(id)
+
+    const { data: existing } = await supabase
+      .from('project_billing_schedule')
+      .select('*')
+      .eq('id', z.string().uuid().parse(entryId))
+      .eq('project_id', projectId)
+      .maybeSingle()
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Billing schedule entry not found' }, { status: 404 })
+    }
+
+    const { error } = await supabase
+      .from('project_billing_schedule')
+      .delete()
+      .eq('id', existing.id)
+
+    if (error) throw error
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'delete',
+      entity_type: 'project_billing_schedule',
+      entity_id: existing.id,
+      changes: existing
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error deleting billing schedule entry:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { billingScheduleEntrySchema } from '@/lib/validations/cash-flow'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/projects/[id]/billing-schedule - Add a planned client billing
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    const allowedRoles = ['controller', 'ops_manager', 'project_manager']
+    if (!userProfile || !allowedRoles.includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to change the billing schedule' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const projectId = z.string().uuid().parse(id)
+    const validated = billingScheduleEntrySchema.parse(await request.json())
+
+    if (validated.change_order_id) {
+      const { data: changeOrder } = await supabase
+        .from('change_orders')
+        .select('id')
+        .eq('id', validated.change_order_id)
+        .eq('project_id', projectId)
+        .maybeSingle()
+
+      if (!changeOrder) {
+        return NextResponse.json({ error: 'Change order not found' }, { status: 404 })
+      }
+    }
+
+    const { data: entry, error } = await supabase
+      .from('project_billing_schedule')
+      .insert({
+        project_id: projectId,
+        billing_date: validated.billing_date,
+        amount: validated.amount,
+        description: validated.description || null,
+        change_order_id: validated.change_order_id ?? null,
+        created_by: user.id
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'create',
+      entity_type: 'project_billing_schedule',
+      entity_id: entry.id,
+      changes: validated
+    })
+
+    return NextResponse.json({ entry }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error adding billing schedule entry:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
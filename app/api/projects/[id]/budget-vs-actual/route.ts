@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { ForecastCalculationService } from '@/lib/services/forecast-calculations'
+import { ForecastCalculationService, type LaborRateWarning } from '@/lib/services/forecast-calculations'
+import { fetchRateEscalations } from '@/lib/services/rate-escalations'
+import { calculateBurdenedCost } from '@/lib/services/burden-rates'
+import { normalizeBudgetCategory } from '@/lib/services/cost-code-mappings'
 
 interface CategoryResult {
   category: string
@@ -72,42 +75,38 @@ export async function GET(
       {
         category: 'LABOR',
         budget: projectBudget?.total_labor_budget || 0,
-        costCodeCategories: ['labor'],
-        costCenterCodes: [], // Labor doesn't use cost centers
         hasSubcategories: true
       },
       {
         category: 'SMALL TOOLS & CONSUMABLES',
         budget: projectBudget?.small_tools_budget || 0,
-        costCodeCategories: ['small_tools', 'consumables'],
-        costCenterCodes: ['5000'] // Small tools cost center
+        poCategory: true
       },
       {
         category: 'MATERIALS',
         budget: projectBudget?.materials_budget || 0,
-        costCodeCategories: ['material', 'materials'],
-        costCenterCodes: ['3000'] // Materials cost center
+        poCategory: true
       },
       {
         category: 'EQUIPMENT',
         budget: projectBudget?.equipment_budget || 0,
-        costCodeCategories: ['equipment'],
-        costCenterCodes: ['2000'] // Equipment cost center
+        poCategory: true
       },
       {
         category: 'SUBCONTRACTS',
         budget: projectBudget?.subcontracts_budget || 0,
-        costCodeCategories: ['subcontract'],
-        costCenterCodes: ['4000'] // Subcontracts cost center
+        poCategory: true
       },
       {
         category: 'RISK',
         budget: 0,
-        costCodeCategories: [],
-        costCenterCodes: []
+        poCategory: false
       }
     ]
 
+    // Forecast labor that could not be costed for lack of a rate
+    let laborRateWarnings: LaborRateWarning[] = []
+
     // Get cost codes for each category
     const categoryResults = await Promise.all(
       budgetCategories.map(async (cat) => {
@@ -123,6 +122,7 @@ export async function GET(
             .select(`
               st_wages,
               ot_wages,
+              burden_rate,
               total_cost_with_burden,
               total_burden_amount,
               employees!inner(
@@ -143,9 +143,8 @@ export async function GET(
           let staffActuals = 0
           
           laborActuals?.forEach(labor => {
-            // Use total_cost_with_burden if available, otherwise calculate from wages
-            const cost = labor.total_cost_with_burden || 
-                        ((labor.st_wages || 0) + (labor.ot_wages || 0)) * 1.28
+            // Use total_cost_with_burden if available, otherwise apply the record's burden rate
+            const cost = calculateBurdenedCost(labor)
             const category = labor.employees?.category?.toLowerCase() || 'direct'
             
             if (category === 'indirect') {
@@ -239,7 +238,8 @@ export async function GET(
           // Get craft types for mapping
           const { data: craftTypes } = await supabase
             .from('craft_types')
-            .select('id, default_rate, category')
+            .select('id, name, default_rate, category')
+          const rateEscalations = await fetchRateEscalations(supabase, projectId)
 
           // Calculate future labor using centralized service
           const runningAverageRates = ForecastCalculationService.calculateLaborRatesByCraft(laborActuals || [])
@@ -253,8 +253,10 @@ export async function GET(
               week_starting: f.week_ending  // The service expects week_starting but we have week_ending
             })),
             runningAverageRates,
-            craftTypes || []
+            craftTypes || [],
+            { escalations: rateEscalations }
           )
+          laborRateWarnings = futureLaborCosts.warnings
 
           const directForecast = futureLaborCosts.byCategory.direct || 0
           const indirectForecast = futureLaborCosts.byCategory.indirect || 0
@@ -335,40 +337,11 @@ export async function GET(
           
           // The main LABOR budget is already set from total_labor_budget
           // No need to recalculate from subcategories
-        } else if (cat.costCodeCategories.length > 0 || cat.costCenterCodes.length > 0) {
-          // Filter POs for this category
-          const categoryPOs = allPOs?.filter(po => {
-            // Map budget_category values to our category names
-            const poCategory = po.budget_category?.toLowerCase() || ''
-            
-            // Direct category name match
-            if (poCategory === cat.category.toLowerCase()) {
-              return true
-            }
-            
-            // Map common variations
-            if (cat.category === 'MATERIALS' && (poCategory === 'material' || poCategory === 'materials')) {
-              return true
-            }
-            if (cat.category === 'EQUIPMENT' && poCategory === 'equipment') {
-              return true
-            }
-            if (cat.category === 'SUBCONTRACTS' && (poCategory === 'subcontract' || poCategory === 'subcontracts')) {
-              return true
-            }
-            if (cat.category === 'SMALL TOOLS & CONSUMABLES' && 
-                (poCategory === 'small tools' || poCategory === 'small_tools' || 
-                 poCategory === 'consumables' || poCategory === 'small tools & consumables')) {
-              return true
-            }
-            
-            // Check by cost center code as fallback
-            if (po.cost_center && cat.costCenterCodes.includes(po.cost_center)) {
-              return true
-            }
-            
-            return false
-          }) || []
+        } else if (cat.poCategory) {
+          // POs are classified by the cost code mapping rules when imported or when the rules change
+          const categoryPOs = allPOs?.filter(po =>
+            normalizeBudgetCategory(po.budget_category) === cat.category
+          ) || []
 
           if (categoryPOs.length > 0) {
             // Calculate PO totals using total_amount for actuals (to match PO Breakdown chart)
@@ -412,7 +385,8 @@ export async function GET(
 
     return NextResponse.json({
       categories: categoryResults,
-      projectBudget
+      projectBudget,
+      laborRateWarnings
     })
   } catch (error) {
     console.error('Budget vs actual error:', error)
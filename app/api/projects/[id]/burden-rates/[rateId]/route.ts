@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+
+const updateBurdenRateSchema = z.object({
+  burden_rate: z.number().min(0).max(9.9999).optional(),
+  effective_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Effective date must be YYYY-MM-DD').optional(),
+  description: z.string().max(500).optional()
+})
+
+// PATCH /api/projects/[id]/burden-rates/[rateId] - Update a burden rate
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; rateId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId, rateId } = await params
+    const body = await request.json()
+    const validated = updateBurdenRateSchema.parse(body)
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('labor_burden_rates')
+      .select('*')
+      .eq('id', rateId)
+      .single()
+
+    if (fetchError || !existing || (existing.project_id && existing.project_id !== projectId)) {
+      return NextResponse.json({ error: 'Burden rate not found' }, { status: 404 })
+    }
+
+    const { data: rate, error } = await supabase
+      .from('labor_burden_rates')
+      .update(validated)
+      .eq('id', rateId)
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'A burden rate already exists for this scope and effective date' },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'update',
+      entity_type: 'labor_burden_rate',
+      entity_id: rateId,
+      changes: {
+        before: {
+          burden_rate: existing.burden_rate,
+          effective_date: existing.effective_date
+        },
+        after: {
+          burden_rate: rate.burden_rate,
+          effective_date: rate.effective_date
+        }
+      }
+    })
+
+    return NextResponse.json({ rate })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating burden rate:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/projects/[id]/burden-rates/[rateId] - Remove a burden rate
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; rateId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId, rateId } = await params
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('labor_burden_rates')
+      .select('*')
+      .eq('id', rateId)
+      .single()
+
+    if (fetchError || !existing || (existing.project_id && existing.project_id !== projectId)) {
+      return NextResponse.json({ error: 'Burden rate not found' }, { status: 404 })
+    }
+
+    const { error } = await supabase
+      .from('labor_burden_rates')
+      .delete()
+      .eq('id', rateId)
+
+    if (error) throw error
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'delete',
+      entity_type: 'labor_burden_rate',
+      entity_id: rateId,
+      changes: {
+        project_id: existing.project_id,
+        category: existing.category,
+        burden_rate: existing.burden_rate,
+        effective_date: existing.effective_date
+      }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting burden rate:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import {
+  fetchBurdenRates,
+  resolveEffectiveBurdenRates
+} from '@/lib/services/burden-rates'
+
+const burdenRateSchema = z.object({
+  scope: z.enum(['project', 'company']).default('project'),
+  category: z.enum(['Direct', 'Indirect', 'Staff']).nullable().optional(),
+  burden_rate: z.number().min(0).max(9.9999),
+  effective_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Effective date must be YYYY-MM-DD'),
+  description: z.string().max(500).optional()
+})
+
+// GET /api/projects/[id]/burden-rates - List company and project burden rates
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const date = request.nextUrl.searchParams.get('date') || new Date().toISOString().split('T')[0]
+
+    const rates = await fetchBurdenRates(supabase, projectId)
+
+    return NextResponse.json({
+      rates,
+      effective: resolveEffectiveBurdenRates(rates, projectId, date),
+      date
+    })
+  } catch (error) {
+    console.error('Error fetching burden rates:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/projects/[id]/burden-rates - Add a burden rate
+// Labor actuals from the effective date onward are recalculated by the database trigger
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const body = await request.json()
+    const validated = burdenRateSchema.parse(body)
+
+    const { data: rate, error } = await supabase
+      .from('labor_burden_rates')
+      .insert({
+        project_id: validated.scope === 'project' ? projectId : null,
+        category: validated.category ?? null,
+        burden_rate: validated.burden_rate,
+        effective_date: validated.effective_date,
+        description: validated.description,
+        created_by: user.id
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'A burden rate already exists for this scope and effective date' },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'create',
+      entity_type: 'labor_burden_rate',
+      entity_id: rate.id,
+      changes: {
+        project_id: rate.project_id,
+        category: rate.category,
+        burden_rate: rate.burden_rate,
+        effective_date: rate.effective_date
+      }
+    })
+
+    return NextResponse.json({ rate }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating burden rate:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
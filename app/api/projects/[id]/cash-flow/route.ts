@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { fetchProjectCashFlow } from '@/lib/services/cash-flow'
+import { cashFlowIntervalSchema, cashFlowSettingsSchema } from '@/lib/validations/cash-flow'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/projects/[id]/cash-flow?interval=week|month - Cash in and out by period
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const projectId = z.string().uuid().parse(id)
+    const interval = cashFlowIntervalSchema.parse(request.nextUrl.searchParams.get('interval') ?? undefined)
+
+    const cashFlow = await fetchProjectCashFlow(supabase, projectId, interval)
+
+    return NextResponse.json(cashFlow)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Project not found') {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    console.error('Error calculating project cash flow:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/projects/[id]/cash-flow - Set payment lags, retention and billed to date
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    const allowedRoles = ['controller', 'ops_manager', 'project_manager']
+    if (!userProfile || !allowedRoles.includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to change cash-flow settings' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const projectId = z.string().uuid().parse(id)
+    const validated = cashFlowSettingsSchema.parse(await request.json())
+
+    const { data: previous } = await supabase
+      .from('project_cash_flow_settings')
+      .select('*')
+      .eq('project_id', projectId)
+      .maybeSingle()
+
+    const { data: settings, error } = await supabase
+      .from('project_cash_flow_settings')
+      .upsert({
+        project_id: projectId,
+        ...validated,
+        updated_by: user.id
+      }, { onConflict: 'project_id' })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'update',
+      entity_type: 'project_cash_flow_settings',
+      entity_id: projectId,
+      changes: {
+        old_values: previous,
+        new_values: settings
+      }
+    })
+
+    return NextResponse.json({ settings })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error saving cash-flow settings:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
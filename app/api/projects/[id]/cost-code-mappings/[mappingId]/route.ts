@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { reclassifyPurchaseOrders } from '@/lib/services/cost-code-mappings'
+
+// DELETE /api/projects/[id]/cost-code-mappings/[mappingId] - Remove a rule and reclassify POs
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; mappingId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, mappingId } = await params
+    const projectId = z.string().uuid().parse(id)
+    z.string().uuid().parse(mappingId)
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('cost_code_mappings')
+      .select('*')
+      .eq('id', mappingId)
+      .single()
+
+    if (fetchError || !existing || (existing.project_id && existing.project_id !== projectId)) {
+      return NextResponse.json({ error: 'Cost code mapping not found' }, { status: 404 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    const allowedRoles = existing.project_id
+      ? ['controller', 'ops_manager', 'project_manager']
+      : ['controller', 'ops_manager']
+    if (!userProfile || !allowedRoles.includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to remove this cost code mapping' },
+        { status: 403 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('cost_code_mappings')
+      .delete()
+      .eq('id', mappingId)
+
+    if (error) throw error
+
+    const reclassified = await reclassifyPurchaseOrders(supabase, existing.project_id || undefined)
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'delete',
+      entity_type: 'cost_code_mapping',
+      entity_id: mappingId,
+      changes: { old_values: existing, reclassified_purchase_orders: reclassified.updated }
+    })
+
+    return NextResponse.json({ success: true, reclassified: reclassified.updated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error deleting cost code mapping:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
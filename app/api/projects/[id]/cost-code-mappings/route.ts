@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import {
+  fetchCostCodeMappings,
+  fetchUnmatchedPurchaseOrders,
+  reclassifyPurchaseOrders
+} from '@/lib/services/cost-code-mappings'
+import { costCodeMappingSchema } from '@/lib/validations/cost-code-mappings'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/projects/[id]/cost-code-mappings - Company and project rules, and POs no rule matches
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const projectId = z.string().uuid().parse(id)
+
+    const [mappings, unmatched] = await Promise.all([
+      fetchCostCodeMappings(supabase, projectId),
+      fetchUnmatchedPurchaseOrders(supabase, projectId)
+    ])
+
+    return NextResponse.json({ mappings, unmatched })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error fetching cost code mappings:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/projects/[id]/cost-code-mappings - Add a company or project rule and reclassify POs
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const projectId = z.string().uuid().parse(id)
+    const { scope, ...validated } = costCodeMappingSchema.parse(await request.json())
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    // Company rules reclassify every project's POs
+    const allowedRoles = scope === 'company'
+      ? ['controller', 'ops_manager']
+      : ['controller', 'ops_manager', 'project_manager']
+    if (!userProfile || !allowedRoles.includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: `Insufficient permissions to add ${scope} cost code mappings` },
+        { status: 403 }
+      )
+    }
+
+    const { data: mapping, error } = await supabase
+      .from('cost_code_mappings')
+      .insert({
+        ...validated,
+        description: validated.description || null,
+        project_id: scope === 'project' ? projectId : null,
+        created_by: user.id
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'A rule for these codes already exists' },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
+    const reclassified = await reclassifyPurchaseOrders(supabase, scope === 'project' ? projectId : undefined)
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'create',
+      entity_type: 'cost_code_mapping',
+      entity_id: mapping.id,
+      changes: { new_values: mapping, reclassified_purchase_orders: reclassified.updated }
+    })
+
+    return NextResponse.json({ mapping, reclassified: reclassified.updated }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error adding cost code mapping:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { fetchProjectEAC } from '@/lib/services/project-eac'
+
+export const dynamic = 'force-dynamic'
+
+const eacCategorySchema = z.enum([
+  'direct_labor',
+  'indirect_labor',
+  'staff_labor',
+  'materials',
+  'equipment',
+  'subcontracts',
+  'small_tools',
+  'other'
+])
+
+const eacSettingsSchema = z.object({
+  official_method: z.enum(['bottom_up', 'cpi', 'cpi_spi', 'budget_remaining', 'manual']),
+  percent_complete: z.number().min(0).max(100).nullable().optional(),
+  planned_percent_complete: z.number().min(0).max(100).nullable().optional(),
+  manual_eac: z.number().min(0).nullable().optional(),
+  manual_eac_by_category: z.record(eacCategorySchema, z.number().min(0)).nullable().optional(),
+  manual_justification: z.string().trim().max(2000).nullable().optional()
+}).refine(
+  settings => settings.manual_eac == null || !!settings.manual_justification,
+  { message: 'A manual EAC needs a justification', path: ['manual_justification'] }
+).refine(
+  settings => settings.official_method !== 'manual' || settings.manual_eac != null,
+  { message: 'Enter a manual EAC to make it the official method', path: ['manual_eac'] }
+)
+
+// GET /api/projects/[id]/eac - Every EAC method side by side, with the official one
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const projectId = z.string().uuid().parse(id)
+
+    const eac = await fetchProjectEAC(supabase, projectId)
+
+    return NextResponse.json(eac)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Project not found') {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    console.error('Error calculating project EAC:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/projects/[id]/eac - Set the official method and its inputs
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    const allowedRoles = ['controller', 'ops_manager']
+    if (!userProfile || !allowedRoles.includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to change EAC settings' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const projectId = z.string().uuid().parse(id)
+    const validated = eacSettingsSchema.parse(await request.json())
+
+    const { data: previous } = await supabase
+      .from('project_eac_settings')
+      .select('*')
+      .eq('project_id', projectId)
+      .maybeSingle()
+
+    const { data: settings, error } = await supabase
+      .from('project_eac_settings')
+      .upsert({
+        project_id: projectId,
+        official_method: validated.official_method,
+        percent_complete: validated.percent_complete ?? null,
+        planned_percent_complete: validated.planned_percent_complete ?? null,
+        manual_eac: validated.manual_eac ?? null,
+        manual_eac_by_category: validated.manual_eac_by_category ?? null,
+        manual_justification: validated.manual_justification || null,
+        updated_by: user.id
+      }, { onConflict: 'project_id' })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'update',
+      entity_type: 'project_eac_settings',
+      entity_id: projectId,
+      changes: {
+        old_values: previous,
+        new_values: settings
+      }
+    })
+
+    return NextResponse.json({ settings })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error saving EAC settings:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { fetchProjectEarnedValue } from '@/lib/services/project-eac'
+
+export const dynamic = 'force-dynamic'
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD')
+
+const progressSchema = z.object({
+  wbs_code: z.string().trim().min(1).max(50).regex(/^[\w.-]+$/, 'Invalid WBS code'),
+  as_of_date: dateSchema.optional(),
+  percent_complete: z.number().min(0).max(100).nullable().optional(),
+  quantity_installed: z.number().min(0).nullable().optional(),
+  planned_percent_complete: z.number().min(0).max(100).nullable().optional(),
+  notes: z.string().trim().max(1000).nullable().optional()
+}).refine(
+  progress => progress.percent_complete != null || progress.quantity_installed != null,
+  { message: 'Enter a percent complete or an installed quantity', path: ['percent_complete'] }
+)
+
+// GET /api/projects/[id]/earned-value - EV, PV, AC, CPI and SPI per WBS node and for the project
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const projectId = z.string().uuid().parse(id)
+    const asOf = dateSchema.optional().parse(request.nextUrl.searchParams.get('as_of') || undefined)
+
+    const earnedValue = await fetchProjectEarnedValue(supabase, projectId, asOf)
+
+    return NextResponse.json(earnedValue)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Project not found') {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    console.error('Error calculating earned value:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/projects/[id]/earned-value - Record progress against a WBS node
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    const allowedRoles = ['controller', 'ops_manager', 'project_manager']
+    if (!userProfile || !allowedRoles.includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to record progress' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const projectId = z.string().uuid().parse(id)
+    const validated = progressSchema.parse(await request.json())
+
+    // Progress has to land on a node the budget knows about
+    const [{ count: lineItemCount }, { count: structureCount }] = await Promise.all([
+      supabase
+        .from('budget_line_items')
+        .select('id', { count: 'exact', head: true })
+        .eq('project_id', projectId)
+        .or(`wbs_code.eq.${validated.wbs_code},wbs_code.like.${validated.wbs_code}.%`),
+      supabase
+        .from('wbs_structure')
+        .select('id', { count: 'exact', head: true })
+        .eq('project_id', projectId)
+        .eq('code', validated.wbs_code)
+    ])
+
+    if (!lineItemCount && !structureCount) {
+      return NextResponse.json({ error: 'WBS code not found in project budget' }, { status: 404 })
+    }
+
+    const { data: progress, error } = await supabase
+      .from('wbs_progress')
+      .upsert({
+        project_id: projectId,
+        wbs_code: validated.wbs_code,
+        as_of_date: validated.as_of_date || new Date().toISOString().split('T')[0],
+        percent_complete: validated.percent_complete ?? null,
+        quantity_installed: validated.quantity_installed ?? null,
+        planned_percent_complete: validated.planned_percent_complete ?? null,
+        notes: validated.notes || null,
+        entered_by: user.id
+      }, { onConflict: 'project_id,wbs_code,as_of_date' })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'update',
+      entity_type: 'wbs_progress',
+      entity_id: progress.id,
+      changes: {
+        project_id: projectId,
+        wbs_code: validated.wbs_code,
+        new_values: progress
+      }
+    })
+
+    return NextResponse.json({ progress }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error recording WBS progress:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import {
+  compareFinancialSnapshots,
+  type FinancialSnapshot
+} from '@/lib/services/financial-snapshot'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/projects/[id]/financial-snapshots/compare?from=&to= - Differences between two snapshots
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const projectId = z.string().uuid().parse(id)
+    const fromId = z.string().uuid().parse(request.nextUrl.searchParams.get('from'))
+    const toId = z.string().uuid().parse(request.nextUrl.searchParams.get('to'))
+
+    const { data: snapshots, error } = await supabase
+      .from('financial_snapshots')
+      .select('*')
+      .eq('project_id', projectId)
+      .in('id', [fromId, toId])
+
+    if (error) throw error
+
+    const from = snapshots?.find(snapshot => snapshot.id === fromId) as FinancialSnapshot | undefined
+    const to = snapshots?.find(snapshot => snapshot.id === toId) as FinancialSnapshot | undefined
+
+    if (!from || !to) {
+      return NextResponse.json({ error: 'Snapshot not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      from,
+      to,
+      differences: compareFinancialSnapshots(from, to)
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error comparing financial snapshots:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
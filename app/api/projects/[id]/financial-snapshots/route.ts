@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { calculateFinancialSnapshot } from '@/lib/services/financial-snapshot'
+import { assertPeriodsOpen, ClosedPeriodError } from '@/lib/services/accounting-periods'
+
+export const dynamic = 'force-dynamic'
+
+const createSnapshotSchema = z.object({
+  snapshot_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Snapshot date must be YYYY-MM-DD').optional()
+})
+
+// GET /api/projects/[id]/financial-snapshots - Project snapshots, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const projectId = z.string().uuid().parse(id)
+    const limit = Math.min(parseInt(request.nextUrl.searchParams.get('limit') || '52'), 200)
+
+    const { data: snapshots, error } = await supabase
+      .from('financial_snapshots')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('snapshot_date', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) throw error
+
+    return NextResponse.json({ snapshots: snapshots || [] })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error fetching financial snapshots:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/projects/[id]/financial-snapshots - Take a snapshot now
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    const allowedRoles = ['controller', 'ops_manager', 'project_manager']
+    if (!userProfile || !allowedRoles.includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to take financial snapshots' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const projectId = z.string().uuid().parse(id)
+    const body = await request.json().catch(() => ({}))
+    const validated = createSnapshotSchema.parse(body)
+
+    const snapshotDate = validated.snapshot_date || new Date().toISOString().split('T')[0]
+
+    // A closed month keeps the snapshot frozen when it was closed
+    await assertPeriodsOpen(supabase, [{ projectId, date: snapshotDate }])
+
+    const snapshot = await calculateFinancialSnapshot(supabase, {
+      type: 'project',
+      projectId,
+      snapshotDate,
+      source: 'manual',
+      userId: user.id
+    })
+
+    return NextResponse.json({ snapshot }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ClosedPeriodError) {
+      return NextResponse.json(
+        { error: error.message, closed_periods: error.periods },
+        { status: 409 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Project not found') {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    console.error('Error creating financial snapshot:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
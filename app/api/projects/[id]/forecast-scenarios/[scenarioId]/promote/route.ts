@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+const routeParamsSchema = z.object({
+  id: z.string().uuid(),
+  scenarioId: z.string().uuid()
+})
+
+// POST /api/projects/[id]/forecast-scenarios/[scenarioId]/promote - Make a scenario the live forecast
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; scenarioId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    const allowedRoles = ['controller', 'ops_manager', 'project_manager']
+    if (!userProfile || !allowedRoles.includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to promote forecast scenarios' },
+        { status: 403 }
+      )
+    }
+
+    const { id: projectId, scenarioId } = routeParamsSchema.parse(await params)
+
+    const { data: scenario } = await supabase
+      .from('forecast_scenarios')
+      .select('id, name')
+      .eq('id', scenarioId)
+      .eq('project_id', projectId)
+      .single()
+
+    if (!scenario) {
+      return NextResponse.json({ error: 'Scenario not found' }, { status: 404 })
+    }
+
+    // Replaces the live headcount and PO forecasts in one transaction
+    const { data: result, error } = await supabase.rpc('promote_forecast_scenario', {
+      p_scenario_id: scenarioId,
+      p_user_id: user.id
+    })
+
+    if (error) throw error
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'promote',
+      entity_type: 'forecast_scenario',
+      entity_id: scenarioId,
+      changes: {
+        project_id: projectId,
+        name: scenario.name,
+        ...result
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      headcounts: result?.headcounts ?? 0,
+      purchaseOrders: result?.purchase_orders ?? 0
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error promoting forecast scenario:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,279 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { updateForecastScenarioSchema } from '@/lib/validations/forecast-scenarios'
+
+export const dynamic = 'force-dynamic'
+
+const routeParamsSchema = z.object({
+  id: z.string().uuid(),
+  scenarioId: z.string().uuid()
+})
+
+// GET /api/projects/[id]/forecast-scenarios/[scenarioId] - Scenario with its headcount and PO forecasts
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; scenarioId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId, scenarioId } = routeParamsSchema.parse(await params)
+
+    const { data: scenario } = await supabase
+      .from('forecast_scenarios')
+      .select('*')
+      .eq('id', scenarioId)
+      .eq('project_id', projectId)
+      .single()
+
+    if (!scenario) {
+      return NextResponse.json({ error: 'Scenario not found' }, { status: 404 })
+    }
+
+    const [
+      { data: headcounts, error: headcountError },
+      { data: poForecasts, error: poError }
+    ] = await Promise.all([
+      supabase
+        .from('forecast_scenario_headcounts')
+        .select('craft_type_id, week_ending, headcount, avg_weekly_hours, craft_types(name, code, category)')
+        .eq('scenario_id', scenarioId)
+        .order('week_ending'),
+      supabase
+        .from('forecast_scenario_po_forecasts')
+        .select('purchase_order_id, forecast_amount, purchase_orders(po_number, vendor_name, committed_amount, invoiced_amount, forecast_amount)')
+        .eq('scenario_id', scenarioId)
+    ])
+
+    if (headcountError) throw headcountError
+    if (poError) throw poError
+
+    return NextResponse.json({
+      scenario,
+      headcounts: headcounts || [],
+      poForecasts: poForecasts || []
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error fetching forecast scenario:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/projects/[id]/forecast-scenarios/[scenarioId] - Rename or edit a scenario's forecasts
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; scenarioId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    const allowedRoles = ['controller', 'ops_manager', 'project_manager']
+    if (!userProfile || !allowedRoles.includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to edit forecast scenarios' },
+        { status: 403 }
+      )
+    }
+
+    const { id: projectId, scenarioId } = routeParamsSchema.parse(await params)
+    const { headcounts, po_forecasts, ...details } = updateForecastScenarioSchema.parse(await request.json())
+
+    const { data: existing } = await supabase
+      .from('forecast_scenarios')
+      .select('*')
+      .eq('id', scenarioId)
+      .eq('project_id', projectId)
+      .single()
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Scenario not found' }, { status: 404 })
+    }
+
+    if (po_forecasts && po_forecasts.length > 0) {
+      // Scenario PO forecasts may only cover the project's own POs
+      const poIds = [...new Set(po_forecasts.map(f => f.purchase_order_id))]
+      const { count } = await supabase
+        .from('purchase_orders')
+        .select('id', { count: 'exact', head: true })
+        .eq('project_id', projectId)
+        .in('id', poIds)
+
+      if (count !== poIds.length) {
+        return NextResponse.json({ error: 'Purchase order not found in project' }, { status: 400 })
+      }
+    }
+
+    let scenario = existing
+    if (Object.keys(details).length > 0) {
+      const { data: updated, error } = await supabase
+        .from('forecast_scenarios')
+        .update(details)
+        .eq('id', scenarioId)
+        .select()
+        .single()
+
+      if (error) {
+        if (error.code === '23505') {
+          return NextResponse.json({ error: 'A scenario with this name already exists' }, { status: 409 })
+        }
+        throw error
+      }
+      scenario = updated
+    }
+
+    if (headcounts && headcounts.length > 0) {
+      const { error } = await supabase
+        .from('forecast_scenario_headcounts')
+        .upsert(
+          headcounts.map(h => ({
+            scenario_id: scenarioId,
+            craft_type_id: h.craft_type_id,
+            week_ending: h.week_ending.split('T')[0],
+            headcount: h.headcount,
+            avg_weekly_hours: h.avg_weekly_hours
+          })),
+          { onConflict: 'scenario_id,craft_type_id,week_ending' }
+        )
+
+      if (error) throw error
+    }
+
+    if (po_forecasts && po_forecasts.length > 0) {
+      const { error } = await supabase
+        .from('forecast_scenario_po_forecasts')
+        .upsert(
+          po_forecasts.map(f => ({ scenario_id: scenarioId, ...f })),
+          { onConflict: 'scenario_id,purchase_order_id' }
+        )
+
+      if (error) throw error
+    }
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'update',
+      entity_type: 'forecast_scenario',
+      entity_id: scenarioId,
+      changes: {
+        project_id: projectId,
+        ...details,
+        headcounts_updated: headcounts?.length || 0,
+        po_forecasts_updated: po_forecasts?.length || 0
+      }
+    })
+
+    return NextResponse.json({ scenario })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating forecast scenario:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/projects/[id]/forecast-scenarios/[scenarioId] - Remove a scenario; the live forecast is untouched
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; scenarioId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    const allowedRoles = ['controller', 'ops_manager', 'project_manager']
+    if (!userProfile || !allowedRoles.includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to delete forecast scenarios' },
+        { status: 403 }
+      )
+    }
+
+    const { id: projectId, scenarioId } = routeParamsSchema.parse(await params)
+
+    const { data: existing } = await supabase
+      .from('forecast_scenarios')
+      .select('*')
+      .eq('id', scenarioId)
+      .eq('project_id', projectId)
+      .single()
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Scenario not found' }, { status: 404 })
+    }
+
+    const { error } = await supabase
+      .from('forecast_scenarios')
+      .delete()
+      .eq('id', scenarioId)
+
+    if (error) throw error
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'delete',
+      entity_type: 'forecast_scenario',
+      entity_id: scenarioId,
+      changes: existing
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error deleting forecast scenario:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import {
+  compareForecastScenarios,
+  type ForecastScenario
+} from '@/lib/services/forecast-scenarios'
+
+export const dynamic = 'force-dynamic'
+
+// Each scenario is a full EAC calculation, so keep comparisons small
+const MAX_COMPARED_SCENARIOS = 5
+
+// GET /api/projects/[id]/forecast-scenarios/compare?ids= - EAC and margin of scenarios against the live forecast
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const projectId = z.string().uuid().parse(id)
+    const ids = z
+      .array(z.string().uuid())
+      .max(MAX_COMPARED_SCENARIOS, `Compare at most ${MAX_COMPARED_SCENARIOS} scenarios at a time`)
+      .parse((request.nextUrl.searchParams.get('ids') || '').split(',').filter(Boolean))
+
+    let scenarios: Pick<ForecastScenario, 'id' | 'name' | 'is_current'>[] = []
+    if (ids.length > 0) {
+      const { data, error } = await supabase
+        .from('forecast_scenarios')
+        .select('id, name, is_current')
+        .eq('project_id', projectId)
+        .in('id', ids)
+
+      if (error) throw error
+      if ((data || []).length !== new Set(ids).size) {
+        return NextResponse.json({ error: 'Scenario not found' }, { status: 404 })
+      }
+      // Keep the order the scenarios were asked for
+      scenarios = [...new Set(ids)].map(scenarioId => data!.find(s => s.id === scenarioId)!)
+    }
+
+    const outcomes = await compareForecastScenarios(supabase, projectId, scenarios)
+
+    return NextResponse.json({ outcomes })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Project not found') {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    console.error('Error comparing forecast scenarios:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
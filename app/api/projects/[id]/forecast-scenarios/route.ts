@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { forecastScenarioSchema } from '@/lib/validations/forecast-scenarios'
+import { createForecastScenario } from '@/lib/services/forecast-scenarios'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/projects/[id]/forecast-scenarios - List a project's forecast scenarios
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const projectId = z.string().uuid().parse(id)
+
+    const { data: scenarios, error } = await supabase
+      .from('forecast_scenarios')
+      .select(`
+        *,
+        created_by_user:profiles!forecast_scenarios_created_by_fkey(first_name, last_name)
+      `)
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    return NextResponse.json({ scenarios: scenarios || [] })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error fetching forecast scenarios:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/projects/[id]/forecast-scenarios - Copy the live forecast (or a scenario) into a new scenario
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    const allowedRoles = ['controller', 'ops_manager', 'project_manager']
+    if (!userProfile || !allowedRoles.includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to create forecast scenarios' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const projectId = z.string().uuid().parse(id)
+    const validated = forecastScenarioSchema.parse(await request.json())
+
+    const scenario = await createForecastScenario(supabase, {
+      projectId,
+      name: validated.name,
+      description: validated.description,
+      basedOnScenarioId: validated.based_on_scenario_id,
+      userId: user.id
+    })
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'create',
+      entity_type: 'forecast_scenario',
+      entity_id: scenario.id,
+      changes: {
+        project_id: projectId,
+        name: scenario.name,
+        based_on_scenario_id: scenario.based_on_scenario_id
+      }
+    })
+
+    return NextResponse.json({ scenario }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Scenario not found') {
+      return NextResponse.json({ error: 'Scenario not found' }, { status: 404 })
+    }
+
+    if (error instanceof Error && error.message === 'A scenario with this name already exists') {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    console.error('Error creating forecast scenario:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { startOfMonth, subDays, startOfWeek, format } from 'date-fns'
+import { calculateBurdenedCost } from '@/lib/services/burden-rates'
 
 export async function GET(
   request: NextRequest,
@@ -59,7 +60,7 @@ export async function GET(
     // Get labor actuals with burden
     const { data: laborActuals } = await supabase
       .from('labor_employee_actuals')
-      .select('st_wages, ot_wages, total_hours, total_cost_with_burden, employees!inner(category)')
+      .select('st_wages, ot_wages, total_hours, burden_rate, total_cost_with_burden, employees!inner(category)')
       .eq('project_id', projectId)
 
     // Get per diem costs
@@ -72,7 +73,7 @@ export async function GET(
 
     // Calculate total actual labor cost (using burdened costs + per diem)
     const totalLaborCost = (laborActuals?.reduce((sum, la) => {
-      return sum + (la.total_cost_with_burden || (la.st_wages || 0) + (la.ot_wages || 0) + ((la.st_wages || 0) * 0.28))
+      return sum + calculateBurdenedCost(la)
     }, 0) || 0) + totalPerDiemCost
     
     // Calculate total actual labor hours
@@ -84,7 +85,7 @@ export async function GET(
     // Calculate category-based costs and hours
     const categoryStats = laborActuals?.reduce((acc, la) => {
       const category = la.employees?.category?.toLowerCase() || 'direct'
-      const cost = la.total_cost_with_burden || (la.st_wages || 0) + (la.ot_wages || 0) + ((la.st_wages || 0) * 0.28)
+      const cost = calculateBurdenedCost(la)
       const hours = la.total_hours || 0
       
       if (!acc[category]) {
@@ -219,7 +220,7 @@ export async function GET(
     // Get monthly actual costs
     const { data: monthlyActuals } = await supabase
       .from('labor_employee_actuals')
-      .select('week_ending, st_wages, ot_wages, total_cost_with_burden')
+      .select('week_ending, st_wages, ot_wages, burden_rate, total_cost_with_burden')
       .eq('project_id', projectId)
       .order('week_ending', { ascending: true })
     
@@ -227,7 +228,7 @@ export async function GET(
     const actualsByMonth = new Map<string, number>()
     monthlyActuals?.forEach(actual => {
       const monthKey = format(new Date(actual.week_ending), 'MMM yyyy')
-      const cost = actual.total_cost_with_burden || (actual.st_wages || 0) + (actual.ot_wages || 0) + ((actual.st_wages || 0) * 0.28)
+      const cost = calculateBurdenedCost(actual)
       actualsByMonth.set(monthKey, (actualsByMonth.get(monthKey) || 0) + cost)
     })
     
@@ -429,7 +430,7 @@ export async function GET(
     const fourWeeksAgo = subDays(new Date(), 28)
     const { data: recentCosts } = await supabase
       .from('labor_employee_actuals')
-      .select('st_wages, ot_wages, week_ending')
+      .select('st_wages, ot_wages, burden_rate, total_cost_with_burden, week_ending')
       .eq('project_id', projectId)
       .gte('week_ending', fourWeeksAgo.toISOString())
 
@@ -439,12 +440,7 @@ export async function GET(
       .eq('project_id', projectId)
       .gte('created_at', fourWeeksAgo.toISOString())
 
-    const recentTotalCost = (recentCosts?.reduce((sum, cost) => {
-      const stWages = cost.st_wages || 0
-      const otWages = cost.ot_wages || 0
-      const burdenAmount = stWages * 0.28
-      return sum + stWages + otWages + burdenAmount
-    }, 0) || 0) +
+    const recentTotalCost = (recentCosts?.reduce((sum, cost) => sum + calculateBurdenedCost(cost), 0) || 0) +
       (recentPOCosts.data?.reduce((sum, po) => sum + (po.total_amount || 0), 0) || 0)
 
     const burnRate = recentTotalCost / 4 // Weekly average
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { updatePayRuleSchema } from '@/lib/validations/pay-rules'
+
+// PATCH /api/projects/[id]/pay-rules/[ruleId] - Update a pay rule
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; ruleId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId, ruleId } = await params
+    const body = await request.json()
+    const validated = updatePayRuleSchema.parse(body)
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('labor_pay_rules')
+      .select('*')
+      .eq('id', ruleId)
+      .single()
+
+    if (fetchError || !existing || (existing.project_id && existing.project_id !== projectId)) {
+      return NextResponse.json({ error: 'Pay rule not found' }, { status: 404 })
+    }
+
+    const { data: rule, error } = await supabase
+      .from('labor_pay_rules')
+      .update(validated)
+      .eq('id', ruleId)
+      .select()
+      .single()
+
+    if (error) throw error
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'update',
+      entity_type: 'labor_pay_rule',
+      entity_id: ruleId,
+      changes: { before: existing, after: validated }
+    })
+
+    return NextResponse.json({ rule })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating pay rule:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/projects/[id]/pay-rules/[ruleId] - Remove a pay rule
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; ruleId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId, ruleId } = await params
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('labor_pay_rules')
+      .select('*')
+      .eq('id', ruleId)
+      .single()
+
+    if (fetchError || !existing || (existing.project_id && existing.project_id !== projectId)) {
+      return NextResponse.json({ error: 'Pay rule not found' }, { status: 404 })
+    }
+
+    const { error } = await supabase
+      .from('labor_pay_rules')
+      .delete()
+      .eq('id', ruleId)
+
+    if (error) throw error
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'delete',
+      entity_type: 'labor_pay_rule',
+      entity_id: ruleId,
+      changes: existing
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting pay rule:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
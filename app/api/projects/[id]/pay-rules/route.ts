@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { fetchPayRules } from '@/lib/services/pay-rules'
+import { payRuleSchema } from '@/lib/validations/pay-rules'
+
+// GET /api/projects/[id]/pay-rules - List company and project pay rules
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const rules = await fetchPayRules(supabase, projectId)
+
+    return NextResponse.json({ rules })
+  } catch (error) {
+    console.error('Error fetching pay rules:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/projects/[id]/pay-rules - Add a pay rule
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const body = await request.json()
+    const { scope, ...validated } = payRuleSchema.parse(body)
+
+    const { data: rule, error } = await supabase
+      .from('labor_pay_rules')
+      .insert({
+        ...validated,
+        project_id: scope === 'project' ? projectId : null,
+        craft_type_id: validated.craft_type_id ?? null,
+        created_by: user.id
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'An active pay rule already exists for this scope' },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'create',
+      entity_type: 'labor_pay_rule',
+      entity_id: rule.id,
+      changes: validated
+    })
+
+    return NextResponse.json({ rule }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating pay rule:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
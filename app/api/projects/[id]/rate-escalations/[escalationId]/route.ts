@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+
+// DELETE /api/projects/[id]/rate-escalations/[escalationId] - Remove a rate escalation
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; escalationId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId, escalationId } = await params
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('labor_rate_escalations')
+      .select('*')
+      .eq('id', escalationId)
+      .single()
+
+    if (fetchError || !existing || (existing.project_id && existing.project_id !== projectId)) {
+      return NextResponse.json({ error: 'Rate escalation not found' }, { status: 404 })
+    }
+
+    const { error } = await supabase
+      .from('labor_rate_escalations')
+      .delete()
+      .eq('id', escalationId)
+
+    if (error) throw error
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'delete',
+      entity_type: 'labor_rate_escalation',
+      entity_id: escalationId,
+      changes: existing
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting rate escalation:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { fetchRateEscalations } from '@/lib/services/rate-escalations'
+import { rateEscalationSchema } from '@/lib/validations/rate-escalations'
+
+// GET /api/projects/[id]/rate-escalations - List company and project rate escalations
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const escalations = await fetchRateEscalations(supabase, projectId)
+
+    return NextResponse.json({ escalations })
+  } catch (error) {
+    console.error('Error fetching rate escalations:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/projects/[id]/rate-escalations - Add a rate escalation
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const body = await request.json()
+    const { scope, ...validated } = rateEscalationSchema.parse(body)
+
+    const { data: escalation, error } = await supabase
+      .from('labor_rate_escalations')
+      .insert({
+        ...validated,
+        project_id: scope === 'project' ? projectId : null,
+        craft_type_id: validated.craft_type_id ?? null,
+        created_by: user.id
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'create',
+      entity_type: 'labor_rate_escalation',
+      entity_id: escalation.id,
+      changes: validated
+    })
+
+    return NextResponse.json({ escalation }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating rate escalation:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
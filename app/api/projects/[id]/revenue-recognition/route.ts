@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { fetchRevenueRecognition } from '@/lib/services/revenue-recognition'
+import { reportingMonthSchema } from '@/lib/validations/revenue-recognition'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/projects/[id]/revenue-recognition?month=YYYY-MM - Percentage-of-completion revenue for a month
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const projectId = z.string().uuid().parse(id)
+    const reportingMonth = reportingMonthSchema.parse(
+      request.nextUrl.searchParams.get('month') ?? new Date().toISOString().slice(0, 7)
+    )
+
+    const recognition = await fetchRevenueRecognition(supabase, projectId, reportingMonth)
+
+    return NextResponse.json(recognition)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Project not found') {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    console.error('Error calculating revenue recognition:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { applyPurchaseOrderRisk } from '@/lib/services/po-risk-rules'
 
 // PATCH /api/purchase-orders/[id]/forecast - Update PO forecast and risk status
+// A risk status set here overrides the risk rules until cleared with clear_override
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -30,7 +32,7 @@ export async function PATCH(
 
     // Get request body
     const body = await request.json()
-    const { risk_status, reason } = body
+    const { risk_status, reason, clear_override } = body
 
     // Validate risk_status
     if (risk_status && !['normal', 'at-risk', 'over-budget'].includes(risk_status)) {
@@ -40,7 +42,7 @@ export async function PATCH(
     // Get current PO to record the change
     const { data: currentPO, error: fetchError } = await supabase
       .from('purchase_orders')
-      .select('risk_status')
+      .select('risk_status, risk_status_override')
       .eq('id', id)
       .single()
 
@@ -48,13 +50,31 @@ export async function PATCH(
       return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
     }
 
-    // Update PO if risk_status provided
-    if (risk_status && risk_status !== currentPO.risk_status) {
+    if (clear_override) {
+      // Hand the PO back to the risk rules
+      const { error: updateError } = await supabase
+        .from('purchase_orders')
+        .update({
+          risk_status_override: false,
+          risk_rule_id: null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+
+      if (updateError) {
+        console.error('Update PO error:', updateError)
+        return NextResponse.json({ error: updateError.message }, { status: 400 })
+      }
+
+      await applyPurchaseOrderRisk(supabase, { purchaseOrderIds: [id] })
+    } else if (risk_status && (risk_status !== currentPO.risk_status || !currentPO.risk_status_override)) {
       // Update the PO
       const { error: updateError } = await supabase
         .from('purchase_orders')
         .update({ 
           risk_status,
+          risk_status_override: true,
+          risk_rule_id: null,
           updated_at: new Date().toISOString()
         })
         .eq('id', id)
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { fetchInvoiceLedger } from '@/lib/services/invoice-ledger'
+import { invoiceSchema } from '@/lib/validations/invoices'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/purchase-orders/[id]/invoices - Invoice ledger matched against the PO's ICS invoice lines
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const purchaseOrderId = z.string().uuid().parse(id)
+
+    const ledger = await fetchInvoiceLedger(supabase, purchaseOrderId)
+
+    return NextResponse.json(ledger)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message === 'Purchase order not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    console.error('Error fetching invoice ledger:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/purchase-orders/[id]/invoices - Record a vendor invoice against the PO
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (!userProfile || !['controller', 'accounting'].includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to record invoices' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const purchaseOrderId = z.string().uuid().parse(id)
+    const validated = invoiceSchema.parse(await request.json())
+
+    const { data: purchaseOrder } = await supabase
+      .from('purchase_orders')
+      .select('id, project_id, vendor_name')
+      .eq('id', purchaseOrderId)
+      .maybeSingle()
+
+    if (!purchaseOrder) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
+    }
+
+    const approved = validated.status === 'approved' || validated.status === 'paid'
+    const { data: invoice, error } = await supabase
+      .from('invoices')
+      .insert({
+        ...validated,
+        project_id: purchaseOrder.project_id,
+        purchase_order_id: purchaseOrder.id,
+        vendor_name: purchaseOrder.vendor_name,
+        source: 'manual',
+        created_by: user.id,
+        approved_by: approved ? user.id : null,
+        approved_at: approved ? new Date().toISOString() : null
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: `Invoice ${validated.invoice_number} is already recorded on this PO` },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'create',
+      entity_type: 'invoice',
+      entity_id: invoice.id,
+      changes: { new_values: invoice }
+    })
+
+    // The ledger entry carries the match and the commitment check
+    const ledger = await fetchInvoiceLedger(supabase, purchaseOrderId)
+    const entry = ledger.entries.find(ledgerEntry => ledgerEntry.id === invoice.id)
+
+    return NextResponse.json({ invoice: entry || invoice, ledger }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error recording invoice:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
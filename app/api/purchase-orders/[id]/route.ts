@@ -2,13 +2,17 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { createAdminClient } from '@/lib/supabase/admin'
 import { z } from 'zod'
+import { assertPeriodsOpen, ClosedPeriodError } from '@/lib/services/accounting-periods'
+import { applyPurchaseOrderRisk } from '@/lib/services/po-risk-rules'
 
 // Validation schema for updating PO
 const updatePOSchema = z.object({
   committed_amount: z.number().min(0).optional(),
   forecast_amount: z.number().min(0).optional(),
   vendor_name: z.string().optional(),
-  description: z.string().optional()
+  description: z.string().optional(),
+  payment_terms_days: z.number().int().min(0).nullable().optional(),
+  expected_completion_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').nullable().optional()
 })
 
 // GET /api/purchase-orders/[id] - Get single PO (read-only)
@@ -56,6 +60,7 @@ export async function GET(
           contract_extra_type,
           created_at
         ),
+        invoices(invoice_date, status),
         created_by:profiles!purchase_orders_created_by_fkey(first_name, last_name, email),
         approved_by:profiles!purchase_orders_approved_by_fkey(first_name, last_name, email)
       `)
@@ -74,11 +79,8 @@ export async function GET(
       return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
     }
 
-    // Calculate invoiced amount from line items
-    const invoicedAmount = purchaseOrder.po_line_items?.reduce(
-      (sum: number, item: any) => sum + (item.total_amount || 0),
-      0
-    ) || 0
+    // Invoiced amount is kept in step with the invoice ledger
+    const invoicedAmount = Number(purchaseOrder.invoiced_amount || 0)
 
     // Calculate invoice percentage
     const invoicePercentage = purchaseOrder.committed_amount > 0
@@ -86,11 +88,11 @@ export async function GET(
       : 0
 
     // Get last invoice date
-    const lastInvoiceDate = purchaseOrder.po_line_items?.reduce(
-      (latest: Date | null, item: any) => {
-        if (!item.invoice_date) return latest
-        const itemDate = new Date(item.invoice_date)
-        return !latest || itemDate > latest ? itemDate : latest
+    const lastInvoiceDate = purchaseOrder.invoices?.reduce(
+      (latest: Date | null, invoice: { invoice_date: string; status: string }) => {
+        if (invoice.status === 'cancelled') return latest
+        const invoiceDate = new Date(invoice.invoice_date)
+        return !latest || invoiceDate > latest ? invoiceDate : latest
       },
       null
     )
@@ -177,6 +179,22 @@ export async function PUT(
       return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
     }
 
+    // PO edits are dated when they are made, so they are blocked while the current month is closed
+    try {
+      await assertPeriodsOpen(adminSupabase, [{
+        projectId: existingPO.project_id,
+        date: new Date().toISOString().split('T')[0]
+      }])
+    } catch (error) {
+      if (error instanceof ClosedPeriodError) {
+        return NextResponse.json(
+          { error: error.message, closed_periods: error.periods },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
     // Update the PO
     const { data: updatedPO, error: updateError } = await adminSupabase
       .from('purchase_orders')
@@ -203,6 +221,24 @@ export async function PUT(
       }, { status: 400 })
     }
 
+    // Forecast, commitment and end date changes can change the PO's risk
+    let riskStatus: { risk_status: string; risk_rule_id: string | null } | null = null
+    if (
+      updateData.forecast_amount !== undefined ||
+      updateData.committed_amount !== undefined ||
+      updateData.expected_completion_date !== undefined
+    ) {
+      const { updated } = await applyPurchaseOrderRisk(adminSupabase, { purchaseOrderIds: [id] })
+      if (updated > 0) {
+        const { data } = await adminSupabase
+          .from('purchase_orders')
+          .select('risk_status, risk_rule_id')
+          .eq('id', id)
+          .single()
+        riskStatus = data
+      }
+    }
+
     // Log the change in audit log
     if (updateData.committed_amount !== undefined && updateData.committed_amount !== existingPO.committed_amount) {
       await adminSupabase.from('audit_log').insert({
@@ -217,7 +253,7 @@ export async function PUT(
       })
     }
 
-    return NextResponse.json({ purchase_order: updatedPO })
+    return NextResponse.json({ purchase_order: { ...updatedPO, ...riskStatus } })
   } catch (error) {
     console.error('Update purchase order error:', error)
     return NextResponse.json(
@@ -34,6 +34,7 @@ export async function GET(request: NextRequest) {
       'forecast_amount': 'forecast_amount',
       'invoiced_amount': 'invoiced_amount',
       'cost_center': 'cost_center',
+      'budget_category': 'budget_category',
       'cost_code': 'cost_codes.code',
       'project_name': 'projects.name',
       'project_job_number': 'projects.job_number',
@@ -119,30 +120,6 @@ export async function GET(request: NextRequest) {
           case 'cost_code':
             value = row.cost_code?.code || null
             break
-          case 'cost_center':
-            // Map cost center codes to meaningful labels
-            const costCenter = row.cost_center
-            if (!costCenter) {
-              value = null
-            } else {
-              switch (costCenter) {
-                case '2000':
-                  value = 'Equipment'
-                  break
-                case '3000':
-                  value = 'Materials'
-                  break
-                case '4000':
-                  value = 'Subcontracts'
-                  break
-                case '5000':
-                  value = 'Small Tools'
-                  break
-                default:
-                  value = costCenter
-              }
-            }
-            break
           case 'order_date':
             value = row.order_date ? new Date(row.order_date as string).toLocaleDateString() : null
             break
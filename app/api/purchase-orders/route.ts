@@ -76,7 +76,7 @@ export async function GET(request: NextRequest) {
       query = query.eq('project_id', project_id)
     }
     
-    // Apply category filter - simplified version using budget_category field only
+    // Apply category filter - budget_category is set by the cost code mapping rules
     if (category) {
       query = query.ilike('budget_category', `%${category}%`)
     }
@@ -245,34 +245,9 @@ export async function GET(request: NextRequest) {
       summaryQuery = summaryQuery.eq('project_id', project_id)
     }
     
-    // Apply category filter to summary query
+    // Apply category filter to summary query - budget_category is set by the cost code mapping rules
     if (category) {
-      const categoryMapping: Record<string, { costCenters: string[], costCodeCategories: string[] }> = {
-        'materials': { costCenters: ['3000'], costCodeCategories: ['material'] },
-        'equipment': { costCenters: ['2000'], costCodeCategories: ['equipment'] },
-        'subcontracts': { costCenters: ['4000'], costCodeCategories: ['subcontract'] },
-        'small tools & consumables': { costCenters: ['5000'], costCodeCategories: ['material', 'other'] },
-        'add ons': { costCenters: [], costCodeCategories: ['other'] },
-        'other': { costCenters: [], costCodeCategories: ['other'] }
-      }
-      
-      const mapping = categoryMapping[category.toLowerCase()]
-      
-      if (mapping) {
-        const orConditions = []
-        
-        if (mapping.costCenters.length > 0) {
-          orConditions.push(`cost_center.in.(${mapping.costCenters.join(',')})`)
-        }
-        
-        orConditions.push(`budget_category.ilike.%${category}%`)
-        
-        // Cost codes table removed in simplification
-        
-        if (orConditions.length > 0) {
-          summaryQuery = summaryQuery.or(orConditions.join(','))
-        }
-      }
+      summaryQuery = summaryQuery.ilike('budget_category', `%${category}%`)
     }
     
     // Apply column filters to summary query
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import * as XLSX from 'xlsx'
+import { fetchEmployeeRateHistory, resolveEmployeeRate } from '@/lib/services/employee-rates'
+import { assertPeriodsOpen, ClosedPeriodError } from '@/lib/services/accounting-periods'
 
 export async function POST(request: NextRequest) {
   let importRecord: any = null
@@ -52,6 +54,29 @@ export async function POST(request: NextRequest) {
     const worksheet = workbook.Sheets[sheetName]
     const data = XLSX.utils.sheet_to_json(worksheet)
 
+    // Weeks are booked to the month of their week ending; closed months were already reported
+    try {
+      await assertPeriodsOpen(
+        supabase,
+        (data as Record<string, unknown>[]).map(row => {
+          const weekEnding = row['Week Ending'] || row['week_ending']
+          return { projectId, date: weekEnding ? String(weekEnding).split('T')[0] : null }
+        })
+      )
+    } catch (error) {
+      if (error instanceof ClosedPeriodError) {
+        await supabase
+          .from('data_imports')
+          .update({ import_status: 'failed', error_message: error.message })
+          .eq('id', importRecord.id)
+        return NextResponse.json(
+          { error: `This file has weeks in a closed period. ${error.message}`, closed_periods: error.periods },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
     let recordsProcessed = 0
     let recordsFailed = 0
     const errors: any[] = []
@@ -71,6 +96,14 @@ export async function POST(request: NextRequest) {
       .select('id, employee_number, base_rate, craft_type_id')
       .eq('is_active', true)
 
+    // Cost each row at the rates in force on its week ending, not today's rates
+    const rateHistory = await fetchEmployeeRateHistory(
+      supabase,
+      (employees || []).map(e => e.id)
+    )
+    const rateOn = (employee: { id: string; base_rate: number | null }, weekEnding: string) =>
+      resolveEmployeeRate(rateHistory.get(employee.id) || [], weekEnding) ?? Number(employee.base_rate || 0)
+
     // Get default craft type for direct labor
     const directLaborCraftId = craftTypes?.find(ct => ct.code === '01-100')?.id
 
@@ -100,19 +133,21 @@ export async function POST(request: NextRequest) {
           continue
         }
         
-        // Calculate actual cost using employee base rate if available
+        // Calculate actual cost using the employee's rate for the week if available
+        const rateDate = String(weekEnding).split('T')[0]
         let cost = costFromFile
         if (employeeNumber && employees) {
           const employee = employees.find(e => e.employee_number === employeeNumber)
-          if (employee && employee.base_rate) {
+          const rate = employee ? rateOn(employee, rateDate) : 0
+          if (rate) {
             // Use actual pay rate to calculate cost
-            cost = hours * Number(employee.base_rate)
+            cost = hours * rate
           }
         } else if (craftTypeId && employees) {
           // Try to find employees by craft type and calculate average rate
           const craftEmployees = employees.filter(e => e.craft_type_id === craftTypeId)
           if (craftEmployees.length > 0) {
-            const avgRate = craftEmployees.reduce((sum, e) => sum + Number(e.base_rate || 0), 0) / craftEmployees.length
+            const avgRate = craftEmployees.reduce((sum, e) => sum + rateOn(e, rateDate), 0) / craftEmployees.length
             if (avgRate > 0) {
               cost = hours * avgRate
             }
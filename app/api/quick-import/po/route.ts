@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { ImportChangeTracker } from '@/lib/services/import-changes'
 
 export async function POST(request: NextRequest) {
   let importRecord: any = null
@@ -64,6 +65,7 @@ export async function POST(request: NextRequest) {
     let recordsProcessed = 0
     let recordsFailed = 0
     const errors: any[] = []
+    const changeTracker = new ImportChangeTracker()
 
     // Process each data row
     for (let i = 1; i < lines.length; i++) {
@@ -85,14 +87,14 @@ export async function POST(request: NextRequest) {
         // Check if PO already exists
         const { data: existing } = await supabase
           .from('purchase_orders')
-          .select('id')
+          .select('*')
           .eq('po_number', poNumber)
           .eq('project_id', projectId)
           .single()
 
         if (existing) {
           // Update existing PO
-          await supabase
+          const { error: updateError } = await supabase
             .from('purchase_orders')
             .update({
               vendor_name: vendor,
@@ -103,9 +105,12 @@ export async function POST(request: NextRequest) {
               updated_at: new Date().toISOString()
             })
             .eq('id', existing.id)
+
+          if (updateError) throw updateError
+          changeTracker.recordUpdates('purchase_orders', [existing])
         } else {
           // Create new PO
-          await supabase
+          const { data: created, error: insertError } = await supabase
             .from('purchase_orders')
             .insert({
               project_id: projectId,
@@ -120,6 +125,11 @@ export async function POST(request: NextRequest) {
               order_date: new Date().toISOString().split('T')[0],
               created_by: user.id
             })
+            .select('id')
+            .single()
+
+          if (insertError) throw insertError
+          changeTracker.recordInserts('purchase_orders', [created])
         }
 
         recordsProcessed++
@@ -137,7 +147,8 @@ export async function POST(request: NextRequest) {
         import_status: recordsFailed === 0 ? 'success' : 'completed_with_errors',
         records_processed: recordsProcessed,
         records_failed: recordsFailed,
-        error_details: errors.length > 0 ? { errors } : null
+        error_details: errors.length > 0 ? { errors } : null,
+        row_changes: changeTracker.rowChanges
       })
       .eq('id', importRecord.id)
 
@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import {
+  assignPurchaseOrderVendors,
+  fetchVendors,
+  findVendorConflict,
+  vendorAliasRows
+} from '@/lib/services/vendors'
+import { vendorUpdateSchema } from '@/lib/validations/vendors'
+
+export const dynamic = 'force-dynamic'
+
+// PATCH /api/vendors/[id] - Rename a vendor, change its aliases or deactivate it
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (!userProfile || !['controller', 'ops_manager', 'accounting'].includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to manage vendors' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const vendorId = z.string().uuid().parse(id)
+    const { aliases, ...validated } = vendorUpdateSchema.parse(await request.json())
+
+    const vendors = await fetchVendors(supabase)
+    const current = vendors.find(vendor => vendor.id === vendorId)
+    if (!current) {
+      return NextResponse.json({ error: 'Vendor not found' }, { status: 404 })
+    }
+
+    const name = validated.name || current.name
+    // A renamed vendor keeps its old name as an alias, so POs and later imports still match
+    const nextAliases = [
+      ...(aliases ?? current.aliases.map(alias => alias.alias)),
+      ...(name !== current.name ? [current.name] : [])
+    ]
+
+    const conflict = findVendorConflict([name, ...nextAliases], vendors, vendorId)
+    if (conflict) {
+      return NextResponse.json(
+        { error: `${conflict} already belongs to another vendor` },
+        { status: 409 }
+      )
+    }
+
+    const { data: vendor, error } = await supabase
+      .from('vendors')
+      .update(validated)
+      .eq('id', vendorId)
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: `Vendor ${name} already exists` },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
+    const aliasRows = vendorAliasRows(vendorId, name, nextAliases)
+    const { error: deleteError } = await supabase
+      .from('vendor_aliases')
+      .delete()
+      .eq('vendor_id', vendorId)
+    if (deleteError) throw deleteError
+    if (aliasRows.length > 0) {
+      const { error: aliasError } = await supabase.from('vendor_aliases').insert(aliasRows)
+      if (aliasError) throw aliasError
+    }
+
+    const assigned = await assignPurchaseOrderVendors(supabase)
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'update',
+      entity_type: 'vendor',
+      entity_id: vendorId,
+      changes: {
+        old_values: { ...current, aliases: current.aliases.map(alias => alias.alias) },
+        new_values: { ...vendor, aliases: aliasRows.map(row => row.alias) },
+        assigned_purchase_orders: assigned.updated
+      }
+    })
+
+    return NextResponse.json({ vendor, assigned: assigned.updated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating vendor:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/vendors/[id] - Remove a vendor; its POs keep their vendor name
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (!userProfile || !['controller', 'ops_manager', 'accounting'].includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to manage vendors' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const vendorId = z.string().uuid().parse(id)
+
+    const { data: existing } = await supabase
+      .from('vendors')
+      .select('*')
+      .eq('id', vendorId)
+      .maybeSingle()
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Vendor not found' }, { status: 404 })
+    }
+
+    const { error } = await supabase
+      .from('vendors')
+      .delete()
+      .eq('id', vendorId)
+
+    if (error) throw error
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'delete',
+      entity_type: 'vendor',
+      entity_id: vendorId,
+      changes: { old_values: existing }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error deleting vendor:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
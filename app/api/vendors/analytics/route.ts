@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { fetchVendorAnalytics } from '@/lib/services/vendors'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/vendors/analytics - Spend, commitment, invoice lag and PO growth by vendor
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const vendors = await fetchVendorAnalytics(supabase)
+
+    return NextResponse.json({ vendors })
+  } catch (error) {
+    console.error('Error fetching vendor analytics:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
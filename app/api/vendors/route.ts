@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import {
+  assignPurchaseOrderVendors,
+  fetchUnassignedVendorNames,
+  fetchVendors,
+  findVendorConflict,
+  vendorAliasRows
+} from '@/lib/services/vendors'
+import { vendorSchema } from '@/lib/validations/vendors'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/vendors - Vendor master, and PO vendor names no vendor matches
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [vendors, unassigned] = await Promise.all([
+      fetchVendors(supabase),
+      fetchUnassignedVendorNames(supabase)
+    ])
+
+    return NextResponse.json({ vendors, unassigned })
+  } catch (error) {
+    console.error('Error fetching vendors:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/vendors - Add a vendor with its aliases and assign matching POs
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (!userProfile || !['controller', 'ops_manager', 'accounting'].includes(userProfile.role)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions to manage vendors' },
+        { status: 403 }
+      )
+    }
+
+    const { aliases, ...validated } = vendorSchema.parse(await request.json())
+
+    const conflict = findVendorConflict([validated.name, ...aliases], await fetchVendors(supabase))
+    if (conflict) {
+      return NextResponse.json(
+        { error: `${conflict} already belongs to another vendor` },
+        { status: 409 }
+      )
+    }
+
+    const { data: vendor, error } = await supabase
+      .from('vendors')
+      .insert({
+        ...validated,
+        notes: validated.notes || null,
+        created_by: user.id
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: `Vendor ${validated.name} already exists` },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
+    const aliasRows = vendorAliasRows(vendor.id, vendor.name, aliases)
+    if (aliasRows.length > 0) {
+      const { error: aliasError } = await supabase.from('vendor_aliases').insert(aliasRows)
+      if (aliasError) throw aliasError
+    }
+
+    const assigned = await assignPurchaseOrderVendors(supabase)
+
+    await supabase.from('audit_log').insert({
+      user_id: user.id,
+      action: 'create',
+      entity_type: 'vendor',
+      entity_id: vendor.id,
+      changes: { new_values: { ...vendor, aliases: aliasRows.map(row => row.alias) }, assigned_purchase_orders: assigned.updated }
+    })
+
+    return NextResponse.json({ vendor, assigned: assigned.updated }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error adding vendor:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,189 @@
+'use client'
+
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { cn } from '@/lib/utils'
+import type { AccuracyGroup, AccuracyStats, ForecastAccuracyReport } from '@/lib/services/forecast-accuracy'
+
+type Grouping = 'byManager' | 'byProject' | 'byCategory'
+
+const GROUPING_LABELS: Record<Grouping, string> = {
+  byManager: 'Project Manager',
+  byProject: 'Project',
+  byCategory: 'Category'
+}
+
+const LAG_OPTIONS = [1, 2, 4, 8]
+
+const formatPercent = (value: number | null) =>
+  value === null ? '—' : `${value > 0 ? '+' : ''}${value.toFixed(1)}%`
+
+// Bias and error cells: within 10% reads as trustworthy, beyond 25% as not
+function StatCells({ stats }: { stats: AccuracyStats | undefined }) {
+  if (!stats || stats.samples === 0) {
+    return (
+      <>
+        <TableCell className="text-right text-muted-foreground">—</TableCell>
+        <TableCell className="text-right text-muted-foreground">—</TableCell>
+      </>
+    )
+  }
+  const error = stats.errorPercent
+  return (
+    <>
+      <TableCell className="text-right">{formatPercent(stats.biasPercent)}</TableCell>
+      <TableCell
+        className={cn(
+          'text-right',
+          error !== null && error <= 10 && 'text-green-600',
+          error !== null && error > 25 && 'text-red-600'
+        )}
+      >
+        {error === null ? '—' : `${error.toFixed(1)}%`}
+      </TableCell>
+    </>
+  )
+}
+
+/**
+ * How past headcount, labor cost and PO forecasts compared with actuals, by project
+ * manager, project or category. Loaded on request since it reads forecast history
+ * across every project.
+ */
+export function ForecastAccuracyCard() {
+  const [requested, setRequested] = useState(false)
+  const [lagWeeks, setLagWeeks] = useState(4)
+  const [grouping, setGrouping] = useState<Grouping>('byManager')
+
+  const { data: report, isFetching, error } = useQuery({
+    queryKey: ['forecast-accuracy', lagWeeks],
+    queryFn: async () => {
+      const response = await fetch(`/api/forecast-accuracy?lag_weeks=${lagWeeks}`)
+      if (!response.ok) throw new Error('Failed to fetch forecast accuracy')
+      return response.json() as Promise<ForecastAccuracyReport>
+    },
+    enabled: requested,
+    staleTime: 5 * 60 * 1000
+  })
+
+  // One row per group across the three forecasts
+  const rows = report
+    ? [...new Set([
+        ...report.headcount[grouping],
+        ...report.laborCost[grouping],
+        ...report.purchaseOrders[grouping]
+      ].map(group => group.key))].map(key => {
+        const find = (groups: AccuracyGroup[]) => groups.find(group => group.key === key)
+        const headcount = find(report.headcount[grouping])
+        const laborCost = find(report.laborCost[grouping])
+        const purchaseOrders = find(report.purchaseOrders[grouping])
+        return {
+          key,
+          label: (headcount || laborCost || purchaseOrders)!.label,
+          headcount,
+          laborCost,
+          purchaseOrders
+        }
+      }).sort((a, b) => a.label.localeCompare(b.label))
+    : []
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle>Forecast Accuracy</CardTitle>
+          <CardDescription>
+            Forecasts as they stood {lagWeeks} week{lagWeeks === 1 ? '' : 's'} ahead against what happened.
+            Bias above zero means forecasts ran high.
+          </CardDescription>
+        </div>
+        {requested ? (
+          <div className="flex items-center gap-2">
+            <Select value={String(lagWeeks)} onValueChange={(value) => setLagWeeks(Number(value))}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LAG_OPTIONS.map(weeks => (
+                  <SelectItem key={weeks} value={String(weeks)}>
+                    {weeks} week{weeks === 1 ? '' : 's'} out
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Tabs value={grouping} onValueChange={(value) => setGrouping(value as Grouping)}>
+              <TabsList>
+                {(Object.keys(GROUPING_LABELS) as Grouping[]).map(key => (
+                  <TabsTrigger key={key} value={key}>{GROUPING_LABELS[key]}</TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          </div>
+        ) : (
+          <Button variant="outline" size="sm" onClick={() => setRequested(true)}>
+            Measure Accuracy
+          </Button>
+        )}
+      </CardHeader>
+      {requested && (
+        <CardContent>
+          {error ? (
+            <p className="text-sm text-red-600">{error.message}</p>
+          ) : isFetching || !report ? (
+            <div className="h-64 animate-pulse rounded bg-gray-100 dark:bg-gray-800" />
+          ) : rows.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No forecasts old enough to measure between {report.from} and {report.to}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead rowSpan={2}>{GROUPING_LABELS[grouping]}</TableHead>
+                    <TableHead colSpan={2} className="text-center">Headcount</TableHead>
+                    <TableHead colSpan={2} className="text-center">Labor Cost</TableHead>
+                    <TableHead colSpan={2} className="text-center">PO Final Cost</TableHead>
+                  </TableRow>
+                  <TableRow>
+                    {['headcount', 'labor', 'po'].flatMap(kind => [
+                      <TableHead key={`${kind}-bias`} className="text-right">Bias</TableHead>,
+                      <TableHead key={`${kind}-error`} className="text-right">Error</TableHead>
+                    ])}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => (
+                    <TableRow key={row.key}>
+                      <TableCell>{row.label}</TableCell>
+                      <StatCells stats={row.headcount} />
+                      <StatCells stats={row.laborCost} />
+                      <StatCells stats={row.purchaseOrders} />
+                    </TableRow>
+                  ))}
+                  <TableRow className="font-medium bg-gray-50 dark:bg-gray-900">
+                    <TableCell>All</TableCell>
+                    <StatCells stats={report.headcount.overall} />
+                    <StatCells stats={report.laborCost.overall} />
+                    <StatCells stats={report.purchaseOrders.overall} />
+                  </TableRow>
+                </TableBody>
+              </Table>
+              {report.uncostedSamples > 0 && (
+                <p className="mt-2 text-xs text-muted-foreground">
+                  {report.uncostedSamples} forecast craft-week{report.uncostedSamples === 1 ? '' : 's'} had no rate
+                  at the time and are left out of labor cost.
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  )
+}
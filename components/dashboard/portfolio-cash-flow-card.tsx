@@ -0,0 +1,105 @@
+'use client'
+
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { formatCurrency, cn } from '@/lib/utils'
+import type { CashFlowInterval, PortfolioCashFlow } from '@/lib/services/cash-flow'
+import { CashFlowChart, formatCashFlowPeriod } from '@/components/project/cash-flow-chart'
+
+/**
+ * Cash in versus out across active projects, with each project's peak exposure.
+ * Loaded on request since it forecasts every active project.
+ */
+export function PortfolioCashFlowCard() {
+  const [requested, setRequested] = useState(false)
+  const [interval, setCashFlowInterval] = useState<CashFlowInterval>('month')
+
+  const { data: cashFlow, isFetching, error } = useQuery({
+    queryKey: ['portfolio-cash-flow', interval],
+    queryFn: async () => {
+      const response = await fetch(`/api/cash-flow?interval=${interval}`)
+      if (!response.ok) throw new Error('Failed to fetch portfolio cash flow')
+      return response.json() as Promise<PortfolioCashFlow>
+    },
+    enabled: requested,
+    staleTime: 5 * 60 * 1000
+  })
+
+  // Projects with the deepest exposure first
+  const projects = [...(cashFlow?.projects || [])].sort((a, b) => b.peakExposure - a.peakExposure)
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle>Portfolio Cash Flow</CardTitle>
+          <CardDescription>Forecast cash in and out across active projects</CardDescription>
+        </div>
+        {requested ? (
+          <Tabs value={interval} onValueChange={(value) => setCashFlowInterval(value as CashFlowInterval)}>
+            <TabsList>
+              <TabsTrigger value="week">Weekly</TabsTrigger>
+              <TabsTrigger value="month">Monthly</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        ) : (
+          <Button variant="outline" size="sm" onClick={() => setRequested(true)}>
+            Forecast Cash Flow
+          </Button>
+        )}
+      </CardHeader>
+      {requested && (
+        <CardContent className="space-y-6">
+          {error ? (
+            <p className="text-sm text-red-600">{error.message}</p>
+          ) : isFetching || !cashFlow ? (
+            <div className="h-64 animate-pulse rounded bg-gray-100 dark:bg-gray-800" />
+          ) : (
+            <>
+              <CashFlowChart forecast={cashFlow} />
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Job #</TableHead>
+                    <TableHead>Project</TableHead>
+                    <TableHead className="text-right">Peak Exposure</TableHead>
+                    <TableHead>When</TableHead>
+                    <TableHead className="text-right">Ending Net Position</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {projects.map(project => (
+                    <TableRow key={project.projectId}>
+                      <TableCell>{project.jobNumber}</TableCell>
+                      <TableCell>
+                        <Link href={`/projects/${project.projectId}`} className="hover:underline">
+                          {project.name}
+                        </Link>
+                      </TableCell>
+                      <TableCell className={cn('text-right', project.peakExposure > 0 && 'text-amber-600')}>
+                        {formatCurrency(project.peakExposure)}
+                      </TableCell>
+                      <TableCell>
+                        {project.peakExposurePeriod
+                          ? formatCashFlowPeriod(project.peakExposurePeriod, cashFlow.interval)
+                          : '—'}
+                      </TableCell>
+                      <TableCell className={cn('text-right', project.endingCashPosition < 0 && 'text-red-600')}>
+                        {formatCurrency(project.endingCashPosition)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  )
+}
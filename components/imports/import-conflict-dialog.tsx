@@ -0,0 +1,136 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CircleAlert } from 'lucide-react'
+import type { ImportConflict, ImportConflictStrategy } from '@/lib/services/import-fingerprint'
+
+/**
+ * Thrown by import mutations when the API responds 409 with a conflict
+ */
+export class ImportConflictError extends Error {
+  constructor(public readonly conflict: ImportConflict) {
+    super(conflict.message)
+    this.name = 'ImportConflictError'
+  }
+}
+
+const STRATEGY_DESCRIPTIONS: Record<ImportConflictStrategy, { label: string; description: string }> = {
+  merge: {
+    label: 'Merge',
+    description: 'Update records that were already imported and keep existing records missing from this file'
+  },
+  replace: {
+    label: 'Replace',
+    description: 'This file replaces the previously imported data'
+  },
+  skip: {
+    label: 'Skip',
+    description: 'Keep previously imported records unchanged and only add new ones'
+  }
+}
+
+interface ImportConflictDialogProps {
+  open: boolean
+  conflict: ImportConflict | null
+  fileName?: string
+  onResolve: (strategy: ImportConflictStrategy) => void
+  onCancel: () => void
+}
+
+export function ImportConflictDialog({
+  open,
+  conflict,
+  fileName,
+  onResolve,
+  onCancel
+}: ImportConflictDialogProps) {
+  const [strategy, setStrategy] = useState<ImportConflictStrategy>('merge')
+
+  if (!conflict) return null
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>
+            {conflict.type === 'duplicate' ? 'Duplicate Import' : 'Data Already Imported'}
+          </DialogTitle>
+          <DialogDescription>
+            {fileName ? `${fileName}: ` : ''}{conflict.message}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-3 gap-2 text-center text-sm">
+            <div className="rounded-md border p-2">
+              <p className="text-lg font-semibold">{conflict.overlappingRecords}</p>
+              <p className="text-muted-foreground">Already imported</p>
+            </div>
+            <div className="rounded-md border p-2">
+              <p className="text-lg font-semibold">{conflict.newRecords}</p>
+              <p className="text-muted-foreground">New</p>
+            </div>
+            <div className="rounded-md border p-2">
+              <p className="text-lg font-semibold">{conflict.untouchedRecords}</p>
+              <p className="text-muted-foreground">Not in file</p>
+            </div>
+          </div>
+
+          {conflict.sampleKeys.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Overlapping: {conflict.sampleKeys.join(', ')}
+              {conflict.overlappingRecords > conflict.sampleKeys.length && ' …'}
+            </p>
+          )}
+
+          <RadioGroup
+            value={strategy}
+            onValueChange={(value) => setStrategy(value as ImportConflictStrategy)}
+          >
+            {conflict.options.map(option => (
+              <div key={option} className="flex items-start space-x-2">
+                <RadioGroupItem value={option} id={`conflict-${option}`} className="mt-1" />
+                <Label htmlFor={`conflict-${option}`} className="font-normal">
+                  <span className="font-medium">{STRATEGY_DESCRIPTIONS[option].label}</span>
+                  <span className="block text-sm text-muted-foreground">
+                    {STRATEGY_DESCRIPTIONS[option].description}
+                  </span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          {strategy === 'replace' && conflict.untouchedRecords > 0 && (
+            <Alert variant="destructive">
+              <CircleAlert className="h-4 w-4" />
+              <AlertDescription>
+                {conflict.untouchedRecords} previously imported record(s) not in this file will be removed.
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel Import
+          </Button>
+          <Button onClick={() => onResolve(strategy)}>
+            Continue
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
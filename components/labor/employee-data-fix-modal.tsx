@@ -17,6 +17,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { CircleAlert, CircleCheck, Loader2 } from 'lucide-react'
 import { formatCurrency } from '@/lib/utils'
+import { DEFAULT_BURDEN_RATE } from '@/lib/services/burden-rates'
+import { EmployeeRateTimeline } from '@/components/labor/employee-rate-timeline'
 
 interface UpdatedEmployee {
   id: string
@@ -46,6 +48,7 @@ interface EmployeeDataFixModalProps {
   }
   onSuccess?: (updatedEmployee: UpdatedEmployee) => void
   reason?: string
+  burdenRate?: number
 }
 
 export function EmployeeDataFixModal({
@@ -53,7 +56,8 @@ export function EmployeeDataFixModal({
   onOpenChange,
   employee,
   onSuccess,
-  reason = 'Labor import data fix'
+  reason = 'Labor import data fix',
+  burdenRate = DEFAULT_BURDEN_RATE
 }: EmployeeDataFixModalProps) {
   const [baseRate, setBaseRate] = useState<string>(employee.base_rate?.toString() || '0')
   const [craftTypeId, setCraftTypeId] = useState<string>(employee.craft_type_id || '')
@@ -184,7 +188,8 @@ export function EmployeeDataFixModal({
     }
   }
 
-  const calculatedBurdenRate = parseFloat(baseRate || '0') * 1.28
+  const calculatedBurdenRate = parseFloat(baseRate || '0') * (1 + burdenRate)
+  const existingEmployeeId = employeeData?.employee?.id || employee.id
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -239,7 +244,7 @@ export function EmployeeDataFixModal({
                 </div>
                 {baseRate && parseFloat(baseRate) > 0 && (
                   <p className="text-sm text-muted-foreground">
-                    With 28% burden: {formatCurrency(calculatedBurdenRate)}/hour
+                    With {Math.round(burdenRate * 100)}% burden: {formatCurrency(calculatedBurdenRate)}/hour
                   </p>
                 )}
               </div>
@@ -277,6 +282,9 @@ export function EmployeeDataFixModal({
                 )}
               </div>
 
+              {/* Rate history */}
+              {existingEmployeeId && <EmployeeRateTimeline employeeId={existingEmployeeId} />}
+
               {/* Error Alert */}
               {validationError && (
                 <Alert variant="destructive">
@@ -289,8 +297,9 @@ export function EmployeeDataFixModal({
               <Alert>
                 <CircleAlert className="h-4 w-4" />
                 <AlertDescription>
-                  This information will be saved to the employee record and used for all future 
-                  labor imports. The change will be logged in the audit trail.
+                  This information will be saved to the employee record. The base rate applies from
+                  today; add a dated rate above to cost earlier weeks. The change will be logged in
+                  the audit trail.
                 </AlertDescription>
               </Alert>
             </div>
@@ -0,0 +1,147 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { TrendingUp, TrendingDown, Plus } from 'lucide-react'
+import { formatCurrency, cn } from '@/lib/utils'
+import type { EmployeeRate, EmployeeRateSource } from '@/lib/services/employee-rates'
+
+const SOURCE_LABELS: Record<EmployeeRateSource, string> = {
+  initial: 'Initial rate',
+  manual: 'Manual change',
+  batch_update: 'Batch rate update',
+  labor_import: 'Entered during labor import',
+  employee_update: 'Employee record update'
+}
+
+interface EmployeeRateTimelineProps {
+  employeeId: string
+  className?: string
+}
+
+/**
+ * An employee's base rates over time, with a form to add a dated rate
+ */
+export function EmployeeRateTimeline({ employeeId, className }: EmployeeRateTimelineProps) {
+  const queryClient = useQueryClient()
+  const [rate, setRate] = useState('')
+  const [effectiveDate, setEffectiveDate] = useState(format(new Date(), 'yyyy-MM-dd'))
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['employee-rates', employeeId],
+    queryFn: async () => {
+      const response = await fetch(`/api/employees/${employeeId}/rates`)
+      if (!response.ok) throw new Error('Failed to fetch rate history')
+      return response.json() as Promise<{ rates: EmployeeRate[]; current: number | null }>
+    }
+  })
+
+  const addRate = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/employees/${employeeId}/rates`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ base_rate: parseFloat(rate), effective_date: effectiveDate })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to add rate')
+      return result
+    },
+    onSuccess: () => {
+      setRate('')
+      queryClient.invalidateQueries({ queryKey: ['employee-rates', employeeId] })
+      queryClient.invalidateQueries({ queryKey: ['employee', employeeId] })
+    }
+  })
+
+  const rates = data?.rates || []
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="flex items-baseline justify-between">
+        <Label>Rate History</Label>
+        {data?.current != null && (
+          <span className="text-sm text-muted-foreground">
+            Current: {formatCurrency(data.current)}/hour
+          </span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="h-16 animate-pulse rounded bg-gray-100 dark:bg-gray-800" />
+      ) : rates.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No rates recorded yet</p>
+      ) : (
+        <ol className="max-h-40 overflow-y-auto border-l pl-4 space-y-2">
+          {rates.map((entry, index) => {
+            // History is newest first, so the next entry is the rate this one replaced
+            const previous = rates[index + 1]
+            const change = previous ? Number(entry.base_rate) - Number(previous.base_rate) : 0
+            return (
+              <li key={entry.id} className="relative text-sm">
+                <span className="absolute -left-[21px] top-1.5 h-2 w-2 rounded-full bg-blue-500" />
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">{formatCurrency(Number(entry.base_rate))}/hour</span>
+                  {change !== 0 && (
+                    <span className={cn(
+                      'inline-flex items-center gap-1 text-xs',
+                      change > 0 ? 'text-amber-600' : 'text-green-600'
+                    )}>
+                      {change > 0 ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
+                      {change > 0 ? '+' : ''}{formatCurrency(change)}
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {entry.source === 'initial'
+                    ? 'Before rate history'
+                    : `From week ending ${new Date(entry.effective_date + 'T00:00:00').toLocaleDateString()}`}
+                  {' · '}{SOURCE_LABELS[entry.source] || entry.source}
+                </p>
+              </li>
+            )
+          })}
+        </ol>
+      )}
+
+      {/* Add a dated rate */}
+      <div className="grid grid-cols-[1fr_1fr_auto] items-end gap-2">
+        <div className="space-y-1">
+          <Label htmlFor={`rate-${employeeId}`} className="text-xs">New Rate ($/hour)</Label>
+          <Input
+            id={`rate-${employeeId}`}
+            type="number"
+            min="0"
+            step="0.01"
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`rate-date-${employeeId}`} className="text-xs">Effective Week Ending</Label>
+          <Input
+            id={`rate-date-${employeeId}`}
+            type="date"
+            value={effectiveDate}
+            onChange={(e) => setEffectiveDate(e.target.value)}
+          />
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => addRate.mutate()}
+          disabled={addRate.isPending || !(parseFloat(rate) > 0) || !effectiveDate}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add
+        </Button>
+      </div>
+      {addRate.error && (
+        <p className="text-xs text-red-600">{addRate.error.message}</p>
+      )}
+    </div>
+  )
+}
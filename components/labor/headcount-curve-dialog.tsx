@@ -0,0 +1,217 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation } from '@tanstack/react-query'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  HEADCOUNT_CURVE_LABELS,
+  type GeneratedHeadcountCurve,
+  type HeadcountCategory,
+  type HeadcountCurve
+} from '@/lib/services/headcount-curve'
+
+interface HeadcountCurveDialogProps {
+  projectId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onGenerated: (result: GeneratedHeadcountCurve & { written: number }) => void
+}
+
+const CURVE_DESCRIPTIONS: Record<HeadcountCurve, string> = {
+  flat: 'Same headcount every week',
+  front_loaded: 'Peak now, tapering to the end date',
+  back_loaded: 'Ramp up toward the end date',
+  s_curve: 'Ramp up, peak mid-schedule, ramp down',
+  custom: 'Relative weights stretched over the schedule'
+}
+
+const CATEGORY_LABELS: Record<HeadcountCategory, string> = {
+  direct: 'Direct',
+  indirect: 'Indirect',
+  staff: 'Staff'
+}
+
+const formatHours = (hours: number) => Math.round(hours).toLocaleString()
+
+/**
+ * Generates a draft headcount forecast from the budget's remaining manhours along a
+ * chosen curve. Preview first; writing replaces the previous draft and keeps weeks entered by hand.
+ */
+export function HeadcountCurveDialog({ projectId, open, onOpenChange, onGenerated }: HeadcountCurveDialogProps) {
+  const [curve, setCurve] = useState<HeadcountCurve>('s_curve')
+  const [customProfile, setCustomProfile] = useState('1, 3, 5, 5, 3, 1')
+  const [endDate, setEndDate] = useState('')
+  const [hoursPerPerson, setHoursPerPerson] = useState('50')
+
+  const generate = useMutation({
+    mutationFn: async (preview: boolean) => {
+      const response = await fetch('/api/labor-forecasts/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          project_id: projectId,
+          curve,
+          custom_profile: curve === 'custom'
+            ? customProfile.split(/[\s,]+/).filter(Boolean).map(Number)
+            : undefined,
+          end_date: endDate || undefined,
+          hours_per_person: Number(hoursPerPerson) || 50,
+          preview
+        })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to generate forecast')
+      }
+      return { preview, result: result as GeneratedHeadcountCurve & { written: number } }
+    },
+    onSuccess: ({ preview, result }) => {
+      if (!preview) {
+        onGenerated(result)
+        onOpenChange(false)
+      }
+    }
+  })
+
+  const preview = generate.data?.preview ? generate.data.result : null
+  const peakHeadcount = preview
+    ? Math.max(0, ...preview.weeks.map(week => week.entries.reduce((sum, entry) => sum + entry.headcount, 0)))
+    : 0
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Generate Headcount from Budget</DialogTitle>
+          <DialogDescription>
+            Spreads the budget&apos;s remaining direct, indirect and staff manhours over the remaining
+            schedule. The result is a draft you can adjust week by week.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-1">
+            <Label htmlFor="curve-shape">Curve</Label>
+            <Select value={curve} onValueChange={(value) => { setCurve(value as HeadcountCurve); generate.reset() }}>
+              <SelectTrigger id="curve-shape">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(HEADCOUNT_CURVE_LABELS) as HeadcountCurve[]).map(value => (
+                  <SelectItem key={value} value={value}>
+                    {HEADCOUNT_CURVE_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {CURVE_DESCRIPTIONS[curve]}
+            </p>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="curve-end-date">End Date</Label>
+            <Input
+              id="curve-end-date"
+              type="date"
+              value={endDate}
+              onChange={(e) => { setEndDate(e.target.value); generate.reset() }}
+            />
+            <p className="text-xs text-muted-foreground">Defaults to the project end date</p>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="curve-hours">Hours per Person</Label>
+            <Input
+              id="curve-hours"
+              type="number"
+              min={1}
+              max={100}
+              value={hoursPerPerson}
+              onChange={(e) => { setHoursPerPerson(e.target.value); generate.reset() }}
+            />
+          </div>
+          {curve === 'custom' && (
+            <div className="space-y-1 md:col-span-3">
+              <Label htmlFor="curve-profile">Profile</Label>
+              <Input
+                id="curve-profile"
+                value={customProfile}
+                onChange={(e) => { setCustomProfile(e.target.value); generate.reset() }}
+                placeholder="e.g. 1, 3, 5, 5, 3, 1"
+              />
+              <p className="text-xs text-muted-foreground">
+                Relative weekly effort from start to finish, stretched over the schedule
+              </p>
+            </div>
+          )}
+        </div>
+
+        {generate.error && (
+          <p className="text-sm text-red-600">{generate.error.message}</p>
+        )}
+
+        {preview && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              {(Object.keys(CATEGORY_LABELS) as HeadcountCategory[]).map(category => (
+                <div key={category}>
+                  <p className="text-muted-foreground">{CATEGORY_LABELS[category]} remaining</p>
+                  <p className="font-medium">
+                    {formatHours(preview.remainingHours[category])} of {formatHours(preview.budgetedHours[category])} hrs
+                  </p>
+                </div>
+              ))}
+            </div>
+            <div className="flex h-24 items-end gap-px rounded border p-2" aria-label="Weekly headcount preview">
+              {preview.weeks.map(week => {
+                const headcount = week.entries.reduce((sum, entry) => sum + entry.headcount, 0)
+                return (
+                  <div
+                    key={week.weekEnding}
+                    className="flex-1 bg-blue-500"
+                    style={{ height: `${peakHeadcount > 0 ? (headcount / peakHeadcount) * 100 : 0}%` }}
+                    title={`${week.weekEnding}: ${headcount.toFixed(1)} people`}
+                  />
+                )
+              })}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {preview.weeks.length} weeks from {preview.weeks[0]?.weekEnding} to{' '}
+              {preview.weeks[preview.weeks.length - 1]?.weekEnding}, peak {peakHeadcount.toFixed(1)} people.
+              Writing replaces the previous draft for these weeks; weeks entered by hand are kept.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => generate.mutate(true)}
+            disabled={generate.isPending}
+          >
+            Preview
+          </Button>
+          <Button
+            onClick={() => generate.mutate(false)}
+            disabled={generate.isPending || !preview}
+          >
+            {generate.isPending && generate.variables === false ? 'Writing...' : 'Write Draft Forecast'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
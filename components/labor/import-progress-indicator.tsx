@@ -1,7 +1,19 @@
 'use client'
 
+import { useEffect, useRef } from 'react'
+import { useQuery } from '@tanstack/react-query'
 import { cn } from '@/lib/utils'
-import { Check, AlertCircle } from 'lucide-react'
+import { Check, AlertCircle, LoaderCircle } from 'lucide-react'
+import { isImportJobFinished, type ImportJobSummary } from '@/lib/services/import-jobs'
+
+const JOB_POLL_INTERVAL_MS = 1500
+
+const PHASE_LABELS: Record<string, string> = {
+  validating: 'Validating rows',
+  writing: 'Saving changes',
+  extracting: 'Reading workbook',
+  saving: 'Saving budget'
+}
 
 interface ImportProgressIndicatorProps {
   totalEmployees: number
@@ -10,6 +22,17 @@ interface ImportProgressIndicatorProps {
   className?: string
 }
 
+function ProgressBar({ percentage }: { percentage: number }) {
+  return (
+    <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+      <div
+        className="h-full bg-blue-500 transition-all duration-300 ease-out"
+        style={{ width: `${percentage}%` }}
+      />
+    </div>
+  )
+}
+
 export function ImportProgressIndicator({
   totalEmployees,
   processedEmployees,
@@ -17,7 +40,7 @@ export function ImportProgressIndicator({
   className
 }: ImportProgressIndicatorProps) {
   const successCount = processedEmployees - errors
-  const progressPercentage = totalEmployees > 0 
+  const progressPercentage = totalEmployees > 0
     ? Math.round((successCount / totalEmployees) * 100)
     : 0
 
@@ -31,12 +54,7 @@ export function ImportProgressIndicator({
             {successCount} of {totalEmployees} employees ready
           </span>
         </div>
-        <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
-          <div 
-            className="h-full bg-blue-500 transition-all duration-300 ease-out"
-            style={{ width: `${progressPercentage}%` }}
-          />
-        </div>
+        <ProgressBar percentage={progressPercentage} />
       </div>
 
       {/* Status Items */}
@@ -49,7 +67,7 @@ export function ImportProgressIndicator({
             </span>
           </div>
         )}
-        
+
         {errors > 0 && (
           <div className="flex items-center gap-2 text-sm">
             <AlertCircle className="h-4 w-4 text-amber-600 flex-shrink-0" />
@@ -61,4 +79,128 @@ export function ImportProgressIndicator({
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+
+interface ImportJobProgressIndicatorProps {
+  jobId: string
+  onFinished?: (job: ImportJobSummary) => void
+  className?: string
+}
+
+/**
+ * Live progress of a background import, polled until the job finishes
+ */
+export function ImportJobProgressIndicator({
+  jobId,
+  onFinished,
+  className
+}: ImportJobProgressIndicatorProps) {
+  const { data: job, error } = useQuery({
+    queryKey: ['import-job', jobId],
+    queryFn: async () => {
+      const response = await fetch(`/api/import-jobs/${jobId}`)
+      if (!response.ok) throw new Error('Failed to load import progress')
+      const data = await response.json()
+      return data.job as ImportJobSummary
+    },
+    refetchInterval: (query) =>
+      query.state.data && isImportJobFinished(query.state.data.status) ? false : JOB_POLL_INTERVAL_MS
+  })
+
+  // Notify once per job
+  const notifiedJobId = useRef<string | null>(null)
+  useEffect(() => {
+    if (job && isImportJobFinished(job.status) && notifiedJobId.current !== job.id) {
+      notifiedJobId.current = job.id
+      onFinished?.(job)
+    }
+  }, [job, onFinished])
+
+  if (error) {
+    return (
+      <div className={cn('flex items-center gap-2 text-sm text-red-700', className)}>
+        <AlertCircle className="h-4 w-4 flex-shrink-0" />
+        <span>{error.message}</span>
+      </div>
+    )
+  }
+
+  if (!job) {
+    return (
+      <div className={cn('flex items-center gap-2 text-sm text-foreground/70', className)}>
+        <LoaderCircle className="h-4 w-4 animate-spin flex-shrink-0" />
+        <span>Loading import progress...</span>
+      </div>
+    )
+  }
+
+  const progressPercentage = job.status === 'completed'
+    ? 100
+    : job.total_rows > 0 ? Math.round((job.processed_rows / job.total_rows) * 100) : 0
+
+  const statusLabel = job.status === 'queued'
+    ? 'Waiting for the import worker'
+    : job.status === 'running'
+      ? PHASE_LABELS[job.phase || ''] || 'Processing'
+      : job.status === 'completed' ? 'Import completed' : 'Import failed'
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* Progress Bar */}
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <span className="flex items-center gap-2 text-foreground/70">
+            {!isImportJobFinished(job.status) && <LoaderCircle className="h-3 w-3 animate-spin" />}
+            {statusLabel}
+          </span>
+          {job.total_rows > 0 && (
+            <span className="font-medium">
+              {job.processed_rows.toLocaleString()} of {job.total_rows.toLocaleString()} rows
+            </span>
+          )}
+        </div>
+        <ProgressBar percentage={progressPercentage} />
+      </div>
+
+      {/* Status Items */}
+      <div className="space-y-2">
+        {job.status === 'completed' && (
+          <div className="flex items-center gap-2 text-sm">
+            <Check className="h-4 w-4 text-green-600 flex-shrink-0" />
+            <span className="text-foreground">{job.file_name} imported</span>
+          </div>
+        )}
+
+        {job.status === 'failed' && (
+          <div className="flex items-center gap-2 text-sm">
+            <AlertCircle className="h-4 w-4 text-red-600 flex-shrink-0" />
+            <span className="text-foreground">{job.error_message || 'Import failed'}</span>
+          </div>
+        )}
+
+        {job.error_count > 0 && (
+          <div className="space-y-1">
+            <div className="flex items-center gap-2 text-sm">
+              <AlertCircle className="h-4 w-4 text-amber-600 flex-shrink-0" />
+              <span className="text-foreground">
+                {job.error_count} row{job.error_count !== 1 ? 's have' : ' has'} errors
+              </span>
+            </div>
+            <div className="ml-6 bg-amber-50 rounded-md p-2 max-h-32 overflow-y-auto">
+              {job.errors.slice(0, 5).map((rowError, i) => (
+                <div key={i} className="text-xs text-amber-900">
+                  {rowError.row > 0 ? `Row ${rowError.row}: ` : ''}{rowError.message}
+                </div>
+              ))}
+              {job.error_count > 5 && (
+                <p className="text-xs mt-1 font-medium text-amber-900">
+                  ... and {job.error_count - 5} more
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
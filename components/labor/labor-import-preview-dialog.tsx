@@ -0,0 +1,363 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import { CircleAlert, TrendingUp, TrendingDown } from 'lucide-react'
+import { formatCurrency, cn } from '@/lib/utils'
+import type { ImportConflictStrategy } from '@/lib/services/import-fingerprint'
+import type { LaborImportPreview } from '@/lib/services/labor-import-preview'
+import type { EmployeeResolution } from '@/lib/services/employee-reconciliation'
+
+const STRATEGY_LABELS: Record<ImportConflictStrategy, string> = {
+  merge: 'Merge - update matching employees, keep the rest of the week',
+  replace: 'Replace - this file replaces the week',
+  skip: 'Skip - keep existing employees, only add new ones'
+}
+
+// Match selection for an unknown employee that should be created
+const CREATE_NEW = 'new'
+
+interface LaborImportPreviewDialogProps {
+  open: boolean
+  preview: LaborImportPreview | null
+  fileName?: string
+  onConfirm: (strategy: ImportConflictStrategy | null, resolution: EmployeeResolution) => void
+  onCancel: () => void
+}
+
+export function LaborImportPreviewDialog({
+  open,
+  preview,
+  fileName,
+  onConfirm,
+  onCancel
+}: LaborImportPreviewDialogProps) {
+  const [strategy, setStrategy] = useState<ImportConflictStrategy>('merge')
+  // Unknown employee number -> existing employee id, or CREATE_NEW
+  const [matches, setMatches] = useState<Record<string, string>>({})
+  // Employee number -> base rate as typed
+  const [rates, setRates] = useState<Record<string, string>>({})
+  const [applyChanges, setApplyChanges] = useState<string[]>([])
+
+  // Reset the choices for each file
+  useEffect(() => {
+    setStrategy('merge')
+    setMatches({})
+    setRates({})
+    setApplyChanges([])
+  }, [preview])
+
+  if (!preview) return null
+
+  const { conflict, weekOverWeek, perDiem, reconciliation } = preview
+  const changedEmployees = preview.changes.filter(change => change.status !== 'unchanged')
+
+  // Employees that need a rate: new ones, matches without a rate, and known zero-rate employees
+  const unknownNumbers = new Set(reconciliation.unknownEmployees.map(employee => employee.employee_number))
+  const rateEmployees = new Map<string, string>()
+  for (const employee of reconciliation.unknownEmployees) {
+    const matchId = matches[employee.employee_number] || CREATE_NEW
+    const candidate = employee.candidates.find(c => c.id === matchId)
+    if (!candidate) {
+      rateEmployees.set(employee.employee_number, employee.name)
+    } else if (candidate.base_rate === 0) {
+      rateEmployees.set(candidate.employee_number, candidate.name)
+    }
+  }
+  for (const employee of preview.zeroRateEmployees) {
+    if (!unknownNumbers.has(employee.employee_number)) {
+      rateEmployees.set(employee.employee_number, employee.name)
+    }
+  }
+
+  const handleConfirm = () => {
+    const resolution: EmployeeResolution = { matches: {}, rates: {}, applyChanges }
+    for (const [employeeNumber, matchId] of Object.entries(matches)) {
+      if (matchId !== CREATE_NEW) resolution.matches[employeeNumber] = matchId
+    }
+    for (const employeeNumber of rateEmployees.keys()) {
+      const rate = parseFloat(rates[employeeNumber] || '')
+      if (rate > 0) resolution.rates[employeeNumber] = rate
+    }
+    onConfirm(conflict ? strategy : null, resolution)
+  }
+
+  const Delta = ({ value, format }: { value: number; format: (value: number) => string }) => (
+    <span className={cn(
+      'inline-flex items-center gap-1',
+      value > 0 ? 'text-amber-600' : value < 0 ? 'text-green-600' : 'text-foreground/60'
+    )}>
+      {value > 0 && <TrendingUp className="h-3 w-3" />}
+      {value < 0 && <TrendingDown className="h-3 w-3" />}
+      {value > 0 ? '+' : ''}{format(value)}
+    </span>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Confirm Labor Import</DialogTitle>
+          <DialogDescription>
+            {fileName ? `${fileName} - ` : ''}week ending {new Date(preview.weekEnding + 'T00:00:00').toLocaleDateString()}.
+            Nothing has been saved yet.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {/* Totals */}
+          <div className="grid grid-cols-3 gap-2 text-center text-sm">
+            <div className="rounded-md border p-2">
+              <p className="text-lg font-semibold">{preview.totals.employees}</p>
+              <p className="text-foreground/60">Employees</p>
+            </div>
+            <div className="rounded-md border p-2">
+              <p className="text-lg font-semibold">{preview.totals.hours.toFixed(1)}</p>
+              <p className="text-foreground/60">Hours</p>
+              {weekOverWeek.previousWeekEnding && (
+                <p className="text-xs"><Delta value={weekOverWeek.hoursDelta} format={v => v.toFixed(1)} /></p>
+              )}
+            </div>
+            <div className="rounded-md border p-2">
+              <p className="text-lg font-semibold">{formatCurrency(preview.totals.cost)}</p>
+              <p className="text-foreground/60">Cost with Burden</p>
+              {weekOverWeek.previousWeekEnding && (
+                <p className="text-xs"><Delta value={weekOverWeek.costDelta} format={formatCurrency} /></p>
+              )}
+            </div>
+          </div>
+          {weekOverWeek.previousWeekEnding && (
+            <p className="text-xs text-foreground/60">
+              Compared with week ending {new Date(weekOverWeek.previousWeekEnding + 'T00:00:00').toLocaleDateString()}:
+              {' '}{weekOverWeek.previousHours.toFixed(1)} hours, {formatCurrency(weekOverWeek.previousCost)}
+            </p>
+          )}
+
+          {/* Category totals */}
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Category</TableHead>
+                <TableHead className="text-right">Employees</TableHead>
+                <TableHead className="text-right">ST Hours</TableHead>
+                <TableHead className="text-right">OT Hours</TableHead>
+                <TableHead className="text-right">Wages</TableHead>
+                <TableHead className="text-right">Burden</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.categoryTotals.map(total => (
+                <TableRow key={total.category}>
+                  <TableCell className="capitalize">{total.category}</TableCell>
+                  <TableCell className="text-right">{total.employeeCount}</TableCell>
+                  <TableCell className="text-right">{total.stHours.toFixed(1)}</TableCell>
+                  <TableCell className="text-right">
+                    {total.otHours.toFixed(1)}
+                    {total.dtHours > 0 && <span className="text-xs text-foreground/60"> ({total.dtHours.toFixed(1)} DT)</span>}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(total.stWages + total.otWages)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(total.burdenAmount)}</TableCell>
+                  <TableCell className="text-right font-medium">{formatCurrency(total.totalCost)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {/* Per diem */}
+          {perDiem.enabled && (
+            <p className="text-sm">
+              Per diem: {perDiem.employeeCount} employee{perDiem.employeeCount !== 1 ? 's' : ''},
+              {' '}about {formatCurrency(perDiem.estimatedAmount)} will be added
+            </p>
+          )}
+
+          {/* Employees */}
+          {preview.employeesToCreate.length > 0 && (
+            <Alert>
+              <CircleAlert className="h-4 w-4" />
+              <AlertDescription>
+                {preview.employeesToCreate.length} new employee{preview.employeesToCreate.length !== 1 ? 's' : ''} will be created:
+                {' '}{preview.employeesToCreate.slice(0, 10).map(e => `${e.last_name}, ${e.first_name}`).join('; ')}
+                {preview.employeesToCreate.length > 10 && ' …'}
+              </AlertDescription>
+            </Alert>
+          )}
+          {preview.zeroRateEmployees.length > 0 && (
+            <Alert variant="destructive">
+              <CircleAlert className="h-4 w-4" />
+              <AlertDescription>
+                {preview.zeroRateEmployees.length} employee{preview.zeroRateEmployees.length !== 1 ? 's have' : ' has'} no
+                base rate and won&apos;t be costed until a rate is set
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Employee master reconciliation */}
+          {(reconciliation.unknownEmployees.length > 0 || rateEmployees.size > 0 ||
+            reconciliation.masterChanges.length > 0) && (
+            <div className="space-y-3 rounded-md border p-3">
+              <div>
+                <p className="text-sm font-medium">Employees to review</p>
+                <p className="text-xs text-foreground/60">
+                  Resolved employees are costed in this import. Totals above don&apos;t include them yet.
+                </p>
+              </div>
+
+              {reconciliation.unknownEmployees.map(employee => (
+                <div key={employee.employee_number} className="flex items-center justify-between gap-3 text-sm">
+                  <span>
+                    {employee.name}
+                    <span className="text-foreground/60"> #{employee.employee_number}</span>
+                  </span>
+                  <Select
+                    value={matches[employee.employee_number] || CREATE_NEW}
+                    onValueChange={(value) => setMatches(prev => ({ ...prev, [employee.employee_number]: value }))}
+                  >
+                    <SelectTrigger className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={CREATE_NEW}>Create new ({employee.category})</SelectItem>
+                      {employee.candidates.map(candidate => (
+                        <SelectItem key={candidate.id} value={candidate.id}>
+                          {candidate.name} #{candidate.employee_number} ({Math.round(candidate.score * 100)}%)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+
+              {rateEmployees.size > 0 && (
+                <div className="space-y-2">
+                  <p className="text-xs font-medium text-foreground/70">Base rates</p>
+                  {Array.from(rateEmployees).map(([employeeNumber, name]) => (
+                    <div key={employeeNumber} className="flex items-center justify-between gap-3 text-sm">
+                      <Label htmlFor={`rate-${employeeNumber}`} className="font-normal">
+                        {name} <span className="text-foreground/60">#{employeeNumber}</span>
+                      </Label>
+                      <Input
+                        id={`rate-${employeeNumber}`}
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder="$/hr"
+                        className="w-32"
+                        value={rates[employeeNumber] || ''}
+                        onChange={(e) => setRates(prev => ({ ...prev, [employeeNumber]: e.target.value }))}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {reconciliation.masterChanges.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-xs font-medium text-foreground/70">Category and craft changes</p>
+                  {reconciliation.masterChanges.map(change => (
+                    <div key={change.employee_number} className="flex items-center space-x-2 text-sm">
+                      <Checkbox
+                        id={`change-${change.employee_number}`}
+                        checked={applyChanges.includes(change.employee_number)}
+                        onCheckedChange={(checked) => setApplyChanges(prev =>
+                          checked
+                            ? [...prev, change.employee_number]
+                            : prev.filter(number => number !== change.employee_number)
+                        )}
+                      />
+                      <Label htmlFor={`change-${change.employee_number}`} className="font-normal">
+                        {change.name}: {change.field} {change.current} → {change.incoming}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Changes to the stored week */}
+          {changedEmployees.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Changes</p>
+              <div className="max-h-48 overflow-y-auto rounded-md border">
+                <Table>
+                  <TableBody>
+                    {changedEmployees.map(change => (
+                      <TableRow key={change.employee_number}>
+                        <TableCell>{change.name}</TableCell>
+                        <TableCell className="capitalize text-foreground/60">{change.status}</TableCell>
+                        <TableCell className="text-right">
+                          {change.previousHours.toFixed(1)} → {change.newHours.toFixed(1)} hrs
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Delta value={change.newCost - change.previousCost} format={formatCurrency} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+
+          {/* Already imported */}
+          {conflict && (
+            <div className="space-y-2 rounded-md border p-3">
+              <p className="text-sm font-medium">{conflict.message}</p>
+              <RadioGroup
+                value={strategy}
+                onValueChange={(value) => setStrategy(value as ImportConflictStrategy)}
+              >
+                {conflict.options.map(option => (
+                  <div key={option} className="flex items-center space-x-2">
+                    <RadioGroupItem value={option} id={`preview-${option}`} />
+                    <Label htmlFor={`preview-${option}`} className="font-normal">
+                      {STRATEGY_LABELS[option]}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+              {strategy === 'replace' && conflict.untouchedRecords > 0 && (
+                <p className="text-xs text-red-600">
+                  {conflict.untouchedRecords} existing record(s) not in this file will be removed
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel Import
+          </Button>
+          <Button onClick={handleConfirm}>
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
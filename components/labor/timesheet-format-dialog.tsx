@@ -0,0 +1,271 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation } from '@tanstack/react-query'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CircleAlert, Loader2 } from 'lucide-react'
+import type { TimesheetColumnMapping, TimesheetFormat } from '@/lib/services/timesheet-adapters'
+
+interface TimesheetFormatDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSuccess?: (format: TimesheetFormat) => void
+}
+
+const MAPPING_FIELDS: Array<{ key: keyof TimesheetColumnMapping; label: string; placeholder: string }> = [
+  { key: 'employee_number', label: 'Employee Number *', placeholder: 'Emp ID' },
+  { key: 'name', label: 'Full Name', placeholder: 'Employee Name' },
+  { key: 'last_name', label: 'Last Name', placeholder: 'Last' },
+  { key: 'first_name', label: 'First Name', placeholder: 'First' },
+  { key: 'craft_code', label: 'Craft Code', placeholder: 'Craft' },
+  { key: 'rate', label: 'Hourly Rate', placeholder: 'Rate' },
+  { key: 'st_hours', label: 'ST Hours', placeholder: 'Reg Hrs' },
+  { key: 'ot_hours', label: 'OT Hours', placeholder: 'OT Hrs' },
+  { key: 'week_ending', label: 'Week Ending', placeholder: 'Week Ending' },
+  { key: 'job_number', label: 'Job Number', placeholder: 'Job' }
+]
+
+const DAY_FIELDS: Array<keyof TimesheetColumnMapping> = [
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'
+]
+
+export function TimesheetFormatDialog({
+  open,
+  onOpenChange,
+  onSuccess
+}: TimesheetFormatDialogProps) {
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [sheetName, setSheetName] = useState('')
+  const [headerRow, setHeaderRow] = useState('')
+  const [employeeIdPattern, setEmployeeIdPattern] = useState('')
+  const [mapping, setMapping] = useState<Partial<TimesheetColumnMapping>>({})
+  const [validationError, setValidationError] = useState('')
+
+  const resetForm = () => {
+    setName('')
+    setDescription('')
+    setSheetName('')
+    setHeaderRow('')
+    setEmployeeIdPattern('')
+    setMapping({})
+    setValidationError('')
+  }
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      // Only send columns the user actually mapped
+      const columnMapping = Object.fromEntries(
+        Object.entries(mapping)
+          .map(([key, value]) => [key, value?.trim()])
+          .filter(([, value]) => !!value)
+      )
+
+      const response = await fetch('/api/labor-import/formats', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          description: description || undefined,
+          sheet_name: sheetName || null,
+          header_row: headerRow ? parseInt(headerRow, 10) : null,
+          employee_id_pattern: employeeIdPattern || null,
+          column_mapping: columnMapping
+        })
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        const detail = error.details?.[0]?.message
+        throw new Error(detail || error.error || 'Failed to save timesheet format')
+      }
+
+      return response.json()
+    },
+    onSuccess: (data) => {
+      resetForm()
+      onOpenChange(false)
+      if (onSuccess) {
+        onSuccess(data.format)
+      }
+    },
+    onError: (error) => {
+      setValidationError(error.message)
+    }
+  })
+
+  const handleSubmit = () => {
+    if (!name.trim()) {
+      setValidationError('Please enter a format name')
+      return
+    }
+    if (!mapping.employee_number?.trim()) {
+      setValidationError('Please enter the employee number column header')
+      return
+    }
+    if (headerRow && (!/^\d+$/.test(headerRow) || parseInt(headerRow, 10) < 1)) {
+      setValidationError('Header row must be a positive number')
+      return
+    }
+
+    setValidationError('')
+    saveMutation.mutate()
+  }
+
+  const updateMapping = (key: keyof TimesheetColumnMapping, value: string) => {
+    setMapping(prev => ({ ...prev, [key]: value }))
+    setValidationError('')
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Add Timesheet Format</DialogTitle>
+          <DialogDescription>
+            Enter the column headers exactly as they appear in the payroll export.
+            Leave a field blank if the file doesn&apos;t have it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="format-name">
+                Format Name <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                id="format-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. ADP Weekly Export"
+                disabled={saveMutation.isPending}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="format-description">Description</Label>
+              <Input
+                id="format-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                disabled={saveMutation.isPending}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="format-sheet">Sheet Name</Label>
+              <Input
+                id="format-sheet"
+                value={sheetName}
+                onChange={(e) => setSheetName(e.target.value)}
+                placeholder="First sheet"
+                disabled={saveMutation.isPending}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="format-header-row">Header Row</Label>
+              <Input
+                id="format-header-row"
+                value={headerRow}
+                onChange={(e) => setHeaderRow(e.target.value)}
+                placeholder="Auto-detect"
+                disabled={saveMutation.isPending}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="format-pattern">Employee ID Pattern</Label>
+            <Input
+              id="format-pattern"
+              value={employeeIdPattern}
+              onChange={(e) => setEmployeeIdPattern(e.target.value)}
+              placeholder="e.g. ^\d{4,}$ (optional)"
+              disabled={saveMutation.isPending}
+            />
+          </div>
+
+          <div>
+            <p className="text-sm font-medium mb-2">Column Headers</p>
+            <div className="grid grid-cols-2 gap-4">
+              {MAPPING_FIELDS.map(field => (
+                <div key={field.key} className="space-y-1">
+                  <Label htmlFor={`mapping-${field.key}`} className="text-sm">
+                    {field.label}
+                  </Label>
+                  <Input
+                    id={`mapping-${field.key}`}
+                    value={mapping[field.key] || ''}
+                    onChange={(e) => updateMapping(field.key, e.target.value)}
+                    placeholder={field.placeholder}
+                    disabled={saveMutation.isPending}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium mb-1">Daily Hours Columns</p>
+            <p className="text-xs text-muted-foreground mb-2">
+              Map daily columns so project pay rules can calculate overtime. Without an ST Hours
+              column, all daily hours are imported as straight time before pay rules apply.
+            </p>
+            <div className="grid grid-cols-4 gap-2">
+              {DAY_FIELDS.map(day => (
+                <div key={day} className="space-y-1">
+                  <Label htmlFor={`mapping-${day}`} className="text-xs capitalize">
+                    {day}
+                  </Label>
+                  <Input
+                    id={`mapping-${day}`}
+                    value={mapping[day] || ''}
+                    onChange={(e) => updateMapping(day, e.target.value)}
+                    disabled={saveMutation.isPending}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {validationError && (
+            <Alert variant="destructive">
+              <CircleAlert className="h-4 w-4" />
+              <AlertDescription>{validationError}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={saveMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save Format'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -8,7 +8,11 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { formatCurrency } from '@/lib/utils'
-import { createClient } from '@/lib/supabase/client'
+import type {
+  MonthlyForecastField,
+  MonthlyForecastSheetRow,
+  RevenueRecognition
+} from '@/lib/services/revenue-recognition'
 import { LoaderCircle, Save, CircleAlert } from 'lucide-react'
 
 interface ProjectForecast {
@@ -22,17 +26,41 @@ interface ProjectForecast {
   plusTwoMonthRevenue: number
   remainingBacklog: number
   notes: string
-  lastUpdated?: string
-  updatedBy?: string
+  adjustmentReason: string
+  calculated: RevenueRecognition
+  lastUpdated?: string | null
 }
 
+type ForecastFigure = 'percentComplete' | 'currentMonthRevenue' | 'nextMonthRevenue' | 'plusTwoMonthRevenue' | 'remainingBacklog'
+
+// Sheet figures and the calculated values they start from
+const FIGURES: { key: ForecastFigure; field: MonthlyForecastField; calculated: keyof RevenueRecognition }[] = [
+  { key: 'percentComplete', field: 'percent_complete', calculated: 'percentComplete' },
+  { key: 'currentMonthRevenue', field: 'current_month_revenue', calculated: 'currentMonthRevenue' },
+  { key: 'nextMonthRevenue', field: 'next_month_revenue', calculated: 'nextMonthRevenue' },
+  { key: 'plusTwoMonthRevenue', field: 'plus_two_month_revenue', calculated: 'plusTwoMonthRevenue' },
+  { key: 'remainingBacklog', field: 'remaining_backlog', calculated: 'remainingBacklog' }
+]
+
+const calculatedValue = (forecast: ProjectForecast, key: ForecastFigure) =>
+  Number(forecast.calculated[FIGURES.find(figure => figure.key === key)!.calculated])
+
+const isAdjusted = (forecast: ProjectForecast, key: ForecastFigure) =>
+  Math.abs(forecast[key] - calculatedValue(forecast, key)) >= 0.01
+
+const hasAdjustments = (forecast: ProjectForecast) => FIGURES.some(figure => isAdjusted(forecast, figure.key))
+
+/**
+ * Monthly revenue forecast per active project, pre-filled from the percentage-of-completion
+ * calculation. Figures changed from the calculation are saved with a reason.
+ */
 export function MonthlyForecastSheet() {
   const [forecasts, setForecasts] = useState<ProjectForecast[]>([])
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [editedCells, setEditedCells] = useState<Set<string>>(new Set())
-  const [currentMonth] = useState(() => {
+  const [currentMonth, setCurrentMonth] = useState(() => {
     const now = new Date()
     return now.toISOString().slice(0, 7) // YYYY-MM format
   })
@@ -45,58 +73,34 @@ export function MonthlyForecastSheet() {
   const fetchForecastData = async () => {
     try {
       setLoading(true)
-      const supabase = createClient()
-
-      // Fetch active projects
-      const { data: projects, error: projectsError } = await supabase
-        .from('projects')
-        .select(`
-          id,
-          job_number,
-          name,
-          percent_complete,
-          revised_contract_amount,
-          actual_revenue_to_date
-        `)
-        .eq('status', 'active')
-        .order('job_number')
-
-      if (projectsError) throw projectsError
-
-      // Fetch existing forecasts for current month
-      const { data: existingForecasts, error: forecastsError } = await supabase
-        .from('monthly_forecasts')
-        .select('*')
-        .eq('reporting_month', currentMonth)
-
-      if (forecastsError && forecastsError.code !== 'PGRST116') throw forecastsError
+      setError(null)
 
-      // Merge project data with forecasts
-      const forecastMap = new Map(
-        existingForecasts?.map(f => [f.project_id, f]) || []
-      )
-
-      const forecastData: ProjectForecast[] = projects.map(project => {
-        const existing = forecastMap.get(project.id)
-        const remainingRevenue = (project.revised_contract_amount || 0) - (project.actual_revenue_to_date || 0)
+      const response = await fetch(`/api/monthly-forecasts?month=${currentMonth}`)
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to fetch forecast data')
 
+      // Saved figures where the month has been saved, otherwise the calculation
+      const forecastData: ProjectForecast[] = (result.forecasts as MonthlyForecastSheetRow[]).map(row => {
+        const { saved, calculated } = row
         return {
-          projectId: project.id,
-          jobNumber: project.job_number,
-          projectName: project.name,
+          projectId: row.projectId,
+          jobNumber: row.jobNumber,
+          projectName: row.name,
           reportingMonth: currentMonth,
-          percentComplete: existing?.percent_complete || project.percent_complete || 0,
-          currentMonthRevenue: existing?.current_month_revenue || 0,
-          nextMonthRevenue: existing?.next_month_revenue || 0,
-          plusTwoMonthRevenue: existing?.plus_two_month_revenue || 0,
-          remainingBacklog: existing?.remaining_backlog || remainingRevenue,
-          notes: existing?.notes || '',
-          lastUpdated: existing?.updated_at,
-          updatedBy: existing?.updated_by
+          percentComplete: saved ? Number(saved.percent_complete) : calculated.percentComplete,
+          currentMonthRevenue: saved ? Number(saved.current_month_revenue) : calculated.currentMonthRevenue,
+          nextMonthRevenue: saved ? Number(saved.next_month_revenue) : calculated.nextMonthRevenue,
+          plusTwoMonthRevenue: saved ? Number(saved.plus_two_month_revenue) : calculated.plusTwoMonthRevenue,
+          remainingBacklog: saved ? Number(saved.remaining_backlog) : calculated.remainingBacklog,
+          notes: saved?.notes || '',
+          adjustmentReason: saved?.adjustment_reason || '',
+          calculated,
+          lastUpdated: saved?.updated_at
         }
       })
 
       setForecasts(forecastData)
+      setEditedCells(new Set())
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch forecast data')
     } finally {
@@ -111,64 +115,33 @@ export function MonthlyForecastSheet() {
     setEditedCells(prev => new Set(prev).add(`${projectId}-${field}`))
   }
 
-  const saveForecast = async (forecast: ProjectForecast) => {
-    try {
-      const supabase = createClient()
-      const { data: { user } } = await supabase.auth.getUser()
-
-      const forecastData = {
-        project_id: forecast.projectId,
-        reporting_month: forecast.reportingMonth,
-        percent_complete: forecast.percentComplete,
-        current_month_revenue: forecast.currentMonthRevenue,
-        next_month_revenue: forecast.nextMonthRevenue,
-        plus_two_month_revenue: forecast.plusTwoMonthRevenue,
-        remaining_backlog: forecast.remainingBacklog,
-        notes: forecast.notes,
-        updated_by: user?.email || 'Unknown'
-      }
-
-      const { error } = await supabase
-        .from('monthly_forecasts')
-        .upsert(forecastData, {
-          onConflict: 'project_id,reporting_month'
-        })
-
-      if (error) throw error
-
-      // Clear edited cells for this project
-      const newEditedCells = new Set(editedCells)
-      Array.from(editedCells).forEach(cell => {
-        if (cell.startsWith(forecast.projectId)) {
-          newEditedCells.delete(cell)
-        }
-      })
-      setEditedCells(newEditedCells)
-
-      return true
-    } catch (err) {
-      console.error('Failed to save forecast:', err)
-      return false
-    }
-  }
+  const projectsToSave = forecasts.filter(f =>
+    Array.from(editedCells).some(cell => cell.startsWith(f.projectId))
+  )
+  const missingReasons = projectsToSave.filter(f => hasAdjustments(f) && !f.adjustmentReason.trim())
 
   const saveAllForecasts = async () => {
     setSaving(true)
     setError(null)
     
     try {
-      const projectsToSave = forecasts.filter(f => 
-        Array.from(editedCells).some(cell => cell.startsWith(f.projectId))
-      )
-
-      const results = await Promise.all(projectsToSave.map(saveForecast))
-      const successCount = results.filter(r => r).length
+      const response = await fetch('/api/monthly-forecasts', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          reporting_month: currentMonth,
+          forecasts: projectsToSave.map(forecast => ({
+            project_id: forecast.projectId,
+            ...Object.fromEntries(FIGURES.map(figure => [figure.field, forecast[figure.key]])),
+            notes: forecast.notes || null,
+            adjustment_reason: hasAdjustments(forecast) ? forecast.adjustmentReason : null
+          }))
+        })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to save forecasts')
 
-      if (successCount === projectsToSave.length) {
-        await fetchForecastData() // Refresh to get updated timestamps
-      } else {
-        setError(`Saved ${successCount} of ${projectsToSave.length} forecasts`)
-      }
+      await fetchForecastData() // Refresh to get updated timestamps
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save forecasts')
     } finally {
@@ -176,10 +149,34 @@ export function MonthlyForecastSheet() {
     }
   }
 
-  if (loading) {
+  const renderFigure = (forecast: ProjectForecast, key: ForecastFigure) => {
+    const adjusted = isAdjusted(forecast, key)
+    const calculated = calculatedValue(forecast, key)
     return (
-      <div className="flex items-center justify-center min-h-[400px]">
-        <LoaderCircle className="h-8 w-8 animate-spin" />
+      <div className="space-y-1">
+        <Input
+          type="number"
+          min="0"
+          max={key === 'percentComplete' ? '100' : undefined}
+          step={key === 'percentComplete' ? '0.01' : '1'}
+          value={forecast[key]}
+          onChange={(e) => handleCellChange(forecast.projectId, key, parseFloat(e.target.value) || 0)}
+          className={`${key === 'percentComplete' ? 'w-24 text-center' : 'w-32 text-right'} ${
+            adjusted
+              ? 'border-amber-500'
+              : editedCells.has(`${forecast.projectId}-${key}`) ? 'border-blue-500' : ''
+          }`}
+        />
+        {adjusted && (
+          <button
+            type="button"
+            className="text-xs text-amber-600 hover:underline"
+            onClick={() => handleCellChange(forecast.projectId, key, calculated)}
+            title="Reset to the calculated value"
+          >
+            Calc: {key === 'percentComplete' ? `${calculated}%` : formatCurrency(calculated)}
+          </button>
+        )}
       </div>
     )
   }
@@ -188,6 +185,8 @@ export function MonthlyForecastSheet() {
   const totalNextMonth = forecasts.reduce((sum, f) => sum + f.nextMonthRevenue, 0)
   const totalPlusTwoMonth = forecasts.reduce((sum, f) => sum + f.plusTwoMonthRevenue, 0)
   const totalBacklog = forecasts.reduce((sum, f) => sum + f.remainingBacklog, 0)
+  const totalEarned = forecasts.reduce((sum, f) => sum + f.calculated.earnedRevenueToDate, 0)
+  const totalOverUnder = forecasts.reduce((sum, f) => sum + f.calculated.overUnderBilling, 0)
 
   return (
     <div className="space-y-4">
@@ -196,25 +195,35 @@ export function MonthlyForecastSheet() {
           <div>
             <CardTitle>Monthly Revenue Forecast Entry</CardTitle>
             <CardDescription>
-              Enter forecasts for {new Date(currentMonth + '-01').toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+              Percentage-of-completion forecasts for {new Date(currentMonth + '-01T00:00:00').toLocaleDateString('en-US', { month: 'long', year: 'numeric' })},
+              calculated cost-to-cost from each project&apos;s EAC. Adjusted figures need a reason.
             </CardDescription>
           </div>
-          <Button 
-            onClick={saveAllForecasts} 
-            disabled={saving || editedCells.size === 0}
-          >
-            {saving ? (
-              <>
-                <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
-                Saving...
-              </>
-            ) : (
-              <>
-                <Save className="mr-2 h-4 w-4" />
-                Save Changes ({editedCells.size})
-              </>
-            )}
-          </Button>
+          <div className="flex items-center gap-2">
+            <Input
+              type="month"
+              value={currentMonth}
+              onChange={(e) => e.target.value && setCurrentMonth(e.target.value)}
+              className="w-40"
+              aria-label="Reporting month"
+            />
+            <Button 
+              onClick={saveAllForecasts} 
+              disabled={saving || projectsToSave.length === 0 || missingReasons.length > 0}
+            >
+              {saving ? (
+                <>
+                  <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="mr-2 h-4 w-4" />
+                  Save Changes ({projectsToSave.length})
+                </>
+              )}
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           {error && (
@@ -223,7 +232,20 @@ export function MonthlyForecastSheet() {
               <AlertDescription>{error}</AlertDescription>
             </Alert>
           )}
+          {missingReasons.length > 0 && (
+            <Alert className="mb-4">
+              <CircleAlert className="h-4 w-4" />
+              <AlertDescription>
+                Enter a reason for the adjusted figures on {missingReasons.map(f => f.jobNumber).join(', ')}
+              </AlertDescription>
+            </Alert>
+          )}
 
+          {loading ? (
+            <div className="flex items-center justify-center min-h-[400px]">
+              <LoaderCircle className="h-8 w-8 animate-spin" />
+            </div>
+          ) : (
           <div className="overflow-x-auto">
             <Table>
               <TableHeader>
@@ -231,10 +253,13 @@ export function MonthlyForecastSheet() {
                   <TableHead className="sticky left-0 bg-white">Job #</TableHead>
                   <TableHead>Project Name</TableHead>
                   <TableHead className="text-center">% Complete</TableHead>
+                  <TableHead className="text-right">Earned to Date</TableHead>
+                  <TableHead className="text-right">Over/(Under) Billed</TableHead>
                   <TableHead className="text-right">Current Month</TableHead>
                   <TableHead className="text-right">Next Month</TableHead>
                   <TableHead className="text-right">+2 Months</TableHead>
                   <TableHead className="text-right">Remaining Backlog</TableHead>
+                  <TableHead>Adjustment Reason</TableHead>
                   <TableHead>Notes</TableHead>
                   <TableHead>Last Updated</TableHead>
                 </TableRow>
@@ -246,79 +271,37 @@ export function MonthlyForecastSheet() {
                       {forecast.jobNumber}
                     </TableCell>
                     <TableCell>{forecast.projectName}</TableCell>
-                    <TableCell className="text-center">
-                      <Input
-                        type="number"
-                        min="0"
-                        max="100"
-                        value={forecast.percentComplete}
-                        onChange={(e) => handleCellChange(
-                          forecast.projectId, 
-                          'percentComplete', 
-                          parseInt(e.target.value) || 0
-                        )}
-                        className={`w-20 text-center ${
-                          editedCells.has(`${forecast.projectId}-percentComplete`) ? 'border-blue-500' : ''
-                        }`}
-                      />
-                    </TableCell>
+                    <TableCell className="text-center">{renderFigure(forecast, 'percentComplete')}</TableCell>
                     <TableCell className="text-right">
-                      <Input
-                        type="number"
-                        min="0"
-                        value={forecast.currentMonthRevenue}
-                        onChange={(e) => handleCellChange(
-                          forecast.projectId, 
-                          'currentMonthRevenue', 
-                          parseFloat(e.target.value) || 0
-                        )}
-                        className={`w-32 text-right ${
-                          editedCells.has(`${forecast.projectId}-currentMonthRevenue`) ? 'border-blue-500' : ''
-                        }`}
-                      />
+                      {formatCurrency(forecast.calculated.earnedRevenueToDate)}
+                      <div className="text-xs text-gray-500">
+                        of {formatCurrency(forecast.calculated.revisedContract)}
+                      </div>
                     </TableCell>
-                    <TableCell className="text-right">
-                      <Input
-                        type="number"
-                        min="0"
-                        value={forecast.nextMonthRevenue}
-                        onChange={(e) => handleCellChange(
-                          forecast.projectId, 
-                          'nextMonthRevenue', 
-                          parseFloat(e.target.value) || 0
-                        )}
-                        className={`w-32 text-right ${
-                          editedCells.has(`${forecast.projectId}-nextMonthRevenue`) ? 'border-blue-500' : ''
-                        }`}
-                      />
-                    </TableCell>
-                    <TableCell className="text-right">
-                      <Input
-                        type="number"
-                        min="0"
-                        value={forecast.plusTwoMonthRevenue}
-                        onChange={(e) => handleCellChange(
-                          forecast.projectId, 
-                          'plusTwoMonthRevenue', 
-                          parseFloat(e.target.value) || 0
-                        )}
-                        className={`w-32 text-right ${
-                          editedCells.has(`${forecast.projectId}-plusTwoMonthRevenue`) ? 'border-blue-500' : ''
-                        }`}
-                      />
+                    <TableCell
+                      className={`text-right ${forecast.calculated.overUnderBilling < 0 ? 'text-red-600' : ''}`}
+                    >
+                      {formatCurrency(forecast.calculated.overUnderBilling)}
+                      <div className="text-xs text-gray-500">
+                        billed {formatCurrency(forecast.calculated.billedToDate)}
+                      </div>
                     </TableCell>
-                    <TableCell className="text-right">
+                    <TableCell className="text-right">{renderFigure(forecast, 'currentMonthRevenue')}</TableCell>
+                    <TableCell className="text-right">{renderFigure(forecast, 'nextMonthRevenue')}</TableCell>
+                    <TableCell className="text-right">{renderFigure(forecast, 'plusTwoMonthRevenue')}</TableCell>
+                    <TableCell className="text-right">{renderFigure(forecast, 'remainingBacklog')}</TableCell>
+                    <TableCell>
                       <Input
-                        type="number"
-                        min="0"
-                        value={forecast.remainingBacklog}
+                        value={forecast.adjustmentReason}
                         onChange={(e) => handleCellChange(
                           forecast.projectId, 
-                          'remainingBacklog', 
-                          parseFloat(e.target.value) || 0
+                          'adjustmentReason', 
+                          e.target.value
                         )}
-                        className={`w-32 text-right ${
-                          editedCells.has(`${forecast.projectId}-remainingBacklog`) ? 'border-blue-500' : ''
+                        placeholder={hasAdjustments(forecast) ? 'Why adjusted?' : 'Not adjusted'}
+                        disabled={!hasAdjustments(forecast)}
+                        className={`w-48 ${
+                          hasAdjustments(forecast) && !forecast.adjustmentReason.trim() ? 'border-amber-500' : ''
                         }`}
                       />
                     </TableCell>
@@ -338,11 +321,7 @@ export function MonthlyForecastSheet() {
                     </TableCell>
                     <TableCell className="text-sm text-gray-500">
                       {forecast.lastUpdated ? (
-                        <div>
-                          {new Date(forecast.lastUpdated).toLocaleDateString()}
-                          <br />
-                          <span className="text-xs">{forecast.updatedBy}</span>
-                        </div>
+                        new Date(forecast.lastUpdated).toLocaleDateString()
                       ) : (
                         <Badge variant="secondary">Not saved</Badge>
                       )}
@@ -351,17 +330,20 @@ export function MonthlyForecastSheet() {
                 ))}
                 <TableRow className="font-medium bg-gray-50">
                   <TableCell colSpan={3} className="text-right">Totals:</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totalEarned)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totalOverUnder)}</TableCell>
                   <TableCell className="text-right">{formatCurrency(totalCurrentMonth)}</TableCell>
                   <TableCell className="text-right">{formatCurrency(totalNextMonth)}</TableCell>
                   <TableCell className="text-right">{formatCurrency(totalPlusTwoMonth)}</TableCell>
                   <TableCell className="text-right">{formatCurrency(totalBacklog)}</TableCell>
-                  <TableCell colSpan={2}></TableCell>
+                  <TableCell colSpan={3}></TableCell>
                 </TableRow>
               </TableBody>
             </Table>
           </div>
+          )}
         </CardContent>
       </Card>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,216 @@
+'use client'
+
+import { useState } from 'react'
+import { format, subMonths } from 'date-fns'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Lock, LockOpen } from 'lucide-react'
+import type { AccountingPeriod } from '@/lib/services/accounting-periods'
+
+interface AccountingPeriodsCardProps {
+  projectId: string
+}
+
+interface PeriodUser {
+  first_name: string | null
+  last_name: string | null
+}
+
+interface AccountingPeriodRow extends AccountingPeriod {
+  closed_by_user: PeriodUser | null
+  reopened_by_user: PeriodUser | null
+}
+
+const userName = (user: PeriodUser | null) =>
+  user ? [user.first_name, user.last_name].filter(Boolean).join(' ') : 'Unknown user'
+
+const formatPeriodMonth = (periodMonth: string) =>
+  format(new Date(periodMonth + 'T00:00:00'), 'MMMM yyyy')
+
+/**
+ * Monthly accounting periods for a project: close a month to freeze its numbers,
+ * or (controllers) reopen one with a reason
+ */
+export function AccountingPeriodsCard({ projectId }: AccountingPeriodsCardProps) {
+  const queryClient = useQueryClient()
+  // Months are usually closed once they have ended
+  const [periodMonth, setPeriodMonth] = useState(format(subMonths(new Date(), 1), 'yyyy-MM'))
+  const [reopening, setReopening] = useState<AccountingPeriodRow | null>(null)
+  const [reason, setReason] = useState('')
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['accounting-periods', projectId],
+    queryFn: async () => {
+      const response = await fetch(`/api/accounting-periods?project_id=${projectId}`)
+      if (!response.ok) throw new Error('Failed to fetch accounting periods')
+      return response.json() as Promise<{ periods: AccountingPeriodRow[] }>
+    }
+  })
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['accounting-periods', projectId] })
+    queryClient.invalidateQueries({ queryKey: ['financial-snapshots', projectId] })
+  }
+
+  const closePeriod = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/accounting-periods', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ project_id: projectId, period_month: periodMonth })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to close period')
+      return result
+    },
+    onSuccess: invalidate
+  })
+
+  const reopenPeriod = useMutation({
+    mutationFn: async (periodId: string) => {
+      const response = await fetch(`/api/accounting-periods/${periodId}/reopen`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to reopen period')
+      return result
+    },
+    onSuccess: () => {
+      setReopening(null)
+      setReason('')
+      invalidate()
+    }
+  })
+
+  const periods = data?.periods || []
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">Accounting Periods</h3>
+          <p className="text-sm text-muted-foreground">
+            Closed months reject labor imports, PO imports and PO edits dated inside them
+          </p>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="close-period-month" className="text-xs">Month</Label>
+            <Input
+              id="close-period-month"
+              type="month"
+              value={periodMonth}
+              max={format(new Date(), 'yyyy-MM')}
+              onChange={(e) => setPeriodMonth(e.target.value)}
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => closePeriod.mutate()}
+            disabled={closePeriod.isPending || !periodMonth}
+          >
+            <Lock className="h-4 w-4 mr-2" />
+            {closePeriod.isPending ? 'Closing...' : 'Close Month'}
+          </Button>
+        </div>
+      </div>
+      {closePeriod.error && (
+        <p className="mb-4 text-sm text-red-600">{closePeriod.error.message}</p>
+      )}
+
+      {isLoading ? (
+        <div className="h-16 animate-pulse rounded bg-gray-100 dark:bg-gray-800" />
+      ) : periods.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No periods have been closed</p>
+      ) : (
+        <ul className="divide-y">
+          {periods.map(period => (
+            <li key={period.id} className="flex items-center justify-between gap-4 py-3">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{formatPeriodMonth(period.period_month)}</span>
+                  {period.status === 'closed' ? (
+                    <Badge variant="secondary">
+                      <Lock className="h-3 w-3 mr-1" />
+                      Closed
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline">Reopened</Badge>
+                  )}
+                  {!period.project_id && <Badge variant="outline">Company-wide</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {period.status === 'closed' && period.closed_at
+                    ? `Closed ${new Date(period.closed_at).toLocaleDateString()} by ${userName(period.closed_by_user)}`
+                    : period.reopened_at
+                      ? `Reopened ${new Date(period.reopened_at).toLocaleDateString()} by ${userName(period.reopened_by_user)}: ${period.reopen_reason}`
+                      : null}
+                </p>
+              </div>
+              {period.status === 'closed' && (
+                <Button variant="ghost" size="sm" onClick={() => setReopening(period)}>
+                  <LockOpen className="h-4 w-4 mr-1" />
+                  Reopen
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={!!reopening} onOpenChange={(open) => !open && setReopening(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Reopen {reopening ? formatPeriodMonth(reopening.period_month) : ''}
+            </DialogTitle>
+            <DialogDescription>
+              {reopening && !reopening.project_id
+                ? 'This reopens the month for every project. '
+                : ''}
+              Reported numbers for the month can change until it is closed again. The reason is recorded.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reopen-reason">Reason</Label>
+            <Textarea
+              id="reopen-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Late subcontractor invoice for July"
+            />
+            {reopenPeriod.error && (
+              <p className="text-sm text-red-600">{reopenPeriod.error.message}</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReopening(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => reopening && reopenPeriod.mutate(reopening.id)}
+              disabled={reopenPeriod.isPending || reason.trim().length < 10}
+            >
+              {reopenPeriod.isPending ? 'Reopening...' : 'Reopen Period'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
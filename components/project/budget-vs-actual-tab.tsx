@@ -4,9 +4,10 @@ import { useState, Fragment } from 'react'
 import { useQuery } from '@tanstack/react-query'
 import { Card } from '@/components/ui/card'
 import { formatCurrency } from '@/lib/utils'
-import { ChevronRight, ChevronDown, BarChart3, FolderTree, DollarSign } from 'lucide-react'
+import { ChevronRight, ChevronDown, BarChart3, FolderTree, DollarSign, AlertTriangle } from 'lucide-react'
 import { BudgetCategoryPOModal } from './budget-category-po-modal'
 import { BudgetPerDiemRow } from './budget-per-diem-row'
+import { WBSEarnedValueTable } from './earned-value-card'
 // DivisionFilter removed - divisions no longer used
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
@@ -42,6 +43,7 @@ interface BudgetData {
     forecastedFinal: number
     variance: number
   }
+  laborRateWarnings?: { craftTypeId: string; message: string }[]
 }
 
 // Division interface removed - no longer used
@@ -167,6 +169,21 @@ export function BudgetVsActualTab({ projectId, contractValue }: BudgetVsActualTa
 
       {/* Division Funnel removed - no longer used */}
 
+      {/* Forecast labor with no rate is left out of the forecasted final */}
+      {budgetData?.laborRateWarnings && budgetData.laborRateWarnings.length > 0 && (
+        <div className="rounded-md border border-amber-300 bg-amber-50 p-4 text-sm text-amber-800 dark:border-amber-700 dark:bg-amber-950 dark:text-amber-200">
+          <div className="flex items-center gap-2 font-medium">
+            <AlertTriangle className="h-4 w-4" />
+            Missing labor rates
+          </div>
+          <ul className="mt-2 list-disc pl-6 space-y-1">
+            {budgetData.laborRateWarnings.map(warning => (
+              <li key={warning.craftTypeId}>{warning.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Budget vs Actual Table */}
       <Card className="p-6">
         <div className="flex items-center justify-between mb-4">
@@ -336,6 +353,8 @@ export function BudgetVsActualTab({ projectId, contractValue }: BudgetVsActualTa
         </div>
       </Card>
 
+      <WBSEarnedValueTable projectId={projectId} />
+
       {/* Category PO Modal */}
       {selectedCategory && (
         <BudgetCategoryPOModal
@@ -0,0 +1,268 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { format } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { AlertCircle, Percent, Plus, Trash2 } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { useToast } from '@/components/ui/use-toast'
+import {
+  BURDEN_CATEGORIES,
+  type EffectiveBurdenRates,
+  type LaborBurdenRate
+} from '@/lib/services/burden-rates'
+
+interface BurdenRateConfigProps {
+  projectId: string
+}
+
+const ALL_CATEGORIES = 'all'
+
+function formatRate(rate: number) {
+  return `${(Number(rate) * 100).toFixed(2)}%`
+}
+
+export function BurdenRateConfig({ projectId }: BurdenRateConfigProps) {
+  const { toast } = useToast()
+  const [rates, setRates] = useState<LaborBurdenRate[]>([])
+  const [effective, setEffective] = useState<EffectiveBurdenRates | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState({
+    category: ALL_CATEGORIES,
+    ratePercent: '28',
+    effectiveDate: format(new Date(), 'yyyy-MM-dd'),
+    description: ''
+  })
+
+  const fetchRates = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/burden-rates`)
+      if (response.ok) {
+        const data = await response.json()
+        setRates(data.rates)
+        setEffective(data.effective)
+      }
+    } catch (error) {
+      console.error('Error fetching burden rates:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    fetchRates()
+  }, [fetchRates])
+
+  const handleAdd = async () => {
+    const ratePercent = parseFloat(form.ratePercent)
+    if (isNaN(ratePercent) || ratePercent < 0) {
+      toast({
+        title: 'Invalid rate',
+        description: 'Enter a burden rate of 0% or more',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/burden-rates`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          scope: 'project',
+          category: form.category === ALL_CATEGORIES ? null : form.category,
+          burden_rate: Math.round(ratePercent * 100) / 10000,
+          effective_date: form.effectiveDate,
+          description: form.description || undefined,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to add burden rate')
+
+      toast({
+        title: 'Burden Rate Added',
+        description: `Labor costs from ${form.effectiveDate} onward have been recalculated.`,
+      })
+
+      setForm({ ...form, description: '' })
+      await fetchRates()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add burden rate',
+        variant: 'destructive',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (rateId: string) => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/burden-rates/${rateId}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) throw new Error('Failed to delete burden rate')
+
+      toast({
+        title: 'Burden Rate Removed',
+        description: 'Affected labor costs have been recalculated.',
+      })
+
+      await fetchRates()
+    } catch {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete burden rate',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Percent className="h-5 w-5" />
+          Labor Burden Rates
+        </CardTitle>
+        <CardDescription>
+          Burden (taxes and insurance) is applied to straight time wages. Project rates override the
+          company default, and category rates override rates for all categories.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Current effective rates */}
+        {effective && (
+          <div className="grid gap-4 md:grid-cols-3">
+            {BURDEN_CATEGORIES.map(category => (
+              <div key={category} className="rounded-lg border p-4">
+                <div className="text-sm text-muted-foreground">{category}</div>
+                <div className="text-2xl font-semibold">{formatRate(effective[category])}</div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Add rate */}
+        <div className="grid gap-4 md:grid-cols-4">
+          <div className="space-y-2">
+            <Label htmlFor="burden-category">Category</Label>
+            <Select
+              value={form.category}
+              onValueChange={(value) => setForm({ ...form, category: value })}
+            >
+              <SelectTrigger id="burden-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                {BURDEN_CATEGORIES.map(category => (
+                  <SelectItem key={category} value={category}>{category}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="burden-rate">Rate (%)</Label>
+            <Input
+              id="burden-rate"
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.ratePercent}
+              onChange={(e) => setForm({ ...form, ratePercent: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="burden-effective-date">Effective Week Ending</Label>
+            <Input
+              id="burden-effective-date"
+              type="date"
+              value={form.effectiveDate}
+              onChange={(e) => setForm({ ...form, effectiveDate: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="burden-description">Description</Label>
+            <Input
+              id="burden-description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="e.g. Union agreement"
+            />
+          </div>
+        </div>
+
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Adding, changing or removing a rate recalculates burdened labor costs for every week on or
+            after its effective date.
+          </AlertDescription>
+        </Alert>
+
+        <Button onClick={handleAdd} disabled={saving}>
+          <Plus className="mr-2 h-4 w-4" />
+          {saving ? 'Saving...' : 'Add Rate'}
+        </Button>
+
+        {/* Rate history */}
+        {loading ? (
+          <div className="h-24 animate-pulse rounded bg-gray-100 dark:bg-gray-800" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Scope</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead>Effective</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rates.map(rate => (
+                <TableRow key={rate.id}>
+                  <TableCell>
+                    {rate.project_id ? (
+                      <Badge variant="default">Project</Badge>
+                    ) : (
+                      <Badge variant="outline">Company</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{rate.category || 'All'}</TableCell>
+                  <TableCell className="text-right">{formatRate(rate.burden_rate)}</TableCell>
+                  <TableCell>{rate.effective_date}</TableCell>
+                  <TableCell className="text-muted-foreground">{rate.description}</TableCell>
+                  <TableCell className="text-right">
+                    {rate.project_id && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(rate.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
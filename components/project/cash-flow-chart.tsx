@@ -0,0 +1,146 @@
+'use client'
+
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts'
+import { format } from 'date-fns'
+import { formatCurrency, cn } from '@/lib/utils'
+import type { CashFlowForecast } from '@/lib/services/cash-flow'
+
+interface CashFlowChartProps {
+  forecast: CashFlowForecast
+}
+
+const formatCompact = (value: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+    notation: 'compact',
+  }).format(value)
+
+export const formatCashFlowPeriod = (period: string, interval: CashFlowForecast['interval']) =>
+  interval === 'month'
+    ? format(new Date(period + '-01T00:00:00'), 'MMM yyyy')
+    : format(new Date(period + 'T00:00:00'), 'MMM d')
+
+/**
+ * Summary figures, cash in and out per period and the running cash position
+ */
+export function CashFlowChart({ forecast }: CashFlowChartProps) {
+  if (forecast.periods.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No forecast cash movements
+      </div>
+    )
+  }
+
+  // Cash out plots below the axis so the bars read as in versus out
+  const data = forecast.periods.map(period => ({
+    ...period,
+    label: formatCashFlowPeriod(period.period, forecast.interval),
+    cashOutNegative: -period.cashOut,
+  }))
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-4">
+        <div>
+          <p className="text-sm text-muted-foreground">Cash In</p>
+          <p className="text-xl font-semibold text-green-600">{formatCurrency(forecast.totalCashIn)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground">Cash Out</p>
+          <p className="text-xl font-semibold text-red-600">{formatCurrency(forecast.totalCashOut)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground">Ending Net Position</p>
+          <p className={cn('text-xl font-semibold', forecast.endingCashPosition < 0 && 'text-red-600')}>
+            {formatCurrency(forecast.endingCashPosition)}
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground">Peak Exposure</p>
+          <p className={cn('text-xl font-semibold', forecast.peakExposure > 0 && 'text-amber-600')}>
+            {formatCurrency(forecast.peakExposure)}
+          </p>
+          {forecast.peakExposurePeriod && (
+            <p className="text-xs text-muted-foreground">
+              {forecast.interval === 'week' ? 'Week ending ' : ''}
+              {formatCashFlowPeriod(forecast.peakExposurePeriod, forecast.interval)}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="h-[320px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+            <XAxis dataKey="label" className="text-xs" />
+            <YAxis tickFormatter={formatCompact} className="text-xs" />
+            <Tooltip formatter={(value: number) => formatCurrency(Math.abs(value))} />
+            <Legend />
+            <ReferenceLine y={0} stroke="#94a3b8" />
+            <Bar dataKey="cashIn" name="Cash in" fill="#16a34a" />
+            <Bar dataKey="cashOutNegative" name="Cash out" fill="#dc2626" />
+            <Line
+              type="monotone"
+              dataKey="cashPosition"
+              name="Net position"
+              stroke="#2563eb"
+              strokeWidth={2}
+              dot={false}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left py-2 px-3">{forecast.interval === 'week' ? 'Week Ending' : 'Month'}</th>
+              <th className="text-right py-2 px-3">Payroll</th>
+              <th className="text-right py-2 px-3">PO Payments</th>
+              <th className="text-right py-2 px-3">Billing Receipts</th>
+              <th className="text-right py-2 px-3">Retention</th>
+              <th className="text-right py-2 px-3">Net</th>
+              <th className="text-right py-2 px-3">Net Position</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.map(period => (
+              <tr
+                key={period.period}
+                className={cn('border-b', period.period === forecast.peakExposurePeriod && 'bg-amber-50 dark:bg-amber-950')}
+              >
+                <td className="py-2 px-3">{period.label}</td>
+                <td className="text-right py-2 px-3">{formatCurrency(period.payroll)}</td>
+                <td className="text-right py-2 px-3">{formatCurrency(period.poPayments)}</td>
+                <td className="text-right py-2 px-3">{formatCurrency(period.billingReceipts)}</td>
+                <td className="text-right py-2 px-3">{formatCurrency(period.retentionReceipts)}</td>
+                <td className={cn('text-right py-2 px-3', period.net < 0 && 'text-red-600')}>
+                  {formatCurrency(period.net)}
+                </td>
+                <td className={cn('text-right py-2 px-3 font-medium', period.cashPosition < 0 && 'text-red-600')}>
+                  {formatCurrency(period.cashPosition)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,310 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CheckCircle, Plus, Trash2 } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils'
+import type { CashFlowInterval, CashFlowSettings, ProjectCashFlow } from '@/lib/services/cash-flow'
+import { CashFlowChart } from './cash-flow-chart'
+
+interface CashFlowTabProps {
+  projectId: string
+}
+
+type SettingsForm = Record<keyof CashFlowSettings, string>
+
+interface ChangeOrderOption {
+  id: string
+  co_number: string
+  status: string
+}
+
+const BASE_CONTRACT = 'contract'
+const EMPTY_BILLING = { billing_date: '', amount: '', description: '', change_order_id: BASE_CONTRACT }
+
+const SETTINGS_FIELDS: { key: keyof CashFlowSettings; label: string; step: string }[] = [
+  { key: 'retention_percent', label: 'Retention (%)', step: '0.5' },
+  { key: 'billing_lag_days', label: 'Client pays after (days)', step: '1' },
+  { key: 'retention_release_days', label: 'Retention paid after end (days)', step: '1' },
+  { key: 'payroll_lag_days', label: 'Payroll paid after week (days)', step: '1' },
+  { key: 'default_po_terms_days', label: 'Default PO terms (days)', step: '1' },
+  { key: 'billed_to_date', label: 'Billed to date', step: '0.01' },
+]
+
+const toForm = (settings: CashFlowSettings): SettingsForm =>
+  Object.fromEntries(
+    Object.entries(settings).map(([key, value]) => [key, String(value)])
+  ) as SettingsForm
+
+/**
+ * Money in versus money out by week or month, with the payment timing and billing
+ * schedule that drive it
+ */
+export function CashFlowTab({ projectId }: CashFlowTabProps) {
+  const queryClient = useQueryClient()
+  const [interval, setCashFlowInterval] = useState<CashFlowInterval>('month')
+  const [form, setForm] = useState<SettingsForm | null>(null)
+  const [billing, setBilling] = useState(EMPTY_BILLING)
+
+  const { data: cashFlow, isLoading } = useQuery({
+    queryKey: ['cash-flow', projectId, interval],
+    queryFn: async () => {
+      const response = await fetch(`/api/projects/${projectId}/cash-flow?interval=${interval}`)
+      if (!response.ok) throw new Error('Failed to fetch cash flow')
+      return response.json() as Promise<ProjectCashFlow>
+    }
+  })
+
+  const { data: changeOrderData } = useQuery({
+    queryKey: ['change-orders', projectId],
+    queryFn: async () => {
+      const response = await fetch(`/api/change-orders?project_id=${projectId}&limit=100`)
+      if (!response.ok) throw new Error('Failed to fetch change orders')
+      return response.json() as Promise<{ change_orders: ChangeOrderOption[] }>
+    }
+  })
+
+  const approvedChangeOrders = (changeOrderData?.change_orders || []).filter(co => co.status === 'approved')
+  const changeOrderNumber = (changeOrderId: string) =>
+    approvedChangeOrders.find(co => co.id === changeOrderId)?.co_number || 'Change order'
+
+  useEffect(() => {
+    if (cashFlow && !form) setForm(toForm(cashFlow.settings))
+  }, [cashFlow, form])
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['cash-flow', projectId] })
+  }
+
+  const saveSettings = useMutation({
+    mutationFn: async (settings: SettingsForm) => {
+      const response = await fetch(`/api/projects/${projectId}/cash-flow`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          Object.fromEntries(Object.entries(settings).map(([key, value]) => [key, Number(value)]))
+        )
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to save cash-flow settings')
+      }
+      return result
+    },
+    onSuccess: invalidate
+  })
+
+  const addBilling = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/projects/${projectId}/billing-schedule`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          billing_date: billing.billing_date,
+          amount: Number(billing.amount),
+          description: billing.description || null,
+          change_order_id: billing.change_order_id === BASE_CONTRACT ? null : billing.change_order_id
+        })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details?.[0]?.message || result.error || 'Failed to add billing')
+      return result
+    },
+    onSuccess: () => {
+      setBilling(EMPTY_BILLING)
+      invalidate()
+    }
+  })
+
+  const deleteBilling = useMutation({
+    mutationFn: async (entryId: string) => {
+      const response = await fetch(`/api/projects/${projectId}/billing-schedule/${entryId}`, {
+        method: 'DELETE'
+      })
+      if (!response.ok) throw new Error('Failed to delete billing')
+    },
+    onSuccess: invalidate
+  })
+
+  if (isLoading || !cashFlow) {
+    return <div className="h-64 animate-pulse rounded bg-gray-100 dark:bg-gray-800" />
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6">
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold">Cash Flow Forecast</h3>
+            <p className="text-sm text-muted-foreground">
+              Payroll from the labor forecast, PO payments from open balances and terms, and client receipts
+              {cashFlow.billingSource === 'schedule' ? ' from the billing schedule' : ' billed in step with cost'}
+              {' '}less {cashFlow.settings.retention_percent}% retention
+              ({formatCurrency(cashFlow.retentionHeld)} held until close-out)
+            </p>
+          </div>
+          <Tabs value={interval} onValueChange={(value) => setCashFlowInterval(value as CashFlowInterval)}>
+            <TabsList>
+              <TabsTrigger value="week">Weekly</TabsTrigger>
+              <TabsTrigger value="month">Monthly</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+        <CashFlowChart forecast={cashFlow} />
+      </Card>
+
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold mb-4">Billing Schedule</h3>
+        <p className="text-sm text-muted-foreground mb-4">
+          Planned contract and change order billings. Without a schedule, the unbilled revised contract is billed
+          monthly in proportion to forecast cost.
+        </p>
+        {cashFlow.billingSchedule.length > 0 && (
+          <table className="w-full text-sm mb-4">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left py-2 px-3">Billing Date</th>
+                <th className="text-left py-2 px-3">Description</th>
+                <th className="text-right py-2 px-3">Amount</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {cashFlow.billingSchedule.map(entry => (
+                <tr key={entry.id} className="border-b">
+                  <td className="py-2 px-3">{entry.billing_date}</td>
+                  <td className="py-2 px-3">
+                    {entry.description || '—'}
+                    {entry.change_order_id && (
+                      <Badge variant="outline" className="ml-2 text-xs">{changeOrderNumber(entry.change_order_id)}</Badge>
+                    )}
+                  </td>
+                  <td className="text-right py-2 px-3">{formatCurrency(Number(entry.amount))}</td>
+                  <td className="text-right py-2 px-3">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteBilling.mutate(entry.id)}
+                      disabled={deleteBilling.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <form
+          className="grid gap-4 md:grid-cols-5 items-end"
+          onSubmit={(e) => {
+            e.preventDefault()
+            addBilling.mutate()
+          }}
+        >
+          <div className="space-y-1">
+            <Label htmlFor="billing-date">Billing Date</Label>
+            <Input
+              id="billing-date"
+              type="date"
+              value={billing.billing_date}
+              onChange={(e) => setBilling({ ...billing, billing_date: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="billing-amount">Amount</Label>
+            <Input
+              id="billing-amount"
+              type="number"
+              min={0}
+              step="0.01"
+              value={billing.amount}
+              onChange={(e) => setBilling({ ...billing, amount: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="billing-change-order">Bills</Label>
+            <Select
+              value={billing.change_order_id}
+              onValueChange={(value) => setBilling({ ...billing, change_order_id: value })}
+            >
+              <SelectTrigger id="billing-change-order">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={BASE_CONTRACT}>Base contract</SelectItem>
+                {approvedChangeOrders.map(co => (
+                  <SelectItem key={co.id} value={co.id}>{co.co_number}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="billing-description">Description</Label>
+            <Input
+              id="billing-description"
+              value={billing.description}
+              onChange={(e) => setBilling({ ...billing, description: e.target.value })}
+              placeholder="e.g. Progress billing #4"
+            />
+          </div>
+          <Button type="submit" disabled={addBilling.isPending || !billing.billing_date || billing.amount === ''}>
+            <Plus className="mr-2 h-4 w-4" />
+            {addBilling.isPending ? 'Adding...' : 'Add Billing'}
+          </Button>
+          {addBilling.error && (
+            <span className="text-sm text-red-600 md:col-span-5">{addBilling.error.message}</span>
+          )}
+        </form>
+      </Card>
+
+      {form && (
+        <Card className="p-6">
+          <h3 className="text-lg font-semibold mb-4">Payment Timing</h3>
+          <form
+            className="grid gap-4 md:grid-cols-3"
+            onSubmit={(e) => {
+              e.preventDefault()
+              saveSettings.mutate(form)
+            }}
+          >
+            {SETTINGS_FIELDS.map(field => (
+              <div key={field.key} className="space-y-1">
+                <Label htmlFor={`cash-flow-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`cash-flow-${field.key}`}
+                  type="number"
+                  min={0}
+                  step={field.step}
+                  value={form[field.key]}
+                  onChange={(e) => setForm({ ...form, [field.key]: e.target.value })}
+                />
+              </div>
+            ))}
+            <div className="flex items-center gap-3 md:col-span-3">
+              <Button type="submit" disabled={saveSettings.isPending}>
+                {saveSettings.isPending ? 'Saving...' : 'Save Payment Timing'}
+              </Button>
+              {saveSettings.isSuccess && !saveSettings.isPending && (
+                <span className="flex items-center text-sm text-green-600">
+                  <CheckCircle className="h-4 w-4 mr-1" />
+                  Saved
+                </span>
+              )}
+              {saveSettings.error && (
+                <span className="text-sm text-red-600">{saveSettings.error.message}</span>
+              )}
+            </div>
+          </form>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,293 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ListTree, Plus, Trash2 } from 'lucide-react'
+import { useToast } from '@/components/ui/use-toast'
+import { formatCurrency } from '@/lib/utils'
+import type { CostCodeMapping, POBudgetCategory, UnmatchedPurchaseOrder } from '@/lib/services/cost-code-mappings'
+
+interface CostCodeMappingConfigProps {
+  projectId: string
+}
+
+const BUDGET_CATEGORY_LABELS: Record<POBudgetCategory, string> = {
+  MATERIALS: 'Materials',
+  EQUIPMENT: 'Equipment',
+  SUBCONTRACTS: 'Subcontracts',
+  'SMALL TOOLS & CONSUMABLES': 'Small Tools & Consumables',
+}
+
+const EMPTY_FORM = {
+  scope: 'project' as 'project' | 'company',
+  costCenter: '',
+  subCc: '',
+  subsubCc: '',
+  budgetCategory: 'MATERIALS' as POBudgetCategory,
+  description: '',
+}
+
+export function CostCodeMappingConfig({ projectId }: CostCodeMappingConfigProps) {
+  const { toast } = useToast()
+  const [mappings, setMappings] = useState<CostCodeMapping[]>([])
+  const [unmatched, setUnmatched] = useState<UnmatchedPurchaseOrder[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+
+  const fetchMappings = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/cost-code-mappings`)
+      if (response.ok) {
+        const data = await response.json()
+        setMappings(data.mappings)
+        setUnmatched(data.unmatched)
+      }
+    } catch (error) {
+      console.error('Error fetching cost code mappings:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    fetchMappings()
+  }, [fetchMappings])
+
+  const handleAdd = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/cost-code-mappings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          scope: form.scope,
+          cost_center: form.costCenter || null,
+          sub_cc: form.subCc || null,
+          subsub_cc: form.subsubCc || null,
+          budget_category: form.budgetCategory,
+          description: form.description || null,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to add mapping')
+      }
+
+      toast({
+        title: 'Mapping Added',
+        description: `${data.reclassified} purchase order${data.reclassified === 1 ? '' : 's'} reclassified.`,
+      })
+
+      setForm({ ...EMPTY_FORM, scope: form.scope })
+      await fetchMappings()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add mapping',
+        variant: 'destructive',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (mappingId: string) => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/cost-code-mappings/${mappingId}`, {
+        method: 'DELETE',
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to delete mapping')
+
+      await fetchMappings()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete mapping',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const codeCell = (value: string | null) =>
+    value ? <span className="font-mono">{value}</span> : <span className="text-muted-foreground">Any</span>
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListTree className="h-5 w-5" />
+          Cost Code Mapping
+        </CardTitle>
+        <CardDescription>
+          Rules assigning POs to budget categories from the ICS cost center, Sub CC and SubSub CC. Project
+          rules override company rules, and the rule matching the most codes wins. Changing the rules
+          reclassifies existing POs.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="mapping-scope">Applies To</Label>
+            <Select
+              value={form.scope}
+              onValueChange={(value) => setForm({ ...form, scope: value as 'project' | 'company' })}
+            >
+              <SelectTrigger id="mapping-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="project">This project</SelectItem>
+                <SelectItem value="company">All projects</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mapping-cost-center">Cost Center</Label>
+            <Input
+              id="mapping-cost-center"
+              value={form.costCenter}
+              onChange={(e) => setForm({ ...form, costCenter: e.target.value })}
+              placeholder="Any"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mapping-sub-cc">Sub CC</Label>
+            <Input
+              id="mapping-sub-cc"
+              value={form.subCc}
+              onChange={(e) => setForm({ ...form, subCc: e.target.value })}
+              placeholder="Any"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mapping-subsub-cc">SubSub CC</Label>
+            <Input
+              id="mapping-subsub-cc"
+              value={form.subsubCc}
+              onChange={(e) => setForm({ ...form, subsubCc: e.target.value })}
+              placeholder="Any"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mapping-category">Budget Category</Label>
+            <Select
+              value={form.budgetCategory}
+              onValueChange={(value) => setForm({ ...form, budgetCategory: value as POBudgetCategory })}
+            >
+              <SelectTrigger id="mapping-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(BUDGET_CATEGORY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mapping-description">Description</Label>
+            <Input
+              id="mapping-description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <Button onClick={handleAdd} disabled={saving || (!form.costCenter && !form.subCc && !form.subsubCc)}>
+          <Plus className="mr-2 h-4 w-4" />
+          {saving ? 'Saving...' : 'Add Mapping'}
+        </Button>
+
+        {loading ? (
+          <div className="h-24 animate-pulse rounded bg-gray-100 dark:bg-gray-800" />
+        ) : mappings.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            No cost code mappings configured
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Scope</TableHead>
+                <TableHead>Cost Center</TableHead>
+                <TableHead>Sub CC</TableHead>
+                <TableHead>SubSub CC</TableHead>
+                <TableHead>Budget Category</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {mappings.map(mapping => (
+                <TableRow key={mapping.id}>
+                  <TableCell>
+                    {mapping.project_id ? (
+                      <Badge variant="default">Project</Badge>
+                    ) : (
+                      <Badge variant="outline">Company</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{codeCell(mapping.cost_center)}</TableCell>
+                  <TableCell>{codeCell(mapping.sub_cc)}</TableCell>
+                  <TableCell>{codeCell(mapping.subsub_cc)}</TableCell>
+                  <TableCell>{BUDGET_CATEGORY_LABELS[mapping.budget_category]}</TableCell>
+                  <TableCell>{mapping.description || '—'}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(mapping.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {!loading && unmatched.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-medium text-amber-600">
+              {unmatched.length} PO{unmatched.length === 1 ? '' : 's'} not matched by any rule
+            </h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>PO #</TableHead>
+                  <TableHead>Vendor</TableHead>
+                  <TableHead>Cost Center</TableHead>
+                  <TableHead>Sub CC</TableHead>
+                  <TableHead>SubSub CC</TableHead>
+                  <TableHead>Current Category</TableHead>
+                  <TableHead className="text-right">Committed</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {unmatched.map(po => (
+                  <TableRow key={po.id}>
+                    <TableCell>{po.po_number}</TableCell>
+                    <TableCell>{po.vendor_name || '—'}</TableCell>
+                    <TableCell>{po.cost_center || '—'}</TableCell>
+                    <TableCell>{po.sub_cc || '—'}</TableCell>
+                    <TableCell>{po.subsub_cc || '—'}</TableCell>
+                    <TableCell>{po.budget_category || 'Uncategorized'}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(po.committed_amount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,399 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { CheckCircle, AlertTriangle } from 'lucide-react'
+import { formatCurrency, cn } from '@/lib/utils'
+import type { EACMethod, LaborRateDetail, LaborRateSource } from '@/lib/services/forecast-calculations'
+import type { ProjectEAC } from '@/lib/services/project-eac'
+
+interface EACMethodsCardProps {
+  projectId: string
+}
+
+interface EACSettingsForm {
+  official_method: EACMethod
+  percent_complete: string
+  planned_percent_complete: string
+  manual_eac: string
+  manual_justification: string
+}
+
+const toNumberOrNull = (value: string) => (value.trim() === '' ? null : Number(value))
+
+const formatEstimate = (value: number | null) => (value === null ? '—' : formatCurrency(value))
+
+const formatIndex = (value: number | null) => (value === null ? '—' : value.toFixed(2))
+
+const RATE_SOURCE_LABELS: Record<LaborRateSource, string> = {
+  running_average: 'Running average',
+  default_rate: 'Craft default',
+  missing: 'No rate'
+}
+
+interface CraftRateSummary {
+  craftTypeId: string
+  craftName: string
+  sources: Set<LaborRateSource>
+  minRate: number | null
+  maxRate: number | null
+  escalations: Set<string>
+  hours: number
+}
+
+// One row per craft: where its forecast rate came from and how escalation moved it
+const summarizeRates = (rates: LaborRateDetail[]): CraftRateSummary[] => {
+  const byCraft = new Map<string, CraftRateSummary>()
+  rates.forEach(detail => {
+    const summary = byCraft.get(detail.craftTypeId) || {
+      craftTypeId: detail.craftTypeId,
+      craftName: detail.craftName || 'Unknown craft',
+      sources: new Set<LaborRateSource>(),
+      minRate: null,
+      maxRate: null,
+      escalations: new Set<string>(),
+      hours: 0
+    }
+    summary.sources.add(detail.source)
+    if (detail.rate !== null) {
+      summary.minRate = summary.minRate === null ? detail.rate : Math.min(summary.minRate, detail.rate)
+      summary.maxRate = summary.maxRate === null ? detail.rate : Math.max(summary.maxRate, detail.rate)
+    }
+    detail.escalations.forEach(name => summary.escalations.add(name))
+    summary.hours += detail.hours
+    byCraft.set(detail.craftTypeId, summary)
+  })
+  return [...byCraft.values()].sort((a, b) => a.craftName.localeCompare(b.craftName))
+}
+
+const formatRateRange = (summary: CraftRateSummary) => {
+  if (summary.minRate === null || summary.maxRate === null) return '—'
+  if (summary.minRate === summary.maxRate) return `${formatCurrency(summary.minRate)}/hr`
+  return `${formatCurrency(summary.minRate)}–${formatCurrency(summary.maxRate)}/hr`
+}
+
+/**
+ * Estimate at completion by every method, side by side per category, with the
+ * project's official method and the inputs the earned value methods need
+ */
+export function EACMethodsCard({ projectId }: EACMethodsCardProps) {
+  const queryClient = useQueryClient()
+  const [form, setForm] = useState<EACSettingsForm | null>(null)
+
+  const { data: eac, isLoading } = useQuery({
+    queryKey: ['project-eac', projectId],
+    queryFn: async () => {
+      const response = await fetch(`/api/projects/${projectId}/eac`)
+      if (!response.ok) throw new Error('Failed to fetch EAC methods')
+      return response.json() as Promise<ProjectEAC>
+    }
+  })
+
+  useEffect(() => {
+    if (!eac) return
+    setForm({
+      official_method: eac.settings?.official_method || 'bottom_up',
+      percent_complete: eac.settings?.percent_complete?.toString() ?? '',
+      planned_percent_complete: eac.settings?.planned_percent_complete?.toString() ?? '',
+      manual_eac: eac.settings?.manual_eac?.toString() ?? '',
+      manual_justification: eac.settings?.manual_justification ?? ''
+    })
+  }, [eac])
+
+  const saveSettings = useMutation({
+    mutationFn: async (settings: EACSettingsForm) => {
+      const response = await fetch(`/api/projects/${projectId}/eac`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          official_method: settings.official_method,
+          percent_complete: toNumberOrNull(settings.percent_complete),
+          planned_percent_complete: toNumberOrNull(settings.planned_percent_complete),
+          manual_eac: toNumberOrNull(settings.manual_eac),
+          // Per-category manual figures are kept as entered through the API
+          manual_eac_by_category: eac?.settings?.manual_eac_by_category ?? null,
+          manual_justification: settings.manual_justification.trim() || null
+        })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to save EAC settings')
+      }
+      return result
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['project-eac', projectId] })
+    }
+  })
+
+  if (isLoading || !eac || !form) {
+    return <div className="h-64 animate-pulse rounded bg-gray-100 dark:bg-gray-800" />
+  }
+
+  const categories = eac.methods[0]?.categories || []
+  const hasManualEac = form.manual_eac.trim() !== ''
+  const craftRates = summarizeRates(eac.laborRates || [])
+  const rateWarnings = eac.laborRateWarnings || []
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">Estimate at Completion</h3>
+          <p className="text-sm text-muted-foreground">
+            Official: {eac.official.label} · {formatEstimate(eac.official.estimateAtCompletion)}
+            {eac.settings && eac.settings.official_method !== eac.officialMethod && (
+              <span className="ml-1 text-amber-600">
+                (selected method unavailable, showing bottom-up)
+              </span>
+            )}
+          </p>
+        </div>
+        <div className="flex gap-6 text-sm">
+          <div>
+            <p className="text-muted-foreground">CPI</p>
+            <p className="font-medium">{formatIndex(eac.cpi)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">SPI</p>
+            <p className="font-medium">{formatIndex(eac.spi)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Earned Value</p>
+            <p className="font-medium">{formatEstimate(eac.earnedValue)}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left py-3 px-4">Category</th>
+              <th className="text-right py-3 px-4">Budget</th>
+              <th className="text-right py-3 px-4">Actual</th>
+              {eac.methods.map(method => (
+                <th
+                  key={method.method}
+                  className={cn(
+                    'text-right py-3 px-4',
+                    method.method === eac.officialMethod && 'bg-muted/50'
+                  )}
+                  title={method.unavailableReason}
+                >
+                  <span className={cn(!method.available && 'text-muted-foreground')}>
+                    {method.label}
+                  </span>
+                  {method.method === eac.officialMethod && (
+                    <Badge variant="secondary" className="ml-2 text-xs">Official</Badge>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {categories.map((category, index) => (
+              <tr key={category.category} className="border-b">
+                <td className="py-3 px-4">{category.label}</td>
+                <td className="text-right py-3 px-4">{formatCurrency(category.budget)}</td>
+                <td className="text-right py-3 px-4">{formatCurrency(category.actualCost)}</td>
+                {eac.methods.map(method => {
+                  const detail = method.categories[index]
+                  return (
+                    <td
+                      key={method.method}
+                      className={cn(
+                        'text-right py-3 px-4',
+                        method.method === eac.officialMethod && 'bg-muted/50',
+                        detail?.variance !== null && detail?.variance !== undefined && detail.variance < 0 && 'text-red-600'
+                      )}
+                    >
+                      {formatEstimate(detail?.estimateAtCompletion ?? null)}
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+            <tr className="font-semibold">
+              <td className="py-3 px-4">Total</td>
+              <td className="text-right py-3 px-4">{formatCurrency(eac.budgetAtCompletion)}</td>
+              <td className="text-right py-3 px-4">{formatCurrency(eac.actualCostToDate)}</td>
+              {eac.methods.map(method => (
+                <td
+                  key={method.method}
+                  className={cn(
+                    'text-right py-3 px-4',
+                    method.method === eac.officialMethod && 'bg-muted/50',
+                    method.variance !== null && method.variance < 0 && 'text-red-600'
+                  )}
+                >
+                  {method.available
+                    ? formatEstimate(method.estimateAtCompletion)
+                    : <span className="font-normal text-xs text-muted-foreground">{method.unavailableReason}</span>}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {rateWarnings.length > 0 && (
+        <div className="mt-6 rounded-md border border-amber-300 bg-amber-50 p-4 text-sm text-amber-800 dark:border-amber-700 dark:bg-amber-950 dark:text-amber-200">
+          <div className="flex items-center gap-2 font-medium">
+            <AlertTriangle className="h-4 w-4" />
+            Missing labor rates
+          </div>
+          <ul className="mt-2 list-disc pl-6 space-y-1">
+            {rateWarnings.map(warning => (
+              <li key={warning.craftTypeId}>{warning.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {craftRates.length > 0 && (
+        <div className="mt-6 overflow-x-auto">
+          <h4 className="text-sm font-semibold mb-2">Forecast Labor Rates</h4>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left py-2 px-4">Craft</th>
+                <th className="text-left py-2 px-4">Source</th>
+                <th className="text-right py-2 px-4">Rate</th>
+                <th className="text-left py-2 px-4">Escalations</th>
+                <th className="text-right py-2 px-4">Forecast Hours</th>
+              </tr>
+            </thead>
+            <tbody>
+              {craftRates.map(summary => (
+                <tr key={summary.craftTypeId} className="border-b">
+                  <td className="py-2 px-4">{summary.craftName}</td>
+                  <td className={cn('py-2 px-4', summary.sources.has('missing') && 'text-amber-600')}>
+                    {[...summary.sources].map(source => RATE_SOURCE_LABELS[source]).join(', ')}
+                  </td>
+                  <td className="text-right py-2 px-4">{formatRateRange(summary)}</td>
+                  <td className="py-2 px-4 text-muted-foreground">
+                    {summary.escalations.size > 0 ? [...summary.escalations].join(', ') : '—'}
+                  </td>
+                  <td className="text-right py-2 px-4">{Math.round(summary.hours).toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <form
+        className="mt-6 grid gap-4 md:grid-cols-4"
+        onSubmit={(e) => {
+          e.preventDefault()
+          saveSettings.mutate(form)
+        }}
+      >
+        <div className="space-y-1">
+          <Label htmlFor="eac-official-method">Official Method</Label>
+          <Select
+            value={form.official_method}
+            onValueChange={(value) => setForm({ ...form, official_method: value as EACMethod })}
+          >
+            <SelectTrigger id="eac-official-method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {eac.methods.map(method => (
+                <SelectItem key={method.method} value={method.method}>
+                  {method.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="eac-percent-complete">Percent Complete</Label>
+          <Input
+            id="eac-percent-complete"
+            type="number"
+            min={0}
+            max={100}
+            step="0.1"
+            value={form.percent_complete}
+            onChange={(e) => setForm({ ...form, percent_complete: e.target.value })}
+            placeholder={
+              eac.percentCompleteSource === 'wbs' && eac.earnedValue !== null && eac.budgetAtCompletion > 0
+                ? `${((eac.earnedValue / eac.budgetAtCompletion) * 100).toFixed(1)} from WBS progress`
+                : 'Physical progress'
+            }
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="eac-planned-percent">Planned Percent Complete</Label>
+          <Input
+            id="eac-planned-percent"
+            type="number"
+            min={0}
+            max={100}
+            step="0.1"
+            value={form.planned_percent_complete}
+            onChange={(e) => setForm({ ...form, planned_percent_complete: e.target.value })}
+            placeholder={
+              eac.plannedPercentSource !== 'entered' && eac.plannedValue !== null && eac.budgetAtCompletion > 0
+                ? `${((eac.plannedValue / eac.budgetAtCompletion) * 100).toFixed(1)} from ${eac.plannedPercentSource === 'wbs' ? 'WBS' : 'schedule'}`
+                : 'From schedule'
+            }
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="eac-manual">Manual EAC</Label>
+          <Input
+            id="eac-manual"
+            type="number"
+            min={0}
+            step="0.01"
+            value={form.manual_eac}
+            onChange={(e) => setForm({ ...form, manual_eac: e.target.value })}
+            placeholder="Optional override"
+          />
+        </div>
+        {(hasManualEac || form.official_method === 'manual') && (
+          <div className="space-y-1 md:col-span-4">
+            <Label htmlFor="eac-justification">Justification</Label>
+            <Textarea
+              id="eac-justification"
+              value={form.manual_justification}
+              onChange={(e) => setForm({ ...form, manual_justification: e.target.value })}
+              placeholder="Why the manual EAC overrides the calculated methods"
+            />
+          </div>
+        )}
+        <div className="flex items-center gap-3 md:col-span-4">
+          <Button
+            type="submit"
+            disabled={
+              saveSettings.isPending ||
+              (hasManualEac && !form.manual_justification.trim()) ||
+              (form.official_method === 'manual' && !hasManualEac)
+            }
+          >
+            {saveSettings.isPending ? 'Saving...' : 'Save EAC Settings'}
+          </Button>
+          {saveSettings.isSuccess && !saveSettings.isPending && (
+            <span className="flex items-center text-sm text-green-600">
+              <CheckCircle className="h-4 w-4 mr-1" />
+              Saved
+            </span>
+          )}
+          {saveSettings.error && (
+            <span className="text-sm text-red-600">{saveSettings.error.message}</span>
+          )}
+        </div>
+      </form>
+    </Card>
+  )
+}
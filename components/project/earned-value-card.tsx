@@ -0,0 +1,342 @@
+'use client'
+
+import { Fragment, useState, type ReactNode } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { ChevronDown, ChevronRight, Gauge } from 'lucide-react'
+import { formatCurrency, cn } from '@/lib/utils'
+import type { WBSEarnedValue, WBSEarnedValueNode } from '@/lib/services/earned-value'
+
+interface EarnedValueProps {
+  projectId: string
+}
+
+const formatAmount = (value: number | null) => (value === null ? '—' : formatCurrency(value))
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)}%`)
+
+const formatIndex = (value: number | null) => (value === null ? '—' : value.toFixed(2))
+
+const formatHours = (value: number | null) =>
+  value === null ? '—' : Math.round(value).toLocaleString()
+
+// Below 1.0 means over cost or behind schedule
+const indexColor = (value: number | null) =>
+  value === null ? '' : value < 0.95 ? 'text-red-600' : value < 1 ? 'text-amber-600' : 'text-green-600'
+
+function useEarnedValue(projectId: string) {
+  return useQuery({
+    queryKey: ['earned-value', projectId],
+    queryFn: async () => {
+      const response = await fetch(`/api/projects/${projectId}/earned-value`)
+      if (!response.ok) throw new Error('Failed to fetch earned value')
+      return response.json() as Promise<WBSEarnedValue>
+    }
+  })
+}
+
+/**
+ * Project-level earned value: percent complete, EV, PV, AC, CPI and SPI
+ */
+export function EarnedValueSummaryCard({ projectId }: EarnedValueProps) {
+  const { data, isLoading } = useEarnedValue(projectId)
+
+  if (isLoading) {
+    return <div className="h-24 animate-pulse rounded bg-gray-100 dark:bg-gray-800" />
+  }
+
+  if (!data || data.budgetAtCompletion === 0) return null
+
+  const metrics = [
+    { label: '% Complete', value: formatPercent(data.percentComplete) },
+    { label: 'Planned %', value: formatPercent(data.plannedPercentComplete) },
+    { label: 'Earned Value', value: formatAmount(data.earnedValue) },
+    { label: 'Planned Value', value: formatAmount(data.plannedValue) },
+    { label: 'Actual Cost', value: formatAmount(data.actualCost) },
+    { label: 'CPI', value: formatIndex(data.cpi), className: indexColor(data.cpi) },
+    { label: 'SPI', value: formatIndex(data.spi), className: indexColor(data.spi) },
+    {
+      label: 'Earned Hours',
+      value: `${formatHours(data.earnedHours)} / ${formatHours(data.budgetHours)}`
+    }
+  ]
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Gauge className="h-5 w-5 text-muted-foreground" />
+        <h3 className="text-lg font-semibold">Earned Value</h3>
+        {data.earnedValue === null && (
+          <span className="text-sm text-muted-foreground">
+            · No WBS progress recorded yet
+          </span>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4 lg:grid-cols-8">
+        {metrics.map(metric => (
+          <div key={metric.label}>
+            <p className="text-xs text-muted-foreground">{metric.label}</p>
+            <p className={cn('text-lg font-semibold', metric.className)}>{metric.value}</p>
+          </div>
+        ))}
+      </div>
+    </Card>
+  )
+}
+
+/**
+ * Earned value by WBS node, with progress entry per node
+ */
+export function WBSEarnedValueTable({ projectId }: EarnedValueProps) {
+  const queryClient = useQueryClient()
+  const { data, isLoading } = useEarnedValue(projectId)
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [editing, setEditing] = useState<WBSEarnedValueNode | null>(null)
+  const [measure, setMeasure] = useState<'percent' | 'quantity'>('percent')
+  const [progressValue, setProgressValue] = useState('')
+  const [plannedValue, setPlannedValue] = useState('')
+
+  const recordProgress = useMutation({
+    mutationFn: async (node: WBSEarnedValueNode) => {
+      const response = await fetch(`/api/projects/${projectId}/earned-value`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          wbs_code: node.code,
+          percent_complete: measure === 'percent' ? Number(progressValue) : null,
+          quantity_installed: measure === 'quantity' ? Number(progressValue) : null,
+          planned_percent_complete: plannedValue.trim() === '' ? null : Number(plannedValue)
+        })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to record progress')
+      }
+      return result
+    },
+    onSuccess: () => {
+      setEditing(null)
+      queryClient.invalidateQueries({ queryKey: ['earned-value', projectId] })
+      queryClient.invalidateQueries({ queryKey: ['project-eac', projectId] })
+    }
+  })
+
+  const openProgress = (node: WBSEarnedValueNode) => {
+    setEditing(node)
+    setMeasure('percent')
+    setProgressValue(node.progressSource === 'entered' && node.percentComplete !== null
+      ? node.percentComplete.toFixed(1)
+      : '')
+    setPlannedValue('')
+    recordProgress.reset()
+  }
+
+  const toggle = (code: string) => {
+    setExpanded(current => {
+      const next = new Set(current)
+      if (next.has(code)) next.delete(code)
+      else next.add(code)
+      return next
+    })
+  }
+
+  if (isLoading) {
+    return <div className="h-32 animate-pulse rounded bg-gray-100 dark:bg-gray-800" />
+  }
+
+  if (!data || data.nodes.length === 0) return null
+
+  const renderNode = (node: WBSEarnedValueNode, depth: number): ReactNode => {
+    const isExpanded = expanded.has(node.code)
+    return (
+      <Fragment key={node.code}>
+        <tr className="border-b hover:bg-muted/50">
+          <td className="py-2 px-4">
+            <div className="flex items-center gap-1" style={{ paddingLeft: `${depth * 16}px` }}>
+              {node.children.length > 0 ? (
+                <button
+                  type="button"
+                  onClick={() => toggle(node.code)}
+                  className="text-muted-foreground"
+                  aria-label={isExpanded ? `Collapse ${node.code}` : `Expand ${node.code}`}
+                >
+                  {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                </button>
+              ) : (
+                <span className="w-4" />
+              )}
+              <span className="font-mono text-xs text-muted-foreground">{node.code}</span>
+              <span className="truncate">{node.description}</span>
+            </div>
+          </td>
+          <td className="text-right py-2 px-4">{formatCurrency(node.budget)}</td>
+          <td className="text-right py-2 px-4">
+            {formatPercent(node.percentComplete)}
+            {node.progressSource === 'inherited' && (
+              <span className="ml-1 text-xs text-muted-foreground" title="From a parent node">↑</span>
+            )}
+          </td>
+          <td className="text-right py-2 px-4">{formatAmount(node.earnedValue)}</td>
+          <td className="text-right py-2 px-4">{formatAmount(node.plannedValue)}</td>
+          <td className="text-right py-2 px-4">{formatAmount(node.actualCost)}</td>
+          <td className="text-right py-2 px-4">
+            {formatHours(node.earnedHours)} / {formatHours(node.budgetHours)}
+          </td>
+          <td className={cn('text-right py-2 px-4', indexColor(node.cpi))}>{formatIndex(node.cpi)}</td>
+          <td className={cn('text-right py-2 px-4', indexColor(node.spi))}>{formatIndex(node.spi)}</td>
+          <td className="text-right py-2 px-4">
+            <Button variant="ghost" size="sm" onClick={() => openProgress(node)}>
+              Progress
+            </Button>
+          </td>
+        </tr>
+        {isExpanded && node.children.map(child => renderNode(child, depth + 1))}
+      </Fragment>
+    )
+  }
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">Earned Value by WBS</h3>
+          <p className="text-sm text-muted-foreground">
+            Progress entered on a node applies to the nodes below it. Actual cost is allocated
+            by each node&apos;s share of its category budgets.
+          </p>
+        </div>
+        {data.unallocatedActualCost > 0 && (
+          <Badge variant="outline">
+            {formatCurrency(data.unallocatedActualCost)} unallocated
+          </Badge>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left py-3 px-4">WBS</th>
+              <th className="text-right py-3 px-4">Budget</th>
+              <th className="text-right py-3 px-4">% Complete</th>
+              <th className="text-right py-3 px-4">EV</th>
+              <th className="text-right py-3 px-4">PV</th>
+              <th className="text-right py-3 px-4">AC</th>
+              <th className="text-right py-3 px-4">Earned / Budget Hrs</th>
+              <th className="text-right py-3 px-4">CPI</th>
+              <th className="text-right py-3 px-4">SPI</th>
+              <th className="py-3 px-4" />
+            </tr>
+          </thead>
+          <tbody>
+            {data.nodes.map(node => renderNode(node, 0))}
+          </tbody>
+          <tfoot>
+            <tr className="font-semibold">
+              <td className="py-3 px-4">Project</td>
+              <td className="text-right py-3 px-4">{formatCurrency(data.budgetAtCompletion)}</td>
+              <td className="text-right py-3 px-4">{formatPercent(data.percentComplete)}</td>
+              <td className="text-right py-3 px-4">{formatAmount(data.earnedValue)}</td>
+              <td className="text-right py-3 px-4">{formatAmount(data.plannedValue)}</td>
+              <td className="text-right py-3 px-4">{formatAmount(data.actualCost)}</td>
+              <td className="text-right py-3 px-4">
+                {formatHours(data.earnedHours)} / {formatHours(data.budgetHours)}
+              </td>
+              <td className={cn('text-right py-3 px-4', indexColor(data.cpi))}>{formatIndex(data.cpi)}</td>
+              <td className={cn('text-right py-3 px-4', indexColor(data.spi))}>{formatIndex(data.spi)}</td>
+              <td />
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Progress</DialogTitle>
+            <DialogDescription>
+              {editing?.code} {editing?.description} · recorded as of today
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {editing?.budgetQuantity !== null && (
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={measure === 'percent' ? 'default' : 'outline'}
+                  onClick={() => setMeasure('percent')}
+                >
+                  Percent
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={measure === 'quantity' ? 'default' : 'outline'}
+                  onClick={() => setMeasure('quantity')}
+                >
+                  Quantity
+                </Button>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="wbs-progress">
+                {measure === 'percent'
+                  ? 'Percent Complete'
+                  : `Installed Quantity (of ${editing?.budgetQuantity?.toLocaleString()} ${editing?.unitOfMeasure || ''})`}
+              </Label>
+              <Input
+                id="wbs-progress"
+                type="number"
+                min={0}
+                max={measure === 'percent' ? 100 : undefined}
+                step="0.1"
+                value={progressValue}
+                onChange={(e) => setProgressValue(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="wbs-planned">Planned Percent Complete</Label>
+              <Input
+                id="wbs-planned"
+                type="number"
+                min={0}
+                max={100}
+                step="0.1"
+                value={plannedValue}
+                onChange={(e) => setPlannedValue(e.target.value)}
+                placeholder="From schedule"
+              />
+            </div>
+            {recordProgress.error && (
+              <p className="text-sm text-red-600">{recordProgress.error.message}</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => editing && recordProgress.mutate(editing)}
+              disabled={recordProgress.isPending || progressValue.trim() === ''}
+            >
+              {recordProgress.isPending ? 'Saving...' : 'Save Progress'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
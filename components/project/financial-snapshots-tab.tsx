@@ -0,0 +1,261 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Camera, GitCompare, Lock, X } from 'lucide-react'
+import { formatCurrency, cn } from '@/lib/utils'
+import type { FinancialSnapshot, SnapshotDifference } from '@/lib/services/financial-snapshot'
+import { AccountingPeriodsCard } from './accounting-periods-card'
+
+interface FinancialSnapshotsTabProps {
+  projectId: string
+}
+
+interface SnapshotComparison {
+  from: FinancialSnapshot
+  to: FinancialSnapshot
+  differences: SnapshotDifference[]
+}
+
+const SOURCE_LABELS: Record<FinancialSnapshot['source'], string> = {
+  manual: 'Manual',
+  scheduled: 'Scheduled',
+  period_close: 'Period close'
+}
+
+const formatSnapshotDate = (date: string) => new Date(date + 'T00:00:00').toLocaleDateString()
+
+const formatValue = (value: number, format: SnapshotDifference['format']) => {
+  if (format === 'percent') return `${value.toFixed(1)}%`
+  if (format === 'count') return value.toString()
+  return formatCurrency(value)
+}
+
+// Cost increases are bad news, so they show red; profit, margin and contract increases show green
+const COST_METRICS = new Set([
+  'total_po_committed',
+  'total_po_invoiced',
+  'total_labor_cost',
+  'total_committed',
+  'total_cost_to_date',
+  'cost_to_complete',
+  'forecasted_cost'
+])
+
+export function FinancialSnapshotsTab({ projectId }: FinancialSnapshotsTabProps) {
+  const queryClient = useQueryClient()
+  const [selected, setSelected] = useState<string[]>([])
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['financial-snapshots', projectId],
+    queryFn: async () => {
+      const response = await fetch(`/api/projects/${projectId}/financial-snapshots`)
+      if (!response.ok) throw new Error('Failed to fetch financial snapshots')
+      return response.json() as Promise<{ snapshots: FinancialSnapshot[] }>
+    }
+  })
+
+  const snapshots = data?.snapshots || []
+  // Compare oldest to newest regardless of the order they were ticked
+  const [fromId, toId] = [...selected].sort((a, b) => {
+    const indexA = snapshots.findIndex(s => s.id === a)
+    const indexB = snapshots.findIndex(s => s.id === b)
+    return indexB - indexA
+  })
+
+  const { data: comparison, isLoading: comparing } = useQuery({
+    queryKey: ['financial-snapshots', projectId, 'compare', fromId, toId],
+    queryFn: async () => {
+      const response = await fetch(
+        `/api/projects/${projectId}/financial-snapshots/compare?from=${fromId}&to=${toId}`
+      )
+      if (!response.ok) throw new Error('Failed to compare snapshots')
+      return response.json() as Promise<SnapshotComparison>
+    },
+    enabled: selected.length === 2
+  })
+
+  const takeSnapshot = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/projects/${projectId}/financial-snapshots`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to take snapshot')
+      return result
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['financial-snapshots', projectId] })
+    }
+  })
+
+  const toggleSelected = (snapshotId: string) => {
+    setSelected(current => {
+      if (current.includes(snapshotId)) return current.filter(id => id !== snapshotId)
+      // Keep the most recent pick when a third snapshot is ticked
+      return [...current, snapshotId].slice(-2)
+    })
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <AccountingPeriodsCard projectId={projectId} />
+
+      <Card className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold">Financial Snapshots</h3>
+            <p className="text-sm text-muted-foreground">
+              Select two snapshots to compare them
+            </p>
+          </div>
+          <Button onClick={() => takeSnapshot.mutate()} disabled={takeSnapshot.isPending}>
+            <Camera className="h-4 w-4 mr-2" />
+            {takeSnapshot.isPending ? 'Taking Snapshot...' : 'Take Snapshot'}
+          </Button>
+        </div>
+        {takeSnapshot.error && (
+          <p className="mb-4 text-sm text-red-600">{takeSnapshot.error.message}</p>
+        )}
+
+        {snapshots.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No snapshots yet. Snapshots are taken on a schedule, or take one now.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="w-10 py-3 px-4" />
+                  <th className="text-left py-3 px-4">Date</th>
+                  <th className="text-right py-3 px-4">Revised Contract</th>
+                  <th className="text-right py-3 px-4">Committed</th>
+                  <th className="text-right py-3 px-4">Cost to Date</th>
+                  <th className="text-right py-3 px-4">EAC</th>
+                  <th className="text-right py-3 px-4">Margin</th>
+                  <th className="text-right py-3 px-4">% Complete</th>
+                </tr>
+              </thead>
+              <tbody>
+                {snapshots.map(snapshot => (
+                  <tr
+                    key={snapshot.id}
+                    className={cn(
+                      'border-b hover:bg-muted/50',
+                      selected.includes(snapshot.id) && 'bg-muted/50'
+                    )}
+                  >
+                    <td className="py-3 px-4">
+                      <Checkbox
+                        checked={selected.includes(snapshot.id)}
+                        onCheckedChange={() => toggleSelected(snapshot.id)}
+                        aria-label={`Select snapshot from ${formatSnapshotDate(snapshot.snapshot_date)}`}
+                      />
+                    </td>
+                    <td className="py-3 px-4">
+                      <div className="flex items-center gap-2">
+                        {formatSnapshotDate(snapshot.snapshot_date)}
+                        <Badge variant="outline" className="text-xs">
+                          {snapshot.source === 'period_close' && <Lock className="h-3 w-3 mr-1" />}
+                          {SOURCE_LABELS[snapshot.source] || snapshot.source}
+                        </Badge>
+                      </div>
+                    </td>
+                    <td className="text-right py-3 px-4">{formatCurrency(Number(snapshot.revised_contract))}</td>
+                    <td className="text-right py-3 px-4">{formatCurrency(Number(snapshot.total_committed))}</td>
+                    <td className="text-right py-3 px-4">{formatCurrency(Number(snapshot.total_cost_to_date))}</td>
+                    <td className="text-right py-3 px-4">{formatCurrency(Number(snapshot.forecasted_cost))}</td>
+                    <td className={cn(
+                      'text-right py-3 px-4',
+                      Number(snapshot.profit_margin) < 0 && 'text-red-600'
+                    )}>
+                      {Number(snapshot.profit_margin).toFixed(1)}%
+                    </td>
+                    <td className="text-right py-3 px-4">{Number(snapshot.percent_complete).toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      {selected.length === 2 && (
+        <Card className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold flex items-center gap-2">
+              <GitCompare className="h-5 w-5" />
+              {comparison
+                ? `${formatSnapshotDate(comparison.from.snapshot_date)} → ${formatSnapshotDate(comparison.to.snapshot_date)}`
+                : 'Comparison'}
+            </h3>
+            <Button variant="ghost" size="sm" onClick={() => setSelected([])}>
+              <X className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+          </div>
+
+          {comparing || !comparison ? (
+            <div className="h-32 animate-pulse rounded bg-gray-100 dark:bg-gray-800" />
+          ) : (
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-4">Metric</th>
+                  <th className="text-right py-3 px-4">From</th>
+                  <th className="text-right py-3 px-4">To</th>
+                  <th className="text-right py-3 px-4">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.differences
+                  .filter(difference => difference.format !== 'count')
+                  .map(difference => {
+                    const worse = COST_METRICS.has(difference.metric)
+                      ? difference.change > 0
+                      : difference.change < 0
+                    return (
+                      <tr key={difference.metric} className="border-b">
+                        <td className="py-3 px-4">{difference.label}</td>
+                        <td className="text-right py-3 px-4">{formatValue(difference.from, difference.format)}</td>
+                        <td className="text-right py-3 px-4">{formatValue(difference.to, difference.format)}</td>
+                        <td className={cn(
+                          'text-right py-3 px-4 font-medium',
+                          difference.change === 0
+                            ? 'text-muted-foreground'
+                            : worse ? 'text-red-600' : 'text-green-600'
+                        )}>
+                          {difference.change > 0 ? '+' : ''}
+                          {formatValue(difference.change, difference.format)}
+                          {difference.percentChange !== null && difference.format === 'currency' && difference.change !== 0 && (
+                            <span className="ml-1 text-xs text-muted-foreground">
+                              ({difference.percentChange > 0 ? '+' : ''}{difference.percentChange.toFixed(1)}%)
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+              </tbody>
+            </table>
+          )}
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,312 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { formatCurrency } from '@/lib/utils'
+import type { ForecastScenario } from '@/lib/services/forecast-scenarios'
+
+interface ForecastScenarioEditorProps {
+  projectId: string
+  scenarioId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+}
+
+interface ScenarioDetail {
+  scenario: ForecastScenario
+  headcounts: Array<{
+    craft_type_id: string
+    week_ending: string
+    headcount: number
+    avg_weekly_hours: number
+    craft_types: { name: string; code: string; category: string } | null
+  }>
+  poForecasts: Array<{
+    purchase_order_id: string
+    forecast_amount: number
+    purchase_orders: {
+      po_number: string
+      vendor_name: string
+      committed_amount: number | null
+      invoiced_amount: number | null
+      forecast_amount: number | null
+    } | null
+  }>
+}
+
+const headcountKey = (craftTypeId: string, weekEnding: string) => `${craftTypeId}|${weekEnding}`
+
+/**
+ * Edit a scenario's weekly headcount and PO forecasts. Only changed values are saved;
+ * the live forecast is never touched until the scenario is promoted.
+ */
+export function ForecastScenarioEditor({
+  projectId,
+  scenarioId,
+  open,
+  onOpenChange,
+  onSaved
+}: ForecastScenarioEditorProps) {
+  const queryClient = useQueryClient()
+  const [headcounts, setHeadcounts] = useState<Record<string, string>>({})
+  const [poForecasts, setPOForecasts] = useState<Record<string, string>>({})
+  const [scalePercent, setScalePercent] = useState('100')
+  const [scaleFrom, setScaleFrom] = useState('')
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['forecast-scenarios', projectId, scenarioId],
+    queryFn: async () => {
+      const response = await fetch(`/api/projects/${projectId}/forecast-scenarios/${scenarioId}`)
+      if (!response.ok) throw new Error('Failed to fetch scenario')
+      return response.json() as Promise<ScenarioDetail>
+    },
+    enabled: open
+  })
+
+  useEffect(() => {
+    if (!data) return
+    setHeadcounts(Object.fromEntries(
+      data.headcounts.map(h => [headcountKey(h.craft_type_id, h.week_ending), String(Number(h.headcount))])
+    ))
+    setPOForecasts(Object.fromEntries(
+      data.poForecasts.map(f => [f.purchase_order_id, String(Number(f.forecast_amount))])
+    ))
+  }, [data])
+
+  // Weeks from the current week on; earlier weeks are covered by actuals
+  const { weeks, crafts } = useMemo(() => {
+    const today = new Date().toISOString().split('T')[0]
+    const rows = (data?.headcounts || []).filter(h => h.week_ending >= today)
+    const craftMap = new Map<string, string>()
+    rows.forEach(h => craftMap.set(h.craft_type_id, h.craft_types?.name || 'Unknown craft'))
+    return {
+      weeks: [...new Set(rows.map(h => h.week_ending))].sort(),
+      crafts: [...craftMap.entries()].map(([id, name]) => ({ id, name }))
+    }
+  }, [data])
+
+  const applyScale = () => {
+    const factor = Number(scalePercent) / 100
+    if (!Number.isFinite(factor) || factor < 0) return
+    setHeadcounts(current => Object.fromEntries(
+      Object.entries(current).map(([key, value]) => {
+        const weekEnding = key.split('|')[1]
+        if (weekEnding < (scaleFrom || weeks[0] || '') || !weeks.includes(weekEnding)) return [key, value]
+        return [key, String(Math.round(Number(value || 0) * factor * 10) / 10)]
+      })
+    ))
+  }
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const changedHeadcounts = (data?.headcounts || [])
+        .filter(h => Number(headcounts[headcountKey(h.craft_type_id, h.week_ending)]) !== Number(h.headcount))
+        .map(h => ({
+          craft_type_id: h.craft_type_id,
+          week_ending: h.week_ending,
+          headcount: Number(headcounts[headcountKey(h.craft_type_id, h.week_ending)] || 0),
+          avg_weekly_hours: Number(h.avg_weekly_hours)
+        }))
+      const changedPOForecasts = (data?.poForecasts || [])
+        .filter(f => Number(poForecasts[f.purchase_order_id]) !== Number(f.forecast_amount))
+        .map(f => ({
+          purchase_order_id: f.purchase_order_id,
+          forecast_amount: Number(poForecasts[f.purchase_order_id] || 0)
+        }))
+
+      const response = await fetch(`/api/projects/${projectId}/forecast-scenarios/${scenarioId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ headcounts: changedHeadcounts, po_forecasts: changedPOForecasts })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details?.[0]?.message || result.error || 'Failed to save scenario')
+      return result
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['forecast-scenarios', projectId] })
+      onSaved()
+      onOpenChange(false)
+    }
+  })
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{data?.scenario.name || 'Edit Scenario'}</DialogTitle>
+          <DialogDescription>
+            Changes stay in this scenario until it is promoted to the live forecast.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !data ? (
+          <div className="h-48 animate-pulse rounded bg-gray-100 dark:bg-gray-800" />
+        ) : (
+          <Tabs defaultValue="headcount">
+            <TabsList>
+              <TabsTrigger value="headcount">Headcount</TabsTrigger>
+              <TabsTrigger value="purchase-orders">PO Forecasts</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="headcount" className="mt-4 space-y-4">
+              <div className="flex flex-wrap items-end gap-3 rounded border p-3">
+                <div className="space-y-1">
+                  <Label htmlFor="scale-percent">Scale Headcount (%)</Label>
+                  <Input
+                    id="scale-percent"
+                    type="number"
+                    min={0}
+                    className="w-28"
+                    value={scalePercent}
+                    onChange={(e) => setScalePercent(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="scale-from">From Week Ending</Label>
+                  <Input
+                    id="scale-from"
+                    type="date"
+                    value={scaleFrom}
+                    onChange={(e) => setScaleFrom(e.target.value)}
+                  />
+                </div>
+                <Button variant="outline" onClick={applyScale} disabled={weeks.length === 0}>
+                  Apply
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  e.g. 120% for an acceleration, 80% for a crew reduction
+                </p>
+              </div>
+
+              {weeks.length === 0 ? (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  This scenario has no headcount forecast for upcoming weeks.
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left py-2 px-3">Week Ending</th>
+                        {crafts.map(craft => (
+                          <th key={craft.id} className="text-right py-2 px-3">{craft.name}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {weeks.map(week => (
+                        <tr key={week} className="border-b">
+                          <td className="py-2 px-3">{new Date(week + 'T00:00:00').toLocaleDateString()}</td>
+                          {crafts.map(craft => {
+                            const key = headcountKey(craft.id, week)
+                            return (
+                              <td key={craft.id} className="py-1 px-3 text-right">
+                                {key in headcounts ? (
+                                  <Input
+                                    type="number"
+                                    min={0}
+                                    step={0.1}
+                                    className="ml-auto h-8 w-24 text-right"
+                                    value={headcounts[key]}
+                                    onChange={(e) => setHeadcounts(current => ({ ...current, [key]: e.target.value }))}
+                                    aria-label={`${craft.name} headcount for week ending ${week}`}
+                                  />
+                                ) : (
+                                  <span className="text-muted-foreground">—</span>
+                                )}
+                              </td>
+                            )
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="purchase-orders" className="mt-4">
+              {data.poForecasts.length === 0 ? (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  This scenario has no purchase orders.
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left py-2 px-3">PO</th>
+                        <th className="text-left py-2 px-3">Vendor</th>
+                        <th className="text-right py-2 px-3">Committed</th>
+                        <th className="text-right py-2 px-3">Invoiced</th>
+                        <th className="text-right py-2 px-3">Live Forecast</th>
+                        <th className="text-right py-2 px-3">Scenario Forecast</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {data.poForecasts.map(forecast => (
+                        <tr key={forecast.purchase_order_id} className="border-b">
+                          <td className="py-2 px-3">{forecast.purchase_orders?.po_number}</td>
+                          <td className="py-2 px-3">{forecast.purchase_orders?.vendor_name}</td>
+                          <td className="py-2 px-3 text-right">
+                            {formatCurrency(Number(forecast.purchase_orders?.committed_amount || 0))}
+                          </td>
+                          <td className="py-2 px-3 text-right">
+                            {formatCurrency(Number(forecast.purchase_orders?.invoiced_amount || 0))}
+                          </td>
+                          <td className="py-2 px-3 text-right">
+                            {formatCurrency(Number(forecast.purchase_orders?.forecast_amount || 0))}
+                          </td>
+                          <td className="py-1 px-3 text-right">
+                            <Input
+                              type="number"
+                              min={0}
+                              className="ml-auto h-8 w-32 text-right"
+                              value={poForecasts[forecast.purchase_order_id] ?? ''}
+                              onChange={(e) => setPOForecasts(current => ({
+                                ...current,
+                                [forecast.purchase_order_id]: e.target.value
+                              }))}
+                              aria-label={`Scenario forecast for PO ${forecast.purchase_orders?.po_number}`}
+                            />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+
+        {save.error && (
+          <p className="text-sm text-red-600">{save.error.message}</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => save.mutate()} disabled={!data || save.isPending}>
+            {save.isPending ? 'Saving...' : 'Save Scenario'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
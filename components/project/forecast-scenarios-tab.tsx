@@ -0,0 +1,381 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { GitCompare, Pencil, Plus, Star, Trash2 } from 'lucide-react'
+import { formatCurrency, cn } from '@/lib/utils'
+import type { ForecastScenario, ScenarioOutcome } from '@/lib/services/forecast-scenarios'
+import { ForecastScenarioEditor } from './forecast-scenario-editor'
+
+interface ForecastScenariosTabProps {
+  projectId: string
+}
+
+const LIVE_FORECAST = 'live'
+const MAX_COMPARED = 5
+
+const formatCreated = (date: string) => new Date(date).toLocaleDateString()
+
+export function ForecastScenariosTab({ projectId }: ForecastScenariosTabProps) {
+  const queryClient = useQueryClient()
+  const [selected, setSelected] = useState<string[]>([])
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [basedOn, setBasedOn] = useState(LIVE_FORECAST)
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['forecast-scenarios', projectId],
+    queryFn: async () => {
+      const response = await fetch(`/api/projects/${projectId}/forecast-scenarios`)
+      if (!response.ok) throw new Error('Failed to fetch forecast scenarios')
+      return response.json() as Promise<{ scenarios: ForecastScenario[] }>
+    }
+  })
+
+  const scenarios = data?.scenarios || []
+
+  const { data: comparison, isFetching: comparing } = useQuery({
+    queryKey: ['forecast-scenarios', projectId, 'compare', selected],
+    queryFn: async () => {
+      const response = await fetch(
+        `/api/projects/${projectId}/forecast-scenarios/compare?ids=${selected.join(',')}`
+      )
+      if (!response.ok) throw new Error('Failed to compare scenarios')
+      return response.json() as Promise<{ outcomes: ScenarioOutcome[] }>
+    },
+    enabled: selected.length > 0
+  })
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['forecast-scenarios', projectId] })
+  }
+
+  const createScenario = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/projects/${projectId}/forecast-scenarios`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          description: description || null,
+          based_on_scenario_id: basedOn === LIVE_FORECAST ? null : basedOn
+        })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details?.[0]?.message || result.error || 'Failed to create scenario')
+      return result as { scenario: ForecastScenario }
+    },
+    onSuccess: () => {
+      setName('')
+      setDescription('')
+      setBasedOn(LIVE_FORECAST)
+      invalidate()
+    }
+  })
+
+  const promoteScenario = useMutation({
+    mutationFn: async (scenarioId: string) => {
+      const response = await fetch(
+        `/api/projects/${projectId}/forecast-scenarios/${scenarioId}/promote`,
+        { method: 'POST' }
+      )
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to promote scenario')
+      return result
+    },
+    onSuccess: () => {
+      invalidate()
+      // The live forecast changed, so everything built on it is stale
+      queryClient.invalidateQueries({ queryKey: ['project-eac', projectId] })
+      queryClient.invalidateQueries({ queryKey: ['earned-value', projectId] })
+    }
+  })
+
+  const deleteScenario = useMutation({
+    mutationFn: async (scenarioId: string) => {
+      const response = await fetch(
+        `/api/projects/${projectId}/forecast-scenarios/${scenarioId}`,
+        { method: 'DELETE' }
+      )
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to delete scenario')
+      return scenarioId
+    },
+    onSuccess: (scenarioId) => {
+      setSelected(current => current.filter(id => id !== scenarioId))
+      invalidate()
+    }
+  })
+
+  const toggleSelected = (scenarioId: string) => {
+    setSelected(current => {
+      if (current.includes(scenarioId)) return current.filter(id => id !== scenarioId)
+      return [...current, scenarioId].slice(-MAX_COMPARED)
+    })
+  }
+
+  const actionError = promoteScenario.error || deleteScenario.error
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6">
+        <div className="mb-4">
+          <h3 className="text-lg font-semibold">New Scenario</h3>
+          <p className="text-sm text-muted-foreground">
+            Copies the headcount and PO forecasts so you can try changes without touching the live forecast
+          </p>
+        </div>
+        <form
+          className="grid gap-4 md:grid-cols-4 md:items-end"
+          onSubmit={(e) => {
+            e.preventDefault()
+            createScenario.mutate()
+          }}
+        >
+          <div className="space-y-1">
+            <Label htmlFor="scenario-name">Name</Label>
+            <Input
+              id="scenario-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Accelerate to March"
+              maxLength={100}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="scenario-description">Description</Label>
+            <Input
+              id="scenario-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="scenario-based-on">Copy From</Label>
+            <Select value={basedOn} onValueChange={setBasedOn}>
+              <SelectTrigger id="scenario-based-on">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={LIVE_FORECAST}>Live forecast</SelectItem>
+                {scenarios.map(scenario => (
+                  <SelectItem key={scenario.id} value={scenario.id}>
+                    {scenario.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={!name.trim() || createScenario.isPending}>
+            <Plus className="h-4 w-4 mr-2" />
+            {createScenario.isPending ? 'Creating...' : 'Create Scenario'}
+          </Button>
+        </form>
+        {createScenario.error && (
+          <p className="mt-4 text-sm text-red-600">{createScenario.error.message}</p>
+        )}
+      </Card>
+
+      <Card className="p-6">
+        <div className="mb-4">
+          <h3 className="text-lg font-semibold">Forecast Scenarios</h3>
+          <p className="text-sm text-muted-foreground">
+            Select up to {MAX_COMPARED} scenarios to compare them with the live forecast. Promoting a
+            scenario replaces the live headcount and PO forecasts with it.
+          </p>
+        </div>
+        {actionError && (
+          <p className="mb-4 text-sm text-red-600">{actionError.message}</p>
+        )}
+
+        {scenarios.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No scenarios yet. Create one to explore options like acceleration or a crew reduction.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="w-10 py-3 px-4" />
+                  <th className="text-left py-3 px-4">Scenario</th>
+                  <th className="text-left py-3 px-4">Copied From</th>
+                  <th className="text-left py-3 px-4">Created</th>
+                  <th className="text-right py-3 px-4">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {scenarios.map(scenario => (
+                  <tr
+                    key={scenario.id}
+                    className={cn(
+                      'border-b hover:bg-muted/50',
+                      selected.includes(scenario.id) && 'bg-muted/50'
+                    )}
+                  >
+                    <td className="py-3 px-4">
+                      <Checkbox
+                        checked={selected.includes(scenario.id)}
+                        onCheckedChange={() => toggleSelected(scenario.id)}
+                        aria-label={`Select scenario ${scenario.name}`}
+                      />
+                    </td>
+                    <td className="py-3 px-4">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{scenario.name}</span>
+                        {scenario.is_current && <Badge>Current</Badge>}
+                      </div>
+                      {scenario.description && (
+                        <p className="text-xs text-muted-foreground">{scenario.description}</p>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-sm">
+                      {scenario.based_on_scenario_id
+                        ? scenarios.find(s => s.id === scenario.based_on_scenario_id)?.name || 'Deleted scenario'
+                        : 'Live forecast'}
+                    </td>
+                    <td className="py-3 px-4 text-sm">{formatCreated(scenario.created_at)}</td>
+                    <td className="py-3 px-4">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => setEditingId(scenario.id)}>
+                          <Pencil className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={promoteScenario.isPending}
+                          onClick={() => {
+                            if (confirm(`Replace the live headcount and PO forecasts with "${scenario.name}"?`)) {
+                              promoteScenario.mutate(scenario.id)
+                            }
+                          }}
+                        >
+                          <Star className="h-4 w-4 mr-1" />
+                          Promote
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={deleteScenario.isPending}
+                          onClick={() => {
+                            if (confirm(`Delete scenario "${scenario.name}"? The live forecast is not affected.`)) {
+                              deleteScenario.mutate(scenario.id)
+                            }
+                          }}
+                          aria-label={`Delete scenario ${scenario.name}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      {selected.length > 0 && (
+        <Card className="p-6">
+          <h3 className="text-lg font-semibold flex items-center gap-2 mb-4">
+            <GitCompare className="h-5 w-5" />
+            Scenario Comparison
+          </h3>
+
+          {comparing || !comparison ? (
+            <div className="h-32 animate-pulse rounded bg-gray-100 dark:bg-gray-800" />
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-3 px-4">Version</th>
+                    <th className="text-right py-3 px-4">EAC</th>
+                    <th className="text-right py-3 px-4">Change vs Live</th>
+                    <th className="text-right py-3 px-4">Bottom-up EAC</th>
+                    <th className="text-right py-3 px-4">Cost to Complete</th>
+                    <th className="text-right py-3 px-4">Profit</th>
+                    <th className="text-right py-3 px-4">Margin</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparison.outcomes.map(outcome => (
+                    <tr key={outcome.scenarioId || LIVE_FORECAST} className="border-b">
+                      <td className="py-3 px-4">
+                        <div className="flex items-center gap-2">
+                          <span className={cn(!outcome.scenarioId && 'font-medium')}>{outcome.name}</span>
+                          {outcome.isCurrent && <Badge variant="outline">Current</Badge>}
+                        </div>
+                        <p className="text-xs text-muted-foreground">{outcome.officialMethodLabel}</p>
+                      </td>
+                      <td className="text-right py-3 px-4">
+                        {outcome.estimateAtCompletion !== null ? formatCurrency(outcome.estimateAtCompletion) : '—'}
+                      </td>
+                      <td className={cn(
+                        'text-right py-3 px-4 font-medium',
+                        !outcome.eacChange
+                          ? 'text-muted-foreground'
+                          : outcome.eacChange > 0 ? 'text-red-600' : 'text-green-600'
+                      )}>
+                        {outcome.eacChange === null
+                          ? '—'
+                          : `${outcome.eacChange > 0 ? '+' : ''}${formatCurrency(outcome.eacChange)}`}
+                      </td>
+                      <td className="text-right py-3 px-4">
+                        {outcome.bottomUpEAC !== null ? formatCurrency(outcome.bottomUpEAC) : '—'}
+                      </td>
+                      <td className="text-right py-3 px-4">
+                        {outcome.estimateToComplete !== null ? formatCurrency(outcome.estimateToComplete) : '—'}
+                      </td>
+                      <td className={cn(
+                        'text-right py-3 px-4',
+                        outcome.forecastedProfit !== null && outcome.forecastedProfit < 0 && 'text-red-600'
+                      )}>
+                        {outcome.forecastedProfit !== null ? formatCurrency(outcome.forecastedProfit) : '—'}
+                      </td>
+                      <td className={cn(
+                        'text-right py-3 px-4',
+                        outcome.profitMargin !== null && outcome.profitMargin < 0 && 'text-red-600'
+                      )}>
+                        {outcome.profitMargin !== null ? `${outcome.profitMargin.toFixed(1)}%` : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
+      )}
+
+      {editingId && (
+        <ForecastScenarioEditor
+          projectId={projectId}
+          scenarioId={editingId}
+          open={!!editingId}
+          onOpenChange={(open) => { if (!open) setEditingId(null) }}
+          onSaved={invalidate}
+        />
+      )}
+    </div>
+  )
+}
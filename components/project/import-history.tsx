@@ -3,9 +3,12 @@
 import { useState, useEffect, useCallback } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { FileSpreadsheet } from 'lucide-react'
 import { formatDistanceToNow, format } from 'date-fns'
+import { formatCurrency } from '@/lib/utils'
+import type { POImportDiff } from '@/lib/services/po-import-diff'
 
 interface ImportRecord {
   id: string
@@ -16,6 +19,10 @@ interface ImportRecord {
   records_failed: number
   error_message?: string
   file_name?: string
+  metadata?: {
+    // PO imports: changes against the POs the project had before
+    diff?: POImportDiff
+  } | null
   imported_by_user: {
     first_name: string
     last_name: string
@@ -26,6 +33,101 @@ interface ImportHistoryProps {
   projectId: string
 }
 
+const formatChange = (value: number) => `${value > 0 ? '+' : ''}${formatCurrency(value)}`
+
+// What a PO import changed: counts, commitment by category, then the POs and invoices
+function POImportChanges({ diff }: { diff: POImportDiff }) {
+  const [expanded, setExpanded] = useState(false)
+  const { totals } = diff
+  const summary = [
+    totals.newPurchaseOrders > 0 && `${totals.newPurchaseOrders} new PO${totals.newPurchaseOrders === 1 ? '' : 's'}`,
+    totals.commitmentChanges > 0 && `${totals.commitmentChanges} value change${totals.commitmentChanges === 1 ? '' : 's'}`,
+    totals.statusChanges > 0 && `${totals.statusChanges} status change${totals.statusChanges === 1 ? '' : 's'}`,
+    totals.newInvoices > 0 && `${totals.newInvoices} new invoice${totals.newInvoices === 1 ? '' : 's'} (${formatCurrency(totals.newInvoiceAmount)})`
+  ].filter(Boolean)
+
+  return (
+    <div className="space-y-1 text-xs">
+      <div className="flex flex-wrap items-center gap-x-2">
+        <span className={totals.commitmentChange > 0 ? 'text-amber-600' : totals.commitmentChange < 0 ? 'text-green-600' : 'text-muted-foreground'}>
+          Commitment {formatChange(totals.commitmentChange)}
+        </span>
+        <span className="text-muted-foreground">
+          {summary.length > 0 ? summary.join(' • ') : 'No PO changes'}
+        </span>
+        <Button variant="ghost" size="sm" className="h-auto p-0 text-xs underline" onClick={() => setExpanded(!expanded)}>
+          {expanded ? 'Hide changes' : 'Show changes'}
+        </Button>
+      </div>
+      {expanded && (
+        <div className="space-y-3 pt-1">
+          <table className="w-full">
+            <thead className="text-muted-foreground">
+              <tr>
+                <th className="text-left font-medium">Category</th>
+                <th className="text-right font-medium">Before</th>
+                <th className="text-right font-medium">After</th>
+                <th className="text-right font-medium">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.commitmentByCategory.map(row => (
+                <tr key={row.category}>
+                  <td>{row.category}</td>
+                  <td className="text-right">{formatCurrency(row.previous)}</td>
+                  <td className="text-right">{formatCurrency(row.current)}</td>
+                  <td className="text-right">{formatChange(row.change)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {diff.newPurchaseOrders.length > 0 && (
+            <div>
+              <div className="font-medium">New POs</div>
+              {diff.newPurchaseOrders.map(po => (
+                <div key={po.po_number}>
+                  {po.po_number} • {po.vendor_name} • {po.budget_category} • {formatCurrency(po.committed_amount)}
+                </div>
+              ))}
+            </div>
+          )}
+          {diff.commitmentChanges.length > 0 && (
+            <div>
+              <div className="font-medium">Value changes</div>
+              {diff.commitmentChanges.map(po => (
+                <div key={po.po_number}>
+                  {po.po_number} • {po.vendor_name}: {formatCurrency(po.previous)} → {formatCurrency(po.current)} ({formatChange(po.change)})
+                </div>
+              ))}
+            </div>
+          )}
+          {diff.statusChanges.length > 0 && (
+            <div>
+              <div className="font-medium">Status changes</div>
+              {diff.statusChanges.map(po => (
+                <div key={po.po_number}>
+                  {po.po_number} • {po.vendor_name}: {po.previous} → {po.current}
+                </div>
+              ))}
+            </div>
+          )}
+          {diff.newInvoices.length > 0 && (
+            <div>
+              <div className="font-medium">New invoices</div>
+              {diff.newInvoices.map(invoice => (
+                <div key={`${invoice.po_number}-${invoice.invoice_ticket}`}>
+                  {invoice.po_number} • {invoice.invoice_ticket}
+                  {invoice.invoice_date && ` (${invoice.invoice_date})`} • {formatCurrency(invoice.amount)}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
 export function ImportHistory({ projectId }: ImportHistoryProps) {
   const [imports, setImports] = useState<ImportRecord[]>([])
   const [loading, setLoading] = useState(true)
@@ -152,6 +254,9 @@ export function ImportHistory({ projectId }: ImportHistoryProps) {
                           {record.records_processed} records processed
                         </div>
                       )}
+                      {record.import_type === 'po' && record.metadata?.diff && (
+                        <POImportChanges diff={record.metadata.diff} />
+                      )}
                       {record.error_message && (
                         <div className="text-xs text-red-600">
                           {record.error_message}
@@ -0,0 +1,332 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Clock, Plus, Trash2 } from 'lucide-react'
+import { useToast } from '@/components/ui/use-toast'
+import type { DayPremium, LaborPayRule } from '@/lib/services/pay-rules'
+
+interface PayRuleConfigProps {
+  projectId: string
+}
+
+interface CraftTypeOption {
+  id: string
+  name: string
+  code: string
+}
+
+const ALL_CRAFTS = 'all'
+
+const PREMIUM_LABELS: Record<DayPremium, string> = {
+  none: 'Normal',
+  ot: 'Overtime',
+  dt: 'Double time',
+}
+
+const parseThreshold = (value: string) => (value === '' ? null : parseFloat(value))
+
+export function PayRuleConfig({ projectId }: PayRuleConfigProps) {
+  const { toast } = useToast()
+  const [rules, setRules] = useState<LaborPayRule[]>([])
+  const [craftTypes, setCraftTypes] = useState<CraftTypeOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState({
+    name: 'Project overtime rule',
+    craftTypeId: ALL_CRAFTS,
+    dailyOt: '8',
+    dailyDt: '12',
+    weeklyOt: '40',
+    otMultiplier: '1.5',
+    dtMultiplier: '2',
+    saturdayPremium: 'none' as DayPremium,
+    sundayPremium: 'dt' as DayPremium,
+  })
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const [rulesResponse, craftsResponse] = await Promise.all([
+        fetch(`/api/projects/${projectId}/pay-rules`),
+        fetch('/api/craft-types'),
+      ])
+      if (rulesResponse.ok) {
+        const data = await rulesResponse.json()
+        setRules(data.rules)
+      }
+      if (craftsResponse.ok) {
+        setCraftTypes(await craftsResponse.json())
+      }
+    } catch (error) {
+      console.error('Error fetching pay rules:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    fetchRules()
+  }, [fetchRules])
+
+  const craftName = (craftTypeId: string | null) =>
+    craftTypeId ? craftTypes.find(ct => ct.id === craftTypeId)?.name || 'Unknown craft' : 'All crafts'
+
+  const handleAdd = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/pay-rules`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          scope: 'project',
+          craft_type_id: form.craftTypeId === ALL_CRAFTS ? null : form.craftTypeId,
+          name: form.name,
+          daily_ot_threshold: parseThreshold(form.dailyOt),
+          daily_dt_threshold: parseThreshold(form.dailyDt),
+          weekly_ot_threshold: parseThreshold(form.weeklyOt),
+          ot_multiplier: parseFloat(form.otMultiplier) || 1.5,
+          dt_multiplier: parseFloat(form.dtMultiplier) || 2,
+          saturday_premium: form.saturdayPremium,
+          sunday_premium: form.sundayPremium,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to add pay rule')
+
+      toast({
+        title: 'Pay Rule Added',
+        description: 'The rule will be applied to future labor imports.',
+      })
+
+      await fetchRules()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add pay rule',
+        variant: 'destructive',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (ruleId: string) => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/pay-rules/${ruleId}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) throw new Error('Failed to delete pay rule')
+
+      await fetchRules()
+    } catch {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete pay rule',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const describeRule = (rule: LaborPayRule) => {
+    const parts: string[] = []
+    if (rule.daily_ot_threshold !== null) parts.push(`OT after ${rule.daily_ot_threshold}h/day`)
+    if (rule.weekly_ot_threshold !== null) parts.push(`OT after ${rule.weekly_ot_threshold}h/week`)
+    if (rule.daily_dt_threshold !== null) parts.push(`DT after ${rule.daily_dt_threshold}h/day`)
+    if (rule.saturday_premium !== 'none') parts.push(`Saturday ${rule.saturday_premium.toUpperCase()}`)
+    if (rule.sunday_premium !== 'none') parts.push(`Sunday ${rule.sunday_premium.toUpperCase()}`)
+    return parts.join(' • ') || 'Timesheet split'
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Overtime Rules
+        </CardTitle>
+        <CardDescription>
+          Pay rules split the daily hours on each timesheet into straight time, overtime and double time.
+          Without a rule the ST/OT split from the timesheet is used.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="pay-rule-name">Name</Label>
+            <Input
+              id="pay-rule-name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pay-rule-craft">Craft</Label>
+            <Select
+              value={form.craftTypeId}
+              onValueChange={(value) => setForm({ ...form, craftTypeId: value })}
+            >
+              <SelectTrigger id="pay-rule-craft">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CRAFTS}>All crafts</SelectItem>
+                {craftTypes.map(ct => (
+                  <SelectItem key={ct.id} value={ct.id}>{ct.name} ({ct.code})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pay-rule-weekly-ot">Weekly OT after (hours)</Label>
+            <Input
+              id="pay-rule-weekly-ot"
+              type="number"
+              min="0"
+              value={form.weeklyOt}
+              onChange={(e) => setForm({ ...form, weeklyOt: e.target.value })}
+              placeholder="None"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pay-rule-daily-ot">Daily OT after (hours)</Label>
+            <Input
+              id="pay-rule-daily-ot"
+              type="number"
+              min="0"
+              value={form.dailyOt}
+              onChange={(e) => setForm({ ...form, dailyOt: e.target.value })}
+              placeholder="None"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pay-rule-daily-dt">Daily DT after (hours)</Label>
+            <Input
+              id="pay-rule-daily-dt"
+              type="number"
+              min="0"
+              value={form.dailyDt}
+              onChange={(e) => setForm({ ...form, dailyDt: e.target.value })}
+              placeholder="None"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="pay-rule-ot-multiplier">OT ×</Label>
+              <Input
+                id="pay-rule-ot-multiplier"
+                type="number"
+                min="1"
+                step="0.1"
+                value={form.otMultiplier}
+                onChange={(e) => setForm({ ...form, otMultiplier: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pay-rule-dt-multiplier">DT ×</Label>
+              <Input
+                id="pay-rule-dt-multiplier"
+                type="number"
+                min="1"
+                step="0.1"
+                value={form.dtMultiplier}
+                onChange={(e) => setForm({ ...form, dtMultiplier: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pay-rule-saturday">Saturday</Label>
+            <Select
+              value={form.saturdayPremium}
+              onValueChange={(value) => setForm({ ...form, saturdayPremium: value as DayPremium })}
+            >
+              <SelectTrigger id="pay-rule-saturday">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PREMIUM_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pay-rule-sunday">Sunday</Label>
+            <Select
+              value={form.sundayPremium}
+              onValueChange={(value) => setForm({ ...form, sundayPremium: value as DayPremium })}
+            >
+              <SelectTrigger id="pay-rule-sunday">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PREMIUM_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Button onClick={handleAdd} disabled={saving || !form.name}>
+          <Plus className="mr-2 h-4 w-4" />
+          {saving ? 'Saving...' : 'Add Rule'}
+        </Button>
+
+        {loading ? (
+          <div className="h-24 animate-pulse rounded bg-gray-100 dark:bg-gray-800" />
+        ) : rules.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            No pay rules configured
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Scope</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Craft</TableHead>
+                <TableHead>Rule</TableHead>
+                <TableHead className="text-right">Multipliers</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map(rule => (
+                <TableRow key={rule.id}>
+                  <TableCell>
+                    {rule.project_id ? (
+                      <Badge variant="default">Project</Badge>
+                    ) : (
+                      <Badge variant="outline">Company</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{rule.name}</TableCell>
+                  <TableCell>{craftName(rule.craft_type_id)}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{describeRule(rule)}</TableCell>
+                  <TableCell className="text-right">
+                    {Number(rule.ot_multiplier)}× / {Number(rule.dt_multiplier)}×
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {rule.project_id && (
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(rule.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
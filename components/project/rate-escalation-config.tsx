@@ -0,0 +1,268 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { TrendingUp, Plus, Trash2 } from 'lucide-react'
+import { useToast } from '@/components/ui/use-toast'
+import { formatCurrency } from '@/lib/utils'
+import type { LaborRateEscalation, RateEscalationType } from '@/lib/services/rate-escalations'
+
+interface RateEscalationConfigProps {
+  projectId: string
+}
+
+interface CraftTypeOption {
+  id: string
+  name: string
+  code: string
+}
+
+const ALL_CRAFTS = 'all'
+
+const ESCALATION_TYPE_LABELS: Record<RateEscalationType, string> = {
+  percent: 'Percent increase',
+  amount: 'Add $/hr',
+  rate: 'Set rate $/hr',
+}
+
+export function RateEscalationConfig({ projectId }: RateEscalationConfigProps) {
+  const { toast } = useToast()
+  const [escalations, setEscalations] = useState<LaborRateEscalation[]>([])
+  const [craftTypes, setCraftTypes] = useState<CraftTypeOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState({
+    name: 'Annual wage increase',
+    craftTypeId: ALL_CRAFTS,
+    effectiveDate: '',
+    escalationType: 'percent' as RateEscalationType,
+    value: '3',
+  })
+
+  const fetchEscalations = useCallback(async () => {
+    try {
+      const [escalationsResponse, craftsResponse] = await Promise.all([
+        fetch(`/api/projects/${projectId}/rate-escalations`),
+        fetch('/api/craft-types'),
+      ])
+      if (escalationsResponse.ok) {
+        const data = await escalationsResponse.json()
+        setEscalations(data.escalations)
+      }
+      if (craftsResponse.ok) {
+        setCraftTypes(await craftsResponse.json())
+      }
+    } catch (error) {
+      console.error('Error fetching rate escalations:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    fetchEscalations()
+  }, [fetchEscalations])
+
+  const craftName = (craftTypeId: string | null) =>
+    craftTypeId ? craftTypes.find(ct => ct.id === craftTypeId)?.name || 'Unknown craft' : 'All crafts'
+
+  const describeEscalation = (escalation: LaborRateEscalation) => {
+    const value = Number(escalation.value)
+    if (escalation.escalation_type === 'percent') return `${value > 0 ? '+' : ''}${value}%`
+    if (escalation.escalation_type === 'amount') return `${value >= 0 ? '+' : ''}${formatCurrency(value)}/hr`
+    return `${formatCurrency(value)}/hr`
+  }
+
+  const handleAdd = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/rate-escalations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          scope: 'project',
+          craft_type_id: form.craftTypeId === ALL_CRAFTS ? null : form.craftTypeId,
+          name: form.name,
+          effective_date: form.effectiveDate,
+          escalation_type: form.escalationType,
+          value: parseFloat(form.value),
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to add escalation')
+      }
+
+      toast({
+        title: 'Escalation Added',
+        description: 'Forecast labor costs from the effective date use the escalated rate.',
+      })
+
+      await fetchEscalations()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add escalation',
+        variant: 'destructive',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (escalationId: string) => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/rate-escalations/${escalationId}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) throw new Error('Failed to delete escalation')
+
+      await fetchEscalations()
+    } catch {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete escalation',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5" />
+          Rate Escalations
+        </CardTitle>
+        <CardDescription>
+          Annual increases and union contract steps raise forecast labor rates for weeks ending on or
+          after the effective date. Rates from actuals are treated as current today.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="escalation-name">Name</Label>
+            <Input
+              id="escalation-name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="escalation-craft">Craft</Label>
+            <Select
+              value={form.craftTypeId}
+              onValueChange={(value) => setForm({ ...form, craftTypeId: value })}
+            >
+              <SelectTrigger id="escalation-craft">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CRAFTS}>All crafts</SelectItem>
+                {craftTypes.map(ct => (
+                  <SelectItem key={ct.id} value={ct.id}>{ct.name} ({ct.code})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="escalation-date">Effective Date</Label>
+            <Input
+              id="escalation-date"
+              type="date"
+              value={form.effectiveDate}
+              onChange={(e) => setForm({ ...form, effectiveDate: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="escalation-type">Type</Label>
+            <Select
+              value={form.escalationType}
+              onValueChange={(value) => setForm({ ...form, escalationType: value as RateEscalationType })}
+            >
+              <SelectTrigger id="escalation-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(ESCALATION_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="escalation-value">
+              {form.escalationType === 'percent' ? 'Increase (%)' : 'Amount ($/hr)'}
+            </Label>
+            <Input
+              id="escalation-value"
+              type="number"
+              step="0.01"
+              value={form.value}
+              onChange={(e) => setForm({ ...form, value: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <Button onClick={handleAdd} disabled={saving || !form.name || !form.effectiveDate || form.value === ''}>
+          <Plus className="mr-2 h-4 w-4" />
+          {saving ? 'Saving...' : 'Add Escalation'}
+        </Button>
+
+        {loading ? (
+          <div className="h-24 animate-pulse rounded bg-gray-100 dark:bg-gray-800" />
+        ) : escalations.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            No rate escalations configured
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Scope</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Craft</TableHead>
+                <TableHead>Effective</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {escalations.map(escalation => (
+                <TableRow key={escalation.id}>
+                  <TableCell>
+                    {escalation.project_id ? (
+                      <Badge variant="default">Project</Badge>
+                    ) : (
+                      <Badge variant="outline">Company</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{escalation.name}</TableCell>
+                  <TableCell>{craftName(escalation.craft_type_id)}</TableCell>
+                  <TableCell>{escalation.effective_date}</TableCell>
+                  <TableCell className="text-right">{describeEscalation(escalation)}</TableCell>
+                  <TableCell className="text-right">
+                    {escalation.project_id && (
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(escalation.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
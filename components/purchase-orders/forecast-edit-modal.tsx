@@ -16,6 +16,8 @@ interface ForecastEditModalProps {
     po_number: string
     vendor_name: string
     risk_status: 'normal' | 'at-risk' | 'over-budget'
+    // Set by hand; the risk rules leave it until cleared
+    risk_status_override?: boolean
   }
   onSuccess?: () => void
 }
@@ -31,6 +33,33 @@ export function ForecastEditModal({
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
+  const handleClearOverride = async () => {
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/purchase-orders/${purchaseOrder.id}/forecast`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ clear_override: true }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to clear override')
+      }
+
+      onSuccess?.()
+      onOpenChange(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
   const handleSubmit = async () => {
     if (!riskStatus || riskStatus === purchaseOrder.risk_status) {
       onOpenChange(false)
@@ -74,7 +103,10 @@ export function ForecastEditModal({
         <DialogHeader>
           <DialogTitle>Update Risk Status</DialogTitle>
           <DialogDescription>
-            Update the risk status for PO {purchaseOrder.po_number} - {purchaseOrder.vendor_name}
+            Update the risk status for PO {purchaseOrder.po_number} - {purchaseOrder.vendor_name}.
+            {purchaseOrder.risk_status_override
+              ? ' The status was set by hand and the risk rules will leave it until the override is cleared.'
+              : ' A status set here overrides the risk rules until cleared.'}
           </DialogDescription>
         </DialogHeader>
 
@@ -160,6 +192,17 @@ export function ForecastEditModal({
         </div>
 
         <DialogFooter>
+          {purchaseOrder.risk_status_override && (
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={handleClearOverride}
+              disabled={isSubmitting}
+              className="mr-auto"
+            >
+              Clear Override
+            </Button>
+          )}
           <Button
             type="button"
             variant="outline"
@@ -0,0 +1,400 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { CircleAlert, Plus, Receipt, Trash2, Upload } from 'lucide-react'
+import { useToast } from '@/components/ui/use-toast'
+import { formatCurrency } from '@/lib/utils'
+import type {
+  InvoiceLedger as InvoiceLedgerData,
+  InvoiceLedgerEntry,
+  InvoiceMatchStatus,
+  InvoiceStatus
+} from '@/lib/services/invoice-ledger'
+import type { InvoiceImportResult } from '@/lib/services/invoice-import'
+
+interface InvoiceLedgerProps {
+  purchaseOrderId: string
+  projectId: string
+}
+
+const STATUS_LABELS: Record<InvoiceStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  paid: 'Paid',
+  cancelled: 'Cancelled'
+}
+
+const MATCH_BADGES: Record<InvoiceMatchStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  matched: { label: 'Matched', variant: 'default' },
+  variance: { label: 'Variance', variant: 'destructive' },
+  unmatched: { label: 'No ICS line', variant: 'outline' }
+}
+
+const EMPTY_FORM = {
+  invoiceNumber: '',
+  invoiceDate: new Date().toISOString().split('T')[0],
+  amount: '',
+  dueDate: '',
+  notes: ''
+}
+
+/**
+ * The PO's vendor invoices, matched against its ICS invoice lines and checked against
+ * the commitment. Invoiced amount on the PO is the total of this ledger.
+ */
+export function InvoiceLedger({ purchaseOrderId, projectId }: InvoiceLedgerProps) {
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const fileInput = useRef<HTMLInputElement>(null)
+  const [form, setForm] = useState(EMPTY_FORM)
+
+  const { data: ledger, isLoading } = useQuery({
+    queryKey: ['invoice-ledger', purchaseOrderId],
+    queryFn: async () => {
+      const response = await fetch(`/api/purchase-orders/${purchaseOrderId}/invoices`)
+      if (!response.ok) throw new Error('Failed to fetch invoices')
+      return response.json() as Promise<InvoiceLedgerData>
+    }
+  })
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['invoice-ledger', purchaseOrderId] })
+    queryClient.invalidateQueries({ queryKey: ['purchase-order', purchaseOrderId] })
+  }
+
+  const showError = (error: Error) =>
+    toast({ title: 'Error', description: error.message, variant: 'destructive' })
+
+  const flagCommitment = (entry: InvoiceLedgerEntry | undefined) => {
+    if (!entry?.exceedsCommitment) return
+    toast({
+      title: 'Invoice exceeds commitment',
+      description: `Invoice ${entry.invoice_number} is ${formatCurrency(entry.amount - entry.remainingBefore)} over the remaining commitment.`,
+      variant: 'destructive'
+    })
+  }
+
+  const addInvoice = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/purchase-orders/${purchaseOrderId}/invoices`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          invoice_number: form.invoiceNumber,
+          invoice_date: form.invoiceDate,
+          amount: Number(form.amount),
+          due_date: form.dueDate || null,
+          notes: form.notes || null
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.details?.[0]?.message || data.error || 'Failed to add invoice')
+      return data.invoice as InvoiceLedgerEntry
+    },
+    onSuccess: (entry) => {
+      setForm(EMPTY_FORM)
+      flagCommitment(entry)
+      refresh()
+    },
+    onError: showError
+  })
+
+  const updateStatus = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: InvoiceStatus }) => {
+      const response = await fetch(`/api/invoices/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to update invoice')
+      return data.invoice as InvoiceLedgerEntry
+    },
+    onSuccess: (entry) => {
+      flagCommitment(entry)
+      refresh()
+    },
+    onError: showError
+  })
+
+  const deleteInvoice = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/invoices/${id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to delete invoice')
+    },
+    onSuccess: refresh,
+    onError: showError
+  })
+
+  const importInvoices = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('project_id', projectId)
+      const response = await fetch('/api/invoices/import', { method: 'POST', body: formData })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to import invoices')
+      return data as InvoiceImportResult
+    },
+    onSuccess: (result) => {
+      toast({
+        title: 'Invoices Imported',
+        description: [
+          `${result.imported} imported`,
+          result.duplicates > 0 && `${result.duplicates} already recorded`,
+          result.errors.length > 0 && `${result.errors.length} rejected (first: row ${result.errors[0].row}, ${result.errors[0].message})`,
+          result.exceedingCommitment.length > 0 && `${result.exceedingCommitment.length} exceed their PO commitment`
+        ].filter(Boolean).join('; ')
+      })
+      refresh()
+    },
+    onError: showError,
+    onSettled: () => {
+      if (fileInput.current) fileInput.current.value = ''
+    }
+  })
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Receipt className="h-5 w-5" />
+            Invoice Ledger
+          </CardTitle>
+          <CardDescription>
+            Vendor invoices matched to the ICS invoice lines within {ledger?.tolerance.percent ?? 2}% (up to{' '}
+            {formatCurrency(ledger?.tolerance.maxAmount ?? 500)}). The PO&apos;s invoiced amount is the total of
+            invoices not cancelled.
+          </CardDescription>
+        </div>
+        <div>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,.xlsx"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) importInvoices.mutate(file)
+            }}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={importInvoices.isPending}
+            onClick={() => fileInput.current?.click()}
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            {importInvoices.isPending ? 'Importing...' : 'Import CSV'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !ledger ? (
+          <div className="h-24 animate-pulse rounded bg-gray-100 dark:bg-gray-800" />
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Committed</p>
+                <p className="font-semibold">{formatCurrency(ledger.purchaseOrder.committed_amount)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Invoiced</p>
+                <p className="font-semibold">{formatCurrency(ledger.totals.invoiced)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Remaining</p>
+                <p className={`font-semibold ${ledger.totals.remaining < 0 ? 'text-red-600' : ''}`}>
+                  {formatCurrency(ledger.totals.remaining)}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Matching</p>
+                <p className="font-semibold">
+                  {ledger.totals.matched} matched
+                  {ledger.totals.variance > 0 && `, ${ledger.totals.variance} variance`}
+                  {ledger.totals.unmatched > 0 && `, ${ledger.totals.unmatched} unmatched`}
+                </p>
+              </div>
+            </div>
+
+            {ledger.entries.length === 0 ? (
+              <div className="text-center py-6 text-muted-foreground">
+                No invoices recorded
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Invoice #</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>ICS Match</TableHead>
+                    <TableHead className="text-right">Remaining Before</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ledger.entries.map(entry => (
+                    <TableRow key={entry.id} className={entry.status === 'cancelled' ? 'text-muted-foreground line-through' : ''}>
+                      <TableCell className="font-mono">{entry.invoice_number}</TableCell>
+                      <TableCell>{entry.invoice_date}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(entry.amount)}</TableCell>
+                      <TableCell>
+                        {entry.matchStatus && (
+                          <div className="flex items-center gap-2">
+                            <Badge variant={MATCH_BADGES[entry.matchStatus].variant}>
+                              {MATCH_BADGES[entry.matchStatus].label}
+                            </Badge>
+                            {entry.variance !== null && entry.variance !== 0 && (
+                              <span className="text-xs text-muted-foreground">
+                                {entry.variance > 0 ? '+' : ''}{formatCurrency(entry.variance)} vs ICS
+                              </span>
+                            )}
+                            {entry.matchedBy === 'amount' && (
+                              <span className="text-xs text-muted-foreground">by amount</span>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <span className="inline-flex items-center gap-1">
+                          {entry.exceedsCommitment && (
+                            <CircleAlert className="h-4 w-4 text-red-600" aria-label="Exceeds remaining commitment" />
+                          )}
+                          {formatCurrency(entry.remainingBefore)}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={entry.status}
+                          onValueChange={(value) => updateStatus.mutate({ id: entry.id, status: value as InvoiceStatus })}
+                        >
+                          <SelectTrigger className="h-8 w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {entry.status !== 'paid' && (
+                          <Button variant="ghost" size="sm" onClick={() => deleteInvoice.mutate(entry.id)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {ledger.unbilledLines.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium text-amber-600">
+                  ICS invoice lines without a ledger invoice
+                </h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Invoice/Ticket</TableHead>
+                      <TableHead>Inv. Date</TableHead>
+                      <TableHead className="text-right">Lines</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {ledger.unbilledLines.map(group => (
+                      <TableRow key={group.invoiceTicket}>
+                        <TableCell className="font-mono">{group.invoiceTicket}</TableCell>
+                        <TableCell>{group.invoiceDate || '—'}</TableCell>
+                        <TableCell className="text-right">{group.lineIds.length}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(group.amount)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-5">
+              <div className="space-y-2">
+                <Label htmlFor="invoice-number">Invoice #</Label>
+                <Input
+                  id="invoice-number"
+                  value={form.invoiceNumber}
+                  onChange={(e) => setForm({ ...form, invoiceNumber: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invoice-date">Invoice Date</Label>
+                <Input
+                  id="invoice-date"
+                  type="date"
+                  value={form.invoiceDate}
+                  onChange={(e) => setForm({ ...form, invoiceDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invoice-amount">Amount</Label>
+                <Input
+                  id="invoice-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.amount}
+                  onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invoice-due-date">Due Date</Label>
+                <Input
+                  id="invoice-due-date"
+                  type="date"
+                  value={form.dueDate}
+                  onChange={(e) => setForm({ ...form, dueDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invoice-notes">Notes</Label>
+                <Input
+                  id="invoice-notes"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                />
+              </div>
+            </div>
+            {form.amount && Number(form.amount) > ledger.totals.remaining && (
+              <p className="text-sm text-red-600">
+                This invoice is more than the {formatCurrency(Math.max(ledger.totals.remaining, 0))} left on the commitment.
+              </p>
+            )}
+            <Button
+              onClick={() => addInvoice.mutate()}
+              disabled={addInvoice.isPending || !form.invoiceNumber || !form.invoiceDate || form.amount === ''}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              {addInvoice.isPending ? 'Saving...' : 'Add Invoice'}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -23,7 +23,7 @@ interface PurchaseOrder {
   forecast_amount?: number
   invoiced_amount?: number
   status: string
-  cost_center?: string | null
+  budget_category?: string | null
   cost_code?: {
     id: string
     code: string
@@ -31,7 +31,7 @@ interface PurchaseOrder {
   }
 }
 
-type SortField = 'po_number' | 'vendor_name' | 'po_value' | 'committed_amount' | 'invoiced_amount' | 'cost_center'
+type SortField = 'po_number' | 'vendor_name' | 'po_value' | 'committed_amount' | 'invoiced_amount' | 'budget_category'
 
 interface SortConfig {
   field: SortField | null
@@ -352,17 +352,8 @@ export function POLogTable({ purchaseOrders: purchaseOrdersProp, className, proj
     }
   })
 
-  // Helper function to format cost center display
-  const formatCostCenter = (costCenter: string | null | undefined) => {
-    if (!costCenter) return '-'
-    switch (costCenter) {
-      case '2000': return 'Equipment'
-      case '3000': return 'Materials'
-      case '4000': return 'Subcontracts'
-      case '5000': return 'Small Tools'
-      default: return costCenter
-    }
-  }
+  // Budget category assigned by the cost code mapping rules
+  const formatCategory = (category: string | null | undefined) => category || '-'
 
   // Sort handler
   const handleSort = (field: string) => {
@@ -412,8 +403,8 @@ export function POLogTable({ purchaseOrders: purchaseOrdersProp, className, proj
     columnFilters.forEach(filter => {
       filtered = filtered.filter(po => {
         let value: string | number | undefined
-        if (filter.column === 'cost_center') {
-          value = formatCostCenter(po.cost_center)
+        if (filter.column === 'budget_category') {
+          value = po.budget_category || ''
         } else {
           value = po[filter.column as keyof PurchaseOrder] as string | number | undefined
         }
@@ -427,9 +418,9 @@ export function POLogTable({ purchaseOrders: purchaseOrdersProp, className, proj
         let aValue: string | number | undefined = a[sortConfig.field as keyof PurchaseOrder] as string | number | undefined
         let bValue: string | number | undefined = b[sortConfig.field as keyof PurchaseOrder] as string | number | undefined
 
-        if (sortConfig.field === 'cost_center') {
-          aValue = formatCostCenter(a.cost_center)
-          bValue = formatCostCenter(b.cost_center)
+        if (sortConfig.field === 'budget_category') {
+          aValue = formatCategory(a.budget_category)
+          bValue = formatCategory(b.budget_category)
         }
 
         if (aValue !== undefined && bValue !== undefined) {
@@ -550,7 +541,7 @@ export function POLogTable({ purchaseOrders: purchaseOrdersProp, className, proj
                 Vendor
               </POLogTableHeader>
               <POLogTableHeader
-                sortKey="cost_center"
+                sortKey="budget_category"
                 currentSort={sortConfig}
                 onSort={handleSort}
                 filterable={true}
@@ -559,7 +550,7 @@ export function POLogTable({ purchaseOrders: purchaseOrdersProp, className, proj
                 className="py-3 px-2"
                 projectId={projectId}
               >
-                Cost Code
+                Category
               </POLogTableHeader>
               <POLogTableHeader
                 sortKey="po_value"
@@ -635,7 +626,7 @@ export function POLogTable({ purchaseOrders: purchaseOrdersProp, className, proj
                   </td>
                   <td className="py-4 px-2 text-gray-700">{po.vendor_name}</td>
                   <td className="py-4 px-2 text-gray-700">
-                    <span>{formatCostCenter(po.cost_center)}</span>
+                    <span>{formatCategory(po.budget_category)}</span>
                   </td>
                   <td className="text-right py-4 px-2 text-gray-900">
                     {formatCurrency(poValue)}
@@ -767,12 +758,12 @@ export function POLogTable({ purchaseOrders: purchaseOrdersProp, className, proj
                 </div>
               </div>
               
-              {/* Vendor & Cost Code */}
+              {/* Vendor & Category */}
               <div className="space-y-1">
                 <p className="text-sm font-medium text-gray-700">{po.vendor_name}</p>
-                {po.cost_center && (
+                {po.budget_category && (
                   <p className="text-sm text-gray-500">
-                    Cost Code: {formatCostCenter(po.cost_center)}
+                    Category: {po.budget_category}
                   </p>
                 )}
               </div>
@@ -0,0 +1,259 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { RiskStatusBadge } from '@/components/ui/risk-status-badge'
+import { AlertTriangle, Plus, Trash2 } from 'lucide-react'
+import { useToast } from '@/components/ui/use-toast'
+import type { PORiskRule, PORiskRuleType } from '@/lib/services/po-risk-rules'
+
+interface PORiskRulesConfigProps {
+  canManage: boolean
+}
+
+const RULE_TYPES: Record<PORiskRuleType, { label: string; threshold: string; describe: (threshold: number) => string }> = {
+  invoiced_percent: {
+    label: 'Invoiced % of commitment',
+    threshold: 'Percent',
+    describe: (threshold) => `Invoiced ≥ ${threshold}% of committed`
+  },
+  forecast_over_committed: {
+    label: 'Forecast over commitment',
+    threshold: 'Percent over',
+    describe: (threshold) => threshold > 0 ? `Forecast > committed + ${threshold}%` : 'Forecast > committed'
+  },
+  no_invoice_activity: {
+    label: 'No invoice activity',
+    threshold: 'Weeks',
+    describe: (threshold) => `Open PO with no invoice for ${threshold} week${threshold === 1 ? '' : 's'}`
+  },
+  past_expected_end: {
+    label: 'Past expected completion',
+    threshold: 'Days of grace',
+    describe: (threshold) => threshold > 0
+      ? `Open PO more than ${threshold} day${threshold === 1 ? '' : 's'} past expected completion`
+      : 'Open PO past expected completion'
+  }
+}
+
+const EMPTY_FORM = {
+  name: '',
+  ruleType: 'invoiced_percent' as PORiskRuleType,
+  threshold: '90',
+  riskStatus: 'at-risk' as PORiskRule['risk_status']
+}
+
+/**
+ * Rules that set PO risk status after every PO import, invoice import and forecast
+ * change. Statuses set by hand are left alone until the override is cleared.
+ */
+export function PORiskRulesConfig({ canManage }: PORiskRulesConfigProps) {
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const [form, setForm] = useState(EMPTY_FORM)
+
+  const { data: rules = [], isLoading } = useQuery({
+    queryKey: ['po-risk-rules'],
+    queryFn: async () => {
+      const response = await fetch('/api/po-risk-rules')
+      if (!response.ok) throw new Error('Failed to fetch risk rules')
+      const data = await response.json()
+      return data.rules as PORiskRule[]
+    }
+  })
+
+  const onChanged = (updated: number) => {
+    toast({
+      title: 'Risk Rules Updated',
+      description: `${updated} purchase order${updated === 1 ? '' : 's'} changed risk status.`
+    })
+    queryClient.invalidateQueries({ queryKey: ['po-risk-rules'] })
+    queryClient.invalidateQueries({ queryKey: ['purchase-orders'] })
+  }
+
+  const showError = (error: Error) =>
+    toast({ title: 'Error', description: error.message, variant: 'destructive' })
+
+  const addRule = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/po-risk-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name,
+          rule_type: form.ruleType,
+          threshold: Number(form.threshold),
+          risk_status: form.riskStatus
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.details?.[0]?.message || data.error || 'Failed to add rule')
+      return data.updated as number
+    },
+    onSuccess: (updated) => {
+      setForm(EMPTY_FORM)
+      onChanged(updated)
+    },
+    onError: showError
+  })
+
+  const toggleRule = useMutation({
+    mutationFn: async (rule: PORiskRule) => {
+      const response = await fetch(`/api/po-risk-rules/${rule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ is_active: !rule.is_active })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to update rule')
+      return data.updated as number
+    },
+    onSuccess: onChanged,
+    onError: showError
+  })
+
+  const deleteRule = useMutation({
+    mutationFn: async (ruleId: string) => {
+      const response = await fetch(`/api/po-risk-rules/${ruleId}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to delete rule')
+      return data.updated as number
+    },
+    onSuccess: onChanged,
+    onError: showError
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5" />
+          PO Risk Rules
+        </CardTitle>
+        <CardDescription>
+          Rules setting PO risk status after every PO import, invoice import and forecast change. When
+          several rules fire the most severe status wins. A status set by hand overrides the rules until
+          the override is cleared.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {canManage && (
+          <>
+            <div className="grid gap-4 md:grid-cols-4">
+              <div className="space-y-2">
+                <Label htmlFor="risk-rule-name">Name</Label>
+                <Input
+                  id="risk-rule-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="risk-rule-type">Condition</Label>
+                <Select
+                  value={form.ruleType}
+                  onValueChange={(value) => setForm({ ...form, ruleType: value as PORiskRuleType })}
+                >
+                  <SelectTrigger id="risk-rule-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(RULE_TYPES).map(([value, type]) => (
+                      <SelectItem key={value} value={value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="risk-rule-threshold">{RULE_TYPES[form.ruleType].threshold}</Label>
+                <Input
+                  id="risk-rule-threshold"
+                  type="number"
+                  min="0"
+                  value={form.threshold}
+                  onChange={(e) => setForm({ ...form, threshold: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="risk-rule-status">Sets Status</Label>
+                <Select
+                  value={form.riskStatus}
+                  onValueChange={(value) => setForm({ ...form, riskStatus: value as PORiskRule['risk_status'] })}
+                >
+                  <SelectTrigger id="risk-rule-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="at-risk">At Risk</SelectItem>
+                    <SelectItem value="over-budget">Over Budget</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <Button
+              onClick={() => addRule.mutate()}
+              disabled={addRule.isPending || !form.name.trim() || form.threshold === ''}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              {addRule.isPending ? 'Saving...' : 'Add Rule'}
+            </Button>
+          </>
+        )}
+
+        {isLoading ? (
+          <div className="h-24 animate-pulse rounded bg-gray-100 dark:bg-gray-800" />
+        ) : rules.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            No risk rules configured
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rule</TableHead>
+                <TableHead>Condition</TableHead>
+                <TableHead>Sets Status</TableHead>
+                <TableHead>Status</TableHead>
+                {canManage && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map(rule => (
+                <TableRow key={rule.id}>
+                  <TableCell className="font-medium">{rule.name}</TableCell>
+                  <TableCell>{RULE_TYPES[rule.rule_type].describe(rule.threshold)}</TableCell>
+                  <TableCell><RiskStatusBadge status={rule.risk_status} /></TableCell>
+                  <TableCell>
+                    {rule.is_active ? (
+                      <Badge variant="default">Active</Badge>
+                    ) : (
+                      <Badge variant="outline">Disabled</Badge>
+                    )}
+                  </TableCell>
+                  {canManage && (
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => toggleRule.mutate(rule)}>
+                        {rule.is_active ? 'Disable' : 'Enable'}
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => deleteRule.mutate(rule.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
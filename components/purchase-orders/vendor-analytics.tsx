@@ -0,0 +1,142 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { TrendingUp } from 'lucide-react'
+import { cn, formatCurrency } from '@/lib/utils'
+import { VendorPOModal } from '@/components/purchase-orders/vendor-po-modal'
+import type { VendorAnalytics as VendorAnalyticsRow } from '@/lib/services/vendors'
+
+/**
+ * Spend, commitment, invoice lag and PO growth by vendor across every project.
+ * Selecting a vendor opens its POs in the PO log.
+ */
+export function VendorAnalytics() {
+  const [search, setSearch] = useState('')
+  const [selected, setSelected] = useState<VendorAnalyticsRow | null>(null)
+
+  const { data: vendors = [], isLoading } = useQuery({
+    queryKey: ['vendor-analytics'],
+    queryFn: async () => {
+      const response = await fetch('/api/vendors/analytics')
+      if (!response.ok) throw new Error('Failed to fetch vendor analytics')
+      const data = await response.json()
+      return data.vendors as VendorAnalyticsRow[]
+    }
+  })
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    return term ? vendors.filter(vendor => vendor.vendorName.toLowerCase().includes(term)) : vendors
+  }, [vendors, search])
+
+  const totals = useMemo(() => filtered.reduce(
+    (sum, vendor) => ({
+      committed: sum.committed + vendor.committed,
+      invoiced: sum.invoiced + vendor.invoiced,
+      growth: sum.growth + vendor.growth
+    }),
+    { committed: 0, invoiced: 0, growth: 0 }
+  ), [filtered])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5" />
+          Vendor Spend
+        </CardTitle>
+        <CardDescription>
+          Committed and invoiced amounts by vendor across all projects. Invoice lag is the average
+          days from PO order date to first invoice; PO growth compares the final cost forecast with
+          the value each PO was first issued at. Cancelled POs are excluded.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search vendors"
+            className="max-w-xs"
+          />
+          <div className="flex gap-6 text-sm">
+            <span>Committed: <strong>{formatCurrency(totals.committed)}</strong></span>
+            <span>Invoiced: <strong>{formatCurrency(totals.invoiced)}</strong></span>
+            <span>PO Growth: <strong>{formatCurrency(totals.growth)}</strong></span>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="h-48 animate-pulse rounded bg-gray-100 dark:bg-gray-800" />
+        ) : filtered.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            No vendors found
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Vendor</TableHead>
+                <TableHead className="text-right">Projects</TableHead>
+                <TableHead className="text-right">POs</TableHead>
+                <TableHead className="text-right">Committed</TableHead>
+                <TableHead className="text-right">Invoiced</TableHead>
+                <TableHead className="text-right">Remaining</TableHead>
+                <TableHead className="text-right">Original Value</TableHead>
+                <TableHead className="text-right">Final Value</TableHead>
+                <TableHead className="text-right">PO Growth</TableHead>
+                <TableHead className="text-right">Invoice Lag</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.map(vendor => (
+                <TableRow
+                  key={vendor.vendorId || `name:${vendor.vendorName}`}
+                  className="cursor-pointer hover:bg-muted/50"
+                  onClick={() => setSelected(vendor)}
+                >
+                  <TableCell className="font-medium">
+                    {vendor.vendorName}
+                    {!vendor.vendorId && (
+                      <Badge variant="outline" className="ml-2">Not in vendor master</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{vendor.projectCount}</TableCell>
+                  <TableCell className="text-right">{vendor.purchaseOrderCount}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(vendor.committed)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(vendor.invoiced)}</TableCell>
+                  <TableCell className={cn('text-right', vendor.remaining < 0 && 'text-red-600')}>
+                    {formatCurrency(vendor.remaining)}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(vendor.originalValue)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(vendor.finalValue)}</TableCell>
+                  <TableCell className={cn('text-right', vendor.growth > 0 && 'text-amber-600')}>
+                    {formatCurrency(vendor.growth)}
+                    {vendor.growthPercent !== null && (
+                      <span className="ml-1 text-xs text-muted-foreground">
+                        ({vendor.growthPercent > 0 ? '+' : ''}{vendor.growthPercent.toFixed(1)}%)
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {vendor.averageInvoiceLagDays !== null ? `${vendor.averageInvoiceLagDays} days` : '—'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <VendorPOModal
+        vendor={selected}
+        onOpenChange={(open) => !open && setSelected(null)}
+      />
+    </Card>
+  )
+}
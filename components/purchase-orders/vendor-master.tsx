@@ -0,0 +1,299 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Plus, Trash2, Users, X } from 'lucide-react'
+import { useToast } from '@/components/ui/use-toast'
+import { formatCurrency } from '@/lib/utils'
+import type { UnassignedVendorName, Vendor } from '@/lib/services/vendors'
+
+interface VendorMasterProps {
+  canManage: boolean
+}
+
+const EMPTY_FORM = {
+  name: '',
+  aliases: ''
+}
+
+/**
+ * Vendors and their aliases, and PO vendor names no vendor matches yet. Changes
+ * reassign existing POs; the PO import resolves vendor names the same way.
+ */
+export function VendorMaster({ canManage }: VendorMasterProps) {
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [newAliases, setNewAliases] = useState<Record<string, string>>({})
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['vendors'],
+    queryFn: async () => {
+      const response = await fetch('/api/vendors')
+      if (!response.ok) throw new Error('Failed to fetch vendors')
+      return response.json() as Promise<{ vendors: Vendor[]; unassigned: UnassignedVendorName[] }>
+    }
+  })
+
+  const vendors = data?.vendors || []
+  const unassigned = data?.unassigned || []
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['vendors'] })
+    queryClient.invalidateQueries({ queryKey: ['vendor-analytics'] })
+  }
+
+  const showError = (error: Error) =>
+    toast({ title: 'Error', description: error.message, variant: 'destructive' })
+
+  const showAssigned = (assigned: number) =>
+    toast({
+      title: 'Vendors Updated',
+      description: `${assigned} purchase order${assigned === 1 ? '' : 's'} assigned.`
+    })
+
+  const addVendor = useMutation({
+    mutationFn: async (vendor: { name: string; aliases: string[] }) => {
+      const response = await fetch('/api/vendors', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(vendor)
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.details?.[0]?.message || data.error || 'Failed to add vendor')
+      return data.assigned as number
+    },
+    onSuccess: (assigned) => {
+      setForm(EMPTY_FORM)
+      showAssigned(assigned)
+      refresh()
+    },
+    onError: showError
+  })
+
+  const updateVendor = useMutation({
+    mutationFn: async ({ id, ...changes }: { id: string; aliases?: string[]; is_active?: boolean }) => {
+      const response = await fetch(`/api/vendors/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.details?.[0]?.message || data.error || 'Failed to update vendor')
+      return data.assigned as number
+    },
+    onSuccess: (assigned) => {
+      if (assigned > 0) showAssigned(assigned)
+      refresh()
+    },
+    onError: showError
+  })
+
+  const deleteVendor = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/vendors/${id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to delete vendor')
+    },
+    onSuccess: refresh,
+    onError: showError
+  })
+
+  const aliasNames = (vendor: Vendor) => vendor.aliases.map(alias => alias.alias)
+
+  const addAlias = (vendor: Vendor, alias: string) => {
+    if (!alias.trim()) return
+    updateVendor.mutate({ id: vendor.id, aliases: [...aliasNames(vendor), alias.trim()] })
+    setNewAliases({ ...newAliases, [vendor.id]: '' })
+  }
+
+  const removeAlias = (vendor: Vendor, aliasId: string) =>
+    updateVendor.mutate({
+      id: vendor.id,
+      aliases: vendor.aliases.filter(alias => alias.id !== aliasId).map(alias => alias.alias)
+    })
+
+  const handleAdd = () =>
+    addVendor.mutate({
+      name: form.name,
+      aliases: form.aliases.split(',').map(alias => alias.trim()).filter(Boolean)
+    })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Vendor Master
+        </CardTitle>
+        <CardDescription>
+          PO vendor names match a vendor by its name or an alias, ignoring case, punctuation and
+          suffixes such as Inc or LLC. Matched POs take the vendor&apos;s name, at import and when
+          vendors change.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {canManage && (
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="vendor-name">Vendor Name</Label>
+              <Input
+                id="vendor-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2 flex-1 min-w-[16rem]">
+              <Label htmlFor="vendor-aliases">Aliases</Label>
+              <Input
+                id="vendor-aliases"
+                value={form.aliases}
+                onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+                placeholder="Comma separated"
+              />
+            </div>
+            <Button onClick={handleAdd} disabled={addVendor.isPending || !form.name.trim()}>
+              <Plus className="mr-2 h-4 w-4" />
+              {addVendor.isPending ? 'Saving...' : 'Add Vendor'}
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="h-24 animate-pulse rounded bg-gray-100 dark:bg-gray-800" />
+        ) : vendors.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            No vendors configured
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Vendor</TableHead>
+                <TableHead>Aliases</TableHead>
+                <TableHead>Status</TableHead>
+                {canManage && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {vendors.map(vendor => (
+                <TableRow key={vendor.id}>
+                  <TableCell className="font-medium">{vendor.name}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {vendor.aliases.map(alias => (
+                        <Badge key={alias.id} variant="secondary" className="gap-1">
+                          {alias.alias}
+                          {canManage && (
+                            <button onClick={() => removeAlias(vendor, alias.id)} aria-label={`Remove ${alias.alias}`}>
+                              <X className="h-3 w-3" />
+                            </button>
+                          )}
+                        </Badge>
+                      ))}
+                      {canManage && (
+                        <Input
+                          value={newAliases[vendor.id] || ''}
+                          onChange={(e) => setNewAliases({ ...newAliases, [vendor.id]: e.target.value })}
+                          onKeyDown={(e) => e.key === 'Enter' && addAlias(vendor, newAliases[vendor.id] || '')}
+                          placeholder="Add alias"
+                          className="h-7 w-40"
+                        />
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {vendor.is_active ? (
+                      <Badge variant="default">Active</Badge>
+                    ) : (
+                      <Badge variant="outline">Inactive</Badge>
+                    )}
+                  </TableCell>
+                  {canManage && (
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => updateVendor.mutate({ id: vendor.id, is_active: !vendor.is_active })}
+                      >
+                        {vendor.is_active ? 'Deactivate' : 'Activate'}
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => deleteVendor.mutate(vendor.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {!isLoading && unassigned.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-medium text-amber-600">
+              {unassigned.length} vendor name{unassigned.length === 1 ? '' : 's'} not matched to a vendor
+            </h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Vendor Name on POs</TableHead>
+                  <TableHead className="text-right">POs</TableHead>
+                  <TableHead className="text-right">Committed</TableHead>
+                  {canManage && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {unassigned.map(entry => (
+                  <TableRow key={entry.vendor_name}>
+                    <TableCell>{entry.vendor_name}</TableCell>
+                    <TableCell className="text-right">{entry.purchase_orders}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(entry.committed_amount)}</TableCell>
+                    {canManage && (
+                      <TableCell>
+                        <div className="flex items-center justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => addVendor.mutate({ name: entry.vendor_name, aliases: [] })}
+                          >
+                            Create Vendor
+                          </Button>
+                          {vendors.length > 0 && (
+                            <Select
+                              value=""
+                              onValueChange={(vendorId) => {
+                                const vendor = vendors.find(v => v.id === vendorId)
+                                if (vendor) addAlias(vendor, entry.vendor_name)
+                              }}
+                            >
+                              <SelectTrigger className="h-8 w-48">
+                                <SelectValue placeholder="Alias of..." />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {vendors.map(vendor => (
+                                  <SelectItem key={vendor.id} value={vendor.id}>{vendor.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,81 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { POLogTable } from '@/components/purchase-orders/po-log-table'
+import { formatCurrency } from '@/lib/utils'
+import { LoaderCircle } from 'lucide-react'
+import type { VendorAnalytics } from '@/lib/services/vendors'
+
+interface VendorPOModalProps {
+  vendor: VendorAnalytics | null
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * A vendor's POs across every project, in the PO log
+ */
+export function VendorPOModal({ vendor, onOpenChange }: VendorPOModalProps) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['purchase-orders', 'vendor', vendor?.vendorId, vendor?.vendorName],
+    queryFn: async () => {
+      // Vendor names not in the vendor master are matched by name
+      const params = new URLSearchParams({ limit: 'all' })
+      if (vendor!.vendorId) {
+        params.set('filter_vendor_id', vendor!.vendorId)
+      } else {
+        params.set('filter_vendor_name', vendor!.vendorName)
+      }
+
+      const response = await fetch(`/api/purchase-orders?${params}`)
+      if (!response.ok) throw new Error('Failed to fetch purchase orders')
+      return response.json()
+    },
+    enabled: !!vendor
+  })
+
+  const purchaseOrders = data?.purchase_orders || []
+
+  return (
+    <Dialog open={!!vendor} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-7xl max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="text-xl">
+            {vendor?.vendorName} Purchase Orders
+          </DialogTitle>
+          {vendor && (
+            <div className="text-sm text-muted-foreground">
+              Total Committed: {formatCurrency(vendor.committed)} across {vendor.projectCount} project{vendor.projectCount === 1 ? '' : 's'}
+            </div>
+          )}
+        </DialogHeader>
+
+        <div className="flex-1 overflow-auto">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <LoaderCircle className="h-8 w-8 animate-spin" />
+            </div>
+          ) : error ? (
+            <div className="text-center py-8 text-destructive">
+              Failed to load purchase orders
+            </div>
+          ) : purchaseOrders.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No purchase orders found for this vendor
+            </div>
+          ) : (
+            <POLogTable
+              purchaseOrders={purchaseOrders}
+              className="border-0"
+            />
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
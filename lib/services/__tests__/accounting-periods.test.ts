@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import {
+  ClosedPeriodError,
+  describeAccountingPeriod,
+  findClosedPeriod,
+  periodEndOf,
+  periodMonthOf,
+  type AccountingPeriod
+} from '../accounting-periods'
+
+const period = (overrides: Partial<AccountingPeriod> = {}): AccountingPeriod => ({
+  id: 'period-1',
+  project_id: 'project-1',
+  period_month: '2025-07-01',
+  status: 'closed',
+  snapshot_id: 'snapshot-1',
+  closed_at: '2025-08-05T12:00:00Z',
+  closed_by: 'user-1',
+  reopened_at: null,
+  reopened_by: null,
+  reopen_reason: null,
+  ...overrides
+})
+
+describe('accounting periods', () => {
+  it('maps dates to their period month and month end', () => {
+    expect(periodMonthOf('2025-07-27')).toBe('2025-07-01')
+    expect(periodEndOf('2025-07-01')).toBe('2025-07-31')
+    expect(periodEndOf('2024-02-01')).toBe('2024-02-29')
+    expect(periodEndOf('2025-12-01')).toBe('2025-12-31')
+  })
+
+  it('finds the closed period covering a project date', () => {
+    const periods = [period()]
+
+    expect(findClosedPeriod(periods, 'project-1', '2025-07-27')?.id).toBe('period-1')
+    expect(findClosedPeriod(periods, 'project-1', '2025-08-03')).toBeNull()
+    expect(findClosedPeriod(periods, 'project-2', '2025-07-27')).toBeNull()
+  })
+
+  it('applies company-wide periods to every project', () => {
+    const periods = [period({ id: 'company', project_id: null })]
+
+    expect(findClosedPeriod(periods, 'project-2', '2025-07-06')?.id).toBe('company')
+  })
+
+  it('ignores reopened periods', () => {
+    expect(findClosedPeriod([period({ status: 'open' })], 'project-1', '2025-07-27')).toBeNull()
+  })
+
+  it('names the closed periods in the error', () => {
+    expect(describeAccountingPeriod(period({ project_id: null }))).toBe('July 2025 (company-wide)')
+    expect(new ClosedPeriodError([period()]).message).toMatch(/^July 2025 is closed/)
+  })
+})
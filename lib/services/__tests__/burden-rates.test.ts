@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_BURDEN_RATE,
+  calculateBurdenedCost,
+  resolveBurdenRate,
+  resolveEffectiveBurdenRates,
+  type LaborBurdenRate
+} from '../burden-rates'
+
+const rate = (overrides: Partial<LaborBurdenRate>): LaborBurdenRate => ({
+  id: Math.random().toString(36).slice(2),
+  project_id: null,
+  category: null,
+  burden_rate: 0.28,
+  effective_date: '2000-01-01',
+  ...overrides,
+})
+
+describe('burden rates', () => {
+  describe('resolveBurdenRate', () => {
+    it('should fall back to the default rate when nothing is configured', () => {
+      expect(resolveBurdenRate([], { projectId: 'p1', category: 'Direct', date: '2025-01-05' }))
+        .toBe(DEFAULT_BURDEN_RATE)
+    })
+
+    it('should prefer project and category specific rates', () => {
+      const rates = [
+        rate({ burden_rate: 0.25 }),
+        rate({ category: 'Direct', burden_rate: 0.3 }),
+        rate({ project_id: 'p1', burden_rate: 0.32 }),
+        rate({ project_id: 'p1', category: 'Direct', burden_rate: 0.35 }),
+      ]
+
+      expect(resolveBurdenRate(rates, { projectId: 'p1', category: 'direct', date: '2025-01-05' })).toBe(0.35)
+      expect(resolveBurdenRate(rates, { projectId: 'p1', category: 'Staff', date: '2025-01-05' })).toBe(0.32)
+      expect(resolveBurdenRate(rates, { projectId: 'p2', category: 'Direct', date: '2025-01-05' })).toBe(0.3)
+      expect(resolveBurdenRate(rates, { projectId: 'p2', category: 'Indirect', date: '2025-01-05' })).toBe(0.25)
+    })
+
+    it('should use the latest rate effective on or before the date', () => {
+      const rates = [
+        rate({ project_id: 'p1', burden_rate: 0.3, effective_date: '2025-01-01' }),
+        rate({ project_id: 'p1', burden_rate: 0.33, effective_date: '2025-03-01' }),
+      ]
+
+      expect(resolveBurdenRate(rates, { projectId: 'p1', date: '2024-12-29' })).toBe(DEFAULT_BURDEN_RATE)
+      expect(resolveBurdenRate(rates, { projectId: 'p1', date: '2025-02-23' })).toBe(0.3)
+      expect(resolveBurdenRate(rates, { projectId: 'p1', date: '2025-03-02' })).toBe(0.33)
+    })
+  })
+
+  describe('resolveEffectiveBurdenRates', () => {
+    it('should resolve a rate for every category', () => {
+      const rates = [rate({ project_id: 'p1', category: 'Staff', burden_rate: 0.4 })]
+      expect(resolveEffectiveBurdenRates(rates, 'p1', '2025-01-05')).toEqual({
+        Direct: DEFAULT_BURDEN_RATE,
+        Indirect: DEFAULT_BURDEN_RATE,
+        Staff: 0.4,
+      })
+    })
+  })
+
+  describe('calculateBurdenedCost', () => {
+    it('should use the stored burdened cost when present', () => {
+      expect(calculateBurdenedCost({ st_wages: 1000, ot_wages: 150, total_cost_with_burden: 1500 })).toBe(1500)
+    })
+
+    it('should burden straight time wages only using the record rate', () => {
+      expect(calculateBurdenedCost({ st_wages: 1000, ot_wages: 150, burden_rate: 0.3 })).toBe(1450)
+      expect(calculateBurdenedCost({ st_wages: 1000, ot_wages: 0 })).toBe(1280)
+    })
+  })
+})
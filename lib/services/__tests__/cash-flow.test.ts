@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildCashFlowForecast,
+  cashFlowPeriod,
+  combineCashFlowForecasts,
+  DEFAULT_CASH_FLOW_SETTINGS,
+  type CashFlowInput
+} from '../cash-flow'
+
+describe('cashFlowPeriod', () => {
+  it('buckets dates into Sunday week endings or months', () => {
+    expect(cashFlowPeriod('2025-01-01', 'week')).toBe('2025-01-05')
+    expect(cashFlowPeriod('2025-01-05', 'week')).toBe('2025-01-05')
+    expect(cashFlowPeriod('2025-01-31', 'month')).toBe('2025-01')
+  })
+})
+
+describe('buildCashFlowForecast', () => {
+  const input: CashFlowInput = {
+    asOf: '2025-01-01',
+    interval: 'month',
+    projectEndDate: null,
+    revisedContract: 10000,
+    settings: DEFAULT_CASH_FLOW_SETTINGS,
+    payroll: [{ weekEnding: '2025-01-05', amount: 1000 }],
+    purchaseOrders: [
+      { remaining: 3000, orderDate: null, expectedCompletionDate: '2025-03-15', termsDays: null }
+    ],
+    billingSchedule: []
+  }
+
+  it('times payroll, PO payments and cost-loaded billing less retention', () => {
+    const forecast = buildCashFlowForecast(input)
+
+    // Payroll paid Jan 12; PO invoiced at Jan, Feb and Mar month ends and paid 30 days later;
+    // the contract is billed 2000/1000/1000 of cost, paid 30 days later less 10%
+    expect(forecast.periods.map(p => [p.period, p.cashOut, p.cashIn, p.cashPosition])).toEqual([
+      ['2025-01', 1000, 0, -1000],
+      ['2025-02', 0, 0, -1000],
+      ['2025-03', 2000, 6750, 3750],
+      ['2025-04', 1000, 2250, 5000],
+      ['2025-05', 0, 1000, 6000]
+    ])
+    expect(forecast.billingSource).toBe('cost_loaded')
+    expect(forecast.retentionHeld).toBe(1000)
+    expect(forecast.totalCashIn).toBe(10000)
+    expect(forecast.totalCashOut).toBe(4000)
+    expect(forecast.peakExposure).toBe(1000)
+    expect(forecast.peakExposurePeriod).toBe('2025-01')
+  })
+
+  it('only bills the unbilled contract', () => {
+    const forecast = buildCashFlowForecast({
+      ...input,
+      settings: { ...DEFAULT_CASH_FLOW_SETTINGS, billed_to_date: 6000 }
+    })
+
+    // 4000 left to bill, but retention is held on the full 10000
+    expect(forecast.retentionHeld).toBe(1000)
+    expect(forecast.totalCashIn).toBe(4600)
+  })
+
+  it('bills from the schedule and releases retention after the project ends', () => {
+    const forecast = buildCashFlowForecast({
+      ...input,
+      interval: 'week',
+      projectEndDate: '2025-01-31',
+      payroll: [{ weekEnding: '2025-01-05', amount: 5000 }],
+      purchaseOrders: [],
+      billingSchedule: [
+        { billingDate: '2024-12-15', amount: 2000 },
+        { billingDate: '2025-01-10', amount: 10000 }
+      ]
+    })
+
+    const byPeriod = Object.fromEntries(forecast.periods.map(p => [p.period, p]))
+    expect(forecast.billingSource).toBe('schedule')
+    expect(forecast.periods[0].period).toBe('2025-01-05')
+    expect(byPeriod['2025-01-12'].payroll).toBe(5000)
+    expect(byPeriod['2025-02-09'].billingReceipts).toBe(9000)
+    // 10% of both billings, paid 60 days after the end date
+    expect(byPeriod['2025-04-06'].retentionReceipts).toBe(1200)
+    expect(forecast.peakExposure).toBe(5000)
+    expect(forecast.peakExposurePeriod).toBe('2025-01-12')
+  })
+
+  it('has no periods without cash movements', () => {
+    const forecast = buildCashFlowForecast({ ...input, revisedContract: 0, payroll: [], purchaseOrders: [] })
+
+    expect(forecast.periods).toEqual([])
+    expect(forecast.peakExposure).toBe(0)
+    expect(forecast.peakExposurePeriod).toBeNull()
+  })
+})
+
+describe('combineCashFlowForecasts', () => {
+  it('adds projects period by period and recomputes the position', () => {
+    const base = {
+      asOf: '2025-01-01',
+      interval: 'month' as const,
+      projectEndDate: null,
+      settings: DEFAULT_CASH_FLOW_SETTINGS,
+      billingSchedule: [],
+      purchaseOrders: []
+    }
+    const a = buildCashFlowForecast({ ...base, revisedContract: 0, payroll: [{ weekEnding: '2025-01-05', amount: 1000 }] })
+    const b = buildCashFlowForecast({ ...base, revisedContract: 0, payroll: [{ weekEnding: '2025-02-02', amount: 500 }] })
+
+    const combined = combineCashFlowForecasts('2025-01-01', 'month', [a, b])
+
+    expect(combined.periods.map(p => [p.period, p.payroll, p.cashPosition])).toEqual([
+      ['2025-01', 1000, -1000],
+      ['2025-02', 500, -1500]
+    ])
+    expect(combined.peakExposure).toBe(1500)
+  })
+})
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { classifyPurchaseOrder, normalizeBudgetCategory, type CostCodeMapping } from '../cost-code-mappings'
+
+const rule = (overrides: Partial<CostCodeMapping>): CostCodeMapping => ({
+  id: 'rule',
+  project_id: null,
+  cost_center: null,
+  sub_cc: null,
+  subsub_cc: null,
+  budget_category: 'MATERIALS',
+  description: null,
+  ...overrides
+})
+
+describe('classifyPurchaseOrder', () => {
+  const mappings = [
+    rule({ id: 'equipment', cost_center: '2000', budget_category: 'EQUIPMENT' }),
+    rule({ id: 'rentals', cost_center: '2000', sub_cc: '210', budget_category: 'SUBCONTRACTS' }),
+    rule({ id: 'project-equipment', project_id: 'p2', cost_center: '2000', budget_category: 'MATERIALS' }),
+    rule({ id: 'consumables', subsub_cc: '99', budget_category: 'SMALL TOOLS & CONSUMABLES' })
+  ]
+  const po = (overrides: Partial<{ project_id: string; cost_center: string; sub_cc: string; subsub_cc: string }>) => ({
+    project_id: 'p1',
+    cost_center: '2000',
+    sub_cc: '',
+    subsub_cc: '',
+    ...overrides
+  })
+
+  it('matches on cost center, preferring rules that match more codes', () => {
+    expect(classifyPurchaseOrder(po({}), mappings)?.id).toBe('equipment')
+    expect(classifyPurchaseOrder(po({ sub_cc: ' 210 ' }), mappings)?.id).toBe('rentals')
+    expect(classifyPurchaseOrder(po({ sub_cc: '210', subsub_cc: '99' }), mappings)?.id).toBe('consumables')
+  })
+
+  it('prefers project rules over company rules, for that project only', () => {
+    expect(classifyPurchaseOrder(po({ project_id: 'p2', sub_cc: '210' }), mappings)?.id).toBe('project-equipment')
+    expect(classifyPurchaseOrder(po({ project_id: 'p1' }), mappings)?.id).toBe('equipment')
+  })
+
+  it('returns null when no rule matches', () => {
+    expect(classifyPurchaseOrder(po({ cost_center: '7000' }), mappings)).toBeNull()
+    expect(classifyPurchaseOrder(po({}), [rule({})])).toBeNull()
+  })
+})
+
+describe('normalizeBudgetCategory', () => {
+  it('reads older and hand-entered spellings', () => {
+    expect(normalizeBudgetCategory('material')).toBe('MATERIALS')
+    expect(normalizeBudgetCategory('Small Tools & Consumables')).toBe('SMALL TOOLS & CONSUMABLES')
+    expect(normalizeBudgetCategory('SUBCONTRACTS')).toBe('SUBCONTRACTS')
+    expect(normalizeBudgetCategory('RISK')).toBeNull()
+    expect(normalizeBudgetCategory(null)).toBeNull()
+  })
+})
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateWBSEarnedValue,
+  schedulePercentComplete,
+  UNASSIGNED_WBS_CODE,
+  type WBSBudgetLine,
+  type WBSEarnedValueNode,
+  type WBSProgressEntry
+} from '../earned-value'
+
+describe('schedulePercentComplete', () => {
+  it('returns elapsed time as a percent of the schedule', () => {
+    expect(schedulePercentComplete('2025-01-01', '2025-01-11', '2025-01-06')).toBe(50)
+  })
+
+  it('clamps before the start and after the end', () => {
+    expect(schedulePercentComplete('2025-01-01', '2025-01-11', '2024-12-01')).toBe(0)
+    expect(schedulePercentComplete('2025-01-01', '2025-01-11', '2025-03-01')).toBe(100)
+  })
+
+  it('returns null without a usable schedule', () => {
+    expect(schedulePercentComplete(null, '2025-01-11', '2025-01-06')).toBeNull()
+    expect(schedulePercentComplete('2025-01-11', '2025-01-01', '2025-01-06')).toBeNull()
+  })
+})
+
+describe('calculateWBSEarnedValue', () => {
+  const line = (wbs_code: string | null, costs: Partial<WBSBudgetLine>): WBSBudgetLine => ({
+    wbs_code,
+    quantity: null,
+    unit_of_measure: null,
+    manhours: null,
+    total_cost: 0,
+    labor_direct_cost: 0,
+    labor_indirect_cost: 0,
+    labor_staff_cost: 0,
+    materials_cost: 0,
+    equipment_cost: 0,
+    subcontracts_cost: 0,
+    small_tools_cost: 0,
+    ...costs
+  })
+
+  const progress = (
+    wbs_code: string,
+    as_of_date: string,
+    values: Partial<WBSProgressEntry>
+  ): WBSProgressEntry => ({
+    id: `${wbs_code}-${as_of_date}`,
+    project_id: 'project-1',
+    wbs_code,
+    as_of_date,
+    percent_complete: null,
+    quantity_installed: null,
+    planned_percent_complete: null,
+    notes: null,
+    entered_by: null,
+    created_at: `${as_of_date}T12:00:00Z`,
+    ...values
+  })
+
+  const structure = [
+    { code: '1', parent_code: null, level: 1, description: 'PROJECT TOTAL', sort_order: 0 },
+    { code: '1.1', parent_code: '1', level: 2, description: 'CONSTRUCTION PHASE', sort_order: 1 },
+    { code: '1.1.08', parent_code: '1.1', level: 3, description: 'CIVIL', sort_order: 2 },
+    { code: '1.1.09', parent_code: '1.1', level: 3, description: 'MECHANICAL', sort_order: 3 }
+  ]
+
+  const lineItems = [
+    line('1.1.08.01', { total_cost: 40000, labor_direct_cost: 30000, materials_cost: 10000, manhours: 400, quantity: 100, unit_of_measure: 'CY' }),
+    line('1.1.08.02', { total_cost: 20000, materials_cost: 20000, quantity: 50, unit_of_measure: 'cy' }),
+    line('1.1.09.01', { total_cost: 40000, labor_direct_cost: 30000, subcontracts_cost: 10000, manhours: 300 })
+  ]
+
+  const findNode = (nodes: WBSEarnedValueNode[], code: string): WBSEarnedValueNode | undefined => {
+    for (const node of nodes) {
+      if (node.code === code) return node
+      const found = findNode(node.children, code)
+      if (found) return found
+    }
+    return undefined
+  }
+
+  it('rolls earned value up the hierarchy with parent progress inherited by children', () => {
+    const result = calculateWBSEarnedValue({
+      structure,
+      lineItems,
+      progress: [
+        progress('1.1.08', '2025-03-01', { percent_complete: 50 }),
+        progress('1.1.09.01', '2025-02-01', { percent_complete: 25 }),
+        // After the as-of date, so not yet counted
+        progress('1.1.09.01', '2025-04-01', { percent_complete: 75 })
+      ],
+      asOf: '2025-03-15',
+      schedulePercent: 40
+    })
+
+    expect(result.nodes).toHaveLength(1)
+    expect(result.budgetAtCompletion).toBe(100000)
+    expect(result.budgetHours).toBe(700)
+    expect(result.earnedValue).toBe(40000)
+    expect(result.earnedHours).toBe(275)
+    expect(result.plannedValue).toBe(40000)
+    expect(result.percentComplete).toBe(40)
+    expect(result.spi).toBe(1)
+    expect(result.actualCost).toBeNull()
+
+    const civil = findNode(result.nodes, '1.1.08')!
+    expect(civil.earnedValue).toBe(30000)
+    expect(civil.progressSource).toBe('entered')
+    expect(civil.budgetQuantity).toBe(150)
+
+    const civilLine = findNode(result.nodes, '1.1.08.02')!
+    expect(civilLine.earnedValue).toBe(10000)
+    expect(civilLine.progressSource).toBe('inherited')
+    expect(civilLine.parentCode).toBe('1.1.08')
+
+    expect(findNode(result.nodes, '1.1.09.01')!.percentComplete).toBe(25)
+  })
+
+  it('measures quantity progress against the budgeted quantity', () => {
+    const result = calculateWBSEarnedValue({
+      structure,
+      lineItems,
+      progress: [
+        progress('1.1.08', '2025-03-01', { percent_complete: 50 }),
+        progress('1.1.08.01', '2025-03-01', { quantity_installed: 25 })
+      ],
+      asOf: '2025-03-15',
+      schedulePercent: null
+    })
+
+    const node = findNode(result.nodes, '1.1.08.01')!
+    expect(node.percentComplete).toBe(25)
+    expect(node.earnedValue).toBe(10000)
+    expect(node.quantityInstalled).toBe(25)
+    expect(findNode(result.nodes, '1.1.08')!.earnedValue).toBe(20000)
+    expect(result.plannedValue).toBeNull()
+    expect(result.spi).toBeNull()
+  })
+
+  it('allocates category actuals by each node\'s share of the category budget', () => {
+    const result = calculateWBSEarnedValue({
+      structure,
+      lineItems,
+      progress: [progress('1', '2025-03-01', { percent_complete: 40 })],
+      asOf: '2025-03-15',
+      schedulePercent: 40,
+      categoryActuals: { direct_labor: 45000, materials: 12000, subcontracts: 3000, other: 500 }
+    })
+
+    expect(findNode(result.nodes, '1.1.08')!.actualCost).toBe(34500)
+    expect(findNode(result.nodes, '1.1.09')!.actualCost).toBe(25500)
+    expect(result.unallocatedActualCost).toBe(500)
+    expect(result.actualCost).toBe(60500)
+    expect(result.earnedValue).toBe(40000)
+    expect(result.cpi).toBeCloseTo(40000 / 60500)
+    expect(findNode(result.nodes, '1.1.08')!.cpi).toBeCloseTo(24000 / 34500)
+  })
+
+  it('implies missing parents from dotted codes and groups uncoded lines', () => {
+    const result = calculateWBSEarnedValue({
+      structure: [],
+      lineItems: [
+        line('2.1.01', { total_cost: 1000 }),
+        line(null, { total_cost: 500 })
+      ],
+      progress: [],
+      asOf: '2025-03-15',
+      schedulePercent: null
+    })
+
+    expect(result.nodes.map(node => node.code)).toEqual(['2', UNASSIGNED_WBS_CODE])
+    expect(findNode(result.nodes, '2.1')!.budget).toBe(1000)
+    expect(findNode(result.nodes, '2.1')!.level).toBe(2)
+    expect(result.earnedValue).toBeNull()
+    expect(result.percentComplete).toBeNull()
+  })
+})
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest'
+import { resolveEmployeeRate } from '../employee-rates'
+
+const history = [
+  { base_rate: 48, effective_date: '2025-07-06' },
+  { base_rate: 42, effective_date: '2000-01-01' },
+  { base_rate: 45, effective_date: '2025-03-02' }
+]
+
+describe('resolveEmployeeRate', () => {
+  it('uses the latest rate effective on or before the date', () => {
+    expect(resolveEmployeeRate(history, '2025-02-23')).toBe(42)
+    expect(resolveEmployeeRate(history, '2025-03-02')).toBe(45)
+    expect(resolveEmployeeRate(history, '2025-06-29')).toBe(45)
+    expect(resolveEmployeeRate(history, '2025-08-10')).toBe(48)
+  })
+
+  it('falls back to the earliest rate for weeks before the history', () => {
+    expect(resolveEmployeeRate([{ base_rate: 50, effective_date: '2025-08-03' }], '2025-07-27')).toBe(50)
+  })
+
+  it('returns null without history', () => {
+    expect(resolveEmployeeRate([], '2025-08-10')).toBeNull()
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import {
+  detectMasterChange,
+  findEmployeeMatches,
+  nameSimilarity,
+  normalizeEmployeeName,
+  parseEmployeeResolution,
+  type ReconciliationCraftType,
+  type ReconciliationEmployee
+} from '../employee-reconciliation'
+
+const craftTypes: ReconciliationCraftType[] = [
+  { id: 'craft-direct', code: 'DIRECT', category: 'direct' },
+  { id: 'craft-indirect', code: 'INDIRECT', category: 'indirect' },
+  { id: 'craft-staff', code: 'STAFF', category: 'staff' },
+  { id: 'craft-pf', code: 'PF', category: 'direct' },
+  { id: 'craft-el', code: 'EL', category: 'direct' }
+]
+
+const employee = (overrides: Partial<ReconciliationEmployee> = {}): ReconciliationEmployee => ({
+  id: 'emp-1',
+  employee_number: 'T1001',
+  first_name: 'John',
+  last_name: 'Smith',
+  category: 'Direct',
+  craft_type_id: 'craft-direct',
+  base_rate: 42,
+  ...overrides
+})
+
+describe('employee reconciliation', () => {
+  describe('name matching', () => {
+    it('ignores order, punctuation, initials and suffixes', () => {
+      expect(normalizeEmployeeName('SMITH, JOHN A')).toBe('john smith')
+      expect(normalizeEmployeeName('John Smith Jr.')).toBe('john smith')
+      expect(nameSimilarity('SMITH, JOHN A', 'John Smith')).toBe(1)
+    })
+
+    it('tolerates small spelling differences', () => {
+      expect(nameSimilarity('Jon Smith', 'John Smith')).toBeGreaterThan(0.75)
+      expect(nameSimilarity('Maria Garcia', 'John Smith')).toBeLessThan(0.5)
+    })
+
+    it('returns the closest employees above the threshold, best first', () => {
+      const employees = [
+        employee(),
+        employee({ id: 'emp-2', employee_number: 'T1002', first_name: 'Jon', last_name: 'Smith' }),
+        employee({ id: 'emp-3', employee_number: 'T1003', first_name: 'Maria', last_name: 'Garcia' })
+      ]
+
+      const matches = findEmployeeMatches('SMITH, JOHN', employees)
+
+      expect(matches.map(match => match.id)).toEqual(['emp-1', 'emp-2'])
+      expect(matches[0]).toMatchObject({ employee_number: 'T1001', name: 'Smith, John', score: 1 })
+    })
+  })
+
+  describe('detectMasterChange', () => {
+    it('reports a category change from a category craft code', () => {
+      expect(detectMasterChange(employee(), 'IND', craftTypes)).toMatchObject({
+        field: 'category',
+        current: 'direct',
+        incoming: 'indirect',
+        category: 'indirect',
+        craft_type_id: null
+      })
+    })
+
+    it('reports a craft change to a known trade craft', () => {
+      expect(detectMasterChange(employee({ craft_type_id: 'craft-pf' }), 'EL', craftTypes)).toMatchObject({
+        field: 'craft',
+        current: 'PF',
+        incoming: 'EL',
+        craft_type_id: 'craft-el'
+      })
+    })
+
+    it('ignores matching or unrecognised craft codes', () => {
+      expect(detectMasterChange(employee(), 'DIRECT', craftTypes)).toBeNull()
+      expect(detectMasterChange(employee({ craft_type_id: 'craft-pf' }), 'PF', craftTypes)).toBeNull()
+      expect(detectMasterChange(employee(), 'XYZ', craftTypes)).toBeNull()
+      expect(detectMasterChange(employee(), undefined, craftTypes)).toBeNull()
+    })
+  })
+
+  describe('parseEmployeeResolution', () => {
+    it('defaults when nothing was resolved', () => {
+      expect(parseEmployeeResolution(null)).toEqual({ matches: {}, rates: {}, applyChanges: [] })
+      expect(parseEmployeeResolution('')).toEqual({ matches: {}, rates: {}, applyChanges: [] })
+    })
+
+    it('rejects non-positive rates', () => {
+      expect(() => parseEmployeeResolution(JSON.stringify({ rates: { T1001: 0 } }))).toThrow()
+    })
+  })
+})
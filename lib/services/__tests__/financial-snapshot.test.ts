@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { calculateFinancialSnapshot } from '../financial-snapshot'
+import { calculateFinancialSnapshot, compareFinancialSnapshots } from '../financial-snapshot'
 import type { SupabaseClient } from '@supabase/supabase-js'
 import type { Database } from '@/types/database.generated'
 
@@ -417,4 +417,18 @@ describe('Financial Snapshot Service', () => {
       expect(result.division_id).toBeNull()
     })
   })
-})
\ No newline at end of file
+})
+
+describe('compareFinancialSnapshots', () => {
+  it('reports the change and percent change for each metric', () => {
+    const differences = compareFinancialSnapshots(
+      { forecasted_cost: 800000, profit_margin: 20, total_labor_cost: 0 },
+      { forecasted_cost: 880000, profit_margin: 12.5, total_labor_cost: 50000 }
+    )
+    const byMetric = Object.fromEntries(differences.map(d => [d.metric, d]))
+
+    expect(byMetric.forecasted_cost).toMatchObject({ from: 800000, to: 880000, change: 80000, percentChange: 10 })
+    expect(byMetric.profit_margin).toMatchObject({ change: -7.5, percentChange: -37.5 })
+    expect(byMetric.total_labor_cost.percentChange).toBeNull()
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateForecastAccuracy,
+  poForecastAsOf,
+  type ForecastAccuracyInput
+} from '../forecast-accuracy'
+
+describe('poForecastAsOf', () => {
+  const po = {
+    currentForecast: 1500,
+    forecastHistory: [
+      { changeDate: '2025-02-10T12:00:00Z', oldValue: 1200, newValue: 1500 },
+      { changeDate: '2025-01-10T12:00:00Z', oldValue: 1000, newValue: 1200 }
+    ]
+  }
+
+  it('reads the forecast back as it stood on a date', () => {
+    expect(poForecastAsOf(po, '2025-01-01')).toBe(1000)
+    expect(poForecastAsOf(po, '2025-01-10')).toBe(1200)
+    expect(poForecastAsOf(po, '2025-03-01')).toBe(1500)
+    expect(poForecastAsOf({ currentForecast: 800, forecastHistory: [] }, '2025-01-01')).toBe(800)
+  })
+})
+
+describe('calculateForecastAccuracy', () => {
+  const input: ForecastAccuracyInput = {
+    lagWeeks: 2,
+    from: '2025-02-01',
+    to: '2025-03-31',
+    projects: [
+      { id: 'p1', name: 'Refinery', jobNumber: '1001', managerId: 'm1', managerName: 'Pat Lee' },
+      { id: 'p2', name: 'Plant', jobNumber: '1002', managerId: null, managerName: null }
+    ],
+    crafts: [
+      { id: 'weld', category: 'direct', defaultRate: 50 },
+      { id: 'super', category: 'indirect', defaultRate: null }
+    ],
+    headcountHistory: [
+      // Forecast for Feb 16 as it stood two weeks earlier was 4; the later change does not count
+      { projectId: 'p1', craftTypeId: 'weld', weekEnding: '2025-02-16', headcount: 4, avgWeeklyHours: 40, recordedAt: '2025-01-20T10:00:00Z' },
+      { projectId: 'p1', craftTypeId: 'weld', weekEnding: '2025-02-16', headcount: 3, avgWeeklyHours: 40, recordedAt: '2025-02-12T10:00:00Z' }
+    ],
+    laborActuals: [
+      // January sets a $60 running rate for the forecast date
+      { projectId: 'p1', craftTypeId: 'weld', weekEnding: '2025-01-26', headcount: 1, hours: 40, cost: 2400 },
+      { projectId: 'p1', craftTypeId: 'weld', weekEnding: '2025-02-16', headcount: 3, hours: 120, cost: 7200 },
+      // Worked without a forecast that week
+      { projectId: 'p1', craftTypeId: 'super', weekEnding: '2025-02-16', headcount: 1, hours: 40, cost: 3000 },
+      // A project that was never forecast is not measured
+      { projectId: 'p2', craftTypeId: 'weld', weekEnding: '2025-02-16', headcount: 5, hours: 200, cost: 10000 }
+    ],
+    purchaseOrders: [
+      {
+        projectId: 'p2',
+        category: 'materials',
+        orderDate: '2025-01-01',
+        completedDate: '2025-03-15',
+        finalInvoiced: 1100,
+        currentForecast: 1100,
+        forecastHistory: [{ changeDate: '2025-03-10', oldValue: 1000, newValue: 1100 }]
+      },
+      // Ordered after its forecast date
+      {
+        projectId: 'p2',
+        category: 'materials',
+        orderDate: '2025-03-10',
+        completedDate: '2025-03-15',
+        finalInvoiced: 500,
+        currentForecast: 500,
+        forecastHistory: []
+      }
+    ]
+  }
+
+  it('compares forecasts as they stood lagWeeks earlier with actuals', () => {
+    const report = calculateForecastAccuracy(input)
+
+    // Weld: 4 forecast, 3 actual; super: 0 forecast, 1 actual
+    expect(report.headcount.overall).toMatchObject({ samples: 2, forecast: 4, actual: 4, bias: 0, absoluteError: 2 })
+    expect(report.headcount.byCategory.map(g => [g.label, g.bias])).toEqual([
+      ['Direct', 1],
+      ['Indirect', -1]
+    ])
+    // 160 forecast hours at $60 against 7200 + 3000 actual
+    expect(report.laborCost.overall).toMatchObject({ forecast: 9600, actual: 10200, bias: -600 })
+    expect(report.laborCost.byManager.map(g => g.label)).toEqual(['Pat Lee'])
+  })
+
+  it('measures completed POs against the forecast lagWeeks before their last invoice', () => {
+    const report = calculateForecastAccuracy(input)
+
+    expect(report.purchaseOrders.overall).toMatchObject({
+      samples: 1,
+      forecast: 1000,
+      actual: 1100,
+      bias: -100,
+      biasPercent: -9.09,
+      errorPercent: 9.09
+    })
+    expect(report.purchaseOrders.byManager.map(g => g.label)).toEqual(['Unassigned'])
+    expect(report.purchaseOrders.byProject.map(g => g.label)).toEqual(['1002 - Plant'])
+  })
+
+  it('leaves forecasts without a rate out of labor cost', () => {
+    const report = calculateForecastAccuracy({
+      ...input,
+      laborActuals: [],
+      crafts: [{ id: 'weld', category: 'direct', defaultRate: null }]
+    })
+
+    expect(report.uncostedSamples).toBe(1)
+    expect(report.laborCost.overall.samples).toBe(0)
+    expect(report.headcount.overall.samples).toBe(1)
+  })
+})
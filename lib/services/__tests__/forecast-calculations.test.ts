@@ -254,7 +254,7 @@ describe('ForecastCalculationService', () => {
       expect(result.byCategory.staff).toBe(5600)
     })
 
-    it('should use 50 as fallback rate when no rate is available', async () => {
+    it('should leave crafts without a rate uncosted and warn', async () => {
       const forecasts = [{ forecasted_headcount: 2, weekly_hours: 40, craft_type: 'unknown' }]
       
       const result = await ForecastCalculationService.calculateFutureLaborCost(
@@ -264,7 +264,50 @@ describe('ForecastCalculationService', () => {
         craftTypes
       )
 
-      expect(result.total).toBe(4000) // 2 * 40 * 50
+      expect(result.total).toBe(0)
+      expect(result.rates[0]).toMatchObject({ source: 'missing', rate: null, hours: 80, cost: 0 })
+      expect(result.warnings).toHaveLength(1)
+      expect(result.warnings[0]).toMatchObject({ craftTypeId: 'unknown', hours: 80 })
+    })
+
+    it('should report the rate source per craft and week', async () => {
+      const result = await ForecastCalculationService.calculateFutureLaborCost(
+        'project1',
+        laborForecasts,
+        runningAverageRates,
+        craftTypes
+      )
+
+      expect(result.rates.map(r => [r.craftTypeId, r.source, r.rate])).toEqual([
+        ['craft1', 'running_average', 55],
+        ['craft2', 'running_average', 65],
+        ['craft3', 'default_rate', 70],
+      ])
+      expect(result.warnings).toEqual([])
+    })
+
+    it('should escalate rates for weeks after the effective date', async () => {
+      const forecasts = [
+        { forecasted_headcount: 1, weekly_hours: 40, craft_type: 'craft1', week_ending: '2025-06-29' },
+        { forecasted_headcount: 1, weekly_hours: 40, craft_type: 'craft1', week_ending: '2025-07-06' },
+      ]
+
+      const result = await ForecastCalculationService.calculateFutureLaborCost(
+        'project1',
+        forecasts,
+        { craft1: 50 },
+        craftTypes,
+        {
+          asOfDate: '2025-06-01',
+          escalations: [
+            { craft_type_id: null, name: 'July increase', effective_date: '2025-07-01', escalation_type: 'percent', value: 10 }
+          ]
+        }
+      )
+
+      expect(result.rates.map(r => r.rate)).toEqual([50, 55])
+      expect(result.rates[1].escalations).toEqual(['July increase'])
+      expect(result.total).toBe(4200) // 40 * 50 + 40 * 55
     })
 
     it('should handle empty forecasts', async () => {
@@ -292,4 +335,85 @@ describe('ForecastCalculationService', () => {
       expect(result.total).toBe(2200) // 1 * 40 * 55
     })
   })
-})
\ No newline at end of file
+
+  describe('calculateEACMethods', () => {
+    const input = {
+      budgets: { direct_labor: 100000, materials: 50000 },
+      purchaseOrders: [
+        { committed_amount: 40000, invoiced_amount: 30000, forecast_amount: null, forecasted_final_cost: null, budget_category: 'MATERIALS' },
+      ],
+      laborActuals: [
+        { actual_cost: 60000, actual_hours: 1000, week_ending: '2025-07-06', craft_type: { id: 'craft1', category: 'direct' } },
+      ],
+      laborForecasts: [{ forecasted_headcount: 5, weekly_hours: 40, craft_type: 'craft1' }],
+      craftTypes: [{ id: 'craft1', default_rate: 50, category: 'direct' }],
+    }
+
+    const byMethod = (result: Awaited<ReturnType<typeof ForecastCalculationService.calculateEACMethods>>) =>
+      Object.fromEntries(result.methods.map(m => [m.method, m]))
+
+    it('calculates bottom-up from commitments and forecast labor by category', async () => {
+      const result = await ForecastCalculationService.calculateEACMethods('project1', input)
+      const bottomUp = byMethod(result).bottom_up
+
+      // Labor: 60,000 actual + 5 * 40 * 60 running average; materials: 30,000 invoiced + 10,000 open
+      expect(bottomUp.estimateAtCompletion).toBe(112000)
+      expect(bottomUp.categories.map(c => [c.category, c.estimateAtCompletion])).toEqual([
+        ['direct_labor', 72000],
+        ['materials', 40000],
+      ])
+      expect(result.actualCostToDate).toBe(90000)
+    })
+
+    it('uses entered PO forecasts in bottom-up', async () => {
+      const result = await ForecastCalculationService.calculateEACMethods('project1', {
+        ...input,
+        purchaseOrders: [{ ...input.purchaseOrders[0], forecast_amount: 45000 }],
+      })
+      const bottomUp = byMethod(result).bottom_up
+
+      expect(bottomUp.categories.find(c => c.category === 'materials')?.estimateAtCompletion).toBe(45000)
+      expect(result.actualCostToDate).toBe(90000)
+    })
+
+    it('needs percent complete for the earned value methods', async () => {
+      const methods = byMethod(await ForecastCalculationService.calculateEACMethods('project1', input))
+
+      expect(methods.cpi.available).toBe(false)
+      expect(methods.cpi_spi.available).toBe(false)
+      expect(methods.budget_remaining.available).toBe(false)
+      expect(methods.manual.available).toBe(false)
+    })
+
+    it('calculates CPI, CPI × SPI and budget remaining from progress', async () => {
+      const result = await ForecastCalculationService.calculateEACMethods('project1', {
+        ...input,
+        percentComplete: 50,
+        plannedPercentComplete: 62.5,
+      })
+      const methods = byMethod(result)
+
+      expect(result.earnedValue).toBe(75000)
+      expect(result.cpi).toBeCloseTo(0.8333, 4)
+      expect(result.spi).toBeCloseTo(0.8, 4)
+      // BAC / CPI = 150,000 / 0.8333
+      expect(methods.cpi.estimateAtCompletion).toBeCloseTo(180000, 2)
+      // AC + (BAC - EV) / (CPI * SPI)
+      expect(methods.cpi_spi.estimateAtCompletion).toBeCloseTo(202500, 2)
+      // AC + (BAC - EV)
+      expect(methods.budget_remaining.estimateAtCompletion).toBe(165000)
+      expect(methods.budget_remaining.variance).toBe(-15000)
+    })
+
+    it('uses the manual estimate as entered', async () => {
+      const methods = byMethod(await ForecastCalculationService.calculateEACMethods('project1', {
+        ...input,
+        manual: { eac: 170000, justification: 'Owner-directed acceleration' },
+      }))
+
+      expect(methods.manual.estimateAtCompletion).toBe(170000)
+      expect(methods.manual.estimateToComplete).toBe(80000)
+      expect(methods.manual.categories.every(c => c.estimateAtCompletion === null)).toBe(true)
+    })
+  })
+})
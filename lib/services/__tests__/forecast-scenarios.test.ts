@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { createForecastScenario, scenarioMargin } from '../forecast-scenarios'
+import { fetchProjectEAC } from '../project-eac'
+import { ForecastCalculationService } from '../forecast-calculations'
+import { createSupabaseStub, type RecordedCall } from './helpers/supabase-stub'
+
+const purchaseOrders = [
+  { id: 'po1', committed_amount: 10000, invoiced_amount: 2000, forecast_amount: 12000, budget_category: 'Materials', status: 'approved' },
+  { id: 'po2', committed_amount: 5000, invoiced_amount: 0, forecast_amount: null, budget_category: 'Materials', status: 'approved' }
+]
+
+const liveHeadcounts = [
+  { craft_type_id: 'ct1', week_ending: '2025-07-06T00:00:00.000Z', headcount: 4, avg_weekly_hours: 50 }
+]
+
+const scenarioHeadcounts = [
+  { craft_type_id: 'ct1', week_ending: '2025-07-06', headcount: 6, avg_weekly_hours: 40 }
+]
+
+function respond(call: RecordedCall) {
+  switch (call.table) {
+    case 'projects':
+      return { id: 'p1', start_date: '2025-01-01', end_date: '2025-12-31' }
+    case 'forecast_scenarios':
+      return call.operation === 'insert'
+        ? { id: 'new', ...(call.payload as object) }
+        : call.filters.some(([, , value]) => value === 'missing') ? null : { id: 's1' }
+    case 'purchase_orders':
+      return purchaseOrders
+    case 'labor_headcount_forecasts':
+      return liveHeadcounts
+    case 'forecast_scenario_headcounts':
+      return scenarioHeadcounts
+    case 'forecast_scenario_po_forecasts':
+      return [{ purchase_order_id: 'po1', forecast_amount: 15000 }]
+    case 'project_eac_settings':
+      return null
+    default:
+      return []
+  }
+}
+
+const insertedInto = (calls: RecordedCall[], table: string) =>
+  calls.find(call => call.table === table && call.operation === 'insert')?.payload
+
+describe('scenarioMargin', () => {
+  it('returns profit and margin against the revised contract', () => {
+    expect(scenarioMargin(1000000, 900000)).toEqual({ forecastedProfit: 100000, profitMargin: 10 })
+    expect(scenarioMargin(1000000, 1050000)).toEqual({ forecastedProfit: -50000, profitMargin: -5 })
+  })
+
+  it('has no margin without a contract or an estimate', () => {
+    expect(scenarioMargin(0, 50000)).toEqual({ forecastedProfit: -50000, profitMargin: null })
+    expect(scenarioMargin(1000000, null)).toEqual({ forecastedProfit: null, profitMargin: null })
+  })
+})
+
+describe('createForecastScenario', () => {
+  it('copies the live forecast, using the committed amount for POs without a forecast', async () => {
+    const { client, calls } = createSupabaseStub(respond)
+    const scenario = await createForecastScenario(client, { projectId: 'p1', name: 'Base', userId: 'u1' })
+
+    expect(scenario).toMatchObject({ id: 'new', based_on_scenario_id: null })
+    expect(insertedInto(calls, 'forecast_scenario_headcounts')).toEqual([
+      { craft_type_id: 'ct1', week_ending: '2025-07-06', headcount: 4, avg_weekly_hours: 50, scenario_id: 'new' }
+    ])
+    expect(insertedInto(calls, 'forecast_scenario_po_forecasts')).toEqual([
+      { purchase_order_id: 'po1', forecast_amount: 12000, scenario_id: 'new' },
+      { purchase_order_id: 'po2', forecast_amount: 5000, scenario_id: 'new' }
+    ])
+  })
+
+  it('copies another scenario without reading the live forecast', async () => {
+    const { client, calls } = createSupabaseStub(respond)
+    await createForecastScenario(client, { projectId: 'p1', name: 'Lean', basedOnScenarioId: 's1', userId: 'u1' })
+
+    expect(calls.some(call => call.table === 'labor_headcount_forecasts' || call.table === 'purchase_orders')).toBe(false)
+    expect(insertedInto(calls, 'forecast_scenarios')).toMatchObject({ based_on_scenario_id: 's1' })
+    expect(insertedInto(calls, 'forecast_scenario_headcounts')).toEqual([{ ...scenarioHeadcounts[0], scenario_id: 'new' }])
+    expect(insertedInto(calls, 'forecast_scenario_po_forecasts')).toEqual([
+      { purchase_order_id: 'po1', forecast_amount: 15000, scenario_id: 'new' }
+    ])
+  })
+
+  it('rejects a source scenario from another project before writing', async () => {
+    const { client, calls } = createSupabaseStub(respond)
+    await expect(
+      createForecastScenario(client, { projectId: 'p1', name: 'Copy', basedOnScenarioId: 'missing', userId: 'u1' })
+    ).rejects.toThrow('Scenario not found')
+    expect(calls.some(call => call.operation === 'insert')).toBe(false)
+  })
+})
+
+describe('fetchProjectEAC with a scenario', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("replaces live PO forecasts and headcounts with the scenario's", async () => {
+    const calculate = vi.spyOn(ForecastCalculationService, 'calculateEACMethods')
+    const { client, calls } = createSupabaseStub(respond)
+    await fetchProjectEAC(client, 'p1', '2025-06-15', 's1')
+
+    const input = calculate.mock.calls[0][1]
+    // Scenario forecast wins where it has one; other POs keep their live forecast
+    expect(input.purchaseOrders.map(po => po.forecast_amount)).toEqual([15000, null])
+    expect(input.laborForecasts).toEqual([
+      { forecasted_headcount: 6, weekly_hours: 40, craft_type: 'ct1', week_ending: '2025-07-06' }
+    ])
+    expect(calls.some(call => call.table === 'labor_headcount_forecasts')).toBe(false)
+  })
+
+  it('uses the live forecast without a scenario', async () => {
+    const calculate = vi.spyOn(ForecastCalculationService, 'calculateEACMethods')
+    const { client, calls } = createSupabaseStub(respond)
+    await fetchProjectEAC(client, 'p1', '2025-06-15')
+
+    expect(calculate.mock.calls[0][1].purchaseOrders.map(po => po.forecast_amount)).toEqual([12000, null])
+    expect(calls.some(call => call.table.startsWith('forecast_scenario'))).toBe(false)
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import {
+  curveWeights,
+  generateHeadcountCurve,
+  headcountCategoryOf,
+  weekEndingsBetween
+} from '../headcount-curve'
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+describe('curveWeights', () => {
+  it('sums to 1 for every curve', () => {
+    for (const curve of ['flat', 'front_loaded', 'back_loaded', 's_curve'] as const) {
+      expect(sum(curveWeights(curve, 10))).toBeCloseTo(1, 10)
+    }
+    expect(sum(curveWeights('custom', 7, [1, 4, 2]))).toBeCloseTo(1, 10)
+  })
+
+  it('shapes the weeks by curve', () => {
+    const front = curveWeights('front_loaded', 6)
+    const back = curveWeights('back_loaded', 6)
+    const sCurve = curveWeights('s_curve', 6)
+
+    expect(curveWeights('flat', 4)).toEqual([0.25, 0.25, 0.25, 0.25])
+    expect(front[0]).toBeGreaterThan(front[5])
+    expect(back[0]).toBeLessThan(back[5])
+    expect(sCurve[2]).toBeGreaterThan(sCurve[0])
+    expect(sCurve[3]).toBeGreaterThan(sCurve[5])
+  })
+
+  it('stretches a custom profile over the schedule', () => {
+    const weights = curveWeights('custom', 4, [0, 1])
+    expect(weights[0]).toBeLessThan(weights[3])
+    expect(weights[1] / weights[0]).toBeCloseTo(3, 10)
+  })
+
+  it('returns no weights without weeks', () => {
+    expect(curveWeights('flat', 0)).toEqual([])
+  })
+})
+
+describe('weekEndingsBetween', () => {
+  it('lists the Sundays ending each week in the range', () => {
+    // 2025-03-05 is a Wednesday; 2025-03-23 is a Sunday
+    expect(weekEndingsBetween('2025-03-05', '2025-03-23')).toEqual([
+      '2025-03-09',
+      '2025-03-16',
+      '2025-03-23'
+    ])
+  })
+
+  it('returns nothing when the end is before the start', () => {
+    expect(weekEndingsBetween('2025-03-20', '2025-03-01')).toEqual([])
+  })
+})
+
+describe('generateHeadcountCurve', () => {
+  it('spreads remaining hours and converts them to headcount', () => {
+    const result = generateHeadcountCurve({
+      budgetedHours: { direct: 2000, indirect: 600, staff: 0 },
+      actualHours: { direct: 1000, indirect: 700, staff: 0 },
+      weekEndings: ['2025-03-09', '2025-03-16', '2025-03-23', '2025-03-30'],
+      curve: 'flat',
+      hoursPerPerson: 50
+    })
+
+    expect(result.remainingHours).toEqual({ direct: 1000, indirect: 0, staff: 0 })
+    expect(result.weeks).toHaveLength(4)
+    // Categories that are already spent get no forecast
+    expect(result.weeks[0].entries).toEqual([{ category: 'direct', hours: 250, headcount: 5 }])
+  })
+})
+
+describe('headcountCategoryOf', () => {
+  it('maps budget cost types to labor categories', () => {
+    expect(headcountCategoryOf('DIRECT LABOR')).toBe('direct')
+    expect(headcountCategoryOf('Indirect Labor')).toBe('indirect')
+    expect(headcountCategoryOf('STAFF LABOR')).toBe('staff')
+    expect(headcountCategoryOf('MATERIALS')).toBeNull()
+  })
+})
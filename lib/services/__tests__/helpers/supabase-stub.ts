@@ -0,0 +1,66 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export interface RecordedCall {
+  table: string
+  operation: 'select' | 'insert' | 'upsert' | 'update' | 'delete'
+  payload?: unknown
+  filters: Array<[string, string, unknown]>
+  // Rows requested with .range(from, to)
+  range?: [number, number]
+}
+
+/**
+ * Chainable Supabase query stub for service tests. Each query is recorded when it is
+ * awaited and resolves to { data: respond(call), error: null }.
+ */
+export function createSupabaseStub(respond: (call: RecordedCall) => unknown = () => []) {
+  const calls: RecordedCall[] = []
+
+  const from = (table: string) => {
+    const call: RecordedCall = { table, operation: 'select', filters: [] }
+    const write = (operation: RecordedCall['operation']) => (payload?: unknown) => {
+      call.operation = operation
+      call.payload = payload
+      return builder
+    }
+    const filter = (operator: string) => (column: string, value?: unknown) => {
+      call.filters.push([operator, column, value])
+      return builder
+    }
+    const builder = {
+      select: () => builder,
+      insert: write('insert'),
+      upsert: write('upsert'),
+      update: write('update'),
+      delete: write('delete'),
+      eq: filter('eq'),
+      neq: filter('neq'),
+      gt: filter('gt'),
+      gte: filter('gte'),
+      lt: filter('lt'),
+      lte: filter('lte'),
+      in: filter('in'),
+      is: filter('is'),
+      or: filter('or'),
+      not: (column: string, operator: string, value: unknown) => {
+        call.filters.push([`not.${operator}`, column, value])
+        return builder
+      },
+      order: () => builder,
+      limit: () => builder,
+      range: (fromRow: number, toRow: number) => {
+        call.range = [fromRow, toRow]
+        return builder
+      },
+      single: () => builder,
+      maybeSingle: () => builder,
+      then: (resolve: (value: unknown) => void) => {
+        calls.push(call)
+        resolve({ data: respond(call), error: null })
+      }
+    }
+    return builder
+  }
+
+  return { client: { from } as unknown as SupabaseClient, calls }
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest'
+import {
+  ImportChangeTracker,
+  findImportDependencies,
+  importChangeDates,
+  revertImportChanges,
+  type UndoableImport
+} from '../import-changes'
+import { createSupabaseStub } from './helpers/supabase-stub'
+
+describe('import changes', () => {
+  describe('ImportChangeTracker', () => {
+    it('keeps the first before-image when a row changes twice', () => {
+      const tracker = new ImportChangeTracker()
+      tracker.recordUpdates('labor_actuals', [{ id: 'a', actual_hours: 10 }])
+      tracker.recordUpdates('labor_actuals', [{ id: 'a', actual_hours: 20 }])
+      tracker.recordInserts('employees', [{ id: 'e1' }])
+
+      expect(tracker.rowChanges).toEqual([
+        { table: 'labor_actuals', id: 'a', action: 'update', before: { id: 'a', actual_hours: 10 } },
+        { table: 'employees', id: 'e1', action: 'insert', before: null }
+      ])
+    })
+  })
+
+  describe('revertImportChanges', () => {
+    it('reverts newest changes first and restores before-images', async () => {
+      const tracker = new ImportChangeTracker()
+      tracker.recordInserts('employees', [{ id: 'e1' }])
+      tracker.recordDeletes('labor_employee_actuals', [{ id: 'old', st_hours: 8, total_cost_with_burden: 100 }])
+      tracker.recordUpdates('labor_employee_actuals', [{ id: 'lea1', st_hours: 32, total_cost_with_burden: 400 }])
+      tracker.recordInserts('labor_employee_actuals', [{ id: 'lea2' }, { id: 'lea3' }])
+
+      const { client, calls } = createSupabaseStub(call =>
+        call.operation === 'delete' ? (call.filters[0][2] as string[]).map(id => ({ id })) : null
+      )
+      const result = await revertImportChanges(client, tracker.rowChanges)
+
+      expect(calls.map(call => `${call.operation} ${call.table}`)).toEqual([
+        'delete per_diem_costs',
+        'delete labor_employee_actuals',
+        'update labor_employee_actuals',
+        'insert labor_employee_actuals',
+        'delete employees'
+      ])
+      // Generated columns are not written back
+      expect(calls[2].payload).toEqual({ st_hours: 32 })
+      expect(calls[3].payload).toEqual([{ id: 'old', st_hours: 8 }])
+      expect(result).toEqual({
+        deleted: { labor_employee_actuals: 2, employees: 1 },
+        restored: { labor_employee_actuals: 2 },
+        errors: []
+      })
+    })
+
+    it('leaves every generated burden column out when undoing a labor update', async () => {
+      const tracker = new ImportChangeTracker()
+      tracker.recordUpdates('labor_employee_actuals', [{
+        id: 'lea1',
+        st_hours: 40,
+        st_wages: 1600,
+        burden_rate: 0.28,
+        st_burden_amount: 448,
+        total_burden_amount: 448,
+        st_wages_with_burden: 2048,
+        total_cost_with_burden: 2048
+      }])
+
+      const { client, calls } = createSupabaseStub(() => null)
+      const result = await revertImportChanges(client, tracker.rowChanges)
+
+      expect(calls).toHaveLength(1)
+      expect(calls[0]).toMatchObject({
+        table: 'labor_employee_actuals',
+        operation: 'update',
+        payload: { st_hours: 40, st_wages: 1600, burden_rate: 0.28 },
+        filters: [['eq', 'id', 'lea1']]
+      })
+      expect(result.errors).toEqual([])
+    })
+  })
+
+  describe('findImportDependencies', () => {
+    const importRecord: UndoableImport = {
+      id: 'import-1',
+      project_id: 'project-1',
+      import_type: 'labor',
+      import_status: 'success',
+      created_at: '2025-01-06T12:00:00Z',
+      metadata: {},
+      row_changes: [
+        { table: 'employees', id: 'e1', action: 'insert', before: null },
+        { table: 'labor_employee_actuals', id: 'lea1', action: 'insert', before: null }
+      ]
+    }
+
+    it('reports later imports that changed the same rows', async () => {
+      const { client } = createSupabaseStub(call => {
+        if (call.table === 'data_imports') {
+          return [{
+            id: 'import-2',
+            import_type: 'labor',
+            file_name: 'week2.xlsx',
+            created_at: '2025-01-13T12:00:00Z',
+            row_changes: [{ table: 'labor_employee_actuals', id: 'lea1', action: 'update', before: {} }]
+          }]
+        }
+        return [{ id: 'lea1' }]
+      })
+
+      const dependencies = await findImportDependencies(client, importRecord)
+      expect(dependencies).toHaveLength(1)
+      expect(dependencies[0]).toMatchObject({ type: 'import', importId: 'import-2', rows: 1 })
+    })
+
+    it('reports rows created since the import that use rows it inserted', async () => {
+      const { client } = createSupabaseStub(call =>
+        call.table === 'labor_employee_actuals' ? [{ id: 'lea1' }, { id: 'lea9' }] : []
+      )
+
+      const dependencies = await findImportDependencies(client, importRecord)
+      expect(dependencies).toEqual([
+        expect.objectContaining({ type: 'reference', table: 'labor_employee_actuals', rows: 1 })
+      ])
+    })
+
+    it('allows undo when nothing depends on the import', async () => {
+      const { client } = createSupabaseStub(call =>
+        call.table === 'labor_employee_actuals' ? [{ id: 'lea1' }] : []
+      )
+      expect(await findImportDependencies(client, importRecord)).toEqual([])
+    })
+  })
+
+  describe('importChangeDates', () => {
+    it('dates inserted rows as they are now and changed rows before and after', async () => {
+      const importRecord: UndoableImport = {
+        id: 'import-1',
+        project_id: 'project-1',
+        import_type: 'po',
+        import_status: 'success',
+        created_at: '2025-01-06T12:00:00Z',
+        metadata: {},
+        row_changes: [
+          { table: 'employees', id: 'e1', action: 'insert', before: null },
+          { table: 'po_line_items', id: 'li1', action: 'insert', before: null },
+          { table: 'invoices', id: 'inv1', action: 'update', before: { id: 'inv1', project_id: 'project-2', invoice_date: '2024-12-20' } },
+          { table: 'po_line_items', id: 'li0', action: 'delete', before: { id: 'li0', invoice_date: '2024-11-30' } }
+        ]
+      }
+      const { client, calls } = createSupabaseStub(call =>
+        call.table === 'po_line_items'
+          ? [{ id: 'li1', invoice_date: '2025-01-03' }]
+          : [{ id: 'inv1', project_id: 'project-2', invoice_date: '2025-01-02' }]
+      )
+
+      expect(await importChangeDates(client, importRecord)).toEqual([
+        { projectId: 'project-2', date: '2024-12-20' },
+        { projectId: 'project-1', date: '2024-11-30' },
+        { projectId: 'project-1', date: '2025-01-03' },
+        { projectId: 'project-2', date: '2025-01-02' }
+      ])
+      // Deleted rows are dated by their before-image only; employees carry no period
+      expect(calls.map(call => [call.table, call.filters[0][2]])).toEqual([
+        ['po_line_items', ['li1']],
+        ['invoices', ['inv1']]
+      ])
+    })
+  })
+})
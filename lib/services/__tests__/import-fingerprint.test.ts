@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import {
+  analyzeImportOverlap,
+  buildImportConflict,
+  createContentFingerprint,
+  hashFileContent,
+  parseConflictStrategy
+} from '../import-fingerprint'
+
+describe('import fingerprint', () => {
+  describe('hashFileContent', () => {
+    it('returns a SHA-256 hex digest', () => {
+      const hash = hashFileContent(Buffer.from('abc'))
+      expect(hash).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')
+    })
+
+    it('hashes ArrayBuffers and Buffers the same way', () => {
+      const bytes = new TextEncoder().encode('timesheet')
+      expect(hashFileContent(bytes.buffer as ArrayBuffer)).toBe(hashFileContent(Buffer.from(bytes)))
+    })
+  })
+
+  describe('createContentFingerprint', () => {
+    const records = [
+      { employee_number: 'T1001', st_hours: 40, ot_hours: 2.5, week_ending: '2025-01-05' },
+      { employee_number: 'T1002', st_hours: 32, ot_hours: 0, week_ending: '2025-01-05' }
+    ]
+
+    it('ignores row order, key order, whitespace and case', () => {
+      const reordered = [
+        { week_ending: '2025-01-05', ot_hours: 0, st_hours: 32, employee_number: ' t1002 ' },
+        { ot_hours: 2.5, employee_number: 'T1001', week_ending: '2025-01-05', st_hours: 40 }
+      ]
+      expect(createContentFingerprint(reordered)).toBe(createContentFingerprint(records))
+    })
+
+    it('ignores floating point noise below a cent', () => {
+      const noisy = records.map(record => ({ ...record, ot_hours: record.ot_hours + 0.0001 }))
+      expect(createContentFingerprint(noisy)).toBe(createContentFingerprint(records))
+    })
+
+    it('changes when the data changes', () => {
+      const changed = [{ ...records[0], st_hours: 38 }, records[1]]
+      expect(createContentFingerprint(changed)).not.toBe(createContentFingerprint(records))
+    })
+  })
+
+  describe('parseConflictStrategy', () => {
+    it('accepts known strategies only', () => {
+      expect(parseConflictStrategy('merge')).toBe('merge')
+      expect(parseConflictStrategy('replace')).toBe('replace')
+      expect(parseConflictStrategy('skip')).toBe('skip')
+      expect(parseConflictStrategy('overwrite')).toBeNull()
+      expect(parseConflictStrategy(null)).toBeNull()
+    })
+  })
+
+  describe('analyzeImportOverlap', () => {
+    it('splits keys into overlapping, new and untouched', () => {
+      const overlap = analyzeImportOverlap(['A', 'B', 'C'], ['B', 'C', 'D'])
+      expect(overlap).toEqual({
+        overlappingKeys: ['B', 'C'],
+        newKeys: ['A'],
+        untouchedKeys: ['D']
+      })
+    })
+  })
+
+  describe('buildImportConflict', () => {
+    it('returns null for new data', () => {
+      const overlap = analyzeImportOverlap(['A'], ['B'])
+      expect(buildImportConflict(null, overlap, 'week ending 2025-01-05')).toBeNull()
+    })
+
+    it('reports partial overlaps', () => {
+      const overlap = analyzeImportOverlap(['A', 'B'], ['B', 'C'])
+      const conflict = buildImportConflict(null, overlap, 'week ending 2025-01-05')
+
+      expect(conflict).toMatchObject({
+        type: 'overlap',
+        overlappingRecords: 1,
+        newRecords: 1,
+        untouchedRecords: 1,
+        sampleKeys: ['B'],
+        options: ['merge', 'replace', 'skip']
+      })
+      expect(conflict?.message).toContain('week ending 2025-01-05')
+    })
+
+    it('reports exact duplicates by file or content', () => {
+      const overlap = analyzeImportOverlap(['A'], ['A'])
+      const previous = {
+        id: 'import-1',
+        file_name: 'week1.xlsx',
+        imported_at: '2025-01-06T12:00:00Z'
+      }
+
+      const byFile = buildImportConflict({ ...previous, match: 'file' }, overlap, 'this project')
+      expect(byFile?.type).toBe('duplicate')
+      expect(byFile?.message).toMatch(/This file was already imported/)
+
+      const byContent = buildImportConflict({ ...previous, match: 'content' }, overlap, 'this project')
+      expect(byContent?.message).toMatch(/identical data/)
+    })
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import { ImportJobProgressReporter, finishImportJob } from '../import-jobs'
+import { createSupabaseStub, type RecordedCall } from './helpers/supabase-stub'
+
+// Values written to import_jobs, in order
+const updatesOf = (calls: RecordedCall[]) =>
+  calls.filter(call => call.operation === 'update').map(call => call.payload as Record<string, unknown>)
+
+describe('import jobs', () => {
+  describe('ImportJobProgressReporter', () => {
+    it('throttles progress writes within a phase', async () => {
+      const { client, calls } = createSupabaseStub()
+      let now = 0
+      const reporter = new ImportJobProgressReporter(client, 'job-1', () => now)
+
+      await reporter.report({ phase: 'validating', processed: 1, total: 100 })
+      now = 200
+      await reporter.report({ phase: 'validating', processed: 2, total: 100 })
+      now = 1200
+      await reporter.report({ phase: 'validating', processed: 50, total: 100 })
+      now = 1300
+      await reporter.report({ phase: 'writing', processed: 100, total: 100 })
+
+      expect(updatesOf(calls).map(update => [update.phase, update.processed_rows])).toEqual([
+        ['validating', 1],
+        ['validating', 50],
+        ['writing', 100]
+      ])
+    })
+
+    it('writes the latest progress on flush', async () => {
+      const { client, calls } = createSupabaseStub()
+      const reporter = new ImportJobProgressReporter(client, 'job-1', () => 0)
+
+      await reporter.report({ phase: 'validating', processed: 1, total: 10 })
+      await reporter.report({ phase: 'validating', processed: 10, total: 10 })
+      await reporter.flush()
+      await reporter.flush()
+
+      expect(updatesOf(calls)).toHaveLength(2)
+      expect(updatesOf(calls)[1]).toMatchObject({ processed_rows: 10, total_rows: 10 })
+    })
+
+    it('stores the first errors without row data', async () => {
+      const { client, calls } = createSupabaseStub()
+      const reporter = new ImportJobProgressReporter(client, 'job-1')
+      const errors = Array.from({ length: 150 }, (_, i) => ({
+        row: i + 4,
+        message: 'Validation error: Required',
+        data: { 'PO Number': '' }
+      }))
+
+      await reporter.report({ phase: 'validating', processed: 150, total: 150, errors })
+
+      const [update] = updatesOf(calls)
+      expect(update.error_count).toBe(150)
+      expect(update.errors).toHaveLength(100)
+      expect((update.errors as unknown[])[0]).toEqual({
+        row: 4,
+        field: undefined,
+        message: 'Validation error: Required'
+      })
+    })
+  })
+
+  describe('finishImportJob', () => {
+    it('completes the job and clears the upload', async () => {
+      const { client, calls } = createSupabaseStub()
+      await finishImportJob(client, 'job-1', { status: 200, body: { data: { imported: 3 } } })
+
+      expect(updatesOf(calls)[0]).toMatchObject({
+        status: 'completed',
+        error_message: null,
+        file_content: null,
+        result: { status: 200, body: { data: { imported: 3 } } }
+      })
+    })
+
+    it('fails the job when the import responded with an error', async () => {
+      const { client, calls } = createSupabaseStub()
+      await finishImportJob(client, 'job-1', {
+        status: 409,
+        body: { error: 'This file was already imported', conflict: { type: 'duplicate_file' } }
+      })
+
+      expect(updatesOf(calls)[0]).toMatchObject({
+        status: 'failed',
+        error_message: 'This file was already imported'
+      })
+    })
+  })
+})
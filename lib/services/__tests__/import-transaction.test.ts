@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ImportBatch, applyImportBatch } from '../import-transaction'
+
+describe('import transaction', () => {
+  describe('ImportBatch', () => {
+    it('assigns ids to inserted rows so later steps can reference them', () => {
+      const batch = new ImportBatch()
+      const [po] = batch.insert('purchase_orders', [{ po_number: 'PO-1' }])
+      batch.insert('po_line_items', [{ purchase_order_id: po.id, line_number: 1 }])
+
+      expect(po.id).toMatch(/^[0-9a-f-]{36}$/)
+      expect(batch.writeSteps[1].rows[0]).toMatchObject({ purchase_order_id: po.id })
+    })
+
+    it('keeps ids that are already set', () => {
+      const batch = new ImportBatch()
+      const [row] = batch.insert('employees', [{ id: 'employee-1', employee_number: 'T1001' }])
+      expect(row.id).toBe('employee-1')
+    })
+
+    it('merges consecutive writes to the same table and import', () => {
+      const batch = new ImportBatch()
+      batch.update('labor_employee_actuals', [{ id: 'a', st_hours: 40 }])
+      batch.update('labor_employee_actuals', [{ id: 'b', st_hours: 32 }])
+      batch.insert('labor_employee_actuals', [{ st_hours: 8 }])
+      batch.delete('po_line_items', ['x'], 0)
+      batch.delete('po_line_items', ['y'], 1)
+      batch.delete('po_line_items', [])
+
+      expect(batch.writeSteps.map(step => [step.table, step.action, step.rows.length, step.import_index])).toEqual([
+        ['labor_employee_actuals', 'update', 2, 0],
+        ['labor_employee_actuals', 'insert', 1, 0],
+        ['po_line_items', 'delete', 1, 0],
+        ['po_line_items', 'delete', 1, 1]
+      ])
+      expect(batch.rowCount).toBe(5)
+    })
+  })
+
+  describe('applyImportBatch', () => {
+    const importRecord = {
+      project_id: 'project-1',
+      import_type: 'labor' as const,
+      import_status: 'success',
+      imported_by: 'user-1',
+      file_name: 'week1.xlsx'
+    }
+
+    it('sends the writes and import records in one call', async () => {
+      const rpc = vi.fn().mockResolvedValue({ data: { import_ids: ['import-1'], changes: 1 }, error: null })
+      const batch = new ImportBatch()
+      batch.insert('labor_actuals', [{ actual_hours: 40 }])
+
+      const result = await applyImportBatch({ rpc } as unknown as SupabaseClient, [importRecord], batch)
+
+      expect(rpc).toHaveBeenCalledWith('apply_import_batch', {
+        p_imports: [importRecord],
+        p_steps: batch.writeSteps
+      })
+      expect(result).toEqual({ importIds: ['import-1'], changes: 1 })
+    })
+
+    it('throws when the transaction is rolled back', async () => {
+      const rpc = vi.fn().mockResolvedValue({ data: null, error: { message: 'duplicate key value' } })
+
+      await expect(
+        applyImportBatch({ rpc } as unknown as SupabaseClient, [importRecord], new ImportBatch())
+      ).rejects.toThrow('Import rolled back: duplicate key value')
+    })
+  })
+})
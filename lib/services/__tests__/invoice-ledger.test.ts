@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateInvoiceLedger,
+  matchTolerance,
+  planICSLogInvoices,
+  type InvoiceLine,
+  type LedgerInvoice
+} from '../invoice-ledger'
+
+const purchaseOrder = {
+  id: 'po1',
+  project_id: 'p1',
+  po_number: 'PO-100',
+  vendor_name: 'Acme Supply',
+  committed_amount: 10000,
+  invoiced_amount: 0
+}
+
+const invoice = (overrides: Partial<LedgerInvoice>): LedgerInvoice => ({
+  id: 'inv',
+  project_id: 'p1',
+  purchase_order_id: 'po1',
+  vendor_name: 'Acme Supply',
+  invoice_number: 'INV-1',
+  invoice_date: '2025-03-01',
+  amount: 0,
+  status: 'approved',
+  due_date: null,
+  payment_date: null,
+  payment_terms: null,
+  notes: null,
+  source: 'manual',
+  approved_at: null,
+  created_at: '2025-03-01T00:00:00Z',
+  ...overrides
+})
+
+const line = (id: string, ticket: string | null, amount: number): InvoiceLine => ({
+  id,
+  invoice_ticket: ticket,
+  invoice_date: '2025-03-01',
+  total_amount: amount,
+  description: null
+})
+
+describe('matchTolerance', () => {
+  it('allows 2% of the expected amount, capped at $500', () => {
+    expect(matchTolerance(1000)).toBe(20)
+    expect(matchTolerance(100000)).toBe(500)
+    expect(matchTolerance(0)).toBe(0.01)
+  })
+})
+
+describe('calculateInvoiceLedger', () => {
+  const lines = [
+    line('l1', 'INV-1', 3000),
+    line('l2', 'inv-1 ', 1000),
+    line('l3', 'T-77', 2500),
+    line('l4', 'T-90', 700)
+  ]
+
+  it('matches invoices to ICS lines by invoice number, then by amount', () => {
+    const ledger = calculateInvoiceLedger(purchaseOrder, [
+      invoice({ id: 'a', invoice_number: 'INV-1', amount: 4050 }),
+      invoice({ id: 'b', invoice_number: 'VENDOR-9', amount: 2510, invoice_date: '2025-03-05' }),
+      invoice({ id: 'c', invoice_number: 'INV-3', amount: 1200, invoice_date: '2025-03-10' })
+    ], lines)
+
+    const [a, b, c] = ledger.entries
+    // 4050 against 3000 + 1000 is within 2%
+    expect(a).toMatchObject({ matchStatus: 'matched', matchedBy: 'invoice_number', expectedAmount: 4000, variance: 50 })
+    expect(a.matchedLineIds).toEqual(['l1', 'l2'])
+    expect(b).toMatchObject({ matchStatus: 'matched', matchedBy: 'amount', expectedAmount: 2500 })
+    expect(c).toMatchObject({ matchStatus: 'unmatched', expectedAmount: null })
+    expect(ledger.unbilledLines.map(group => group.invoiceTicket)).toEqual(['T-90'])
+  })
+
+  it('reports a variance when the numbered lines differ beyond tolerance', () => {
+    const ledger = calculateInvoiceLedger(purchaseOrder, [
+      invoice({ id: 'a', invoice_number: 'T-90', amount: 800 })
+    ], lines)
+
+    expect(ledger.entries[0]).toMatchObject({ matchStatus: 'variance', variance: 100 })
+    expect(ledger.totals).toMatchObject({ matched: 0, variance: 1 })
+  })
+
+  it('flags invoices that exceed the remaining commitment, in invoice date order', () => {
+    const ledger = calculateInvoiceLedger(purchaseOrder, [
+      invoice({ id: 'late', invoice_number: 'B', amount: 3000, invoice_date: '2025-04-01' }),
+      invoice({ id: 'early', invoice_number: 'A', amount: 8000, invoice_date: '2025-03-01' }),
+      invoice({ id: 'void', invoice_number: 'C', amount: 5000, invoice_date: '2025-03-15', status: 'cancelled' })
+    ], [])
+
+    expect(ledger.entries.map(entry => [entry.id, entry.remainingBefore, entry.exceedsCommitment])).toEqual([
+      ['early', 10000, false],
+      ['void', 2000, false],
+      ['late', 2000, true]
+    ])
+    expect(ledger.entries[1].matchStatus).toBeNull()
+    expect(ledger.totals).toMatchObject({ invoiced: 11000, remaining: -1000, exceedingCommitment: 1 })
+  })
+})
+
+describe('planICSLogInvoices', () => {
+  it('creates new tickets and updates changed ics_log invoices only', () => {
+    const plan = planICSLogInvoices([
+      line('l1', 'INV-1', 3000),
+      line('l2', 'inv-1 ', 1000),
+      { ...line('l3', 'T-77', 2500), invoice_date: '2025-03-20' },
+      line('l4', 'T-90', 700),
+      line('l5', 'CR-1', -400),
+      line('l6', null, 50)
+    ], [
+      invoice({ id: 'ics', invoice_number: 'T-77', amount: 2000, source: 'ics_log' }),
+      invoice({ id: 'same', invoice_number: 't-90', amount: 700, source: 'ics_log' }),
+      invoice({ id: 'manual', invoice_number: 'INV-1', amount: 3900 })
+    ])
+
+    expect(plan.create).toEqual([])
+    expect(plan.update).toEqual([{ id: 'ics', invoiceNumber: 'T-77', invoiceDate: '2025-03-20', amount: 2500 }])
+    expect(plan.cancel).toEqual([])
+  })
+
+  it('cancels ics_log invoices whose ticket left the log or nets to a credit', () => {
+    const plan = planICSLogInvoices([
+      line('l1', 'T-77', 2500),
+      line('l2', 'T-90', 700),
+      line('l3', 'T-90', -900)
+    ], [
+      invoice({ id: 'kept', invoice_number: 'T-77', amount: 2500, source: 'ics_log' }),
+      invoice({ id: 'credited', invoice_number: 'T-90', amount: 700, source: 'ics_log' }),
+      invoice({ id: 'gone', invoice_number: 'T-12', amount: 300, source: 'ics_log' }),
+      invoice({ id: 'already', invoice_number: 'T-13', amount: 300, source: 'ics_log', status: 'cancelled' }),
+      invoice({ id: 'manual', invoice_number: 'INV-4', amount: 1200 })
+    ])
+
+    expect(plan.cancel).toEqual(['credited', 'gone'])
+    expect(plan.update).toEqual([])
+  })
+
+  it('creates an invoice per ticket without one', () => {
+    expect(planICSLogInvoices([line('l1', 'INV-1', 3000), line('l2', 'T-77', 250.5)], []).create).toEqual([
+      { invoiceNumber: 'INV-1', invoiceDate: '2025-03-01', amount: 3000 },
+      { invoiceNumber: 'T-77', invoiceDate: '2025-03-01', amount: 250.5 }
+    ])
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import {
+  compareWithPreviousWeek,
+  diffLaborRecords,
+  estimatePerDiem,
+  resolveWeekRecords,
+  summarizeLaborRecords,
+  type PreviewLaborRecord
+} from '../labor-import-preview'
+
+const record = (overrides: Partial<PreviewLaborRecord>): PreviewLaborRecord => ({
+  employee_number: 'T1001',
+  name: 'Smith, John',
+  category: 'Direct',
+  st_hours: 40,
+  ot_hours: 0,
+  st_wages: 1000,
+  ot_wages: 0,
+  burden_rate: 0.28,
+  ...overrides
+})
+
+describe('labor import preview', () => {
+  const existing = [
+    record({ employee_number: 'T1001', st_hours: 32, st_wages: 800 }),
+    record({ employee_number: 'T1002', name: 'Doe, Jane', category: 'Indirect' })
+  ]
+  const incoming = [
+    record({ employee_number: 'T1001' }),
+    record({ employee_number: 'T1003', name: 'Lee, Sam', category: 'Staff', burden_rate: 0 })
+  ]
+
+  describe('resolveWeekRecords', () => {
+    it('keeps existing employees missing from the file unless replacing', () => {
+      expect(resolveWeekRecords(incoming, existing, 'merge').map(r => r.employee_number).sort())
+        .toEqual(['T1001', 'T1002', 'T1003'])
+      expect(resolveWeekRecords(incoming, existing, 'replace').map(r => r.employee_number).sort())
+        .toEqual(['T1001', 'T1003'])
+    })
+  })
+
+  describe('summarizeLaborRecords', () => {
+    it('totals burdened cost by category', () => {
+      const totals = summarizeLaborRecords(resolveWeekRecords(incoming, existing, 'merge'))
+      const direct = totals.find(t => t.category === 'direct')
+      const staff = totals.find(t => t.category === 'staff')
+
+      expect(direct).toMatchObject({ employeeCount: 1, stHours: 40, burdenAmount: 280, totalCost: 1280 })
+      expect(staff).toMatchObject({ employeeCount: 1, burdenAmount: 0, totalCost: 1000 })
+    })
+  })
+
+  describe('diffLaborRecords', () => {
+    it('classifies new, updated and removed employees', () => {
+      const changes = diffLaborRecords(incoming, existing, 'replace')
+      expect(changes.map(c => [c.employee_number, c.status])).toEqual([
+        ['T1001', 'updated'],
+        ['T1003', 'new'],
+        ['T1002', 'removed']
+      ])
+      expect(changes[0]).toMatchObject({ previousHours: 32, newHours: 40, previousCost: 1024, newCost: 1280 })
+    })
+
+    it('does not report removals when merging', () => {
+      expect(diffLaborRecords(incoming, existing, 'merge').some(c => c.status === 'removed')).toBe(false)
+    })
+  })
+
+  describe('estimatePerDiem', () => {
+    it('uses the direct rate for direct employees and the indirect rate otherwise', () => {
+      const perDiem = estimatePerDiem(incoming, { enabled: true, directRate: 100, indirectRate: 75 })
+      expect(perDiem).toMatchObject({ employeeCount: 2, estimatedAmount: 175 })
+    })
+
+    it('is zero when per diem is disabled', () => {
+      const perDiem = estimatePerDiem(incoming, { enabled: false, directRate: 100, indirectRate: 75 })
+      expect(perDiem.estimatedAmount).toBe(0)
+    })
+  })
+
+  describe('compareWithPreviousWeek', () => {
+    it('returns deltas against the previous week', () => {
+      const delta = compareWithPreviousWeek(incoming, { weekEnding: '2025-01-05', records: existing })
+      expect(delta).toEqual({
+        previousWeekEnding: '2025-01-05',
+        previousHours: 72,
+        previousCost: 2304,
+        hoursDelta: 8,
+        costDelta: -24
+      })
+    })
+
+    it('handles the first week on a project', () => {
+      expect(compareWithPreviousWeek(incoming, null).previousWeekEnding).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyPayRule,
+  calculateWages,
+  resolvePayRule,
+  type LaborPayRule
+} from '../pay-rules'
+
+const rule = (overrides: Partial<LaborPayRule> = {}): LaborPayRule => ({
+  id: 'rule1',
+  project_id: null,
+  craft_type_id: null,
+  name: 'Test rule',
+  daily_ot_threshold: null,
+  daily_dt_threshold: null,
+  weekly_ot_threshold: null,
+  ot_multiplier: 1.5,
+  dt_multiplier: 2,
+  saturday_premium: 'none',
+  sunday_premium: 'none',
+  is_active: true,
+  ...overrides,
+})
+
+const tenHourWeek = {
+  monday: 10,
+  tuesday: 10,
+  wednesday: 10,
+  thursday: 10,
+  friday: 10,
+}
+
+describe('pay rules', () => {
+  describe('resolvePayRule', () => {
+    it('should return null when no rule applies', () => {
+      expect(resolvePayRule([], { projectId: 'p1' })).toBeNull()
+      expect(resolvePayRule([rule({ project_id: 'p2' })], { projectId: 'p1' })).toBeNull()
+    })
+
+    it('should prefer the most specific active rule', () => {
+      const rules = [
+        rule({ id: 'company' }),
+        rule({ id: 'project', project_id: 'p1' }),
+        rule({ id: 'project-craft', project_id: 'p1', craft_type_id: 'c1' }),
+        rule({ id: 'inactive', project_id: 'p1', craft_type_id: 'c2', is_active: false }),
+      ]
+
+      expect(resolvePayRule(rules, { projectId: 'p1', craftTypeId: 'c1' })?.id).toBe('project-craft')
+      expect(resolvePayRule(rules, { projectId: 'p1', craftTypeId: 'c2' })?.id).toBe('project')
+      expect(resolvePayRule(rules, { projectId: 'p2', craftTypeId: 'c1' })?.id).toBe('company')
+    })
+  })
+
+  describe('applyPayRule', () => {
+    it('should apply daily overtime after 8 hours', () => {
+      expect(applyPayRule(tenHourWeek, rule({ daily_ot_threshold: 8 })))
+        .toEqual({ stHours: 40, otHours: 10, dtHours: 0 })
+    })
+
+    it('should apply weekly overtime after 40 hours', () => {
+      expect(applyPayRule(tenHourWeek, rule({ weekly_ot_threshold: 40 })))
+        .toEqual({ stHours: 40, otHours: 10, dtHours: 0 })
+    })
+
+    it('should apply double time after 12 hours a day', () => {
+      expect(applyPayRule({ monday: 14 }, rule({ daily_ot_threshold: 8, daily_dt_threshold: 12 })))
+        .toEqual({ stHours: 8, otHours: 4, dtHours: 2 })
+    })
+
+    it('should pay Sunday hours at double time', () => {
+      expect(applyPayRule({ ...tenHourWeek, sunday: 6 }, rule({ weekly_ot_threshold: 40, sunday_premium: 'dt' })))
+        .toEqual({ stHours: 40, otHours: 10, dtHours: 6 })
+    })
+
+    it('should not count daily overtime towards the weekly threshold', () => {
+      const result = applyPayRule(
+        { ...tenHourWeek, saturday: 8 },
+        rule({ daily_ot_threshold: 8, weekly_ot_threshold: 40 })
+      )
+      expect(result).toEqual({ stHours: 40, otHours: 18, dtHours: 0 })
+    })
+  })
+
+  describe('calculateWages', () => {
+    it('should apply the rule multipliers', () => {
+      expect(calculateWages({ stHours: 40, otHours: 10, dtHours: 2 }, 30, rule({ ot_multiplier: 1.5, dt_multiplier: 2 })))
+        .toEqual({ stWages: 1200, otWages: 450, dtWages: 120 })
+    })
+
+    it('should default to time and a half without a rule', () => {
+      expect(calculateWages({ stHours: 40, otHours: 10, dtHours: 0 }, 30, null))
+        .toEqual({ stWages: 1200, otWages: 450, dtWages: 0 })
+    })
+  })
+})
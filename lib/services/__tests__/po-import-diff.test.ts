@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { diffPurchaseOrderImport, type POSnapshot } from '../po-import-diff'
+
+const po = (overrides: Partial<POSnapshot>): POSnapshot => ({
+  po_number: 'PO-1',
+  vendor_name: 'Acme Supply',
+  committed_amount: 1000,
+  status: 'approved',
+  budget_category: 'MATERIALS',
+  ...overrides
+})
+
+describe('diffPurchaseOrderImport', () => {
+  const previous = [
+    po({ po_number: 'PO-1', committed_amount: 1000 }),
+    po({ po_number: 'PO-2', committed_amount: 5000, budget_category: 'SUBCONTRACTS', vendor_name: 'Steel Co' }),
+    // Not in this week's log: carried over unchanged
+    po({ po_number: 'PO-3', committed_amount: 700, budget_category: 'equipment' })
+  ]
+
+  const diff = diffPurchaseOrderImport({
+    previous,
+    imported: [
+      po({ po_number: 'PO-1', committed_amount: 1500 }),
+      po({ po_number: 'PO-2', committed_amount: 5000, budget_category: 'SUBCONTRACTS', vendor_name: 'Steel Co', status: 'cancelled' }),
+      po({ po_number: 'PO-4', committed_amount: 2000, budget_category: null, vendor_name: 'New Vendor' })
+    ],
+    previousInvoiceLines: [
+      { po_number: 'PO-1', invoice_ticket: 'INV-1', invoice_date: '2025-03-01', total_amount: 400 }
+    ],
+    importedInvoiceLines: [
+      { po_number: 'PO-1', invoice_ticket: 'inv-1', invoice_date: '2025-03-01', total_amount: 400 },
+      { po_number: 'PO-1', invoice_ticket: 'INV-2', invoice_date: '2025-03-08', total_amount: 250 },
+      { po_number: 'PO-1', invoice_ticket: 'INV-2', invoice_date: '2025-03-09', total_amount: 50 }
+    ]
+  })
+
+  it('lists new POs, value and status changes, and new invoice tickets', () => {
+    expect(diff.newPurchaseOrders).toEqual([
+      { po_number: 'PO-4', vendor_name: 'New Vendor', budget_category: 'Uncategorized', committed_amount: 2000 }
+    ])
+    expect(diff.commitmentChanges).toEqual([
+      { po_number: 'PO-1', vendor_name: 'Acme Supply', budget_category: 'MATERIALS', previous: 1000, current: 1500, change: 500 }
+    ])
+    expect(diff.statusChanges).toEqual([
+      { po_number: 'PO-2', vendor_name: 'Steel Co', previous: 'approved', current: 'cancelled' }
+    ])
+    expect(diff.newInvoices).toEqual([
+      { po_number: 'PO-1', invoice_ticket: 'INV-2', invoice_date: '2025-03-09', amount: 300 }
+    ])
+  })
+
+  it('summarizes open commitment by category before and after', () => {
+    expect(diff.commitmentByCategory).toEqual([
+      { category: 'EQUIPMENT', previous: 700, current: 700, change: 0 },
+      { category: 'MATERIALS', previous: 1000, current: 1500, change: 500 },
+      { category: 'SUBCONTRACTS', previous: 5000, current: 0, change: -5000 },
+      { category: 'Uncategorized', previous: 0, current: 2000, change: 2000 }
+    ])
+    expect(diff.totals).toMatchObject({
+      previousCommitted: 6700,
+      currentCommitted: 4200,
+      commitmentChange: -2500,
+      newInvoiceAmount: 300
+    })
+  })
+})
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyPurchaseOrderRisk,
+  evaluatePurchaseOrderRisk,
+  type PORiskRule,
+  type RiskEvaluationPO
+} from '../po-risk-rules'
+import { createSupabaseStub, type RecordedCall } from './helpers/supabase-stub'
+
+const rule = (overrides: Partial<PORiskRule>): PORiskRule => ({
+  id: 'rule',
+  name: 'Rule',
+  rule_type: 'invoiced_percent',
+  threshold: 90,
+  risk_status: 'at-risk',
+  is_active: true,
+  ...overrides
+})
+
+const rules = [
+  rule({ id: 'invoiced', name: 'Invoiced 90%', rule_type: 'invoiced_percent', threshold: 90 }),
+  rule({ id: 'forecast', name: 'Forecast over', rule_type: 'forecast_over_committed', threshold: 0, risk_status: 'over-budget' }),
+  rule({ id: 'idle', name: 'No invoices 8 weeks', rule_type: 'no_invoice_activity', threshold: 8 }),
+  rule({ id: 'late', name: 'Past end', rule_type: 'past_expected_end', threshold: 0 })
+]
+
+const po = (overrides: Partial<RiskEvaluationPO>): RiskEvaluationPO => ({
+  id: 'po1',
+  status: 'approved',
+  committed_amount: 10000,
+  forecast_amount: null,
+  invoiced_amount: 2000,
+  order_date: '2025-05-01',
+  created_at: '2025-05-01T00:00:00Z',
+  expected_completion_date: null,
+  last_invoice_date: '2025-06-01',
+  ...overrides
+})
+
+const today = '2025-06-15'
+
+describe('evaluatePurchaseOrderRisk', () => {
+  it('is normal when no rule fires', () => {
+    expect(evaluatePurchaseOrderRisk(po({}), rules, today)).toEqual({ risk_status: 'normal', rule: null })
+  })
+
+  it('fires on invoiced percentage and forecast over commitment', () => {
+    expect(evaluatePurchaseOrderRisk(po({ invoiced_amount: 9000 }), rules, today).rule?.id).toBe('invoiced')
+    expect(evaluatePurchaseOrderRisk(po({ forecast_amount: 10500 }), rules, today)).toMatchObject({
+      risk_status: 'over-budget',
+      rule: { id: 'forecast' }
+    })
+  })
+
+  it('fires on open POs idle or past their expected end', () => {
+    // Last invoice 8 weeks before today
+    expect(evaluatePurchaseOrderRisk(po({ last_invoice_date: '2025-04-20' }), rules, today).rule?.id).toBe('idle')
+    // Never invoiced: idle since the order date
+    expect(evaluatePurchaseOrderRisk(po({ last_invoice_date: null, order_date: '2025-03-01' }), rules, today).rule?.id).toBe('idle')
+    expect(evaluatePurchaseOrderRisk(po({ expected_completion_date: '2025-06-14' }), rules, today).rule?.id).toBe('late')
+    expect(evaluatePurchaseOrderRisk(po({ expected_completion_date: '2025-06-15' }), rules, today).rule).toBeNull()
+    // Completed or fully invoiced POs are not open
+    expect(evaluatePurchaseOrderRisk(po({ status: 'completed', expected_completion_date: '2025-01-01' }), rules, today).rule).toBeNull()
+  })
+
+  it('takes the most severe status and skips inactive rules and cancelled POs', () => {
+    const both = po({ invoiced_amount: 9500, forecast_amount: 12000 })
+    expect(evaluatePurchaseOrderRisk(both, rules, today).rule?.id).toBe('forecast')
+    expect(evaluatePurchaseOrderRisk(both, rules.map(r => ({ ...r, is_active: r.id !== 'forecast' })), today).rule?.id).toBe('invoiced')
+    expect(evaluatePurchaseOrderRisk({ ...both, status: 'cancelled' }, rules, today).risk_status).toBe('normal')
+  })
+})
+
+describe('applyPurchaseOrderRisk', () => {
+  // Reads answer from `rows` by table, a page at a time
+  const stubRows = (rows: Record<string, unknown[]>) => createSupabaseStub(call => {
+    if (call.operation !== 'select') return null
+    const tableRows = rows[call.table] || []
+    return call.range ? tableRows.slice(call.range[0], call.range[1] + 1) : tableRows
+  })
+
+  const updatesOf = (calls: RecordedCall[]) => calls
+    .filter(call => call.table === 'purchase_orders' && call.operation === 'update')
+    .map(call => ({ values: call.payload, ids: call.filters.find(([operator]) => operator === 'in')?.[2] as string[] }))
+
+  // Ordered more than 8 weeks before today
+  const stored = (id: string) => ({ ...po({ id, order_date: '2025-03-01' }), risk_status: 'normal', risk_rule_id: null })
+
+  it('counts ICS invoice lines as invoice activity', async () => {
+    const { client, calls } = stubRows({
+      po_risk_rules: [rules[2]],
+      purchase_orders: [stored('active'), stored('idle')],
+      po_line_items: [{ purchase_order_id: 'active', invoice_date: '2025-06-01' }]
+    })
+
+    expect(await applyPurchaseOrderRisk(client, {}, today)).toEqual({ updated: 1 })
+    expect(updatesOf(calls)).toEqual([{ values: { risk_status: 'at-risk', risk_rule_id: 'idle' }, ids: ['idle'] }])
+  })
+
+  it('updates POs in batches of 200', async () => {
+    const ids = Array.from({ length: 250 }, (_, i) => `po${i}`)
+    const { client, calls } = stubRows({
+      po_risk_rules: [rules[2]],
+      purchase_orders: ids.map(stored)
+    })
+
+    expect(await applyPurchaseOrderRisk(client, {}, today)).toEqual({ updated: 250 })
+    expect(updatesOf(calls).map(update => update.ids.length)).toEqual([200, 50])
+  })
+
+  it('reads POs and invoice lines past the 1000 row page', async () => {
+    const ids = Array.from({ length: 1200 }, (_, i) => `po${i}`)
+    const oldLines = Array.from({ length: 1000 }, () => ({ purchase_order_id: 'po0', invoice_date: '2025-01-01' }))
+    const { client, calls } = stubRows({
+      po_risk_rules: [rules[2]],
+      purchase_orders: ids.map(stored),
+      po_line_items: [...oldLines, { purchase_order_id: 'po0', invoice_date: '2025-06-01' }]
+    })
+
+    expect(await applyPurchaseOrderRisk(client, {}, today)).toEqual({ updated: 1199 })
+    expect(calls.filter(call => call.table === 'purchase_orders' && call.operation === 'select').map(call => call.range))
+      .toEqual([[0, 999], [1000, 1999]])
+    expect(updatesOf(calls).flatMap(update => update.ids)).not.toContain('po0')
+  })
+})
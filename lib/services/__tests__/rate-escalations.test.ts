@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { escalateRate } from '../rate-escalations'
+
+describe('escalateRate', () => {
+  const annual = { craft_type_id: null, name: 'Annual', effective_date: '2025-07-01', escalation_type: 'percent' as const, value: 4 }
+  const unionStep = { craft_type_id: 'pipefitter', name: 'Union step', effective_date: '2025-09-01', escalation_type: 'amount' as const, value: 2.5 }
+
+  it('applies escalations effective on or before the week in date order', () => {
+    expect(escalateRate(50, 'pipefitter', '2025-09-07', [unionStep, annual], '2025-06-01')).toEqual({
+      rate: 54.5, // 50 * 1.04 + 2.50
+      applied: ['Annual', 'Union step']
+    })
+  })
+
+  it('skips escalations after the week or already in the base rate', () => {
+    expect(escalateRate(50, 'pipefitter', '2025-06-29', [annual], '2025-06-01').rate).toBe(50)
+    expect(escalateRate(50, 'pipefitter', '2025-09-07', [annual], '2025-08-01').rate).toBe(50)
+  })
+
+  it('only applies craft-specific escalations to that craft', () => {
+    expect(escalateRate(50, 'electrician', '2025-09-07', [unionStep], '2025-06-01')).toEqual({ rate: 50, applied: [] })
+  })
+
+  it('sets the rate outright for a rate escalation', () => {
+    const newScale = { craft_type_id: null, name: 'New scale', effective_date: '2025-07-01', escalation_type: 'rate' as const, value: 62 }
+    expect(escalateRate(50, 'pipefitter', '2025-09-07', [newScale, unionStep], '2025-06-01').rate).toBe(64.5)
+  })
+
+  it('leaves the rate alone without a week', () => {
+    expect(escalateRate(50, 'pipefitter', null, [annual], '2025-06-01')).toEqual({ rate: 50, applied: [] })
+  })
+})
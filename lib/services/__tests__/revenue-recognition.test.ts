@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import {
+  addMonths,
+  calculateRevenueRecognition,
+  monthEndDate,
+  type RevenueRecognitionInput
+} from '../revenue-recognition'
+
+describe('month helpers', () => {
+  it('steps months across years and finds month ends', () => {
+    expect(addMonths('2025-12', 1)).toBe('2026-01')
+    expect(addMonths('2025-01', -1)).toBe('2024-12')
+    expect(monthEndDate('2024-02')).toBe('2024-02-29')
+  })
+})
+
+describe('calculateRevenueRecognition', () => {
+  const input: RevenueRecognitionInput = {
+    reportingMonth: '2025-03',
+    asOf: '2025-03-15',
+    revisedContract: 100000,
+    estimateAtCompletion: 80000,
+    actualCostToDate: 30000,
+    // 10000 of the cost to date was incurred this month
+    actualCosts: [
+      { date: '2025-03-02', amount: 6000 },
+      { date: '2025-03-09', amount: 4000 }
+    ],
+    forecastCosts: [
+      { date: '2025-03-30', amount: 2000 },
+      { date: '2025-04-30', amount: 8000 },
+      { date: '2025-05-31', amount: 16000 }
+    ],
+    billingSchedule: [],
+    billedToDate: 35000,
+    priorEarnedRevenue: null
+  }
+
+  it('earns the contract in proportion to cost over the EAC', () => {
+    const recognition = calculateRevenueRecognition(input)
+
+    // 32000 of 80000 by March end; 20000 by February end
+    expect(recognition.costToDate).toBe(32000)
+    expect(recognition.percentComplete).toBe(40)
+    expect(recognition.earnedRevenueToDate).toBe(40000)
+    expect(recognition.priorEarnedRevenue).toBe(25000)
+    expect(recognition.currentMonthRevenue).toBe(15000)
+    expect(recognition.nextMonthRevenue).toBe(10000)
+    expect(recognition.plusTwoMonthRevenue).toBe(20000)
+    expect(recognition.remainingBacklog).toBe(60000)
+    // Billed 35000 against 40000 earned
+    expect(recognition.overUnderBilling).toBe(-5000)
+  })
+
+  it('follows on from the prior month as saved', () => {
+    const recognition = calculateRevenueRecognition({ ...input, priorEarnedRevenue: 28000 })
+
+    expect(recognition.currentMonthRevenue).toBe(12000)
+  })
+
+  it('counts overdue forecast costs from the as-of date and bills from the schedule', () => {
+    const recognition = calculateRevenueRecognition({
+      ...input,
+      forecastCosts: [{ date: '2025-01-05', amount: 2000 }],
+      billingSchedule: [
+        { billingDate: '2025-03-31', amount: 45000 },
+        { billingDate: '2025-04-30', amount: 10000 }
+      ]
+    })
+
+    expect(recognition.priorEarnedRevenue).toBe(25000)
+    expect(recognition.earnedRevenueToDate).toBe(40000)
+    expect(recognition.billedToDate).toBe(45000)
+    expect(recognition.overUnderBilling).toBe(5000)
+  })
+
+  it('caps at the contract and earns nothing without an EAC', () => {
+    const overrun = calculateRevenueRecognition({ ...input, estimateAtCompletion: 20000 })
+    expect(overrun.percentComplete).toBe(100)
+    expect(overrun.earnedRevenueToDate).toBe(100000)
+    expect(overrun.nextMonthRevenue).toBe(0)
+
+    const noEAC = calculateRevenueRecognition({ ...input, estimateAtCompletion: null })
+    expect(noEAC.percentComplete).toBe(0)
+    expect(noEAC.remainingBacklog).toBe(100000)
+  })
+})
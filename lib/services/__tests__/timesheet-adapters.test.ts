@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest'
+import * as XLSX from 'xlsx'
+import {
+  DowTimesheetAdapter,
+  MappedTimesheetAdapter,
+  readTimesheetWorkbook,
+  resolveTimesheetAdapter,
+  type TimesheetFormat
+} from '../timesheet-adapters'
+import { parseDateValue } from '../timesheet-adapters/utils'
+
+// Minimal ICS "DOW" workbook: contractor row 4, week ending row 5, headers row 8, data from row 10
+const buildDowWorkbook = () => {
+  const rows: unknown[][] = Array.from({ length: 9 }, () => [])
+  rows[0] = ['Labor Cost Report']
+  rows[3] = ['', '', '', '', '5772 LS DOW']
+  rows[4] = ['', '', '', '', 45662] // 2025-01-05
+  const header: unknown[] = []
+  header[4] = 'Name'
+  header[12] = 'StHours'
+  rows[7] = header
+
+  const employee = (id: string, name: string, daily: number[], st: number, ot: number, rate: number) => {
+    const row: unknown[] = ['', '', id, '', name, ...daily, st, ot, 'PF', rate]
+    return row
+  }
+  rows.push(employee('T1001', 'Smith, John', [10, 10, 10, 10, 0, 0, 0], 40, 0, 40))
+  rows.push(employee('T1002', 'Doe, Jane', [8, 8, 8, 8, 8, 0, 0], 40, 0, 35))
+  rows.push(['', '', 'Grand Totals'])
+  rows.push(employee('T9999', 'After, Totals', [8, 0, 0, 0, 0, 0, 0], 8, 0, 30))
+
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'DOW')
+  return workbook
+}
+
+const csvFormat = (overrides: Partial<TimesheetFormat> = {}): TimesheetFormat => ({
+  id: 'format-1',
+  name: 'Payroll CSV',
+  sheet_name: null,
+  header_row: null,
+  column_mapping: {
+    employee_number: 'Emp ID',
+    last_name: 'Last',
+    first_name: 'First',
+    craft_code: 'Craft',
+    rate: 'Rate',
+    week_ending: 'Week Ending',
+    job_number: 'Job',
+    monday: 'Mon',
+    tuesday: 'Tue'
+  },
+  employee_id_pattern: null,
+  is_active: true,
+  ...overrides
+})
+
+const CSV = [
+  'Payroll export',
+  'Emp ID,Last,First,Craft,Rate,Week Ending,Job,Mon,Tue',
+  '1001,Smith,John,PF,40,1/5/2025,5772,10,12',
+  '1002,Doe,Jane,EL,35,1/5/2025,5772,8,',
+  'Totals,,,,,,,18,12'
+].join('\n')
+
+const toBuffer = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer
+
+describe('timesheet adapters', () => {
+  describe('DowTimesheetAdapter', () => {
+    it('detects and parses the ICS layout', () => {
+      const workbook = buildDowWorkbook()
+      const adapter = new DowTimesheetAdapter()
+
+      expect(adapter.detect(workbook)).toBe(true)
+
+      const timesheet = adapter.parse(workbook)
+      expect(timesheet.validation.errors).toEqual([])
+      expect(timesheet.contractorNumber).toBe('5772 LS DOW')
+      expect(timesheet.jobNumber).toBe('5772')
+      expect(timesheet.weekEnding?.toISOString().split('T')[0]).toBe('2025-01-05')
+      expect(timesheet.rows).toHaveLength(2)
+      expect(timesheet.rows[0]).toMatchObject({
+        employeeNumber: 'T1001',
+        name: 'Smith, John',
+        craftCode: 'PF',
+        stHours: 40,
+        otHours: 0,
+        stRate: 40,
+        dailyHours: { monday: 10, tuesday: 10, wednesday: 10, thursday: 10 }
+      })
+    })
+
+    it('reports a missing DOW sheet', () => {
+      const workbook = XLSX.utils.book_new()
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['a']]), 'Sheet1')
+
+      const adapter = new DowTimesheetAdapter()
+      expect(adapter.detect(workbook)).toBe(false)
+      expect(adapter.parse(workbook).validation.errors).toContain('Sheet "DOW" not found in Excel file')
+    })
+  })
+
+  describe('MappedTimesheetAdapter', () => {
+    it('parses a CSV export using header names', () => {
+      const workbook = readTimesheetWorkbook(toBuffer(CSV), 'payroll.csv')
+      const adapter = new MappedTimesheetAdapter(csvFormat())
+
+      expect(adapter.detect(workbook)).toBe(true)
+
+      const timesheet = adapter.parse(workbook)
+      expect(timesheet.validation.errors).toEqual([])
+      expect(timesheet.jobNumber).toBe('5772')
+      expect(timesheet.weekEnding?.toISOString().split('T')[0]).toBe('2025-01-05')
+      expect(timesheet.rows).toHaveLength(2)
+      expect(timesheet.rows[0]).toMatchObject({
+        employeeNumber: '1001',
+        name: 'Smith, John',
+        craftCode: 'PF',
+        stRate: 40,
+        // No ST column: daily hours are treated as straight time
+        stHours: 22,
+        otHours: 0,
+        dailyHours: { monday: 10, tuesday: 12 }
+      })
+      expect(timesheet.rows[1].dailyHours).toEqual({ monday: 8 })
+    })
+
+    it('does not detect files missing a mapped header', () => {
+      const workbook = readTimesheetWorkbook(toBuffer(CSV), 'payroll.csv')
+      const adapter = new MappedTimesheetAdapter(csvFormat({
+        column_mapping: { employee_number: 'Badge', st_hours: 'Reg' }
+      }))
+
+      expect(adapter.detect(workbook)).toBe(false)
+      expect(adapter.parse(workbook).validation.errors[0]).toMatch(/Header row does not match/)
+    })
+
+    it('skips employee numbers that do not match the pattern', () => {
+      const workbook = readTimesheetWorkbook(toBuffer(CSV), 'payroll.csv')
+      const adapter = new MappedTimesheetAdapter(csvFormat({ employee_id_pattern: '^1002$' }))
+
+      const timesheet = adapter.parse(workbook)
+      expect(timesheet.rows.map(row => row.employeeNumber)).toEqual(['1002'])
+    })
+  })
+
+  describe('resolveTimesheetAdapter', () => {
+    it('auto-detects built-in and saved layouts', () => {
+      const csvWorkbook = readTimesheetWorkbook(toBuffer(CSV), 'payroll.csv')
+
+      expect(resolveTimesheetAdapter(buildDowWorkbook(), [csvFormat()])?.id).toBe('ics-dow')
+      expect(resolveTimesheetAdapter(csvWorkbook, [csvFormat()])?.id).toBe('format-1')
+      expect(resolveTimesheetAdapter(csvWorkbook, [])).toBeNull()
+    })
+
+    it('uses an explicit format id and ignores inactive formats', () => {
+      const csvWorkbook = readTimesheetWorkbook(toBuffer(CSV), 'payroll.csv')
+
+      expect(resolveTimesheetAdapter(csvWorkbook, [csvFormat()], 'ics-dow')?.id).toBe('ics-dow')
+      expect(resolveTimesheetAdapter(csvWorkbook, [csvFormat({ is_active: false })])).toBeNull()
+    })
+  })
+
+  describe('parseDateValue', () => {
+    it('parses serials, ISO and US date strings', () => {
+      expect(parseDateValue(45662)?.toISOString().split('T')[0]).toBe('2025-01-05')
+      expect(parseDateValue('2025-01-05')?.toISOString().split('T')[0]).toBe('2025-01-05')
+      expect(parseDateValue('1/5/2025')?.toISOString().split('T')[0]).toBe('2025-01-05')
+      expect(parseDateValue('not a date')).toBeNull()
+      expect(parseDateValue('')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest'
+import {
+  assignPurchaseOrderVendors,
+  calculateVendorAnalytics,
+  fetchVendorAnalytics,
+  findVendorConflict,
+  resolveVendor,
+  vendorAliasRows,
+  vendorKey,
+  type Vendor,
+  type VendorPurchaseOrder
+} from '../vendors'
+import { createSupabaseStub } from './helpers/supabase-stub'
+
+const vendors: Vendor[] = [
+  {
+    id: 'v1',
+    name: 'Acme Supply',
+    is_active: true,
+    notes: null,
+    aliases: [{ id: 'a1', alias: 'ACME SUPPLY HOUSTON', alias_key: 'acme supply houston' }]
+  },
+  { id: 'v2', name: 'Smith & Sons Steel', is_active: true, notes: null, aliases: [] }
+]
+
+const po = (overrides: Partial<VendorPurchaseOrder>): VendorPurchaseOrder => ({
+  id: 'po',
+  project_id: 'p1',
+  vendor_id: 'v1',
+  vendor_name: 'Acme Supply',
+  status: 'approved',
+  committed_amount: 0,
+  forecast_amount: null,
+  original_amount: null,
+  invoiced_amount: 0,
+  order_date: '2025-03-01',
+  created_at: '2025-03-01T00:00:00Z',
+  ...overrides
+})
+
+describe('vendorKey', () => {
+  it('ignores case, punctuation and company suffixes', () => {
+    expect(vendorKey('ACME SUPPLY, INC.')).toBe('acme supply')
+    expect(vendorKey('Acme Supply Co LLC')).toBe('acme supply')
+    expect(vendorKey('Smith & Sons Steel')).toBe('smith and sons steel')
+    // A suffix alone is still a name
+    expect(vendorKey('Company')).toBe('company')
+  })
+})
+
+describe('resolveVendor', () => {
+  it('matches a vendor by its name or an alias', () => {
+    expect(resolveVendor('acme supply inc', vendors)?.id).toBe('v1')
+    expect(resolveVendor('Acme Supply - Houston', vendors)?.id).toBe('v1')
+    expect(resolveVendor('Smith and Sons Steel Corp.', vendors)?.id).toBe('v2')
+    expect(resolveVendor('Unknown Vendor', vendors)).toBeNull()
+    expect(resolveVendor('', vendors)).toBeNull()
+  })
+
+  it('reports names that belong to another vendor', () => {
+    expect(findVendorConflict(['Acme Supply LLC'], vendors)).toBe('Acme Supply LLC')
+    expect(findVendorConflict(['Acme Supply LLC'], vendors, 'v1')).toBeNull()
+  })
+
+  it('keeps one alias per key, leaving out spellings of the name', () => {
+    expect(vendorAliasRows('v1', 'Acme Supply', ['ACME SUPPLY INC', 'Acme Houston', 'acme houston.'])).toEqual([
+      { vendor_id: 'v1', alias: 'Acme Houston', alias_key: 'acme houston' }
+    ])
+  })
+})
+
+describe('calculateVendorAnalytics', () => {
+  const analytics = calculateVendorAnalytics([
+    po({ id: 'po1', committed_amount: 10000, original_amount: 8000, invoiced_amount: 6000, order_date: '2025-03-01' }),
+    po({ id: 'po2', project_id: 'p2', committed_amount: 5000, forecast_amount: 6000, original_amount: 5000, invoiced_amount: 0, order_date: '2025-03-10' }),
+    po({ id: 'po3', committed_amount: 4000, status: 'cancelled' }),
+    po({ id: 'po4', vendor_id: null, vendor_name: 'Loose Vendor', committed_amount: 1000, invoiced_amount: 1000, order_date: null, created_at: '2025-04-01T12:00:00Z' })
+  ], [
+    { purchase_order_id: 'po1', invoice_date: '2025-03-31', status: 'approved' },
+    { purchase_order_id: 'po1', invoice_date: '2025-03-11', status: 'cancelled' },
+    { purchase_order_id: 'po1', invoice_date: '2025-04-15', status: 'paid' },
+    { purchase_order_id: 'po4', invoice_date: '2025-04-11', status: 'pending' }
+  ])
+
+  it('totals commitment, spend and growth by vendor across projects', () => {
+    expect(analytics.map(vendor => vendor.vendorName)).toEqual(['Acme Supply', 'Loose Vendor'])
+    expect(analytics[0]).toMatchObject({
+      vendorId: 'v1',
+      projectCount: 2,
+      purchaseOrderCount: 2,
+      committed: 15000,
+      invoiced: 6000,
+      remaining: 9000,
+      originalValue: 13000,
+      finalValue: 16000,
+      growth: 3000,
+      growthPercent: 23.08
+    })
+  })
+
+  it('averages days from order to first invoice over invoiced POs', () => {
+    expect(analytics[0]).toMatchObject({ averageInvoiceLagDays: 30, invoicedPurchaseOrders: 1 })
+    // Without an order date the PO's creation date is used
+    expect(analytics[1]).toMatchObject({ vendorId: null, averageInvoiceLagDays: 10, growth: 0 })
+  })
+})
+
+describe('reading POs', () => {
+  // Reads answer from `rows` by table, a page at a time
+  const stubRows = (rows: Record<string, unknown[]>) => createSupabaseStub(call => {
+    if (call.operation !== 'select') return null
+    const tableRows = rows[call.table] || []
+    return call.range ? tableRows.slice(call.range[0], call.range[1] + 1) : tableRows
+  })
+
+  it('assigns vendors to POs past the 1000 row page', async () => {
+    const { client, calls } = stubRows({
+      vendors: [vendors[0]],
+      purchase_orders: Array.from({ length: 1001 }, (_, i) => ({ id: `po${i}`, vendor_id: null, vendor_name: 'Acme Supply' }))
+    })
+
+    expect(await assignPurchaseOrderVendors(client)).toEqual({ updated: 1001 })
+    expect(calls.filter(call => call.table === 'purchase_orders' && call.operation === 'select').map(call => call.range))
+      .toEqual([[0, 999], [1000, 1999]])
+  })
+
+  it('dates invoice lag from ICS invoice lines without a ledger invoice', async () => {
+    const { client } = stubRows({
+      purchase_orders: [po({ id: 'po1', committed_amount: 1000, order_date: '2025-03-01' })],
+      po_line_items: [{ purchase_order_id: 'po1', invoice_date: '2025-03-21' }]
+    })
+
+    expect((await fetchVendorAnalytics(client))[0]).toMatchObject({ averageInvoiceLagDays: 20, invoicedPurchaseOrders: 1 })
+  })
+})
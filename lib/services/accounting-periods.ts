@@ -0,0 +1,238 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { calculateFinancialSnapshot } from '@/lib/services/financial-snapshot'
+
+export type AccountingPeriodStatus = 'open' | 'closed'
+
+export interface AccountingPeriod {
+  id: string
+  // Null for a company-wide period
+  project_id: string | null
+  // First day of the month, YYYY-MM-01
+  period_month: string
+  status: AccountingPeriodStatus
+  snapshot_id: string | null
+  closed_at: string | null
+  closed_by: string | null
+  reopened_at: string | null
+  reopened_by: string | null
+  reopen_reason: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+/**
+ * A change dated inside a closed accounting period
+ */
+export class ClosedPeriodError extends Error {
+  constructor(public periods: AccountingPeriod[]) {
+    super(
+      `${periods.map(describeAccountingPeriod).join(', ')} ${periods.length === 1 ? 'is' : 'are'} closed. ` +
+      'Ask a controller to reopen the period to change it.'
+    )
+    this.name = 'ClosedPeriodError'
+  }
+}
+
+/**
+ * The period month (YYYY-MM-01) a date falls in
+ */
+export function periodMonthOf(date: string): string {
+  return `${date.slice(0, 7)}-01`
+}
+
+/**
+ * Last day of a period month, YYYY-MM-DD
+ */
+export function periodEndOf(periodMonth: string): string {
+  const [year, month] = periodMonth.split('-').map(Number)
+  return new Date(Date.UTC(year, month, 0)).toISOString().split('T')[0]
+}
+
+export function describeAccountingPeriod(period: Pick<AccountingPeriod, 'project_id' | 'period_month'>): string {
+  const [year, month] = period.period_month.split('-').map(Number)
+  const label = new Date(Date.UTC(year, month - 1, 1))
+    .toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+  return period.project_id ? label : `${label} (company-wide)`
+}
+
+/**
+ * The closed period covering a project's date, if any. Company-wide periods cover
+ * every project.
+ */
+export function findClosedPeriod(
+  periods: AccountingPeriod[],
+  projectId: string,
+  date: string
+): AccountingPeriod | null {
+  const month = periodMonthOf(date)
+  return periods.find(period =>
+    period.status === 'closed' &&
+    period.period_month === month &&
+    (period.project_id === null || period.project_id === projectId)
+  ) || null
+}
+
+/**
+ * Closed periods for the given projects, including company-wide ones
+ */
+export async function fetchClosedPeriods(
+  supabase: SupabaseClient,
+  projectIds: string[]
+): Promise<AccountingPeriod[]> {
+  const scope = projectIds.length > 0
+    ? `project_id.is.null,project_id.in.(${projectIds.join(',')})`
+    : 'project_id.is.null'
+
+  const { data, error } = await supabase
+    .from('accounting_periods')
+    .select('*')
+    .eq('status', 'closed')
+    .or(scope)
+
+  if (error) {
+    throw new Error(`Failed to load accounting periods: ${error.message}`)
+  }
+
+  return (data || []) as AccountingPeriod[]
+}
+
+/**
+ * Throw a ClosedPeriodError when any of the dated changes falls in a closed period
+ */
+export async function assertPeriodsOpen(
+  supabase: SupabaseClient,
+  changes: { projectId: string; date: string | null }[]
+): Promise<void> {
+  const dated = changes.filter((change): change is { projectId: string; date: string } => !!change.date)
+  if (dated.length === 0) return
+
+  const periods = await fetchClosedPeriods(supabase, Array.from(new Set(dated.map(change => change.projectId))))
+  if (periods.length === 0) return
+
+  const closed = new Map<string, AccountingPeriod>()
+  for (const change of dated) {
+    const period = findClosedPeriod(periods, change.projectId, change.date)
+    if (period) closed.set(period.id, period)
+  }
+
+  if (closed.size > 0) {
+    throw new ClosedPeriodError(Array.from(closed.values()))
+  }
+}
+
+/**
+ * Close a month for a project (or company-wide) and freeze its month-end snapshot
+ */
+export async function closeAccountingPeriod(
+  supabase: SupabaseClient,
+  options: { projectId: string | null; periodMonth: string; userId: string }
+): Promise<AccountingPeriod> {
+  const { projectId, periodMonth, userId } = options
+  const today = new Date().toISOString().split('T')[0]
+
+  if (periodMonth > periodMonthOf(today)) {
+    throw new Error('Cannot close a period that has not started')
+  }
+
+  let existingQuery = supabase
+    .from('accounting_periods')
+    .select('*')
+    .eq('period_month', periodMonth)
+  existingQuery = projectId
+    ? existingQuery.eq('project_id', projectId)
+    : existingQuery.is('project_id', null)
+  const { data: existing } = await existingQuery.maybeSingle()
+
+  if (existing?.status === 'closed') {
+    throw new Error('Period is already closed')
+  }
+
+  // A month closed before it ends is frozen as of today
+  const monthEnd = periodEndOf(periodMonth)
+  const snapshot = await calculateFinancialSnapshot(supabase, {
+    type: projectId ? 'project' : 'company',
+    projectId: projectId || undefined,
+    snapshotDate: monthEnd < today ? monthEnd : today,
+    source: 'period_close',
+    userId
+  })
+
+  const closedFields = {
+    status: 'closed' as const,
+    snapshot_id: snapshot.id,
+    closed_at: new Date().toISOString(),
+    closed_by: userId
+  }
+
+  const { data: period, error } = existing
+    ? await supabase
+        .from('accounting_periods')
+        .update(closedFields)
+        .eq('id', existing.id)
+        .select()
+        .single()
+    : await supabase
+        .from('accounting_periods')
+        .insert({ project_id: projectId, period_month: periodMonth, ...closedFields })
+        .select()
+        .single()
+
+  if (error || !period) {
+    throw new Error(`Failed to close accounting period: ${error?.message || 'no period returned'}`)
+  }
+
+  await supabase.from('accounting_period_events').insert({
+    period_id: period.id,
+    action: 'close',
+    snapshot_id: snapshot.id,
+    performed_by: userId
+  })
+
+  return period as AccountingPeriod
+}
+
+/**
+ * Reopen a closed period. The frozen snapshot is kept; closing again freezes a new one.
+ */
+export async function reopenAccountingPeriod(
+  supabase: SupabaseClient,
+  options: { periodId: string; userId: string; reason: string }
+): Promise<AccountingPeriod> {
+  const { data: existing } = await supabase
+    .from('accounting_periods')
+    .select('*')
+    .eq('id', options.periodId)
+    .single()
+
+  if (!existing) {
+    throw new Error('Period not found')
+  }
+  if (existing.status !== 'closed') {
+    throw new Error('Period is not closed')
+  }
+
+  const { data: period, error } = await supabase
+    .from('accounting_periods')
+    .update({
+      status: 'open',
+      reopened_at: new Date().toISOString(),
+      reopened_by: options.userId,
+      reopen_reason: options.reason
+    })
+    .eq('id', options.periodId)
+    .select()
+    .single()
+
+  if (error || !period) {
+    throw new Error(`Failed to reopen accounting period: ${error?.message || 'no period returned'}`)
+  }
+
+  await supabase.from('accounting_period_events').insert({
+    period_id: period.id,
+    action: 'reopen',
+    reason: options.reason,
+    performed_by: options.userId
+  })
+
+  return period as AccountingPeriod
+}
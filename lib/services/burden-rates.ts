@@ -0,0 +1,136 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * Fallback burden rate used when no configured rate applies
+ */
+export const DEFAULT_BURDEN_RATE = 0.28
+
+export type BurdenCategory = 'Direct' | 'Indirect' | 'Staff'
+
+export const BURDEN_CATEGORIES: BurdenCategory[] = ['Direct', 'Indirect', 'Staff']
+
+export interface LaborBurdenRate {
+  id: string
+  project_id: string | null
+  category: BurdenCategory | null
+  burden_rate: number
+  effective_date: string
+  description?: string | null
+  created_by?: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+export type EffectiveBurdenRates = Record<BurdenCategory, number>
+
+/**
+ * Normalize a category value ('direct', 'DIRECT', 'Direct') to a burden category
+ */
+export function normalizeBurdenCategory(category?: string | null): BurdenCategory {
+  const normalized = (category || '').toLowerCase()
+  if (normalized === 'indirect') return 'Indirect'
+  if (normalized === 'staff') return 'Staff'
+  return 'Direct'
+}
+
+/**
+ * Resolve the burden rate that applies to a project, category and date.
+ * Most specific scope wins (project+category, project, company+category, company),
+ * then the latest effective date on or before the given date.
+ */
+export function resolveBurdenRate(
+  rates: LaborBurdenRate[],
+  options: { projectId: string; category?: string | null; date: string }
+): number {
+  const category = normalizeBurdenCategory(options.category)
+  let best: LaborBurdenRate | null = null
+  let bestScore = -1
+
+  for (const rate of rates) {
+    if (rate.effective_date > options.date) continue
+    if (rate.project_id && rate.project_id !== options.projectId) continue
+    if (rate.category && rate.category !== category) continue
+
+    const score = (rate.project_id ? 2 : 0) + (rate.category ? 1 : 0)
+    if (
+      score > bestScore ||
+      (score === bestScore && best && rate.effective_date > best.effective_date)
+    ) {
+      best = rate
+      bestScore = score
+    }
+  }
+
+  return best ? Number(best.burden_rate) : DEFAULT_BURDEN_RATE
+}
+
+/**
+ * Resolve the effective burden rate for every category on a given date
+ */
+export function resolveEffectiveBurdenRates(
+  rates: LaborBurdenRate[],
+  projectId: string,
+  date: string
+): EffectiveBurdenRates {
+  return BURDEN_CATEGORIES.reduce((acc, category) => {
+    acc[category] = resolveBurdenRate(rates, { projectId, category, date })
+    return acc
+  }, {} as EffectiveBurdenRates)
+}
+
+/**
+ * Burdened cost for a labor record. Burden applies to straight time wages only.
+ * Prefers the stored total_cost_with_burden and falls back to the record's burden_rate.
+ */
+export function calculateBurdenedCost(record: {
+  st_wages?: number | null
+  ot_wages?: number | null
+  burden_rate?: number | null
+  total_cost_with_burden?: number | null
+}): number {
+  if (record.total_cost_with_burden !== null && record.total_cost_with_burden !== undefined) {
+    return Number(record.total_cost_with_burden)
+  }
+  const stWages = Number(record.st_wages || 0)
+  const otWages = Number(record.ot_wages || 0)
+  const burdenRate = record.burden_rate ?? DEFAULT_BURDEN_RATE
+  return stWages * (1 + Number(burdenRate)) + otWages
+}
+
+/**
+ * Fetch the company-wide rates plus any overrides for a project
+ */
+export async function fetchBurdenRates(
+  supabase: SupabaseClient,
+  projectId?: string
+): Promise<LaborBurdenRate[]> {
+  let query = supabase
+    .from('labor_burden_rates')
+    .select('*')
+    .order('effective_date', { ascending: false })
+
+  query = projectId
+    ? query.or(`project_id.is.null,project_id.eq.${projectId}`)
+    : query.is('project_id', null)
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching burden rates:', error)
+    return []
+  }
+
+  return (data || []) as LaborBurdenRate[]
+}
+
+/**
+ * Fetch and resolve the effective rate for every category on a given date
+ */
+export async function getEffectiveBurdenRates(
+  supabase: SupabaseClient,
+  projectId: string,
+  date: string
+): Promise<EffectiveBurdenRates> {
+  const rates = await fetchBurdenRates(supabase, projectId)
+  return resolveEffectiveBurdenRates(rates, projectId, date)
+}
@@ -0,0 +1,435 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { fetchProjectEAC } from '@/lib/services/project-eac'
+
+export type CashFlowInterval = 'week' | 'month'
+
+export interface CashFlowSettings {
+  retention_percent: number
+  billing_lag_days: number
+  retention_release_days: number
+  payroll_lag_days: number
+  default_po_terms_days: number
+  billed_to_date: number
+}
+
+export interface BillingScheduleEntry {
+  id: string
+  project_id: string
+  change_order_id: string | null
+  billing_date: string
+  amount: number
+  description: string | null
+}
+
+export const DEFAULT_CASH_FLOW_SETTINGS: CashFlowSettings = {
+  retention_percent: 10,
+  billing_lag_days: 30,
+  retention_release_days: 60,
+  payroll_lag_days: 7,
+  default_po_terms_days: 30,
+  billed_to_date: 0
+}
+
+export interface CashFlowInput {
+  asOf: string
+  interval: CashFlowInterval
+  projectEndDate: string | null
+  revisedContract: number
+  settings: CashFlowSettings
+  // Forecast labor cost by week ending
+  payroll: { weekEnding: string; amount: number }[]
+  purchaseOrders: {
+    remaining: number
+    orderDate: string | null
+    expectedCompletionDate: string | null
+    termsDays: number | null
+  }[]
+  billingSchedule: { billingDate: string; amount: number }[]
+}
+
+export interface CashFlowPeriod {
+  // Sunday week ending, or YYYY-MM
+  period: string
+  payroll: number
+  poPayments: number
+  cashOut: number
+  billingReceipts: number
+  retentionReceipts: number
+  cashIn: number
+  net: number
+  // Cumulative net from the as-of date
+  cashPosition: number
+}
+
+export interface CashFlowForecast {
+  asOf: string
+  interval: CashFlowInterval
+  periods: CashFlowPeriod[]
+  totalCashIn: number
+  totalCashOut: number
+  endingCashPosition: number
+  // Lowest cash position, as a positive amount; 0 when the position never goes negative
+  peakExposure: number
+  peakExposurePeriod: string | null
+  retentionHeld: number
+  billingSource: 'schedule' | 'cost_loaded'
+}
+
+type CashEvent = { date: string; kind: 'payroll' | 'poPayments' | 'billingReceipts' | 'retentionReceipts'; amount: number }
+
+const toDate = (date: string) => new Date(date.split('T')[0] + 'T00:00:00Z')
+const toISO = (date: Date) => date.toISOString().split('T')[0]
+
+const addDays = (date: string, days: number) => {
+  const day = toDate(date)
+  day.setUTCDate(day.getUTCDate() + days)
+  return toISO(day)
+}
+
+const endOfMonth = (date: string) => {
+  const day = toDate(date)
+  return toISO(new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)))
+}
+
+/**
+ * The week (Sunday week ending) or month (YYYY-MM) a date falls in
+ */
+export function cashFlowPeriod(date: string, interval: CashFlowInterval): string {
+  if (interval === 'month') return date.slice(0, 7)
+  const day = toDate(date)
+  day.setUTCDate(day.getUTCDate() + ((7 - day.getUTCDay()) % 7))
+  return toISO(day)
+}
+
+const nextPeriod = (period: string, interval: CashFlowInterval) => {
+  if (interval === 'week') return addDays(period, 7)
+  const [year, month] = period.split('-').map(Number)
+  return toISO(new Date(Date.UTC(year, month, 1))).slice(0, 7)
+}
+
+/**
+ * Month ends from the month of the start date through the month of the end date
+ */
+function monthEndsBetween(startDate: string, endDate: string): string[] {
+  const months: string[] = []
+  for (let month = endOfMonth(startDate); month <= endOfMonth(endDate); month = endOfMonth(addDays(month, 1))) {
+    months.push(month)
+  }
+  return months
+}
+
+/**
+ * When a PO's uninvoiced balance is expected to be invoiced: evenly at month ends from
+ * its order date (or the as-of date, if later) through its expected completion, or the
+ * project end without one
+ */
+export function spreadPOInvoices(
+  po: Pick<CashFlowInput['purchaseOrders'][number], 'remaining' | 'orderDate' | 'expectedCompletionDate'>,
+  asOf: string,
+  projectEndDate: string | null
+): { invoiceDate: string; amount: number }[] {
+  if (po.remaining <= 0) return []
+  const start = po.orderDate && po.orderDate > asOf ? po.orderDate : asOf
+  const end = po.expectedCompletionDate || projectEndDate || start
+  const invoiceDates = monthEndsBetween(start, end < start ? start : end)
+  return invoiceDates.map(invoiceDate => ({ invoiceDate, amount: po.remaining / invoiceDates.length }))
+}
+
+/**
+ * Weekly or monthly cash in and out from the as-of date on.
+ *
+ * Payroll is paid a lag after each forecast week. Each PO's uninvoiced balance is
+ * paid on its terms after the invoices spreadPOInvoices expects. The client is billed on the
+ * billing schedule, or without one the unbilled contract is billed monthly in step with
+ * cost; billings are paid after the billing lag less retention, which is released after
+ * the project ends.
+ */
+export function buildCashFlowForecast(input: CashFlowInput): CashFlowForecast {
+  const { asOf, interval, settings } = input
+  const events: CashEvent[] = []
+  // Cost incurred by month end, before payment lags, for cost-loaded billing
+  const costByMonth = new Map<string, number>()
+  const addCost = (date: string, amount: number) => {
+    const month = endOfMonth(date < asOf ? asOf : date)
+    costByMonth.set(month, (costByMonth.get(month) || 0) + amount)
+  }
+
+  input.payroll.forEach(week => {
+    const payday = addDays(week.weekEnding, settings.payroll_lag_days)
+    if (week.amount <= 0 || payday <= asOf) return
+    addCost(week.weekEnding, week.amount)
+    events.push({ date: payday, kind: 'payroll', amount: week.amount })
+  })
+
+  input.purchaseOrders.forEach(po => {
+    const terms = po.termsDays ?? settings.default_po_terms_days
+    spreadPOInvoices(po, asOf, input.projectEndDate).forEach(({ invoiceDate, amount }) => {
+      addCost(invoiceDate, amount)
+      events.push({ date: addDays(invoiceDate, terms), kind: 'poPayments', amount })
+    })
+  })
+
+  const retentionRate = settings.retention_percent / 100
+  const billingSource = input.billingSchedule.length > 0 ? 'schedule' : 'cost_loaded'
+  let billings: { billingDate: string; amount: number }[]
+  if (billingSource === 'schedule') {
+    billings = input.billingSchedule.filter(billing => billing.billingDate > asOf)
+  } else {
+    const unbilled = Math.max(0, input.revisedContract - settings.billed_to_date)
+    const totalCost = [...costByMonth.values()].reduce((sum, cost) => sum + cost, 0)
+    billings = totalCost > 0
+      ? [...costByMonth.entries()].map(([month, cost]) => ({ billingDate: month, amount: unbilled * (cost / totalCost) }))
+      : unbilled > 0 ? [{ billingDate: endOfMonth(asOf), amount: unbilled }] : []
+  }
+
+  billings.forEach(billing => {
+    if (billing.amount <= 0) return
+    events.push({
+      date: addDays(billing.billingDate, settings.billing_lag_days),
+      kind: 'billingReceipts',
+      amount: billing.amount * (1 - retentionRate)
+    })
+  })
+
+  // Retention on everything billed, before and after the as-of date
+  const billedTotal = billingSource === 'schedule'
+    ? input.billingSchedule.reduce((sum, billing) => sum + billing.amount, 0)
+    : settings.billed_to_date + billings.reduce((sum, billing) => sum + billing.amount, 0)
+  const retentionHeld = billedTotal * retentionRate
+  if (retentionHeld > 0) {
+    const lastBilling = billings.reduce((latest, billing) => billing.billingDate > latest ? billing.billingDate : latest, asOf)
+    const closeOut = input.projectEndDate && input.projectEndDate > lastBilling ? input.projectEndDate : lastBilling
+    events.push({ date: addDays(closeOut, settings.retention_release_days), kind: 'retentionReceipts', amount: retentionHeld })
+  }
+
+  const byPeriod = new Map<string, Record<CashEvent['kind'], number>>()
+  events
+    .filter(event => event.date > asOf)
+    .forEach(event => {
+      const period = cashFlowPeriod(event.date, interval)
+      const totals = byPeriod.get(period) || { payroll: 0, poPayments: 0, billingReceipts: 0, retentionReceipts: 0 }
+      totals[event.kind] += event.amount
+      byPeriod.set(period, totals)
+    })
+
+  const periods: CashFlowPeriod[] = []
+  const lastPeriod = [...byPeriod.keys()].sort().pop()
+  if (lastPeriod) {
+    for (let period = cashFlowPeriod(addDays(asOf, 1), interval); period <= lastPeriod; period = nextPeriod(period, interval)) {
+      const totals = byPeriod.get(period) || { payroll: 0, poPayments: 0, billingReceipts: 0, retentionReceipts: 0 }
+      periods.push(toCashFlowPeriod(period, totals, periods[periods.length - 1]?.cashPosition ?? 0))
+    }
+  }
+
+  return summarizeCashFlow(asOf, interval, periods, retentionHeld, billingSource)
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+function toCashFlowPeriod(
+  period: string,
+  totals: Record<CashEvent['kind'], number>,
+  previousPosition: number
+): CashFlowPeriod {
+  const cashOut = totals.payroll + totals.poPayments
+  const cashIn = totals.billingReceipts + totals.retentionReceipts
+  return {
+    period,
+    payroll: round(totals.payroll),
+    poPayments: round(totals.poPayments),
+    cashOut: round(cashOut),
+    billingReceipts: round(totals.billingReceipts),
+    retentionReceipts: round(totals.retentionReceipts),
+    cashIn: round(cashIn),
+    net: round(cashIn - cashOut),
+    cashPosition: round(previousPosition + cashIn - cashOut)
+  }
+}
+
+function summarizeCashFlow(
+  asOf: string,
+  interval: CashFlowInterval,
+  periods: CashFlowPeriod[],
+  retentionHeld: number,
+  billingSource: CashFlowForecast['billingSource']
+): CashFlowForecast {
+  const lowest = periods.reduce<CashFlowPeriod | null>(
+    (low, period) => (!low || period.cashPosition < low.cashPosition ? period : low),
+    null
+  )
+  return {
+    asOf,
+    interval,
+    periods,
+    totalCashIn: round(periods.reduce((sum, period) => sum + period.cashIn, 0)),
+    totalCashOut: round(periods.reduce((sum, period) => sum + period.cashOut, 0)),
+    endingCashPosition: periods[periods.length - 1]?.cashPosition ?? 0,
+    peakExposure: lowest && lowest.cashPosition < 0 ? -lowest.cashPosition : 0,
+    peakExposurePeriod: lowest && lowest.cashPosition < 0 ? lowest.period : null,
+    retentionHeld: round(retentionHeld),
+    billingSource
+  }
+}
+
+/**
+ * Several projects' forecasts added up period by period
+ */
+export function combineCashFlowForecasts(
+  asOf: string,
+  interval: CashFlowInterval,
+  forecasts: CashFlowForecast[]
+): CashFlowForecast {
+  const byPeriod = new Map<string, Record<CashEvent['kind'], number>>()
+  forecasts.forEach(forecast => {
+    forecast.periods.forEach(period => {
+      const totals = byPeriod.get(period.period) || { payroll: 0, poPayments: 0, billingReceipts: 0, retentionReceipts: 0 }
+      totals.payroll += period.payroll
+      totals.poPayments += period.poPayments
+      totals.billingReceipts += period.billingReceipts
+      totals.retentionReceipts += period.retentionReceipts
+      byPeriod.set(period.period, totals)
+    })
+  })
+
+  const periods: CashFlowPeriod[] = []
+  ;[...byPeriod.keys()].sort().forEach(period => {
+    periods.push(toCashFlowPeriod(period, byPeriod.get(period)!, periods[periods.length - 1]?.cashPosition ?? 0))
+  })
+
+  const retentionHeld = forecasts.reduce((sum, forecast) => sum + forecast.retentionHeld, 0)
+  const billingSource = forecasts.length > 0 && forecasts.every(forecast => forecast.billingSource === 'schedule')
+    ? 'schedule'
+    : 'cost_loaded'
+  return summarizeCashFlow(asOf, interval, periods, retentionHeld, billingSource)
+}
+
+export interface ProjectCashFlow extends CashFlowForecast {
+  projectId: string
+  settings: CashFlowSettings
+  billingSchedule: BillingScheduleEntry[]
+}
+
+/**
+ * Cash-flow forecast for a project from its labor forecast (costed the way the EAC
+ * costs it), open PO balances and its billing schedule or contract
+ */
+export async function fetchProjectCashFlow(
+  supabase: SupabaseClient,
+  projectId: string,
+  interval: CashFlowInterval,
+  asOf: string = new Date().toISOString().split('T')[0]
+): Promise<ProjectCashFlow> {
+  const { data: project } = await supabase
+    .from('projects')
+    .select('id, end_date, original_contract, revised_contract')
+    .eq('id', projectId)
+    .single()
+
+  if (!project) {
+    throw new Error('Project not found')
+  }
+
+  const [
+    { data: settingsRow },
+    { data: billingSchedule },
+    { data: purchaseOrders },
+    eac
+  ] = await Promise.all([
+    supabase.from('project_cash_flow_settings').select('*').eq('project_id', projectId).maybeSingle(),
+    supabase
+      .from('project_billing_schedule')
+      .select('id, project_id, change_order_id, billing_date, amount, description')
+      .eq('project_id', projectId)
+      .order('billing_date'),
+    supabase
+      .from('purchase_orders')
+      .select('committed_amount, invoiced_amount, forecast_amount, order_date, expected_completion_date, payment_terms_days, status')
+      .eq('project_id', projectId)
+      .neq('status', 'cancelled'),
+    fetchProjectEAC(supabase, projectId, asOf)
+  ])
+
+  const settings: CashFlowSettings = settingsRow
+    ? {
+        retention_percent: Number(settingsRow.retention_percent),
+        billing_lag_days: settingsRow.billing_lag_days,
+        retention_release_days: settingsRow.retention_release_days,
+        payroll_lag_days: settingsRow.payroll_lag_days,
+        default_po_terms_days: settingsRow.default_po_terms_days,
+        billed_to_date: Number(settingsRow.billed_to_date)
+      }
+    : DEFAULT_CASH_FLOW_SETTINGS
+
+  const payrollByWeek = new Map<string, number>()
+  eac.laborRates.forEach(detail => {
+    if (!detail.weekEnding) return
+    payrollByWeek.set(detail.weekEnding, (payrollByWeek.get(detail.weekEnding) || 0) + detail.cost)
+  })
+
+  const schedule = (billingSchedule || []) as BillingScheduleEntry[]
+  const forecast = buildCashFlowForecast({
+    asOf,
+    interval,
+    projectEndDate: project.end_date,
+    revisedContract: Number(project.revised_contract || project.original_contract || 0),
+    settings,
+    payroll: [...payrollByWeek.entries()].map(([weekEnding, amount]) => ({ weekEnding, amount })),
+    purchaseOrders: (purchaseOrders || []).map(po => ({
+      // Same final cost the bottom-up EAC uses: entered forecast, else committed
+      remaining: Number(po.forecast_amount || po.committed_amount || 0) - Number(po.invoiced_amount || 0),
+      orderDate: po.order_date,
+      expectedCompletionDate: po.expected_completion_date,
+      termsDays: po.payment_terms_days
+    })),
+    billingSchedule: schedule.map(billing => ({ billingDate: billing.billing_date, amount: Number(billing.amount) }))
+  })
+
+  return { ...forecast, projectId, settings, billingSchedule: schedule }
+}
+
+export interface PortfolioCashFlow extends CashFlowForecast {
+  projects: {
+    projectId: string
+    name: string
+    jobNumber: string
+    peakExposure: number
+    peakExposurePeriod: string | null
+    endingCashPosition: number
+  }[]
+}
+
+/**
+ * Active projects' cash-flow forecasts and their total
+ */
+export async function fetchPortfolioCashFlow(
+  supabase: SupabaseClient,
+  interval: CashFlowInterval,
+  asOf: string = new Date().toISOString().split('T')[0]
+): Promise<PortfolioCashFlow> {
+  const { data: projects, error } = await supabase
+    .from('projects')
+    .select('id, name, job_number')
+    .eq('status', 'active')
+    .is('deleted_at', null)
+    .order('job_number')
+
+  if (error) throw error
+
+  const forecasts: { project: { id: string; name: string; job_number: string }; forecast: ProjectCashFlow }[] = []
+  // Sequential: each project's EAC already fans out its own queries
+  for (const project of projects || []) {
+    forecasts.push({ project, forecast: await fetchProjectCashFlow(supabase, project.id, interval, asOf) })
+  }
+
+  return {
+    ...combineCashFlowForecasts(asOf, interval, forecasts.map(({ forecast }) => forecast)),
+    projects: forecasts.map(({ project, forecast }) => ({
+      projectId: project.id,
+      name: project.name,
+      jobNumber: project.job_number,
+      peakExposure: forecast.peakExposure,
+      peakExposurePeriod: forecast.peakExposurePeriod,
+      endingCashPosition: forecast.endingCashPosition
+    }))
+  }
+}
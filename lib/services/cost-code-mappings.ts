@@ -0,0 +1,194 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// purchase_orders.budget_category values a mapping rule can assign
+export const PO_BUDGET_CATEGORIES = [
+  'MATERIALS',
+  'EQUIPMENT',
+  'SUBCONTRACTS',
+  'SMALL TOOLS & CONSUMABLES'
+] as const
+
+export type POBudgetCategory = typeof PO_BUDGET_CATEGORIES[number]
+
+export interface CostCodeMapping {
+  id: string
+  // NULL project_id = company-wide rule
+  project_id: string | null
+  // NULL codes match any value
+  cost_center: string | null
+  sub_cc: string | null
+  subsub_cc: string | null
+  budget_category: POBudgetCategory
+  description: string | null
+}
+
+export interface PurchaseOrderCodes {
+  project_id: string
+  cost_center: string | null
+  sub_cc: string | null
+  subsub_cc: string | null
+}
+
+// Spellings of the categories found on older or hand-entered POs
+const CATEGORY_ALIASES: Record<string, POBudgetCategory> = {
+  material: 'MATERIALS',
+  materials: 'MATERIALS',
+  equipment: 'EQUIPMENT',
+  subcontract: 'SUBCONTRACTS',
+  subcontracts: 'SUBCONTRACTS',
+  'small tools': 'SMALL TOOLS & CONSUMABLES',
+  small_tools: 'SMALL TOOLS & CONSUMABLES',
+  consumables: 'SMALL TOOLS & CONSUMABLES',
+  'small tools & consumables': 'SMALL TOOLS & CONSUMABLES'
+}
+
+/**
+ * A stored budget_category as one of the PO budget categories, or null if unrecognized
+ */
+export function normalizeBudgetCategory(value: string | null | undefined): POBudgetCategory | null {
+  return CATEGORY_ALIASES[(value || '').trim().toLowerCase()] || null
+}
+
+const code = (value: string | null | undefined) => (value || '').trim()
+
+/**
+ * The rule that classifies a PO: of the rules whose codes all match, project rules
+ * win over company rules, then the rule matching the most codes, SubSub CC weighing
+ * over Sub CC over cost center. Null when no rule matches.
+ */
+export function classifyPurchaseOrder(po: PurchaseOrderCodes, mappings: CostCodeMapping[]): CostCodeMapping | null {
+  const specificity = (mapping: CostCodeMapping) =>
+    (mapping.project_id ? 8 : 0) + (mapping.subsub_cc ? 4 : 0) + (mapping.sub_cc ? 2 : 0) + (mapping.cost_center ? 1 : 0)
+
+  const matches = mappings.filter(mapping =>
+    (!mapping.project_id || mapping.project_id === po.project_id) &&
+    (mapping.cost_center !== null || mapping.sub_cc !== null || mapping.subsub_cc !== null) &&
+    (mapping.cost_center === null || code(mapping.cost_center) === code(po.cost_center)) &&
+    (mapping.sub_cc === null || code(mapping.sub_cc) === code(po.sub_cc)) &&
+    (mapping.subsub_cc === null || code(mapping.subsub_cc) === code(po.subsub_cc))
+  )
+
+  return matches.sort((a, b) => specificity(b) - specificity(a))[0] || null
+}
+
+/**
+ * Company rules plus, with a project, that project's rules; every rule without one
+ */
+export async function fetchCostCodeMappings(
+  supabase: SupabaseClient,
+  projectId?: string
+): Promise<CostCodeMapping[]> {
+  let query = supabase
+    .from('cost_code_mappings')
+    .select('id, project_id, cost_center, sub_cc, subsub_cc, budget_category, description')
+    .order('cost_center', { nullsFirst: false })
+
+  if (projectId) {
+    query = query.or(`project_id.is.null,project_id.eq.${projectId}`)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data || []) as CostCodeMapping[]
+}
+
+/**
+ * Re-apply the rules to a project's POs, or every PO, after the rules change. POs
+ * classified by a rule that no longer matches lose their category; POs no rule ever
+ * matched keep the category they were given.
+ */
+export async function reclassifyPurchaseOrders(
+  supabase: SupabaseClient,
+  projectId?: string
+): Promise<{ updated: number }> {
+  let poQuery = supabase
+    .from('purchase_orders')
+    .select('id, project_id, cost_center, sub_cc, subsub_cc, budget_category, cost_code_mapping_id')
+  if (projectId) poQuery = poQuery.eq('project_id', projectId)
+
+  const [mappings, { data: purchaseOrders, error }] = await Promise.all([
+    fetchCostCodeMappings(supabase, projectId),
+    poQuery
+  ])
+  if (error) throw error
+
+  // Group changes so each category and rule is one update
+  const changes = new Map<string, { budget_category: string | null; cost_code_mapping_id: string | null; ids: string[] }>()
+  ;(purchaseOrders || []).forEach(po => {
+    const mapping = classifyPurchaseOrder(po, mappings)
+    const next = mapping
+      ? { budget_category: mapping.budget_category, cost_code_mapping_id: mapping.id }
+      : po.cost_code_mapping_id
+        ? { budget_category: null, cost_code_mapping_id: null }
+        : null
+    if (!next) return
+    if (next.budget_category === po.budget_category && next.cost_code_mapping_id === po.cost_code_mapping_id) return
+
+    const key = `${next.budget_category}|${next.cost_code_mapping_id}`
+    const change = changes.get(key) || { ...next, ids: [] }
+    change.ids.push(po.id)
+    changes.set(key, change)
+  })
+
+  let updated = 0
+  for (const { ids, ...values } of changes.values()) {
+    const { error: updateError } = await supabase
+      .from('purchase_orders')
+      .update(values)
+      .in('id', ids)
+    if (updateError) throw updateError
+    updated += ids.length
+  }
+
+  return { updated }
+}
+
+export interface UnmatchedPurchaseOrder {
+  id: string
+  po_number: string
+  vendor_name: string | null
+  project_id: string
+  job_number: string | null
+  project_name: string | null
+  cost_center: string | null
+  sub_cc: string | null
+  subsub_cc: string | null
+  // Category the PO has without a rule (entered by hand or from before the rules)
+  budget_category: string | null
+  committed_amount: number
+}
+
+/**
+ * Open POs, for a project or every project, that no mapping rule classifies
+ */
+export async function fetchUnmatchedPurchaseOrders(
+  supabase: SupabaseClient,
+  projectId?: string
+): Promise<UnmatchedPurchaseOrder[]> {
+  let poQuery = supabase
+    .from('purchase_orders')
+    .select('id, po_number, vendor_name, project_id, cost_center, sub_cc, subsub_cc, budget_category, committed_amount, projects!inner(job_number, name, deleted_at)')
+    .neq('status', 'cancelled')
+    .is('projects.deleted_at', null)
+    .order('po_number')
+  if (projectId) poQuery = poQuery.eq('project_id', projectId)
+
+  const [mappings, { data: purchaseOrders, error }] = await Promise.all([
+    fetchCostCodeMappings(supabase, projectId),
+    poQuery
+  ])
+  if (error) throw error
+
+  type PORow = Omit<UnmatchedPurchaseOrder, 'job_number' | 'project_name'> & {
+    projects: { job_number: string; name: string } | null
+  }
+
+  return ((purchaseOrders || []) as unknown as PORow[])
+    .filter(po => !classifyPurchaseOrder(po, mappings))
+    .map(({ projects, ...po }) => ({
+      ...po,
+      committed_amount: Number(po.committed_amount || 0),
+      job_number: projects?.job_number || null,
+      project_name: projects?.name || null
+    }))
+}
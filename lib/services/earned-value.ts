@@ -0,0 +1,416 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { EACCategory } from '@/lib/services/forecast-calculations'
+
+export interface WBSStructureRow {
+  code: string
+  parent_code: string | null
+  level: number | null
+  description: string | null
+  sort_order: number | null
+}
+
+export interface WBSBudgetLine {
+  wbs_code: string | null
+  quantity: number | null
+  unit_of_measure: string | null
+  manhours: number | null
+  total_cost: number | null
+  labor_direct_cost: number | null
+  labor_indirect_cost: number | null
+  labor_staff_cost: number | null
+  materials_cost: number | null
+  equipment_cost: number | null
+  subcontracts_cost: number | null
+  small_tools_cost: number | null
+}
+
+export interface WBSProgressEntry {
+  id: string
+  project_id: string
+  wbs_code: string
+  as_of_date: string
+  percent_complete: number | null
+  quantity_installed: number | null
+  planned_percent_complete: number | null
+  notes: string | null
+  entered_by: string | null
+  created_at: string
+}
+
+export interface WBSEarnedValueInput {
+  structure: WBSStructureRow[]
+  lineItems: WBSBudgetLine[]
+  progress: WBSProgressEntry[]
+  asOf: string
+  // Planned percent complete for nodes without one entered, usually from the schedule
+  schedulePercent: number | null
+  // Actual cost to date by category, allocated to nodes by their share of each category budget
+  categoryActuals?: Partial<Record<EACCategory, number>> | null
+}
+
+export interface WBSEarnedValueNode {
+  code: string
+  parentCode: string | null
+  level: number
+  description: string
+  budget: number
+  budgetHours: number
+  // Null when the node's line items use more than one unit of measure
+  budgetQuantity: number | null
+  unitOfMeasure: string | null
+  percentComplete: number | null
+  // 'inherited' progress was entered on a parent node
+  progressSource: 'entered' | 'inherited' | null
+  progressDate: string | null
+  quantityInstalled: number | null
+  plannedPercentComplete: number | null
+  earnedValue: number | null
+  earnedHours: number | null
+  plannedValue: number | null
+  actualCost: number | null
+  costVariance: number | null
+  scheduleVariance: number | null
+  cpi: number | null
+  spi: number | null
+  children: WBSEarnedValueNode[]
+}
+
+export interface WBSEarnedValue {
+  asOf: string
+  budgetAtCompletion: number
+  budgetHours: number
+  earnedValue: number | null
+  earnedHours: number | null
+  plannedValue: number | null
+  actualCost: number | null
+  // Actual cost in categories the WBS has no budget for
+  unallocatedActualCost: number
+  percentComplete: number | null
+  plannedPercentComplete: number | null
+  costVariance: number | null
+  scheduleVariance: number | null
+  cpi: number | null
+  spi: number | null
+  nodes: WBSEarnedValueNode[]
+}
+
+// Budget line item cost columns by EAC category
+const LINE_ITEM_CATEGORIES: Array<[EACCategory, keyof WBSBudgetLine]> = [
+  ['direct_labor', 'labor_direct_cost'],
+  ['indirect_labor', 'labor_indirect_cost'],
+  ['staff_labor', 'labor_staff_cost'],
+  ['materials', 'materials_cost'],
+  ['equipment', 'equipment_cost'],
+  ['subcontracts', 'subcontracts_cost'],
+  ['small_tools', 'small_tools_cost']
+]
+
+export const UNASSIGNED_WBS_CODE = 'UNASSIGNED'
+
+/**
+ * Planned percent complete from elapsed time between the start and end dates,
+ * null without both dates
+ */
+export function schedulePercentComplete(
+  startDate: string | null,
+  endDate: string | null,
+  asOf: string
+): number | null {
+  if (!startDate || !endDate) return null
+  const start = new Date(startDate).getTime()
+  const end = new Date(endDate).getTime()
+  if (!(end > start)) return null
+  const elapsed = (new Date(asOf).getTime() - start) / (end - start)
+  return Math.round(Math.min(1, Math.max(0, elapsed)) * 10000) / 100
+}
+
+// WBS codes are dotted paths (1.1.08.01.01), so the parent is the code minus its last segment
+const parentCodeOf = (code: string) =>
+  code.includes('.') ? code.slice(0, code.lastIndexOf('.')) : null
+
+const sumNullable = (values: Array<number | null>) =>
+  values.some(value => value !== null)
+    ? values.reduce<number>((sum, value) => sum + (value ?? 0), 0)
+    : null
+
+const ratio = (numerator: number | null, denominator: number | null) =>
+  numerator !== null && denominator ? numerator / denominator : null
+
+/**
+ * Latest progress entry per WBS code on or before the as-of date
+ */
+export function latestProgressByCode(
+  progress: WBSProgressEntry[],
+  asOf: string
+): Map<string, WBSProgressEntry> {
+  const latest = new Map<string, WBSProgressEntry>()
+  progress
+    .filter(entry => entry.as_of_date <= asOf)
+    .forEach(entry => {
+      const current = latest.get(entry.wbs_code)
+      if (
+        !current ||
+        entry.as_of_date > current.as_of_date ||
+        (entry.as_of_date === current.as_of_date && entry.created_at > current.created_at)
+      ) {
+        latest.set(entry.wbs_code, entry)
+      }
+    })
+  return latest
+}
+
+/**
+ * Earned value per WBS node, rolled up the hierarchy. Progress entered on a node applies
+ * to every descendant without its own entry; quantity progress is measured against the
+ * node's budgeted quantity. Nodes with no progress anywhere above them earn nothing.
+ */
+export function calculateWBSEarnedValue(input: WBSEarnedValueInput): WBSEarnedValue {
+  interface WorkingNode {
+    code: string
+    parentCode: string | null
+    level: number | null
+    description: string | null
+    sortOrder: number
+    budget: number
+    budgetHours: number
+    quantity: number
+    units: Set<string>
+    categoryBudgets: Partial<Record<EACCategory, number>>
+    children: WorkingNode[]
+  }
+
+  const nodes = new Map<string, WorkingNode>()
+  const ensureNode = (code: string, row?: WBSStructureRow): WorkingNode => {
+    const existing = nodes.get(code)
+    if (existing) {
+      if (row) {
+        existing.level = row.level
+        existing.description = row.description
+        existing.sortOrder = row.sort_order ?? existing.sortOrder
+      }
+      return existing
+    }
+    const node: WorkingNode = {
+      code,
+      parentCode: row ? row.parent_code ?? parentCodeOf(code) : code === UNASSIGNED_WBS_CODE ? null : parentCodeOf(code),
+      level: row?.level ?? null,
+      description: row?.description ?? (code === UNASSIGNED_WBS_CODE ? 'No WBS code' : null),
+      sortOrder: row?.sort_order ?? Number.MAX_SAFE_INTEGER,
+      budget: 0,
+      budgetHours: 0,
+      quantity: 0,
+      units: new Set(),
+      categoryBudgets: {},
+      children: []
+    }
+    nodes.set(code, node)
+    return node
+  }
+
+  input.structure.forEach(row => ensureNode(row.code, row))
+  input.lineItems.forEach(line => {
+    const node = ensureNode(line.wbs_code || UNASSIGNED_WBS_CODE)
+    node.budget += Number(line.total_cost || 0)
+    node.budgetHours += Number(line.manhours || 0)
+    if (line.quantity) {
+      node.quantity += Number(line.quantity)
+      node.units.add((line.unit_of_measure || '').trim().toUpperCase())
+    }
+    LINE_ITEM_CATEGORIES.forEach(([category, column]) => {
+      const amount = Number(line[column] || 0)
+      if (amount) node.categoryBudgets[category] = (node.categoryBudgets[category] || 0) + amount
+    })
+  })
+
+  // Parents missing from the structure are implied by dotted codes
+  Array.from(nodes.values()).forEach(node => {
+    let child = node
+    while (child.parentCode && !nodes.has(child.parentCode)) {
+      child = ensureNode(child.parentCode)
+    }
+  })
+
+  const roots: WorkingNode[] = []
+  nodes.forEach(node => {
+    const parent = node.parentCode ? nodes.get(node.parentCode) : undefined
+    if (parent && parent !== node) parent.children.push(node)
+    else roots.push(node)
+  })
+
+  // Share of each category's project budget, used to allocate category actuals
+  const categoryTotals: Partial<Record<EACCategory, number>> = {}
+  nodes.forEach(node => {
+    Object.entries(node.categoryBudgets).forEach(([category, amount]) => {
+      const key = category as EACCategory
+      categoryTotals[key] = (categoryTotals[key] || 0) + (amount || 0)
+    })
+  })
+  const allocateActuals = input.categoryActuals != null
+  const unallocatedActualCost = allocateActuals
+    ? Object.entries(input.categoryActuals!).reduce((sum, [category, amount]) =>
+        categoryTotals[category as EACCategory] ? sum : sum + (amount || 0), 0)
+    : 0
+
+  // Quantity progress is measured against the whole subtree's quantity
+  const subtreeQuantities = new Map<string, { quantity: number; units: Set<string> }>()
+  const sumQuantities = (node: WorkingNode): { quantity: number; units: Set<string> } => {
+    const totals = node.children.reduce((acc, child) => {
+      const childTotals = sumQuantities(child)
+      childTotals.units.forEach(unit => acc.units.add(unit))
+      return { quantity: acc.quantity + childTotals.quantity, units: acc.units }
+    }, { quantity: node.quantity, units: new Set(node.units) })
+    subtreeQuantities.set(node.code, totals)
+    return totals
+  }
+  roots.forEach(sumQuantities)
+
+  const latest = latestProgressByCode(input.progress, input.asOf)
+
+  const visit = (
+    node: WorkingNode,
+    inheritedPercent: number | null,
+    inheritedPlanned: number | null,
+    depth: number
+  ): WBSEarnedValueNode => {
+    const children = [...node.children]
+      .sort((a, b) => a.sortOrder - b.sortOrder || a.code.localeCompare(b.code))
+
+    const quantityTotals = subtreeQuantities.get(node.code)!
+    const budgetQuantity = quantityTotals.units.size === 1 && quantityTotals.quantity > 0
+      ? quantityTotals.quantity
+      : null
+
+    const entry = latest.get(node.code)
+    const enteredPercent = entry
+      ? entry.percent_complete !== null
+        ? Number(entry.percent_complete)
+        : entry.quantity_installed !== null && budgetQuantity
+          ? Math.min(100, (Number(entry.quantity_installed) / budgetQuantity) * 100)
+          : null
+      : null
+    const percent = enteredPercent ?? inheritedPercent
+    const planned = entry?.planned_percent_complete != null
+      ? Number(entry.planned_percent_complete)
+      : inheritedPlanned
+
+    const childResults = children.map(child => visit(child, percent, planned, depth + 1))
+
+    const directActual = allocateActuals
+      ? Object.entries(node.categoryBudgets).reduce((sum, [category, amount]) => {
+          const key = category as EACCategory
+          const total = categoryTotals[key]
+          return total ? sum + (input.categoryActuals![key] || 0) * ((amount || 0) / total) : sum
+        }, 0)
+      : null
+
+    const budget = node.budget + childResults.reduce((sum, child) => sum + child.budget, 0)
+    const budgetHours = node.budgetHours + childResults.reduce((sum, child) => sum + child.budgetHours, 0)
+    const earnedValue = sumNullable([
+      percent !== null ? node.budget * percent / 100 : null,
+      ...childResults.map(child => child.earnedValue)
+    ])
+    const earnedHours = sumNullable([
+      percent !== null ? node.budgetHours * percent / 100 : null,
+      ...childResults.map(child => child.earnedHours)
+    ])
+    const plannedValue = sumNullable([
+      planned !== null ? node.budget * planned / 100 : null,
+      ...childResults.map(child => child.plannedValue)
+    ])
+    const actualCost = directActual === null
+      ? null
+      : directActual + childResults.reduce((sum, child) => sum + (child.actualCost ?? 0), 0)
+
+    return {
+      code: node.code,
+      parentCode: node.parentCode,
+      level: node.level ?? depth,
+      description: node.description || node.code,
+      budget,
+      budgetHours,
+      budgetQuantity,
+      unitOfMeasure: budgetQuantity !== null ? Array.from(quantityTotals.units)[0] || null : null,
+      percentComplete: budget > 0 && earnedValue !== null ? (earnedValue / budget) * 100 : percent,
+      progressSource: enteredPercent !== null ? 'entered' : inheritedPercent !== null ? 'inherited' : null,
+      progressDate: entry?.as_of_date ?? null,
+      quantityInstalled: entry?.quantity_installed ?? null,
+      plannedPercentComplete: budget > 0 && plannedValue !== null ? (plannedValue / budget) * 100 : planned,
+      earnedValue,
+      earnedHours,
+      plannedValue,
+      actualCost,
+      costVariance: earnedValue !== null && actualCost !== null ? earnedValue - actualCost : null,
+      scheduleVariance: earnedValue !== null && plannedValue !== null ? earnedValue - plannedValue : null,
+      cpi: ratio(earnedValue, actualCost),
+      spi: ratio(earnedValue, plannedValue),
+      children: childResults
+    }
+  }
+
+  const results = roots
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.code.localeCompare(b.code))
+    .map(root => visit(root, null, input.schedulePercent, 1))
+
+  const budgetAtCompletion = results.reduce((sum, node) => sum + node.budget, 0)
+  const earnedValue = sumNullable(results.map(node => node.earnedValue))
+  const plannedValue = sumNullable(results.map(node => node.plannedValue))
+  const actualCost = allocateActuals
+    ? results.reduce((sum, node) => sum + (node.actualCost ?? 0), 0) + unallocatedActualCost
+    : null
+
+  return {
+    asOf: input.asOf,
+    budgetAtCompletion,
+    budgetHours: results.reduce((sum, node) => sum + node.budgetHours, 0),
+    earnedValue,
+    earnedHours: sumNullable(results.map(node => node.earnedHours)),
+    plannedValue,
+    actualCost,
+    unallocatedActualCost,
+    percentComplete: earnedValue !== null && budgetAtCompletion > 0 ? (earnedValue / budgetAtCompletion) * 100 : null,
+    plannedPercentComplete: plannedValue !== null && budgetAtCompletion > 0 ? (plannedValue / budgetAtCompletion) * 100 : null,
+    costVariance: earnedValue !== null && actualCost !== null ? earnedValue - actualCost : null,
+    scheduleVariance: earnedValue !== null && plannedValue !== null ? earnedValue - plannedValue : null,
+    cpi: ratio(earnedValue, actualCost),
+    spi: ratio(earnedValue, plannedValue),
+    nodes: results
+  }
+}
+
+/**
+ * Loads the project's WBS, budget line items and progress entries
+ */
+export async function fetchWBSEarnedValueInput(
+  supabase: SupabaseClient,
+  projectId: string
+): Promise<Pick<WBSEarnedValueInput, 'structure' | 'lineItems' | 'progress'>> {
+  const [
+    { data: structure },
+    { data: lineItems, error: lineItemsError },
+    { data: progress, error: progressError }
+  ] = await Promise.all([
+    supabase
+      .from('wbs_structure')
+      .select('code, parent_code, level, description, sort_order')
+      .eq('project_id', projectId),
+    supabase
+      .from('budget_line_items')
+      .select('wbs_code, quantity, unit_of_measure, manhours, total_cost, labor_direct_cost, labor_indirect_cost, labor_staff_cost, materials_cost, equipment_cost, subcontracts_cost, small_tools_cost')
+      .eq('project_id', projectId),
+    supabase
+      .from('wbs_progress')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('as_of_date', { ascending: false })
+  ])
+
+  if (lineItemsError) throw lineItemsError
+  if (progressError) throw progressError
+
+  // Older databases keep a shared 7-code WBS without project_id, so structure errors are not fatal
+  return {
+    structure: (structure || []) as WBSStructureRow[],
+    lineItems: (lineItems || []) as WBSBudgetLine[],
+    progress: (progress || []) as WBSProgressEntry[]
+  }
+}
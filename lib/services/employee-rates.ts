@@ -0,0 +1,113 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+export type EmployeeRateSource =
+  | 'initial'
+  | 'manual'
+  | 'batch_update'
+  | 'labor_import'
+  | 'employee_update'
+
+export interface EmployeeRate {
+  id: string
+  employee_id: string
+  base_rate: number
+  effective_date: string
+  source: EmployeeRateSource
+  notes?: string | null
+  created_by?: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+/**
+ * Resolve the rate in force on a date: the latest effective date on or before it,
+ * else the earliest known rate (the week predates the history). Null without history.
+ * Matches get_employee_base_rate() in the database.
+ */
+export function resolveEmployeeRate(
+  rates: Pick<EmployeeRate, 'base_rate' | 'effective_date'>[],
+  date: string
+): number | null {
+  let inForce: Pick<EmployeeRate, 'base_rate' | 'effective_date'> | null = null
+  let earliest: Pick<EmployeeRate, 'base_rate' | 'effective_date'> | null = null
+
+  for (const rate of rates) {
+    if (rate.effective_date <= date && (!inForce || rate.effective_date > inForce.effective_date)) {
+      inForce = rate
+    }
+    if (!earliest || rate.effective_date < earliest.effective_date) {
+      earliest = rate
+    }
+  }
+
+  const resolved = inForce || earliest
+  return resolved ? Number(resolved.base_rate) : null
+}
+
+/**
+ * Fetch rate history for employees, newest first, keyed by employee id
+ */
+export async function fetchEmployeeRateHistory(
+  supabase: SupabaseClient,
+  employeeIds: string[]
+): Promise<Map<string, EmployeeRate[]>> {
+  const history = new Map<string, EmployeeRate[]>()
+  if (employeeIds.length === 0) return history
+
+  // Keep the id lists within URL limits
+  for (let i = 0; i < employeeIds.length; i += 200) {
+    const { data, error } = await supabase
+      .from('employee_rate_history')
+      .select('*')
+      .in('employee_id', employeeIds.slice(i, i + 200))
+      .order('effective_date', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching employee rate history:', error)
+      return history
+    }
+
+    for (const rate of (data || []) as EmployeeRate[]) {
+      const rates = history.get(rate.employee_id) || []
+      rates.push(rate)
+      history.set(rate.employee_id, rates)
+    }
+  }
+
+  return history
+}
+
+/**
+ * Set an employee's rate from a date onward. Replaces a rate with the same effective
+ * date; the database keeps employees.base_rate in step with the history.
+ */
+export async function recordEmployeeRate(
+  supabase: SupabaseClient,
+  rate: {
+    employeeId: string
+    baseRate: number
+    effectiveDate: string
+    source: EmployeeRateSource
+    notes?: string | null
+    userId?: string | null
+  }
+): Promise<EmployeeRate> {
+  const { data, error } = await supabase
+    .from('employee_rate_history')
+    .upsert({
+      employee_id: rate.employeeId,
+      base_rate: rate.baseRate,
+      effective_date: rate.effectiveDate,
+      source: rate.source,
+      notes: rate.notes ?? null,
+      created_by: rate.userId ?? null
+    }, { onConflict: 'employee_id,effective_date' })
+    .select()
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to record employee rate: ${error?.message || 'no rate returned'}`)
+  }
+
+  return data as EmployeeRate
+}
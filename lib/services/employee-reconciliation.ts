@@ -0,0 +1,229 @@
+import { z } from 'zod'
+import type { LaborCategory } from '@/lib/services/labor-import-preview'
+
+// Craft code to category mapping
+const CRAFT_CODE_CATEGORY_MAP: Record<string, LaborCategory> = {
+  'STA': 'staff',
+  'STAFF': 'staff',
+  'IND': 'indirect',
+  'INDIRECT': 'indirect',
+  'DIR': 'direct',
+  'DIRECT': 'direct'
+}
+
+// Craft types that only stand for a category (assigned to placeholder employees)
+const DEFAULT_CRAFT_CODES = new Set(['DIRECT', 'INDIRECT', 'STAFF'])
+
+const NAME_SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv'])
+
+// Name similarity needed before an existing employee is offered as a match
+const DEFAULT_MATCH_THRESHOLD = 0.75
+const DEFAULT_MATCH_LIMIT = 3
+
+/**
+ * Category a craft code explicitly names, or null when the code doesn't say
+ */
+export function categoryFromCraftCode(craftCode: string): LaborCategory | null {
+  const upperCode = craftCode.toUpperCase()
+
+  // Check exact matches first
+  if (CRAFT_CODE_CATEGORY_MAP[upperCode]) {
+    return CRAFT_CODE_CATEGORY_MAP[upperCode]
+  }
+
+  // Check if code starts with known prefixes
+  for (const [prefix, category] of Object.entries(CRAFT_CODE_CATEGORY_MAP)) {
+    if (upperCode.startsWith(prefix)) {
+      return category
+    }
+  }
+
+  return null
+}
+
+/**
+ * Category for a new employee; defaults to direct
+ */
+export function inferCategoryFromCraftCode(craftCode: string): LaborCategory {
+  return categoryFromCraftCode(craftCode) || 'direct'
+}
+
+export interface ReconciliationEmployee {
+  id: string
+  employee_number: string
+  first_name: string
+  last_name: string
+  category: string | null
+  craft_type_id: string | null
+  base_rate: number | null
+}
+
+export interface ReconciliationCraftType {
+  id: string
+  code: string
+  category: string
+}
+
+export interface EmployeeMatchCandidate {
+  id: string
+  employee_number: string
+  name: string
+  category: string | null
+  base_rate: number
+  score: number
+}
+
+export interface UnknownEmployee {
+  employee_number: string
+  name: string
+  craft_code?: string
+  category: LaborCategory
+  candidates: EmployeeMatchCandidate[]
+}
+
+export interface EmployeeMasterChange {
+  employee_number: string
+  name: string
+  field: 'category' | 'craft'
+  current: string
+  incoming: string
+  category: LaborCategory
+  // Craft type to assign; null = the category's default craft
+  craft_type_id: string | null
+}
+
+export interface EmployeeReconciliation {
+  unknownEmployees: UnknownEmployee[]
+  masterChanges: EmployeeMasterChange[]
+}
+
+// The user's decisions from the confirmation step
+export const employeeResolutionSchema = z.object({
+  // File employee number -> existing employee id
+  matches: z.record(z.string(), z.string().uuid()).default({}),
+  // Employee number -> hourly base rate for new and zero-rate employees
+  rates: z.record(z.string(), z.number().positive()).default({}),
+  // Employee numbers whose category/craft should follow the file
+  applyChanges: z.array(z.string()).default([])
+})
+
+export type EmployeeResolution = z.infer<typeof employeeResolutionSchema>
+
+/**
+ * Parse the reconciliation form field (JSON); missing means nothing was resolved
+ */
+export function parseEmployeeResolution(value: unknown): EmployeeResolution {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return employeeResolutionSchema.parse({})
+  }
+  return employeeResolutionSchema.parse(JSON.parse(value))
+}
+
+/**
+ * Name tokens for comparison: lower case, no punctuation, suffixes or initials, sorted
+ * so "SMITH, JOHN A" and "John Smith" compare equal.
+ */
+export function normalizeEmployeeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z\s,]/g, '')
+    .split(/[\s,]+/)
+    .filter(token => token.length > 1 && !NAME_SUFFIXES.has(token))
+    .sort()
+    .join(' ')
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Similarity of two names from 0 (different) to 1 (same)
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeEmployeeName(a)
+  const right = normalizeEmployeeName(b)
+  if (!left || !right) return 0
+
+  const longest = Math.max(left.length, right.length)
+  return 1 - levenshtein(left, right) / longest
+}
+
+/**
+ * Existing employees whose name is close to a name in the file, best first
+ */
+export function findEmployeeMatches(
+  name: string,
+  employees: ReconciliationEmployee[],
+  options: { threshold?: number; limit?: number } = {}
+): EmployeeMatchCandidate[] {
+  const threshold = options.threshold ?? DEFAULT_MATCH_THRESHOLD
+  const limit = options.limit ?? DEFAULT_MATCH_LIMIT
+
+  return employees
+    .map(employee => ({
+      id: employee.id,
+      employee_number: employee.employee_number,
+      name: `${employee.last_name}, ${employee.first_name}`,
+      category: employee.category,
+      base_rate: Number(employee.base_rate || 0),
+      score: nameSimilarity(name, `${employee.first_name} ${employee.last_name}`)
+    }))
+    .filter(candidate => candidate.score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+}
+
+/**
+ * Compare a timesheet row's craft code with the employee master record
+ */
+export function detectMasterChange(
+  employee: ReconciliationEmployee,
+  craftCode: string | undefined,
+  craftTypes: ReconciliationCraftType[]
+): EmployeeMasterChange | null {
+  if (!craftCode) return null
+
+  const name = `${employee.last_name}, ${employee.first_name}`
+  const currentCategory = (employee.category || 'direct').toLowerCase()
+  const currentCraft = craftTypes.find(craft => craft.id === employee.craft_type_id)
+  const incomingCraft = craftTypes.find(craft => craft.code.toUpperCase() === craftCode.toUpperCase())
+
+  if (incomingCraft && !DEFAULT_CRAFT_CODES.has(incomingCraft.code.toUpperCase())) {
+    if (incomingCraft.id === employee.craft_type_id) return null
+    return {
+      employee_number: employee.employee_number,
+      name,
+      field: 'craft',
+      current: currentCraft?.code || 'none',
+      incoming: incomingCraft.code,
+      category: incomingCraft.category.toLowerCase() as LaborCategory,
+      craft_type_id: incomingCraft.id
+    }
+  }
+
+  const incomingCategory = categoryFromCraftCode(craftCode)
+  if (!incomingCategory || incomingCategory === currentCategory) return null
+
+  return {
+    employee_number: employee.employee_number,
+    name,
+    field: 'category',
+    current: currentCategory,
+    incoming: incomingCategory,
+    category: incomingCategory,
+    craft_type_id: null
+  }
+}
@@ -0,0 +1,472 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { ForecastCalculationService } from '@/lib/services/forecast-calculations'
+import { calculateBurdenedCost } from '@/lib/services/burden-rates'
+import type { LaborRateEscalation } from '@/lib/services/rate-escalations'
+
+export type FinancialSnapshotType = 'project' | 'division' | 'company'
+export type FinancialSnapshotSource = 'manual' | 'scheduled' | 'period_close'
+
+const SNAPSHOT_TYPES: FinancialSnapshotType[] = ['project', 'division', 'company']
+
+export interface FinancialSnapshotMetrics {
+  original_contract: number
+  approved_change_orders: number
+  revised_contract: number
+  total_budget: number
+  total_po_committed: number
+  total_po_invoiced: number
+  total_labor_cost: number
+  total_committed: number
+  total_cost_to_date: number
+  cost_to_complete: number
+  forecasted_cost: number
+  forecasted_profit: number
+  profit_margin: number
+  percent_complete: number
+  project_count: number
+}
+
+export interface FinancialSnapshot extends FinancialSnapshotMetrics {
+  id: string
+  snapshot_type: FinancialSnapshotType
+  project_id: string | null
+  division_id: string | null
+  snapshot_date: string
+  source: FinancialSnapshotSource
+  created_by: string | null
+  created_at: string
+}
+
+export interface FinancialSnapshotOptions {
+  type: FinancialSnapshotType
+  projectId?: string
+  divisionId?: string
+  snapshotDate: string
+  source?: FinancialSnapshotSource
+  userId?: string | null
+}
+
+export interface SnapshotDifference {
+  metric: keyof FinancialSnapshotMetrics
+  label: string
+  format: 'currency' | 'percent' | 'count'
+  from: number
+  to: number
+  change: number
+  percentChange: number | null
+}
+
+/**
+ * Metrics compared between snapshots, in display order
+ */
+export const SNAPSHOT_METRICS: { metric: keyof FinancialSnapshotMetrics; label: string; format: SnapshotDifference['format'] }[] = [
+  { metric: 'original_contract', label: 'Original Contract', format: 'currency' },
+  { metric: 'approved_change_orders', label: 'Approved Change Orders', format: 'currency' },
+  { metric: 'revised_contract', label: 'Revised Contract', format: 'currency' },
+  { metric: 'total_budget', label: 'Budget', format: 'currency' },
+  { metric: 'total_po_committed', label: 'PO Committed', format: 'currency' },
+  { metric: 'total_po_invoiced', label: 'PO Invoiced', format: 'currency' },
+  { metric: 'total_labor_cost', label: 'Labor Actuals', format: 'currency' },
+  { metric: 'total_committed', label: 'Total Committed', format: 'currency' },
+  { metric: 'total_cost_to_date', label: 'Cost to Date', format: 'currency' },
+  { metric: 'cost_to_complete', label: 'Cost to Complete', format: 'currency' },
+  { metric: 'forecasted_cost', label: 'Estimate at Completion', format: 'currency' },
+  { metric: 'forecasted_profit', label: 'Forecasted Profit', format: 'currency' },
+  { metric: 'profit_margin', label: 'Profit Margin', format: 'percent' },
+  { metric: 'percent_complete', label: 'Percent Complete', format: 'percent' },
+  { metric: 'project_count', label: 'Projects', format: 'count' }
+]
+
+interface SnapshotProject {
+  id: string
+  original_contract: number | null
+  total_budget: number | null
+  status?: string | null
+  deleted_at?: string | null
+}
+
+interface SnapshotPurchaseOrder {
+  project_id: string
+  committed_amount: number | null
+  invoiced_amount: number | null
+  forecast_amount: number | null
+  status: string | null
+}
+
+interface SnapshotChangeOrder {
+  project_id: string
+  amount: number | null
+  status: string | null
+  approved_date: string | null
+  deleted_at: string | null
+}
+
+interface SnapshotLaborActual {
+  project_id: string
+  week_ending: string
+  st_wages: number | null
+  ot_wages: number | null
+  burden_rate: number | null
+  total_cost_with_burden: number | null
+  total_hours: number | null
+  employees: {
+    craft_type_id: string | null
+    craft_types: { id: string; category: string } | null
+  } | null
+}
+
+interface SnapshotLaborForecast {
+  project_id: string
+  week_ending: string
+  headcount: number | null
+  avg_weekly_hours: number | null
+  craft_type_id: string
+  craft_types: { id: string; name: string; default_rate: number | null; category: string } | null
+}
+
+const PROJECT_COLUMNS = 'id, original_contract, total_budget, status, deleted_at'
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+const emptyMetrics = (): FinancialSnapshotMetrics => ({
+  original_contract: 0,
+  approved_change_orders: 0,
+  revised_contract: 0,
+  total_budget: 0,
+  total_po_committed: 0,
+  total_po_invoiced: 0,
+  total_labor_cost: 0,
+  total_committed: 0,
+  total_cost_to_date: 0,
+  cost_to_complete: 0,
+  forecasted_cost: 0,
+  forecasted_profit: 0,
+  profit_margin: 0,
+  percent_complete: 0,
+  project_count: 0
+})
+
+function groupByProject<T extends { project_id: string }>(rows: T[]): Map<string, T[]> {
+  const grouped = new Map<string, T[]>()
+  rows.forEach(row => {
+    const projectRows = grouped.get(row.project_id) || []
+    projectRows.push(row)
+    grouped.set(row.project_id, projectRows)
+  })
+  return grouped
+}
+
+/**
+ * Estimate at completion for one project as of the snapshot date, using the same
+ * PO and labor rules as ForecastCalculationService.calculateProjectEAC
+ */
+async function calculateProjectCosts(
+  projectId: string,
+  purchaseOrders: SnapshotPurchaseOrder[],
+  laborActuals: SnapshotLaborActual[],
+  laborForecasts: SnapshotLaborForecast[],
+  escalations: LaborRateEscalation[],
+  snapshotDate: string
+) {
+  const poTotals = ForecastCalculationService.calculateTotalPOForecast(
+    purchaseOrders.map(po => ({
+      committed_amount: po.committed_amount,
+      invoiced_amount: po.invoiced_amount,
+      forecast_amount: po.forecast_amount,
+      forecasted_final_cost: null
+    }))
+  )
+
+  const actuals = laborActuals.map(labor => ({
+    actual_cost: calculateBurdenedCost(labor),
+    actual_hours: labor.total_hours,
+    week_ending: labor.week_ending,
+    craft_type: labor.employees?.craft_types || null
+  }))
+  const laborTotals = ForecastCalculationService.calculateTotalLaborActuals(actuals)
+
+  // Forecast weeks that already have actuals are spent, not remaining
+  const weeksWithActuals = new Set(laborActuals.map(labor => labor.week_ending.split('T')[0]))
+  const remainingForecasts = laborForecasts.filter(f => !weeksWithActuals.has(f.week_ending.split('T')[0]))
+  const craftTypes = laborForecasts.flatMap(f => (f.craft_types ? [f.craft_types] : []))
+
+  const futureLabor = await ForecastCalculationService.calculateFutureLaborCost(
+    projectId,
+    remainingForecasts.map(f => ({
+      forecasted_headcount: f.headcount || 0,
+      weekly_hours: f.avg_weekly_hours || undefined,
+      craft_type: f.craft_type_id,
+      week_ending: f.week_ending
+    })),
+    ForecastCalculationService.calculateLaborRatesByCraft(actuals),
+    craftTypes,
+    { escalations, asOfDate: snapshotDate }
+  )
+
+  return {
+    poCommitted: poTotals.committed,
+    poInvoiced: poTotals.invoiced,
+    laborCost: laborTotals.total,
+    costToDate: poTotals.invoiced + laborTotals.total,
+    costToComplete: poTotals.remainingCommitments + futureLabor.total
+  }
+}
+
+async function loadScopeProjects(
+  supabase: SupabaseClient,
+  options: FinancialSnapshotOptions
+): Promise<SnapshotProject[] | null> {
+  if (options.type === 'project') {
+    if (!options.projectId) return null
+
+    const { data: project } = await supabase
+      .from('projects')
+      .select(PROJECT_COLUMNS)
+      .eq('id', options.projectId)
+      .single()
+
+    if (!project) {
+      throw new Error('Project not found')
+    }
+    return [project as SnapshotProject]
+  }
+
+  // Division snapshots predate the single-division schema; they only pick up
+  // projects that still carry a division_id
+  const query = options.type === 'division'
+    ? options.divisionId
+      ? supabase.from('projects').select(PROJECT_COLUMNS).eq('division_id', options.divisionId)
+      : null
+    : supabase.from('projects').select(PROJECT_COLUMNS).eq('status', 'active')
+
+  if (!query) return null
+
+  const { data, error } = await query
+  if (error) {
+    throw new Error(`Failed to load projects: ${error.message}`)
+  }
+  return ((data || []) as SnapshotProject[]).filter(project => !project.deleted_at)
+}
+
+/**
+ * Calculate a point-in-time financial snapshot for a project, division or the whole
+ * company and store it in financial_snapshots.
+ *
+ * Labor actuals and approved change orders are limited to the snapshot date; POs carry
+ * no history, so they are captured as they stand when the snapshot is taken.
+ */
+export async function calculateFinancialSnapshot(
+  supabase: SupabaseClient,
+  options: FinancialSnapshotOptions
+): Promise<FinancialSnapshot> {
+  if (!SNAPSHOT_TYPES.includes(options.type)) {
+    throw new Error(`Invalid snapshot type: ${options.type}`)
+  }
+
+  const { snapshotDate } = options
+  const metrics = emptyMetrics()
+  const projects = await loadScopeProjects(supabase, options)
+
+  if (projects) {
+    const projectIds = projects.map(project => project.id)
+    // Scope each cost query the way the projects were loaded
+    const scoped = (table: string, columns: string) => {
+      const query = supabase.from(table).select(columns)
+      if (options.type === 'project') return query.eq('project_id', options.projectId!)
+      if (options.type === 'division') return query.in('project_id', projectIds)
+      return query
+    }
+
+    const { data: purchaseOrders } = await scoped(
+      'purchase_orders',
+      'project_id, committed_amount, invoiced_amount, forecast_amount, status'
+    )
+    const { data: changeOrders } = await scoped(
+      'change_orders',
+      'project_id, amount, status, approved_date, deleted_at'
+    )
+    const { data: laborActuals } = await scoped(
+      'labor_employee_actuals',
+      'project_id, week_ending, st_wages, ot_wages, burden_rate, total_cost_with_burden, total_hours, employees(craft_type_id, craft_types(id, category))'
+    )
+    const { data: laborForecasts } = await scoped(
+      'labor_headcount_forecasts',
+      'project_id, week_ending, headcount, avg_weekly_hours, craft_type_id, craft_types(id, name, default_rate, category)'
+    )
+    // Escalations only matter when there is forecast labor to cost
+    const { data: escalations } = laborForecasts?.length
+      ? await supabase
+          .from('labor_rate_escalations')
+          .select('project_id, craft_type_id, name, effective_date, escalation_type, value')
+      : { data: [] }
+
+    const inScope = new Set(projectIds)
+    const posByProject = groupByProject(
+      ((purchaseOrders || []) as unknown as SnapshotPurchaseOrder[])
+        .filter(po => inScope.has(po.project_id) && po.status !== 'cancelled')
+    )
+    const changeOrdersByProject = groupByProject(
+      ((changeOrders || []) as unknown as SnapshotChangeOrder[]).filter(co =>
+        inScope.has(co.project_id) &&
+        co.status === 'approved' &&
+        !co.deleted_at &&
+        (!co.approved_date || co.approved_date.split('T')[0] <= snapshotDate)
+      )
+    )
+    const actualsByProject = groupByProject(
+      ((laborActuals || []) as unknown as SnapshotLaborActual[])
+        .filter(labor => inScope.has(labor.project_id) && labor.week_ending.split('T')[0] <= snapshotDate)
+    )
+    const forecastsByProject = groupByProject(
+      ((laborForecasts || []) as unknown as SnapshotLaborForecast[])
+        .filter(forecast => inScope.has(forecast.project_id) && forecast.week_ending.split('T')[0] > snapshotDate)
+    )
+
+    for (const project of projects) {
+      const costs = await calculateProjectCosts(
+        project.id,
+        posByProject.get(project.id) || [],
+        actualsByProject.get(project.id) || [],
+        forecastsByProject.get(project.id) || [],
+        ((escalations || []) as LaborRateEscalation[])
+          .filter(escalation => !escalation.project_id || escalation.project_id === project.id),
+        snapshotDate
+      )
+      const approvedChangeOrders = (changeOrdersByProject.get(project.id) || [])
+        .reduce((sum, co) => sum + Number(co.amount || 0), 0)
+
+      metrics.original_contract += Number(project.original_contract || 0)
+      metrics.approved_change_orders += approvedChangeOrders
+      metrics.total_budget += Number(project.total_budget || 0)
+      metrics.total_po_committed += costs.poCommitted
+      metrics.total_po_invoiced += costs.poInvoiced
+      metrics.total_labor_cost += costs.laborCost
+      metrics.total_cost_to_date += costs.costToDate
+      metrics.cost_to_complete += costs.costToComplete
+    }
+
+    metrics.project_count = projects.length
+    metrics.revised_contract = metrics.original_contract + metrics.approved_change_orders
+    metrics.total_committed = metrics.total_po_committed + metrics.total_labor_cost
+    metrics.forecasted_cost = metrics.total_cost_to_date + metrics.cost_to_complete
+    metrics.forecasted_profit = metrics.revised_contract - metrics.forecasted_cost
+    metrics.profit_margin = metrics.revised_contract > 0
+      ? (metrics.forecasted_profit / metrics.revised_contract) * 100
+      : 0
+    metrics.percent_complete = metrics.forecasted_cost > 0
+      ? Math.min(100, (metrics.total_cost_to_date / metrics.forecasted_cost) * 100)
+      : 0
+  }
+
+  const row = Object.fromEntries(
+    Object.entries(metrics).map(([metric, value]) => [metric, metric === 'project_count' ? value : round(value)])
+  )
+
+  const { data: snapshot, error } = await supabase
+    .from('financial_snapshots')
+    .insert({
+      snapshot_type: options.type,
+      project_id: options.type === 'project' ? options.projectId ?? null : null,
+      division_id: options.type === 'division' ? options.divisionId ?? null : null,
+      snapshot_date: snapshotDate,
+      source: options.source || 'manual',
+      created_by: options.userId ?? null,
+      ...row
+    })
+    .select()
+    .single()
+
+  if (error || !snapshot) {
+    throw new Error(`Failed to create financial snapshot: ${error?.message || 'no snapshot returned'}`)
+  }
+
+  // Roll-ups belong to no single project (or division, for the company)
+  if (options.type !== 'project') snapshot.project_id = snapshot.project_id ?? null
+  if (options.type === 'company') snapshot.division_id = snapshot.division_id ?? null
+
+  return snapshot as FinancialSnapshot
+}
+
+/**
+ * Metric-by-metric differences between two snapshots (to minus from)
+ */
+export function compareFinancialSnapshots(
+  from: Partial<FinancialSnapshotMetrics>,
+  to: Partial<FinancialSnapshotMetrics>
+): SnapshotDifference[] {
+  return SNAPSHOT_METRICS.map(({ metric, label, format }) => {
+    const fromValue = Number(from[metric] || 0)
+    const toValue = Number(to[metric] || 0)
+    const change = toValue - fromValue
+    return {
+      metric,
+      label,
+      format,
+      from: fromValue,
+      to: toValue,
+      change: round(change),
+      percentChange: fromValue !== 0 ? round((change / Math.abs(fromValue)) * 100) : null
+    }
+  })
+}
+
+/**
+ * Take the scheduled snapshots for a date: one per active project plus the company
+ * roll-up. Scopes that already have a snapshot for the date, or whose month is closed,
+ * are skipped, so the schedule can safely re-run.
+ */
+export async function createScheduledSnapshots(
+  supabase: SupabaseClient,
+  snapshotDate: string
+): Promise<{ created: number; skipped: number; failed: { projectId: string | null; error: string }[] }> {
+  const result = { created: 0, skipped: 0, failed: [] as { projectId: string | null; error: string }[] }
+
+  const { data: existing } = await supabase
+    .from('financial_snapshots')
+    .select('snapshot_type, project_id')
+    .eq('snapshot_date', snapshotDate)
+  const taken = new Set((existing || []).map(s => `${s.snapshot_type}:${s.project_id || ''}`))
+
+  // A closed month keeps the snapshot frozen when it was closed
+  const { data: closedPeriods } = await supabase
+    .from('accounting_periods')
+    .select('project_id')
+    .eq('status', 'closed')
+    .eq('period_month', `${snapshotDate.slice(0, 7)}-01`)
+  const closedCompanyWide = (closedPeriods || []).some(period => !period.project_id)
+  const closedProjects = new Set((closedPeriods || []).map(period => period.project_id))
+
+  const { data: projects, error } = await supabase
+    .from('projects')
+    .select('id')
+    .eq('status', 'active')
+    .is('deleted_at', null)
+
+  if (error) {
+    throw new Error(`Failed to load projects: ${error.message}`)
+  }
+
+  const scopes: FinancialSnapshotOptions[] = [
+    ...(projects || []).map(project => ({ type: 'project' as const, projectId: project.id, snapshotDate })),
+    { type: 'company', snapshotDate }
+  ]
+
+  for (const scope of scopes) {
+    const closed = closedCompanyWide || (!!scope.projectId && closedProjects.has(scope.projectId))
+    if (closed || taken.has(`${scope.type}:${scope.projectId || ''}`)) {
+      result.skipped++
+      continue
+    }
+    try {
+      await calculateFinancialSnapshot(supabase, { ...scope, source: 'scheduled' })
+      result.created++
+    } catch (err) {
+      result.failed.push({
+        projectId: scope.projectId || null,
+        error: err instanceof Error ? err.message : String(err)
+      })
+    }
+  }
+
+  return result
+}
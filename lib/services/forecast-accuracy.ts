@@ -0,0 +1,434 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { calculateBurdenedCost } from '@/lib/services/burden-rates'
+
+export interface HeadcountForecastSnapshot {
+  projectId: string
+  craftTypeId: string
+  weekEnding: string
+  headcount: number
+  avgWeeklyHours: number
+  recordedAt: string
+}
+
+export interface LaborActualWeek {
+  projectId: string
+  craftTypeId: string
+  weekEnding: string
+  headcount: number
+  hours: number
+  cost: number
+}
+
+export interface POForecastChange {
+  changeDate: string
+  oldValue: number | null
+  newValue: number | null
+}
+
+export interface CompletedPurchaseOrder {
+  projectId: string
+  category: string | null
+  orderDate: string | null
+  // Last invoice date, when the final cost became known
+  completedDate: string
+  finalInvoiced: number
+  currentForecast: number
+  forecastHistory: POForecastChange[]
+}
+
+export interface AccuracyProject {
+  id: string
+  name: string
+  jobNumber: string
+  managerId: string | null
+  managerName: string | null
+}
+
+export interface ForecastAccuracyInput {
+  lagWeeks: number
+  from: string
+  to: string
+  projects: AccuracyProject[]
+  crafts: { id: string; category: string | null; defaultRate: number | null }[]
+  headcountHistory: HeadcountForecastSnapshot[]
+  laborActuals: LaborActualWeek[]
+  purchaseOrders: CompletedPurchaseOrder[]
+}
+
+export interface AccuracyStats {
+  samples: number
+  forecast: number
+  actual: number
+  // Forecast less actual: positive forecasts ran high
+  bias: number
+  biasPercent: number | null
+  absoluteError: number
+  // Absolute error as a share of actual (weighted absolute percent error)
+  errorPercent: number | null
+}
+
+export interface AccuracyGroup extends AccuracyStats {
+  key: string
+  label: string
+}
+
+export interface AccuracyBreakdown {
+  overall: AccuracyStats
+  byManager: AccuracyGroup[]
+  byProject: AccuracyGroup[]
+  byCategory: AccuracyGroup[]
+}
+
+export interface ForecastAccuracyReport {
+  lagWeeks: number
+  from: string
+  to: string
+  headcount: AccuracyBreakdown
+  laborCost: AccuracyBreakdown
+  purchaseOrders: AccuracyBreakdown
+  // Forecast crafts with no rate as of the forecast date, left out of labor cost
+  uncostedSamples: number
+}
+
+interface Sample {
+  projectId: string
+  category: string
+  forecast: number
+  actual: number
+}
+
+const UNASSIGNED = 'unassigned'
+const UNCATEGORIZED = 'uncategorized'
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+const addDays = (date: string, days: number) => {
+  const result = new Date(date + 'T00:00:00Z')
+  result.setUTCDate(result.getUTCDate() + days)
+  return result.toISOString().split('T')[0]
+}
+
+function toStats(samples: Sample[]): AccuracyStats {
+  const forecast = samples.reduce((sum, sample) => sum + sample.forecast, 0)
+  const actual = samples.reduce((sum, sample) => sum + sample.actual, 0)
+  const absoluteError = samples.reduce((sum, sample) => sum + Math.abs(sample.forecast - sample.actual), 0)
+  return {
+    samples: samples.length,
+    forecast: round(forecast),
+    actual: round(actual),
+    bias: round(forecast - actual),
+    biasPercent: actual > 0 ? round(((forecast - actual) / actual) * 100) : null,
+    absoluteError: round(absoluteError),
+    errorPercent: actual > 0 ? round((absoluteError / actual) * 100) : null
+  }
+}
+
+function groupStats(samples: Sample[], keyOf: (sample: Sample) => string, labelOf: (key: string) => string): AccuracyGroup[] {
+  const groups = new Map<string, Sample[]>()
+  samples.forEach(sample => {
+    const key = keyOf(sample)
+    groups.set(key, [...(groups.get(key) || []), sample])
+  })
+  return [...groups.entries()]
+    .map(([key, group]) => ({ key, label: labelOf(key), ...toStats(group) }))
+    .sort((a, b) => a.label.localeCompare(b.label))
+}
+
+/**
+ * A PO's final cost forecast as it stood on a date: the last change by then, else the
+ * value the first later change replaced, else today's forecast if it never changed
+ */
+export function poForecastAsOf(po: Pick<CompletedPurchaseOrder, 'currentForecast' | 'forecastHistory'>, date: string): number {
+  const history = [...po.forecastHistory].sort((a, b) => a.changeDate.localeCompare(b.changeDate))
+  const before = history.filter(change => change.changeDate.split('T')[0] <= date)
+  if (before.length > 0) return before[before.length - 1].newValue ?? 0
+  if (history.length > 0) return history[0].oldValue ?? 0
+  return po.currentForecast
+}
+
+/**
+ * How past forecasts compared with what happened, lagWeeks ahead.
+ *
+ * Each week ending from..to is compared with the headcount forecast for it as it stood
+ * lagWeeks earlier, by project and craft. That forecast is costed at the craft's running
+ * average rate on the project as of the forecast date (else its default rate), as the
+ * EAC would have costed it then. Completed POs compare the final cost forecast lagWeeks
+ * before their last invoice with the final invoiced amount.
+ */
+export function calculateForecastAccuracy(input: ForecastAccuracyInput): ForecastAccuracyReport {
+  const lagDays = input.lagWeeks * 7
+  const crafts = new Map(input.crafts.map(craft => [craft.id, craft]))
+  const categoryOf = (craftTypeId: string) => (crafts.get(craftTypeId)?.category || 'direct').toLowerCase()
+
+  const actualsByKey = new Map<string, LaborActualWeek>()
+  input.laborActuals.forEach(actual => {
+    const key = `${actual.projectId}|${actual.craftTypeId}|${actual.weekEnding}`
+    const existing = actualsByKey.get(key)
+    actualsByKey.set(key, existing
+      ? {
+          ...existing,
+          headcount: existing.headcount + actual.headcount,
+          hours: existing.hours + actual.hours,
+          cost: existing.cost + actual.cost
+        }
+      : actual)
+  })
+
+  const rateAsOf = (projectId: string, craftTypeId: string, date: string) => {
+    let cost = 0
+    let hours = 0
+    input.laborActuals.forEach(actual => {
+      if (actual.projectId === projectId && actual.craftTypeId === craftTypeId && actual.weekEnding <= date) {
+        cost += actual.cost
+        hours += actual.hours
+      }
+    })
+    if (hours > 0) return cost / hours
+    const defaultRate = Number(crafts.get(craftTypeId)?.defaultRate || 0)
+    return defaultRate > 0 ? defaultRate : null
+  }
+
+  // Latest snapshot per project, craft and week as of each week's forecast date
+  const forecasts = new Map<string, HeadcountForecastSnapshot>()
+  input.headcountHistory.forEach(snapshot => {
+    if (snapshot.weekEnding < input.from || snapshot.weekEnding > input.to) return
+    if (snapshot.recordedAt.split('T')[0] > addDays(snapshot.weekEnding, -lagDays)) return
+    const key = `${snapshot.projectId}|${snapshot.craftTypeId}|${snapshot.weekEnding}`
+    const existing = forecasts.get(key)
+    if (!existing || snapshot.recordedAt > existing.recordedAt) forecasts.set(key, snapshot)
+  })
+
+  // Weeks a project was forecast are compared craft by craft, including crafts that
+  // worked without a forecast
+  const forecastWeeks = new Set([...forecasts.values()].map(f => `${f.projectId}|${f.weekEnding}`))
+  const keys = new Set(forecasts.keys())
+  actualsByKey.forEach(actual => {
+    if (forecastWeeks.has(`${actual.projectId}|${actual.weekEnding}`)) {
+      keys.add(`${actual.projectId}|${actual.craftTypeId}|${actual.weekEnding}`)
+    }
+  })
+
+  const headcountSamples: Sample[] = []
+  const costSamples: Sample[] = []
+  let uncostedSamples = 0
+  keys.forEach(key => {
+    const [projectId, craftTypeId, weekEnding] = key.split('|')
+    const forecast = forecasts.get(key)
+    const actual = actualsByKey.get(key)
+    const category = categoryOf(craftTypeId)
+
+    headcountSamples.push({
+      projectId,
+      category,
+      forecast: forecast?.headcount || 0,
+      actual: actual?.headcount || 0
+    })
+
+    const forecastHours = forecast ? forecast.headcount * forecast.avgWeeklyHours : 0
+    const rate = forecastHours > 0 ? rateAsOf(projectId, craftTypeId, addDays(weekEnding, -lagDays)) : 0
+    if (rate === null) {
+      uncostedSamples++
+      return
+    }
+    costSamples.push({ projectId, category, forecast: forecastHours * rate, actual: actual?.cost || 0 })
+  })
+
+  const poSamples: Sample[] = []
+  input.purchaseOrders.forEach(po => {
+    if (po.completedDate < input.from || po.completedDate > input.to) return
+    const forecastDate = addDays(po.completedDate, -lagDays)
+    // Ordered after the forecast date: there was no forecast to measure
+    if (po.orderDate && po.orderDate > forecastDate) return
+    poSamples.push({
+      projectId: po.projectId,
+      category: po.category || UNCATEGORIZED,
+      forecast: poForecastAsOf(po, forecastDate),
+      actual: po.finalInvoiced
+    })
+  })
+
+  const projects = new Map(input.projects.map(project => [project.id, project]))
+  const managerOf = (projectId: string) => projects.get(projectId)?.managerId || UNASSIGNED
+  const managerNames = new Map(input.projects.map(project => [project.managerId || UNASSIGNED, project.managerName]))
+  const breakdown = (samples: Sample[]): AccuracyBreakdown => ({
+    overall: toStats(samples),
+    byManager: groupStats(
+      samples,
+      sample => managerOf(sample.projectId),
+      key => managerNames.get(key) || 'Unassigned'
+    ),
+    byProject: groupStats(
+      samples,
+      sample => sample.projectId,
+      key => {
+        const project = projects.get(key)
+        return project ? `${project.jobNumber} - ${project.name}` : key
+      }
+    ),
+    byCategory: groupStats(
+      samples,
+      sample => sample.category,
+      key => (key === UNCATEGORIZED ? 'Uncategorized' : key.charAt(0).toUpperCase() + key.slice(1))
+    )
+  })
+
+  return {
+    lagWeeks: input.lagWeeks,
+    from: input.from,
+    to: input.to,
+    headcount: breakdown(headcountSamples),
+    laborCost: breakdown(costSamples),
+    purchaseOrders: breakdown(poSamples),
+    uncostedSamples
+  }
+}
+
+/**
+ * Forecast accuracy over the weeks from..to, for one project or every project
+ */
+export async function fetchForecastAccuracy(
+  supabase: SupabaseClient,
+  options: { lagWeeks: number; from: string; to: string; projectId?: string }
+): Promise<ForecastAccuracyReport> {
+  const { lagWeeks, from, to, projectId } = options
+
+  let projectQuery = supabase
+    .from('projects')
+    .select('id, name, job_number, project_manager_id, project_manager:profiles!projects_project_manager_id_fkey(first_name, last_name)')
+    .is('deleted_at', null)
+  if (projectId) projectQuery = projectQuery.eq('id', projectId)
+
+  const { data: projects, error } = await projectQuery
+  if (error) throw error
+
+  if (projectId && !projects?.length) {
+    throw new Error('Project not found')
+  }
+
+  const projectIds = (projects || []).map(project => project.id)
+  if (projectIds.length === 0) {
+    return calculateForecastAccuracy({
+      lagWeeks, from, to, projects: [], crafts: [], headcountHistory: [], laborActuals: [], purchaseOrders: []
+    })
+  }
+
+  const [
+    { data: crafts },
+    { data: history },
+    { data: laborActuals },
+    { data: purchaseOrders }
+  ] = await Promise.all([
+    supabase.from('craft_types').select('id, category, default_rate'),
+    supabase
+      .from('labor_headcount_forecast_history')
+      .select('project_id, craft_type_id, week_ending, headcount, avg_weekly_hours, recorded_at')
+      .in('project_id', projectIds)
+      .gte('week_ending', from)
+      .lte('week_ending', to),
+    // Everything through the period: earlier weeks set the rates forecasts were costed at
+    supabase
+      .from('labor_employee_actuals')
+      .select('project_id, week_ending, total_hours, st_wages, ot_wages, burden_rate, total_cost_with_burden, employees!inner(craft_type_id)')
+      .in('project_id', projectIds)
+      .lte('week_ending', to),
+    supabase
+      .from('purchase_orders')
+      .select('id, project_id, budget_category, order_date, invoiced_amount, committed_amount, forecast_amount, updated_at')
+      .in('project_id', projectIds)
+      .eq('status', 'completed')
+  ])
+
+  const poIds = (purchaseOrders || []).map(po => po.id)
+  const [{ data: lineItems }, { data: poHistory }] = poIds.length
+    ? await Promise.all([
+        supabase.from('po_line_items').select('purchase_order_id, invoice_date').in('purchase_order_id', poIds),
+        supabase
+          .from('po_forecast_history')
+          .select('purchase_order_id, change_date, old_value, new_value')
+          .eq('field_name', 'forecast_amount')
+          .in('purchase_order_id', poIds)
+      ])
+    : [{ data: [] as { purchase_order_id: string; invoice_date: string | null }[] },
+       { data: [] as { purchase_order_id: string; change_date: string; old_value: string | null; new_value: string | null }[] }]
+
+  const lastInvoice = new Map<string, string>()
+  ;(lineItems || []).forEach(item => {
+    if (!item.invoice_date) return
+    const date = String(item.invoice_date).split('T')[0]
+    if (date > (lastInvoice.get(item.purchase_order_id) || '')) lastInvoice.set(item.purchase_order_id, date)
+  })
+
+  const toNumber = (value: string | null) => (value === null ? null : Number(value))
+
+  type ProjectRow = {
+    id: string
+    name: string
+    job_number: string
+    project_manager_id: string | null
+    project_manager: { first_name: string | null; last_name: string | null } | null
+  }
+  type LaborActualRow = {
+    project_id: string
+    week_ending: string
+    total_hours: number | null
+    st_wages: number | null
+    ot_wages: number | null
+    burden_rate: number | null
+    total_cost_with_burden: number | null
+    employees: { craft_type_id: string | null } | null
+  }
+
+  return calculateForecastAccuracy({
+    lagWeeks,
+    from,
+    to,
+    projects: ((projects || []) as unknown as ProjectRow[]).map(project => ({
+      id: project.id,
+      name: project.name,
+      jobNumber: project.job_number,
+      managerId: project.project_manager_id,
+      managerName: project.project_manager
+        ? [project.project_manager.first_name, project.project_manager.last_name].filter(Boolean).join(' ') || null
+        : null
+    })),
+    crafts: (crafts || []).map(craft => ({
+      id: craft.id,
+      category: craft.category,
+      defaultRate: craft.default_rate
+    })),
+    headcountHistory: (history || []).map(snapshot => ({
+      projectId: snapshot.project_id,
+      craftTypeId: snapshot.craft_type_id,
+      weekEnding: String(snapshot.week_ending).split('T')[0],
+      headcount: Number(snapshot.headcount),
+      avgWeeklyHours: Number(snapshot.avg_weekly_hours),
+      recordedAt: snapshot.recorded_at
+    })),
+    // Each employee-week row counts once toward actual headcount
+    laborActuals: ((laborActuals || []) as unknown as LaborActualRow[])
+      .filter(labor => labor.employees?.craft_type_id && Number(labor.total_hours || 0) > 0)
+      .map(labor => ({
+        projectId: labor.project_id,
+        craftTypeId: labor.employees!.craft_type_id!,
+        weekEnding: String(labor.week_ending).split('T')[0],
+        headcount: 1,
+        hours: Number(labor.total_hours || 0),
+        cost: calculateBurdenedCost(labor)
+      })),
+    purchaseOrders: (purchaseOrders || []).map(po => ({
+      projectId: po.project_id,
+      category: po.budget_category,
+      orderDate: po.order_date,
+      completedDate: lastInvoice.get(po.id) || String(po.updated_at).split('T')[0],
+      finalInvoiced: Number(po.invoiced_amount || 0),
+      currentForecast: Number(po.forecast_amount || po.committed_amount || 0),
+      forecastHistory: (poHistory || [])
+        .filter(change => change.purchase_order_id === po.id)
+        .map(change => ({
+          changeDate: change.change_date,
+          oldValue: toNumber(change.old_value),
+          newValue: toNumber(change.new_value)
+        }))
+    }))
+  })
+}
@@ -1,4 +1,5 @@
 import { createClient } from '@/lib/supabase/server'
+import { escalateRate, type LaborRateEscalation } from '@/lib/services/rate-escalations'
 
 interface PurchaseOrder {
   committed_amount: number | null
@@ -31,10 +32,151 @@ interface LaborForecast {
 
 interface CraftType {
   id: string
+  name?: string
   default_rate: number | null
   category: string
 }
 
+export type LaborRateSource = 'running_average' | 'default_rate' | 'missing'
+
+/**
+ * The rate used for one craft in one forecast week, and where it came from
+ */
+export interface LaborRateDetail {
+  craftTypeId: string
+  craftName: string | null
+  weekEnding: string | null
+  source: LaborRateSource
+  baseRate: number | null
+  rate: number | null
+  escalations: string[]
+  hours: number
+  cost: number
+}
+
+/**
+ * Forecast hours that could not be costed because the craft has no rate
+ */
+export interface LaborRateWarning {
+  craftTypeId: string
+  craftName: string | null
+  weeks: string[]
+  hours: number
+  message: string
+}
+
+export interface FutureLaborCost {
+  total: number
+  byCategory: Record<string, number>
+  rates: LaborRateDetail[]
+  warnings: LaborRateWarning[]
+}
+
+export interface FutureLaborCostOptions {
+  escalations?: Pick<LaborRateEscalation, 'craft_type_id' | 'name' | 'effective_date' | 'escalation_type' | 'value'>[]
+  // Date the base rates are current as of; escalations after it apply. Defaults to today.
+  asOfDate?: string
+}
+
+export type EACMethod = 'bottom_up' | 'cpi' | 'cpi_spi' | 'budget_remaining' | 'manual'
+
+export type EACCategory =
+  | 'direct_labor'
+  | 'indirect_labor'
+  | 'staff_labor'
+  | 'materials'
+  | 'equipment'
+  | 'subcontracts'
+  | 'small_tools'
+  | 'other'
+
+export const EAC_METHOD_LABELS: Record<EACMethod, string> = {
+  bottom_up: 'Bottom-up',
+  cpi: 'CPI (BAC / CPI)',
+  cpi_spi: 'CPI × SPI composite',
+  budget_remaining: 'Budget remaining',
+  manual: 'Manual override'
+}
+
+export const EAC_CATEGORY_LABELS: Record<EACCategory, string> = {
+  direct_labor: 'Direct Labor',
+  indirect_labor: 'Indirect Labor',
+  staff_labor: 'Staff Labor',
+  materials: 'Materials',
+  equipment: 'Equipment',
+  subcontracts: 'Subcontracts',
+  small_tools: 'Small Tools & Consumables',
+  other: 'Other'
+}
+
+// purchase_orders.budget_category values (set by the cost code mapping rules) by EAC category
+const PO_BUDGET_CATEGORIES: Record<string, EACCategory> = {
+  MATERIALS: 'materials',
+  EQUIPMENT: 'equipment',
+  SUBCONTRACTS: 'subcontracts',
+  'SMALL TOOLS & CONSUMABLES': 'small_tools'
+}
+
+const LABOR_CATEGORIES: Record<string, EACCategory> = {
+  direct: 'direct_labor',
+  indirect: 'indirect_labor',
+  staff: 'staff_labor'
+}
+
+export interface EACInput {
+  // Budget at completion by category
+  budgets: Partial<Record<EACCategory, number>>
+  purchaseOrders: (PurchaseOrder & { budget_category?: string | null })[]
+  laborActuals: LaborActual[]
+  laborForecasts: LaborForecast[]
+  craftTypes: CraftType[]
+  rateEscalations?: FutureLaborCostOptions['escalations']
+  rateAsOfDate?: string
+  // Physical progress, 0-100. CPI, CPI × SPI and budget remaining need it.
+  percentComplete?: number | null
+  plannedPercentComplete?: number | null
+  manual?: {
+    eac: number
+    justification: string
+    byCategory?: Partial<Record<EACCategory, number>> | null
+  } | null
+}
+
+export interface EACCategoryDetail {
+  category: EACCategory
+  label: string
+  budget: number
+  actualCost: number
+  earnedValue: number | null
+  estimateAtCompletion: number | null
+  variance: number | null
+}
+
+export interface EACMethodResult {
+  method: EACMethod
+  label: string
+  available: boolean
+  unavailableReason?: string
+  estimateAtCompletion: number | null
+  estimateToComplete: number | null
+  // Budget minus EAC: positive is under budget
+  variance: number | null
+  categories: EACCategoryDetail[]
+}
+
+export interface EACComparison {
+  budgetAtCompletion: number
+  actualCostToDate: number
+  earnedValue: number | null
+  plannedValue: number | null
+  cpi: number | null
+  spi: number | null
+  methods: EACMethodResult[]
+  // Rate used per craft and forecast week, and forecast hours left uncosted
+  laborRates: LaborRateDetail[]
+  laborRateWarnings: LaborRateWarning[]
+}
+
 /**
  * Centralized service for calculating project forecasts
  * Ensures consistency across all views and reports
@@ -108,14 +250,17 @@ export class ForecastCalculationService {
 
   /**
    * Calculate future labor costs from headcount forecasts
-   * Uses running average rates when available, falls back to default rates
+   * Uses running average rates when available, then the craft's default rate, with
+   * escalations applied per week. Crafts with neither rate are not costed and are
+   * reported in warnings instead.
    */
   static async calculateFutureLaborCost(
     projectId: string,
     laborForecasts: LaborForecast[],
     runningAverageRates: Record<string, number>,
-    craftTypes?: CraftType[]
-  ): Promise<{ total: number; byCategory: Record<string, number> }> {
+    craftTypes?: CraftType[],
+    options: FutureLaborCostOptions = {}
+  ): Promise<FutureLaborCost> {
     const craftTypeMap: Record<string, CraftType> = {}
     
     // Get craft types if not provided
@@ -123,7 +268,7 @@ export class ForecastCalculationService {
       const supabase = await createClient()
       const { data: craftTypesData } = await supabase
         .from('craft_types')
-        .select('id, default_rate, category')
+        .select('id, name, default_rate, category')
       
       if (craftTypesData) {
         craftTypesData.forEach(ct => {
@@ -136,31 +281,91 @@ export class ForecastCalculationService {
       })
     }
     
+    const asOfDate = options.asOfDate || new Date().toISOString().split('T')[0]
+    const escalations = options.escalations || []
+
     let total = 0
     const byCategory: Record<string, number> = {
       direct: 0,
       indirect: 0,
       staff: 0
     }
+    const rates: LaborRateDetail[] = []
+    const missing = new Map<string, { weeks: Set<string>; hours: number }>()
     
     laborForecasts.forEach(forecast => {
-      // Use running average rate if available, otherwise use default rate
-      const rate = runningAverageRates[forecast.craft_type] || 
-                   craftTypeMap[forecast.craft_type]?.default_rate || 
-                   50 // fallback rate
+      const craft = craftTypeMap[forecast.craft_type]
+      const weekEnding = (forecast.week_ending || forecast.week_starting || '').split('T')[0] || null
+
+      // Running average first, then the craft's default rate; never a made-up rate
+      const runningAverage = runningAverageRates[forecast.craft_type]
+      const defaultRate = Number(craft?.default_rate || 0)
+      const source: LaborRateSource = runningAverage
+        ? 'running_average'
+        : defaultRate > 0 ? 'default_rate' : 'missing'
+      const baseRate = source === 'running_average'
+        ? runningAverage
+        : source === 'default_rate' ? defaultRate : null
       
       // Use weekly_hours if provided, otherwise default to 40
       const weeklyHours = (forecast.weekly_hours || 40) * forecast.forecasted_headcount
-      const weeklyLaborCost = weeklyHours * rate
+
+      if (baseRate === null) {
+        if (weeklyHours > 0) {
+          const entry = missing.get(forecast.craft_type) || { weeks: new Set<string>(), hours: 0 }
+          if (weekEnding) entry.weeks.add(weekEnding)
+          entry.hours += weeklyHours
+          missing.set(forecast.craft_type, entry)
+        }
+        rates.push({
+          craftTypeId: forecast.craft_type,
+          craftName: craft?.name || null,
+          weekEnding,
+          source,
+          baseRate: null,
+          rate: null,
+          escalations: [],
+          hours: weeklyHours,
+          cost: 0
+        })
+        return
+      }
+
+      const escalated = escalateRate(baseRate, forecast.craft_type, weekEnding, escalations, asOfDate)
+      const weeklyLaborCost = weeklyHours * escalated.rate
       
       total += weeklyLaborCost
       
       // Track by category
-      const category = craftTypeMap[forecast.craft_type]?.category || 'direct'
+      const category = craft?.category || 'direct'
       byCategory[category] = (byCategory[category] || 0) + weeklyLaborCost
+
+      rates.push({
+        craftTypeId: forecast.craft_type,
+        craftName: craft?.name || null,
+        weekEnding,
+        source,
+        baseRate,
+        rate: escalated.rate,
+        escalations: escalated.applied,
+        hours: weeklyHours,
+        cost: weeklyLaborCost
+      })
+    })
+
+    const warnings: LaborRateWarning[] = [...missing.entries()].map(([craftTypeId, entry]) => {
+      const craftName = craftTypeMap[craftTypeId]?.name || null
+      return {
+        craftTypeId,
+        craftName,
+        weeks: [...entry.weeks].sort(),
+        hours: entry.hours,
+        message: `${craftName || 'Unknown craft'} has no actuals or default rate; ` +
+          `${Math.round(entry.hours).toLocaleString()} forecast hours are not costed`
+      }
     })
     
-    return { total, byCategory }
+    return { total, byCategory, rates, warnings }
   }
 
   /**
@@ -245,6 +450,145 @@ export class ForecastCalculationService {
     }
   }
 
+  /**
+   * Estimate at completion by every EAC method, with per-category detail, so
+   * controllers can compare them side by side. Category estimates add up to the
+   * method's total; costs without a budget are carried at their bottom-up estimate.
+   */
+  static async calculateEACMethods(
+    projectId: string,
+    input: EACInput
+  ): Promise<EACComparison> {
+    const categories = Object.keys(EAC_CATEGORY_LABELS) as EACCategory[]
+    const zero = () => Object.fromEntries(categories.map(c => [c, 0])) as Record<EACCategory, number>
+
+    const budget = zero()
+    categories.forEach(c => { budget[c] = input.budgets[c] || 0 })
+
+    // Actual cost and bottom-up estimate by category
+    const actual = zero()
+    const bottomUp = zero()
+
+    const posByCategory = new Map<EACCategory, PurchaseOrder[]>()
+    input.purchaseOrders.forEach(po => {
+      const category = PO_BUDGET_CATEGORIES[(po.budget_category || '').toUpperCase()] || 'other'
+      posByCategory.set(category, [...(posByCategory.get(category) || []), po])
+    })
+    posByCategory.forEach((pos, category) => {
+      // PO forecasts (committed unless a forecast is entered, never below invoiced)
+      const totals = this.calculateTotalPOForecast(pos)
+      actual[category] += totals.invoiced
+      bottomUp[category] += totals.forecasted
+    })
+
+    const laborActualTotals = this.calculateTotalLaborActuals(input.laborActuals)
+    const futureLabor = await this.calculateFutureLaborCost(
+      projectId,
+      input.laborForecasts,
+      this.calculateLaborRatesByCraft(input.laborActuals),
+      input.craftTypes,
+      { escalations: input.rateEscalations, asOfDate: input.rateAsOfDate }
+    )
+    Object.entries(LABOR_CATEGORIES).forEach(([laborCategory, category]) => {
+      actual[category] += laborActualTotals.byCategory[laborCategory] || 0
+      bottomUp[category] += (laborActualTotals.byCategory[laborCategory] || 0) +
+        (futureLabor.byCategory[laborCategory] || 0)
+    })
+
+    const sum = (values: Record<EACCategory, number>) => categories.reduce((total, c) => total + values[c], 0)
+    const budgetAtCompletion = sum(budget)
+    const actualCostToDate = sum(actual)
+
+    // Earned and planned value from physical progress
+    const percentComplete = input.percentComplete ?? null
+    const plannedPercent = input.plannedPercentComplete ?? null
+    const earned = percentComplete !== null
+      ? Object.fromEntries(categories.map(c => [c, budget[c] * percentComplete / 100])) as Record<EACCategory, number>
+      : null
+    const earnedValue = earned ? sum(earned) : null
+    const plannedValue = plannedPercent !== null ? budgetAtCompletion * plannedPercent / 100 : null
+    const cpi = earnedValue !== null && actualCostToDate > 0 ? earnedValue / actualCostToDate : null
+    const spi = earnedValue !== null && plannedValue ? earnedValue / plannedValue : null
+
+    const result = (
+      method: EACMethod,
+      estimate: ((category: EACCategory) => number | null) | null,
+      unavailableReason?: string
+    ): EACMethodResult => {
+      const details = categories
+        .filter(c => budget[c] !== 0 || actual[c] !== 0 || bottomUp[c] !== 0)
+        .map(c => {
+          const eac = estimate ? estimate(c) : null
+          return {
+            category: c,
+            label: EAC_CATEGORY_LABELS[c],
+            budget: budget[c],
+            actualCost: actual[c],
+            earnedValue: earned ? earned[c] : null,
+            estimateAtCompletion: eac,
+            variance: eac !== null ? budget[c] - eac : null
+          }
+        })
+      const categoryTotal = details.every(d => d.estimateAtCompletion !== null)
+        ? details.reduce((total, d) => total + (d.estimateAtCompletion || 0), 0)
+        : null
+      const estimateAtCompletion = method === 'manual' && input.manual ? input.manual.eac : categoryTotal
+
+      return {
+        method,
+        label: EAC_METHOD_LABELS[method],
+        available: estimate !== null,
+        ...(unavailableReason ? { unavailableReason } : {}),
+        estimateAtCompletion,
+        estimateToComplete: estimateAtCompletion !== null ? estimateAtCompletion - actualCostToDate : null,
+        variance: estimateAtCompletion !== null ? budgetAtCompletion - estimateAtCompletion : null,
+        categories: details
+      }
+    }
+
+    // Remaining work (BAC - EV) at a performance factor; never below what is already spent
+    const performanceEstimate = (factor: (category: EACCategory) => number | null) => (c: EACCategory) => {
+      if (budget[c] === 0 || !earned) return bottomUp[c]
+      const remainingWork = Math.max(0, budget[c] - earned[c])
+      const f = factor(c)
+      return f ? actual[c] + remainingWork / f : bottomUp[c]
+    }
+    const categoryCPI = (c: EACCategory) => (earned && actual[c] > 0 ? earned[c] / actual[c] : null)
+
+    const noProgress = 'Enter percent complete to calculate earned value'
+
+    return {
+      budgetAtCompletion,
+      actualCostToDate,
+      earnedValue,
+      plannedValue,
+      cpi,
+      spi,
+      laborRates: futureLabor.rates,
+      laborRateWarnings: futureLabor.warnings,
+      methods: [
+        result('bottom_up', c => bottomUp[c]),
+        earned
+          ? result('cpi', performanceEstimate(categoryCPI))
+          : result('cpi', null, noProgress),
+        !earned
+          ? result('cpi_spi', null, noProgress)
+          : spi === null
+            ? result('cpi_spi', null, 'Enter planned percent complete or a project end date to calculate SPI')
+            : result('cpi_spi', performanceEstimate(c => {
+                const categoryIndex = categoryCPI(c)
+                return categoryIndex !== null ? categoryIndex * spi : null
+              })),
+        earned
+          ? result('budget_remaining', performanceEstimate(() => 1))
+          : result('budget_remaining', null, noProgress),
+        input.manual
+          ? result('manual', c => (input.manual?.byCategory ? input.manual.byCategory[c] ?? null : null))
+          : result('manual', null, 'No manual estimate has been entered')
+      ]
+    }
+  }
+
   /**
    * Calculate forecast for a specific budget category
    * Used in budget vs actual views
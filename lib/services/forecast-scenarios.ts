@@ -0,0 +1,243 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { fetchProjectEAC } from '@/lib/services/project-eac'
+import type { EACMethod } from '@/lib/services/forecast-calculations'
+
+export interface ForecastScenario {
+  id: string
+  project_id: string
+  name: string
+  description: string | null
+  based_on_scenario_id: string | null
+  is_current: boolean
+  promoted_at: string | null
+  promoted_by: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ScenarioHeadcount {
+  craft_type_id: string
+  week_ending: string
+  headcount: number
+  avg_weekly_hours: number
+}
+
+export interface ScenarioPOForecast {
+  purchase_order_id: string
+  forecast_amount: number
+}
+
+export interface CreateForecastScenarioOptions {
+  projectId: string
+  name: string
+  description?: string | null
+  basedOnScenarioId?: string | null
+  userId: string
+}
+
+/**
+ * EAC and margin for the live forecast (scenarioId null) or a scenario
+ */
+export interface ScenarioOutcome {
+  scenarioId: string | null
+  name: string
+  isCurrent: boolean
+  officialMethod: EACMethod
+  officialMethodLabel: string
+  estimateAtCompletion: number | null
+  estimateToComplete: number | null
+  bottomUpEAC: number | null
+  revisedContract: number
+  forecastedProfit: number | null
+  profitMargin: number | null
+  // Against the live forecast's official EAC; positive costs more
+  eacChange: number | null
+}
+
+/**
+ * Profit and margin (percent of revised contract) at an estimate at completion
+ */
+export function scenarioMargin(revisedContract: number, estimateAtCompletion: number | null) {
+  if (estimateAtCompletion === null) {
+    return { forecastedProfit: null, profitMargin: null }
+  }
+  const forecastedProfit = revisedContract - estimateAtCompletion
+  return {
+    forecastedProfit,
+    profitMargin: revisedContract > 0 ? (forecastedProfit / revisedContract) * 100 : null
+  }
+}
+
+/**
+ * The headcount and PO forecasts a new scenario starts from: another scenario's, or
+ * the live forecast. Live POs without a forecast are copied at their committed amount.
+ */
+async function loadSourceForecasts(
+  supabase: SupabaseClient,
+  projectId: string,
+  basedOnScenarioId?: string | null
+): Promise<{ headcounts: ScenarioHeadcount[]; poForecasts: ScenarioPOForecast[] }> {
+  if (basedOnScenarioId) {
+    const { data: source } = await supabase
+      .from('forecast_scenarios')
+      .select('id')
+      .eq('id', basedOnScenarioId)
+      .eq('project_id', projectId)
+      .maybeSingle()
+
+    if (!source) {
+      throw new Error('Scenario not found')
+    }
+
+    const [{ data: headcounts, error: headcountError }, { data: poForecasts, error: poError }] = await Promise.all([
+      supabase
+        .from('forecast_scenario_headcounts')
+        .select('craft_type_id, week_ending, headcount, avg_weekly_hours')
+        .eq('scenario_id', basedOnScenarioId),
+      supabase
+        .from('forecast_scenario_po_forecasts')
+        .select('purchase_order_id, forecast_amount')
+        .eq('scenario_id', basedOnScenarioId)
+    ])
+
+    if (headcountError) throw headcountError
+    if (poError) throw poError
+
+    return {
+      headcounts: (headcounts || []) as ScenarioHeadcount[],
+      poForecasts: (poForecasts || []) as ScenarioPOForecast[]
+    }
+  }
+
+  const [{ data: headcounts, error: headcountError }, { data: purchaseOrders, error: poError }] = await Promise.all([
+    supabase
+      .from('labor_headcount_forecasts')
+      .select('craft_type_id, week_ending, headcount, avg_weekly_hours')
+      .eq('project_id', projectId),
+    supabase
+      .from('purchase_orders')
+      .select('id, committed_amount, forecast_amount')
+      .eq('project_id', projectId)
+      .neq('status', 'cancelled')
+  ])
+
+  if (headcountError) throw headcountError
+  if (poError) throw poError
+
+  return {
+    headcounts: (headcounts || []).map(h => ({
+      craft_type_id: h.craft_type_id,
+      week_ending: String(h.week_ending).split('T')[0],
+      headcount: Number(h.headcount || 0),
+      avg_weekly_hours: Number(h.avg_weekly_hours || 50)
+    })),
+    poForecasts: (purchaseOrders || []).map(po => ({
+      purchase_order_id: po.id,
+      forecast_amount: Number(po.forecast_amount || po.committed_amount || 0)
+    }))
+  }
+}
+
+/**
+ * Create a scenario as a copy of the live forecast or of another scenario
+ */
+export async function createForecastScenario(
+  supabase: SupabaseClient,
+  options: CreateForecastScenarioOptions
+): Promise<ForecastScenario> {
+  const { headcounts, poForecasts } = await loadSourceForecasts(
+    supabase,
+    options.projectId,
+    options.basedOnScenarioId
+  )
+
+  const { data: scenario, error } = await supabase
+    .from('forecast_scenarios')
+    .insert({
+      project_id: options.projectId,
+      name: options.name,
+      description: options.description || null,
+      based_on_scenario_id: options.basedOnScenarioId || null,
+      created_by: options.userId
+    })
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error('A scenario with this name already exists')
+    }
+    throw error
+  }
+
+  const [{ error: headcountError }, { error: poError }] = await Promise.all([
+    headcounts.length > 0
+      ? supabase
+          .from('forecast_scenario_headcounts')
+          .insert(headcounts.map(h => ({ ...h, scenario_id: scenario.id })))
+      : Promise.resolve({ error: null }),
+    poForecasts.length > 0
+      ? supabase
+          .from('forecast_scenario_po_forecasts')
+          .insert(poForecasts.map(f => ({ ...f, scenario_id: scenario.id })))
+      : Promise.resolve({ error: null })
+  ])
+
+  // Don't leave a half-copied scenario behind
+  if (headcountError || poError) {
+    await supabase.from('forecast_scenarios').delete().eq('id', scenario.id)
+    throw headcountError || poError
+  }
+
+  return scenario as ForecastScenario
+}
+
+/**
+ * EAC and margin of the live forecast and each scenario, side by side. The live
+ * forecast comes first and is the baseline for eacChange.
+ */
+export async function compareForecastScenarios(
+  supabase: SupabaseClient,
+  projectId: string,
+  scenarios: Pick<ForecastScenario, 'id' | 'name' | 'is_current'>[]
+): Promise<ScenarioOutcome[]> {
+  const { data: project } = await supabase
+    .from('projects')
+    .select('original_contract, revised_contract')
+    .eq('id', projectId)
+    .single()
+
+  if (!project) {
+    throw new Error('Project not found')
+  }
+
+  const revisedContract = Number(project.revised_contract || project.original_contract || 0)
+
+  const outcomes: ScenarioOutcome[] = []
+  const versions = [{ id: null, name: 'Live forecast', is_current: false }, ...scenarios]
+  // Sequential: each EAC already fans out its own queries
+  for (const version of versions) {
+    const eac = await fetchProjectEAC(supabase, projectId, undefined, version.id ?? undefined)
+    const estimateAtCompletion = eac.official.estimateAtCompletion
+    const liveEAC = outcomes[0]?.estimateAtCompletion ?? null
+
+    outcomes.push({
+      scenarioId: version.id,
+      name: version.name,
+      isCurrent: version.is_current,
+      officialMethod: eac.officialMethod,
+      officialMethodLabel: eac.official.label,
+      estimateAtCompletion,
+      estimateToComplete: eac.official.estimateToComplete,
+      bottomUpEAC: eac.methods.find(m => m.method === 'bottom_up')?.estimateAtCompletion ?? null,
+      revisedContract,
+      ...scenarioMargin(revisedContract, estimateAtCompletion),
+      eacChange: version.id && liveEAC !== null && estimateAtCompletion !== null
+        ? estimateAtCompletion - liveEAC
+        : null
+    })
+  }
+
+  return outcomes
+}
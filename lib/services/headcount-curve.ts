@@ -0,0 +1,230 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+export type HeadcountCurve = 'flat' | 'front_loaded' | 'back_loaded' | 's_curve' | 'custom'
+
+export type HeadcountCategory = 'direct' | 'indirect' | 'staff'
+
+export const HEADCOUNT_CURVE_LABELS: Record<HeadcountCurve, string> = {
+  flat: 'Flat',
+  front_loaded: 'Front-loaded',
+  back_loaded: 'Back-loaded',
+  s_curve: 'S-curve',
+  custom: 'Custom profile'
+}
+
+export const HEADCOUNT_CATEGORIES: HeadcountCategory[] = ['direct', 'indirect', 'staff']
+
+// Craft types the headcount page saves category-level forecasts against
+const CATEGORY_CRAFT_NAMES: Record<HeadcountCategory, string> = {
+  direct: 'Direct Labor',
+  indirect: 'Indirect Labor',
+  staff: 'Staff'
+}
+
+export interface HeadcountCurveInput {
+  budgetedHours: Record<HeadcountCategory, number>
+  actualHours: Record<HeadcountCategory, number>
+  weekEndings: string[]
+  curve: HeadcountCurve
+  // Relative weights, stretched over the weeks; required for the custom curve
+  customProfile?: number[]
+  hoursPerPerson: number
+}
+
+export interface GeneratedHeadcountWeek {
+  weekEnding: string
+  entries: Array<{
+    category: HeadcountCategory
+    hours: number
+    headcount: number
+  }>
+}
+
+export interface GeneratedHeadcountCurve {
+  curve: HeadcountCurve
+  hoursPerPerson: number
+  budgetedHours: Record<HeadcountCategory, number>
+  actualHours: Record<HeadcountCategory, number>
+  remainingHours: Record<HeadcountCategory, number>
+  weeks: GeneratedHeadcountWeek[]
+}
+
+const emptyHours = (): Record<HeadcountCategory, number> => ({ direct: 0, indirect: 0, staff: 0 })
+
+/**
+ * Share of the remaining hours in each week, summing to 1. Weights are sampled at
+ * the middle of each week so short schedules keep the curve's shape.
+ */
+export function curveWeights(
+  curve: HeadcountCurve,
+  weekCount: number,
+  customProfile?: number[]
+): number[] {
+  if (weekCount <= 0) return []
+
+  const weightAt = (x: number): number => {
+    switch (curve) {
+      case 'front_loaded':
+        return 1 - x
+      case 'back_loaded':
+        return x
+      case 's_curve':
+        // Bell-shaped weekly hours give the S-shaped cumulative curve
+        return Math.sin(Math.PI * x)
+      case 'custom': {
+        const profile = customProfile && customProfile.length > 0 ? customProfile : [1]
+        if (profile.length === 1) return profile[0]
+        const position = x * (profile.length - 1)
+        const lower = Math.floor(position)
+        const upper = Math.min(profile.length - 1, lower + 1)
+        return profile[lower] + (profile[upper] - profile[lower]) * (position - lower)
+      }
+      default:
+        return 1
+    }
+  }
+
+  const weights = Array.from({ length: weekCount }, (_, i) => Math.max(0, weightAt((i + 0.5) / weekCount)))
+  const total = weights.reduce((sum, weight) => sum + weight, 0)
+  return total > 0 ? weights.map(weight => weight / total) : weights.map(() => 1 / weekCount)
+}
+
+/**
+ * Sunday week endings from the week containing the start date through the week
+ * containing the end date
+ */
+export function weekEndingsBetween(startDate: string, endDate: string): string[] {
+  const toSunday = (date: string) => {
+    const day = new Date(date.split('T')[0] + 'T00:00:00Z')
+    day.setUTCDate(day.getUTCDate() + ((7 - day.getUTCDay()) % 7))
+    return day
+  }
+
+  const weeks: string[] = []
+  const end = toSunday(endDate)
+  for (const week = toSunday(startDate); week <= end; week.setUTCDate(week.getUTCDate() + 7)) {
+    weeks.push(week.toISOString().split('T')[0])
+  }
+  return weeks
+}
+
+/**
+ * Spreads each category's remaining budgeted hours over the weeks along the curve
+ * and converts them to headcount
+ */
+export function generateHeadcountCurve(input: HeadcountCurveInput): GeneratedHeadcountCurve {
+  const weights = curveWeights(input.curve, input.weekEndings.length, input.customProfile)
+  const remainingHours = emptyHours()
+  HEADCOUNT_CATEGORIES.forEach(category => {
+    remainingHours[category] = Math.max(0, input.budgetedHours[category] - input.actualHours[category])
+  })
+
+  const weeks = input.weekEndings.map((weekEnding, index) => ({
+    weekEnding,
+    entries: HEADCOUNT_CATEGORIES
+      .filter(category => remainingHours[category] > 0)
+      .map(category => {
+        const hours = remainingHours[category] * weights[index]
+        return {
+          category,
+          hours: Math.round(hours * 10) / 10,
+          // Headcount may be fractional; one decimal is enough for planning
+          headcount: Math.round((hours / input.hoursPerPerson) * 10) / 10
+        }
+      })
+  }))
+
+  return {
+    curve: input.curve,
+    hoursPerPerson: input.hoursPerPerson,
+    budgetedHours: input.budgetedHours,
+    actualHours: input.actualHours,
+    remainingHours,
+    weeks
+  }
+}
+
+// project_budget_breakdowns.cost_type values look like 'DIRECT LABOR', 'INDIRECT LABOR', 'STAFF LABOR'
+export function headcountCategoryOf(costType: string): HeadcountCategory | null {
+  const normalized = costType.toUpperCase()
+  if (normalized.includes('INDIRECT')) return 'indirect'
+  if (normalized.includes('STAFF')) return 'staff'
+  if (normalized.includes('DIRECT')) return 'direct'
+  return null
+}
+
+/**
+ * Budgeted manhours from the imported budget and actual hours to date, by category,
+ * plus the project's end date and latest actuals week
+ */
+export async function fetchHeadcountCurveInputs(supabase: SupabaseClient, projectId: string) {
+  const [
+    { data: project },
+    { data: breakdowns, error: breakdownsError },
+    { data: actuals, error: actualsError }
+  ] = await Promise.all([
+    supabase.from('projects').select('id, start_date, end_date').eq('id', projectId).single(),
+    supabase
+      .from('project_budget_breakdowns')
+      .select('discipline, cost_type, manhours')
+      .eq('project_id', projectId),
+    supabase
+      .from('labor_employee_actuals')
+      .select('week_ending, total_hours, employees!inner(category)')
+      .eq('project_id', projectId)
+  ])
+
+  if (!project) {
+    throw new Error('Project not found')
+  }
+  if (breakdownsError) throw breakdownsError
+  if (actualsError) throw actualsError
+
+  const budgetedHours = emptyHours()
+  breakdowns?.forEach(breakdown => {
+    const category = headcountCategoryOf(breakdown.cost_type)
+    if (category) budgetedHours[category] += Number(breakdown.manhours || 0)
+  })
+
+  const actualHours = emptyHours()
+  let lastActualWeek: string | null = null
+  ;((actuals || []) as unknown as Array<{
+    week_ending: string
+    total_hours: number | null
+    employees: { category: string | null } | null
+  }>).forEach(actual => {
+    const category = (actual.employees?.category || 'direct').toLowerCase() as HeadcountCategory
+    if (category in actualHours) actualHours[category] += Number(actual.total_hours || 0)
+    const week = actual.week_ending.split('T')[0]
+    if (!lastActualWeek || week > lastActualWeek) lastActualWeek = week
+  })
+
+  return {
+    project: project as { id: string; start_date: string | null; end_date: string | null },
+    budgetedHours,
+    actualHours,
+    lastActualWeek: lastActualWeek as string | null
+  }
+}
+
+/**
+ * Category-level craft types that category headcount is saved against, falling back
+ * to the first active craft type in the category
+ */
+export async function fetchCategoryCraftTypes(
+  supabase: SupabaseClient
+): Promise<Partial<Record<HeadcountCategory, string>>> {
+  const { data: craftTypes } = await supabase
+    .from('craft_types')
+    .select('id, name, category')
+    .in('category', HEADCOUNT_CATEGORIES)
+    .eq('is_active', true)
+
+  const craftTypeIds: Partial<Record<HeadcountCategory, string>> = {}
+  HEADCOUNT_CATEGORIES.forEach(category => {
+    const inCategory = (craftTypes || []).filter(ct => ct.category === category)
+    const match = inCategory.find(ct => ct.name === CATEGORY_CRAFT_NAMES[category]) || inCategory[0]
+    if (match) craftTypeIds[category] = match.id
+  })
+  return craftTypeIds
+}
@@ -0,0 +1,360 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { COMPLETED_IMPORT_STATUSES } from '@/lib/services/import-fingerprint'
+
+export type ImportChangeAction = 'insert' | 'update' | 'delete'
+
+/**
+ * A row written by an import. `before` is the full row as it was before the
+ * import (null for inserted rows) so the import can be undone.
+ */
+export interface ImportRowChange {
+  table: string
+  id: string
+  action: ImportChangeAction
+  before: Record<string, unknown> | null
+}
+
+export interface ImportDependency {
+  type: 'import' | 'reference'
+  message: string
+  table: string
+  rows: number
+  importId?: string
+}
+
+export interface ImportUndoResult {
+  deleted: Record<string, number>
+  restored: Record<string, number>
+  errors: string[]
+}
+
+// Minimal data_imports shape needed to undo an import
+export interface UndoableImport {
+  id: string
+  project_id: string | null
+  import_type: string
+  import_status: string
+  created_at: string
+  metadata: Record<string, unknown> | null
+  row_changes: ImportRowChange[] | null
+}
+
+// Columns Postgres computes (GENERATED ALWAYS ... STORED); writing them fails
+const GENERATED_COLUMNS: Record<string, string[]> = {
+  labor_employee_actuals: ['st_burden_amount', 'total_burden_amount', 'st_wages_with_burden', 'total_cost_with_burden']
+}
+
+// Rows created by triggers for an imported row, removed with it on undo
+const TRIGGER_ROWS: Record<string, Array<{ table: string; column: string }>> = {
+  labor_employee_actuals: [{ table: 'per_diem_costs', column: 'labor_actual_id' }]
+}
+
+// Rows outside the import that keep an inserted row in use
+const ROW_REFERENCES: Record<string, Array<{ table: string; column: string }>> = {
+  craft_types: [
+    { table: 'employees', column: 'craft_type_id' },
+    { table: 'labor_actuals', column: 'craft_type_id' }
+  ],
+  employees: [{ table: 'labor_employee_actuals', column: 'employee_id' }],
+  purchase_orders: [
+    { table: 'po_line_items', column: 'purchase_order_id' },
+    { table: 'invoices', column: 'purchase_order_id' }
+  ]
+}
+
+// Column dating a row's cost for accounting periods; PO changes are dated when they are made
+const PERIOD_DATE_COLUMNS: Record<string, string | null> = {
+  labor_employee_actuals: 'week_ending',
+  labor_actuals: 'week_ending',
+  po_line_items: 'invoice_date',
+  invoices: 'invoice_date',
+  purchase_orders: null
+}
+
+// Ids per .in() filter, keeps request URLs within PostgREST limits
+const ID_BATCH_SIZE = 100
+
+const changeKey = (table: string, id: string) => `${table}:${id}`
+
+function batchIds(ids: string[]): string[][] {
+  const batches: string[][] = []
+  for (let i = 0; i < ids.length; i += ID_BATCH_SIZE) {
+    batches.push(ids.slice(i, i + ID_BATCH_SIZE))
+  }
+  return batches
+}
+
+/**
+ * Collects the rows an import inserts, updates and deletes.
+ * Only the first change to a row is kept: its before-image is the pre-import state.
+ */
+export class ImportChangeTracker {
+  private changes: ImportRowChange[] = []
+  private seen = new Set<string>()
+
+  private record(table: string, id: string, action: ImportChangeAction, before: Record<string, unknown> | null) {
+    const key = changeKey(table, id)
+    if (this.seen.has(key)) return
+    this.seen.add(key)
+    this.changes.push({ table, id, action, before })
+  }
+
+  recordInserts(table: string, rows: Array<{ id: string }> | null | undefined) {
+    rows?.forEach(row => this.record(table, row.id, 'insert', null))
+  }
+
+  recordUpdates(table: string, beforeRows: Array<{ id: string } & Record<string, unknown>> | null | undefined) {
+    beforeRows?.forEach(row => this.record(table, row.id, 'update', row))
+  }
+
+  recordDeletes(table: string, beforeRows: Array<{ id: string } & Record<string, unknown>> | null | undefined) {
+    beforeRows?.forEach(row => this.record(table, row.id, 'delete', row))
+  }
+
+  get rowChanges(): ImportRowChange[] {
+    return this.changes
+  }
+
+  get size(): number {
+    return this.changes.length
+  }
+}
+
+const writableColumns = (table: string, row: Record<string, unknown>) => {
+  const generated = GENERATED_COLUMNS[table] || []
+  return Object.fromEntries(Object.entries(row).filter(([column]) => !generated.includes(column)))
+}
+
+// Consecutive changes with the same table and action, so they can be reverted in batches
+function groupChanges(changes: ImportRowChange[]): ImportRowChange[][] {
+  const groups: ImportRowChange[][] = []
+  for (const change of changes) {
+    const current = groups[groups.length - 1]
+    if (current && current[0].table === change.table && current[0].action === change.action) {
+      current.push(change)
+    } else {
+      groups.push([change])
+    }
+  }
+  return groups
+}
+
+/**
+ * Later imports that wrote the same rows, and rows created since the import
+ * that reference rows it inserted. Undo is refused while any exist.
+ */
+export async function findImportDependencies(
+  supabase: SupabaseClient,
+  importRecord: UndoableImport
+): Promise<ImportDependency[]> {
+  const changes = importRecord.row_changes || []
+  const dependencies: ImportDependency[] = []
+  const changedKeys = new Set(changes.map(change => changeKey(change.table, change.id)))
+
+  // Employee imports have no project and can touch rows used by any project
+  let laterQuery = supabase
+    .from('data_imports')
+    .select('id, import_type, file_name, created_at, row_changes')
+    .neq('id', importRecord.id)
+    .gt('created_at', importRecord.created_at)
+    .in('import_status', COMPLETED_IMPORT_STATUSES)
+    .not('row_changes', 'is', null)
+  if (importRecord.project_id) {
+    laterQuery = laterQuery.or(`project_id.eq.${importRecord.project_id},project_id.is.null`)
+  }
+
+  const { data: laterImports, error: laterError } = await laterQuery
+  if (laterError) throw laterError
+
+  for (const later of laterImports || []) {
+    const shared = ((later.row_changes || []) as ImportRowChange[])
+      .filter(change => changedKeys.has(changeKey(change.table, change.id)))
+    if (shared.length === 0) continue
+
+    dependencies.push({
+      type: 'import',
+      message: `${shared.length} row(s) were changed again by a later ${later.import_type} import` +
+        `${later.file_name ? ` (${later.file_name})` : ''} on ${new Date(later.created_at).toLocaleString()}`,
+      table: shared[0].table,
+      rows: shared.length,
+      importId: later.id
+    })
+  }
+
+  for (const [table, references] of Object.entries(ROW_REFERENCES)) {
+    const insertedIds = changes
+      .filter(change => change.table === table && change.action === 'insert')
+      .map(change => change.id)
+    if (insertedIds.length === 0) continue
+
+    for (const reference of references) {
+      const referencing: Array<{ id: string }> = []
+      for (const ids of batchIds(insertedIds)) {
+        const { data, error } = await supabase
+          .from(reference.table)
+          .select('id')
+          .in(reference.column, ids)
+        if (error) throw error
+        referencing.push(...(data || []))
+      }
+
+      const outside = referencing
+        .filter(row => !changedKeys.has(changeKey(reference.table, row.id)))
+      if (outside.length === 0) continue
+
+      dependencies.push({
+        type: 'reference',
+        message: `${outside.length} ${reference.table} row(s) created since this import use ${table} it added`,
+        table: reference.table,
+        rows: outside.length
+      })
+    }
+  }
+
+  return dependencies
+}
+
+/**
+ * The project and date of every row undoing the import would change, taken from the
+ * before-images and the rows as they are now, for the closed-period check.
+ * Rows without a project fall back to the import's project.
+ */
+export async function importChangeDates(
+  supabase: SupabaseClient,
+  importRecord: UndoableImport
+): Promise<Array<{ projectId: string; date: string | null }>> {
+  const dates: Array<{ projectId: string; date: string | null }> = []
+  const today = new Date().toISOString().split('T')[0]
+  const add = (table: string, row: Record<string, unknown>) => {
+    const projectId = (row.project_id as string | null | undefined) || importRecord.project_id
+    if (!projectId) return
+    const column = PERIOD_DATE_COLUMNS[table]
+    const date = column ? row[column] as string | null : today
+    dates.push({ projectId, date: date ? String(date).split('T')[0] : null })
+  }
+
+  const changes = (importRecord.row_changes || []).filter(change => change.table in PERIOD_DATE_COLUMNS)
+  changes.forEach(change => {
+    if (change.before) add(change.table, change.before)
+  })
+
+  // Inserted and updated rows as they stand now
+  const tables = new Set(changes.filter(change => change.action !== 'delete').map(change => change.table))
+  for (const table of tables) {
+    const ids = changes
+      .filter(change => change.table === table && change.action !== 'delete')
+      .map(change => change.id)
+    for (const batch of batchIds(ids)) {
+      const { data, error } = await supabase.from(table).select('*').in('id', batch)
+      if (error) throw error
+      ;(data || []).forEach(row => add(table, row))
+    }
+  }
+
+  return dates
+}
+
+/**
+ * Restore the state captured in the change log, newest change first:
+ * inserted rows are deleted, updated rows get their before-image back and deleted rows are re-inserted.
+ */
+export async function revertImportChanges(
+  supabase: SupabaseClient,
+  changes: ImportRowChange[]
+): Promise<ImportUndoResult> {
+  const result: ImportUndoResult = { deleted: {}, restored: {}, errors: [] }
+  const count = (bucket: Record<string, number>, table: string, rows: number) => {
+    bucket[table] = (bucket[table] || 0) + rows
+  }
+
+  for (const group of groupChanges([...changes].reverse())) {
+    const { table, action } = group[0]
+
+    if (action === 'insert') {
+      for (const ids of batchIds(group.map(change => change.id))) {
+        for (const triggerRows of TRIGGER_ROWS[table] || []) {
+          const { error } = await supabase.from(triggerRows.table).delete().in(triggerRows.column, ids)
+          if (error) result.errors.push(`Failed to remove ${triggerRows.table}: ${error.message}`)
+        }
+
+        const { data: deleted, error } = await supabase.from(table).delete().in('id', ids).select('id')
+        if (error) {
+          result.errors.push(`Failed to remove ${table} rows: ${error.message}`)
+        } else {
+          count(result.deleted, table, deleted?.length || 0)
+        }
+      }
+    } else if (action === 'update') {
+      for (const change of group) {
+        const before = writableColumns(table, change.before || {})
+        delete before.id
+        const { error } = await supabase.from(table).update(before).eq('id', change.id)
+        if (error) {
+          result.errors.push(`Failed to restore ${table} ${change.id}: ${error.message}`)
+        } else {
+          count(result.restored, table, 1)
+        }
+      }
+    } else {
+      const rows = group.map(change => writableColumns(table, change.before || {}))
+      const { error } = await supabase.from(table).insert(rows)
+      if (error) {
+        result.errors.push(`Failed to restore deleted ${table} rows: ${error.message}`)
+      } else {
+        count(result.restored, table, rows.length)
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Undo an import recorded with a change log. Returns the blocking dependencies
+ * instead when later data relies on the rows.
+ */
+export async function undoTrackedImport(
+  supabase: SupabaseClient,
+  importRecord: UndoableImport,
+  userId: string
+): Promise<{ dependencies: ImportDependency[]; result: ImportUndoResult | null }> {
+  const dependencies = await findImportDependencies(supabase, importRecord)
+  if (dependencies.length > 0) {
+    return { dependencies, result: null }
+  }
+
+  const result = await revertImportChanges(supabase, importRecord.row_changes || [])
+
+  const { error: updateError } = await supabase
+    .from('data_imports')
+    .update({
+      import_status: 'undone',
+      metadata: {
+        ...(importRecord.metadata || {}),
+        undone_at: new Date().toISOString(),
+        undone_by: userId,
+        undo_results: result
+      }
+    })
+    .eq('id', importRecord.id)
+
+  if (updateError) {
+    result.errors.push(`Failed to update import status: ${updateError.message}`)
+  }
+
+  const { error: auditError } = await supabase.from('audit_log').insert({
+    user_id: userId,
+    action: 'undo_import',
+    entity_type: `${importRecord.import_type}_import`,
+    entity_id: importRecord.id,
+    changes: {
+      project_id: importRecord.project_id,
+      deleted: result.deleted,
+      restored: result.restored,
+      errors: result.errors
+    }
+  })
+  if (auditError) console.error('Audit log error:', auditError)
+
+  return { dependencies: [], result }
+}
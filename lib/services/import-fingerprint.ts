@@ -0,0 +1,184 @@
+import { createHash } from 'crypto'
+import { SupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * How an import handles records that were already imported:
+ * - merge: update overlapping records, keep existing records missing from the file
+ * - replace: the file replaces the previously imported data for the period
+ * - skip: leave overlapping records untouched and only add new ones
+ */
+export type ImportConflictStrategy = 'merge' | 'replace' | 'skip'
+
+export const IMPORT_CONFLICT_STRATEGIES: ImportConflictStrategy[] = ['merge', 'replace', 'skip']
+
+export type FingerprintImportType = 'labor' | 'po' | 'budget'
+
+// Import statuses that mean data was written
+export const COMPLETED_IMPORT_STATUSES = ['success', 'partial', 'completed_with_errors']
+
+// Keys returned with a conflict so the user can see what overlaps
+const CONFLICT_SAMPLE_SIZE = 10
+
+export interface PreviousImport {
+  id: string
+  file_name: string | null
+  imported_at: string
+  match: 'file' | 'content'
+}
+
+export interface ImportOverlap {
+  overlappingKeys: string[]
+  newKeys: string[]
+  untouchedKeys: string[] // Previously imported, not in this file
+}
+
+export interface ImportConflict {
+  type: 'duplicate' | 'overlap'
+  message: string
+  previousImport: PreviousImport | null
+  overlappingRecords: number
+  newRecords: number
+  untouchedRecords: number
+  sampleKeys: string[]
+  options: ImportConflictStrategy[]
+}
+
+/**
+ * SHA-256 of the raw file bytes
+ */
+export function hashFileContent(data: ArrayBuffer | Buffer): string {
+  const bytes = data instanceof ArrayBuffer ? Buffer.from(data) : data
+  return createHash('sha256').update(bytes).digest('hex')
+}
+
+// Normalize values so formatting differences (re-saved files, CSV vs Excel) don't change the fingerprint
+function normalizeFingerprintValue(value: unknown): unknown {
+  if (value === null || value === undefined || value === '') return null
+  if (typeof value === 'number') return Math.round(value * 100) / 100
+  if (value instanceof Date) return value.toISOString().split('T')[0]
+  if (typeof value === 'string') return value.trim().replace(/\s+/g, ' ').toLowerCase()
+  if (Array.isArray(value)) return value.map(normalizeFingerprintValue)
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map(key => [key, normalizeFingerprintValue((value as Record<string, unknown>)[key])])
+    )
+  }
+  return value
+}
+
+/**
+ * Order-independent SHA-256 fingerprint of the normalized records in a file.
+ * Identical data produces the same fingerprint even when the file bytes differ.
+ */
+export function createContentFingerprint(records: Array<Record<string, unknown>>): string {
+  const serialized = records
+    .map(record => JSON.stringify(normalizeFingerprintValue(record)))
+    .sort()
+  return createHash('sha256').update(serialized.join('\n')).digest('hex')
+}
+
+/**
+ * Parse a conflict_strategy form value; null when absent or invalid
+ */
+export function parseConflictStrategy(value: unknown): ImportConflictStrategy | null {
+  return IMPORT_CONFLICT_STRATEGIES.includes(value as ImportConflictStrategy)
+    ? value as ImportConflictStrategy
+    : null
+}
+
+/**
+ * Compare record keys in a file with keys already stored for the same period
+ */
+export function analyzeImportOverlap(
+  incomingKeys: Iterable<string>,
+  existingKeys: Iterable<string>
+): ImportOverlap {
+  const incoming = new Set(incomingKeys)
+  const existing = new Set(existingKeys)
+
+  return {
+    overlappingKeys: Array.from(incoming).filter(key => existing.has(key)),
+    newKeys: Array.from(incoming).filter(key => !existing.has(key)),
+    untouchedKeys: Array.from(existing).filter(key => !incoming.has(key))
+  }
+}
+
+/**
+ * Build the conflict returned (HTTP 409) when an import needs a merge/replace/skip decision.
+ * Returns null when the file is new and doesn't overlap existing data.
+ */
+export function buildImportConflict(
+  previousImport: PreviousImport | null,
+  overlap: ImportOverlap,
+  periodLabel: string
+): ImportConflict | null {
+  if (!previousImport && overlap.overlappingKeys.length === 0) return null
+
+  const importedOn = previousImport
+    ? new Date(previousImport.imported_at).toLocaleString()
+    : ''
+  const message = previousImport
+    ? previousImport.match === 'file'
+      ? `This file was already imported on ${importedOn}`
+      : `A file with identical data was already imported on ${importedOn}`
+    : `${overlap.overlappingKeys.length} record(s) in this file were already imported for ${periodLabel}`
+
+  return {
+    type: previousImport ? 'duplicate' : 'overlap',
+    message,
+    previousImport,
+    overlappingRecords: overlap.overlappingKeys.length,
+    newRecords: overlap.newKeys.length,
+    untouchedRecords: overlap.untouchedKeys.length,
+    sampleKeys: overlap.overlappingKeys.slice(0, CONFLICT_SAMPLE_SIZE),
+    options: IMPORT_CONFLICT_STRATEGIES
+  }
+}
+
+/**
+ * Find a completed import of the same file or the same content
+ */
+export async function findDuplicateImport(
+  supabase: SupabaseClient,
+  options: {
+    projectId: string
+    importType: FingerprintImportType
+    fileHash: string
+    contentFingerprint: string
+    // Extra metadata that must match, e.g. { week_ending: '2025-01-05' }
+    metadata?: Record<string, string>
+  }
+): Promise<PreviousImport | null> {
+  let query = supabase
+    .from('data_imports')
+    .select('id, file_name, file_hash, content_fingerprint, created_at')
+    .eq('project_id', options.projectId)
+    .eq('import_type', options.importType)
+    .in('import_status', COMPLETED_IMPORT_STATUSES)
+    .or(`file_hash.eq.${options.fileHash},content_fingerprint.eq.${options.contentFingerprint}`)
+
+  for (const [key, value] of Object.entries(options.metadata || {})) {
+    query = query.eq(`metadata->>${key}`, value)
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(1)
+
+  if (error) {
+    console.error('Error checking for duplicate import:', error)
+    return null
+  }
+
+  const existing = data?.[0]
+  if (!existing) return null
+
+  return {
+    id: existing.id,
+    file_name: existing.file_name,
+    imported_at: existing.created_at,
+    match: existing.file_hash === options.fileHash ? 'file' : 'content'
+  }
+}
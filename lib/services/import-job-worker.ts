@@ -0,0 +1,133 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import * as XLSX from 'xlsx'
+import { ExcelBudgetAnalyzer } from './excel-budget-analyzer'
+import { parseConflictStrategy } from './import-fingerprint'
+import { runPurchaseOrderImport } from './po-import'
+import {
+  ImportJobProgressReporter,
+  claimImportJob,
+  failImportJob,
+  finishImportJob,
+  type ImportJob,
+  type ImportJobType,
+  type ImportOutcome,
+  type ImportProgressCallback
+} from './import-jobs'
+
+type ImportJobHandler = (
+  supabase: SupabaseClient,
+  job: ImportJob,
+  content: Buffer,
+  onProgress: ImportProgressCallback
+) => Promise<ImportOutcome>
+
+/**
+ * Import a budget coversheet workbook into a project (the coversheet route's import mode).
+ */
+export async function runBudgetCoversheetImport(
+  supabase: SupabaseClient,
+  job: Pick<ImportJob, 'project_id' | 'created_by'>,
+  content: Buffer,
+  onProgress?: ImportProgressCallback
+): Promise<ImportOutcome> {
+  if (!job.project_id) {
+    return { status: 400, body: { error: 'Project ID is required' } }
+  }
+
+  const { data: project } = await supabase
+    .from('projects')
+    .select('id, name, job_number')
+    .eq('id', job.project_id)
+    .single()
+
+  if (!project) {
+    return { status: 404, body: { error: 'Project not found' } }
+  }
+
+  await onProgress?.({ phase: 'extracting', processed: 0, total: 0 })
+
+  const workbook = XLSX.read(content, { type: 'buffer' })
+  const analyzer = new ExcelBudgetAnalyzer()
+  const budgetData = await analyzer.extractBudgetData(workbook)
+
+  const errors = budgetData.validation.errors.map(message => ({ row: 0, message }))
+  const totalItems = Object.values(budgetData.details).reduce((sum, items) => sum + items.length, 0)
+  await onProgress?.({ phase: 'saving', processed: 0, total: totalItems, errors })
+
+  const saveResult = await analyzer.saveBudgetData(project.id, budgetData, job.created_by)
+
+  if (!saveResult.success) {
+    return {
+      status: 500,
+      body: { error: 'Failed to save budget data', details: saveResult.error }
+    }
+  }
+
+  await onProgress?.({ phase: 'saving', processed: totalItems, total: totalItems, errors })
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      mode: 'import',
+      project: {
+        id: project.id,
+        name: project.name,
+        job_number: project.job_number
+      },
+      stats: saveResult.stats,
+      validation: budgetData.validation
+    }
+  }
+}
+
+const IMPORT_JOB_HANDLERS: Record<ImportJobType, ImportJobHandler> = {
+  po_import: (supabase, job, content, onProgress) =>
+    runPurchaseOrderImport(supabase, {
+      content,
+      fileName: job.file_name,
+      fileSize: job.file_size ?? content.length,
+      userId: job.created_by,
+      projects: (job.options.projects as Array<{ id: string; job_number: string }>) || [],
+      projectIdOverride: (job.options.project_id as string | null) || null,
+      conflictStrategy: parseConflictStrategy(job.options.conflict_strategy)
+    }, onProgress),
+  budget_coversheet: runBudgetCoversheetImport
+}
+
+/**
+ * Run a claimed job to completion. Failures are recorded on the job, never thrown.
+ */
+export async function runImportJob(supabase: SupabaseClient, job: ImportJob) {
+  const reporter = new ImportJobProgressReporter(supabase, job.id)
+
+  try {
+    if (!job.file_content) {
+      throw new Error('The uploaded file is no longer available')
+    }
+
+    const content = Buffer.from(job.file_content, 'base64')
+    const outcome = await IMPORT_JOB_HANDLERS[job.job_type](supabase, job, content, reporter.report)
+
+    await reporter.flush()
+    await finishImportJob(supabase, job.id, outcome)
+  } catch (error) {
+    console.error(`Import job ${job.id} failed:`, error)
+    await failImportJob(supabase, job.id, error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+/**
+ * Claim and run the next queued job. Returns false when the queue is empty.
+ */
+export async function processNextImportJob(
+  supabase: SupabaseClient,
+  workerId: string
+): Promise<boolean> {
+  const job = await claimImportJob(supabase, workerId)
+  if (!job) return false
+
+  console.log(`Processing import job ${job.id} (${job.job_type}, ${job.file_name})`)
+  await runImportJob(supabase, job)
+  return true
+}
@@ -0,0 +1,211 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+export type ImportJobType = 'po_import' | 'budget_coversheet'
+export type ImportJobStatus = 'queued' | 'running' | 'completed' | 'failed'
+
+// Uploads above this size are queued instead of processed in the request
+export const BACKGROUND_IMPORT_THRESHOLD_BYTES = 2 * 1024 * 1024
+
+// Only the first errors are kept on the job; the count covers all of them
+const MAX_STORED_ERRORS = 100
+
+// Progress writes are throttled so large files don't flood the table
+const PROGRESS_INTERVAL_MS = 1000
+
+export interface ImportRowError {
+  row: number
+  field?: string
+  message: string
+}
+
+export interface ImportProgress {
+  phase: string
+  processed: number
+  total: number
+  errors?: ImportRowError[]
+}
+
+export type ImportProgressCallback = (progress: ImportProgress) => void | Promise<void>
+
+// Status and body an import would respond with; background jobs store them as the result
+export interface ImportOutcome {
+  status: number
+  body: Record<string, unknown>
+}
+
+export interface ImportJob {
+  id: string
+  job_type: ImportJobType
+  status: ImportJobStatus
+  project_id: string | null
+  created_by: string
+  file_name: string
+  file_size: number | null
+  file_content?: string | null
+  options: Record<string, unknown>
+  phase: string | null
+  total_rows: number
+  processed_rows: number
+  error_count: number
+  errors: ImportRowError[]
+  result: ImportOutcome | null
+  error_message: string | null
+  attempts: number
+  started_at: string | null
+  completed_at: string | null
+  created_at: string
+}
+
+// What clients see of a job: no stored upload or worker options
+export type ImportJobSummary = Omit<ImportJob, 'file_content' | 'options'>
+
+export const IMPORT_JOB_COLUMNS =
+  'id, job_type, status, project_id, created_by, file_name, file_size, phase, ' +
+  'total_rows, processed_rows, error_count, errors, result, error_message, attempts, ' +
+  'started_at, completed_at, created_at'
+
+export function isImportJobFinished(status: ImportJobStatus): boolean {
+  return status === 'completed' || status === 'failed'
+}
+
+/**
+ * Store an upload and queue it for the import worker.
+ */
+export async function enqueueImportJob(
+  supabase: SupabaseClient,
+  job: {
+    jobType: ImportJobType
+    projectId: string | null
+    userId: string
+    fileName: string
+    content: Buffer
+    options?: Record<string, unknown>
+  }
+): Promise<ImportJobSummary> {
+  const { data, error } = await supabase
+    .from('import_jobs')
+    .insert({
+      job_type: job.jobType,
+      project_id: job.projectId,
+      created_by: job.userId,
+      file_name: job.fileName,
+      file_size: job.content.length,
+      file_content: job.content.toString('base64'),
+      options: job.options || {}
+    })
+    .select(IMPORT_JOB_COLUMNS)
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to queue import: ${error?.message || 'no job returned'}`)
+  }
+
+  return data as unknown as ImportJobSummary
+}
+
+/**
+ * Claim the oldest queued job (or one abandoned by a stopped worker).
+ */
+export async function claimImportJob(
+  supabase: SupabaseClient,
+  workerId: string
+): Promise<ImportJob | null> {
+  const { data, error } = await supabase.rpc('claim_import_job', { p_worker_id: workerId })
+
+  if (error) throw new Error(`Failed to claim import job: ${error.message}`)
+
+  const jobs = (data || []) as ImportJob[]
+  return jobs[0] || null
+}
+
+/**
+ * Writes a job's progress, at most once per interval unless the phase changes.
+ */
+export class ImportJobProgressReporter {
+  private lastWrite = 0
+  private lastPhase: string | null = null
+  private pending: ImportProgress | null = null
+
+  constructor(
+    private supabase: SupabaseClient,
+    private jobId: string,
+    private now: () => number = Date.now
+  ) {}
+
+  readonly report: ImportProgressCallback = async (progress) => {
+    this.pending = progress
+    if (progress.phase !== this.lastPhase || this.now() - this.lastWrite >= PROGRESS_INTERVAL_MS) {
+      await this.flush()
+    }
+  }
+
+  async flush() {
+    if (!this.pending) return
+
+    const { phase, processed, total, errors } = this.pending
+    const update: Record<string, unknown> = {
+      phase,
+      processed_rows: processed,
+      total_rows: total,
+      locked_at: new Date().toISOString()
+    }
+    if (errors) {
+      update.error_count = errors.length
+      update.errors = errors
+        .slice(0, MAX_STORED_ERRORS)
+        .map(({ row, field, message }) => ({ row, field, message }))
+    }
+
+    this.pending = null
+    this.lastPhase = phase
+    this.lastWrite = this.now()
+
+    const { error } = await this.supabase
+      .from('import_jobs')
+      .update(update)
+      .eq('id', this.jobId)
+
+    // Progress is informational; a failed write must not fail the import
+    if (error) console.error('Failed to report import progress:', error)
+  }
+}
+
+/**
+ * Record a finished job. Imports that respond with an error status fail the job.
+ */
+export async function finishImportJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  outcome: ImportOutcome
+) {
+  const failed = outcome.status >= 400
+  const bodyError = typeof outcome.body.error === 'string' ? outcome.body.error : null
+
+  const { error } = await supabase
+    .from('import_jobs')
+    .update({
+      status: failed ? 'failed' : 'completed',
+      phase: failed ? 'failed' : 'completed',
+      result: outcome,
+      error_message: failed ? bodyError || 'Import failed' : null,
+      file_content: null,
+      completed_at: new Date().toISOString()
+    })
+    .eq('id', jobId)
+
+  if (error) throw new Error(`Failed to record import job result: ${error.message}`)
+}
+
+/**
+ * Fail a job that threw before producing an outcome.
+ */
+export async function failImportJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  message: string
+) {
+  await finishImportJob(supabase, jobId, {
+    status: 500,
+    body: { error: 'Internal server error', message }
+  })
+}
@@ -0,0 +1,139 @@
+import { randomUUID } from 'crypto'
+import { SupabaseClient } from '@supabase/supabase-js'
+
+export type ImportWriteAction = 'insert' | 'update' | 'delete'
+
+export type ImportWriteTable =
+  | 'employees'
+  | 'employee_rate_history'
+  | 'craft_types'
+  | 'labor_employee_actuals'
+  | 'labor_actuals'
+  | 'purchase_orders'
+  | 'po_line_items'
+  | 'invoices'
+  | 'project_budgets'
+  | 'project_budget_breakdowns'
+
+type ImportRow = { id: string } & Record<string, unknown>
+
+export interface ImportWriteStep {
+  table: ImportWriteTable
+  action: ImportWriteAction
+  rows: ImportRow[]
+  import_index: number
+}
+
+// data_imports row created with the writes; row_changes is captured by the database
+export interface ImportRecordInput {
+  project_id: string | null
+  import_type: 'labor' | 'po' | 'budget' | 'employee'
+  import_status: string
+  imported_by: string
+  file_name: string
+  file_hash?: string | null
+  content_fingerprint?: string | null
+  records_processed?: number
+  records_failed?: number
+  error_details?: unknown
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * The writes of one import, applied together by apply_import_batch().
+ * Inserted rows get their id here so later steps (line items, actuals) can reference them.
+ */
+export class ImportBatch {
+  private steps: ImportWriteStep[] = []
+
+  private push(table: ImportWriteTable, action: ImportWriteAction, rows: ImportRow[], importIndex: number) {
+    if (rows.length === 0) return
+    const last = this.steps[this.steps.length - 1]
+    if (last && last.table === table && last.action === action && last.import_index === importIndex) {
+      last.rows.push(...rows)
+    } else {
+      this.steps.push({ table, action, rows: [...rows], import_index: importIndex })
+    }
+  }
+
+  insert<T extends Record<string, unknown>>(
+    table: ImportWriteTable,
+    rows: T[],
+    importIndex = 0
+  ): Array<T & { id: string }> {
+    const withIds = rows.map(row => ({ ...row, id: (row.id as string | undefined) || randomUUID() }))
+    this.push(table, 'insert', withIds, importIndex)
+    return withIds
+  }
+
+  update(table: ImportWriteTable, rows: ImportRow[], importIndex = 0) {
+    this.push(table, 'update', rows, importIndex)
+  }
+
+  delete(table: ImportWriteTable, ids: string[], importIndex = 0) {
+    this.push(table, 'delete', ids.map(id => ({ id })), importIndex)
+  }
+
+  get writeSteps(): ImportWriteStep[] {
+    return this.steps
+  }
+
+  get rowCount(): number {
+    return this.steps.reduce((sum, step) => sum + step.rows.length, 0)
+  }
+}
+
+/**
+ * Apply an import's writes and create its data_imports record(s) in one transaction.
+ * Throws (and nothing is written) if any write fails.
+ */
+export async function applyImportBatch(
+  supabase: SupabaseClient,
+  imports: ImportRecordInput[],
+  batch: ImportBatch
+): Promise<{ importIds: string[]; changes: number }> {
+  const { data, error } = await supabase.rpc('apply_import_batch', {
+    p_imports: imports,
+    p_steps: batch.writeSteps
+  })
+
+  if (error) throw new Error(`Import rolled back: ${error.message}`)
+
+  return {
+    importIds: data?.import_ids || [],
+    changes: data?.changes || 0
+  }
+}
+
+/**
+ * Record a failed import attempt. Nothing from the file was written.
+ */
+export async function trackFailedImport(
+  supabase: SupabaseClient,
+  importType: ImportRecordInput['import_type'],
+  projectId: string | null,
+  userId: string | null,
+  fileName: string | null,
+  errorMessage: string,
+  metadata?: Record<string, unknown>
+) {
+  if (!projectId || !userId || !fileName) return
+
+  try {
+    await supabase
+      .from('data_imports')
+      .insert({
+        project_id: projectId,
+        import_type: importType,
+        import_status: 'failed',
+        imported_by: userId,
+        file_name: fileName,
+        records_processed: 0,
+        records_failed: 0,
+        error_message: errorMessage,
+        metadata: metadata || {}
+      })
+  } catch (error) {
+    console.error('Error tracking failed import:', error)
+  }
+}
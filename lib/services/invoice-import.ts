@@ -0,0 +1,203 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import * as XLSX from 'xlsx'
+import { invoiceSchema } from '@/lib/validations/invoices'
+import { fetchInvoiceLedgers } from './invoice-ledger'
+
+export interface InvoiceImportInput {
+  content: Buffer
+  userId: string
+  // Projects the importing user can access, used to resolve Job No.
+  projects: Array<{ id: string; job_number: string }>
+  projectIdOverride: string | null
+}
+
+export interface InvoiceImportResult {
+  imported: number
+  // Invoices already in the ledger for their PO
+  duplicates: number
+  // POs that received invoices
+  purchaseOrderIds: string[]
+  errors: Array<{ row: number; field?: string; message: string }>
+  // Imported invoices that take their PO past its committed amount
+  exceedingCommitment: Array<{
+    purchase_order_id: string
+    po_number: string
+    invoice_number: string
+    amount: number
+    remaining_before: number
+  }>
+}
+
+export class InvoiceFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvoiceFileError'
+  }
+}
+
+// Helper function to parse numeric value
+function parseNumericValue(value: unknown): number {
+  if (typeof value === 'number') return value
+  const cleaned = String(value ?? '').replace(/[^0-9.-]/g, '')
+  const parsed = parseFloat(cleaned)
+  return isNaN(parsed) ? NaN : parsed
+}
+
+// Dates as YYYY-MM-DD; other spellings (1/15/2025) go through Date
+function parseDate(value: unknown): string | null {
+  const text = String(value ?? '').trim()
+  if (!text) return null
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text
+  const date = new Date(text)
+  return isNaN(date.getTime()) ? text : date.toISOString().split('T')[0]
+}
+
+const text = (value: unknown) => String(value ?? '').trim()
+
+/**
+ * Rows of a vendor invoice CSV, keyed by the header row
+ */
+export function parseInvoiceRows(content: Buffer): Record<string, unknown>[] {
+  let rows: Record<string, unknown>[]
+  try {
+    const workbook = XLSX.read(content, { type: 'buffer', dateNF: 'yyyy-mm-dd' })
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]]
+    rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(worksheet, {
+      raw: false,
+      dateNF: 'yyyy-mm-dd',
+      defval: ''
+    })
+  } catch {
+    throw new InvoiceFileError('Failed to parse file. Please ensure it is a valid CSV file.')
+  }
+
+  if (rows.length === 0 || !('Invoice Number' in rows[0]) || !('PO Number' in rows[0])) {
+    throw new InvoiceFileError('Invoice files need PO Number, Invoice Number, Invoice Date and Amount columns.')
+  }
+  return rows
+}
+
+/**
+ * Import vendor invoices into the ledger. Columns: Job No. (unless a project is
+ * chosen), PO Number, Invoice Number, Invoice Date, Amount, and optionally Due Date,
+ * Payment Terms, Status and Notes. Invoices already recorded for their PO are skipped.
+ */
+export async function runInvoiceImport(
+  supabase: SupabaseClient,
+  input: InvoiceImportInput
+): Promise<InvoiceImportResult> {
+  const rows = parseInvoiceRows(input.content)
+  const result: InvoiceImportResult = { imported: 0, duplicates: 0, purchaseOrderIds: [], errors: [], exceedingCommitment: [] }
+
+  const projectByJob = new Map(input.projects.map(project => [project.job_number.trim(), project.id]))
+
+  const parsed: Array<{ row: number; projectId: string; poNumber: string; invoice: z.infer<typeof invoiceSchema> }> = []
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2
+    const projectId = input.projectIdOverride || projectByJob.get(text(row['Job No.']))
+    if (!projectId) {
+      result.errors.push({ row: rowNumber, field: 'Job No.', message: `Unknown job number ${text(row['Job No.']) || '(blank)'}` })
+      return
+    }
+    const poNumber = text(row['PO Number'])
+    if (!poNumber) {
+      result.errors.push({ row: rowNumber, field: 'PO Number', message: 'PO number is required' })
+      return
+    }
+
+    const validated = invoiceSchema.safeParse({
+      invoice_number: text(row['Invoice Number']),
+      invoice_date: parseDate(row['Invoice Date']),
+      amount: parseNumericValue(row['Amount']),
+      status: text(row['Status']).toLowerCase() || undefined,
+      due_date: parseDate(row['Due Date']),
+      payment_terms: text(row['Payment Terms']) || null,
+      notes: text(row['Notes']) || null
+    })
+    if (!validated.success) {
+      const issue = validated.error.errors[0]
+      result.errors.push({ row: rowNumber, field: issue?.path[0]?.toString(), message: issue?.message || 'Invalid row' })
+      return
+    }
+
+    parsed.push({ row: rowNumber, projectId, poNumber, invoice: validated.data })
+  })
+
+  if (parsed.length === 0) return result
+
+  const { data: purchaseOrders, error: poError } = await supabase
+    .from('purchase_orders')
+    .select('id, project_id, po_number, vendor_name')
+    .in('project_id', [...new Set(parsed.map(row => row.projectId))])
+    .in('po_number', [...new Set(parsed.map(row => row.poNumber))])
+  if (poError) throw poError
+
+  const poByKey = new Map((purchaseOrders || []).map(po => [`${po.project_id}|${po.po_number}`, po]))
+  const poIds = (purchaseOrders || []).map(po => po.id)
+
+  const { data: existing, error: existingError } = poIds.length > 0
+    ? await supabase
+        .from('invoices')
+        .select('purchase_order_id, invoice_number')
+        .in('purchase_order_id', poIds)
+    : { data: [] as { purchase_order_id: string; invoice_number: string }[], error: null }
+  if (existingError) throw existingError
+
+  const seen = new Set((existing || []).map(invoice => `${invoice.purchase_order_id}|${invoice.invoice_number.trim().toUpperCase()}`))
+  const now = new Date().toISOString()
+
+  const inserts = parsed.flatMap(({ row, projectId, poNumber, invoice }) => {
+    const po = poByKey.get(`${projectId}|${poNumber}`)
+    if (!po) {
+      result.errors.push({ row, field: 'PO Number', message: `PO ${poNumber} not found for this project` })
+      return []
+    }
+    const key = `${po.id}|${invoice.invoice_number.toUpperCase()}`
+    if (seen.has(key)) {
+      result.duplicates++
+      return []
+    }
+    seen.add(key)
+
+    const approved = invoice.status === 'approved' || invoice.status === 'paid'
+    return [{
+      ...invoice,
+      project_id: projectId,
+      purchase_order_id: po.id,
+      vendor_name: po.vendor_name,
+      source: 'csv_import',
+      created_by: input.userId,
+      approved_by: approved ? input.userId : null,
+      approved_at: approved ? now : null
+    }]
+  })
+
+  if (inserts.length === 0) return result
+
+  const { data: inserted, error: insertError } = await supabase
+    .from('invoices')
+    .insert(inserts)
+    .select('id, purchase_order_id')
+  if (insertError) throw insertError
+
+  result.imported = inserted?.length || 0
+
+  result.purchaseOrderIds = [...new Set((inserted || []).map(invoice => invoice.purchase_order_id))]
+
+  const insertedIds = new Set((inserted || []).map(invoice => invoice.id))
+  const ledgers = await fetchInvoiceLedgers(supabase, result.purchaseOrderIds)
+  ledgers.forEach(ledger => {
+    ledger.entries
+      .filter(entry => insertedIds.has(entry.id) && entry.exceedsCommitment)
+      .forEach(entry => result.exceedingCommitment.push({
+        purchase_order_id: ledger.purchaseOrder.id,
+        po_number: ledger.purchaseOrder.po_number,
+        invoice_number: entry.invoice_number,
+        amount: entry.amount,
+        remaining_before: entry.remainingBefore
+      }))
+  })
+
+  return result
+}
@@ -0,0 +1,323 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export const INVOICE_STATUSES = ['pending', 'approved', 'paid', 'cancelled'] as const
+
+export type InvoiceStatus = typeof INVOICE_STATUSES[number]
+
+// An invoice matches its ICS lines within 2% of their total, capped at $500
+export const INVOICE_MATCH_TOLERANCE = { percent: 2, maxAmount: 500 }
+
+export interface InvoiceMatchTolerance {
+  percent: number
+  maxAmount: number
+}
+
+export interface LedgerInvoice {
+  id: string
+  project_id: string
+  purchase_order_id: string | null
+  vendor_name: string | null
+  invoice_number: string
+  invoice_date: string
+  amount: number
+  status: InvoiceStatus
+  due_date: string | null
+  payment_date: string | null
+  payment_terms: string | null
+  notes: string | null
+  source: 'manual' | 'csv_import' | 'ics_log'
+  approved_at: string | null
+  created_at: string
+}
+
+// An ICS invoice line recorded against the PO
+export interface InvoiceLine {
+  id: string
+  invoice_ticket: string | null
+  invoice_date: string | null
+  total_amount: number | null
+  description: string | null
+}
+
+export type InvoiceMatchStatus = 'matched' | 'variance' | 'unmatched'
+
+export interface InvoiceLedgerEntry extends LedgerInvoice {
+  // Null for cancelled invoices, which are neither matched nor counted
+  matchStatus: InvoiceMatchStatus | null
+  matchedBy: 'invoice_number' | 'amount' | null
+  matchedLineIds: string[]
+  expectedAmount: number | null
+  variance: number | null
+  // Commitment left before this invoice, in invoice date order
+  remainingBefore: number
+  exceedsCommitment: boolean
+}
+
+// ICS invoice lines of one ticket that no ledger invoice accounts for
+export interface UnbilledInvoiceLines {
+  invoiceTicket: string
+  invoiceDate: string | null
+  amount: number
+  lineIds: string[]
+}
+
+export interface LedgerPurchaseOrder {
+  id: string
+  project_id: string
+  po_number: string
+  vendor_name: string
+  committed_amount: number
+  invoiced_amount: number
+}
+
+export interface InvoiceLedger {
+  purchaseOrder: LedgerPurchaseOrder
+  entries: InvoiceLedgerEntry[]
+  unbilledLines: UnbilledInvoiceLines[]
+  tolerance: InvoiceMatchTolerance
+  totals: {
+    invoiced: number
+    remaining: number
+    matched: number
+    variance: number
+    unmatched: number
+    exceedingCommitment: number
+  }
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+const ticketKey = (value: string | null | undefined) => (value || '').trim().toUpperCase()
+
+/**
+ * The largest difference from the expected amount still counted as a match
+ */
+export function matchTolerance(expected: number, tolerance: InvoiceMatchTolerance = INVOICE_MATCH_TOLERANCE): number {
+  return Math.max(0.01, Math.min(Math.abs(expected) * tolerance.percent / 100, tolerance.maxAmount))
+}
+
+/**
+ * Match a PO's ledger invoices to its ICS invoice lines and walk them against the
+ * commitment. An invoice claims the lines with its invoice number as their ticket,
+ * matched when within tolerance of their total; failing that, the first unclaimed
+ * ticket whose total is within tolerance. Invoices are flagged once they take the
+ * PO past its committed amount.
+ */
+export function calculateInvoiceLedger(
+  purchaseOrder: LedgerPurchaseOrder,
+  invoices: LedgerInvoice[],
+  lines: InvoiceLine[],
+  tolerance: InvoiceMatchTolerance = INVOICE_MATCH_TOLERANCE
+): InvoiceLedger {
+  const groups = new Map<string, UnbilledInvoiceLines>()
+  lines.forEach(line => {
+    const key = ticketKey(line.invoice_ticket)
+    if (!key) return
+    const group = groups.get(key) || { invoiceTicket: (line.invoice_ticket || '').trim(), invoiceDate: null, amount: 0, lineIds: [] }
+    group.amount = round(group.amount + Number(line.total_amount || 0))
+    group.lineIds.push(line.id)
+    if (line.invoice_date && (!group.invoiceDate || line.invoice_date > group.invoiceDate)) {
+      group.invoiceDate = line.invoice_date
+    }
+    groups.set(key, group)
+  })
+
+  const ordered = [...invoices].sort((a, b) =>
+    a.invoice_date.localeCompare(b.invoice_date) || a.created_at.localeCompare(b.created_at)
+  )
+  const active = ordered.filter(invoice => invoice.status !== 'cancelled')
+
+  const claimed = new Map<string, string>()
+  active.forEach(invoice => {
+    const key = ticketKey(invoice.invoice_number)
+    if (groups.has(key) && !claimed.has(key)) claimed.set(key, invoice.id)
+  })
+  const claimedBy = new Map([...claimed].map(([key, invoiceId]) => [invoiceId, key]))
+
+  // Invoices numbered differently from ICS fall back to the amount
+  const amountMatched = new Set<string>()
+  active.forEach(invoice => {
+    if (claimedBy.has(invoice.id)) return
+    const match = [...groups].find(([key, group]) =>
+      !claimed.has(key) && Math.abs(Number(invoice.amount) - group.amount) <= matchTolerance(group.amount, tolerance)
+    )
+    if (!match) return
+    claimed.set(match[0], invoice.id)
+    claimedBy.set(invoice.id, match[0])
+    amountMatched.add(invoice.id)
+  })
+
+  const committed = Number(purchaseOrder.committed_amount || 0)
+  let invoicedBefore = 0
+
+  const entries: InvoiceLedgerEntry[] = ordered.map(invoice => {
+    const amount = Number(invoice.amount)
+    if (invoice.status === 'cancelled') {
+      return {
+        ...invoice,
+        amount,
+        matchStatus: null,
+        matchedBy: null,
+        matchedLineIds: [],
+        expectedAmount: null,
+        variance: null,
+        remainingBefore: round(committed - invoicedBefore),
+        exceedsCommitment: false
+      }
+    }
+
+    const group = claimedBy.has(invoice.id) ? groups.get(claimedBy.get(invoice.id)!)! : null
+    const variance = group ? round(amount - group.amount) : null
+    const remainingBefore = round(committed - invoicedBefore)
+    invoicedBefore += amount
+
+    return {
+      ...invoice,
+      amount,
+      matchStatus: !group
+        ? 'unmatched'
+        : Math.abs(variance!) <= matchTolerance(group.amount, tolerance) ? 'matched' : 'variance',
+      matchedBy: !group ? null : amountMatched.has(invoice.id) ? 'amount' : 'invoice_number',
+      matchedLineIds: group?.lineIds || [],
+      expectedAmount: group?.amount ?? null,
+      variance,
+      remainingBefore,
+      exceedsCommitment: amount - remainingBefore > 0.005
+    }
+  })
+
+  const invoiced = round(invoicedBefore)
+  const counted = entries.filter(entry => entry.matchStatus !== null)
+
+  return {
+    purchaseOrder,
+    entries,
+    unbilledLines: [...groups].filter(([key]) => !claimed.has(key)).map(([, group]) => group),
+    tolerance,
+    totals: {
+      invoiced,
+      remaining: round(committed - invoiced),
+      matched: counted.filter(entry => entry.matchStatus === 'matched').length,
+      variance: counted.filter(entry => entry.matchStatus === 'variance').length,
+      unmatched: counted.filter(entry => entry.matchStatus === 'unmatched').length,
+      exceedingCommitment: counted.filter(entry => entry.exceedsCommitment).length
+    }
+  }
+}
+
+// A ticket on the ICS PO log, as a ledger invoice
+export interface ICSLogInvoice {
+  invoiceNumber: string
+  invoiceDate: string | null
+  amount: number
+}
+
+/**
+ * Ledger writes that keep a PO's ics_log invoices in step with the tickets on its ICS
+ * log lines: tickets without an invoice are created, changed ics_log invoices are
+ * updated and ics_log invoices whose ticket left the log or now nets to a credit are
+ * cancelled. A ticket already entered by hand or from a CSV keeps that invoice, and
+ * credits (negative ticket totals) are not recorded.
+ */
+export function planICSLogInvoices(
+  lines: Array<Pick<InvoiceLine, 'invoice_ticket' | 'invoice_date' | 'total_amount'>>,
+  invoices: Array<Pick<LedgerInvoice, 'id' | 'invoice_number' | 'invoice_date' | 'amount' | 'status' | 'source'>>
+): { create: ICSLogInvoice[]; update: Array<ICSLogInvoice & { id: string }>; cancel: string[] } {
+  const tickets = new Map<string, ICSLogInvoice>()
+  lines.forEach(line => {
+    const key = ticketKey(line.invoice_ticket)
+    if (!key) return
+    const ticket = tickets.get(key) || { invoiceNumber: (line.invoice_ticket || '').trim(), invoiceDate: null, amount: 0 }
+    ticket.amount = round(ticket.amount + Number(line.total_amount || 0))
+    if (line.invoice_date && (!ticket.invoiceDate || line.invoice_date > ticket.invoiceDate)) {
+      ticket.invoiceDate = line.invoice_date
+    }
+    tickets.set(key, ticket)
+  })
+
+  const byNumber = new Map(invoices.map(invoice => [ticketKey(invoice.invoice_number), invoice]))
+  const create: ICSLogInvoice[] = []
+  const update: Array<ICSLogInvoice & { id: string }> = []
+  tickets.forEach((ticket, key) => {
+    if (ticket.amount < 0) return
+    const invoice = byNumber.get(key)
+    if (!invoice) {
+      create.push(ticket)
+    } else if (
+      invoice.source === 'ics_log' &&
+      (Number(invoice.amount) !== ticket.amount || (ticket.invoiceDate && ticket.invoiceDate !== invoice.invoice_date))
+    ) {
+      update.push({ ...ticket, invoiceDate: ticket.invoiceDate || invoice.invoice_date, id: invoice.id })
+    }
+  })
+
+  const cancel = invoices
+    .filter(invoice => {
+      if (invoice.source !== 'ics_log' || invoice.status === 'cancelled') return false
+      const ticket = tickets.get(ticketKey(invoice.invoice_number))
+      return !ticket || ticket.amount < 0
+    })
+    .map(invoice => invoice.id)
+
+  return { create, update, cancel }
+}
+
+export const LEDGER_INVOICE_COLUMNS =
+  'id, project_id, purchase_order_id, vendor_name, invoice_number, invoice_date, amount, status, due_date, payment_date, payment_terms, notes, source, approved_at, created_at'
+
+/**
+ * Invoice ledgers of several POs, keyed by PO id; POs not found are left out
+ */
+export async function fetchInvoiceLedgers(
+  supabase: SupabaseClient,
+  purchaseOrderIds: string[]
+): Promise<Map<string, InvoiceLedger>> {
+  const ledgers = new Map<string, InvoiceLedger>()
+  if (purchaseOrderIds.length === 0) return ledgers
+
+  const [{ data: purchaseOrders, error: poError }, { data: invoices, error }, { data: lines, error: linesError }] =
+    await Promise.all([
+      supabase
+        .from('purchase_orders')
+        .select('id, project_id, po_number, vendor_name, committed_amount, invoiced_amount')
+        .in('id', purchaseOrderIds),
+      supabase
+        .from('invoices')
+        .select(LEDGER_INVOICE_COLUMNS)
+        .in('purchase_order_id', purchaseOrderIds),
+      supabase
+        .from('po_line_items')
+        .select('id, purchase_order_id, invoice_ticket, invoice_date, total_amount, description')
+        .in('purchase_order_id', purchaseOrderIds)
+    ])
+
+  if (poError) throw poError
+  if (error) throw error
+  if (linesError) throw linesError
+
+  ;(purchaseOrders || []).forEach(po => {
+    ledgers.set(po.id, calculateInvoiceLedger(
+      {
+        ...po,
+        committed_amount: Number(po.committed_amount || 0),
+        invoiced_amount: Number(po.invoiced_amount || 0)
+      },
+      ((invoices || []) as LedgerInvoice[]).filter(invoice => invoice.purchase_order_id === po.id),
+      ((lines || []) as (InvoiceLine & { purchase_order_id: string })[]).filter(line => line.purchase_order_id === po.id)
+    ))
+  })
+
+  return ledgers
+}
+
+/**
+ * A PO's invoice ledger with matches against its ICS invoice lines
+ */
+export async function fetchInvoiceLedger(
+  supabase: SupabaseClient,
+  purchaseOrderId: string
+): Promise<InvoiceLedger> {
+  const ledger = (await fetchInvoiceLedgers(supabase, [purchaseOrderId])).get(purchaseOrderId)
+  if (!ledger) throw new Error('Purchase order not found')
+  return ledger
+}
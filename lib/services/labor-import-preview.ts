@@ -0,0 +1,231 @@
+import { calculateBurdenedCost } from '@/lib/services/burden-rates'
+import type { ImportConflict, ImportConflictStrategy } from '@/lib/services/import-fingerprint'
+import type { EmployeeReconciliation } from '@/lib/services/employee-reconciliation'
+
+export type LaborCategory = 'direct' | 'indirect' | 'staff'
+
+const LABOR_CATEGORIES: LaborCategory[] = ['direct', 'indirect', 'staff']
+
+// A weekly employee record, either computed from the file or already stored
+export interface PreviewLaborRecord {
+  employee_number: string
+  name: string
+  category: string
+  st_hours: number
+  ot_hours: number // Includes double time
+  dt_hours?: number | null
+  st_wages: number
+  ot_wages: number // Includes double time
+  burden_rate: number | null
+  total_cost_with_burden?: number | null
+}
+
+export interface LaborPreviewCategoryTotal {
+  category: LaborCategory
+  employeeCount: number
+  stHours: number
+  otHours: number
+  dtHours: number
+  stWages: number
+  otWages: number
+  burdenAmount: number
+  totalCost: number
+}
+
+export interface LaborPreviewChange {
+  employee_number: string
+  name: string
+  status: 'new' | 'updated' | 'unchanged' | 'removed'
+  previousHours: number
+  newHours: number
+  previousCost: number
+  newCost: number
+}
+
+export interface LaborPreviewPerDiem {
+  enabled: boolean
+  directRate: number
+  indirectRate: number
+  employeeCount: number
+  estimatedAmount: number
+}
+
+export interface LaborImportPreview {
+  mode: 'preview'
+  weekEnding: string
+  conflictStrategy: ImportConflictStrategy | null
+  conflict: ImportConflict | null
+  employeesToCreate: Array<{
+    employee_number: string
+    first_name: string
+    last_name: string
+    category: string
+  }>
+  zeroRateEmployees: Array<{ employee_number: string; name: string }>
+  categoryTotals: LaborPreviewCategoryTotal[]
+  totals: {
+    employees: number
+    hours: number
+    cost: number
+  }
+  changes: LaborPreviewChange[]
+  weekOverWeek: {
+    previousWeekEnding: string | null
+    previousHours: number
+    previousCost: number
+    hoursDelta: number
+    costDelta: number
+  }
+  perDiem: LaborPreviewPerDiem
+  reconciliation: EmployeeReconciliation
+  skipped: number
+  errors: Array<{ row: number; message: string; data?: unknown }>
+}
+
+const normalizeCategory = (category: string | null | undefined): LaborCategory => {
+  const normalized = (category || '').toLowerCase()
+  return LABOR_CATEGORIES.includes(normalized as LaborCategory)
+    ? normalized as LaborCategory
+    : 'direct'
+}
+
+const recordHours = (record: PreviewLaborRecord) => (record.st_hours || 0) + (record.ot_hours || 0)
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * The week's records after the import: incoming records plus existing records the
+ * strategy keeps. Merge/skip keep records missing from the file; replace removes them.
+ */
+export function resolveWeekRecords(
+  incoming: PreviewLaborRecord[],
+  existing: PreviewLaborRecord[],
+  strategy: ImportConflictStrategy | null
+): PreviewLaborRecord[] {
+  const byEmployee = new Map<string, PreviewLaborRecord>()
+  if (strategy !== 'replace') {
+    existing.forEach(record => byEmployee.set(record.employee_number, record))
+  }
+  incoming.forEach(record => byEmployee.set(record.employee_number, record))
+  return Array.from(byEmployee.values())
+}
+
+/**
+ * Hours and burdened cost by labor category
+ */
+export function summarizeLaborRecords(records: PreviewLaborRecord[]): LaborPreviewCategoryTotal[] {
+  return LABOR_CATEGORIES.map(category => {
+    const categoryRecords = records.filter(record => normalizeCategory(record.category) === category)
+    const stWages = categoryRecords.reduce((sum, record) => sum + (record.st_wages || 0), 0)
+    const otWages = categoryRecords.reduce((sum, record) => sum + (record.ot_wages || 0), 0)
+    const totalCost = categoryRecords.reduce((sum, record) => sum + calculateBurdenedCost(record), 0)
+
+    return {
+      category,
+      employeeCount: categoryRecords.length,
+      stHours: categoryRecords.reduce((sum, record) => sum + (record.st_hours || 0), 0),
+      otHours: categoryRecords.reduce((sum, record) => sum + (record.ot_hours || 0), 0),
+      dtHours: categoryRecords.reduce((sum, record) => sum + (record.dt_hours || 0), 0),
+      stWages: roundCurrency(stWages),
+      otWages: roundCurrency(otWages),
+      burdenAmount: roundCurrency(totalCost - stWages - otWages),
+      totalCost: roundCurrency(totalCost)
+    }
+  })
+}
+
+/**
+ * Per-employee differences between the stored week and the week after the import
+ */
+export function diffLaborRecords(
+  incoming: PreviewLaborRecord[],
+  existing: PreviewLaborRecord[],
+  strategy: ImportConflictStrategy | null
+): LaborPreviewChange[] {
+  const existingMap = new Map(existing.map(record => [record.employee_number, record]))
+  const incomingNumbers = new Set(incoming.map(record => record.employee_number))
+
+  const changes: LaborPreviewChange[] = incoming.map(record => {
+    const previous = existingMap.get(record.employee_number)
+    const newHours = recordHours(record)
+    const newCost = roundCurrency(calculateBurdenedCost(record))
+    const previousHours = previous ? recordHours(previous) : 0
+    const previousCost = previous ? roundCurrency(calculateBurdenedCost(previous)) : 0
+
+    return {
+      employee_number: record.employee_number,
+      name: record.name,
+      status: !previous
+        ? 'new'
+        : previousHours === newHours && previousCost === newCost ? 'unchanged' : 'updated',
+      previousHours,
+      newHours,
+      previousCost,
+      newCost
+    }
+  })
+
+  if (strategy === 'replace') {
+    existing
+      .filter(record => !incomingNumbers.has(record.employee_number))
+      .forEach(record => {
+        changes.push({
+          employee_number: record.employee_number,
+          name: record.name,
+          status: 'removed',
+          previousHours: recordHours(record),
+          newHours: 0,
+          previousCost: roundCurrency(calculateBurdenedCost(record)),
+          newCost: 0
+        })
+      })
+  }
+
+  return changes
+}
+
+/**
+ * Per diem the import would generate. Mirrors calculate_per_diem_for_labor_actual():
+ * one day per employee with hours, direct rate for direct employees, indirect rate otherwise.
+ */
+export function estimatePerDiem(
+  records: PreviewLaborRecord[],
+  settings: { enabled: boolean; directRate: number; indirectRate: number }
+): LaborPreviewPerDiem {
+  const rateFor = (record: PreviewLaborRecord) =>
+    normalizeCategory(record.category) === 'direct' ? settings.directRate : settings.indirectRate
+  const eligible = settings.enabled
+    ? records.filter(record => recordHours(record) > 0 && rateFor(record) > 0)
+    : []
+
+  return {
+    ...settings,
+    employeeCount: eligible.length,
+    estimatedAmount: roundCurrency(eligible.reduce((sum, record) => sum + rateFor(record), 0))
+  }
+}
+
+/**
+ * Week totals compared with the most recent earlier week
+ */
+export function compareWithPreviousWeek(
+  weekRecords: PreviewLaborRecord[],
+  previousWeek: { weekEnding: string; records: PreviewLaborRecord[] } | null
+): LaborImportPreview['weekOverWeek'] {
+  const hours = weekRecords.reduce((sum, record) => sum + recordHours(record), 0)
+  const cost = weekRecords.reduce((sum, record) => sum + calculateBurdenedCost(record), 0)
+  const previousHours = previousWeek
+    ? previousWeek.records.reduce((sum, record) => sum + recordHours(record), 0)
+    : 0
+  const previousCost = previousWeek
+    ? previousWeek.records.reduce((sum, record) => sum + calculateBurdenedCost(record), 0)
+    : 0
+
+  return {
+    previousWeekEnding: previousWeek?.weekEnding || null,
+    previousHours,
+    previousCost: roundCurrency(previousCost),
+    hoursDelta: hours - previousHours,
+    costDelta: roundCurrency(cost - previousCost)
+  }
+}
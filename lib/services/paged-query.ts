@@ -0,0 +1,19 @@
+// PostgREST returns at most this many rows per request
+export const QUERY_PAGE_SIZE = 1000
+
+/**
+ * Every row of a query, read a page at a time with .range(from, to). `page` builds
+ * the query afresh for each page and orders it on a unique column so pages don't
+ * overlap.
+ */
+export async function fetchAllRows<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = []
+  for (let from = 0; ; from += QUERY_PAGE_SIZE) {
+    const { data, error } = await page(from, from + QUERY_PAGE_SIZE - 1)
+    if (error) throw error
+    rows.push(...(data || []))
+    if (!data || data.length < QUERY_PAGE_SIZE) return rows
+  }
+}
@@ -0,0 +1,183 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+export type DayOfWeek =
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday'
+  | 'sunday'
+
+export const DAYS_OF_WEEK: DayOfWeek[] = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday'
+]
+
+export type DayPremium = 'none' | 'ot' | 'dt'
+
+export interface LaborPayRule {
+  id: string
+  project_id: string | null
+  craft_type_id: string | null
+  name: string
+  daily_ot_threshold: number | null
+  daily_dt_threshold: number | null
+  weekly_ot_threshold: number | null
+  ot_multiplier: number
+  dt_multiplier: number
+  saturday_premium: DayPremium
+  sunday_premium: DayPremium
+  is_active: boolean
+  created_at?: string
+  updated_at?: string
+}
+
+export interface HoursSplit {
+  stHours: number
+  otHours: number
+  dtHours: number
+}
+
+export interface WageSplit {
+  stWages: number
+  otWages: number
+  dtWages: number
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Resolve the pay rule for a project and craft.
+ * Most specific scope wins: project+craft, project, company+craft, company.
+ * Returns null when no rule is configured so callers keep the timesheet's own split.
+ */
+export function resolvePayRule(
+  rules: LaborPayRule[],
+  options: { projectId: string; craftTypeId?: string | null }
+): LaborPayRule | null {
+  let best: LaborPayRule | null = null
+  let bestScore = -1
+
+  for (const rule of rules) {
+    if (!rule.is_active) continue
+    if (rule.project_id && rule.project_id !== options.projectId) continue
+    if (rule.craft_type_id && rule.craft_type_id !== options.craftTypeId) continue
+
+    const score = (rule.project_id ? 2 : 0) + (rule.craft_type_id ? 1 : 0)
+    if (score > bestScore) {
+      best = rule
+      bestScore = score
+    }
+  }
+
+  return best
+}
+
+/**
+ * Split a week of daily hours into straight, overtime and double time.
+ * Daily thresholds are applied first, then weekend premiums, then the weekly
+ * overtime threshold converts straight time beyond the weekly limit to overtime.
+ */
+export function applyPayRule(
+  dailyHours: Partial<Record<DayOfWeek, number>>,
+  rule: LaborPayRule
+): HoursSplit {
+  let stHours = 0
+  let otHours = 0
+  let dtHours = 0
+
+  for (const day of DAYS_OF_WEEK) {
+    const hours = dailyHours[day] || 0
+    if (hours <= 0) continue
+
+    const premium =
+      day === 'sunday' ? rule.sunday_premium :
+      day === 'saturday' ? rule.saturday_premium :
+      'none'
+
+    // Hours beyond the daily double time threshold are always double time
+    const dailyDt = rule.daily_dt_threshold !== null
+      ? Math.max(0, hours - rule.daily_dt_threshold)
+      : 0
+    const remaining = hours - dailyDt
+
+    if (premium === 'dt') {
+      dtHours += hours
+      continue
+    }
+
+    if (premium === 'ot') {
+      otHours += remaining
+      dtHours += dailyDt
+      continue
+    }
+
+    const dailyOt = rule.daily_ot_threshold !== null
+      ? Math.max(0, remaining - rule.daily_ot_threshold)
+      : 0
+    let dailySt = remaining - dailyOt
+
+    // Straight time beyond the weekly threshold becomes overtime
+    if (rule.weekly_ot_threshold !== null) {
+      const weeklyExcess = Math.max(0, stHours + dailySt - rule.weekly_ot_threshold)
+      const converted = Math.min(dailySt, weeklyExcess)
+      dailySt -= converted
+      otHours += converted
+    }
+
+    stHours += dailySt
+    otHours += dailyOt
+    dtHours += dailyDt
+  }
+
+  return {
+    stHours: round2(stHours),
+    otHours: round2(otHours),
+    dtHours: round2(dtHours)
+  }
+}
+
+/**
+ * Calculate wages for an hours split. Without a rule, overtime is paid at 1.5x.
+ */
+export function calculateWages(
+  hours: HoursSplit,
+  baseRate: number,
+  rule?: LaborPayRule | null
+): WageSplit {
+  const otMultiplier = rule ? Number(rule.ot_multiplier) : 1.5
+  const dtMultiplier = rule ? Number(rule.dt_multiplier) : 2
+
+  return {
+    stWages: round2(hours.stHours * baseRate),
+    otWages: round2(hours.otHours * baseRate * otMultiplier),
+    dtWages: round2(hours.dtHours * baseRate * dtMultiplier)
+  }
+}
+
+/**
+ * Fetch the company-wide pay rules plus any overrides for a project
+ */
+export async function fetchPayRules(
+  supabase: SupabaseClient,
+  projectId: string
+): Promise<LaborPayRule[]> {
+  const { data, error } = await supabase
+    .from('labor_pay_rules')
+    .select('*')
+    .eq('is_active', true)
+    .or(`project_id.is.null,project_id.eq.${projectId}`)
+
+  if (error) {
+    console.error('Error fetching pay rules:', error)
+    return []
+  }
+
+  return (data || []) as LaborPayRule[]
+}
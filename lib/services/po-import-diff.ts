@@ -0,0 +1,195 @@
+import { normalizeBudgetCategory } from './cost-code-mappings'
+
+// A PO as the diff compares it, before or after an import
+export interface POSnapshot {
+  po_number: string
+  vendor_name: string
+  committed_amount: number | null
+  status: string
+  budget_category: string | null
+}
+
+// An ICS invoice line of a PO, before or after an import
+export interface POInvoiceLineSnapshot {
+  po_number: string
+  invoice_ticket: string | null
+  invoice_date: string | null
+  total_amount: number | null
+}
+
+export interface POImportDiff {
+  newPurchaseOrders: Array<{
+    po_number: string
+    vendor_name: string
+    budget_category: string
+    committed_amount: number
+  }>
+  commitmentChanges: Array<{
+    po_number: string
+    vendor_name: string
+    budget_category: string
+    previous: number
+    current: number
+    change: number
+  }>
+  statusChanges: Array<{
+    po_number: string
+    vendor_name: string
+    previous: string
+    current: string
+  }>
+  newInvoices: Array<{
+    po_number: string
+    invoice_ticket: string
+    invoice_date: string | null
+    amount: number
+  }>
+  // Open commitment (POs not cancelled) by budget category, before and after
+  commitmentByCategory: Array<{
+    category: string
+    previous: number
+    current: number
+    change: number
+  }>
+  totals: {
+    previousCommitted: number
+    currentCommitted: number
+    commitmentChange: number
+    newPurchaseOrders: number
+    commitmentChanges: number
+    statusChanges: number
+    newInvoices: number
+    newInvoiceAmount: number
+  }
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+const categoryOf = (po: POSnapshot) =>
+  normalizeBudgetCategory(po.budget_category) || po.budget_category?.trim() || 'Uncategorized'
+
+// ICS invoice lines summed per PO and ticket
+function invoicesByTicket(lines: POInvoiceLineSnapshot[]) {
+  const invoices = new Map<string, POImportDiff['newInvoices'][number]>()
+  lines.forEach(line => {
+    const ticket = (line.invoice_ticket || '').trim()
+    if (!ticket) return
+    const key = `${line.po_number}|${ticket.toUpperCase()}`
+    const invoice = invoices.get(key) || { po_number: line.po_number, invoice_ticket: ticket, invoice_date: null, amount: 0 }
+    invoice.amount = round(invoice.amount + Number(line.total_amount || 0))
+    if (line.invoice_date && (!invoice.invoice_date || line.invoice_date > invoice.invoice_date)) {
+      invoice.invoice_date = line.invoice_date
+    }
+    invoices.set(key, invoice)
+  })
+  return invoices
+}
+
+/**
+ * What an ICS PO log import changed for one project: POs new to the project,
+ * commitment and status changes on existing POs, invoice tickets not recorded
+ * before, and the open commitment by budget category before and after.
+ * `previous` is every PO the project had; `imported` the POs as the import writes them.
+ */
+export function diffPurchaseOrderImport(input: {
+  previous: POSnapshot[]
+  imported: POSnapshot[]
+  previousInvoiceLines: POInvoiceLineSnapshot[]
+  importedInvoiceLines: POInvoiceLineSnapshot[]
+}): POImportDiff {
+  const previousByNumber = new Map(input.previous.map(po => [po.po_number, po]))
+  const current = new Map(previousByNumber)
+  input.imported.forEach(po => current.set(po.po_number, po))
+
+  const diff: POImportDiff = {
+    newPurchaseOrders: [],
+    commitmentChanges: [],
+    statusChanges: [],
+    newInvoices: [],
+    commitmentByCategory: [],
+    totals: {
+      previousCommitted: 0,
+      currentCommitted: 0,
+      commitmentChange: 0,
+      newPurchaseOrders: 0,
+      commitmentChanges: 0,
+      statusChanges: 0,
+      newInvoices: 0,
+      newInvoiceAmount: 0
+    }
+  }
+
+  input.imported.forEach(po => {
+    const before = previousByNumber.get(po.po_number)
+    const committed = Number(po.committed_amount || 0)
+    if (!before) {
+      diff.newPurchaseOrders.push({
+        po_number: po.po_number,
+        vendor_name: po.vendor_name,
+        budget_category: categoryOf(po),
+        committed_amount: committed
+      })
+      return
+    }
+
+    const previousCommitted = Number(before.committed_amount || 0)
+    if (Math.abs(committed - previousCommitted) >= 0.005) {
+      diff.commitmentChanges.push({
+        po_number: po.po_number,
+        vendor_name: po.vendor_name,
+        budget_category: categoryOf(po),
+        previous: previousCommitted,
+        current: committed,
+        change: round(committed - previousCommitted)
+      })
+    }
+    if (before.status !== po.status) {
+      diff.statusChanges.push({
+        po_number: po.po_number,
+        vendor_name: po.vendor_name,
+        previous: before.status,
+        current: po.status
+      })
+    }
+  })
+
+  const previousInvoices = invoicesByTicket(input.previousInvoiceLines)
+  invoicesByTicket(input.importedInvoiceLines).forEach((invoice, key) => {
+    if (!previousInvoices.has(key)) diff.newInvoices.push(invoice)
+  })
+
+  const byCategory = new Map<string, { previous: number; current: number }>()
+  const addCommitment = (po: POSnapshot, side: 'previous' | 'current') => {
+    if (po.status === 'cancelled') return
+    const category = categoryOf(po)
+    const totals = byCategory.get(category) || { previous: 0, current: 0 }
+    totals[side] += Number(po.committed_amount || 0)
+    byCategory.set(category, totals)
+  }
+  input.previous.forEach(po => addCommitment(po, 'previous'))
+  current.forEach(po => addCommitment(po, 'current'))
+
+  diff.commitmentByCategory = [...byCategory]
+    .map(([category, totals]) => ({
+      category,
+      previous: round(totals.previous),
+      current: round(totals.current),
+      change: round(totals.current - totals.previous)
+    }))
+    .sort((a, b) => a.category.localeCompare(b.category))
+
+  const previousCommitted = round(diff.commitmentByCategory.reduce((sum, row) => sum + row.previous, 0))
+  const currentCommitted = round(diff.commitmentByCategory.reduce((sum, row) => sum + row.current, 0))
+  diff.totals = {
+    previousCommitted,
+    currentCommitted,
+    commitmentChange: round(currentCommitted - previousCommitted),
+    newPurchaseOrders: diff.newPurchaseOrders.length,
+    commitmentChanges: diff.commitmentChanges.length,
+    statusChanges: diff.statusChanges.length,
+    newInvoices: diff.newInvoices.length,
+    newInvoiceAmount: round(diff.newInvoices.reduce((sum, invoice) => sum + invoice.amount, 0))
+  }
+
+  return diff
+}
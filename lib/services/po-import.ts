@@ -0,0 +1,862 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import * as XLSX from 'xlsx'
+import {
+  analyzeImportOverlap,
+  buildImportConflict,
+  createContentFingerprint,
+  findDuplicateImport,
+  hashFileContent,
+  type ImportConflictStrategy,
+  type PreviousImport
+} from './import-fingerprint'
+import { ImportBatch, applyImportBatch, trackFailedImport } from './import-transaction'
+import type { ImportOutcome, ImportProgressCallback } from './import-jobs'
+import {
+  ClosedPeriodError,
+  fetchClosedPeriods,
+  findClosedPeriod,
+  type AccountingPeriod
+} from './accounting-periods'
+import { classifyPurchaseOrder, fetchCostCodeMappings } from './cost-code-mappings'
+import { fetchVendors, resolveVendor } from './vendors'
+import { applyPurchaseOrderRisk } from './po-risk-rules'
+import { diffPurchaseOrderImport } from './po-import-diff'
+import { planICSLogInvoices } from './invoice-ledger'
+
+// Validation schema for ICS PO Log CSV row
+const icsRowSchema = z.object({
+  'Job No.': z.string().min(1),
+  'PO Number': z.string().min(1),
+  'Generation Date': z.string().optional(),
+  'Requestor': z.string().optional().default(''),
+  'Sub Cost Code': z.string().optional().default(''),
+  'Def. Contr./Extra': z.string().optional().default(''),
+  'Vendor': z.string().min(1),
+  'WO/PMO': z.string().optional().default(''),
+  'Cost Center': z.string().optional().default(''),
+  'Sub CC': z.string().optional().default(''),
+  'SubSub CC': z.string().optional().default(''),
+  'Est. PO Value': z.string().or(z.number()),
+  'PO Status': z.string().optional().default('Active'),
+  ' PO Comments': z.string().optional().default(''),
+  'Invoice/Ticket': z.string().optional().default(''),
+  'Inv. Date': z.string().optional(),
+  'Contract/Extra': z.string().optional().default(''),
+  'Line Item Value': z.string().or(z.number()),
+  'FTO Sent Date': z.string().optional(),
+  'FTO Ret. Date': z.string().optional(),
+  ' BB Date': z.string().optional(),
+  'Material Description': z.string().optional().default(''),
+  'Comments': z.string().optional().default('')
+})
+
+type ICSRow = z.infer<typeof icsRowSchema>
+
+interface ImportResult {
+  success: boolean
+  imported: number
+  updated: number
+  skipped: number
+  lineItemsCreated: number
+  // ICS invoice tickets created, updated or cancelled in the invoice ledger
+  invoicesRecorded: number
+  conflictStrategy?: ImportConflictStrategy
+  duplicateOf?: string
+  // POs whose risk status the risk rules changed
+  riskStatusChanges?: number
+  errors: Array<{
+    row: number
+    field?: string
+    message: string
+    data?: unknown
+  }>
+}
+
+// Helper function to parse date from ICS format
+function parseICSDate(dateStr: string | undefined): string | null {
+  if (!dateStr || dateStr.trim() === '' || dateStr === '0000-00-00') {
+    return null
+  }
+  
+  // ICS dates are in YYYY-MM-DD format
+  const date = new Date(dateStr)
+  if (isNaN(date.getTime())) {
+    return null
+  }
+  
+  return dateStr
+}
+
+// Helper function to parse numeric value
+function parseNumericValue(value: string | number): number {
+  if (typeof value === 'number') return value
+  if (!value || value === '') return 0
+  
+  // Remove any non-numeric characters except decimal point and negative sign
+  const cleaned = value.toString().replace(/[^0-9.-]/g, '')
+  const parsed = parseFloat(cleaned)
+  return isNaN(parsed) ? 0 : parsed
+}
+
+// Helper function to clean PO number (remove status suffix)
+function cleanPONumber(poNumber: string): string {
+  // Remove " (Active)" or similar suffixes
+  return poNumber.replace(/\s*\([^)]*\)\s*$/, '').trim()
+}
+
+// Helper function to map ICS status to database enum
+function mapStatus(icsStatus: string): 'draft' | 'approved' | 'cancelled' | 'completed' {
+  switch (icsStatus.toLowerCase()) {
+    case 'active':
+      return 'approved'
+    case 'cancelled':
+      return 'cancelled'
+    case 'completed':
+      return 'completed'
+    default:
+      return 'approved'
+  }
+}
+
+export interface PurchaseOrderImportInput {
+  content: Buffer
+  fileName: string
+  fileSize: number
+  userId: string
+  // Projects the importing user can access, used to resolve Job No.
+  projects: Array<{ id: string; job_number: string }>
+  projectIdOverride: string | null
+  conflictStrategy: ImportConflictStrategy | null
+}
+
+/**
+ * Import an ICS PO Log. Used by the import route and the background import worker.
+ */
+export async function runPurchaseOrderImport(
+  adminSupabase: SupabaseClient,
+  input: PurchaseOrderImportInput,
+  onProgress?: ImportProgressCallback
+): Promise<ImportOutcome> {
+  const startTime = Date.now()
+  console.log('Starting optimized PO import...')
+
+  const { content: buffer, fileName, fileSize, userId, projectIdOverride, conflictStrategy } = input
+  const fileHash = hashFileContent(buffer)
+
+  // Parse CSV file
+  let rawData: unknown[]
+  try {
+    const workbook = XLSX.read(buffer, { type: 'buffer', dateNF: 'yyyy-mm-dd' })
+    const sheetName = workbook.SheetNames[0]
+    const worksheet = workbook.Sheets[sheetName]
+    rawData = XLSX.utils.sheet_to_json(worksheet, { 
+      raw: false,
+      dateNF: 'yyyy-mm-dd',
+      header: 1
+    })
+  } catch {
+    return {
+      status: 400,
+      body: { error: 'Failed to parse file. Please ensure it is a valid CSV file.' }
+    }
+  }
+
+  if (!rawData || rawData.length < 3) {
+    return {
+      status: 400,
+      body: { error: 'Invalid ICS PO Log format. File must have header metadata and data rows.' }
+    }
+  }
+
+  // Skip first 2 rows (metadata) and use row 3 as headers
+  const headers = rawData[2] as string[]
+  const dataRows = rawData.slice(3)
+
+  // Convert back to object format using headers
+  const data = dataRows.map(row => {
+    const obj: Record<string, unknown> = {}
+    headers.forEach((header, index) => {
+      obj[header] = (row as unknown[])[index] || ''
+    })
+    return obj
+  }).filter(row => row['Job No.'] && row['PO Number'])
+
+  if (data.length === 0) {
+    return { status: 400, body: { error: 'No valid data rows found in file' } }
+  }
+
+  console.log(`Processing ${data.length} rows from CSV...`)
+  await onProgress?.({ phase: 'validating', processed: 0, total: data.length })
+
+  // Initialize result tracking
+  const result: ImportResult = {
+    success: true,
+    imported: 0,
+    updated: 0,
+    skipped: 0,
+    lineItemsCreated: 0,
+    invoicesRecorded: 0,
+    conflictStrategy: conflictStrategy || undefined,
+    errors: []
+  }
+
+  const projectMap = new Map(
+    input.projects.map(p => [p.job_number, p.id])
+  )
+
+  // Group rows by Job No. + PO Number to aggregate line items
+  const poGroups = new Map<string, ICSRow[]>()
+  const projectsInImport = new Set<string>()
+  
+  // First pass: validate and group data
+  for (let i = 0; i < data.length; i++) {
+    const row = data[i]
+    const dataRowNumber = i + 4
+
+    try {
+      const validatedRow = icsRowSchema.parse(row)
+      const jobNo = validatedRow['Job No.'].trim()
+      const poNumber = cleanPONumber(validatedRow['PO Number'])
+      const groupKey = `${jobNo}-${poNumber}`
+      
+      if (!poGroups.has(groupKey)) {
+        poGroups.set(groupKey, [])
+      }
+      poGroups.get(groupKey)!.push(validatedRow)
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        result.errors.push({
+          row: dataRowNumber,
+          message: `Validation error: ${error.errors[0]?.message}`,
+          field: error.errors[0]?.path[0]?.toString(),
+          data: row
+        })
+      } else {
+        result.errors.push({
+          row: dataRowNumber,
+          message: error instanceof Error ? error.message : 'Unknown error',
+          data: row
+        })
+      }
+      result.skipped++
+    }
+
+    await onProgress?.({ phase: 'validating', processed: i + 1, total: data.length, errors: result.errors })
+  }
+
+  console.log(`Grouped into ${poGroups.size} unique POs`)
+
+  // OPTIMIZATION: Prepare all PO data first
+  interface POData {
+    project_id: string
+    po_number: string
+    vendor_id: string | null
+    vendor_name: string
+    description: string
+    po_value: number
+    committed_amount: number
+    total_amount: number
+    status: 'draft' | 'approved' | 'cancelled' | 'completed'
+    generation_date: string | null
+    requestor: string
+    sub_cost_code: string
+    contract_extra_type: string
+    wo_pmo: string
+    cost_center: string
+    budget_category: string | null
+    cost_code_mapping_id: string | null
+    sub_cc: string
+    subsub_cc: string
+    fto_sent_date: string | null
+    fto_return_date: string | null
+    bb_date: string | null
+    created_by: string
+    updated_at: string
+    id?: string
+  }
+  
+  interface LineItemData {
+    po_key: string
+    line_number: number
+    description: string
+    total_amount: number
+    invoice_ticket: string
+    invoice_date: string | null
+    contract_extra_type: string
+    material_description: string
+    category: string
+  }
+  
+  // Budget categories come from the cost code mapping rules
+  const costCodeMappings = await fetchCostCodeMappings(adminSupabase)
+  // ICS vendor spellings resolve to the vendor master by name or alias
+  const vendors = await fetchVendors(adminSupabase)
+
+  const posToProcess: POData[] = []
+  const poLineItemsMap = new Map<string, LineItemData[]>()
+  const poNumberToProjectId = new Map<string, string>()
+
+  for (const [groupKey, rows] of poGroups) {
+    const firstRow = rows[0]
+    const jobNo = firstRow['Job No.'].trim()
+    const cleanedPONumber = cleanPONumber(firstRow['PO Number'])
+
+    // Determine project ID
+    let projectId: string
+    if (projectIdOverride) {
+      projectId = projectIdOverride
+    } else {
+      const foundProjectId = projectMap.get(jobNo)
+      if (!foundProjectId) {
+        result.errors.push({
+          row: 0,
+          field: 'Job No.',
+          message: `Project with job number '${jobNo}' not found`,
+          data: { groupKey, jobNo }
+        })
+        result.skipped++
+        continue
+      }
+      projectId = foundProjectId
+    }
+    
+    projectsInImport.add(projectId)
+    poNumberToProjectId.set(`${projectId}-${cleanedPONumber}`, projectId)
+
+    // Get the PO value from the CSV
+    const poValue = parseNumericValue(firstRow['Est. PO Value'])
+    
+    // Map cost center, Sub CC and SubSub CC to a budget category
+    const costCenter = firstRow['Cost Center']
+    const costCodeMapping = classifyPurchaseOrder({
+      project_id: projectId,
+      cost_center: costCenter,
+      sub_cc: firstRow['Sub CC'],
+      subsub_cc: firstRow['SubSub CC']
+    }, costCodeMappings)
+    const vendor = resolveVendor(firstRow['Vendor'], vendors)
+    
+    // Prepare PO data
+    const poData = {
+      project_id: projectId,
+      po_number: cleanedPONumber,
+      vendor_id: vendor?.id || null,
+      vendor_name: vendor?.name || firstRow['Vendor'],
+      description: firstRow[' PO Comments'],
+      po_value: poValue,
+      committed_amount: poValue,
+      total_amount: 0,
+      status: mapStatus(firstRow['PO Status']),
+      generation_date: parseICSDate(firstRow['Generation Date']),
+      requestor: firstRow['Requestor'],
+      sub_cost_code: firstRow['Sub Cost Code'],
+      contract_extra_type: firstRow['Def. Contr./Extra'],
+      wo_pmo: firstRow['WO/PMO'],
+      cost_center: costCenter,
+      budget_category: costCodeMapping?.budget_category || null,
+      cost_code_mapping_id: costCodeMapping?.id || null,
+      sub_cc: firstRow['Sub CC'],
+      subsub_cc: firstRow['SubSub CC'],
+      fto_sent_date: parseICSDate(firstRow['FTO Sent Date']),
+      fto_return_date: parseICSDate(firstRow['FTO Ret. Date']),
+      bb_date: parseICSDate(firstRow[' BB Date']),
+      created_by: userId,
+      updated_at: new Date().toISOString()
+    }
+
+    posToProcess.push(poData)
+
+    // Prepare line items
+    const lineItems = []
+    let totalInvoicedAmount = 0
+    
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i]
+      const invoiceTicket = row['Invoice/Ticket']
+      
+      if (invoiceTicket && invoiceTicket.trim() !== '') {
+        const lineItemValue = parseNumericValue(row['Line Item Value'])
+        totalInvoicedAmount += lineItemValue
+        
+        lineItems.push({
+          po_key: `${projectId}-${cleanedPONumber}`,
+          line_number: i + 1,
+          description: row['Material Description'] || `Invoice ${invoiceTicket}`,
+          total_amount: lineItemValue,
+          invoice_ticket: invoiceTicket,
+          invoice_date: parseICSDate(row['Inv. Date']),
+          contract_extra_type: row['Contract/Extra'],
+          material_description: row['Material Description'],
+          category: row['Contract/Extra'] || 'Contract'
+        })
+      }
+    }
+
+    // Store line items; invoiced_amount follows the invoice ledger, not the log
+    if (lineItems.length > 0) {
+      poLineItemsMap.set(`${projectId}-${cleanedPONumber}`, lineItems)
+      poData.total_amount = totalInvoicedAmount
+    }
+  }
+
+  console.log(`Prepared ${posToProcess.length} POs for processing`)
+
+  // OPTIMIZATION: Batch check for existing POs
+  const poIdentifiers = posToProcess.map(po => ({
+    project_id: po.project_id,
+    po_number: po.po_number
+  }))
+
+  console.log('Fetching existing POs in batch...')
+  const checkStart = Date.now()
+  
+  // Build a query to get all existing POs in one go
+  // Include committed_amount and po_value to check for manual edits
+  const { data: existingPOs } = await adminSupabase
+    .from('purchase_orders')
+    .select('id, project_id, po_number, committed_amount, po_value')
+    .or(poIdentifiers.map(p => 
+      `and(project_id.eq.${p.project_id},po_number.eq.${p.po_number})`
+    ).join(','))
+
+  console.log(`Batch check completed in ${Date.now() - checkStart}ms`)
+
+  // Create lookup map for existing POs with their current values
+  interface ExistingPOData {
+    id: string
+    committed_amount: number | null
+    po_value: number | null
+  }
+  
+  const existingPOMap = new Map<string, ExistingPOData>(
+    existingPOs?.map(po => [
+      `${po.project_id}-${po.po_number}`, 
+      { 
+        id: po.id, 
+        committed_amount: po.committed_amount,
+        po_value: po.po_value 
+      }
+    ]) || []
+  )
+
+  // Closed accounting periods: PO changes are dated today and invoice lines by their invoice date
+  const closedPeriods = await fetchClosedPeriods(adminSupabase, Array.from(projectsInImport))
+  if (closedPeriods.length > 0) {
+    const blocked = new Map<string, AccountingPeriod>()
+    const today = new Date().toISOString().split('T')[0]
+    for (const projectId of projectsInImport) {
+      const period = findClosedPeriod(closedPeriods, projectId, today)
+      if (period) blocked.set(period.id, period)
+    }
+
+    // Invoice lines inside a closed period must match what is already recorded
+    const closedLineKeys = (projectId: string, items: { invoice_ticket: string | null; invoice_date: string | null; total_amount: number | null }[]) =>
+      items
+        .filter(item => item.invoice_date && findClosedPeriod(closedPeriods, projectId, item.invoice_date))
+        .map(item => `${item.invoice_ticket}|${item.invoice_date}|${Number(item.total_amount || 0).toFixed(2)}`)
+        .sort()
+        .join(',')
+
+    const checkedPOIds = conflictStrategy === 'skip'
+      ? []
+      : Array.from(existingPOMap.values()).map(po => po.id)
+    const recordedLines: Array<{
+      purchase_order_id: string
+      invoice_ticket: string | null
+      invoice_date: string | null
+      total_amount: number | null
+    }> = []
+    // Keep the id lists within URL limits
+    for (let i = 0; i < checkedPOIds.length; i += 200) {
+      const { data: lines, error: linesError } = await adminSupabase
+        .from('po_line_items')
+        .select('purchase_order_id, invoice_ticket, invoice_date, total_amount')
+        .in('purchase_order_id', checkedPOIds.slice(i, i + 200))
+
+      if (linesError) throw linesError
+      recordedLines.push(...(lines || []))
+    }
+
+    for (const po of posToProcess) {
+      const key = `${po.project_id}-${po.po_number}`
+      const existingPO = existingPOMap.get(key)
+      if (existingPO && conflictStrategy === 'skip') continue
+
+      const fileLines = poLineItemsMap.get(key) || []
+      const previousLines = existingPO
+        ? recordedLines.filter(line => line.purchase_order_id === existingPO.id)
+        : []
+      if (closedLineKeys(po.project_id, fileLines) === closedLineKeys(po.project_id, previousLines)) continue
+
+      for (const line of [...fileLines, ...previousLines]) {
+        const period = line.invoice_date && findClosedPeriod(closedPeriods, po.project_id, line.invoice_date)
+        if (period) blocked.set(period.id, period)
+      }
+    }
+
+    if (blocked.size > 0) {
+      const error = new ClosedPeriodError(Array.from(blocked.values()))
+      return {
+        status: 409,
+        body: { error: `This PO log changes a closed period. ${error.message}`, closed_periods: error.periods }
+      }
+    }
+  }
+
+  // Detect re-imports of the same log and POs that were already imported
+  const contentFingerprint = createContentFingerprint(data)
+  let previousImport: PreviousImport | null = null
+  for (const projectId of projectsInImport) {
+    previousImport = await findDuplicateImport(adminSupabase, {
+      projectId,
+      importType: 'po',
+      fileHash,
+      contentFingerprint
+    })
+    if (previousImport) break
+  }
+  const overlap = analyzeImportOverlap(
+    posToProcess.map(po => `${po.project_id}-${po.po_number}`),
+    existingPOMap.keys()
+  )
+
+  if (!conflictStrategy) {
+    const conflict = buildImportConflict(previousImport, overlap, 'these projects')
+    if (conflict) {
+      return { status: 409, body: { error: conflict.message, conflict } }
+    }
+  }
+
+  if (previousImport && conflictStrategy === 'skip') {
+    return {
+      status: 200,
+      body: {
+        data: {
+          ...result,
+          skipped: result.skipped + posToProcess.length,
+          duplicateOf: previousImport.id
+        },
+        import_ids: []
+      }
+    }
+  }
+
+  // Every write below is applied in one transaction by apply_import_batch(),
+  // with one data_imports record per project: a failure leaves all projects as they were
+  const batch = new ImportBatch()
+  const importProjects = Array.from(projectsInImport)
+  const importIndexFor = (projectId: string) => Math.max(importProjects.indexOf(projectId), 0)
+  const projectIdByPOId = new Map<string, string>(existingPOs?.map(po => [po.id, po.project_id]) || [])
+
+  // Separate POs into updates and inserts
+  const posToUpdate: POData[] = []
+  const posToInsert: POData[] = []
+  const existingPOIds: string[] = []
+  let skippedExisting = 0
+
+  for (const poData of posToProcess) {
+    const key = `${poData.project_id}-${poData.po_number}`
+    const existingPOData = existingPOMap.get(key)
+    
+    if (existingPOData && conflictStrategy === 'skip') {
+      // Leave previously imported POs (and their line items) untouched
+      poLineItemsMap.delete(key)
+      result.skipped++
+      skippedExisting++
+    } else if (existingPOData) {
+      // For existing POs, check if committed_amount has been manually edited.
+      // Replace lets the file overwrite manual edits.
+      const hasManualEdit = conflictStrategy !== 'replace' &&
+                           existingPOData.committed_amount !== null && 
+                           existingPOData.po_value !== null &&
+                           existingPOData.committed_amount !== existingPOData.po_value
+      
+      // If user has manually edited committed_amount, preserve it
+      const updateData = { ...poData, id: existingPOData.id }
+      if (hasManualEdit) {
+        // Preserve the user's manual edit to committed_amount
+        updateData.committed_amount = existingPOData.committed_amount ?? poData.committed_amount
+        console.log(`Preserving manual edit for PO ${poData.po_number}: committed_amount = ${existingPOData.committed_amount}`)
+      }
+      
+      posToUpdate.push(updateData)
+      existingPOIds.push(existingPOData.id)
+      result.updated++
+    } else {
+      posToInsert.push(poData)
+      result.imported++
+    }
+  }
+
+  console.log(`Will update ${posToUpdate.length} existing POs and insert ${posToInsert.length} new POs`)
+
+  // Existing POs
+  for (const po of posToUpdate) {
+    batch.update('purchase_orders', [{
+      id: po.id!,
+      vendor_id: po.vendor_id,
+      vendor_name: po.vendor_name,
+      description: po.description,
+      po_value: po.po_value,
+      committed_amount: po.committed_amount,
+      total_amount: po.total_amount,
+      status: po.status,
+      generation_date: po.generation_date,
+      requestor: po.requestor,
+      sub_cost_code: po.sub_cost_code,
+      contract_extra_type: po.contract_extra_type,
+      wo_pmo: po.wo_pmo,
+      cost_center: po.cost_center,
+      budget_category: po.budget_category,
+      cost_code_mapping_id: po.cost_code_mapping_id,
+      sub_cc: po.sub_cc,
+      subsub_cc: po.subsub_cc,
+      fto_sent_date: po.fto_sent_date,
+      fto_return_date: po.fto_return_date,
+      bb_date: po.bb_date,
+      updated_at: po.updated_at
+    }], importIndexFor(po.project_id))
+  }
+
+  // New POs get their ids up front so line items can reference them
+  for (const po of posToInsert) {
+    const [inserted] = batch.insert('purchase_orders', [{ ...po }], importIndexFor(po.project_id))
+    projectIdByPOId.set(inserted.id, po.project_id)
+    existingPOMap.set(`${po.project_id}-${po.po_number}`, {
+      id: inserted.id,
+      committed_amount: null,
+      po_value: null
+    })
+  }
+
+  // Line items of updated POs are replaced by the file's line items
+  const previousLineItems: Array<{
+    id: string
+    purchase_order_id: string
+    invoice_ticket: string | null
+    invoice_date: string | null
+    total_amount: number | null
+  }> = []
+  if (existingPOIds.length > 0) {
+    const { data: oldLineItems, error: lineItemsError } = await adminSupabase
+      .from('po_line_items')
+      .select('id, purchase_order_id, invoice_ticket, invoice_date, total_amount')
+      .in('purchase_order_id', existingPOIds)
+
+    if (lineItemsError) throw lineItemsError
+
+    for (const item of oldLineItems || []) {
+      batch.delete('po_line_items', [item.id], importIndexFor(projectIdByPOId.get(item.purchase_order_id) || ''))
+      previousLineItems.push(item)
+    }
+  }
+
+  for (const [poKey, lineItems] of poLineItemsMap) {
+    const poData = existingPOMap.get(poKey)
+    if (!poData) continue
+
+    const projectId = projectIdByPOId.get(poData.id) || ''
+    batch.insert('po_line_items', lineItems.map(item => ({
+      purchase_order_id: poData.id,
+      line_number: item.line_number,
+      description: item.description,
+      total_amount: item.total_amount,
+      invoice_ticket: item.invoice_ticket,
+      invoice_date: item.invoice_date,
+      contract_extra_type: item.contract_extra_type,
+      material_description: item.material_description,
+      category: item.category
+    })), importIndexFor(projectId))
+    result.lineItemsCreated += lineItems.length
+  }
+
+  // invoiced_amount follows the invoice ledger, so each ticket on the log is kept as an ics_log invoice
+  const ledgerInvoices: Array<{
+    id: string
+    purchase_order_id: string
+    invoice_number: string
+    invoice_date: string
+    amount: number
+    status: 'pending' | 'approved' | 'paid' | 'cancelled'
+    source: 'manual' | 'csv_import' | 'ics_log'
+  }> = []
+  // Keep the id lists within URL limits
+  for (let i = 0; i < existingPOIds.length; i += 200) {
+    const { data: invoices, error: invoicesError } = await adminSupabase
+      .from('invoices')
+      .select('id, purchase_order_id, invoice_number, invoice_date, amount, status, source')
+      .in('purchase_order_id', existingPOIds.slice(i, i + 200))
+
+    if (invoicesError) throw invoicesError
+    ledgerInvoices.push(...(invoices || []))
+  }
+
+  const importedPOs = new Map([...posToUpdate, ...posToInsert].map(po => [`${po.project_id}-${po.po_number}`, po]))
+  const today = new Date().toISOString().split('T')[0]
+  // POs left with no tickets on the log still have their ics_log invoices cancelled
+  for (const [poKey, po] of importedPOs) {
+    const poData = existingPOMap.get(poKey)
+    if (!poData) continue
+
+    const plan = planICSLogInvoices(poLineItemsMap.get(poKey) || [], ledgerInvoices.filter(invoice => invoice.purchase_order_id === poData.id))
+    batch.insert('invoices', plan.create.map(ticket => ({
+      project_id: po.project_id,
+      purchase_order_id: poData.id,
+      vendor_name: po.vendor_name,
+      invoice_number: ticket.invoiceNumber,
+      invoice_date: ticket.invoiceDate || po.generation_date || today,
+      amount: ticket.amount,
+      status: 'approved',
+      source: 'ics_log',
+      notes: 'Recorded on the ICS PO log',
+      created_by: userId
+    })), importIndexFor(po.project_id))
+    batch.update('invoices', plan.update.map(ticket => ({
+      id: ticket.id,
+      invoice_date: ticket.invoiceDate,
+      amount: ticket.amount
+    })), importIndexFor(po.project_id))
+    batch.update('invoices', plan.cancel.map(id => ({ id, status: 'cancelled' })), importIndexFor(po.project_id))
+    result.invoicesRecorded += plan.create.length + plan.update.length + plan.cancel.length
+  }
+
+  // What the import changes for each project, against every PO the project had before
+  const { data: previousPOs, error: previousPOsError } = importProjects.length > 0
+    ? await adminSupabase
+        .from('purchase_orders')
+        .select('id, project_id, po_number, vendor_name, committed_amount, status, budget_category')
+        .in('project_id', importProjects)
+    : { data: [], error: null }
+
+  if (previousPOsError) throw previousPOsError
+
+  const previousPONumbers = new Map((previousPOs || []).map(po => [po.id, po.po_number]))
+  const diffs = new Map(importProjects.map(projectId => {
+    const imported = [...posToUpdate, ...posToInsert].filter(po => po.project_id === projectId)
+    return [projectId, diffPurchaseOrderImport({
+      previous: (previousPOs || []).filter(po => po.project_id === projectId),
+      imported,
+      previousInvoiceLines: previousLineItems
+        .filter(item => projectIdByPOId.get(item.purchase_order_id) === projectId)
+        .map(item => ({ ...item, po_number: previousPONumbers.get(item.purchase_order_id) || '' })),
+      importedInvoiceLines: imported.flatMap(po =>
+        (poLineItemsMap.get(`${po.project_id}-${po.po_number}`) || []).map(item => ({ ...item, po_number: po.po_number }))
+      )
+    })]
+  }))
+
+  // Apply the writes and create the import records
+  await onProgress?.({ phase: 'writing', processed: data.length, total: data.length, errors: result.errors })
+  const importStatus = result.errors.length === 0 ? 'success' : 
+                      (result.imported + result.updated) > 0 ? 'completed_with_errors' : 'failed'
+  
+  let importRecordIds: string[] = []
+  
+  if (importProjects.length > 0) {
+    try {
+      const applied = await applyImportBatch(adminSupabase, importProjects.map(projectId => ({
+        project_id: projectId,
+        import_type: 'po' as const,
+        import_status: importStatus,
+        imported_by: userId,
+        file_name: fileName,
+        file_hash: fileHash,
+        content_fingerprint: contentFingerprint,
+        records_processed: result.imported + result.updated,
+        records_failed: result.skipped - skippedExisting,
+        error_details: result.errors.length > 0 ? { 
+          errors: result.errors.slice(0, 100),
+          total_errors: result.errors.length,
+          line_items_created: result.lineItemsCreated
+        } : null,
+        metadata: {
+          file_size: fileSize,
+          import_source: 'ics_po_log',
+          total_rows: data.length,
+          total_pos: poGroups.size,
+          imported: result.imported,
+          updated: result.updated,
+          line_items_created: result.lineItemsCreated,
+          invoices_recorded: result.invoicesRecorded,
+          project_override: projectIdOverride ? true : false,
+          conflict_strategy: conflictStrategy,
+          processing_time_ms: Date.now() - startTime,
+          diff: diffs.get(projectId)
+        }
+      })), batch)
+      importRecordIds = applied.importIds
+    } catch (applyError) {
+      const message = applyError instanceof Error ? applyError.message : 'Import rolled back'
+      console.error('PO import rolled back:', applyError)
+      for (const projectId of importProjects) {
+        await trackFailedImport(adminSupabase, 'po', projectId, userId, fileName, message, {
+          file_hash: fileHash,
+          error_type: 'transaction',
+          total_pos: poGroups.size
+        })
+      }
+      return {
+        status: 500,
+        body: { error: 'Import failed and was rolled back. No data was changed.', message }
+      }
+    }
+
+    // Update each project's last PO import timestamp
+    for (const projectId of importProjects) {
+      await adminSupabase
+        .from('projects')
+        .update({
+          last_po_import_at: new Date().toISOString(),
+          data_health_status: 'current',
+          data_health_checked_at: new Date().toISOString()
+        })
+        .eq('id', projectId)
+    }
+
+    // Imported commitments, statuses and invoices can change PO risk
+    const risk = await applyPurchaseOrderRisk(adminSupabase, { projectIds: importProjects })
+    result.riskStatusChanges = risk.updated
+  }
+
+  // Log import activity
+  await adminSupabase.from('audit_log').insert({
+    table_name: 'purchase_orders',
+    record_id: userId,
+    action: 'IMPORT_ICS_OPTIMIZED',
+    new_values: {
+      total_rows: data.length,
+      total_pos: poGroups.size,
+      imported: result.imported,
+      updated: result.updated,
+      skipped: result.skipped,
+      line_items_created: result.lineItemsCreated,
+      errors: result.errors.length,
+      filename: fileName,
+      import_record_ids: importRecordIds,
+      projects_affected: Array.from(projectsInImport),
+      processing_time_ms: Date.now() - startTime
+    },
+    changed_by: userId
+  })
+
+  const totalTime = Date.now() - startTime
+  console.log(`Import completed in ${totalTime}ms (${(totalTime / 1000).toFixed(2)}s)`)
+  console.log(`Performance: ${(poGroups.size / (totalTime / 1000)).toFixed(1)} POs/second`)
+
+  return {
+    status: 200,
+    body: {
+      data: {
+        ...result,
+        // Per project: what changed against the POs it had before
+        changes: Object.fromEntries(diffs),
+        performance: {
+          total_time_ms: totalTime,
+          pos_per_second: poGroups.size / (totalTime / 1000)
+        }
+      },
+      import_ids: importRecordIds
+    }
+  }
+}
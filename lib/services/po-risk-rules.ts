@@ -0,0 +1,218 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { fetchAllRows } from './paged-query'
+
+export type PORiskStatus = 'normal' | 'at-risk' | 'over-budget'
+
+export const PO_RISK_RULE_TYPES = [
+  'invoiced_percent',
+  'forecast_over_committed',
+  'no_invoice_activity',
+  'past_expected_end'
+] as const
+
+export type PORiskRuleType = typeof PO_RISK_RULE_TYPES[number]
+
+export interface PORiskRule {
+  id: string
+  name: string
+  rule_type: PORiskRuleType
+  // invoiced_percent: % of committed; forecast_over_committed: % over committed;
+  // no_invoice_activity: weeks; past_expected_end: days of grace
+  threshold: number
+  risk_status: Exclude<PORiskStatus, 'normal'>
+  is_active: boolean
+}
+
+// A PO as the rules read it
+export interface RiskEvaluationPO {
+  id: string
+  status: string
+  committed_amount: number | null
+  forecast_amount: number | null
+  invoiced_amount: number | null
+  order_date: string | null
+  created_at: string
+  expected_completion_date: string | null
+  // Latest non-cancelled ledger invoice or ICS invoice line
+  last_invoice_date: string | null
+}
+
+export interface RiskEvaluation {
+  risk_status: PORiskStatus
+  // The rule that set the status; null when none fires
+  rule: PORiskRule | null
+}
+
+const SEVERITY: Record<PORiskStatus, number> = { normal: 0, 'at-risk': 1, 'over-budget': 2 }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const daysBetween = (from: string, to: string) =>
+  Math.floor((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS)
+
+/**
+ * Whether a rule fires for a PO on a date. The activity and end date rules only
+ * apply to open POs: not completed and not fully invoiced.
+ */
+export function ruleApplies(rule: PORiskRule, po: RiskEvaluationPO, today: string): boolean {
+  const committed = Number(po.committed_amount || 0)
+  const invoiced = Number(po.invoiced_amount || 0)
+  const open = po.status !== 'completed' && invoiced < committed
+
+  switch (rule.rule_type) {
+    case 'invoiced_percent':
+      return committed > 0 && (invoiced / committed) * 100 >= rule.threshold
+    case 'forecast_over_committed': {
+      const forecast = Number(po.forecast_amount || 0)
+      return forecast > 0 && forecast > committed * (1 + rule.threshold / 100) + 0.005
+    }
+    case 'no_invoice_activity': {
+      const lastActivity = po.last_invoice_date || po.order_date || po.created_at.split('T')[0]
+      return open && daysBetween(lastActivity, today) >= rule.threshold * 7
+    }
+    case 'past_expected_end':
+      return open && !!po.expected_completion_date && daysBetween(po.expected_completion_date, today) > rule.threshold
+  }
+}
+
+/**
+ * A PO's risk status by the rules: the most severe status of the active rules that
+ * fire, the first such rule given as the reason. Cancelled POs are normal.
+ */
+export function evaluatePurchaseOrderRisk(
+  po: RiskEvaluationPO,
+  rules: PORiskRule[],
+  today: string = new Date().toISOString().split('T')[0]
+): RiskEvaluation {
+  if (po.status === 'cancelled') return { risk_status: 'normal', rule: null }
+
+  return rules
+    .filter(rule => rule.is_active && ruleApplies(rule, po, today))
+    .reduce<RiskEvaluation>(
+      (worst, rule) => SEVERITY[rule.risk_status] > SEVERITY[worst.risk_status]
+        ? { risk_status: rule.risk_status, rule }
+        : worst,
+      { risk_status: 'normal', rule: null }
+    )
+}
+
+export async function fetchPORiskRules(supabase: SupabaseClient): Promise<PORiskRule[]> {
+  const { data, error } = await supabase
+    .from('po_risk_rules')
+    .select('id, name, rule_type, threshold, risk_status, is_active')
+    .order('created_at')
+
+  if (error) throw error
+  return (data || []).map(rule => ({ ...rule, threshold: Number(rule.threshold) })) as PORiskRule[]
+}
+
+/**
+ * Re-evaluate the risk status of POs, by project or id, or every PO. POs with a
+ * status set by hand are skipped. Each change is recorded in po_forecast_history
+ * with the rule that fired.
+ */
+export async function applyPurchaseOrderRisk(
+  supabase: SupabaseClient,
+  scope: { projectIds?: string[]; purchaseOrderIds?: string[] } = {},
+  today?: string
+): Promise<{ updated: number }> {
+  const [rules, purchaseOrders] = await Promise.all([
+    fetchPORiskRules(supabase),
+    fetchAllRows((from, to) => {
+      let poQuery = supabase
+        .from('purchase_orders')
+        .select('id, status, committed_amount, forecast_amount, invoiced_amount, order_date, created_at, expected_completion_date, risk_status, risk_rule_id')
+        .eq('risk_status_override', false)
+      if (scope.projectIds) poQuery = poQuery.in('project_id', scope.projectIds)
+      if (scope.purchaseOrderIds) poQuery = poQuery.in('id', scope.purchaseOrderIds)
+      return poQuery.order('id').range(from, to)
+    })
+  ])
+  if (purchaseOrders.length === 0) return { updated: 0 }
+
+  // Invoice activity is the latest ledger invoice or ICS invoice line
+  const lastInvoiceDate = new Map<string, string>()
+  const recordInvoiceDate = (row: { purchase_order_id: string; invoice_date: string | null }) => {
+    const last = lastInvoiceDate.get(row.purchase_order_id)
+    if (row.invoice_date && (!last || row.invoice_date > last)) lastInvoiceDate.set(row.purchase_order_id, row.invoice_date)
+  }
+  const poIds = purchaseOrders.map(po => po.id)
+  // Keep the id lists within URL limits
+  for (let i = 0; i < poIds.length; i += 200) {
+    const ids = poIds.slice(i, i + 200)
+    const [invoices, lines] = await Promise.all([
+      fetchAllRows<{ purchase_order_id: string; invoice_date: string | null }>((from, to) => supabase
+        .from('invoices')
+        .select('purchase_order_id, invoice_date')
+        .in('purchase_order_id', ids)
+        .neq('status', 'cancelled')
+        .order('id')
+        .range(from, to)),
+      fetchAllRows<{ purchase_order_id: string; invoice_date: string | null }>((from, to) => supabase
+        .from('po_line_items')
+        .select('purchase_order_id, invoice_date')
+        .in('purchase_order_id', ids)
+        .not('invoice_date', 'is', null)
+        .order('id')
+        .range(from, to))
+    ])
+    invoices.forEach(recordInvoiceDate)
+    lines.forEach(recordInvoiceDate)
+  }
+
+  // Group changes so each status and rule is one update
+  const changes = new Map<string, { risk_status: PORiskStatus; risk_rule_id: string | null; ids: string[] }>()
+  const history: Array<{
+    purchase_order_id: string
+    field_name: string
+    old_value: string
+    new_value: string
+    reason: string
+    risk_rule_id: string | null
+  }> = []
+
+  purchaseOrders.forEach(po => {
+    const { risk_status, rule } = evaluatePurchaseOrderRisk(
+      { ...po, last_invoice_date: lastInvoiceDate.get(po.id) || null },
+      rules,
+      today
+    )
+    const ruleId = rule?.id || null
+    if (risk_status === po.risk_status && ruleId === po.risk_rule_id) return
+
+    const key = `${risk_status}|${ruleId}`
+    const change = changes.get(key) || { risk_status, risk_rule_id: ruleId, ids: [] }
+    change.ids.push(po.id)
+    changes.set(key, change)
+
+    if (risk_status !== po.risk_status) {
+      history.push({
+        purchase_order_id: po.id,
+        field_name: 'risk_status',
+        old_value: po.risk_status,
+        new_value: risk_status,
+        reason: rule ? `Risk rule: ${rule.name}` : 'No risk rule applies',
+        risk_rule_id: ruleId
+      })
+    }
+  })
+
+  let updated = 0
+  for (const { ids, ...values } of changes.values()) {
+    for (let i = 0; i < ids.length; i += 200) {
+      const { error: updateError } = await supabase
+        .from('purchase_orders')
+        .update(values)
+        .in('id', ids.slice(i, i + 200))
+      if (updateError) throw updateError
+    }
+    updated += ids.length
+  }
+
+  if (history.length > 0) {
+    const { error: historyError } = await supabase.from('po_forecast_history').insert(history)
+    if (historyError) throw historyError
+  }
+
+  return { updated }
+}
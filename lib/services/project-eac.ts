@@ -0,0 +1,239 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { calculateBurdenedCost } from '@/lib/services/burden-rates'
+import { fetchRateEscalations } from '@/lib/services/rate-escalations'
+import {
+  ForecastCalculationService,
+  type EACCategory,
+  type EACComparison,
+  type EACMethod,
+  type EACMethodResult
+} from '@/lib/services/forecast-calculations'
+import {
+  calculateWBSEarnedValue,
+  fetchWBSEarnedValueInput,
+  schedulePercentComplete,
+  type WBSEarnedValue
+} from '@/lib/services/earned-value'
+
+export interface ProjectEACSettings {
+  project_id: string
+  official_method: EACMethod
+  percent_complete: number | null
+  planned_percent_complete: number | null
+  manual_eac: number | null
+  manual_eac_by_category: Partial<Record<EACCategory, number>> | null
+  manual_justification: string | null
+  updated_by: string | null
+  updated_at: string | null
+}
+
+export interface ProjectEAC extends EACComparison {
+  settings: ProjectEACSettings | null
+  officialMethod: EACMethod
+  official: EACMethodResult
+  // Where percent complete and planned percent complete came from
+  percentCompleteSource: 'entered' | 'wbs' | null
+  plannedPercentSource: 'entered' | 'wbs' | 'schedule' | null
+}
+
+const today = () => new Date().toISOString().split('T')[0]
+
+/**
+ * Every EAC method for a project, plus the project's official method. An official
+ * method that cannot be calculated (e.g. no progress entered) falls back to bottom-up.
+ * Percent complete comes from the settings when entered, otherwise from WBS progress.
+ * With a scenario id, the scenario's headcount and PO forecasts replace the live ones.
+ */
+export async function fetchProjectEAC(
+  supabase: SupabaseClient,
+  projectId: string,
+  asOf: string = today(),
+  scenarioId?: string
+): Promise<ProjectEAC> {
+  const { eac } = await loadProjectEAC(supabase, projectId, asOf, scenarioId)
+  return eac
+}
+
+/**
+ * WBS earned value with actual cost allocated from the project's cost to date
+ */
+export async function fetchProjectEarnedValue(
+  supabase: SupabaseClient,
+  projectId: string,
+  asOf: string = today()
+): Promise<WBSEarnedValue> {
+  const { eac, wbsInput, schedulePercent } = await loadProjectEAC(supabase, projectId, asOf)
+  const categoryActuals = Object.fromEntries(
+    eac.official.categories.map(category => [category.category, category.actualCost])
+  )
+  return calculateWBSEarnedValue({ ...wbsInput, asOf, schedulePercent, categoryActuals })
+}
+
+async function loadProjectEAC(
+  supabase: SupabaseClient,
+  projectId: string,
+  asOf: string,
+  scenarioId?: string
+) {
+  const { data: project } = await supabase
+    .from('projects')
+    .select('id, start_date, end_date, labor_direct_budget, labor_indirect_budget, labor_staff_budget, materials_budget, equipment_budget, subcontracts_budget, small_tools_budget')
+    .eq('id', projectId)
+    .single()
+
+  if (!project) {
+    throw new Error('Project not found')
+  }
+
+  if (scenarioId) {
+    const { data: scenario } = await supabase
+      .from('forecast_scenarios')
+      .select('id')
+      .eq('id', scenarioId)
+      .eq('project_id', projectId)
+      .maybeSingle()
+
+    if (!scenario) {
+      throw new Error('Scenario not found')
+    }
+  }
+
+  const [
+    { data: settings },
+    { data: purchaseOrders },
+    { data: laborActuals },
+    { data: laborForecasts },
+    { data: craftTypes },
+    { data: scenarioPOForecasts },
+    rateEscalations,
+    wbsInput
+  ] = await Promise.all([
+    supabase.from('project_eac_settings').select('*').eq('project_id', projectId).maybeSingle(),
+    supabase
+      .from('purchase_orders')
+      .select('id, committed_amount, invoiced_amount, forecast_amount, budget_category, status')
+      .eq('project_id', projectId)
+      .neq('status', 'cancelled'),
+    supabase
+      .from('labor_employee_actuals')
+      .select('week_ending, st_wages, ot_wages, burden_rate, total_cost_with_burden, total_hours, employees!inner(category, craft_type_id)')
+      .eq('project_id', projectId),
+    scenarioId
+      ? supabase
+          .from('forecast_scenario_headcounts')
+          .select('week_ending, headcount, avg_weekly_hours, craft_type_id')
+          .eq('scenario_id', scenarioId)
+      : supabase
+          .from('labor_headcount_forecasts')
+          .select('week_ending, headcount, avg_weekly_hours, craft_type_id')
+          .eq('project_id', projectId),
+    supabase.from('craft_types').select('id, name, default_rate, category'),
+    scenarioId
+      ? supabase
+          .from('forecast_scenario_po_forecasts')
+          .select('purchase_order_id, forecast_amount')
+          .eq('scenario_id', scenarioId)
+      : Promise.resolve({ data: [] as { purchase_order_id: string; forecast_amount: number }[] }),
+    fetchRateEscalations(supabase, projectId),
+    fetchWBSEarnedValueInput(supabase, projectId)
+  ])
+
+  type LaborActualRow = {
+    week_ending: string
+    st_wages: number | null
+    ot_wages: number | null
+    burden_rate: number | null
+    total_cost_with_burden: number | null
+    total_hours: number | null
+    employees: { category: string | null; craft_type_id: string | null } | null
+  }
+  const actuals = ((laborActuals || []) as unknown as LaborActualRow[]).map(labor => ({
+    actual_cost: calculateBurdenedCost(labor),
+    actual_hours: labor.total_hours,
+    week_ending: labor.week_ending,
+    // Employees without a craft still count toward actuals, just not craft rates
+    craft_type: {
+      id: labor.employees?.craft_type_id || '',
+      category: (labor.employees?.category || 'direct').toLowerCase()
+    }
+  }))
+
+  // Forecast weeks that already have actuals are spent, not remaining
+  const weeksWithActuals = new Set(actuals.map(labor => labor.week_ending.split('T')[0]))
+  const remainingForecasts = (laborForecasts || [])
+    .filter(f => !weeksWithActuals.has(String(f.week_ending).split('T')[0]))
+    .map(f => ({
+      forecasted_headcount: f.headcount || 0,
+      weekly_hours: f.avg_weekly_hours || undefined,
+      craft_type: f.craft_type_id,
+      week_ending: f.week_ending
+    }))
+
+  const scenarioForecasts = new Map(
+    (scenarioPOForecasts || []).map(f => [f.purchase_order_id, Number(f.forecast_amount)])
+  )
+
+  const eacSettings = (settings || null) as ProjectEACSettings | null
+  const schedulePercent = schedulePercentComplete(project.start_date, project.end_date, asOf)
+  const wbs = calculateWBSEarnedValue({ ...wbsInput, asOf, schedulePercent })
+  // Planned value only comes from the WBS when progress has been recorded against it
+  const wbsPlanned = wbs.percentComplete !== null ? wbs.plannedPercentComplete : null
+
+  const enteredPercent = eacSettings?.percent_complete ?? null
+  const percentComplete = enteredPercent ?? wbs.percentComplete
+  const enteredPlanned = eacSettings?.planned_percent_complete ?? null
+  const plannedPercentComplete = enteredPlanned ?? wbsPlanned ?? schedulePercent
+
+  const comparison = await ForecastCalculationService.calculateEACMethods(projectId, {
+    budgets: {
+      direct_labor: Number(project.labor_direct_budget || 0),
+      indirect_labor: Number(project.labor_indirect_budget || 0),
+      staff_labor: Number(project.labor_staff_budget || 0),
+      materials: Number(project.materials_budget || 0),
+      equipment: Number(project.equipment_budget || 0),
+      subcontracts: Number(project.subcontracts_budget || 0),
+      small_tools: Number(project.small_tools_budget || 0)
+    },
+    purchaseOrders: (purchaseOrders || []).map(po => ({
+      committed_amount: po.committed_amount,
+      invoiced_amount: po.invoiced_amount,
+      forecast_amount: scenarioForecasts.has(po.id) ? scenarioForecasts.get(po.id)! : po.forecast_amount,
+      forecasted_final_cost: null,
+      budget_category: po.budget_category
+    })),
+    laborActuals: actuals,
+    laborForecasts: remainingForecasts,
+    craftTypes: craftTypes || [],
+    rateEscalations,
+    rateAsOfDate: asOf,
+    percentComplete: percentComplete != null ? Number(percentComplete) : null,
+    plannedPercentComplete: plannedPercentComplete != null ? Number(plannedPercentComplete) : null,
+    manual: eacSettings?.manual_eac != null
+      ? {
+          eac: Number(eacSettings.manual_eac),
+          justification: eacSettings.manual_justification || '',
+          byCategory: eacSettings.manual_eac_by_category
+        }
+      : null
+  })
+
+  const selected = comparison.methods.find(m => m.method === (eacSettings?.official_method || 'bottom_up'))
+  const official = selected?.available
+    ? selected
+    : comparison.methods.find(m => m.method === 'bottom_up')!
+
+  const eac: ProjectEAC = {
+    ...comparison,
+    settings: eacSettings,
+    officialMethod: official.method,
+    official,
+    percentCompleteSource: enteredPercent !== null ? 'entered' : percentComplete !== null ? 'wbs' : null,
+    plannedPercentSource: enteredPlanned !== null
+      ? 'entered'
+      : wbsPlanned !== null
+        ? 'wbs'
+        : plannedPercentComplete !== null ? 'schedule' : null
+  }
+
+  return { eac, wbsInput, schedulePercent }
+}
@@ -0,0 +1,76 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+export type RateEscalationType = 'percent' | 'amount' | 'rate'
+
+export interface LaborRateEscalation {
+  id: string
+  project_id: string | null
+  craft_type_id: string | null
+  name: string
+  effective_date: string
+  escalation_type: RateEscalationType
+  value: number
+}
+
+export interface EscalatedRate {
+  rate: number
+  // Names of the escalations applied, in date order
+  applied: string[]
+}
+
+/**
+ * Apply the escalations that take effect after the as-of date and on or before the
+ * week ending, in date order. The base rate is what is paid as of the as-of date,
+ * so earlier escalations are already in it.
+ */
+export function escalateRate(
+  baseRate: number,
+  craftTypeId: string,
+  weekEnding: string | null | undefined,
+  escalations: Pick<LaborRateEscalation, 'craft_type_id' | 'name' | 'effective_date' | 'escalation_type' | 'value'>[],
+  asOfDate: string
+): EscalatedRate {
+  const week = weekEnding?.split('T')[0]
+  if (!week || escalations.length === 0) {
+    return { rate: baseRate, applied: [] }
+  }
+
+  const steps = escalations
+    .filter(e =>
+      (!e.craft_type_id || e.craft_type_id === craftTypeId) &&
+      e.effective_date > asOfDate &&
+      e.effective_date <= week
+    )
+    .sort((a, b) => a.effective_date.localeCompare(b.effective_date))
+
+  let rate = baseRate
+  steps.forEach(step => {
+    const value = Number(step.value)
+    if (step.escalation_type === 'percent') rate = rate * (1 + value / 100)
+    else if (step.escalation_type === 'amount') rate = rate + value
+    else rate = value
+  })
+
+  return { rate: Math.round(rate * 100) / 100, applied: steps.map(step => step.name) }
+}
+
+/**
+ * Company-wide and project escalations for a project
+ */
+export async function fetchRateEscalations(
+  supabase: SupabaseClient,
+  projectId: string
+): Promise<LaborRateEscalation[]> {
+  const { data, error } = await supabase
+    .from('labor_rate_escalations')
+    .select('*')
+    .or(`project_id.is.null,project_id.eq.${projectId}`)
+    .order('effective_date')
+
+  if (error) {
+    console.error('Error fetching rate escalations:', error)
+    return []
+  }
+
+  return (data || []) as LaborRateEscalation[]
+}
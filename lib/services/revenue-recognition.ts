@@ -0,0 +1,312 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { calculateBurdenedCost } from '@/lib/services/burden-rates'
+import { fetchProjectEAC } from '@/lib/services/project-eac'
+import { spreadPOInvoices } from '@/lib/services/cash-flow'
+
+export interface RevenueRecognitionInput {
+  // YYYY-MM
+  reportingMonth: string
+  asOf: string
+  revisedContract: number
+  estimateAtCompletion: number | null
+  // Cost to date per the EAC, and the dated costs behind it from the prior month end on
+  actualCostToDate: number
+  actualCosts: { date: string; amount: number }[]
+  // Forecast labor weeks and expected PO invoices still to come
+  forecastCosts: { date: string; amount: number }[]
+  billingSchedule: { billingDate: string; amount: number }[]
+  // Entered billed to date, used when there is no billing schedule
+  billedToDate: number
+  // Earned revenue saved for the prior month, which this month's revenue follows on from
+  priorEarnedRevenue: number | null
+}
+
+export interface RevenueRecognition {
+  reportingMonth: string
+  revisedContract: number
+  estimateAtCompletion: number | null
+  costToDate: number
+  percentComplete: number
+  earnedRevenueToDate: number
+  priorEarnedRevenue: number
+  currentMonthRevenue: number
+  nextMonthRevenue: number
+  plusTwoMonthRevenue: number
+  remainingBacklog: number
+  billedToDate: number
+  // Billed less earned: positive is over-billed, negative under-billed
+  overUnderBilling: number
+}
+
+// Figures on the monthly forecast sheet that can be adjusted from the calculation
+export const MONTHLY_FORECAST_FIELDS = [
+  'percent_complete',
+  'current_month_revenue',
+  'next_month_revenue',
+  'plus_two_month_revenue',
+  'remaining_backlog'
+] as const
+
+export type MonthlyForecastField = typeof MONTHLY_FORECAST_FIELDS[number]
+
+export interface MonthlyForecast {
+  id: string
+  project_id: string
+  reporting_month: string
+  percent_complete: number
+  current_month_revenue: number
+  next_month_revenue: number
+  plus_two_month_revenue: number
+  remaining_backlog: number
+  earned_revenue_to_date: number
+  billed_to_date: number
+  over_under_billing: number
+  calculated_percent_complete: number | null
+  calculated_current_month_revenue: number | null
+  calculated_next_month_revenue: number | null
+  calculated_plus_two_month_revenue: number | null
+  cost_to_date: number | null
+  estimate_at_completion: number | null
+  revised_contract: number | null
+  adjustment_reason: string | null
+  notes: string | null
+  updated_by: string | null
+  updated_at: string | null
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+export const addMonths = (month: string, months: number) => {
+  const [year, monthNumber] = month.split('-').map(Number)
+  const date = new Date(Date.UTC(year, monthNumber - 1 + months, 1))
+  return date.toISOString().slice(0, 7)
+}
+
+export const monthEndDate = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number)
+  return new Date(Date.UTC(year, monthNumber, 0)).toISOString().split('T')[0]
+}
+
+/**
+ * The monthly forecast sheet's figures from the calculation, as a sheet would save them
+ */
+export function calculatedMonthlyForecast(
+  recognition: RevenueRecognition
+): Record<MonthlyForecastField, number> {
+  return {
+    percent_complete: recognition.percentComplete,
+    current_month_revenue: recognition.currentMonthRevenue,
+    next_month_revenue: recognition.nextMonthRevenue,
+    plus_two_month_revenue: recognition.plusTwoMonthRevenue,
+    remaining_backlog: recognition.remainingBacklog
+  }
+}
+
+/**
+ * Cost-to-cost percentage of completion for a month.
+ *
+ * Cost at a month end is the cost to date less actual costs dated after it, plus
+ * forecast costs falling by then (never before the as-of date). Percent complete is
+ * that cost over the EAC, capped at 100%, and earned revenue is that share of the
+ * revised contract. The month's revenue is earned revenue less the prior month's, and
+ * the next two months' are the further revenue earned by their forecast costs.
+ */
+export function calculateRevenueRecognition(input: RevenueRecognitionInput): RevenueRecognition {
+  const costAt = (date: string) => {
+    const actual = input.actualCosts
+      .filter(cost => cost.date > date)
+      .reduce((sum, cost) => sum + cost.amount, 0)
+    const forecast = input.forecastCosts
+      .filter(cost => (cost.date > input.asOf ? cost.date : input.asOf) <= date)
+      .reduce((sum, cost) => sum + cost.amount, 0)
+    return input.actualCostToDate - actual + forecast
+  }
+
+  const eac = input.estimateAtCompletion
+  const percentAt = (cost: number) => (eac && eac > 0 ? Math.min(1, Math.max(0, cost / eac)) : 0)
+  const earnedAt = (month: string) => input.revisedContract * percentAt(costAt(monthEndDate(month)))
+
+  const costToDate = costAt(monthEndDate(input.reportingMonth))
+  const earned = earnedAt(input.reportingMonth)
+  const priorEarned = input.priorEarnedRevenue ?? earnedAt(addMonths(input.reportingMonth, -1))
+  const nextEarned = earnedAt(addMonths(input.reportingMonth, 1))
+  const plusTwoEarned = earnedAt(addMonths(input.reportingMonth, 2))
+
+  const monthEnd = monthEndDate(input.reportingMonth)
+  const billedToDate = input.billingSchedule.length > 0
+    ? input.billingSchedule
+        .filter(billing => billing.billingDate <= monthEnd)
+        .reduce((sum, billing) => sum + billing.amount, 0)
+    : input.billedToDate
+
+  return {
+    reportingMonth: input.reportingMonth,
+    revisedContract: input.revisedContract,
+    estimateAtCompletion: eac,
+    costToDate: round(costToDate),
+    percentComplete: round(percentAt(costToDate) * 100),
+    earnedRevenueToDate: round(earned),
+    priorEarnedRevenue: round(priorEarned),
+    currentMonthRevenue: round(earned - priorEarned),
+    nextMonthRevenue: round(nextEarned - earned),
+    plusTwoMonthRevenue: round(plusTwoEarned - nextEarned),
+    remainingBacklog: round(input.revisedContract - earned),
+    billedToDate: round(billedToDate),
+    overUnderBilling: round(billedToDate - earned)
+  }
+}
+
+/**
+ * A project's percentage-of-completion calculation for a month, from its official EAC,
+ * dated labor and PO invoice costs, forecast curves and billings
+ */
+export async function fetchRevenueRecognition(
+  supabase: SupabaseClient,
+  projectId: string,
+  reportingMonth: string,
+  asOf: string = new Date().toISOString().split('T')[0]
+): Promise<RevenueRecognition> {
+  const { data: project } = await supabase
+    .from('projects')
+    .select('id, end_date, original_contract, revised_contract')
+    .eq('id', projectId)
+    .single()
+
+  if (!project) {
+    throw new Error('Project not found')
+  }
+
+  // Costs dated after the prior month end are all that is needed to roll cost back
+  const priorMonthEnd = monthEndDate(addMonths(reportingMonth, -1))
+
+  const [
+    eac,
+    { data: purchaseOrders },
+    { data: laborActuals },
+    { data: settings },
+    { data: billingSchedule },
+    { data: priorForecast }
+  ] = await Promise.all([
+    fetchProjectEAC(supabase, projectId, asOf),
+    supabase
+      .from('purchase_orders')
+      .select('id, committed_amount, invoiced_amount, forecast_amount, order_date, expected_completion_date, status')
+      .eq('project_id', projectId)
+      .neq('status', 'cancelled'),
+    supabase
+      .from('labor_employee_actuals')
+      .select('week_ending, st_wages, ot_wages, burden_rate, total_cost_with_burden')
+      .eq('project_id', projectId)
+      .gt('week_ending', priorMonthEnd),
+    supabase.from('project_cash_flow_settings').select('billed_to_date').eq('project_id', projectId).maybeSingle(),
+    supabase
+      .from('project_billing_schedule')
+      .select('billing_date, amount')
+      .eq('project_id', projectId),
+    supabase
+      .from('monthly_forecasts')
+      .select('earned_revenue_to_date')
+      .eq('project_id', projectId)
+      .eq('reporting_month', addMonths(reportingMonth, -1))
+      .maybeSingle()
+  ])
+
+  const poIds = (purchaseOrders || []).map(po => po.id)
+  const { data: lineItems } = poIds.length
+    ? await supabase
+        .from('po_line_items')
+        .select('invoice_date, total_amount')
+        .in('purchase_order_id', poIds)
+        .gt('invoice_date', priorMonthEnd)
+    : { data: [] as { invoice_date: string; total_amount: number }[] }
+
+  const actualCosts = [
+    ...(laborActuals || []).map(labor => ({
+      date: String(labor.week_ending).split('T')[0],
+      amount: calculateBurdenedCost(labor)
+    })),
+    ...(lineItems || []).map(item => ({
+      date: String(item.invoice_date).split('T')[0],
+      amount: Number(item.total_amount || 0)
+    }))
+  ]
+
+  const forecastCosts = [
+    ...eac.laborRates
+      .filter(detail => detail.weekEnding && detail.cost > 0)
+      .map(detail => ({ date: detail.weekEnding!, amount: detail.cost })),
+    ...(purchaseOrders || []).flatMap(po =>
+      spreadPOInvoices(
+        {
+          // Same final cost the bottom-up EAC uses: entered forecast, else committed
+          remaining: Number(po.forecast_amount || po.committed_amount || 0) - Number(po.invoiced_amount || 0),
+          orderDate: po.order_date,
+          expectedCompletionDate: po.expected_completion_date
+        },
+        asOf,
+        project.end_date
+      ).map(invoice => ({ date: invoice.invoiceDate, amount: invoice.amount }))
+    )
+  ]
+
+  return calculateRevenueRecognition({
+    reportingMonth,
+    asOf,
+    revisedContract: Number(project.revised_contract || project.original_contract || 0),
+    estimateAtCompletion: eac.official.estimateAtCompletion,
+    actualCostToDate: eac.actualCostToDate,
+    actualCosts,
+    forecastCosts,
+    billingSchedule: (billingSchedule || []).map(billing => ({
+      billingDate: billing.billing_date,
+      amount: Number(billing.amount)
+    })),
+    billedToDate: Number(settings?.billed_to_date || 0),
+    priorEarnedRevenue: priorForecast ? Number(priorForecast.earned_revenue_to_date) : null
+  })
+}
+
+export interface MonthlyForecastSheetRow {
+  projectId: string
+  jobNumber: string
+  name: string
+  calculated: RevenueRecognition
+  saved: MonthlyForecast | null
+}
+
+/**
+ * Every active project's calculation for a month alongside what has been saved for it
+ */
+export async function fetchMonthlyForecastSheet(
+  supabase: SupabaseClient,
+  reportingMonth: string,
+  asOf: string = new Date().toISOString().split('T')[0]
+): Promise<MonthlyForecastSheetRow[]> {
+  const [{ data: projects, error }, { data: saved, error: savedError }] = await Promise.all([
+    supabase
+      .from('projects')
+      .select('id, name, job_number')
+      .eq('status', 'active')
+      .is('deleted_at', null)
+      .order('job_number'),
+    supabase.from('monthly_forecasts').select('*').eq('reporting_month', reportingMonth)
+  ])
+
+  if (error) throw error
+  if (savedError) throw savedError
+
+  const savedByProject = new Map(((saved || []) as MonthlyForecast[]).map(row => [row.project_id, row]))
+
+  const rows: MonthlyForecastSheetRow[] = []
+  // Sequential: each project's EAC already fans out its own queries
+  for (const project of projects || []) {
+    rows.push({
+      projectId: project.id,
+      jobNumber: project.job_number,
+      name: project.name,
+      calculated: await fetchRevenueRecognition(supabase, project.id, reportingMonth, asOf),
+      saved: savedByProject.get(project.id) || null
+    })
+  }
+  return rows
+}
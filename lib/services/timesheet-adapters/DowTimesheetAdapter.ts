@@ -0,0 +1,114 @@
+import * as XLSX from 'xlsx'
+import { EXCEL_COLUMNS, EXCEL_HEADERS, parseExcelDate } from '@/lib/validations/labor-import'
+import type { DayOfWeek } from '@/lib/services/pay-rules'
+import type { ParsedTimesheet, TimesheetAdapter, TimesheetEmployeeRow } from './types'
+import { extractJobNumber, INVALID_WEEK_ENDING_ERROR, parseNumericValue, parseStringValue, sheetToRows } from './utils'
+
+const SHEET_NAME = 'DOW'
+const EMPLOYEE_ID_PATTERN = /^T\d+$/
+
+const DAY_COLUMNS: Array<{ day: DayOfWeek; index: number }> = [
+  { day: 'monday', index: EXCEL_COLUMNS.MONDAY },
+  { day: 'tuesday', index: EXCEL_COLUMNS.TUESDAY },
+  { day: 'wednesday', index: EXCEL_COLUMNS.WEDNESDAY },
+  { day: 'thursday', index: EXCEL_COLUMNS.THURSDAY },
+  { day: 'friday', index: EXCEL_COLUMNS.FRIDAY },
+  { day: 'saturday', index: EXCEL_COLUMNS.SATURDAY },
+  { day: 'sunday', index: EXCEL_COLUMNS.SUNDAY }
+]
+
+/**
+ * ICS labor cost export with a "DOW" sheet: contractor in row 4,
+ * week ending in row 5, headers in row 8 and employees from row 10.
+ */
+export class DowTimesheetAdapter implements TimesheetAdapter {
+  readonly id = 'ics-dow'
+  readonly name = 'ICS Labor Cost (DOW)'
+  readonly description = 'ICS labor cost workbook with a "DOW" sheet'
+
+  detect(workbook: XLSX.WorkBook): boolean {
+    const worksheet = workbook.Sheets[SHEET_NAME]
+    if (!worksheet) return false
+    const headerRow = sheetToRows(worksheet)[EXCEL_HEADERS.HEADER_ROW - 1]
+    return this.hasExpectedHeaders(headerRow)
+  }
+
+  parse(workbook: XLSX.WorkBook): ParsedTimesheet {
+    const result: ParsedTimesheet = {
+      formatId: this.id,
+      formatName: this.name,
+      contractorNumber: '',
+      jobNumber: '',
+      weekEnding: null,
+      rows: [],
+      validation: { warnings: [], errors: [] }
+    }
+
+    const worksheet = workbook.Sheets[SHEET_NAME]
+    if (!worksheet) {
+      result.validation.errors.push(`Sheet "${SHEET_NAME}" not found in Excel file`)
+      return result
+    }
+
+    const rawData = sheetToRows(worksheet)
+    if (rawData.length < EXCEL_HEADERS.DATA_START_ROW - 1) {
+      result.validation.errors.push('Invalid Excel format. File does not have enough rows.')
+      return result
+    }
+
+    if (!this.hasExpectedHeaders(rawData[EXCEL_HEADERS.HEADER_ROW - 1])) {
+      result.validation.errors.push('Invalid Excel format. Header row does not match expected format.')
+      return result
+    }
+
+    // Contractor string (e.g., "5772 LS DOW") holds the job number
+    result.contractorNumber = parseStringValue(rawData[EXCEL_HEADERS.CONTRACTOR_ROW - 1]?.[4])
+    result.jobNumber = extractJobNumber(result.contractorNumber)
+
+    const weekEndingSerial = parseNumericValue(rawData[EXCEL_HEADERS.WEEK_ENDING_ROW - 1]?.[4])
+    if (weekEndingSerial) {
+      result.weekEnding = parseExcelDate(weekEndingSerial)
+    } else {
+      result.validation.errors.push(INVALID_WEEK_ENDING_ERROR)
+    }
+
+    for (let i = EXCEL_HEADERS.DATA_START_ROW - 1; i < rawData.length; i++) {
+      const row = rawData[i]
+      const employeeNumber = parseStringValue(row[EXCEL_COLUMNS.EMPLOYEE_ID])
+
+      // Stop if we hit the Grand Totals row
+      if (employeeNumber === 'Grand Totals' || employeeNumber.toLowerCase().includes('total')) {
+        break
+      }
+
+      if (!employeeNumber || !EMPLOYEE_ID_PATTERN.test(employeeNumber)) {
+        continue
+      }
+
+      const dailyHours: TimesheetEmployeeRow['dailyHours'] = {}
+      for (const { day, index } of DAY_COLUMNS) {
+        const hours = parseNumericValue(row[index])
+        if (hours > 0) dailyHours[day] = hours
+      }
+
+      result.rows.push({
+        rowNumber: i + 1,
+        employeeNumber,
+        name: parseStringValue(row[EXCEL_COLUMNS.NAME]),
+        craftCode: parseStringValue(row[EXCEL_COLUMNS.CRAFT_CODE]),
+        dailyHours,
+        stHours: parseNumericValue(row[EXCEL_COLUMNS.ST_HOURS]),
+        otHours: parseNumericValue(row[EXCEL_COLUMNS.OT_HOURS]),
+        stRate: parseNumericValue(row[EXCEL_COLUMNS.ST_RATE])
+      })
+    }
+
+    return result
+  }
+
+  private hasExpectedHeaders(headerRow: unknown[] | undefined): boolean {
+    return !!headerRow &&
+      parseStringValue(headerRow[EXCEL_COLUMNS.NAME]) === 'Name' &&
+      parseStringValue(headerRow[EXCEL_COLUMNS.ST_HOURS]) === 'StHours'
+  }
+}
@@ -0,0 +1,170 @@
+import * as XLSX from 'xlsx'
+import { DAYS_OF_WEEK } from '@/lib/services/pay-rules'
+import type {
+  ParsedTimesheet,
+  TimesheetAdapter,
+  TimesheetColumnMapping,
+  TimesheetEmployeeRow,
+  TimesheetFormat
+} from './types'
+import {
+  extractJobNumber,
+  INVALID_WEEK_ENDING_ERROR,
+  parseDateValue,
+  parseNumericValue,
+  parseStringValue,
+  sheetToRows
+} from './utils'
+
+// Rows searched for the header row when the format doesn't specify one
+const HEADER_SEARCH_ROWS = 20
+
+const normalizeHeader = (value: unknown) => parseStringValue(value).toLowerCase().replace(/\s+/g, ' ')
+
+/**
+ * Adapter driven by a saved column mapping. Columns are located by header text,
+ * so the same mapping works for Excel and CSV exports.
+ */
+export class MappedTimesheetAdapter implements TimesheetAdapter {
+  readonly id: string
+  readonly name: string
+  readonly description: string
+  private readonly employeeIdPattern: RegExp | null
+
+  constructor(private readonly format: TimesheetFormat) {
+    this.id = format.id
+    this.name = format.name
+    this.description = format.description || 'Saved column mapping'
+    this.employeeIdPattern = format.employee_id_pattern
+      ? new RegExp(format.employee_id_pattern)
+      : null
+  }
+
+  detect(workbook: XLSX.WorkBook): boolean {
+    const rawData = this.getRows(workbook)
+    return rawData !== null && this.findHeader(rawData) !== null
+  }
+
+  parse(workbook: XLSX.WorkBook): ParsedTimesheet {
+    const result: ParsedTimesheet = {
+      formatId: this.id,
+      formatName: this.name,
+      contractorNumber: '',
+      jobNumber: '',
+      weekEnding: null,
+      rows: [],
+      validation: { warnings: [], errors: [] }
+    }
+
+    const rawData = this.getRows(workbook)
+    if (!rawData) {
+      result.validation.errors.push(`Sheet "${this.format.sheet_name}" not found in file`)
+      return result
+    }
+
+    const header = this.findHeader(rawData)
+    if (!header) {
+      result.validation.errors.push(`Header row does not match the "${this.name}" column mapping`)
+      return result
+    }
+
+    const { rowIndex: headerIndex, columns } = header
+    const cell = (row: unknown[], field: keyof TimesheetColumnMapping) =>
+      columns[field] !== undefined ? row[columns[field] as number] : undefined
+
+    for (let i = headerIndex + 1; i < rawData.length; i++) {
+      const row = rawData[i]
+      const employeeNumber = parseStringValue(cell(row, 'employee_number'))
+
+      if (!employeeNumber) continue
+      if (employeeNumber.toLowerCase().includes('total')) break
+      if (this.employeeIdPattern && !this.employeeIdPattern.test(employeeNumber)) continue
+
+      // Week ending and job number come from the first row that has them
+      if (!result.weekEnding && columns.week_ending !== undefined) {
+        result.weekEnding = parseDateValue(cell(row, 'week_ending'))
+      }
+      if (!result.contractorNumber && columns.job_number !== undefined) {
+        result.contractorNumber = parseStringValue(cell(row, 'job_number'))
+        result.jobNumber = extractJobNumber(result.contractorNumber)
+      }
+
+      const dailyHours: TimesheetEmployeeRow['dailyHours'] = {}
+      for (const day of DAYS_OF_WEEK) {
+        const hours = parseNumericValue(cell(row, day))
+        if (hours > 0) dailyHours[day] = hours
+      }
+      const dailyTotal = Object.values(dailyHours).reduce((sum, hours) => sum + (hours || 0), 0)
+
+      // Without ST/OT columns treat all daily hours as straight time; pay rules split them later
+      const stHours = columns.st_hours !== undefined
+        ? parseNumericValue(cell(row, 'st_hours'))
+        : dailyTotal
+      const otHours = parseNumericValue(cell(row, 'ot_hours'))
+
+      const name = columns.name !== undefined
+        ? parseStringValue(cell(row, 'name'))
+        : [parseStringValue(cell(row, 'last_name')), parseStringValue(cell(row, 'first_name'))]
+          .filter(Boolean)
+          .join(', ')
+
+      result.rows.push({
+        rowNumber: i + 1,
+        employeeNumber,
+        name,
+        craftCode: parseStringValue(cell(row, 'craft_code')),
+        dailyHours,
+        stHours,
+        otHours,
+        stRate: parseNumericValue(cell(row, 'rate'))
+      })
+    }
+
+    if (columns.week_ending !== undefined && !result.weekEnding) {
+      result.validation.errors.push(INVALID_WEEK_ENDING_ERROR)
+    }
+    if (result.rows.length === 0) {
+      result.validation.warnings.push('No employee rows found')
+    }
+
+    return result
+  }
+
+  private getRows(workbook: XLSX.WorkBook): unknown[][] | null {
+    const sheetName = this.format.sheet_name || workbook.SheetNames[0]
+    const worksheet = sheetName ? workbook.Sheets[sheetName] : undefined
+    return worksheet ? sheetToRows(worksheet) : null
+  }
+
+  /**
+   * Locate the header row and the column index of every mapped field.
+   * Every mapped header must be present for the row to match.
+   */
+  private findHeader(rawData: unknown[][]): {
+    rowIndex: number
+    columns: Partial<Record<keyof TimesheetColumnMapping, number>>
+  } | null {
+    const mapping = Object.entries(this.format.column_mapping)
+      .filter(([, header]) => !!header) as Array<[keyof TimesheetColumnMapping, string]>
+
+    const candidates = this.format.header_row
+      ? [this.format.header_row - 1]
+      : Array.from({ length: Math.min(HEADER_SEARCH_ROWS, rawData.length) }, (_, i) => i)
+
+    for (const rowIndex of candidates) {
+      const headers = (rawData[rowIndex] || []).map(normalizeHeader)
+      const columns: Partial<Record<keyof TimesheetColumnMapping, number>> = {}
+
+      const allFound = mapping.every(([field, header]) => {
+        const index = headers.indexOf(normalizeHeader(header))
+        if (index === -1) return false
+        columns[field] = index
+        return true
+      })
+
+      if (allFound) return { rowIndex, columns }
+    }
+
+    return null
+  }
+}
@@ -0,0 +1,86 @@
+import * as XLSX from 'xlsx'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { DowTimesheetAdapter } from './DowTimesheetAdapter'
+import { MappedTimesheetAdapter } from './MappedTimesheetAdapter'
+import type { TimesheetAdapter, TimesheetFormat } from './types'
+
+export * from './types'
+export { DowTimesheetAdapter } from './DowTimesheetAdapter'
+export { MappedTimesheetAdapter } from './MappedTimesheetAdapter'
+
+// Built-in layouts, checked before saved column mappings
+const builtInAdapters: TimesheetAdapter[] = [new DowTimesheetAdapter()]
+
+/**
+ * Register an additional built-in timesheet layout
+ */
+export function registerTimesheetAdapter(adapter: TimesheetAdapter) {
+  if (!builtInAdapters.some(existing => existing.id === adapter.id)) {
+    builtInAdapters.push(adapter)
+  }
+}
+
+/**
+ * All adapters: built-in layouts followed by saved column mappings
+ */
+export function getTimesheetAdapters(savedFormats: TimesheetFormat[] = []): TimesheetAdapter[] {
+  return [
+    ...builtInAdapters,
+    ...savedFormats
+      .filter(format => format.is_active)
+      .map(format => new MappedTimesheetAdapter(format))
+  ]
+}
+
+/**
+ * Find an adapter by id, or auto-detect the first adapter that recognizes the workbook
+ */
+export function resolveTimesheetAdapter(
+  workbook: XLSX.WorkBook,
+  savedFormats: TimesheetFormat[] = [],
+  formatId?: string | null
+): TimesheetAdapter | null {
+  const adapters = getTimesheetAdapters(savedFormats)
+
+  if (formatId) {
+    return adapters.find(adapter => adapter.id === formatId) || null
+  }
+
+  return adapters.find(adapter => {
+    try {
+      return adapter.detect(workbook)
+    } catch {
+      return false
+    }
+  }) || null
+}
+
+/**
+ * Read an Excel or CSV timesheet into a workbook
+ */
+export function readTimesheetWorkbook(data: ArrayBuffer | Buffer, fileName: string): XLSX.WorkBook {
+  const isCsv = fileName.toLowerCase().endsWith('.csv')
+  if (isCsv) {
+    const text = new TextDecoder().decode(data)
+    return XLSX.read(text, { type: 'string', raw: false })
+  }
+  return XLSX.read(data, { type: data instanceof ArrayBuffer ? 'array' : 'buffer', cellDates: false })
+}
+
+/**
+ * Fetch saved timesheet column mappings
+ */
+export async function fetchTimesheetFormats(supabase: SupabaseClient): Promise<TimesheetFormat[]> {
+  const { data, error } = await supabase
+    .from('timesheet_formats')
+    .select('*')
+    .eq('is_active', true)
+    .order('name', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching timesheet formats:', error)
+    return []
+  }
+
+  return (data || []) as TimesheetFormat[]
+}
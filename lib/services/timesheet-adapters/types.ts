@@ -0,0 +1,72 @@
+import type * as XLSX from 'xlsx'
+import type { DayOfWeek } from '@/lib/services/pay-rules'
+
+// A single employee row normalized from any timesheet layout
+export interface TimesheetEmployeeRow {
+  rowNumber: number // 1-based row in the source sheet
+  employeeNumber: string
+  name: string // "Last, First" or "First Last"
+  craftCode: string
+  dailyHours: Partial<Record<DayOfWeek, number>>
+  stHours: number
+  otHours: number
+  stRate: number // Rate from the sheet, 0 when the layout has none
+}
+
+export interface ParsedTimesheet {
+  formatId: string
+  formatName: string
+  contractorNumber: string // Raw contractor/job text from the sheet, '' when absent
+  jobNumber: string // Job number extracted from the sheet, '' when absent
+  weekEnding: Date | null
+  rows: TimesheetEmployeeRow[]
+  validation: {
+    warnings: string[]
+    errors: string[]
+  }
+}
+
+export interface TimesheetAdapter {
+  id: string
+  name: string
+  description: string
+  /** Whether the workbook looks like this layout */
+  detect(workbook: XLSX.WorkBook): boolean
+  parse(workbook: XLSX.WorkBook): ParsedTimesheet
+}
+
+// Header names (as they appear in the file) for each field of a saved format
+export interface TimesheetColumnMapping {
+  employee_number: string
+  name?: string
+  first_name?: string
+  last_name?: string
+  craft_code?: string
+  st_hours?: string
+  ot_hours?: string
+  rate?: string
+  week_ending?: string
+  job_number?: string
+  monday?: string
+  tuesday?: string
+  wednesday?: string
+  thursday?: string
+  friday?: string
+  saturday?: string
+  sunday?: string
+}
+
+// Saved per-format column mapping (timesheet_formats table)
+export interface TimesheetFormat {
+  id: string
+  name: string
+  description?: string | null
+  sheet_name: string | null // NULL = first sheet (CSV files have one sheet)
+  header_row: number | null // 1-based; NULL = auto-detect
+  column_mapping: TimesheetColumnMapping
+  employee_id_pattern: string | null // Regex employee numbers must match
+  is_active: boolean
+  created_by?: string | null
+  created_at?: string
+  updated_at?: string
+}
@@ -0,0 +1,53 @@
+import * as XLSX from 'xlsx'
+import { parseExcelDate } from '@/lib/validations/labor-import'
+
+// Reported when a layout's week ending is missing or unreadable; a week ending override replaces it
+export const INVALID_WEEK_ENDING_ERROR = 'Invalid week ending date in file'
+
+// Helper to parse numeric value from a cell
+export function parseNumericValue(value: unknown): number {
+  if (typeof value === 'number') return value
+  if (typeof value === 'string') {
+    const cleaned = value.replace(/[^0-9.-]/g, '')
+    const parsed = parseFloat(cleaned)
+    return isNaN(parsed) ? 0 : parsed
+  }
+  return 0
+}
+
+// Helper to parse string value from a cell
+export function parseStringValue(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  return String(value).trim()
+}
+
+// Helper to parse a date from an Excel serial, Date or date string (CSV)
+export function parseDateValue(value: unknown): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value
+  if (typeof value === 'number' && value > 0) return parseExcelDate(value)
+  if (typeof value === 'string' && value.trim()) {
+    const trimmed = value.trim()
+    if (/^\d+(\.\d+)?$/.test(trimmed)) return parseExcelDate(parseFloat(trimmed))
+    // Treat ISO dates as UTC to match Excel serial parsing
+    const parsed = /^\d{4}-\d{2}-\d{2}$/.test(trimmed)
+      ? new Date(`${trimmed}T00:00:00Z`)
+      : new Date(`${trimmed} UTC`)
+    return isNaN(parsed.getTime()) ? null : parsed
+  }
+  return null
+}
+
+// Read a worksheet as an array of rows
+export function sheetToRows(worksheet: XLSX.WorkSheet): unknown[][] {
+  return XLSX.utils.sheet_to_json(worksheet, {
+    header: 1,
+    raw: true,
+    defval: ''
+  }) as unknown[][]
+}
+
+// Extract a leading job number from a contractor string (e.g., "5772 LS DOW" -> "5772")
+export function extractJobNumber(value: string): string {
+  const match = value.match(/^(\d+)/)
+  return match ? match[1] : ''
+}
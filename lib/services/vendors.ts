@@ -0,0 +1,322 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { fetchAllRows } from './paged-query'
+
+export interface VendorAlias {
+  id: string
+  alias: string
+  alias_key: string
+}
+
+export interface Vendor {
+  id: string
+  name: string
+  is_active: boolean
+  notes: string | null
+  aliases: VendorAlias[]
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+// Trailing company designators that vary between spellings of one vendor
+const COMPANY_SUFFIXES = new Set(['inc', 'incorporated', 'llc', 'ltd', 'limited', 'co', 'corp', 'corporation', 'company', 'lp', 'llp'])
+
+/**
+ * A vendor name as the key names are matched by: case, punctuation and spacing
+ * ignored, '&' read as 'and', and trailing Inc/LLC/Corp style suffixes dropped
+ */
+export function vendorKey(name: string | null | undefined): string {
+  const words = (name || '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+
+  while (words.length > 1 && COMPANY_SUFFIXES.has(words[words.length - 1])) {
+    words.pop()
+  }
+  return words.join(' ')
+}
+
+/**
+ * The vendor a vendor name refers to, by the vendor's own name or one of its aliases
+ */
+export function resolveVendor(name: string | null | undefined, vendors: Vendor[]): Vendor | null {
+  const key = vendorKey(name)
+  if (!key) return null
+  return vendors.find(vendor => vendorKey(vendor.name) === key) ||
+    vendors.find(vendor => vendor.aliases.some(alias => alias.alias_key === key)) ||
+    null
+}
+
+/**
+ * The first of a vendor's name and aliases that already refers to another vendor
+ */
+export function findVendorConflict(names: string[], vendors: Vendor[], vendorId?: string): string | null {
+  return names.find(name => {
+    const match = resolveVendor(name, vendors)
+    return match !== null && match.id !== vendorId
+  }) || null
+}
+
+/**
+ * vendor_aliases rows for a vendor: one per distinct key, leaving out spellings of its name
+ */
+export function vendorAliasRows(vendorId: string, name: string, aliases: string[]) {
+  const keys = new Set([vendorKey(name)])
+  return aliases.flatMap(alias => {
+    const key = vendorKey(alias)
+    if (!key || keys.has(key)) return []
+    keys.add(key)
+    return [{ vendor_id: vendorId, alias: alias.trim(), alias_key: key }]
+  })
+}
+
+export async function fetchVendors(supabase: SupabaseClient): Promise<Vendor[]> {
+  const { data, error } = await supabase
+    .from('vendors')
+    .select('id, name, is_active, notes, aliases:vendor_aliases(id, alias, alias_key)')
+    .order('name')
+
+  if (error) throw error
+  return (data || []).map(vendor => ({
+    ...vendor,
+    aliases: [...(vendor.aliases || [])].sort((a, b) => a.alias.localeCompare(b.alias))
+  })) as Vendor[]
+}
+
+/**
+ * Resolve every PO's vendor name against the vendor master after vendors or aliases
+ * change. Matched POs take the vendor and its name; POs nothing matches are left alone.
+ */
+export async function assignPurchaseOrderVendors(supabase: SupabaseClient): Promise<{ updated: number }> {
+  const [vendors, purchaseOrders] = await Promise.all([
+    fetchVendors(supabase),
+    fetchAllRows((from, to) => supabase
+      .from('purchase_orders')
+      .select('id, vendor_id, vendor_name')
+      .order('id')
+      .range(from, to))
+  ])
+
+  // Group changes so each vendor is one update
+  const changes = new Map<string, string[]>()
+  purchaseOrders.forEach(po => {
+    const vendor = resolveVendor(po.vendor_name, vendors)
+    if (!vendor || (vendor.id === po.vendor_id && vendor.name === po.vendor_name)) return
+    changes.set(vendor.id, [...(changes.get(vendor.id) || []), po.id])
+  })
+
+  const vendorById = new Map(vendors.map(vendor => [vendor.id, vendor]))
+  let updated = 0
+  for (const [vendorId, ids] of changes) {
+    // Keep the id lists within URL limits
+    for (let i = 0; i < ids.length; i += 200) {
+      const { error: updateError } = await supabase
+        .from('purchase_orders')
+        .update({ vendor_id: vendorId, vendor_name: vendorById.get(vendorId)!.name })
+        .in('id', ids.slice(i, i + 200))
+      if (updateError) throw updateError
+    }
+    updated += ids.length
+  }
+
+  return { updated }
+}
+
+export interface UnassignedVendorName {
+  vendor_name: string
+  purchase_orders: number
+  committed_amount: number
+}
+
+/**
+ * PO vendor names no vendor or alias matches, most committed first
+ */
+export async function fetchUnassignedVendorNames(supabase: SupabaseClient): Promise<UnassignedVendorName[]> {
+  const purchaseOrders = await fetchAllRows((from, to) => supabase
+    .from('purchase_orders')
+    .select('vendor_name, committed_amount, status')
+    .is('vendor_id', null)
+    .order('id')
+    .range(from, to))
+
+  const byName = new Map<string, UnassignedVendorName>()
+  purchaseOrders.forEach(po => {
+    const name = (po.vendor_name || '').trim()
+    if (!name) return
+    const entry = byName.get(name) || { vendor_name: name, purchase_orders: 0, committed_amount: 0 }
+    entry.purchase_orders++
+    if (po.status !== 'cancelled') entry.committed_amount = round(entry.committed_amount + Number(po.committed_amount || 0))
+    byName.set(name, entry)
+  })
+
+  return [...byName.values()].sort((a, b) => b.committed_amount - a.committed_amount || a.vendor_name.localeCompare(b.vendor_name))
+}
+
+// A PO as vendor analytics reads it
+export interface VendorPurchaseOrder {
+  id: string
+  project_id: string
+  vendor_id: string | null
+  vendor_name: string | null
+  status: string
+  committed_amount: number | null
+  forecast_amount: number | null
+  original_amount: number | null
+  invoiced_amount: number | null
+  order_date: string | null
+  created_at: string
+}
+
+// A ledger invoice or an ICS invoice line, which has no status
+export interface VendorInvoiceDate {
+  purchase_order_id: string
+  invoice_date: string
+  status?: string
+}
+
+export interface VendorAnalytics {
+  // Null for vendor names not in the vendor master
+  vendorId: string | null
+  vendorName: string
+  projectCount: number
+  purchaseOrderCount: number
+  committed: number
+  invoiced: number
+  remaining: number
+  originalValue: number
+  // Final cost forecast: the entered forecast, else the committed amount
+  finalValue: number
+  growth: number
+  growthPercent: number | null
+  // Average days from PO order date to its first invoice or ICS invoice line, over invoiced POs
+  averageInvoiceLagDays: number | null
+  invoicedPurchaseOrders: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Spend, commitment, invoice lag and PO growth by vendor across projects. Cancelled
+ * POs and invoices are left out. POs without a vendor group by their vendor name.
+ */
+export function calculateVendorAnalytics(
+  purchaseOrders: VendorPurchaseOrder[],
+  invoices: VendorInvoiceDate[]
+): VendorAnalytics[] {
+  const firstInvoiceDate = new Map<string, string>()
+  invoices.forEach(invoice => {
+    if (invoice.status === 'cancelled') return
+    const first = firstInvoiceDate.get(invoice.purchase_order_id)
+    if (!first || invoice.invoice_date < first) firstInvoiceDate.set(invoice.purchase_order_id, invoice.invoice_date)
+  })
+
+  const groups = new Map<string, {
+    analytics: VendorAnalytics
+    projects: Set<string>
+    lagDays: number[]
+  }>()
+
+  purchaseOrders.forEach(po => {
+    if (po.status === 'cancelled') return
+    const name = (po.vendor_name || '').trim() || 'Unknown vendor'
+    const key = po.vendor_id || `name:${vendorKey(name)}`
+    const group = groups.get(key) || {
+      analytics: {
+        vendorId: po.vendor_id,
+        vendorName: name,
+        projectCount: 0,
+        purchaseOrderCount: 0,
+        committed: 0,
+        invoiced: 0,
+        remaining: 0,
+        originalValue: 0,
+        finalValue: 0,
+        growth: 0,
+        growthPercent: null,
+        averageInvoiceLagDays: null,
+        invoicedPurchaseOrders: 0
+      },
+      projects: new Set<string>(),
+      lagDays: []
+    }
+
+    const committed = Number(po.committed_amount || 0)
+    const analytics = group.analytics
+    analytics.purchaseOrderCount++
+    analytics.committed += committed
+    analytics.invoiced += Number(po.invoiced_amount || 0)
+    analytics.originalValue += Number(po.original_amount ?? committed)
+    analytics.finalValue += Number(po.forecast_amount || 0) || committed
+    group.projects.add(po.project_id)
+
+    const invoiceDate = firstInvoiceDate.get(po.id)
+    if (invoiceDate) {
+      const orderDate = po.order_date || po.created_at.split('T')[0]
+      const lag = Math.round((new Date(invoiceDate).getTime() - new Date(orderDate).getTime()) / DAY_MS)
+      group.lagDays.push(Math.max(0, lag))
+    }
+
+    groups.set(key, group)
+  })
+
+  return [...groups.values()]
+    .map(({ analytics, projects, lagDays }) => {
+      const growth = analytics.finalValue - analytics.originalValue
+      return {
+        ...analytics,
+        projectCount: projects.size,
+        committed: round(analytics.committed),
+        invoiced: round(analytics.invoiced),
+        remaining: round(analytics.committed - analytics.invoiced),
+        originalValue: round(analytics.originalValue),
+        finalValue: round(analytics.finalValue),
+        growth: round(growth),
+        growthPercent: analytics.originalValue > 0 ? round((growth / analytics.originalValue) * 100) : null,
+        averageInvoiceLagDays: lagDays.length > 0
+          ? Math.round((lagDays.reduce((sum, days) => sum + days, 0) / lagDays.length) * 10) / 10
+          : null,
+        invoicedPurchaseOrders: lagDays.length
+      }
+    })
+    .sort((a, b) => b.committed - a.committed || a.vendorName.localeCompare(b.vendorName))
+}
+
+/**
+ * Vendor analytics over the POs of every active project
+ */
+export async function fetchVendorAnalytics(supabase: SupabaseClient): Promise<VendorAnalytics[]> {
+  const purchaseOrders = await fetchAllRows((from, to) => supabase
+    .from('purchase_orders')
+    .select('id, project_id, vendor_id, vendor_name, status, committed_amount, forecast_amount, original_amount, invoiced_amount, order_date, created_at, projects!inner(deleted_at)')
+    .is('projects.deleted_at', null)
+    .order('id')
+    .range(from, to))
+
+  // Invoice lag counts ICS invoice lines as well as ledger invoices
+  const poIds = purchaseOrders.map(po => po.id)
+  const invoices: VendorInvoiceDate[] = []
+  // Keep the id lists within URL limits
+  for (let i = 0; i < poIds.length; i += 200) {
+    const ids = poIds.slice(i, i + 200)
+    const [ledgerInvoices, lines] = await Promise.all([
+      fetchAllRows<VendorInvoiceDate>((from, to) => supabase
+        .from('invoices')
+        .select('purchase_order_id, invoice_date, status')
+        .in('purchase_order_id', ids)
+        .order('id')
+        .range(from, to)),
+      fetchAllRows<VendorInvoiceDate>((from, to) => supabase
+        .from('po_line_items')
+        .select('purchase_order_id, invoice_date')
+        .in('purchase_order_id', ids)
+        .not('invoice_date', 'is', null)
+        .order('id')
+        .range(from, to))
+    ])
+    invoices.push(...ledgerInvoices, ...lines)
+  }
+
+  return calculateVendorAnalytics(purchaseOrders as unknown as VendorPurchaseOrder[], invoices)
+}
@@ -0,0 +1,24 @@
+import { z } from 'zod'
+
+export const cashFlowIntervalSchema = z.enum(['week', 'month']).default('month')
+
+// Project cash-flow settings schema
+export const cashFlowSettingsSchema = z.object({
+  retention_percent: z.number().min(0).max(100),
+  billing_lag_days: z.number().int().min(0).max(365),
+  retention_release_days: z.number().int().min(0).max(730),
+  payroll_lag_days: z.number().int().min(0).max(60),
+  default_po_terms_days: z.number().int().min(0).max(365),
+  billed_to_date: z.number().min(0)
+})
+
+// Billing schedule entry schema
+export const billingScheduleEntrySchema = z.object({
+  billing_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Billing date must be YYYY-MM-DD'),
+  amount: z.number().min(0, 'Amount cannot be negative'),
+  description: z.string().trim().max(200).nullable().optional(),
+  change_order_id: z.string().uuid('Invalid change order ID').nullable().optional()
+})
+
+export type CashFlowSettingsFormData = z.infer<typeof cashFlowSettingsSchema>
+export type BillingScheduleEntryFormData = z.infer<typeof billingScheduleEntrySchema>
@@ -0,0 +1,19 @@
+import { z } from 'zod'
+
+const codeSchema = z.string().trim().max(50).nullable().optional()
+  .transform(value => (value ? value : null))
+
+// Cost code mapping rule schema
+export const costCodeMappingSchema = z.object({
+  scope: z.enum(['project', 'company']).default('project'),
+  cost_center: codeSchema,
+  sub_cc: codeSchema,
+  subsub_cc: codeSchema,
+  budget_category: z.enum(['MATERIALS', 'EQUIPMENT', 'SUBCONTRACTS', 'SMALL TOOLS & CONSUMABLES']),
+  description: z.string().trim().max(200).nullable().optional()
+}).refine(
+  data => data.cost_center || data.sub_cc || data.subsub_cc,
+  { message: 'Enter a cost center, Sub CC or SubSub CC', path: ['cost_center'] }
+)
+
+export type CostCodeMappingFormData = z.infer<typeof costCodeMappingSchema>
@@ -0,0 +1,16 @@
+import { z } from 'zod'
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD')
+
+// Forecast accuracy report query
+export const forecastAccuracyQuerySchema = z.object({
+  lag_weeks: z.coerce.number().int().min(1).max(26).default(4),
+  from: dateSchema.optional(),
+  to: dateSchema.optional(),
+  project_id: z.string().uuid('Invalid project ID').optional()
+}).refine(
+  query => !query.from || !query.to || query.from <= query.to,
+  { message: 'From must be on or before to', path: ['from'] }
+)
+
+export type ForecastAccuracyQuery = z.infer<typeof forecastAccuracyQuerySchema>
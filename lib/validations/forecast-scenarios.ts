@@ -0,0 +1,32 @@
+import { z } from 'zod'
+
+// Scenario creation schema; copies the live forecast unless based on another scenario
+export const forecastScenarioSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().trim().max(1000).nullable().optional(),
+  based_on_scenario_id: z.string().uuid('Invalid scenario ID').nullable().optional()
+})
+
+export const scenarioHeadcountSchema = z.object({
+  craft_type_id: z.string().uuid('Invalid craft type ID'),
+  week_ending: z.string().regex(/^\d{4}-\d{2}-\d{2}/, 'Expected YYYY-MM-DD'),
+  headcount: z.number().min(0, 'Headcount cannot be negative').max(1000),
+  avg_weekly_hours: z.number().min(0).max(100).default(50)
+})
+
+export const scenarioPOForecastSchema = z.object({
+  purchase_order_id: z.string().uuid('Invalid purchase order ID'),
+  forecast_amount: z.number().min(0, 'Forecast cannot be negative')
+})
+
+// Scenario update schema; headcounts and PO forecasts are upserted, not replaced
+export const updateForecastScenarioSchema = forecastScenarioSchema
+  .omit({ based_on_scenario_id: true })
+  .partial()
+  .extend({
+    headcounts: z.array(scenarioHeadcountSchema).max(5000).optional(),
+    po_forecasts: z.array(scenarioPOForecastSchema).max(5000).optional()
+  })
+
+export type ForecastScenarioFormData = z.infer<typeof forecastScenarioSchema>
+export type UpdateForecastScenarioData = z.infer<typeof updateForecastScenarioSchema>
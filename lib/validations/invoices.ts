@@ -0,0 +1,28 @@
+import { z } from 'zod'
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD')
+
+// Vendor invoice schema
+export const invoiceSchema = z.object({
+  invoice_number: z.string().trim().min(1, 'Invoice number is required').max(100),
+  invoice_date: dateSchema,
+  amount: z.number().min(0, 'Amount cannot be negative'),
+  status: z.enum(['pending', 'approved', 'paid', 'cancelled']).default('pending'),
+  due_date: dateSchema.nullable().optional(),
+  payment_date: dateSchema.nullable().optional(),
+  payment_terms: z.string().trim().max(50).nullable().optional(),
+  notes: z.string().trim().max(1000).nullable().optional()
+})
+
+export const invoiceUpdateSchema = invoiceSchema.partial().refine(
+  data => Object.keys(data).length > 0,
+  { message: 'No changes provided' }
+)
+
+export const invoiceListQuerySchema = z.object({
+  project_id: z.string().uuid().optional(),
+  purchase_order_id: z.string().uuid().optional(),
+  status: z.enum(['pending', 'approved', 'paid', 'cancelled']).optional()
+})
+
+export type InvoiceFormData = z.infer<typeof invoiceSchema>
@@ -133,6 +133,21 @@ export const headcountBatchSchema = z.object({
   }))
 })
 
+// Generate a draft headcount forecast from the budget's remaining hours
+export const headcountCurveSchema = z.object({
+  project_id: z.string().uuid('Invalid project ID'),
+  curve: z.enum(['flat', 'front_loaded', 'back_loaded', 's_curve', 'custom']),
+  custom_profile: z.array(z.number().min(0)).min(2).max(104).optional(),
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD').optional(),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD').optional(),
+  hours_per_person: z.number().positive().max(100).default(50),
+  // Return the curve without writing it
+  preview: z.boolean().default(false)
+}).refine(
+  data => data.curve !== 'custom' || (data.custom_profile && data.custom_profile.some(weight => weight > 0)),
+  { message: 'A custom curve needs a profile with at least one positive weight', path: ['custom_profile'] }
+)
+
 // Query schemas
 export const laborActualQuerySchema = z.object({
   page: z.string().transform(Number).default('1'),
@@ -240,5 +255,6 @@ export type WeeklyActualBatchData = z.infer<typeof weeklyActualBatchSchema>
 export type HeadcountForecastData = z.infer<typeof headcountForecastSchema>
 export type HeadcountFormData = z.infer<typeof headcountFormSchema>
 export type HeadcountBatchData = z.infer<typeof headcountBatchSchema>
+export type HeadcountCurveData = z.infer<typeof headcountCurveSchema>
 export type LaborActualQuery = z.infer<typeof laborActualQuerySchema>
 export type HeadcountQuery = z.infer<typeof headcountQuerySchema>
\ No newline at end of file
@@ -27,6 +27,8 @@ export const employeeActualSchema = z.object({
   ot_hours: z.number().min(0, 'OT hours must be non-negative'),
   st_wages: z.number().min(0, 'ST wages must be non-negative'),
   ot_wages: z.number().min(0, 'OT wages must be non-negative'),
+  dt_hours: z.number().min(0, 'DT hours must be non-negative').optional(),
+  dt_wages: z.number().min(0, 'DT wages must be non-negative').optional(),
   daily_hours: z.record(z.string(), z.number()).optional()
 })
 
@@ -130,10 +132,62 @@ export const laborImportResultSchema = z.object({
     suggested_name: z.string(),
     default_rate: z.number().optional()
   })).optional(),
-  employeeCount: z.number().optional()
+  employeeCount: z.number().optional(),
+  // Duplicate/overlap handling chosen for this import
+  conflictStrategy: z.enum(['merge', 'replace', 'skip']).optional(),
+  duplicateOf: z.string().optional(),
+  removed: z.number().optional(),
+  hoursSplit: z.object({
+    stHours: z.number(),
+    otHours: z.number(),
+    dtHours: z.number()
+  }).optional()
+})
+
+// Saved timesheet format (column mapping) schema
+const headerName = z.string().trim().min(1).max(100).optional()
+
+export const timesheetFormatSchema = z.object({
+  name: z.string().trim().min(1, 'Format name is required').max(100),
+  description: z.string().max(500).optional(),
+  sheet_name: z.string().trim().max(100).nullable().optional(),
+  header_row: z.number().int().positive().nullable().optional(),
+  employee_id_pattern: z.string().max(100).nullable().optional().refine(pattern => {
+    if (!pattern) return true
+    try {
+      new RegExp(pattern)
+      return true
+    } catch {
+      return false
+    }
+  }, 'Employee ID pattern must be a valid regular expression'),
+  column_mapping: z.object({
+    employee_number: z.string().trim().min(1, 'Employee number column is required').max(100),
+    name: headerName,
+    first_name: headerName,
+    last_name: headerName,
+    craft_code: headerName,
+    st_hours: headerName,
+    ot_hours: headerName,
+    rate: headerName,
+    week_ending: headerName,
+    job_number: headerName,
+    monday: headerName,
+    tuesday: headerName,
+    wednesday: headerName,
+    thursday: headerName,
+    friday: headerName,
+    saturday: headerName,
+    sunday: headerName
+  }).refine(
+    mapping => !!(mapping.st_hours || mapping.monday || mapping.tuesday || mapping.wednesday ||
+      mapping.thursday || mapping.friday || mapping.saturday || mapping.sunday),
+    'Map either the ST hours column or the daily hours columns'
+  )
 })
 
 // Types
+export type TimesheetFormatData = z.infer<typeof timesheetFormatSchema>
 export type EmployeeActualData = z.infer<typeof employeeActualSchema>
 export type NewEmployeeData = z.infer<typeof newEmployeeSchema>
 export type BatchEmployeeData = z.infer<typeof batchEmployeeSchema>
@@ -0,0 +1,27 @@
+import { z } from 'zod'
+
+const dayPremiumSchema = z.enum(['none', 'ot', 'dt'])
+
+// Pay rule creation schema
+export const payRuleSchema = z.object({
+  scope: z.enum(['project', 'company']).default('project'),
+  craft_type_id: z.string().uuid('Invalid craft type ID').nullable().optional(),
+  name: z.string().min(1, 'Name is required').max(100),
+  daily_ot_threshold: z.number().min(0).max(24).nullable().optional(),
+  daily_dt_threshold: z.number().min(0).max(24).nullable().optional(),
+  weekly_ot_threshold: z.number().min(0).max(168).nullable().optional(),
+  ot_multiplier: z.number().min(1).max(5).default(1.5),
+  dt_multiplier: z.number().min(1).max(5).default(2),
+  saturday_premium: dayPremiumSchema.default('none'),
+  sunday_premium: dayPremiumSchema.default('none')
+})
+
+// Pay rule update schema
+export const updatePayRuleSchema = payRuleSchema
+  .omit({ scope: true, craft_type_id: true })
+  .partial()
+  .extend({
+    is_active: z.boolean().optional()
+  })
+
+export type PayRuleFormData = z.infer<typeof payRuleSchema>
@@ -0,0 +1,14 @@
+import { z } from 'zod'
+
+// PO risk rule schema
+export const poRiskRuleSchema = z.object({
+  name: z.string().trim().min(1, 'Rule name is required').max(100),
+  rule_type: z.enum(['invoiced_percent', 'forecast_over_committed', 'no_invoice_activity', 'past_expected_end']),
+  threshold: z.number().min(0).max(100000),
+  risk_status: z.enum(['at-risk', 'over-budget']),
+  is_active: z.boolean().default(true)
+})
+
+export const poRiskRuleUpdateSchema = poRiskRuleSchema.partial()
+
+export type PORiskRuleFormData = z.infer<typeof poRiskRuleSchema>
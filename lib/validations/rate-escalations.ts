@@ -0,0 +1,19 @@
+import { z } from 'zod'
+
+// Rate escalation creation schema
+export const rateEscalationSchema = z.object({
+  scope: z.enum(['project', 'company']).default('project'),
+  craft_type_id: z.string().uuid('Invalid craft type ID').nullable().optional(),
+  name: z.string().min(1, 'Name is required').max(100),
+  effective_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Effective date must be YYYY-MM-DD'),
+  escalation_type: z.enum(['percent', 'amount', 'rate']),
+  value: z.number()
+}).refine(
+  data => data.escalation_type !== 'percent' || data.value > -100,
+  { message: 'Percent increase must be greater than -100', path: ['value'] }
+).refine(
+  data => data.escalation_type !== 'rate' || data.value > 0,
+  { message: 'Rate must be greater than 0', path: ['value'] }
+)
+
+export type RateEscalationFormData = z.infer<typeof rateEscalationSchema>
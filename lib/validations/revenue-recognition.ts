@@ -0,0 +1,24 @@
+import { z } from 'zod'
+
+export const reportingMonthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Reporting month must be YYYY-MM')
+
+// One project's row on the monthly forecast sheet
+export const monthlyForecastEntrySchema = z.object({
+  project_id: z.string().uuid('Invalid project ID'),
+  percent_complete: z.number().min(0).max(100),
+  current_month_revenue: z.number(),
+  next_month_revenue: z.number(),
+  plus_two_month_revenue: z.number(),
+  remaining_backlog: z.number(),
+  notes: z.string().trim().max(1000).nullable().optional(),
+  // Required by the API when any figure differs from the calculation
+  adjustment_reason: z.string().trim().max(1000).nullable().optional()
+})
+
+export const monthlyForecastSheetSchema = z.object({
+  reporting_month: reportingMonthSchema,
+  forecasts: z.array(monthlyForecastEntrySchema).min(1, 'No forecasts to save')
+})
+
+export type MonthlyForecastEntryFormData = z.infer<typeof monthlyForecastEntrySchema>
+export type MonthlyForecastSheetFormData = z.infer<typeof monthlyForecastSheetSchema>
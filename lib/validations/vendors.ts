@@ -0,0 +1,21 @@
+import { z } from 'zod'
+
+const aliasesSchema = z.array(z.string().trim().min(1).max(255)).max(50)
+
+// Vendor master schema
+export const vendorSchema = z.object({
+  name: z.string().trim().min(1, 'Vendor name is required').max(255),
+  notes: z.string().trim().max(1000).nullable().optional(),
+  aliases: aliasesSchema.default([])
+})
+
+export const vendorUpdateSchema = z.object({
+  name: z.string().trim().min(1, 'Vendor name is required').max(255).optional(),
+  is_active: z.boolean().optional(),
+  notes: z.string().trim().max(1000).nullable().optional(),
+  // Replaces the vendor's aliases
+  aliases: aliasesSchema.optional()
+})
+
+export type VendorFormData = z.infer<typeof vendorSchema>
+export type VendorUpdateFormData = z.infer<typeof vendorUpdateSchema>
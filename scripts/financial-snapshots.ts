@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+/**
+ * Scheduled financial snapshots
+ *
+ * Takes a snapshot of every active project plus the company roll-up for a date.
+ * Scopes already snapshotted for the date, or in a closed accounting period, are
+ * skipped, so it is safe to re-run.
+ *
+ * Usage:
+ *   pnpm snapshots:financial                      # today (cron, e.g. weekly)
+ *   pnpm snapshots:financial --date 2025-08-31    # a specific date
+ */
+import dotenv from 'dotenv'
+import path from 'path'
+import { createAdminClient } from '../lib/supabase/admin'
+import { createScheduledSnapshots } from '../lib/services/financial-snapshot'
+
+// Load environment variables
+dotenv.config({ path: path.resolve(process.cwd(), '.env.local') })
+
+function snapshotDateArg(): string {
+  const index = process.argv.indexOf('--date')
+  const date = index >= 0 ? process.argv[index + 1] : undefined
+  if (!date) return new Date().toISOString().split('T')[0]
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new Error(`Invalid --date ${date}, expected YYYY-MM-DD`)
+  }
+  return date
+}
+
+async function main() {
+  const snapshotDate = snapshotDateArg()
+  const supabase = createAdminClient()
+  console.log(`Taking financial snapshots for ${snapshotDate}`)
+
+  const result = await createScheduledSnapshots(supabase, snapshotDate)
+
+  console.log(`Created ${result.created}, skipped ${result.skipped} already taken or in a closed period`)
+  result.failed.forEach(failure => {
+    console.error(`  Failed ${failure.projectId ? `project ${failure.projectId}` : 'company roll-up'}: ${failure.error}`)
+  })
+
+  if (result.failed.length > 0) process.exit(1)
+}
+
+main().catch(error => {
+  console.error('Financial snapshots failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+/**
+ * Background import worker
+ *
+ * Processes queued imports from the import_jobs table (large PO logs and
+ * budget workbooks uploaded through the import routes).
+ *
+ * Usage:
+ *   pnpm worker:imports          # keep polling for jobs
+ *   pnpm worker:imports --once   # drain the queue and exit (cron)
+ */
+import dotenv from 'dotenv'
+import path from 'path'
+import os from 'os'
+import { createAdminClient } from '../lib/supabase/admin'
+import { processNextImportJob } from '../lib/services/import-job-worker'
+
+// Load environment variables
+dotenv.config({ path: path.resolve(process.cwd(), '.env.local') })
+
+const POLL_INTERVAL_MS = 2000
+
+const workerId = `${os.hostname()}-${process.pid}`
+const runOnce = process.argv.includes('--once')
+let stopping = false
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+async function main() {
+  const supabase = createAdminClient()
+  console.log(`Import worker ${workerId} started${runOnce ? ' (drain mode)' : ''}`)
+
+  while (!stopping) {
+    let processed = false
+    try {
+      processed = await processNextImportJob(supabase, workerId)
+    } catch (error) {
+      console.error('Import worker error:', error)
+    }
+
+    if (!processed) {
+      if (runOnce) break
+      await sleep(POLL_INTERVAL_MS)
+    }
+  }
+
+  console.log(`Import worker ${workerId} stopped`)
+}
+
+// Finish the current job before exiting
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    console.log(`Received ${signal}, stopping after the current job...`)
+    stopping = true
+  })
+}
+
+main().catch(error => {
+  console.error('Import worker failed:', error)
+  process.exit(1)
+})
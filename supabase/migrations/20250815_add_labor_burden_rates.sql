@@ -0,0 +1,177 @@
+-- Add configurable labor burden rates
+-- Replaces the hardcoded 28% burden with rates that can be set company-wide
+-- or per project, optionally per labor category, with effective dates.
+-- Changing a rate recalculates the burden on affected labor actuals.
+
+CREATE TABLE IF NOT EXISTS public.labor_burden_rates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- NULL project_id = company-wide default
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  -- NULL category = applies to all categories
+  category VARCHAR(20) CHECK (category IN ('Direct', 'Indirect', 'Staff')),
+  burden_rate DECIMAL(5,4) NOT NULL CHECK (burden_rate >= 0 AND burden_rate < 10),
+  effective_date DATE NOT NULL,
+  description TEXT,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One rate per scope and effective date
+CREATE UNIQUE INDEX IF NOT EXISTS idx_labor_burden_rates_scope
+  ON public.labor_burden_rates (
+    COALESCE(project_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(category, ''),
+    effective_date
+  );
+CREATE INDEX IF NOT EXISTS idx_labor_burden_rates_project ON public.labor_burden_rates(project_id);
+CREATE INDEX IF NOT EXISTS idx_labor_burden_rates_effective ON public.labor_burden_rates(effective_date);
+
+-- Seed the company-wide default so existing behaviour is unchanged
+INSERT INTO public.labor_burden_rates (project_id, category, burden_rate, effective_date, description)
+SELECT NULL, NULL, 0.28, DATE '2000-01-01', 'Company default burden rate'
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.labor_burden_rates WHERE project_id IS NULL AND category IS NULL
+);
+
+-- Resolve the burden rate for a project, category and date.
+-- Most specific scope wins: project+category, project, company+category, company.
+-- Within a scope the latest effective_date on or before p_date wins.
+CREATE OR REPLACE FUNCTION get_labor_burden_rate(
+  p_project_id UUID,
+  p_category VARCHAR,
+  p_date DATE
+)
+RETURNS DECIMAL(5,4) AS $$
+DECLARE
+  v_rate DECIMAL(5,4);
+BEGIN
+  SELECT lbr.burden_rate
+  INTO v_rate
+  FROM public.labor_burden_rates lbr
+  WHERE (lbr.project_id = p_project_id OR lbr.project_id IS NULL)
+    AND (lbr.category = INITCAP(p_category) OR lbr.category IS NULL)
+    AND lbr.effective_date <= p_date
+  ORDER BY
+    (lbr.project_id IS NOT NULL) DESC,
+    (lbr.category IS NOT NULL) DESC,
+    lbr.effective_date DESC
+  LIMIT 1;
+
+  RETURN COALESCE(v_rate, 0.28);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Recalculate burden on labor actuals for a project (or all projects when NULL)
+-- from a given week onward. Generated burden columns on labor_employee_actuals
+-- follow burden_rate automatically; labor_actuals totals are rebuilt here.
+CREATE OR REPLACE FUNCTION recalculate_labor_burden(
+  p_project_id UUID DEFAULT NULL,
+  p_from_date DATE DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  v_employee_rows INTEGER;
+  v_category_rows INTEGER;
+BEGIN
+  UPDATE public.labor_employee_actuals lea
+  SET
+    burden_rate = get_labor_burden_rate(lea.project_id, e.category, lea.week_ending),
+    updated_at = NOW()
+  FROM public.employees e
+  WHERE e.id = lea.employee_id
+    AND (p_project_id IS NULL OR lea.project_id = p_project_id)
+    AND (p_from_date IS NULL OR lea.week_ending >= p_from_date)
+    AND lea.burden_rate IS DISTINCT FROM get_labor_burden_rate(lea.project_id, e.category, lea.week_ending);
+
+  GET DIAGNOSTICS v_employee_rows = ROW_COUNT;
+
+  -- labor_actuals holds one row per category (default craft type) per week
+  WITH employee_totals AS (
+    SELECT
+      lea.project_id,
+      lea.week_ending,
+      e.category,
+      SUM(lea.st_burden_amount) AS burden_amount
+    FROM public.labor_employee_actuals lea
+    JOIN public.employees e ON e.id = lea.employee_id
+    WHERE (p_project_id IS NULL OR lea.project_id = p_project_id)
+      AND (p_from_date IS NULL OR lea.week_ending >= p_from_date)
+    GROUP BY lea.project_id, lea.week_ending, e.category
+  )
+  UPDATE public.labor_actuals la
+  SET
+    burden_rate = get_labor_burden_rate(la.project_id, ct.category, la.week_ending),
+    burden_amount = COALESCE(et.burden_amount, 0),
+    actual_cost_with_burden = la.actual_cost + COALESCE(et.burden_amount, 0),
+    updated_at = NOW()
+  FROM public.craft_types ct, employee_totals et
+  WHERE ct.id = la.craft_type_id
+    AND et.project_id = la.project_id
+    AND et.week_ending = la.week_ending
+    AND LOWER(et.category) = LOWER(ct.category)
+    AND (p_project_id IS NULL OR la.project_id = p_project_id)
+    AND (p_from_date IS NULL OR la.week_ending >= p_from_date);
+
+  GET DIAGNOSTICS v_category_rows = ROW_COUNT;
+
+  RETURN json_build_object(
+    'project_id', p_project_id,
+    'from_date', p_from_date,
+    'employee_records_updated', v_employee_rows,
+    'category_records_updated', v_category_rows,
+    'recalculated_at', NOW()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Recalculate affected weeks whenever a rate is added, changed or removed
+CREATE OR REPLACE FUNCTION recalculate_labor_burden_on_rate_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM recalculate_labor_burden(OLD.project_id, OLD.effective_date);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM recalculate_labor_burden(NEW.project_id, NEW.effective_date);
+    RETURN NEW;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER recalculate_labor_burden_on_rate_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.labor_burden_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION recalculate_labor_burden_on_rate_change();
+
+CREATE TRIGGER update_labor_burden_rates_updated_at
+  BEFORE UPDATE ON public.labor_burden_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS policies
+ALTER TABLE public.labor_burden_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view burden rates" ON public.labor_burden_rates
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can manage burden rates" ON public.labor_burden_rates
+  FOR ALL
+  USING (auth.uid() IS NOT NULL)
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.labor_burden_rates TO authenticated;
+GRANT EXECUTE ON FUNCTION get_labor_burden_rate(UUID, VARCHAR, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION recalculate_labor_burden(UUID, DATE) TO authenticated;
+
+COMMENT ON TABLE public.labor_burden_rates IS 'Labor burden (tax and insurance) rates by company/project and category with effective dates';
+COMMENT ON COLUMN public.labor_burden_rates.project_id IS 'Project override; NULL for the company-wide rate';
+COMMENT ON COLUMN public.labor_burden_rates.category IS 'Labor category the rate applies to; NULL for all categories';
+COMMENT ON COLUMN public.labor_burden_rates.burden_rate IS 'Burden applied to straight time wages (0.28 = 28%)';
+COMMENT ON COLUMN public.labor_burden_rates.effective_date IS 'First week ending the rate applies to';
+COMMENT ON FUNCTION get_labor_burden_rate IS 'Resolves the effective burden rate for a project, category and date';
+COMMENT ON FUNCTION recalculate_labor_burden IS 'Reapplies resolved burden rates to labor actuals from a date onward';
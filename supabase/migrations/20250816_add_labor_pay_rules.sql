@@ -0,0 +1,67 @@
+-- Add overtime and double time pay rules
+-- Pay rules are set company-wide or per project, optionally per craft, and are
+-- applied by the labor import to the daily hours on each timesheet.
+
+CREATE TABLE IF NOT EXISTS public.labor_pay_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- NULL project_id = company-wide rule
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  -- NULL craft_type_id = applies to all crafts
+  craft_type_id UUID REFERENCES public.craft_types(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  daily_ot_threshold DECIMAL(5,2) CHECK (daily_ot_threshold >= 0),
+  daily_dt_threshold DECIMAL(5,2) CHECK (daily_dt_threshold >= 0),
+  weekly_ot_threshold DECIMAL(5,2) CHECK (weekly_ot_threshold >= 0),
+  ot_multiplier DECIMAL(4,2) NOT NULL DEFAULT 1.5 CHECK (ot_multiplier >= 1),
+  dt_multiplier DECIMAL(4,2) NOT NULL DEFAULT 2.0 CHECK (dt_multiplier >= 1),
+  saturday_premium VARCHAR(4) NOT NULL DEFAULT 'none' CHECK (saturday_premium IN ('none', 'ot', 'dt')),
+  sunday_premium VARCHAR(4) NOT NULL DEFAULT 'none' CHECK (sunday_premium IN ('none', 'ot', 'dt')),
+  is_active BOOLEAN DEFAULT true,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One active rule per scope
+CREATE UNIQUE INDEX IF NOT EXISTS idx_labor_pay_rules_scope
+  ON public.labor_pay_rules (
+    COALESCE(project_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(craft_type_id, '00000000-0000-0000-0000-000000000000'::uuid)
+  )
+  WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_labor_pay_rules_project ON public.labor_pay_rules(project_id);
+
+CREATE TRIGGER update_labor_pay_rules_updated_at
+  BEFORE UPDATE ON public.labor_pay_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Double time breakdown on employee actuals.
+-- ot_hours/ot_wages keep holding all premium time (OT + DT) so existing
+-- totals and burdened cost columns stay correct.
+ALTER TABLE public.labor_employee_actuals
+ADD COLUMN IF NOT EXISTS dt_hours DECIMAL(10,2) DEFAULT 0 CHECK (dt_hours >= 0),
+ADD COLUMN IF NOT EXISTS dt_wages DECIMAL(12,2) DEFAULT 0 CHECK (dt_wages >= 0);
+
+-- RLS policies
+ALTER TABLE public.labor_pay_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view pay rules" ON public.labor_pay_rules
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can manage pay rules" ON public.labor_pay_rules
+  FOR ALL
+  USING (auth.uid() IS NOT NULL)
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.labor_pay_rules TO authenticated;
+
+COMMENT ON TABLE public.labor_pay_rules IS 'Overtime and double time rules applied to daily hours during labor import';
+COMMENT ON COLUMN public.labor_pay_rules.daily_ot_threshold IS 'Hours per day after which time is overtime (NULL = no daily OT)';
+COMMENT ON COLUMN public.labor_pay_rules.daily_dt_threshold IS 'Hours per day after which time is double time (NULL = no daily DT)';
+COMMENT ON COLUMN public.labor_pay_rules.weekly_ot_threshold IS 'Straight time hours per week after which time is overtime (NULL = no weekly OT)';
+COMMENT ON COLUMN public.labor_pay_rules.saturday_premium IS 'Premium applied to all Saturday hours: none, ot or dt';
+COMMENT ON COLUMN public.labor_pay_rules.sunday_premium IS 'Premium applied to all Sunday hours: none, ot or dt';
+COMMENT ON COLUMN public.labor_employee_actuals.dt_hours IS 'Double time hours (included in ot_hours)';
+COMMENT ON COLUMN public.labor_employee_actuals.dt_wages IS 'Double time wages (included in ot_wages)';
@@ -0,0 +1,51 @@
+-- Add saved timesheet formats for labor import
+-- Each format maps the header names of a payroll export (Excel or CSV) to the
+-- fields the labor importer needs, so new layouts can be imported without code changes.
+
+CREATE TABLE IF NOT EXISTS public.timesheet_formats (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  -- NULL sheet_name = first sheet (CSV files only have one)
+  sheet_name VARCHAR(100),
+  -- 1-based header row; NULL = auto-detect within the first 20 rows
+  header_row INTEGER CHECK (header_row > 0),
+  column_mapping JSONB NOT NULL,
+  employee_id_pattern VARCHAR(100),
+  is_active BOOLEAN DEFAULT true,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- The employee number column is required for every format
+  CONSTRAINT timesheet_formats_employee_number_required
+    CHECK (column_mapping ? 'employee_number')
+);
+
+-- Active format names must be unique
+CREATE UNIQUE INDEX IF NOT EXISTS idx_timesheet_formats_name
+  ON public.timesheet_formats(name)
+  WHERE is_active = true;
+
+CREATE TRIGGER update_timesheet_formats_updated_at
+  BEFORE UPDATE ON public.timesheet_formats
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS policies
+ALTER TABLE public.timesheet_formats ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view timesheet formats" ON public.timesheet_formats
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can manage timesheet formats" ON public.timesheet_formats
+  FOR ALL
+  USING (auth.uid() IS NOT NULL)
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.timesheet_formats TO authenticated;
+
+COMMENT ON TABLE public.timesheet_formats IS 'Saved column mappings for labor timesheet layouts';
+COMMENT ON COLUMN public.timesheet_formats.column_mapping IS 'Field name -> header text, e.g. {"employee_number": "Emp ID", "st_hours": "Reg Hrs"}';
+COMMENT ON COLUMN public.timesheet_formats.employee_id_pattern IS 'Optional regex employee numbers must match; other rows are ignored';
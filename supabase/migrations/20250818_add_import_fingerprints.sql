@@ -0,0 +1,19 @@
+-- Add content fingerprints to data imports
+-- file_hash now stores a SHA-256 of the file bytes (previously a 32-bit hash in metadata).
+-- content_fingerprint is a SHA-256 of the normalized records, so a re-saved but
+-- otherwise identical file is recognized as a duplicate.
+
+ALTER TABLE public.data_imports
+  ADD COLUMN IF NOT EXISTS content_fingerprint TEXT;
+
+-- Duplicate lookups filter by project, type and either hash
+CREATE INDEX IF NOT EXISTS idx_data_imports_file_hash
+  ON public.data_imports(project_id, import_type, file_hash)
+  WHERE file_hash IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_data_imports_content_fingerprint
+  ON public.data_imports(project_id, import_type, content_fingerprint)
+  WHERE content_fingerprint IS NOT NULL;
+
+COMMENT ON COLUMN public.data_imports.file_hash IS 'SHA-256 of the imported file bytes';
+COMMENT ON COLUMN public.data_imports.content_fingerprint IS 'SHA-256 of the normalized imported records, independent of file formatting and row order';
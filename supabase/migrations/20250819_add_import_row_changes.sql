@@ -0,0 +1,25 @@
+-- Record the rows each import writes so any import type can be undone
+-- row_changes is an array of { table, id, action: insert|update|delete, before }
+-- where before is the full row prior to the import (null for inserted rows).
+
+ALTER TABLE public.data_imports
+  ADD COLUMN IF NOT EXISTS row_changes JSONB;
+
+-- Employee imports aren't tied to a project
+ALTER TABLE public.data_imports
+  ALTER COLUMN project_id DROP NOT NULL;
+
+-- Statuses written by the import routes and the undo endpoint
+ALTER TABLE public.data_imports
+  DROP CONSTRAINT IF EXISTS data_imports_import_status_check;
+
+ALTER TABLE public.data_imports
+  ADD CONSTRAINT data_imports_import_status_check
+  CHECK (import_status IN ('pending', 'processing', 'success', 'partial', 'completed_with_errors', 'failed', 'undone'));
+
+-- Undo looks for later imports that touched the same rows
+CREATE INDEX IF NOT EXISTS idx_data_imports_created_at
+  ON public.data_imports(created_at)
+  WHERE row_changes IS NOT NULL;
+
+COMMENT ON COLUMN public.data_imports.row_changes IS 'Rows inserted, updated or deleted by the import with before-images, used to undo it';
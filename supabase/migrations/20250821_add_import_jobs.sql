@@ -0,0 +1,101 @@
+-- Background job queue for large imports
+-- Large PO logs and budget workbooks can take longer than a serverless request
+-- allows. The upload is stored here and processed by the import worker
+-- (scripts/import-worker.ts), which reports row-level progress back to the row.
+
+CREATE TABLE IF NOT EXISTS public.import_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_type VARCHAR(50) NOT NULL CHECK (job_type IN ('po_import', 'budget_coversheet')),
+  status VARCHAR(20) NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES public.profiles(id),
+  file_name VARCHAR(255) NOT NULL,
+  file_size INTEGER,
+  -- Base64 upload; cleared once the job finishes
+  file_content TEXT,
+  -- Import options from the request (conflict strategy, project override, ...)
+  options JSONB NOT NULL DEFAULT '{}'::JSONB,
+  phase VARCHAR(50),
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  processed_rows INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  -- First 100 row errors: [{ row, field?, message }]
+  errors JSONB NOT NULL DEFAULT '[]'::JSONB,
+  -- Response the synchronous import would have returned
+  result JSONB,
+  error_message TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  worker_id VARCHAR(100),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_jobs_queue
+  ON public.import_jobs(created_at)
+  WHERE status IN ('queued', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_import_jobs_created_by
+  ON public.import_jobs(created_by, created_at DESC);
+
+CREATE TRIGGER update_import_jobs_updated_at
+  BEFORE UPDATE ON public.import_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Claim the oldest queued job for a worker.
+-- Running jobs whose worker stopped reporting for p_stale_after are picked up
+-- again until max_attempts; after that they are failed.
+CREATE OR REPLACE FUNCTION public.claim_import_job(
+  p_worker_id TEXT,
+  p_stale_after INTERVAL DEFAULT INTERVAL '15 minutes'
+)
+RETURNS SETOF public.import_jobs AS $$
+BEGIN
+  UPDATE public.import_jobs
+  SET status = 'failed',
+      error_message = 'Import worker stopped responding',
+      file_content = NULL,
+      completed_at = NOW()
+  WHERE status = 'running'
+    AND locked_at < NOW() - p_stale_after
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE public.import_jobs j
+  SET status = 'running',
+      worker_id = p_worker_id,
+      locked_at = NOW(),
+      started_at = COALESCE(j.started_at, NOW()),
+      attempts = j.attempts + 1
+  WHERE j.id = (
+    SELECT q.id
+    FROM public.import_jobs q
+    WHERE q.status = 'queued'
+       OR (q.status = 'running' AND q.locked_at < NOW() - p_stale_after)
+    ORDER BY q.created_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.claim_import_job(TEXT, INTERVAL) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.claim_import_job(TEXT, INTERVAL) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_import_job(TEXT, INTERVAL) TO service_role;
+
+-- RLS policies: jobs are created and updated by the service role; users see their own
+ALTER TABLE public.import_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their import jobs" ON public.import_jobs
+  FOR SELECT
+  USING (created_by = auth.uid());
+
+GRANT SELECT ON public.import_jobs TO authenticated;
+
+COMMENT ON TABLE public.import_jobs IS 'Queued background imports with stored upload and row-level progress';
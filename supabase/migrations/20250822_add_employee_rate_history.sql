@@ -0,0 +1,242 @@
+-- Add employee pay-rate history with effective dates
+-- employees.base_rate used to be overwritten in place, so re-importing an old week
+-- costed it at today's rate. Rates now live here; the labor import resolves the rate
+-- in force for each week ending, and employees.base_rate follows the history as
+-- the current rate.
+
+CREATE TABLE IF NOT EXISTS public.employee_rate_history (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  base_rate DECIMAL(10,2) NOT NULL CHECK (base_rate >= 0),
+  effective_date DATE NOT NULL,
+  source VARCHAR(50) NOT NULL DEFAULT 'manual'
+    CHECK (source IN ('initial', 'manual', 'batch_update', 'labor_import', 'employee_update')),
+  notes TEXT,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One rate per employee and effective date
+CREATE UNIQUE INDEX IF NOT EXISTS idx_employee_rate_history_effective
+  ON public.employee_rate_history(employee_id, effective_date);
+
+-- Existing rates apply to all past weeks so current costs are unchanged
+INSERT INTO public.employee_rate_history (employee_id, base_rate, effective_date, source)
+SELECT id, base_rate, DATE '2000-01-01', 'initial'
+FROM public.employees
+WHERE base_rate > 0
+ON CONFLICT (employee_id, effective_date) DO NOTHING;
+
+-- Resolve an employee's rate for a date: the latest effective_date on or before
+-- p_date, else the earliest known rate. NULL when the employee has no history.
+CREATE OR REPLACE FUNCTION get_employee_base_rate(
+  p_employee_id UUID,
+  p_date DATE
+)
+RETURNS DECIMAL(10,2) AS $$
+  SELECT erh.base_rate
+  FROM public.employee_rate_history erh
+  WHERE erh.employee_id = p_employee_id
+  ORDER BY
+    (erh.effective_date <= p_date) DESC,
+    CASE WHEN erh.effective_date <= p_date THEN erh.effective_date END DESC,
+    erh.effective_date ASC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Keep employees.base_rate equal to the rate in force today
+CREATE OR REPLACE FUNCTION sync_employee_base_rate()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_employee_id UUID := COALESCE(NEW.employee_id, OLD.employee_id);
+  v_rate DECIMAL(10,2);
+BEGIN
+  v_rate := COALESCE(get_employee_base_rate(v_employee_id, CURRENT_DATE), 0);
+
+  UPDATE public.employees
+  SET base_rate = v_rate, updated_at = NOW()
+  WHERE id = v_employee_id
+    AND base_rate IS DISTINCT FROM v_rate;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sync_employee_base_rate
+  AFTER INSERT OR UPDATE OR DELETE ON public.employee_rate_history
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_employee_base_rate();
+
+-- Rates written straight to employees (employee import, create employee) start
+-- a history entry effective today
+CREATE OR REPLACE FUNCTION record_employee_rate_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.base_rate IS DISTINCT FROM get_employee_base_rate(NEW.id, CURRENT_DATE) THEN
+    INSERT INTO public.employee_rate_history (employee_id, base_rate, effective_date, source)
+    VALUES (NEW.id, NEW.base_rate, CURRENT_DATE, 'employee_update')
+    ON CONFLICT (employee_id, effective_date)
+    DO UPDATE SET base_rate = EXCLUDED.base_rate, source = EXCLUDED.source, updated_at = NOW();
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A zero rate means "not set yet" and is not recorded
+CREATE TRIGGER record_employee_rate_change
+  AFTER INSERT OR UPDATE OF base_rate ON public.employees
+  FOR EACH ROW
+  WHEN (NEW.base_rate > 0)
+  EXECUTE FUNCTION record_employee_rate_change();
+
+CREATE TRIGGER update_employee_rate_history_updated_at
+  BEFORE UPDATE ON public.employee_rate_history
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Labor imports write rates entered on the confirmation step in their transaction
+CREATE OR REPLACE FUNCTION public.apply_import_batch(p_imports JSONB, p_steps JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_allowed_tables TEXT[] := ARRAY[
+    'employees', 'employee_rate_history', 'craft_types', 'labor_employee_actuals', 'labor_actuals',
+    'purchase_orders', 'po_line_items', 'project_budgets', 'project_budget_breakdowns'
+  ];
+  -- Columns Postgres computes for the step's table; never written
+  v_generated_columns TEXT[];
+  v_step JSONB;
+  v_row JSONB;
+  v_table TEXT;
+  v_action TEXT;
+  v_index TEXT;
+  v_id UUID;
+  v_before JSONB;
+  v_columns TEXT;
+  v_assignments TEXT;
+  v_change JSONB;
+  v_changes JSONB := '{}'::JSONB;
+  v_seen JSONB := '{}'::JSONB;
+  v_import JSONB;
+  v_import_id UUID;
+  v_import_ids JSONB := '[]'::JSONB;
+  v_total INTEGER := 0;
+  v_position INTEGER := 0;
+BEGIN
+  FOR v_step IN SELECT * FROM jsonb_array_elements(COALESCE(p_steps, '[]'::JSONB)) LOOP
+    v_table := v_step->>'table';
+    v_action := v_step->>'action';
+    v_index := COALESCE(v_step->>'import_index', '0');
+
+    IF NOT v_table = ANY(v_allowed_tables) THEN
+      RAISE EXCEPTION 'Imports cannot write to table %', v_table;
+    END IF;
+
+    SELECT COALESCE(array_agg(attname::TEXT), ARRAY[]::TEXT[]) INTO v_generated_columns
+    FROM pg_attribute
+    WHERE attrelid = format('public.%I', v_table)::regclass
+      AND attnum > 0
+      AND attgenerated <> ''
+      AND NOT attisdropped;
+
+    FOR v_row IN SELECT * FROM jsonb_array_elements(v_step->'rows') LOOP
+      v_id := (v_row->>'id')::UUID;
+      v_row := v_row - v_generated_columns;
+      v_change := NULL;
+
+      IF v_action = 'insert' THEN
+        SELECT string_agg(format('%I', key), ', ') INTO v_columns
+        FROM jsonb_object_keys(v_row) AS key;
+
+        EXECUTE format(
+          'INSERT INTO public.%I (%s) SELECT %s FROM jsonb_populate_record(NULL::public.%I, $1)',
+          v_table, v_columns, v_columns, v_table
+        ) USING v_row;
+
+        v_change := jsonb_build_object('table', v_table, 'id', v_id, 'action', 'insert', 'before', NULL);
+
+      ELSIF v_action = 'update' THEN
+        EXECUTE format('SELECT to_jsonb(t) FROM public.%I t WHERE t.id = $1 FOR UPDATE', v_table)
+          INTO v_before USING v_id;
+
+        IF v_before IS NULL THEN
+          RAISE EXCEPTION '% row % no longer exists', v_table, v_id;
+        END IF;
+
+        SELECT string_agg(format('%I = r.%I', key, key), ', ') INTO v_assignments
+        FROM jsonb_object_keys(v_row - 'id') AS key;
+
+        IF v_assignments IS NOT NULL THEN
+          EXECUTE format(
+            'UPDATE public.%I t SET %s FROM jsonb_populate_record(NULL::public.%I, $1) r WHERE t.id = $2',
+            v_table, v_assignments, v_table
+          ) USING v_row, v_id;
+        END IF;
+
+        v_change := jsonb_build_object('table', v_table, 'id', v_id, 'action', 'update', 'before', v_before);
+
+      ELSIF v_action = 'delete' THEN
+        EXECUTE format('DELETE FROM public.%I t WHERE t.id = $1 RETURNING to_jsonb(t)', v_table)
+          INTO v_before USING v_id;
+
+        IF v_before IS NOT NULL THEN
+          v_change := jsonb_build_object('table', v_table, 'id', v_id, 'action', 'delete', 'before', v_before);
+        END IF;
+
+      ELSE
+        RAISE EXCEPTION 'Unknown import action %', v_action;
+      END IF;
+
+      -- Keep the first change per row: its before-image is the pre-import state
+      IF v_change IS NOT NULL AND NOT v_seen ? (v_table || ':' || v_id) THEN
+        v_seen := v_seen || jsonb_build_object(v_table || ':' || v_id, true);
+        v_changes := jsonb_set(
+          v_changes,
+          ARRAY[v_index],
+          COALESCE(v_changes->v_index, '[]'::JSONB) || jsonb_build_array(v_change)
+        );
+        v_total := v_total + 1;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  FOR v_import IN SELECT * FROM jsonb_array_elements(COALESCE(p_imports, '[]'::JSONB)) LOOP
+    INSERT INTO public.data_imports (
+      project_id, import_type, import_status, imported_by, file_name, file_hash,
+      content_fingerprint, records_processed, records_failed, error_details, metadata, row_changes
+    )
+    SELECT
+      r.project_id, r.import_type, r.import_status, r.imported_by, r.file_name, r.file_hash,
+      r.content_fingerprint, COALESCE(r.records_processed, 0), COALESCE(r.records_failed, 0),
+      r.error_details, r.metadata, COALESCE(v_changes->(v_position::TEXT), '[]'::JSONB)
+    FROM jsonb_populate_record(NULL::public.data_imports, v_import) r
+    RETURNING id INTO v_import_id;
+
+    v_import_ids := v_import_ids || jsonb_build_array(v_import_id);
+    v_position := v_position + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('import_ids', v_import_ids, 'changes', v_total);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- RLS policies
+ALTER TABLE public.employee_rate_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view employee rates" ON public.employee_rate_history
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can manage employee rates" ON public.employee_rate_history
+  FOR ALL
+  USING (auth.uid() IS NOT NULL)
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.employee_rate_history TO authenticated;
+GRANT EXECUTE ON FUNCTION get_employee_base_rate(UUID, DATE) TO authenticated;
+
+COMMENT ON TABLE public.employee_rate_history IS 'Employee hourly base rates with effective dates';
+COMMENT ON COLUMN public.employee_rate_history.effective_date IS 'First week ending the rate applies to';
+COMMENT ON COLUMN public.employee_rate_history.source IS 'Where the rate came from: initial, manual, batch_update, labor_import or employee_update';
+COMMENT ON FUNCTION get_employee_base_rate IS 'Resolves the base rate in force for an employee on a date';
@@ -0,0 +1,67 @@
+-- Add financial snapshots
+-- The table was dropped in the schema simplification, but the project list and the
+-- hard-delete scripts still read it. Snapshots record contract, budget, committed,
+-- actuals, EAC and margin as they stood on a date, per project or for the company.
+
+CREATE TABLE IF NOT EXISTS public.financial_snapshots (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  snapshot_type VARCHAR(20) NOT NULL CHECK (snapshot_type IN ('project', 'division', 'company')),
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  -- Divisions were removed from the schema; kept unconstrained for division roll-ups
+  division_id UUID,
+  snapshot_date DATE NOT NULL,
+  source VARCHAR(20) NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'scheduled')),
+  original_contract DECIMAL(15,2) NOT NULL DEFAULT 0,
+  approved_change_orders DECIMAL(15,2) NOT NULL DEFAULT 0,
+  revised_contract DECIMAL(15,2) NOT NULL DEFAULT 0,
+  total_budget DECIMAL(15,2) NOT NULL DEFAULT 0,
+  total_po_committed DECIMAL(15,2) NOT NULL DEFAULT 0,
+  total_po_invoiced DECIMAL(15,2) NOT NULL DEFAULT 0,
+  total_labor_cost DECIMAL(15,2) NOT NULL DEFAULT 0,
+  total_committed DECIMAL(15,2) NOT NULL DEFAULT 0,
+  total_cost_to_date DECIMAL(15,2) NOT NULL DEFAULT 0,
+  cost_to_complete DECIMAL(15,2) NOT NULL DEFAULT 0,
+  forecasted_cost DECIMAL(15,2) NOT NULL DEFAULT 0,
+  forecasted_profit DECIMAL(15,2) NOT NULL DEFAULT 0,
+  profit_margin DECIMAL(7,2) NOT NULL DEFAULT 0,
+  percent_complete DECIMAL(5,2) NOT NULL DEFAULT 0,
+  project_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT financial_snapshots_scope_check CHECK (
+    (snapshot_type = 'project' OR project_id IS NULL) AND
+    (snapshot_type = 'division' OR division_id IS NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_financial_snapshots_project
+  ON public.financial_snapshots(project_id, snapshot_date DESC);
+CREATE INDEX IF NOT EXISTS idx_financial_snapshots_type_date
+  ON public.financial_snapshots(snapshot_type, snapshot_date DESC);
+
+-- RLS policies
+ALTER TABLE public.financial_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view financial snapshots" ON public.financial_snapshots
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can create financial snapshots" ON public.financial_snapshots
+  FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+-- Snapshots are a record of what was reported, so there is no update policy
+CREATE POLICY "Controllers can delete financial snapshots" ON public.financial_snapshots
+  FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'controller'
+    )
+  );
+
+GRANT SELECT, INSERT, DELETE ON public.financial_snapshots TO authenticated;
+
+COMMENT ON TABLE public.financial_snapshots IS 'Point-in-time project and company financials';
+COMMENT ON COLUMN public.financial_snapshots.source IS 'manual (taken on demand) or scheduled';
+COMMENT ON COLUMN public.financial_snapshots.forecasted_cost IS 'Estimate at completion: cost to date plus cost to complete';
@@ -0,0 +1,98 @@
+-- Add monthly accounting periods
+-- Closing a period freezes that month's financial snapshot and stops labor imports,
+-- PO imports and PO edits dated inside it from changing reported numbers. A period
+-- is closed for one project, or company-wide when project_id is null. Reopening is
+-- recorded with who reopened it and why.
+
+CREATE TABLE IF NOT EXISTS public.accounting_periods (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  period_month DATE NOT NULL CHECK (EXTRACT(DAY FROM period_month) = 1),
+  status VARCHAR(20) NOT NULL DEFAULT 'closed' CHECK (status IN ('open', 'closed')),
+  -- The snapshot frozen when the period was last closed
+  snapshot_id UUID REFERENCES public.financial_snapshots(id) ON DELETE RESTRICT,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  closed_by UUID REFERENCES public.profiles(id),
+  reopened_at TIMESTAMP WITH TIME ZONE,
+  reopened_by UUID REFERENCES public.profiles(id),
+  reopen_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One period per project (or company) and month
+CREATE UNIQUE INDEX IF NOT EXISTS idx_accounting_periods_scope_month
+  ON public.accounting_periods(COALESCE(project_id, '00000000-0000-0000-0000-000000000000'::uuid), period_month);
+
+CREATE INDEX IF NOT EXISTS idx_accounting_periods_closed
+  ON public.accounting_periods(period_month)
+  WHERE status = 'closed';
+
+-- Every close and reopen, so repeated reopen/close cycles stay auditable
+CREATE TABLE IF NOT EXISTS public.accounting_period_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  period_id UUID NOT NULL REFERENCES public.accounting_periods(id) ON DELETE CASCADE,
+  action VARCHAR(20) NOT NULL CHECK (action IN ('close', 'reopen')),
+  snapshot_id UUID REFERENCES public.financial_snapshots(id) ON DELETE SET NULL,
+  reason TEXT,
+  performed_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_accounting_period_events_period
+  ON public.accounting_period_events(period_id, created_at DESC);
+
+-- Snapshots frozen by a period close
+ALTER TABLE public.financial_snapshots
+  DROP CONSTRAINT IF EXISTS financial_snapshots_source_check;
+ALTER TABLE public.financial_snapshots
+  ADD CONSTRAINT financial_snapshots_source_check
+  CHECK (source IN ('manual', 'scheduled', 'period_close'));
+
+CREATE TRIGGER update_accounting_periods_updated_at
+  BEFORE UPDATE ON public.accounting_periods
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS policies
+ALTER TABLE public.accounting_periods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.accounting_period_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view accounting periods" ON public.accounting_periods
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Managers can close accounting periods" ON public.accounting_periods
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('controller', 'ops_manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('controller', 'ops_manager')
+    )
+  );
+
+CREATE POLICY "Users can view accounting period events" ON public.accounting_period_events
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Managers can record accounting period events" ON public.accounting_period_events
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('controller', 'ops_manager')
+    )
+  );
+
+GRANT SELECT, INSERT, UPDATE ON public.accounting_periods TO authenticated;
+GRANT SELECT, INSERT ON public.accounting_period_events TO authenticated;
+
+COMMENT ON TABLE public.accounting_periods IS 'Monthly accounting periods per project, or company-wide when project_id is null';
+COMMENT ON COLUMN public.accounting_periods.period_month IS 'First day of the month the period covers';
+COMMENT ON TABLE public.accounting_period_events IS 'History of accounting period closes and reopens';
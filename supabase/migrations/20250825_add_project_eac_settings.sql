@@ -0,0 +1,58 @@
+-- Add per-project EAC settings
+-- Controllers compare several estimate-at-completion methods and pick the official
+-- one per project. Physical progress drives the earned value methods; a manual
+-- override must carry a justification.
+
+CREATE TABLE IF NOT EXISTS public.project_eac_settings (
+  project_id UUID PRIMARY KEY REFERENCES public.projects(id) ON DELETE CASCADE,
+  official_method VARCHAR(30) NOT NULL DEFAULT 'bottom_up'
+    CHECK (official_method IN ('bottom_up', 'cpi', 'cpi_spi', 'budget_remaining', 'manual')),
+  percent_complete DECIMAL(5,2) CHECK (percent_complete BETWEEN 0 AND 100),
+  -- Null uses elapsed time between the project's start and end dates
+  planned_percent_complete DECIMAL(5,2) CHECK (planned_percent_complete BETWEEN 0 AND 100),
+  manual_eac DECIMAL(15,2) CHECK (manual_eac >= 0),
+  manual_eac_by_category JSONB,
+  manual_justification TEXT,
+  updated_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT project_eac_settings_manual_check CHECK (
+    manual_eac IS NULL OR (manual_justification IS NOT NULL AND length(trim(manual_justification)) > 0)
+  ),
+  CONSTRAINT project_eac_settings_official_manual_check CHECK (
+    official_method <> 'manual' OR manual_eac IS NOT NULL
+  )
+);
+
+CREATE TRIGGER update_project_eac_settings_updated_at
+  BEFORE UPDATE ON public.project_eac_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS policies
+ALTER TABLE public.project_eac_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view EAC settings" ON public.project_eac_settings
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Managers can manage EAC settings" ON public.project_eac_settings
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('controller', 'ops_manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('controller', 'ops_manager')
+    )
+  );
+
+GRANT SELECT, INSERT, UPDATE ON public.project_eac_settings TO authenticated;
+
+COMMENT ON TABLE public.project_eac_settings IS 'Official estimate-at-completion method and its inputs per project';
+COMMENT ON COLUMN public.project_eac_settings.percent_complete IS 'Physical percent complete used for earned value';
+COMMENT ON COLUMN public.project_eac_settings.manual_justification IS 'Why the manual EAC overrides the calculated methods';
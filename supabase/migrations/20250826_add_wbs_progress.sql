@@ -0,0 +1,57 @@
+-- Add WBS progress for earned value tracking
+-- Progress is entered per WBS node as a percent complete or an installed quantity.
+-- Each entry is dated so earned value can be reported as of any date.
+
+CREATE TABLE IF NOT EXISTS public.wbs_progress (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  wbs_code VARCHAR(50) NOT NULL,
+  as_of_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  percent_complete DECIMAL(5,2) CHECK (percent_complete BETWEEN 0 AND 100),
+  quantity_installed DECIMAL(15,4) CHECK (quantity_installed >= 0),
+  -- Null uses elapsed time between the project's start and end dates
+  planned_percent_complete DECIMAL(5,2) CHECK (planned_percent_complete BETWEEN 0 AND 100),
+  notes TEXT,
+  entered_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT wbs_progress_measure_check CHECK (
+    percent_complete IS NOT NULL OR quantity_installed IS NOT NULL
+  ),
+  CONSTRAINT wbs_progress_unique_date UNIQUE (project_id, wbs_code, as_of_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wbs_progress_project_date ON public.wbs_progress(project_id, as_of_date DESC);
+
+CREATE TRIGGER update_wbs_progress_updated_at
+  BEFORE UPDATE ON public.wbs_progress
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS policies
+ALTER TABLE public.wbs_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view WBS progress" ON public.wbs_progress
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Managers can record WBS progress" ON public.wbs_progress
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('controller', 'ops_manager', 'project_manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('controller', 'ops_manager', 'project_manager')
+    )
+  );
+
+GRANT SELECT, INSERT, UPDATE ON public.wbs_progress TO authenticated;
+
+COMMENT ON TABLE public.wbs_progress IS 'Dated physical progress per WBS node, used for earned value';
+COMMENT ON COLUMN public.wbs_progress.quantity_installed IS 'Installed quantity, measured against the budgeted quantity of the node''s line items';
+COMMENT ON COLUMN public.wbs_progress.planned_percent_complete IS 'Planned progress for the date; defaults to the project schedule';
@@ -0,0 +1,9 @@
+-- Track where headcount forecast rows came from
+-- Rows written by the curve generator are a draft until the PM saves the week
+-- from the headcount page, which marks them manual.
+
+ALTER TABLE public.labor_headcount_forecasts
+  ADD COLUMN IF NOT EXISTS source VARCHAR(20) NOT NULL DEFAULT 'manual'
+    CHECK (source IN ('manual', 'generated'));
+
+COMMENT ON COLUMN public.labor_headcount_forecasts.source IS 'manual when entered or saved by a user, generated when written by the headcount curve generator';
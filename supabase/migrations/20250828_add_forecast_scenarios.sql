@@ -0,0 +1,192 @@
+-- Add forecast scenarios
+-- A scenario is a named copy of a project's headcount forecast and PO forecasts that
+-- can be edited without touching the live forecast, e.g. to try an acceleration or a
+-- crew reduction. Promoting a scenario writes it into the live forecast and marks it
+-- current; the other scenarios keep their own copies, so no forecast is lost.
+
+CREATE TABLE IF NOT EXISTS public.forecast_scenarios (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  -- Scenario the copy was taken from; null when copied from the live forecast
+  based_on_scenario_id UUID REFERENCES public.forecast_scenarios(id) ON DELETE SET NULL,
+  is_current BOOLEAN NOT NULL DEFAULT false,
+  promoted_at TIMESTAMP WITH TIME ZONE,
+  promoted_by UUID REFERENCES public.profiles(id),
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT forecast_scenarios_unique_name UNIQUE (project_id, name)
+);
+
+-- At most one current scenario per project
+CREATE UNIQUE INDEX IF NOT EXISTS idx_forecast_scenarios_current
+  ON public.forecast_scenarios(project_id) WHERE is_current;
+
+CREATE TABLE IF NOT EXISTS public.forecast_scenario_headcounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scenario_id UUID NOT NULL REFERENCES public.forecast_scenarios(id) ON DELETE CASCADE,
+  craft_type_id UUID NOT NULL REFERENCES public.craft_types(id),
+  week_ending DATE NOT NULL,
+  headcount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (headcount >= 0),
+  avg_weekly_hours DECIMAL(5,2) NOT NULL DEFAULT 50,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT forecast_scenario_headcounts_unique_week UNIQUE (scenario_id, craft_type_id, week_ending)
+);
+
+CREATE TABLE IF NOT EXISTS public.forecast_scenario_po_forecasts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scenario_id UUID NOT NULL REFERENCES public.forecast_scenarios(id) ON DELETE CASCADE,
+  purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  forecast_amount DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (forecast_amount >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT forecast_scenario_po_forecasts_unique_po UNIQUE (scenario_id, purchase_order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_forecast_scenarios_project ON public.forecast_scenarios(project_id);
+CREATE INDEX IF NOT EXISTS idx_forecast_scenario_headcounts_scenario ON public.forecast_scenario_headcounts(scenario_id, week_ending);
+CREATE INDEX IF NOT EXISTS idx_forecast_scenario_po_forecasts_scenario ON public.forecast_scenario_po_forecasts(scenario_id);
+
+CREATE TRIGGER update_forecast_scenarios_updated_at
+  BEFORE UPDATE ON public.forecast_scenarios
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_forecast_scenario_headcounts_updated_at
+  BEFORE UPDATE ON public.forecast_scenario_headcounts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_forecast_scenario_po_forecasts_updated_at
+  BEFORE UPDATE ON public.forecast_scenario_po_forecasts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS policies
+ALTER TABLE public.forecast_scenarios ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.forecast_scenario_headcounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.forecast_scenario_po_forecasts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view forecast scenarios" ON public.forecast_scenarios
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Managers can manage forecast scenarios" ON public.forecast_scenarios
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('controller', 'ops_manager', 'project_manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('controller', 'ops_manager', 'project_manager')
+    )
+  );
+
+CREATE POLICY "Users can view scenario headcounts" ON public.forecast_scenario_headcounts
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Managers can manage scenario headcounts" ON public.forecast_scenario_headcounts
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('controller', 'ops_manager', 'project_manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('controller', 'ops_manager', 'project_manager')
+    )
+  );
+
+CREATE POLICY "Users can view scenario PO forecasts" ON public.forecast_scenario_po_forecasts
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Managers can manage scenario PO forecasts" ON public.forecast_scenario_po_forecasts
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('controller', 'ops_manager', 'project_manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('controller', 'ops_manager', 'project_manager')
+    )
+  );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.forecast_scenarios TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.forecast_scenario_headcounts TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.forecast_scenario_po_forecasts TO authenticated;
+
+-- Promote a scenario: replace the project's live headcount forecast and PO forecasts
+-- with the scenario's and make it the current scenario, in one transaction.
+-- Runs with the caller's permissions, so RLS on the live tables still applies.
+--
+-- Returns { headcounts: <rows written>, purchase_orders: <rows updated> }
+
+CREATE OR REPLACE FUNCTION public.promote_forecast_scenario(p_scenario_id UUID, p_user_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_project_id UUID;
+  v_headcounts INTEGER;
+  v_purchase_orders INTEGER;
+BEGIN
+  SELECT project_id INTO v_project_id
+  FROM public.forecast_scenarios
+  WHERE id = p_scenario_id
+  FOR UPDATE;
+
+  IF v_project_id IS NULL THEN
+    RAISE EXCEPTION 'Scenario not found';
+  END IF;
+
+  DELETE FROM public.labor_headcount_forecasts WHERE project_id = v_project_id;
+
+  INSERT INTO public.labor_headcount_forecasts (
+    project_id, craft_type_id, week_ending, headcount, avg_weekly_hours, source
+  )
+  SELECT v_project_id, h.craft_type_id, h.week_ending, h.headcount, h.avg_weekly_hours, 'manual'
+  FROM public.forecast_scenario_headcounts h
+  WHERE h.scenario_id = p_scenario_id;
+  GET DIAGNOSTICS v_headcounts = ROW_COUNT;
+
+  UPDATE public.purchase_orders po
+  SET forecast_amount = f.forecast_amount, updated_at = NOW()
+  FROM public.forecast_scenario_po_forecasts f
+  WHERE f.scenario_id = p_scenario_id
+    AND po.id = f.purchase_order_id
+    AND po.project_id = v_project_id;
+  GET DIAGNOSTICS v_purchase_orders = ROW_COUNT;
+
+  UPDATE public.forecast_scenarios
+  SET is_current = false
+  WHERE project_id = v_project_id AND is_current AND id <> p_scenario_id;
+
+  UPDATE public.forecast_scenarios
+  SET is_current = true, promoted_at = NOW(), promoted_by = p_user_id
+  WHERE id = p_scenario_id;
+
+  RETURN jsonb_build_object('headcounts', v_headcounts, 'purchase_orders', v_purchase_orders);
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION public.promote_forecast_scenario(UUID, UUID) TO authenticated;
+
+COMMENT ON TABLE public.forecast_scenarios IS 'Named what-if versions of a project''s headcount and PO forecasts';
+COMMENT ON COLUMN public.forecast_scenarios.is_current IS 'The scenario last promoted to the live forecast';
+COMMENT ON TABLE public.forecast_scenario_headcounts IS 'Weekly headcount by craft for a forecast scenario';
+COMMENT ON TABLE public.forecast_scenario_po_forecasts IS 'Forecast final cost per purchase order for a forecast scenario';
+COMMENT ON FUNCTION public.promote_forecast_scenario(UUID, UUID) IS 'Writes a scenario''s headcount and PO forecasts into the live forecast and marks it current';
@@ -0,0 +1,50 @@
+-- Add labor rate escalations
+-- Escalations raise forecast labor rates from a date on, e.g. an annual wage
+-- increase or a union contract step. They are set company-wide or per project,
+-- optionally per craft, and apply to forecast weeks ending on or after the date.
+
+CREATE TABLE IF NOT EXISTS public.labor_rate_escalations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- NULL project_id = company-wide escalation
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  -- NULL craft_type_id = applies to all crafts
+  craft_type_id UUID REFERENCES public.craft_types(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  effective_date DATE NOT NULL,
+  escalation_type VARCHAR(10) NOT NULL CHECK (escalation_type IN ('percent', 'amount', 'rate')),
+  value DECIMAL(10,2) NOT NULL,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT labor_rate_escalations_value_check CHECK (
+    (escalation_type = 'percent' AND value > -100) OR
+    (escalation_type = 'amount') OR
+    (escalation_type = 'rate' AND value > 0)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_labor_rate_escalations_project
+  ON public.labor_rate_escalations(project_id, effective_date);
+
+CREATE TRIGGER update_labor_rate_escalations_updated_at
+  BEFORE UPDATE ON public.labor_rate_escalations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS policies
+ALTER TABLE public.labor_rate_escalations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view rate escalations" ON public.labor_rate_escalations
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can manage rate escalations" ON public.labor_rate_escalations
+  FOR ALL
+  USING (auth.uid() IS NOT NULL)
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.labor_rate_escalations TO authenticated;
+
+COMMENT ON TABLE public.labor_rate_escalations IS 'Dated increases to forecast labor rates, such as annual wage increases or union contract steps';
+COMMENT ON COLUMN public.labor_rate_escalations.escalation_type IS 'percent (raise by value %), amount (add value $/hr) or rate (set to value $/hr)';
+COMMENT ON COLUMN public.labor_rate_escalations.effective_date IS 'Applies to forecast weeks ending on or after this date';
@@ -0,0 +1,104 @@
+-- Add cash-flow forecast inputs
+-- The cash-flow forecast times money out (payroll, PO invoices) and money in (client
+-- billing less retention) per week or month. Each project carries its payment lags and
+-- retention; POs can carry their own terms and an expected completion date; a billing
+-- schedule of contract and change order draws replaces cost-loaded billing.
+
+CREATE TABLE IF NOT EXISTS public.project_cash_flow_settings (
+  project_id UUID PRIMARY KEY REFERENCES public.projects(id) ON DELETE CASCADE,
+  retention_percent DECIMAL(5,2) NOT NULL DEFAULT 10 CHECK (retention_percent BETWEEN 0 AND 100),
+  -- Days from billing the client to being paid
+  billing_lag_days INTEGER NOT NULL DEFAULT 30 CHECK (billing_lag_days >= 0),
+  -- Days after the project end date that retention is paid
+  retention_release_days INTEGER NOT NULL DEFAULT 60 CHECK (retention_release_days >= 0),
+  -- Days from week ending to payday
+  payroll_lag_days INTEGER NOT NULL DEFAULT 7 CHECK (payroll_lag_days >= 0),
+  -- Vendor terms for POs without their own
+  default_po_terms_days INTEGER NOT NULL DEFAULT 30 CHECK (default_po_terms_days >= 0),
+  -- Contract billed so far; cost-loaded billing spreads the rest of the revised contract
+  billed_to_date DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (billed_to_date >= 0),
+  updated_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_project_cash_flow_settings_updated_at
+  BEFORE UPDATE ON public.project_cash_flow_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.project_billing_schedule (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  -- Set when the draw bills a change order rather than the base contract
+  change_order_id UUID REFERENCES public.change_orders(id) ON DELETE SET NULL,
+  billing_date DATE NOT NULL,
+  amount DECIMAL(15,2) NOT NULL CHECK (amount >= 0),
+  description VARCHAR(200),
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_billing_schedule_project
+  ON public.project_billing_schedule(project_id, billing_date);
+
+CREATE TRIGGER update_project_billing_schedule_updated_at
+  BEFORE UPDATE ON public.project_billing_schedule
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.purchase_orders
+  ADD COLUMN IF NOT EXISTS payment_terms_days INTEGER CHECK (payment_terms_days >= 0),
+  ADD COLUMN IF NOT EXISTS expected_completion_date DATE;
+
+-- RLS policies
+ALTER TABLE public.project_cash_flow_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_billing_schedule ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view cash flow settings" ON public.project_cash_flow_settings
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Managers can manage cash flow settings" ON public.project_cash_flow_settings
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('controller', 'ops_manager', 'project_manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('controller', 'ops_manager', 'project_manager')
+    )
+  );
+
+CREATE POLICY "Users can view billing schedules" ON public.project_billing_schedule
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Managers can manage billing schedules" ON public.project_billing_schedule
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('controller', 'ops_manager', 'project_manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('controller', 'ops_manager', 'project_manager')
+    )
+  );
+
+GRANT SELECT, INSERT, UPDATE ON public.project_cash_flow_settings TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.project_billing_schedule TO authenticated;
+
+COMMENT ON TABLE public.project_cash_flow_settings IS 'Payment timing and retention used by the project cash-flow forecast';
+COMMENT ON TABLE public.project_billing_schedule IS 'Planned client billings for the contract and change orders';
+COMMENT ON COLUMN public.project_cash_flow_settings.billed_to_date IS 'Contract billed so far, used when the project has no billing schedule';
+COMMENT ON COLUMN public.purchase_orders.payment_terms_days IS 'Days from vendor invoice to payment; null uses the project default';
+COMMENT ON COLUMN public.purchase_orders.expected_completion_date IS 'When the PO is expected to be fully invoiced';
@@ -0,0 +1,97 @@
+-- Add percentage-of-completion revenue recognition to the monthly forecast
+-- monthly_forecasts was dropped in the 20250131 simplification; the monthly forecast
+-- sheet still saves to it. It comes back holding both the cost-to-cost calculation
+-- and the figures saved for the month, and every manual adjustment to a calculated
+-- figure is logged with its reason.
+
+CREATE TABLE IF NOT EXISTS public.monthly_forecasts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  reporting_month VARCHAR(7) NOT NULL CHECK (reporting_month ~ '^\d{4}-\d{2}$'),
+  -- Figures saved for the month; equal to the calculated ones unless adjusted
+  percent_complete DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (percent_complete BETWEEN 0 AND 100),
+  current_month_revenue DECIMAL(15,2) NOT NULL DEFAULT 0,
+  next_month_revenue DECIMAL(15,2) NOT NULL DEFAULT 0,
+  plus_two_month_revenue DECIMAL(15,2) NOT NULL DEFAULT 0,
+  remaining_backlog DECIMAL(15,2) NOT NULL DEFAULT 0,
+  earned_revenue_to_date DECIMAL(15,2) NOT NULL DEFAULT 0,
+  billed_to_date DECIMAL(15,2) NOT NULL DEFAULT 0,
+  -- Positive: billed ahead of earned revenue; negative: under-billed
+  over_under_billing DECIMAL(15,2) NOT NULL DEFAULT 0,
+  -- Cost-to-cost calculation when the month was saved
+  calculated_percent_complete DECIMAL(5,2),
+  calculated_current_month_revenue DECIMAL(15,2),
+  calculated_next_month_revenue DECIMAL(15,2),
+  calculated_plus_two_month_revenue DECIMAL(15,2),
+  cost_to_date DECIMAL(15,2),
+  estimate_at_completion DECIMAL(15,2),
+  revised_contract DECIMAL(15,2),
+  adjustment_reason TEXT,
+  notes TEXT,
+  updated_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT monthly_forecasts_project_month_key UNIQUE (project_id, reporting_month)
+);
+
+CREATE TRIGGER update_monthly_forecasts_updated_at
+  BEFORE UPDATE ON public.monthly_forecasts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.monthly_forecast_adjustments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  monthly_forecast_id UUID NOT NULL REFERENCES public.monthly_forecasts(id) ON DELETE CASCADE,
+  field VARCHAR(50) NOT NULL,
+  calculated_value DECIMAL(15,2),
+  adjusted_value DECIMAL(15,2) NOT NULL,
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  adjusted_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_monthly_forecast_adjustments_forecast
+  ON public.monthly_forecast_adjustments(monthly_forecast_id, created_at DESC);
+
+-- RLS policies
+ALTER TABLE public.monthly_forecasts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.monthly_forecast_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view monthly forecasts" ON public.monthly_forecasts
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Managers can manage monthly forecasts" ON public.monthly_forecasts
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('controller', 'ops_manager', 'project_manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('controller', 'ops_manager', 'project_manager')
+    )
+  );
+
+CREATE POLICY "Users can view monthly forecast adjustments" ON public.monthly_forecast_adjustments
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Managers can record monthly forecast adjustments" ON public.monthly_forecast_adjustments
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('controller', 'ops_manager', 'project_manager')
+    )
+  );
+
+GRANT SELECT, INSERT, UPDATE ON public.monthly_forecasts TO authenticated;
+GRANT SELECT, INSERT ON public.monthly_forecast_adjustments TO authenticated;
+
+COMMENT ON TABLE public.monthly_forecasts IS 'Monthly revenue forecast per project: percentage-of-completion calculation and the figures saved for the month';
+COMMENT ON TABLE public.monthly_forecast_adjustments IS 'Manual changes to calculated monthly forecast figures, with the reason';
+COMMENT ON COLUMN public.monthly_forecasts.over_under_billing IS 'Billed to date less earned revenue; positive is over-billed';
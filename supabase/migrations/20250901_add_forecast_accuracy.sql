@@ -0,0 +1,114 @@
+-- Keep the forecast history needed to measure forecast accuracy
+-- Headcount forecasts are overwritten in place and po_forecast_history was dropped in
+-- the 20250131 simplification (the PO forecast route still writes risk changes to it).
+-- Both now record every change, so a forecast can be read back as it stood on any date.
+
+-- PO forecast history
+CREATE TABLE IF NOT EXISTS public.po_forecast_history (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  -- Null for changes made outside a user session (imports, scheduled jobs)
+  changed_by UUID REFERENCES public.profiles(id) DEFAULT auth.uid(),
+  change_date TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  field_name VARCHAR(50) NOT NULL,
+  old_value TEXT,
+  new_value TEXT,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_po_forecast_history_po
+  ON public.po_forecast_history(purchase_order_id, field_name, change_date);
+
+-- Final cost forecast as the EAC reads it: the entered forecast, else the committed amount
+CREATE OR REPLACE FUNCTION record_po_forecast_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old_forecast DECIMAL(15,2) := COALESCE(NULLIF(OLD.forecast_amount, 0), OLD.committed_amount);
+  v_new_forecast DECIMAL(15,2) := COALESCE(NULLIF(NEW.forecast_amount, 0), NEW.committed_amount);
+BEGIN
+  IF v_new_forecast IS DISTINCT FROM v_old_forecast THEN
+    INSERT INTO public.po_forecast_history (purchase_order_id, field_name, old_value, new_value)
+    VALUES (NEW.id, 'forecast_amount', v_old_forecast::TEXT, v_new_forecast::TEXT);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER record_po_forecast_change
+  AFTER UPDATE OF forecast_amount, committed_amount ON public.purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION record_po_forecast_change();
+
+-- Headcount forecast history: one row per saved value, deletions recorded as zero
+CREATE TABLE IF NOT EXISTS public.labor_headcount_forecast_history (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  craft_type_id UUID NOT NULL REFERENCES public.craft_types(id) ON DELETE CASCADE,
+  week_ending DATE NOT NULL,
+  headcount DECIMAL(10,2) NOT NULL,
+  avg_weekly_hours DECIMAL(5,2) NOT NULL,
+  recorded_by UUID REFERENCES public.profiles(id) DEFAULT auth.uid(),
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_labor_headcount_forecast_history_lookup
+  ON public.labor_headcount_forecast_history(project_id, week_ending, recorded_at);
+
+CREATE OR REPLACE FUNCTION record_headcount_forecast_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO public.labor_headcount_forecast_history
+      (project_id, craft_type_id, week_ending, headcount, avg_weekly_hours)
+    VALUES (OLD.project_id, OLD.craft_type_id, OLD.week_ending, 0, OLD.avg_weekly_hours);
+  ELSIF TG_OP = 'INSERT'
+    OR NEW.headcount IS DISTINCT FROM OLD.headcount
+    OR NEW.avg_weekly_hours IS DISTINCT FROM OLD.avg_weekly_hours THEN
+    INSERT INTO public.labor_headcount_forecast_history
+      (project_id, craft_type_id, week_ending, headcount, avg_weekly_hours)
+    VALUES (NEW.project_id, NEW.craft_type_id, NEW.week_ending, NEW.headcount, NEW.avg_weekly_hours);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER record_headcount_forecast_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.labor_headcount_forecasts
+  FOR EACH ROW
+  EXECUTE FUNCTION record_headcount_forecast_change();
+
+-- Existing forecasts as of their last change
+INSERT INTO public.labor_headcount_forecast_history
+  (project_id, craft_type_id, week_ending, headcount, avg_weekly_hours, recorded_by, recorded_at)
+SELECT project_id, craft_type_id, week_ending, headcount, avg_weekly_hours, NULL, COALESCE(updated_at, created_at, NOW())
+FROM public.labor_headcount_forecasts;
+
+-- RLS policies: history is written by the triggers only
+ALTER TABLE public.po_forecast_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.labor_headcount_forecast_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view PO forecast history" ON public.po_forecast_history
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Managers can record PO forecast history" ON public.po_forecast_history
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('controller', 'ops_manager')
+    )
+  );
+
+CREATE POLICY "Users can view headcount forecast history" ON public.labor_headcount_forecast_history
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+GRANT SELECT, INSERT ON public.po_forecast_history TO authenticated;
+GRANT SELECT ON public.labor_headcount_forecast_history TO authenticated;
+
+COMMENT ON TABLE public.po_forecast_history IS 'Changes to PO forecasts and risk status; forecast_amount entries hold the final cost forecast';
+COMMENT ON TABLE public.labor_headcount_forecast_history IS 'Every saved headcount forecast value, for reading forecasts back as they stood';
@@ -0,0 +1,97 @@
+-- Add configurable cost code to budget category mapping
+-- PO budget categories were hardcoded from the ICS cost center (2000 equipment,
+-- 3000 materials, 4000 subcontracts, 5000 small tools). Mapping rules now match the
+-- cost center, Sub CC and SubSub CC, company-wide or per project. The most specific
+-- rule wins: project rules over company rules, then the rule matching the most codes.
+
+CREATE TABLE IF NOT EXISTS public.cost_code_mappings (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- NULL project_id = company-wide rule
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  -- NULL codes match any value
+  cost_center VARCHAR(50),
+  sub_cc VARCHAR(50),
+  subsub_cc VARCHAR(50),
+  budget_category VARCHAR(50) NOT NULL CHECK (
+    budget_category IN ('MATERIALS', 'EQUIPMENT', 'SUBCONTRACTS', 'SMALL TOOLS & CONSUMABLES')
+  ),
+  description TEXT,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT cost_code_mappings_has_code CHECK (
+    cost_center IS NOT NULL OR sub_cc IS NOT NULL OR subsub_cc IS NOT NULL
+  )
+);
+
+-- One rule per code combination and scope
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cost_code_mappings_unique
+  ON public.cost_code_mappings (
+    COALESCE(project_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(cost_center, ''),
+    COALESCE(sub_cc, ''),
+    COALESCE(subsub_cc, '')
+  );
+
+CREATE TRIGGER update_cost_code_mappings_updated_at
+  BEFORE UPDATE ON public.cost_code_mappings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- The rule a PO was classified by; NULL when no rule matched
+ALTER TABLE public.purchase_orders
+  ADD COLUMN IF NOT EXISTS cost_code_mapping_id UUID REFERENCES public.cost_code_mappings(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_cost_code_mapping
+  ON public.purchase_orders(cost_code_mapping_id);
+
+-- The cost centers that were hardcoded become the company rules
+INSERT INTO public.cost_code_mappings (cost_center, budget_category, description) VALUES
+  ('2000', 'EQUIPMENT', 'Equipment cost center'),
+  ('3000', 'MATERIALS', 'Materials cost center'),
+  ('4000', 'SUBCONTRACTS', 'Subcontracts cost center'),
+  ('5000', 'SMALL TOOLS & CONSUMABLES', 'Small tools cost center');
+
+UPDATE public.purchase_orders po
+SET cost_code_mapping_id = m.id,
+    budget_category = m.budget_category
+FROM public.cost_code_mappings m
+WHERE m.project_id IS NULL
+  AND m.sub_cc IS NULL
+  AND m.subsub_cc IS NULL
+  AND po.cost_center = m.cost_center;
+
+-- RLS policies
+ALTER TABLE public.cost_code_mappings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view cost code mappings" ON public.cost_code_mappings
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Managers can manage cost code mappings" ON public.cost_code_mappings
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+        AND (
+          profiles.role IN ('controller', 'ops_manager')
+          OR (profiles.role = 'project_manager' AND cost_code_mappings.project_id IS NOT NULL)
+        )
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+        AND (
+          profiles.role IN ('controller', 'ops_manager')
+          OR (profiles.role = 'project_manager' AND cost_code_mappings.project_id IS NOT NULL)
+        )
+    )
+  );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.cost_code_mappings TO authenticated;
+
+COMMENT ON TABLE public.cost_code_mappings IS 'Rules mapping ICS cost center, Sub CC and SubSub CC to PO budget categories, company-wide or per project';
+COMMENT ON COLUMN public.purchase_orders.cost_code_mapping_id IS 'Mapping rule the budget category came from; NULL when no rule matched';
@@ -0,0 +1,111 @@
+-- Turn the invoices table into the vendor invoice ledger behind PO invoiced amounts
+-- purchase_orders.invoiced_amount was a number the ICS import overwrote. It is now the
+-- sum of the PO's ledger invoices, kept in step by trigger. Invoices are matched to the
+-- PO's ICS invoice lines (po_line_items) when the ledger is read, since the import
+-- replaces those lines on every run.
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS vendor_name VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS source VARCHAR(20) NOT NULL DEFAULT 'manual'
+    CHECK (source IN ('manual', 'csv_import', 'ics_log'));
+
+-- Vendor invoice numbers are only unique per PO
+DROP INDEX IF EXISTS public.idx_invoices_number_project;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_number_po
+  ON public.invoices (
+    project_id,
+    COALESCE(purchase_order_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    invoice_number
+  );
+
+-- The status audit trigger wrote to a performed_by column audit_log does not have
+CREATE OR REPLACE FUNCTION log_invoice_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO public.audit_log (entity_type, entity_id, action, changes, user_id)
+    VALUES (
+      'invoice',
+      NEW.id,
+      'status_change',
+      jsonb_build_object(
+        'old_status', OLD.status,
+        'new_status', NEW.status,
+        'invoice_number', NEW.invoice_number,
+        'amount', NEW.amount
+      ),
+      auth.uid()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Invoiced amount = non-cancelled ledger invoices, for the PO(s) an invoice change touches
+CREATE OR REPLACE FUNCTION sync_po_invoiced_amount()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.purchase_orders po
+  SET invoiced_amount = COALESCE((
+    SELECT SUM(i.amount)
+    FROM public.invoices i
+    WHERE i.purchase_order_id = po.id
+      AND i.status <> 'cancelled'
+  ), 0)
+  WHERE po.id IN (
+    CASE WHEN TG_OP <> 'INSERT' THEN OLD.purchase_order_id END,
+    CASE WHEN TG_OP <> 'DELETE' THEN NEW.purchase_order_id END
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sync_po_invoiced_amount
+  AFTER INSERT OR UPDATE OF amount, status, purchase_order_id OR DELETE ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_po_invoiced_amount();
+
+-- Controllers and accounting can delete invoices
+CREATE POLICY "Controllers and accounting can delete invoices" ON public.invoices
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('controller', 'accounting')
+    )
+  );
+
+-- Open the ledger with the invoices already recorded on the ICS PO log
+INSERT INTO public.invoices (
+  project_id, purchase_order_id, vendor_name, invoice_number, invoice_date, amount, status, source, notes
+)
+SELECT
+  po.project_id,
+  po.id,
+  po.vendor_name,
+  TRIM(li.invoice_ticket),
+  COALESCE(MAX(li.invoice_date), po.order_date, po.created_at::date),
+  SUM(li.total_amount),
+  'approved',
+  'ics_log',
+  'Recorded on the ICS PO log'
+FROM public.po_line_items li
+JOIN public.purchase_orders po ON po.id = li.purchase_order_id
+WHERE COALESCE(TRIM(li.invoice_ticket), '') <> ''
+GROUP BY po.id, po.project_id, po.vendor_name, po.order_date, po.created_at, TRIM(li.invoice_ticket)
+HAVING SUM(li.total_amount) >= 0
+ON CONFLICT DO NOTHING;
+
+UPDATE public.purchase_orders po
+SET invoiced_amount = COALESCE((
+  SELECT SUM(i.amount)
+  FROM public.invoices i
+  WHERE i.purchase_order_id = po.id
+    AND i.status <> 'cancelled'
+), 0);
+
+COMMENT ON COLUMN public.invoices.source IS 'manual, csv_import, or ics_log for invoices opened from the ICS PO log';
+COMMENT ON COLUMN public.purchase_orders.invoiced_amount IS 'Sum of the PO''s non-cancelled ledger invoices; maintained by trigger';
@@ -0,0 +1,121 @@
+-- Add vendor master with aliases
+-- Vendors were free-text purchase_orders.vendor_name, spelled however the ICS PO log
+-- spelled them ('ACME SUPPLY INC', 'Acme Supply, Inc.'). Vendors now have one record
+-- with any number of aliases; the PO import resolves each vendor name to its vendor.
+
+CREATE TABLE IF NOT EXISTS public.vendors (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name VARCHAR(255) NOT NULL UNIQUE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_vendors_updated_at
+  BEFORE UPDATE ON public.vendors
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.vendor_aliases (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  vendor_id UUID NOT NULL REFERENCES public.vendors(id) ON DELETE CASCADE,
+  alias VARCHAR(255) NOT NULL,
+  -- The alias normalized by the application (case, punctuation, Inc/LLC suffixes)
+  alias_key VARCHAR(255) NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vendor_aliases_vendor ON public.vendor_aliases(vendor_id);
+
+-- The vendor a PO's vendor name resolved to; NULL until a vendor or alias matches it
+ALTER TABLE public.purchase_orders
+  ADD COLUMN IF NOT EXISTS vendor_id UUID REFERENCES public.vendors(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS original_amount DECIMAL(15,2);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_vendor ON public.purchase_orders(vendor_id);
+
+-- PO growth compares the final value with the value the PO was first issued at. The
+-- import overwrites po_value and committed_amount, so keep the first one.
+CREATE OR REPLACE FUNCTION set_po_original_amount()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.original_amount := COALESCE(NEW.original_amount, NEW.committed_amount, NEW.po_value);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_po_original_amount
+  BEFORE INSERT ON public.purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION set_po_original_amount();
+
+-- Existing POs: the value before their first recorded change, else today's commitment
+UPDATE public.purchase_orders po
+SET original_amount = COALESCE(
+  (
+    SELECT NULLIF(h.old_value, '')::DECIMAL(15,2)
+    FROM public.po_forecast_history h
+    WHERE h.purchase_order_id = po.id
+      AND h.field_name = 'forecast_amount'
+    ORDER BY h.change_date
+    LIMIT 1
+  ),
+  po.committed_amount
+)
+WHERE po.original_amount IS NULL;
+
+-- RLS policies
+ALTER TABLE public.vendors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vendor_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view vendors" ON public.vendors
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Managers can manage vendors" ON public.vendors
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('controller', 'ops_manager', 'accounting')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('controller', 'ops_manager', 'accounting')
+    )
+  );
+
+CREATE POLICY "Users can view vendor aliases" ON public.vendor_aliases
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Managers can manage vendor aliases" ON public.vendor_aliases
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('controller', 'ops_manager', 'accounting')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('controller', 'ops_manager', 'accounting')
+    )
+  );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.vendors TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.vendor_aliases TO authenticated;
+
+COMMENT ON TABLE public.vendors IS 'Vendor master; PO vendor names resolve to a vendor by its name or an alias';
+COMMENT ON TABLE public.vendor_aliases IS 'Other spellings of a vendor name found in the ICS PO log';
+COMMENT ON COLUMN public.purchase_orders.vendor_id IS 'Vendor the PO vendor name resolved to; NULL when no vendor or alias matches';
+COMMENT ON COLUMN public.purchase_orders.original_amount IS 'Committed amount when the PO was first recorded, for PO growth';
@@ -0,0 +1,78 @@
+-- Add automatic PO risk classification rules
+-- risk_status was only set by hand through the PO forecast route. Rules now set it after
+-- every PO import, invoice import and forecast change. A status set by hand is an
+-- override: rules leave the PO alone until the override is cleared.
+
+CREATE TABLE IF NOT EXISTS public.po_risk_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  rule_type VARCHAR(50) NOT NULL CHECK (
+    rule_type IN ('invoiced_percent', 'forecast_over_committed', 'no_invoice_activity', 'past_expected_end')
+  ),
+  -- invoiced_percent: % of committed; forecast_over_committed: % over committed;
+  -- no_invoice_activity: weeks; past_expected_end: days of grace
+  threshold DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (threshold >= 0),
+  risk_status VARCHAR(20) NOT NULL CHECK (risk_status IN ('at-risk', 'over-budget')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_po_risk_rules_updated_at
+  BEFORE UPDATE ON public.po_risk_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.purchase_orders
+  ADD COLUMN IF NOT EXISTS risk_status VARCHAR(20) NOT NULL DEFAULT 'normal'
+    CHECK (risk_status IN ('normal', 'at-risk', 'over-budget')),
+  -- Set by hand; rules skip the PO until cleared
+  ADD COLUMN IF NOT EXISTS risk_status_override BOOLEAN NOT NULL DEFAULT false,
+  -- Rule behind the current risk status; NULL when set by hand or no rule applies
+  ADD COLUMN IF NOT EXISTS risk_rule_id UUID REFERENCES public.po_risk_rules(id) ON DELETE SET NULL;
+
+-- Statuses set before the rules existed were set by hand
+UPDATE public.purchase_orders
+SET risk_status_override = true
+WHERE risk_status <> 'normal';
+
+ALTER TABLE public.po_forecast_history
+  ADD COLUMN IF NOT EXISTS risk_rule_id UUID REFERENCES public.po_risk_rules(id) ON DELETE SET NULL;
+
+INSERT INTO public.po_risk_rules (name, rule_type, threshold, risk_status) VALUES
+  ('Invoiced 90% of commitment', 'invoiced_percent', 90, 'at-risk'),
+  ('Forecast over commitment', 'forecast_over_committed', 0, 'over-budget'),
+  ('No invoices for 8 weeks', 'no_invoice_activity', 8, 'at-risk'),
+  ('Past expected completion', 'past_expected_end', 0, 'at-risk');
+
+-- RLS policies
+ALTER TABLE public.po_risk_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view PO risk rules" ON public.po_risk_rules
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Managers can manage PO risk rules" ON public.po_risk_rules
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('controller', 'ops_manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('controller', 'ops_manager')
+    )
+  );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.po_risk_rules TO authenticated;
+
+COMMENT ON TABLE public.po_risk_rules IS 'Rules setting PO risk_status automatically; the most severe rule that fires wins';
+COMMENT ON COLUMN public.purchase_orders.risk_status_override IS 'Risk status was set by hand; rules leave it until the override is cleared';
+COMMENT ON COLUMN public.purchase_orders.risk_rule_id IS 'Rule that set the current risk status';
+COMMENT ON COLUMN public.po_forecast_history.risk_rule_id IS 'Rule that changed the risk status; NULL for changes made by hand';
@@ -0,0 +1,128 @@
+-- Record ICS PO log invoices in the invoice ledger on every PO import
+-- invoiced_amount follows the invoice ledger, which 20250903 opened once from the ICS
+-- log. The PO import now creates or updates an ics_log invoice for each invoice ticket
+-- in the file, in the same transaction as its POs and line items.
+
+CREATE OR REPLACE FUNCTION public.apply_import_batch(p_imports JSONB, p_steps JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_allowed_tables TEXT[] := ARRAY[
+    'employees', 'employee_rate_history', 'craft_types', 'labor_employee_actuals', 'labor_actuals',
+    'purchase_orders', 'po_line_items', 'invoices', 'project_budgets', 'project_budget_breakdowns'
+  ];
+  -- Columns Postgres computes for the step's table; never written
+  v_generated_columns TEXT[];
+  v_step JSONB;
+  v_row JSONB;
+  v_table TEXT;
+  v_action TEXT;
+  v_index TEXT;
+  v_id UUID;
+  v_before JSONB;
+  v_columns TEXT;
+  v_assignments TEXT;
+  v_change JSONB;
+  v_changes JSONB := '{}'::JSONB;
+  v_seen JSONB := '{}'::JSONB;
+  v_import JSONB;
+  v_import_id UUID;
+  v_import_ids JSONB := '[]'::JSONB;
+  v_total INTEGER := 0;
+  v_position INTEGER := 0;
+BEGIN
+  FOR v_step IN SELECT * FROM jsonb_array_elements(COALESCE(p_steps, '[]'::JSONB)) LOOP
+    v_table := v_step->>'table';
+    v_action := v_step->>'action';
+    v_index := COALESCE(v_step->>'import_index', '0');
+
+    IF NOT v_table = ANY(v_allowed_tables) THEN
+      RAISE EXCEPTION 'Imports cannot write to table %', v_table;
+    END IF;
+
+    SELECT COALESCE(array_agg(attname::TEXT), ARRAY[]::TEXT[]) INTO v_generated_columns
+    FROM pg_attribute
+    WHERE attrelid = format('public.%I', v_table)::regclass
+      AND attnum > 0
+      AND attgenerated <> ''
+      AND NOT attisdropped;
+
+    FOR v_row IN SELECT * FROM jsonb_array_elements(v_step->'rows') LOOP
+      v_id := (v_row->>'id')::UUID;
+      v_row := v_row - v_generated_columns;
+      v_change := NULL;
+
+      IF v_action = 'insert' THEN
+        SELECT string_agg(format('%I', key), ', ') INTO v_columns
+        FROM jsonb_object_keys(v_row) AS key;
+
+        EXECUTE format(
+          'INSERT INTO public.%I (%s) SELECT %s FROM jsonb_populate_record(NULL::public.%I, $1)',
+          v_table, v_columns, v_columns, v_table
+        ) USING v_row;
+
+        v_change := jsonb_build_object('table', v_table, 'id', v_id, 'action', 'insert', 'before', NULL);
+
+      ELSIF v_action = 'update' THEN
+        EXECUTE format('SELECT to_jsonb(t) FROM public.%I t WHERE t.id = $1 FOR UPDATE', v_table)
+          INTO v_before USING v_id;
+
+        IF v_before IS NULL THEN
+          RAISE EXCEPTION '% row % no longer exists', v_table, v_id;
+        END IF;
+
+        SELECT string_agg(format('%I = r.%I', key, key), ', ') INTO v_assignments
+        FROM jsonb_object_keys(v_row - 'id') AS key;
+
+        IF v_assignments IS NOT NULL THEN
+          EXECUTE format(
+            'UPDATE public.%I t SET %s FROM jsonb_populate_record(NULL::public.%I, $1) r WHERE t.id = $2',
+            v_table, v_assignments, v_table
+          ) USING v_row, v_id;
+        END IF;
+
+        v_change := jsonb_build_object('table', v_table, 'id', v_id, 'action', 'update', 'before', v_before);
+
+      ELSIF v_action = 'delete' THEN
+        EXECUTE format('DELETE FROM public.%I t WHERE t.id = $1 RETURNING to_jsonb(t)', v_table)
+          INTO v_before USING v_id;
+
+        IF v_before IS NOT NULL THEN
+          v_change := jsonb_build_object('table', v_table, 'id', v_id, 'action', 'delete', 'before', v_before);
+        END IF;
+
+      ELSE
+        RAISE EXCEPTION 'Unknown import action %', v_action;
+      END IF;
+
+      -- Keep the first change per row: its before-image is the pre-import state
+      IF v_change IS NOT NULL AND NOT v_seen ? (v_table || ':' || v_id) THEN
+        v_seen := v_seen || jsonb_build_object(v_table || ':' || v_id, true);
+        v_changes := jsonb_set(
+          v_changes,
+          ARRAY[v_index],
+          COALESCE(v_changes->v_index, '[]'::JSONB) || jsonb_build_array(v_change)
+        );
+        v_total := v_total + 1;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  FOR v_import IN SELECT * FROM jsonb_array_elements(COALESCE(p_imports, '[]'::JSONB)) LOOP
+    INSERT INTO public.data_imports (
+      project_id, import_type, import_status, imported_by, file_name, file_hash,
+      content_fingerprint, records_processed, records_failed, error_details, metadata, row_changes
+    )
+    SELECT
+      r.project_id, r.import_type, r.import_status, r.imported_by, r.file_name, r.file_hash,
+      r.content_fingerprint, COALESCE(r.records_processed, 0), COALESCE(r.records_failed, 0),
+      r.error_details, r.metadata, COALESCE(v_changes->(v_position::TEXT), '[]'::JSONB)
+    FROM jsonb_populate_record(NULL::public.data_imports, v_import) r
+    RETURNING id INTO v_import_id;
+
+    v_import_ids := v_import_ids || jsonb_build_array(v_import_id);
+    v_position := v_position + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('import_ids', v_import_ids, 'changes', v_total);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
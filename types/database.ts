@@ -371,6 +371,7 @@ export type Database = {
           craft_type_id: string
           headcount: number
           avg_weekly_hours: number
+          source: 'manual' | 'generated'
           created_at: string
           updated_at: string
         }
@@ -381,6 +382,7 @@ export type Database = {
           craft_type_id: string
           headcount: number
           avg_weekly_hours: number
+          source?: 'manual' | 'generated'
           created_at?: string
           updated_at?: string
         }
@@ -391,6 +393,7 @@ export type Database = {
           craft_type_id?: string
           headcount?: number
           avg_weekly_hours?: number
+          source?: 'manual' | 'generated'
           created_at?: string
           updated_at?: string
         }
@@ -499,7 +502,7 @@ export type Database = {
         Row: {
           id: string
           purchase_order_id: string
-          changed_by: string
+          changed_by: string | null
           change_date: string
           field_name: string
           old_value: string | null
@@ -510,7 +513,7 @@ export type Database = {
         Insert: {
           id?: string
           purchase_order_id: string
-          changed_by: string
+          changed_by?: string | null
           change_date?: string
           field_name: string
           old_value?: string | null